@@ -0,0 +1,288 @@
+/**
+ * Manual Check-ins Page
+ * Review queue for kiosk check-ins made after face recognition failed.
+ * Shows the evidence photo and geofence result; a supervisor co-signs or
+ * rejects each pending entry.
+ */
+
+'use client'
+
+export const dynamic = 'force-dynamic'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { ApiClient } from '@/lib/api-client'
+import type { ManualCheckinStatus } from '@/lib/server-db'
+import { logger } from '@/lib/logger'
+import { UserCheck, RefreshCw, Check, X, MapPin, ImageOff } from 'lucide-react'
+
+type ManualCheckinRow = Awaited<ReturnType<typeof ApiClient.getManualCheckins>>['data'][number]
+
+const PAGE_SIZE = 50
+
+const TYPE_LABELS: Record<string, string> = {
+  'check-in': 'Check in',
+  'break-start': 'Break start',
+  'break-end': 'Break end',
+  'check-out': 'Check out',
+}
+
+function formatDateTime(value?: Date | string): string {
+  return value ? new Date(value).toLocaleString('id-ID') : '—'
+}
+
+function geofenceSummary(checkin: ManualCheckinRow): string {
+  const geofence = checkin.geofence
+  if (!geofence) return '—'
+  const distance = typeof geofence.distanceMeters === 'number' ? ` · ${Math.round(geofence.distanceMeters)} m` : ''
+  return `${geofence.siteName || geofence.status}${distance}`
+}
+
+export default function ManualCheckinsPage() {
+  const [status, setStatus] = useState<ManualCheckinStatus>('pending')
+  const [checkins, setCheckins] = useState<ManualCheckinRow[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // Review dialog
+  const [reviewTarget, setReviewTarget] = useState<ManualCheckinRow | null>(null)
+  const [decision, setDecision] = useState<'approve' | 'reject'>('approve')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const [photoPreview, setPhotoPreview] = useState<string | null>(null)
+
+  const load = async () => {
+    try {
+      setLoading(true)
+      const response = await ApiClient.getManualCheckins({ status, limit: PAGE_SIZE })
+      setCheckins(response.data || [])
+      setTotal(response.pagination?.total || 0)
+      setError(null)
+    } catch (err) {
+      logger.error('Error loading manual check-ins', err as Error)
+      setError(err instanceof Error ? err.message : 'Failed to load manual check-ins')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+  }, [status])
+
+  const openReview = (checkin: ManualCheckinRow, nextDecision: 'approve' | 'reject') => {
+    setDecision(nextDecision)
+    setNotes('')
+    setReviewTarget(checkin)
+  }
+
+  const submitReview = async () => {
+    if (!reviewTarget) return
+    try {
+      setSaving(true)
+      await ApiClient.reviewManualCheckin(reviewTarget.id, decision, notes.trim() || undefined)
+      setReviewTarget(null)
+      await load()
+    } catch (err) {
+      logger.error('Error reviewing manual check-in', err as Error)
+      setError(err instanceof Error ? err.message : 'Failed to review manual check-in')
+      setReviewTarget(null)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Manual Check-ins</h1>
+          <p className="text-muted-foreground">
+            Kiosk check-ins made without face recognition, co-signed by a supervisor
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <UserCheck className="h-5 w-5" />
+                Check-ins
+              </CardTitle>
+              <CardDescription>
+                {total} {status} {total === 1 ? 'entry' : 'entries'}. Approved check-ins are recorded as unverified.
+              </CardDescription>
+            </div>
+            <Tabs value={status} onValueChange={v => setStatus(v as ManualCheckinStatus)}>
+              <TabsList>
+                <TabsTrigger value="pending">Pending</TabsTrigger>
+                <TabsTrigger value="approved">Approved</TabsTrigger>
+                <TabsTrigger value="rejected">Rejected</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {checkins.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">
+              {loading ? 'Loading...' : `No ${status} manual check-ins`}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Photo</TableHead>
+                  <TableHead>Employee</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Identified by</TableHead>
+                  <TableHead>Face error</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>{status === 'pending' ? '' : 'Reviewed'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {checkins.map(checkin => (
+                  <TableRow key={checkin.id}>
+                    <TableCell>
+                      {checkin.photoUrl ? (
+                        <button type="button" onClick={() => setPhotoPreview(checkin.photoUrl)}>
+                          <img
+                            src={checkin.photoUrl}
+                            alt={`Evidence for ${checkin.userName || checkin.userId}`}
+                            className="h-12 w-16 rounded object-cover transform scale-x-[-1]"
+                          />
+                        </button>
+                      ) : (
+                        <ImageOff className="h-5 w-5 text-muted-foreground" />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{checkin.userName || checkin.userId}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {[checkin.employeeId, checkin.department].filter(Boolean).join(' · ')}
+                      </div>
+                    </TableCell>
+                    <TableCell>{TYPE_LABELS[checkin.type] || checkin.type}</TableCell>
+                    <TableCell>{formatDateTime(checkin.eventTimestamp)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{checkin.identifiedBy === 'pin' ? 'PIN' : 'Employee ID'}</Badge>
+                    </TableCell>
+                    <TableCell className="text-xs">{checkin.faceErrorCode || '—'}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1 text-sm">
+                        <MapPin className="h-3 w-3" />
+                        {geofenceSummary(checkin)}
+                      </div>
+                      {checkin.zoneViolation && (
+                        <Badge variant="destructive" className="mt-1">Outside zone</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {checkin.status === 'pending' ? (
+                        <div className="flex justify-end gap-2">
+                          <Button size="sm" onClick={() => openReview(checkin, 'approve')}>
+                            <Check className="h-4 w-4 mr-1" />
+                            Co-sign
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => openReview(checkin, 'reject')}>
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="text-left text-sm">
+                          <div>
+                            {checkin.cosignedByName || checkin.cosignedBy || '—'}
+                            {checkin.cosignVia === 'kiosk' && (
+                              <Badge variant="secondary" className="ml-2">At kiosk</Badge>
+                            )}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{formatDateTime(checkin.cosignedAt)}</div>
+                          {checkin.reviewNotes && (
+                            <div className="text-xs text-muted-foreground mt-1">{checkin.reviewNotes}</div>
+                          )}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!reviewTarget} onOpenChange={open => !open && setReviewTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision === 'approve' ? 'Co-sign' : 'Reject'} {reviewTarget?.userName || 'check-in'}
+            </DialogTitle>
+            <DialogDescription>
+              {decision === 'approve'
+                ? 'Creates an unverified attendance record at the time of the kiosk check-in.'
+                : 'No attendance record is created for this check-in.'}
+            </DialogDescription>
+          </DialogHeader>
+          {reviewTarget?.photoUrl && (
+            <img
+              src={reviewTarget.photoUrl}
+              alt="Evidence"
+              className="w-full max-h-64 rounded object-contain transform scale-x-[-1]"
+            />
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="manual-review-notes">Notes (optional)</Label>
+            <Textarea
+              id="manual-review-notes"
+              value={notes}
+              maxLength={500}
+              onChange={e => setNotes(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewTarget(null)}>Cancel</Button>
+            <Button
+              variant={decision === 'approve' ? 'default' : 'destructive'}
+              onClick={submitReview}
+              disabled={saving}
+            >
+              {saving ? 'Saving...' : decision === 'approve' ? 'Co-sign' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!photoPreview} onOpenChange={open => !open && setPhotoPreview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Evidence photo</DialogTitle>
+          </DialogHeader>
+          {photoPreview && (
+            <img src={photoPreview} alt="Evidence" className="w-full rounded object-contain transform scale-x-[-1]" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -33,6 +33,7 @@ interface AttendanceRecordWithId {
   photo?: string
   notes?: string
   status?: 'present' | 'absent' | 'late' | 'early_leave' | 'on_leave'
+  zoneViolation?: boolean
   user?: {
     id: string
     name: string
@@ -57,6 +58,7 @@ export default function AttendancePage() {
     pageSize: 20,
     total: 0,
   })
+  const [zoneViolationCount, setZoneViolationCount] = useState(0)
   const [filters, setFilters] = useState<Record<string, any>>({})
   const [searchQuery, setSearchQuery] = useState("")
   const [sorting, setSorting] = useState({
@@ -97,6 +99,7 @@ export default function AttendancePage() {
           ...prev,
           total: data.pagination.total,
         }))
+        setZoneViolationCount(data.summary?.zoneViolations ?? 0)
       } else {
         logger.error('Failed to fetch attendance records', new Error(data.error))
       }
@@ -390,7 +393,15 @@ export default function AttendancePage() {
     {
       key: "location",
       title: "Lokasi",
-      render: (value: any) => {
+      render: (value: any, record: AttendanceRecordWithId) => {
+        if (record.zoneViolation) {
+          return (
+            <Badge className="bg-red-500/20 text-red-400 border-red-500/30">
+              <MapPin className="w-3 h-3 mr-1" />
+              Di luar zona
+            </Badge>
+          )
+        }
         if (!value) {
           return <span className="text-slate-400">-</span>
         }
@@ -663,7 +674,7 @@ export default function AttendancePage() {
           </div>
 
           {/* Stats Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
             <Card className="bg-slate-800/50 border-slate-700">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm font-medium text-slate-300">Total Records</CardTitle>
@@ -695,6 +706,15 @@ export default function AttendancePage() {
                 </div>
               </CardContent>
             </Card>
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium text-slate-300">Di Luar Zona</CardTitle>
+                <MapPin className="h-4 w-4 text-red-400" />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold text-white">{zoneViolationCount}</div>
+              </CardContent>
+            </Card>
             <Card className="bg-slate-800/50 border-slate-700">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-sm font-medium text-slate-300">Tingkat Kehadiran</CardTitle>
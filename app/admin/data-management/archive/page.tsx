@@ -0,0 +1,39 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import * as React from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { DataArchival } from "@/components/data-management/DataArchival"
+import { ArrowLeft } from "lucide-react"
+// Layout is provided by app/admin/layout.tsx
+
+export default function DataArchivePage() {
+  const router = useRouter()
+
+  return (
+    <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-white">Data Archive</h1>
+              <p className="text-slate-400">Archive, restore and clean up records, and manage retention</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => router.push("/admin/data-management")}
+                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Data Management
+              </Button>
+            </div>
+          </div>
+
+          <DataArchival />
+        </div>
+  )
+}
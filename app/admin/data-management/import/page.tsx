@@ -9,8 +9,12 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Progress } from "@/components/ui/progress"
 import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ApiClient } from "@/lib/api-client"
+import type { ServerImportSession, ImportRowResult, ImportType, ImportMode } from "@/lib/server-db"
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 import {
   Upload,
@@ -25,14 +29,14 @@ import {
   FileSpreadsheet,
   FileJson,
   FileArchive,
+  Fingerprint,
   Users,
   Calendar,
-  Settings,
   ArrowRight,
   ArrowLeft,
   Play,
-  Pause,
-  RotateCcw
+  RotateCcw,
+  Undo2
 } from "lucide-react"
 // Layout is provided by app/admin/layout.tsx
 
@@ -41,40 +45,31 @@ interface ImportTemplate {
   id: string
   name: string
   description: string
-  type: "employees" | "attendance" | "schedules"
+  type: ImportType
   requiredFields: string[]
   optionalFields: string[]
   sampleData: any[]
-  downloadUrl: string
 }
 
-interface ImportJob {
-  id: string
-  filename: string
-  type: "employees" | "attendance" | "schedules"
-  status: "pending" | "processing" | "completed" | "failed" | "paused"
-  progress: number
-  totalRecords: number
-  processedRecords: number
-  errors: string[]
-  warnings: string[]
-  createdAt: string
-  startedAt?: string
-  completedAt?: string
-  createdBy: string
+type RowFilter = "all" | ImportRowResult["action"]
+
+// Rows rendered at once in the preview table
+const PREVIEW_ROW_LIMIT = 200
+
+const importModes: Array<{ value: ImportMode; label: string; description: string }> = [
+  { value: "insert", label: "Add new", description: "Create new records, skip existing ones" },
+  { value: "update", label: "Update existing", description: "Change existing records, skip new ones" },
+  { value: "upsert", label: "Add and update", description: "Create new records and change existing ones" }
+]
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined || value === "") return "(empty)"
+  return String(value)
 }
 
-interface ImportPreview {
-  headers: string[]
-  data: any[]
-  totalRows: number
-  sampleRows: any[]
-  mapping: { [key: string]: string }
-  validation: {
-    validRows: number
-    invalidRows: number
-    errors: string[]
-  }
+function toCsv(rows: any[]): string {
+  const headers = Object.keys(rows[0] || {})
+  return [headers.join(","), ...rows.map(row => headers.map(header => row[header] ?? "").join(","))].join("\n")
 }
 
 export default function DataImportPage() {
@@ -83,15 +78,28 @@ export default function DataImportPage() {
   // State management
   const [activeTab, setActiveTab] = useState("upload")
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
-  const [importType, setImportType] = useState<"employees" | "attendance" | "schedules">("employees")
+  const [importType, setImportType] = useState<ImportType>("employees")
+  const [importMode, setImportMode] = useState<ImportMode>("insert")
+  // Punch logs: parser ("auto" detects it) and the source badge numbers belong to
+  const [punchLogFormat, setPunchLogFormat] = useState("auto")
+  const [punchLogSource, setPunchLogSource] = useState("default")
+  const [punchLogFormats, setPunchLogFormats] = useState<Array<{ id: string; label: string }>>([])
   const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
-  const [uploadProgress, setUploadProgress] = useState(0)
-  const [currentJob, setCurrentJob] = useState<ImportJob | null>(null)
-  const [importHistory, setImportHistory] = useState<ImportJob[]>([])
-  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [isCommitting, setIsCommitting] = useState(false)
+  const [importHistory, setImportHistory] = useState<ServerImportSession[]>([])
+  const [preview, setPreview] = useState<ServerImportSession | null>(null)
+  const [rowFilter, setRowFilter] = useState<RowFilter>("all")
   const [templates, setTemplates] = useState<ImportTemplate[]>([])
   const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  // Session whose undo was refused, with the rows that changed since
+  const [undoConflicts, setUndoConflicts] = useState<{
+    sessionId: string
+    conflicts: Array<{ row: number; entity: string; id: string; reason: string }>
+  } | null>(null)
+  const [undoingId, setUndoingId] = useState<string | null>(null)
 
   // Import templates
   const importTemplates: ImportTemplate[] = [
@@ -100,86 +108,36 @@ export default function DataImportPage() {
       name: "Employee Data",
       description: "Import employee information including personal details and employment data",
       type: "employees",
-      requiredFields: ["name", "email", "employeeId", "department", "role"],
-      optionalFields: ["phone", "address", "startDate", "salary", "manager"],
+      requiredFields: ["email", "name"],
+      optionalFields: ["role", "department", "position", "employee_id", "phone", "start_date"],
       sampleData: [
-        { name: "John Doe", email: "john@example.com", employeeId: "EMP001", department: "IT", role: "Developer" },
-        { name: "Jane Smith", email: "jane@example.com", employeeId: "EMP002", department: "HR", role: "Manager" }
-      ],
-      downloadUrl: "/templates/employees-template.csv"
+        { email: "john@example.com", name: "John Doe", role: "employee", department: "IT", position: "Developer", employee_id: "EMP001", phone: "", start_date: "2025-01-06" },
+        { email: "jane@example.com", name: "Jane Smith", role: "manager", department: "HR", position: "HR Manager", employee_id: "EMP002", phone: "", start_date: "2025-01-06" }
+      ]
     },
     {
       id: "attendance",
       name: "Attendance Records",
-      description: "Import attendance data including check-in and check-out records",
+      description: "Import daily check-in and check-out times, matched to employees by email, employee ID or user ID",
       type: "attendance",
-      requiredFields: ["employeeId", "date", "type", "timestamp"],
-      optionalFields: ["location", "notes", "approvedBy"],
+      requiredFields: ["email or employee_id", "date", "clock_in or clock_out"],
+      optionalFields: ["user_id", "status", "notes"],
       sampleData: [
-        { employeeId: "EMP001", date: "2025-01-01", type: "check-in", timestamp: "2025-01-01T08:00:00Z" },
-        { employeeId: "EMP001", date: "2025-01-01", type: "check-out", timestamp: "2025-01-01T17:00:00Z" }
-      ],
-      downloadUrl: "/templates/attendance-template.csv"
+        { employee_id: "EMP001", date: "2025-01-06", clock_in: "08:00", clock_out: "17:00", status: "present", notes: "" },
+        { employee_id: "EMP002", date: "2025-01-06", clock_in: "08:20", clock_out: "17:05", status: "late", notes: "Traffic" }
+      ]
     },
     {
-      id: "schedules",
-      name: "Work Schedules",
-      description: "Import work schedules and shift assignments",
-      type: "schedules",
-      requiredFields: ["employeeId", "startDate", "endDate", "shiftType"],
-      optionalFields: ["location", "notes", "approvedBy"],
+      id: "punch_log",
+      name: "Time Clock Punch Log",
+      description: "Import raw punches from fingerprint or RFID terminals (ZKTeco attlog or CSV); badge numbers map to employees through their external IDs",
+      type: "punch_log",
+      requiredFields: ["badge", "timestamp"],
+      optionalFields: ["state", "device"],
       sampleData: [
-        { employeeId: "EMP001", startDate: "2025-01-01", endDate: "2025-01-31", shiftType: "Regular" },
-        { employeeId: "EMP002", startDate: "2025-01-01", endDate: "2025-01-31", shiftType: "Night" }
-      ],
-      downloadUrl: "/templates/schedules-template.csv"
-    }
-  ]
-
-  // Mock import history
-  const mockImportHistory: ImportJob[] = [
-    {
-      id: "1",
-      filename: "employees_january.csv",
-      type: "employees",
-      status: "completed",
-      progress: 100,
-      totalRecords: 150,
-      processedRecords: 150,
-      errors: [],
-      warnings: ["2 employees had missing phone numbers"],
-      createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
-      startedAt: new Date(Date.now() - 2 * 60 * 60 * 1000 + 5 * 60 * 1000).toISOString(),
-      completedAt: new Date(Date.now() - 2 * 60 * 60 * 1000 + 10 * 60 * 1000).toISOString(),
-      createdBy: "Admin"
-    },
-    {
-      id: "2",
-      filename: "attendance_records.csv",
-      type: "attendance",
-      status: "failed",
-      progress: 45,
-      totalRecords: 500,
-      processedRecords: 225,
-      errors: ["Invalid date format in row 226", "Missing employee ID in row 227"],
-      warnings: [],
-      createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
-      startedAt: new Date(Date.now() - 24 * 60 * 60 * 1000 + 10 * 60 * 1000).toISOString(),
-      createdBy: "HR Manager"
-    },
-    {
-      id: "3",
-      filename: "schedules_february.csv",
-      type: "schedules",
-      status: "processing",
-      progress: 65,
-      totalRecords: 75,
-      processedRecords: 49,
-      errors: [],
-      warnings: ["1 schedule has conflicting dates"],
-      createdAt: new Date(Date.now() - 30 * 60 * 1000).toISOString(),
-      startedAt: new Date(Date.now() - 25 * 60 * 1000).toISOString(),
-      createdBy: "Admin"
+        { badge: "1001", timestamp: "2025-01-06 07:58:12", state: "in", device: "GATE-1" },
+        { badge: "1001", timestamp: "2025-01-06 17:03:40", state: "out", device: "GATE-1" }
+      ]
     }
   ]
 
@@ -188,7 +146,9 @@ export default function DataImportPage() {
     try {
       setLoading(true)
       setTemplates(importTemplates)
-      setImportHistory(mockImportHistory)
+      const response = await ApiClient.getImportSessions()
+      setImportHistory(response.data || [])
+      setPunchLogFormats(response.meta?.punchLogFormats || [])
     } catch (error) {
       logger.error('Error fetching import data', error as Error)
     } finally {
@@ -200,6 +160,7 @@ export default function DataImportPage() {
   const handleFileSelect = (file: File) => {
     setSelectedFile(file)
     setPreview(null)
+    setError(null)
   }
 
   // Handle drag and drop
@@ -223,126 +184,100 @@ export default function DataImportPage() {
     }
   }
 
-  // Handle file upload
+  // Download a CSV template with the import's columns
+  const downloadTemplate = (template: ImportTemplate) => {
+    const blob = new Blob([toCsv(template.sampleData)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${template.id}-template.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Upload the file for a dry run; nothing is written yet
   const handleUpload = async () => {
     if (!selectedFile) return
 
     setIsUploading(true)
-    setUploadProgress(0)
+    setError(null)
+    setNotice(null)
 
     try {
-      // Simulate upload progress
-      const interval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 90) {
-            clearInterval(interval)
-            return 90
-          }
-          return prev + 10
-        })
-      }, 200)
-
-      // Simulate file processing
-      setTimeout(() => {
-        clearInterval(interval)
-        setUploadProgress(100)
-        
-        // Generate preview
-        const mockPreview: ImportPreview = {
-          headers: ["name", "email", "employeeId", "department", "role"],
-          data: [
-            { name: "John Doe", email: "john@example.com", employeeId: "EMP001", department: "IT", role: "Developer" },
-            { name: "Jane Smith", email: "jane@example.com", employeeId: "EMP002", department: "HR", role: "Manager" }
-          ],
-          totalRows: 25,
-          sampleRows: [
-            { name: "John Doe", email: "john@example.com", employeeId: "EMP001", department: "IT", role: "Developer" }
-          ],
-          mapping: {
-            "name": "name",
-            "email": "email",
-            "employeeId": "employeeId",
-            "department": "department",
-            "role": "role"
-          },
-          validation: {
-            validRows: 23,
-            invalidRows: 2,
-            errors: ["Row 15: Invalid email format", "Row 22: Missing required field: department"]
-          }
-        }
-        
-        setPreview(mockPreview)
-        setIsUploading(false)
-        setActiveTab("preview")
-      }, 2000)
+      const response = await ApiClient.previewImport(
+        selectedFile,
+        importType,
+        importMode,
+        importType === "punch_log"
+          ? { format: punchLogFormat === "auto" ? undefined : punchLogFormat, source: punchLogSource }
+          : undefined
+      )
+      setPreview(response.data)
+      setRowFilter("all")
+      setActiveTab("preview")
     } catch (error) {
       logger.error('Error uploading file', error as Error)
+      setError((error as Error).message)
+    } finally {
       setIsUploading(false)
     }
   }
 
-  // Start import process
+  // Apply the previewed changes
   const startImport = async () => {
     if (!preview) return
 
-    const newJob: ImportJob = {
-      id: Date.now().toString(),
-      filename: selectedFile?.name || "unknown.csv",
-      type: importType,
-      status: "processing",
-      progress: 0,
-      totalRecords: preview.totalRows,
-      processedRecords: 0,
-      errors: [],
-      warnings: preview.validation.errors.length > 0 ? ["Some records have validation warnings"] : [],
-      createdAt: new Date().toISOString(),
-      startedAt: new Date().toISOString(),
-      createdBy: "Admin"
+    setIsCommitting(true)
+    setError(null)
+
+    try {
+      const response = await ApiClient.commitImportSession(preview.id)
+      setNotice(response.message)
+      setPreview(null)
+      setSelectedFile(null)
+      await fetchData()
+      setActiveTab("history")
+    } catch (error) {
+      logger.error('Error committing import', error as Error)
+      setError((error as Error).message)
+    } finally {
+      setIsCommitting(false)
     }
+  }
+
+  // Revert a committed import
+  const undoImport = async (sessionId: string, skipConflicts: boolean = false) => {
+    setUndoingId(sessionId)
+    setError(null)
+    setNotice(null)
 
-    setCurrentJob(newJob)
-    setActiveTab("progress")
-
-    // Simulate import progress
-    const interval = setInterval(() => {
-      setCurrentJob(prev => {
-        if (!prev) return null
-        
-        const newProgress = Math.min(prev.progress + 5, 100)
-        const newProcessedRecords = Math.floor((newProgress / 100) * prev.totalRecords)
-        
-        if (newProgress >= 100) {
-          clearInterval(interval)
-          return {
-            ...prev,
-            progress: 100,
-            processedRecords: prev.totalRecords,
-            status: "completed",
-            completedAt: new Date().toISOString()
-          }
-        }
-        
-        return {
-          ...prev,
-          progress: newProgress,
-          processedRecords: newProcessedRecords
-        }
-      })
-    }, 500)
+    try {
+      const response = await ApiClient.rollbackImportSession(sessionId, skipConflicts)
+      setNotice(response.message)
+      setUndoConflicts(null)
+      await fetchData()
+    } catch (error) {
+      const details = (error as any).details
+      if ((error as any).errorCode === 'IMPORT_ROLLBACK_CONFLICT' && details?.conflicts) {
+        setUndoConflicts({ sessionId, conflicts: details.conflicts })
+      } else {
+        logger.error('Error undoing import', error as Error)
+      }
+      setError((error as Error).message)
+    } finally {
+      setUndoingId(null)
+    }
   }
 
+  const previewRows = (preview?.rows || []).filter(row => rowFilter === "all" || row.action === rowFilter)
+
   // Get status icon
   const getStatusIcon = (status: string) => {
     switch (status) {
-      case "completed":
+      case "committed":
         return <CheckCircle className="w-4 h-4 text-green-400" />
-      case "processing":
-        return <RefreshCw className="w-4 h-4 text-blue-400 animate-spin" />
-      case "failed":
-        return <AlertCircle className="w-4 h-4 text-red-400" />
-      case "paused":
-        return <Pause className="w-4 h-4 text-yellow-400" />
+      case "rolled_back":
+        return <RotateCcw className="w-4 h-4 text-yellow-400" />
       default:
         return <Clock className="w-4 h-4 text-slate-400" />
     }
@@ -351,13 +286,14 @@ export default function DataImportPage() {
   // Get status color
   const getStatusColor = (status: string) => {
     switch (status) {
-      case "completed":
+      case "committed":
+      case "create":
         return "bg-green-500/20 text-green-400 border-green-500/30"
-      case "processing":
+      case "update":
         return "bg-blue-500/20 text-blue-400 border-blue-500/30"
-      case "failed":
+      case "error":
         return "bg-red-500/20 text-red-400 border-red-500/30"
-      case "paused":
+      case "rolled_back":
         return "bg-yellow-500/20 text-yellow-400 border-yellow-500/30"
       default:
         return "bg-slate-500/20 text-slate-400 border-slate-500/30"
@@ -390,6 +326,20 @@ export default function DataImportPage() {
             </div>
           </div>
 
+          {error && (
+            <Alert className="bg-red-500/10 border-red-500/30">
+              <AlertCircle className="w-4 h-4 text-red-400" />
+              <AlertDescription className="text-red-400">{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {notice && (
+            <Alert className="bg-green-500/10 border-green-500/30">
+              <CheckCircle className="w-4 h-4 text-green-400" />
+              <AlertDescription className="text-green-400">{notice}</AlertDescription>
+            </Alert>
+          )}
+
           {/* Import Tabs */}
           <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
             <TabsList className="bg-slate-800 border-slate-700">
@@ -399,11 +349,7 @@ export default function DataImportPage() {
               </TabsTrigger>
               <TabsTrigger value="preview" className="data-[state=active]:bg-slate-700" disabled={!preview}>
                 <Eye className="w-4 h-4 mr-2" />
-                Preview & Map
-              </TabsTrigger>
-              <TabsTrigger value="progress" className="data-[state=active]:bg-slate-700" disabled={!currentJob}>
-                <Play className="w-4 h-4 mr-2" />
-                Import Progress
+                Preview Changes
               </TabsTrigger>
               <TabsTrigger value="history" className="data-[state=active]:bg-slate-700">
                 <Clock className="w-4 h-4 mr-2" />
@@ -433,10 +379,13 @@ export default function DataImportPage() {
                         <div className="flex items-center gap-3 mb-2">
                           {template.type === "employees" && <Users className="w-5 h-5 text-emerald-400" />}
                           {template.type === "attendance" && <Calendar className="w-5 h-5 text-blue-400" />}
-                          {template.type === "schedules" && <Settings className="w-5 h-5 text-purple-400" />}
+                          {template.type === "punch_log" && <Fingerprint className="w-5 h-5 text-purple-400" />}
                           <h3 className="font-medium text-white">{template.name}</h3>
                         </div>
                         <p className="text-sm text-slate-400">{template.description}</p>
+                        <p className="text-xs text-slate-500 mt-2">
+                          Required: {template.requiredFields.join(", ")} • Optional: {template.optionalFields.join(", ")}
+                        </p>
                         <div className="mt-2">
                           <Button
                             variant="ghost"
@@ -444,7 +393,7 @@ export default function DataImportPage() {
                             className="text-emerald-400 hover:text-emerald-300 p-0 h-auto"
                             onClick={(e) => {
                               e.stopPropagation()
-                              // Download template
+                              downloadTemplate(template)
                             }}
                           >
                             <Download className="w-4 h-4 mr-1" />
@@ -457,6 +406,62 @@ export default function DataImportPage() {
                 </CardContent>
               </Card>
 
+              {/* Import Mode */}
+              <Card className="bg-slate-800/50 border-slate-700">
+                <CardHeader>
+                  <CardTitle className="text-white">Import Mode</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {importModes.map((mode) => (
+                      <div
+                        key={mode.value}
+                        className={`p-4 rounded-lg border cursor-pointer transition-colors ${
+                          importMode === mode.value
+                            ? "bg-emerald-500/20 border-emerald-500/30"
+                            : "bg-slate-700/30 border-slate-600 hover:bg-slate-700/50"
+                        }`}
+                        onClick={() => setImportMode(mode.value)}
+                      >
+                        <h3 className="font-medium text-white">{mode.label}</h3>
+                        <p className="text-sm text-slate-400">{mode.description}</p>
+                      </div>
+                    ))}
+                  </div>
+
+                  {importType === "punch_log" && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
+                      <div>
+                        <Label className="text-slate-300">Log Format</Label>
+                        <Select value={punchLogFormat} onValueChange={setPunchLogFormat}>
+                          <SelectTrigger className="bg-slate-700 border-slate-600">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Detect automatically</SelectItem>
+                            {punchLogFormats.map((format) => (
+                              <SelectItem key={format.id} value={format.id}>{format.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label className="text-slate-300">Badge Source</Label>
+                        <Input
+                          value={punchLogSource}
+                          onChange={(e) => setPunchLogSource(e.target.value)}
+                          placeholder="default"
+                          className="bg-slate-700 border-slate-600 text-white"
+                        />
+                        <p className="text-xs text-slate-500 mt-1">
+                          Terminal system the badge numbers belong to, as set on each employee&apos;s external IDs
+                        </p>
+                      </div>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
               {/* File Upload */}
               <Card className="bg-slate-800/50 border-slate-700">
                 <CardHeader>
@@ -478,11 +483,13 @@ export default function DataImportPage() {
                       Drag and drop your file here, or click to browse
                     </p>
                     <p className="text-slate-400 text-sm mb-4">
-                      Supports CSV, Excel (.xlsx), and JSON files
+                      {importType === "punch_log"
+                        ? "Supports terminal logs (.dat, .txt) and CSV exports"
+                        : "Supports CSV, Excel (.xlsx), and JSON files"}
                     </p>
                     <input
                       type="file"
-                      accept=".csv,.xlsx,.json"
+                      accept={importType === "punch_log" ? ".dat,.txt,.csv" : ".csv,.xlsx,.json"}
                       onChange={(e) => e.target.files && handleFileSelect(e.target.files[0])}
                       className="hidden"
                       id="file-upload"
@@ -518,16 +525,6 @@ export default function DataImportPage() {
                     </div>
                   )}
 
-                  {isUploading && (
-                    <div className="mt-4">
-                      <div className="flex items-center justify-between mb-2">
-                        <span className="text-sm text-slate-300">Uploading...</span>
-                        <span className="text-sm text-slate-300">{uploadProgress}%</span>
-                      </div>
-                      <Progress value={uploadProgress} className="h-2 bg-slate-700" />
-                    </div>
-                  )}
-
                   <div className="mt-6 flex justify-end">
                     <Button
                       onClick={handleUpload}
@@ -537,7 +534,7 @@ export default function DataImportPage() {
                       {isUploading ? (
                         <>
                           <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                          Uploading...
+                          Checking...
                         </>
                       ) : (
                         <>
@@ -555,90 +552,119 @@ export default function DataImportPage() {
             <TabsContent value="preview" className="space-y-6">
               {preview && (
                 <>
-                  {/* Validation Summary */}
+                  {/* Dry-run Summary */}
                   <Card className="bg-slate-800/50 border-slate-700">
                     <CardHeader>
-                      <CardTitle className="text-white">Validation Summary</CardTitle>
+                      <CardTitle className="text-white">Dry Run: {preview.filename}</CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        <div className="text-center">
+                          <p className="text-2xl font-bold text-white">{preview.summary.total}</p>
+                          <p className="text-sm text-slate-400">Total Rows</p>
+                        </div>
+                        <div className="text-center">
+                          <p className="text-2xl font-bold text-green-400">{preview.summary.create}</p>
+                          <p className="text-sm text-slate-400">Create</p>
+                        </div>
                         <div className="text-center">
-                          <p className="text-2xl font-bold text-white">{preview.totalRows}</p>
-                          <p className="text-sm text-slate-400">Total Records</p>
+                          <p className="text-2xl font-bold text-blue-400">{preview.summary.update}</p>
+                          <p className="text-sm text-slate-400">Update</p>
                         </div>
                         <div className="text-center">
-                          <p className="text-2xl font-bold text-green-400">{preview.validation.validRows}</p>
-                          <p className="text-sm text-slate-400">Valid Records</p>
+                          <p className="text-2xl font-bold text-slate-300">{preview.summary.skip}</p>
+                          <p className="text-sm text-slate-400">Skip</p>
                         </div>
                         <div className="text-center">
-                          <p className="text-2xl font-bold text-red-400">{preview.validation.invalidRows}</p>
-                          <p className="text-sm text-slate-400">Invalid Records</p>
+                          <p className="text-2xl font-bold text-red-400">{preview.summary.error}</p>
+                          <p className="text-sm text-slate-400">Errors</p>
                         </div>
                       </div>
 
-                      {preview.validation.errors.length > 0 && (
-                        <Alert className="mt-4 bg-red-500/10 border-red-500/30">
-                          <AlertCircle className="w-4 h-4 text-red-400" />
-                          <AlertDescription className="text-red-400">
-                            <div className="space-y-1">
-                              {preview.validation.errors.map((error, index) => (
-                                <p key={index} className="text-sm">{error}</p>
-                              ))}
-                            </div>
-                          </AlertDescription>
-                        </Alert>
-                      )}
+                      <p className="text-sm text-slate-400 mt-4">
+                        Nothing has been written yet. Rows with errors are left out of the import.
+                        This preview expires {new Date(preview.expiresAt).toLocaleString()}.
+                      </p>
                     </CardContent>
                   </Card>
 
-                  {/* Field Mapping */}
+                  {/* Row Changes */}
                   <Card className="bg-slate-800/50 border-slate-700">
                     <CardHeader>
-                      <CardTitle className="text-white">Field Mapping</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-4">
-                        {Object.entries(preview.mapping).map(([source, target]) => (
-                          <div key={source} className="flex items-center justify-between">
-                            <span className="text-slate-300">{source}</span>
-                            <ArrowRight className="w-4 h-4 text-slate-500" />
-                            <span className="text-white">{target}</span>
-                          </div>
-                        ))}
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-white">Changes by Row</CardTitle>
+                        <div className="flex items-center gap-1">
+                          {(["all", "create", "update", "skip", "error"] as RowFilter[]).map((filter) => (
+                            <Button
+                              key={filter}
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setRowFilter(filter)}
+                              className={rowFilter === filter ? "bg-slate-700 text-white" : "text-slate-400"}
+                            >
+                              {filter}
+                            </Button>
+                          ))}
+                        </div>
                       </div>
-                    </CardContent>
-                  </Card>
-
-                  {/* Sample Data */}
-                  <Card className="bg-slate-800/50 border-slate-700">
-                    <CardHeader>
-                      <CardTitle className="text-white">Sample Data</CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="overflow-x-auto">
                         <table className="w-full text-sm">
                           <thead>
                             <tr className="border-b border-slate-700">
-                              {preview.headers.map((header) => (
-                                <th key={header} className="text-left p-2 text-slate-300">
-                                  {header}
-                                </th>
-                              ))}
+                              <th className="text-left p-2 text-slate-300">Row</th>
+                              <th className="text-left p-2 text-slate-300">Record</th>
+                              <th className="text-left p-2 text-slate-300">Action</th>
+                              <th className="text-left p-2 text-slate-300">Changes</th>
                             </tr>
                           </thead>
                           <tbody>
-                            {preview.sampleRows.map((row, index) => (
-                              <tr key={index} className="border-b border-slate-700">
-                                {preview.headers.map((header) => (
-                                  <td key={header} className="p-2 text-white">
-                                    {row[header] || "-"}
-                                  </td>
-                                ))}
+                            {previewRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                              <tr key={row.row} className="border-b border-slate-700 align-top">
+                                <td className="p-2 text-slate-400">{row.row}</td>
+                                <td className="p-2 text-white">{row.key || "-"}</td>
+                                <td className="p-2">
+                                  <Badge className={getStatusColor(row.action)}>{row.action}</Badge>
+                                </td>
+                                <td className="p-2">
+                                  {row.changes.map((change) => (
+                                    <div key={change.entityId} className="mb-1">
+                                      {row.changes.length > 1 && (
+                                        <p className="text-xs text-slate-400">{change.label}</p>
+                                      )}
+                                      {change.diffs.map((diff) => (
+                                        <p key={diff.field} className="text-xs text-slate-300">
+                                          <span className="text-slate-400">{diff.field}:</span>{" "}
+                                          {change.action === "update" && (
+                                            <>
+                                              <span className="text-red-400 line-through">{formatValue(diff.from)}</span>{" → "}
+                                            </>
+                                          )}
+                                          <span className="text-green-400">{formatValue(diff.to)}</span>
+                                        </p>
+                                      ))}
+                                    </div>
+                                  ))}
+                                  {row.messages.map((message, index) => (
+                                    <p
+                                      key={index}
+                                      className={`text-xs ${row.action === "error" ? "text-red-400" : "text-slate-400"}`}
+                                    >
+                                      {message}
+                                    </p>
+                                  ))}
+                                </td>
                               </tr>
                             ))}
                           </tbody>
                         </table>
                       </div>
+                      {previewRows.length > PREVIEW_ROW_LIMIT && (
+                        <p className="text-sm text-slate-400 mt-4">
+                          Showing {PREVIEW_ROW_LIMIT} of {previewRows.length} rows
+                        </p>
+                      )}
                     </CardContent>
                   </Card>
 
@@ -654,9 +680,14 @@ export default function DataImportPage() {
                     </Button>
                     <Button
                       onClick={startImport}
+                      disabled={isCommitting || preview.summary.create + preview.summary.update === 0}
                       className="bg-emerald-600 hover:bg-emerald-700"
                     >
-                      <Play className="w-4 h-4 mr-2" />
+                      {isCommitting ? (
+                        <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Play className="w-4 h-4 mr-2" />
+                      )}
                       Start Import
                     </Button>
                   </div>
@@ -664,126 +695,98 @@ export default function DataImportPage() {
               )}
             </TabsContent>
 
-            {/* Progress Tab */}
-            <TabsContent value="progress" className="space-y-6">
-              {currentJob && (
-                <Card className="bg-slate-800/50 border-slate-700">
-                  <CardHeader>
-                    <CardTitle className="text-white flex items-center gap-2">
-                      {getStatusIcon(currentJob.status)}
-                      Import Progress
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent>
-                    <div className="space-y-4">
-                      <div>
-                        <div className="flex items-center justify-between mb-2">
-                          <span className="text-sm text-slate-300">
-                            Processing {currentJob.filename}
-                          </span>
-                          <span className="text-sm text-slate-300">
-                            {currentJob.processedRecords} / {currentJob.totalRecords} records
-                          </span>
-                        </div>
-                        <Progress value={currentJob.progress} className="h-2 bg-slate-700" />
-                        <p className="text-center text-white mt-2">{currentJob.progress}%</p>
-                      </div>
-
-                      <div className="grid grid-cols-2 gap-4 text-sm">
-                        <div>
-                          <p className="text-slate-400">Started</p>
-                          <p className="text-white">
-                            {currentJob.startedAt && new Date(currentJob.startedAt).toLocaleString()}
-                          </p>
-                        </div>
-                        {currentJob.completedAt && (
-                          <div>
-                            <p className="text-slate-400">Completed</p>
-                            <p className="text-white">
-                              {new Date(currentJob.completedAt).toLocaleString()}
-                            </p>
-                          </div>
-                        )}
-                      </div>
-
-                      {currentJob.errors.length > 0 && (
-                        <Alert className="bg-red-500/10 border-red-500/30">
-                          <AlertCircle className="w-4 h-4 text-red-400" />
-                          <AlertDescription className="text-red-400">
-                            <div className="space-y-1">
-                              {currentJob.errors.map((error, index) => (
-                                <p key={index} className="text-sm">{error}</p>
-                              ))}
-                            </div>
-                          </AlertDescription>
-                        </Alert>
-                      )}
-
-                      {currentJob.warnings.length > 0 && (
-                        <Alert className="bg-yellow-500/10 border-yellow-500/30">
-                          <AlertCircle className="w-4 h-4 text-yellow-400" />
-                          <AlertDescription className="text-yellow-400">
-                            <div className="space-y-1">
-                              {currentJob.warnings.map((warning, index) => (
-                                <p key={index} className="text-sm">{warning}</p>
-                              ))}
-                            </div>
-                          </AlertDescription>
-                        </Alert>
-                      )}
-                    </div>
-                  </CardContent>
-                </Card>
-              )}
-            </TabsContent>
-
             {/* History Tab */}
             <TabsContent value="history" className="space-y-6">
               <Card className="bg-slate-800/50 border-slate-700">
                 <CardHeader>
-                  <CardTitle className="text-white">Import History</CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-white">Import History</CardTitle>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={fetchData}
+                      disabled={loading}
+                      className="text-slate-300"
+                    >
+                      <RefreshCw className={`w-4 h-4 ${loading ? "animate-spin" : ""}`} />
+                    </Button>
+                  </div>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
-                    {importHistory.map((job) => (
-                      <div key={job.id} className="p-4 bg-slate-700/30 rounded-lg">
+                    {importHistory.length === 0 && !loading && (
+                      <p className="text-slate-400 text-sm">No imports yet</p>
+                    )}
+                    {importHistory.map((session) => (
+                      <div key={session.id} className="p-4 bg-slate-700/30 rounded-lg">
                         <div className="flex items-center justify-between mb-2">
                           <div className="flex items-center gap-3">
-                            {getStatusIcon(job.status)}
+                            {getStatusIcon(session.status)}
                             <div>
-                              <p className="text-white font-medium">{job.filename}</p>
+                              <p className="text-white font-medium">{session.filename}</p>
                               <p className="text-slate-400 text-sm">
-                                {job.type} • {job.processedRecords}/{job.totalRecords} records
+                                {session.importType} • {session.mode} • {session.summary.create} created,{" "}
+                                {session.summary.update} updated, {session.summary.skip} skipped, {session.summary.error} errors
                               </p>
                             </div>
                           </div>
-                          <Badge className={getStatusColor(job.status)}>
-                            {job.status}
-                          </Badge>
+                          <div className="flex items-center gap-2">
+                            <Badge className={getStatusColor(session.status)}>
+                              {session.status.replace("_", " ")}
+                            </Badge>
+                            {session.status === "committed" && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => undoImport(session.id)}
+                                disabled={undoingId === session.id}
+                                className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                              >
+                                <Undo2 className="w-4 h-4 mr-1" />
+                                Undo Import
+                              </Button>
+                            )}
+                          </div>
                         </div>
                         
-                        <div className="flex items-center justify-between text-sm">
-                          <p className="text-slate-400">
-                            Created by {job.createdBy} • {new Date(job.createdAt).toLocaleString()}
-                          </p>
-                          {job.status === "processing" && (
-                            <div className="flex items-center gap-2">
-                              <Progress value={job.progress} className="w-20 h-2 bg-slate-600" />
-                              <span className="text-slate-300">{job.progress}%</span>
-                            </div>
-                          )}
-                        </div>
+                        <p className="text-sm text-slate-400">
+                          Uploaded {new Date(session.createdAt).toLocaleString()}
+                          {session.committedAt && ` • Committed ${new Date(session.committedAt).toLocaleString()}`}
+                          {session.rolledBackAt && ` • Undone ${new Date(session.rolledBackAt).toLocaleString()}`}
+                        </p>
 
-                        {(job.errors.length > 0 || job.warnings.length > 0) && (
+                        {session.rollbackResult && session.rollbackResult.skipped.length > 0 && (
                           <div className="mt-2 space-y-1">
-                            {job.errors.map((error, index) => (
-                              <p key={index} className="text-xs text-red-400">• {error}</p>
-                            ))}
-                            {job.warnings.map((warning, index) => (
-                              <p key={index} className="text-xs text-yellow-400">• {warning}</p>
+                            {session.rollbackResult.skipped.map((skipped) => (
+                              <p key={skipped.id} className="text-xs text-yellow-400">
+                                • Row {skipped.row} kept: {skipped.reason}
+                              </p>
                             ))}
                           </div>
                         )}
+
+                        {undoConflicts?.sessionId === session.id && (
+                          <Alert className="mt-3 bg-yellow-500/10 border-yellow-500/30">
+                            <AlertCircle className="w-4 h-4 text-yellow-400" />
+                            <AlertDescription className="text-yellow-400">
+                              <div className="space-y-1">
+                                {undoConflicts.conflicts.map((conflict) => (
+                                  <p key={conflict.id} className="text-sm">
+                                    Row {conflict.row} ({conflict.entity === "users" ? "employee" : "attendance"}): {conflict.reason}
+                                  </p>
+                                ))}
+                              </div>
+                              <Button
+                                size="sm"
+                                onClick={() => undoImport(session.id, true)}
+                                disabled={undoingId === session.id}
+                                className="mt-2 bg-yellow-600 hover:bg-yellow-700"
+                              >
+                                Undo the rest, keep these rows
+                              </Button>
+                            </AlertDescription>
+                          </Alert>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -0,0 +1,416 @@
+/**
+ * Kiosk Devices Page
+ * Registered face check-in tablets with heartbeat, check-in statistics,
+ * remote disable and enrollment codes for new devices
+ */
+
+'use client'
+
+export const dynamic = 'force-dynamic'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { useConfirmModal } from '@/components/admin/ConfirmModal'
+import { ApiClient } from '@/lib/api-client'
+import type { ServerKioskDevice, ServerKioskEnrollmentCode, ServerOfficeSite } from '@/lib/server-db'
+import { KIOSK_HEARTBEAT_INTERVAL_MS } from '@/lib/kiosk-protocol'
+import { logger } from '@/lib/logger'
+import { Tablet, Plus, RefreshCw, ShieldOff, ShieldCheck, KeyRound, Wifi, WifiOff } from 'lucide-react'
+
+// A device that missed a few heartbeats is shown as offline
+const OFFLINE_AFTER_MS = KIOSK_HEARTBEAT_INTERVAL_MS * 3
+
+function formatDateTime(value?: Date | string): string {
+  return value ? new Date(value).toLocaleString('id-ID') : '—'
+}
+
+function isOnline(device: ServerKioskDevice): boolean {
+  return !!device.lastHeartbeatAt && Date.now() - new Date(device.lastHeartbeatAt).getTime() < OFFLINE_AFTER_MS
+}
+
+export default function KioskDevicesPage() {
+  const [devices, setDevices] = useState<ServerKioskDevice[]>([])
+  const [codes, setCodes] = useState<ServerKioskEnrollmentCode[]>([])
+  const [sites, setSites] = useState<ServerOfficeSite[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  // New enrollment code dialog; the code is shown once after creation
+  const [codeDialogOpen, setCodeDialogOpen] = useState(false)
+  const [codeSiteId, setCodeSiteId] = useState('')
+  const [codeLabel, setCodeLabel] = useState('')
+  const [codeHours, setCodeHours] = useState('24')
+  const [issuedCode, setIssuedCode] = useState<string | null>(null)
+  const [creating, setCreating] = useState(false)
+
+  // Disable dialog
+  const [disableTarget, setDisableTarget] = useState<ServerKioskDevice | null>(null)
+  const [disableReason, setDisableReason] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const { confirm, ConfirmModal } = useConfirmModal()
+
+  const load = async () => {
+    try {
+      setLoading(true)
+      const [deviceResponse, codeResponse, siteResponse] = await Promise.all([
+        ApiClient.getKioskDevices(),
+        ApiClient.getKioskEnrollmentCodes(),
+        ApiClient.getOfficeSites(),
+      ])
+      setDevices(deviceResponse.data || [])
+      setCodes(codeResponse.data || [])
+      setSites(siteResponse.data || [])
+      setError(null)
+    } catch (err) {
+      logger.error('Error loading kiosk devices', err as Error)
+      setError(err instanceof Error ? err.message : 'Failed to load kiosk devices')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    load()
+    const interval = setInterval(load, KIOSK_HEARTBEAT_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const siteName = (siteId: string) => sites.find(site => site.id === siteId)?.name || siteId
+
+  const openCodeDialog = () => {
+    setCodeSiteId(sites[0]?.id || '')
+    setCodeLabel('')
+    setCodeHours('24')
+    setIssuedCode(null)
+    setCodeDialogOpen(true)
+  }
+
+  const createCode = async () => {
+    if (!codeSiteId) return
+    try {
+      setCreating(true)
+      const response = await ApiClient.createKioskEnrollmentCode({
+        siteId: codeSiteId,
+        label: codeLabel.trim() || undefined,
+        expiresInHours: parseInt(codeHours) || 24,
+      })
+      setIssuedCode(response.data.code)
+      await load()
+    } catch (err) {
+      logger.error('Error creating kiosk enrollment code', err as Error)
+      setError(err instanceof Error ? err.message : 'Failed to create enrollment code')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const disableDevice = async () => {
+    if (!disableTarget) return
+    try {
+      setSaving(true)
+      await ApiClient.updateKioskDevice(disableTarget.id, {
+        status: 'disabled',
+        reason: disableReason.trim() || undefined,
+      })
+      setDisableTarget(null)
+      await load()
+    } catch (err) {
+      logger.error('Error disabling kiosk device', err as Error)
+      setError(err instanceof Error ? err.message : 'Failed to disable kiosk device')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const enableDevice = (device: ServerKioskDevice) => {
+    confirm({
+      title: 'Enable kiosk',
+      description: `${device.name} will be able to record check-ins again.`,
+      confirmText: 'Enable',
+      onConfirm: async () => {
+        await ApiClient.updateKioskDevice(device.id, { status: 'active' })
+        await load()
+      },
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Kiosk Devices</h1>
+          <p className="text-muted-foreground">
+            Shared face check-in tablets, bound to a site
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={openCodeDialog} disabled={sites.length === 0}>
+            <Plus className="h-4 w-4 mr-2" />
+            Enrollment Code
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tablet className="h-5 w-5" />
+            Devices
+          </CardTitle>
+          <CardDescription>
+            Check-in counts cover the last 24 hours, 7 days and 30 days
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {devices.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">
+              {loading ? 'Loading...' : 'No kiosk devices registered yet'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Site</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last seen</TableHead>
+                  <TableHead>Heartbeat</TableHead>
+                  <TableHead className="text-right">24h / 7d / 30d</TableHead>
+                  <TableHead className="text-right">Employees</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {devices.map(device => (
+                  <TableRow key={device.id}>
+                    <TableCell>
+                      <div className="font-medium">{device.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Enrolled {formatDateTime(device.enrolledAt)}
+                      </div>
+                    </TableCell>
+                    <TableCell>{device.siteName || siteName(device.siteId)}</TableCell>
+                    <TableCell>
+                      {device.status === 'disabled' ? (
+                        <div>
+                          <Badge variant="destructive">Disabled</Badge>
+                          {device.disabledReason && (
+                            <div className="text-xs text-muted-foreground mt-1">{device.disabledReason}</div>
+                          )}
+                        </div>
+                      ) : isOnline(device) ? (
+                        <Badge className="bg-emerald-600">
+                          <Wifi className="h-3 w-3 mr-1" />
+                          Online
+                        </Badge>
+                      ) : (
+                        <Badge variant="secondary">
+                          <WifiOff className="h-3 w-3 mr-1" />
+                          Offline
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div>{formatDateTime(device.lastSeenAt)}</div>
+                      {device.lastSeenIp && (
+                        <div className="text-xs text-muted-foreground">{device.lastSeenIp}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div>{formatDateTime(device.lastHeartbeatAt)}</div>
+                      {device.heartbeat && (
+                        <div className="text-xs text-muted-foreground">
+                          {device.heartbeat.pendingSyncItems ?? 0} pending
+                          {device.heartbeat.appVersion ? ` · v${device.heartbeat.appVersion}` : ''}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {device.stats
+                        ? `${device.stats.checkins24h} / ${device.stats.checkins7d} / ${device.stats.checkins30d}`
+                        : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">{device.stats?.employees30d ?? '—'}</TableCell>
+                    <TableCell className="text-right">
+                      {device.status === 'active' ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setDisableReason('')
+                            setDisableTarget(device)
+                          }}
+                        >
+                          <ShieldOff className="h-4 w-4 mr-1" />
+                          Disable
+                        </Button>
+                      ) : (
+                        <Button variant="outline" size="sm" onClick={() => enableDevice(device)}>
+                          <ShieldCheck className="h-4 w-4 mr-1" />
+                          Enable
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Open Enrollment Codes
+          </CardTitle>
+          <CardDescription>
+            Unused codes that have not expired. Codes are only shown when created.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {codes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No open enrollment codes</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Site</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Expires</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {codes.map(code => (
+                  <TableRow key={code.id}>
+                    <TableCell>{code.label || '—'}</TableCell>
+                    <TableCell>{siteName(code.siteId)}</TableCell>
+                    <TableCell>{formatDateTime(code.createdAt)}</TableCell>
+                    <TableCell>{formatDateTime(code.expiresAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={codeDialogOpen} onOpenChange={setCodeDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New enrollment code</DialogTitle>
+            <DialogDescription>
+              Enter the code on the tablet at /kiosk/setup. It can enroll one device.
+            </DialogDescription>
+          </DialogHeader>
+
+          {issuedCode ? (
+            <div className="space-y-2 text-center">
+              <div className="text-4xl font-mono font-bold tracking-widest">{issuedCode}</div>
+              <p className="text-sm text-muted-foreground">
+                Write this code down now; it will not be shown again.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Site</Label>
+                <Select value={codeSiteId} onValueChange={setCodeSiteId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a site" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sites.map(site => (
+                      <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-code-label">Label (optional)</Label>
+                <Input
+                  id="kiosk-code-label"
+                  value={codeLabel}
+                  maxLength={100}
+                  placeholder="Lobby tablet"
+                  onChange={e => setCodeLabel(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-code-hours">Valid for (hours)</Label>
+                <Input
+                  id="kiosk-code-hours"
+                  type="number"
+                  min={1}
+                  max={168}
+                  value={codeHours}
+                  onChange={e => setCodeHours(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {issuedCode ? (
+              <Button onClick={() => setCodeDialogOpen(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setCodeDialogOpen(false)}>Cancel</Button>
+                <Button onClick={createCode} disabled={creating || !codeSiteId}>
+                  {creating ? 'Creating...' : 'Create code'}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!disableTarget} onOpenChange={open => !open && setDisableTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Disable {disableTarget?.name}</DialogTitle>
+            <DialogDescription>
+              The tablet's requests are refused until it is enabled again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="kiosk-disable-reason">Reason (optional)</Label>
+            <Textarea
+              id="kiosk-disable-reason"
+              value={disableReason}
+              maxLength={500}
+              onChange={e => setDisableReason(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisableTarget(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={disableDevice} disabled={saving}>
+              {saving ? 'Disabling...' : 'Disable'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmModal />
+    </div>
+  )
+}
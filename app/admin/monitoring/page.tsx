@@ -12,6 +12,7 @@ import { Badge } from '@/components/ui/badge';
 import { SystemMetricsCard } from '@/components/admin/monitoring/SystemMetricsCard';
 import { AlertsCard } from '@/components/admin/monitoring/AlertsCard';
 import { MetricsChart } from '@/components/admin/monitoring/MetricsChart';
+import { SyncDeadLettersCard } from '@/components/admin/monitoring/SyncDeadLettersCard';
 import { 
   Activity, 
   AlertTriangle, 
@@ -21,7 +22,8 @@ import {
   HardDrive,
   Database,
   Shield,
-  TrendingUp
+  TrendingUp,
+  Inbox
 } from 'lucide-react';
 
 function LoadingSpinner() {
@@ -103,7 +105,7 @@ function MonitoringDashboard() {
       </div>
       
       <Tabs defaultValue="overview" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview" className="flex items-center gap-1">
             <BarChart3 className="h-4 w-4" />
             Overview
@@ -124,6 +126,10 @@ function MonitoringDashboard() {
             <Shield className="h-4 w-4" />
             Security
           </TabsTrigger>
+          <TabsTrigger value="sync" className="flex items-center gap-1">
+            <Inbox className="h-4 w-4" />
+            Sync
+          </TabsTrigger>
         </TabsList>
         
         <TabsContent value="overview" className="space-y-4">
@@ -323,6 +329,12 @@ function MonitoringDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+        
+        <TabsContent value="sync" className="space-y-4">
+          <Suspense fallback={<LoadingSpinner />}>
+            <SyncDeadLettersCard />
+          </Suspense>
+        </TabsContent>
       </Tabs>
     </div>
   );
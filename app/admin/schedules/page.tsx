@@ -15,7 +15,7 @@ import { ExportButton, ExportOption } from "@/components/admin/ExportButton"
 import { SearchFilter, FilterOption } from "@/components/admin/SearchFilter"
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Layout is provided by app/admin/layout.tsx
-import { Plus, Edit, Trash2, Eye, Calendar, Clock, Users, MapPin, AlertCircle, CheckCircle, XCircle } from "lucide-react"
+import { Plus, Edit, Trash2, Eye, Calendar, CalendarOff, Clock, Users, MapPin, AlertCircle, CheckCircle, XCircle, Upload } from "lucide-react"
 import { z } from "zod"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
@@ -84,6 +84,29 @@ interface ScheduleAssignmentWithId {
   }
 }
 
+// Define the holiday calendar entry interface
+interface HolidayWithId {
+  id: string
+  date: string
+  name: string
+  description?: string
+  type: 'national' | 'regional' | 'site' | 'collective_leave' | 'company'
+  region?: string
+  siteId?: string
+  isHalfDay: boolean
+  halfDayEndTime?: string
+  source: 'manual' | 'ics' | 'csv'
+  isActive: boolean
+}
+
+const holidayTypeConfig = {
+  'national': { label: 'Libur Nasional', color: 'bg-red-500/20 text-red-400 border-red-500/30' },
+  'regional': { label: 'Libur Daerah', color: 'bg-orange-500/20 text-orange-400 border-orange-500/30' },
+  'site': { label: 'Libur Lokasi', color: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' },
+  'collective_leave': { label: 'Cuti Bersama', color: 'bg-purple-500/20 text-purple-400 border-purple-500/30' },
+  'company': { label: 'Libur Perusahaan', color: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+}
+
 export default function SchedulesPage() {
   const router = useRouter()
   const { confirm, ConfirmModal } = useConfirmModal()
@@ -91,6 +114,10 @@ export default function SchedulesPage() {
   // State management
   const [schedules, setSchedules] = useState<ScheduleWithId[]>([])
   const [scheduleAssignments, setScheduleAssignments] = useState<ScheduleAssignmentWithId[]>([])
+  const [holidays, setHolidays] = useState<HolidayWithId[]>([])
+  const [holidayYear, setHolidayYear] = useState(new Date().getFullYear())
+  const [importMessage, setImportMessage] = useState<string | null>(null)
+  const holidayFileInput = React.useRef<HTMLInputElement>(null)
   const [loading, setLoading] = useState(true)
   const [activeTab, setActiveTab] = useState("schedules")
   
@@ -140,6 +167,77 @@ export default function SchedulesPage() {
     }
   }
 
+  // Fetch holiday calendar entries for a year
+  const fetchHolidays = async (year: number = holidayYear) => {
+    try {
+      const response = await fetch(`/api/admin/holidays?year=${year}`)
+      const data = await response.json()
+      
+      if (data.success) {
+        setHolidays(data.data || [])
+      } else {
+        logger.error('Failed to fetch holidays:', new Error(data.error))
+      }
+    } catch (error) {
+      logger.error('Error fetching holidays', error as Error)
+    }
+  }
+
+  // Import holidays from an ICS or CSV file
+  const handleImportHolidays = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    
+    try {
+      const content = await file.text()
+      const format = file.name.toLowerCase().endsWith(".ics") ? "ics" : "csv"
+      const response = await fetch("/api/admin/holidays/import", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ format, content }),
+      })
+      
+      const data = await response.json()
+      
+      if (data.success) {
+        const skipped = data.data.errors?.length ? `, ${data.data.errors.length} baris dilewati` : ""
+        setImportMessage(`${data.data.imported} hari libur diimpor${skipped}`)
+        fetchHolidays()
+      } else {
+        setImportMessage(data.error)
+        logger.error('Failed to import holidays:', new Error(data.error))
+      }
+    } catch (error) {
+      logger.error('Error importing holidays', error as Error)
+    }
+  }
+
+  // Handle holiday deletion
+  const handleDeleteHoliday = async (holiday: HolidayWithId) => {
+    await confirm({
+      title: "Hapus Hari Libur",
+      description: `Apakah Anda yakin ingin menghapus "${holiday.name}" (${new Date(holiday.date).toLocaleDateString("id-ID")}) dari kalender?`,
+      variant: "destructive",
+      confirmText: "Hapus",
+      onConfirm: async () => {
+        const response = await fetch(`/api/admin/holidays/${holiday.id}`, {
+          method: "DELETE",
+        })
+        
+        const data = await response.json()
+        
+        if (data.success) {
+          fetchHolidays()
+        } else {
+          logger.error('Failed to delete holiday:', new Error(data.error))
+        }
+      },
+    })
+  }
+
   // Handle schedule creation
   const handleCreateSchedule = async (scheduleData: any) => {
     try {
@@ -343,6 +441,9 @@ export default function SchedulesPage() {
     },
   ]
 
+  // Holidays by date, to flag assignments that fall on one
+  const holidaysByDate = new Map(holidays.map(holiday => [holiday.date, holiday]))
+
   // Define assignments table columns
   const assignmentColumns: Column<ScheduleAssignmentWithId>[] = [
     {
@@ -381,6 +482,11 @@ export default function SchedulesPage() {
           <p className="text-white">
             {new Date(value).toLocaleDateString("id-ID")}
           </p>
+          {holidaysByDate.get(String(value).slice(0, 10)) && (
+            <Badge className={holidayTypeConfig[holidaysByDate.get(String(value).slice(0, 10))!.type].color}>
+              {holidaysByDate.get(String(value).slice(0, 10))!.name}
+            </Badge>
+          )}
           {record.schedule && (
             <p className="text-xs text-slate-400">
               {record.schedule.startTime} - {record.schedule.endTime}
@@ -510,6 +616,79 @@ export default function SchedulesPage() {
     },
   ]
 
+  // Define holiday table columns
+  const holidayColumns: Column<HolidayWithId>[] = [
+    {
+      key: "name",
+      title: "Hari Libur",
+      sortable: true,
+      render: (value: any, record: HolidayWithId) => (
+        <div className="flex items-center gap-3">
+          <div className="w-8 h-8 bg-red-600 rounded-full flex items-center justify-center text-white text-sm font-medium">
+            <CalendarOff className="w-4 h-4" />
+          </div>
+          <div>
+            <p className="font-medium text-white">{value}</p>
+            <p className="text-xs text-slate-400">{record.description || '-'}</p>
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: "date",
+      title: "Tanggal",
+      sortable: true,
+      render: (value: any, record: HolidayWithId) => (
+        <div>
+          <p className="text-white">
+            {new Date(value).toLocaleDateString("id-ID", { weekday: "long", day: "numeric", month: "long", year: "numeric" })}
+          </p>
+          {record.isHalfDay && (
+            <p className="text-xs text-slate-400">Setengah hari, selesai {record.halfDayEndTime}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: "type",
+      title: "Tipe",
+      sortable: true,
+      render: (value: any, record: HolidayWithId) => {
+        const config = holidayTypeConfig[value as keyof typeof holidayTypeConfig] || { label: value, color: 'bg-gray-500/20 text-gray-400 border-gray-500/30' }
+        
+        return (
+          <div>
+            <Badge className={config.color}>
+              {config.label}
+            </Badge>
+            {record.region && (
+              <p className="text-xs text-slate-400 mt-1">{record.region}</p>
+            )}
+          </div>
+        )
+      },
+    },
+    {
+      key: "source",
+      title: "Sumber",
+      sortable: true,
+      render: (value: any) => (
+        <span className="text-slate-300 text-sm uppercase">{value}</span>
+      ),
+    },
+  ]
+
+  // Define table actions for holidays
+  const holidayActions: Action<HolidayWithId>[] = [
+    {
+      key: "delete",
+      label: "Hapus",
+      icon: <Trash2 className="w-4 h-4" />,
+      onClick: handleDeleteHoliday,
+      danger: true,
+    },
+  ]
+
   // Define form fields for create/edit schedule
   const scheduleFormFields: FormSection[] = [
     {
@@ -626,12 +805,15 @@ export default function SchedulesPage() {
     },
   ]
 
-  // Fetch schedules and assignments on component mount
+  // Fetch schedules, assignments and holidays for the active tab
   useEffect(() => {
     if (activeTab === "schedules") {
       fetchSchedules()
     } else if (activeTab === "assignments") {
       fetchScheduleAssignments()
+      fetchHolidays()
+    } else if (activeTab === "holidays") {
+      fetchHolidays()
     }
   }, [activeTab])
 
@@ -664,6 +846,10 @@ export default function SchedulesPage() {
                 <Users className="w-4 h-4 mr-2" />
                 Penugasan
               </TabsTrigger>
+              <TabsTrigger value="holidays" className="data-[state=active]:bg-slate-700 text-slate-300">
+                <CalendarOff className="w-4 h-4 mr-2" />
+                Hari Libur
+              </TabsTrigger>
             </TabsList>
 
             {/* Schedules Tab */}
@@ -687,6 +873,57 @@ export default function SchedulesPage() {
                 emptyText="Tidak ada penugasan"
               />
             </TabsContent>
+
+            {/* Holidays Tab */}
+            <TabsContent value="holidays" className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <Label className="text-slate-300">Tahun</Label>
+                  <Select
+                    value={String(holidayYear)}
+                    onValueChange={(value) => {
+                      setHolidayYear(Number(value))
+                      fetchHolidays(Number(value))
+                    }}
+                  >
+                    <SelectTrigger className="w-28 bg-slate-800/50 border-slate-700 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {[-1, 0, 1].map(offset => {
+                        const year = new Date().getFullYear() + offset
+                        return <SelectItem key={year} value={String(year)}>{year}</SelectItem>
+                      })}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-3">
+                  {importMessage && <span className="text-sm text-slate-400">{importMessage}</span>}
+                  <input
+                    ref={holidayFileInput}
+                    type="file"
+                    accept=".ics,.csv,text/calendar,text/csv"
+                    className="hidden"
+                    onChange={handleImportHolidays}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => holidayFileInput.current?.click()}
+                    className="border-slate-700 text-slate-300"
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    Impor ICS/CSV
+                  </Button>
+                </div>
+              </div>
+              <AdminDataTable
+                data={holidays}
+                columns={holidayColumns}
+                actions={holidayActions}
+                loading={false}
+                emptyText="Tidak ada hari libur"
+              />
+            </TabsContent>
           </Tabs>
         </div>
 
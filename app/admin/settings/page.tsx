@@ -38,6 +38,8 @@ interface SettingsData {
     allowRemoteCheckIn?: boolean
     requirePhoto?: boolean
     requireLocation?: boolean
+    requireKioskDevice?: boolean
+    adaptiveFaceTemplates?: boolean
     workingHours?: {
       start: string
       end: string
@@ -109,6 +111,8 @@ export default function SettingsPage() {
       allowRemoteCheckIn: false,
       requirePhoto: true,
       requireLocation: true,
+      requireKioskDevice: true,
+      adaptiveFaceTemplates: false,
       workingHours: {
         start: "08:00",
         end: "17:00",
@@ -333,6 +337,16 @@ export default function SettingsPage() {
           label: "Wajib Lokasi",
           type: "checkbox",
         },
+        {
+          name: "requireKioskDevice",
+          label: "Absensi Wajah Hanya dari Kiosk Terdaftar",
+          type: "checkbox",
+        },
+        {
+          name: "adaptiveFaceTemplates",
+          label: "Adaptasi Template Wajah dari Absensi Terverifikasi",
+          type: "checkbox",
+        },
       ],
     },
     {
@@ -14,7 +14,8 @@ export async function GET(request: NextRequest) {
     const endDate = searchParams.get('endDate') ? new Date(searchParams.get('endDate')!) : undefined;
     const department = searchParams.get('department') || undefined;
 
-    // Get attendance analytics
+    // Get attendance analytics, with approved leave and holidays excluded from absences
+    await businessIntelligence.whenReady();
     const analytics = businessIntelligence.getAttendanceAnalytics({
       startDate,
       endDate,
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { manualCheckinService } from '@/lib/manual-checkin'
+import { manualCheckinReviewSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/admin/attendance/manual-checkins/[id]/review - Co-sign (creating the attendance record) or reject a manual check-in
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const reviewerId = getCurrentUserId()
+    if (!reviewerId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = manualCheckinReviewSchema.parse(body)
+
+    const result = await manualCheckinService.review(params.id, validatedData, reviewerId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.checkin,
+      record: result.attendance,
+      message: validatedData.decision === 'approve'
+        ? 'Manual check-in co-signed'
+        : 'Manual check-in rejected',
+    })
+  } catch (error) {
+    logger.error('Error reviewing manual check-in', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid review data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to review manual check-in' },
+      { status: 500 }
+    )
+  }
+}
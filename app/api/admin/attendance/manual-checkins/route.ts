@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import type { ManualCheckinStatus } from '@/lib/server-db'
+import { hasAnyServerRole } from '@/lib/server-auth'
+import { manualCheckinService } from '@/lib/manual-checkin'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/attendance/manual-checkins - Manual check-ins with evidence photos; ?status=pending lists the co-sign queue
+export async function GET(request: NextRequest) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200)
+    const offset = parseInt(searchParams.get('offset') || '0') || 0
+
+    const { checkins, total } = await serverDbManager.getManualCheckins({
+      status: (searchParams.get('status') as ManualCheckinStatus | null) || undefined,
+      userId: searchParams.get('userId') || undefined,
+      limit,
+      offset,
+    })
+
+    // Names for the employee and co-signer, and short-lived photo links
+    const userIds = Array.from(new Set(checkins.flatMap(c => (c.cosignedBy ? [c.userId, c.cosignedBy] : [c.userId]))))
+    const users = await Promise.all(userIds.map(id => serverDbManager.getUser(id)))
+    const names = new Map(users.filter(Boolean).map(user => [user!.id, user!]))
+
+    const data = await Promise.all(checkins.map(async checkin => ({
+      ...checkin,
+      userName: names.get(checkin.userId)?.name,
+      employeeId: names.get(checkin.userId)?.employeeId,
+      department: names.get(checkin.userId)?.department,
+      cosignedByName: checkin.cosignedBy ? names.get(checkin.cosignedBy)?.name : undefined,
+      photoUrl: await manualCheckinService.getPhotoUrl(checkin),
+    })))
+
+    return NextResponse.json({
+      success: true,
+      data,
+      pagination: { total, limit, offset },
+    })
+  } catch (error) {
+    logger.error('Error fetching manual check-ins', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch manual check-ins' },
+      { status: 500 }
+    )
+  }
+}
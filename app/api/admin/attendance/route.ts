@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
 import { AttendanceQueryInput, attendanceQuerySchema } from '@/lib/validation-schemas'
 import { withAdminAuth } from '@/lib/api-auth-middleware'
+import { attendanceDayOf } from '@/lib/overtime'
+import { toOfficeDateString } from '@/lib/office-time'
 import { z } from 'zod'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
@@ -26,6 +28,20 @@ function parseQueryParams(request: NextRequest) {
   return attendanceQuerySchema.parse(query)
 }
 
+// Attendance dated inside a closed payroll period is locked until it is reopened
+async function checkPayrollLock(dates: string[]) {
+  for (const date of Array.from(new Set(dates))) {
+    const period = await serverDbManager.getClosedPayrollPeriodFor(date)
+    if (period) {
+      return NextResponse.json(
+        { success: false, error: `Payroll period "${period.name}" is closed; reopen it to change attendance`, code: 'PERIOD_LOCKED' },
+        { status: 409 }
+      )
+    }
+  }
+  return null
+}
+
 // GET /api/admin/attendance - Get attendance records with filtering and pagination
 export const GET = withAdminAuth(async (request) => {
   try {
@@ -161,6 +177,9 @@ export const GET = withAdminAuth(async (request) => {
         total: allRecords.length,
         totalPages: Math.ceil(allRecords.length / query.limit),
       },
+      summary: {
+        zoneViolations: allRecords.filter(record => record.zoneViolation).length,
+      },
     })
   } catch (error) {
     logger.error('Error fetching attendance records', error as Error)
@@ -193,6 +212,9 @@ export const POST = withAdminAuth(async (request) => {
       )
     }
 
+    const lockError = await checkPayrollLock(records.map(record => toOfficeDateString(new Date(record.timestamp))))
+    if (lockError) return lockError
+
     // Create attendance records
     const createdRecords = []
     for (const recordData of records) {
@@ -241,12 +263,21 @@ export const PUT = withAdminAuth(async (request) => {
       )
     }
 
-    // Update each record
-    const updatedRecords = []
+    const existingRecords = []
     for (const id of ids) {
       const existingRecord = await serverDbManager.getAttendanceRecord(id)
-      if (!existingRecord) continue
+      if (existingRecord) existingRecords.push(existingRecord)
+    }
 
+    const lockError = await checkPayrollLock([
+      ...existingRecords.map(attendanceDayOf),
+      ...(updates.timestamp ? [toOfficeDateString(new Date(updates.timestamp))] : []),
+    ])
+    if (lockError) return lockError
+
+    // Update each record
+    const updatedRecords = []
+    for (const existingRecord of existingRecords) {
       const updatedRecord = {
         ...existingRecord,
         ...updates,
@@ -285,14 +316,20 @@ export const DELETE = withAdminAuth(async (request) => {
       )
     }
 
-    // Delete each record
-    let deletedCount = 0
+    const existingRecords = []
     for (const id of ids) {
       const existingRecord = await serverDbManager.getAttendanceRecord(id)
-      if (existingRecord) {
-        await serverDbManager.deleteAttendanceRecord(id)
-        deletedCount++
-      }
+      if (existingRecord) existingRecords.push(existingRecord)
+    }
+
+    const lockError = await checkPayrollLock(existingRecords.map(attendanceDayOf))
+    if (lockError) return lockError
+
+    // Delete each record
+    let deletedCount = 0
+    for (const existingRecord of existingRecords) {
+      await serverDbManager.deleteAttendanceRecord(existingRecord.id)
+      deletedCount++
     }
 
     return NextResponse.json({
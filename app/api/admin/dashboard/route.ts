@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
 import { hasAnyServerRole } from '@/lib/server-auth'
+import { leaveService } from '@/lib/leave'
+import { holidayCalendar } from '@/lib/holiday-calendar'
+import { toOfficeDateString } from '@/lib/office-time'
 import { z } from 'zod'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
@@ -93,10 +96,18 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Calculate absent users (users who didn't check in today)
+    // Calculate absent users (users who didn't check in today, are not on approved leave and have no holiday)
     const checkedInUsers = Array.from(recordsByUser.keys())
-    const absentUsers = allUsers.filter(user => !checkedInUsers.includes(user.id))
+    const officeToday = toOfficeDateString(new Date())
+    const onLeave = await leaveService.getApprovedLeaveOn(officeToday)
+    const holidayDates = await holidayCalendar.getHolidayDatesForUsers(officeToday, officeToday, allUsers.map(user => user.id))
+    const onHoliday = (userId: string) => holidayDates.get(userId)?.has(officeToday) ?? false
+    const absentUsers = allUsers.filter(user =>
+      !checkedInUsers.includes(user.id) && !onLeave.has(user.id) && !onHoliday(user.id)
+    )
     absentToday = absentUsers.length
+    const onLeaveToday = allUsers.filter(user => onLeave.has(user.id) && !checkedInUsers.includes(user.id)).length
+    const todayHoliday = await holidayCalendar.getCompanyHoliday(officeToday)
 
     // Calculate average attendance rate for the period
     const periodAttendanceRecords = await serverDbManager.getAttendanceRecords({
@@ -241,6 +252,8 @@ export async function GET(request: NextRequest) {
         presentToday,
         lateToday,
         absentToday,
+        onLeaveToday,
+        todayHoliday: todayHoliday ? { name: todayHoliday.name, type: todayHoliday.type, isHalfDay: todayHoliday.isHalfDay } : null,
         averageAttendanceRate,
         departmentStats,
         recentUsers: recentUsers.slice(0, 5),
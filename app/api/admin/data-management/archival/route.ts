@@ -1,25 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { DataArchivalManager, ArchivalRule, CleanupRule } from '@/lib/data-archival'
-
-import { logger, logApiError, logApiRequest } from '@/lib/logger'
-// Mock authentication check
-// In a real implementation, this would use proper authentication
-async function checkAuth() {
-  // Mock implementation - always return true for demo
-  return true
-}
+import { checkAdminAuth } from '@/lib/supabase-server'
+import { DataArchivalManager } from '@/lib/data-archival'
+import type { ArchivedRecord } from '@/lib/data-archival'
+import { jobScheduler } from '@/lib/job-scheduler'
+import { archivalRuleSchema, cleanupRuleSchema, retentionPolicySchema } from '@/lib/validation-schemas'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
 
-// POST /api/admin/data-management/archival - Run archival or cleanup
+// POST /api/admin/data-management/archival - Run archival or cleanup, restore
+// an archived record or apply retention policies
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const isAuthenticated = await checkAuth()
-    if (!isAuthenticated) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const authResult = await checkAdminAuth()
+    if (!authResult.authenticated || !authResult.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    const userId = authResult.userId!
 
     // Parse request body
     const body = await request.json()
@@ -39,7 +36,7 @@ export async function POST(request: NextRequest) {
       // Get archival rule
       const rules = await archivalManager.getArchivalRules()
       const rule = rules.find(r => r.id === ruleId)
-      
+
       if (!rule) {
         return NextResponse.json(
           { error: 'Archival rule not found' },
@@ -48,27 +45,31 @@ export async function POST(request: NextRequest) {
       }
 
       // Run archival
-      const result = await archivalManager.archiveData(rule, dryRun)
-      
+      const result = await archivalManager.archiveData(rule, dryRun === true, userId)
+
       return NextResponse.json({
         success: result.success,
         data: {
           archivalId: result.archivalId,
+          recordsMatched: result.recordsMatched,
           recordsArchived: result.recordsArchived,
+          recordsDeleted: result.recordsDeleted,
+          recordsFlagged: result.recordsFlagged,
           recordsSkipped: result.recordsSkipped,
+          originalSize: result.originalSize,
           archiveSize: result.archiveSize,
           errors: result.errors,
           warnings: result.warnings,
           createdAt: result.createdAt,
           completedAt: result.completedAt,
-          isDryRun: dryRun
+          isDryRun: result.dryRun
         }
       })
     } else if (action === 'cleanup') {
       // Get cleanup rule
       const rules = await archivalManager.getCleanupRules()
       const rule = rules.find(r => r.id === ruleId)
-      
+
       if (!rule) {
         return NextResponse.json(
           { error: 'Cleanup rule not found' },
@@ -76,13 +77,14 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      // Run cleanup
-      const result = await archivalManager.cleanupData(rule)
-      
+      // A dry-run rule can't be forced live from here; edit the rule instead
+      const result = await archivalManager.cleanupData({ ...rule, dryRun: dryRun === true || rule.dryRun }, userId)
+
       return NextResponse.json({
         success: result.success,
         data: {
           cleanupId: result.cleanupId,
+          recordsMatched: result.recordsMatched,
           recordsDeleted: result.recordsDeleted,
           recordsSkipped: result.recordsSkipped,
           spaceFreed: result.spaceFreed,
@@ -90,7 +92,7 @@ export async function POST(request: NextRequest) {
           warnings: result.warnings,
           createdAt: result.createdAt,
           completedAt: result.completedAt,
-          isDryRun: rule.dryRun
+          isDryRun: result.dryRun
         }
       })
     } else if (action === 'restore') {
@@ -101,23 +103,25 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      const success = await archivalManager.restoreArchivedRecord(archivedId)
+      const result = await archivalManager.restoreArchivedRecord(archivedId, userId)
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.status }
+        )
+      }
 
       return NextResponse.json({
-        success,
-        message: success ? 'Archived record restored successfully' : 'Failed to restore archived record'
+        success: true,
+        message: 'Archived record restored successfully',
+        data: result.record
       })
-    } else if (action === 'apply-retention') {
-      const result = await archivalManager.applyRetentionPolicies()
+    } else {
+      const result = await archivalManager.applyRetentionPolicies({ userId, dryRun: dryRun === true })
 
       return NextResponse.json({
-        success: true,
-        data: {
-          policiesApplied: result.policiesApplied,
-          recordsArchived: result.recordsArchived,
-          recordsDeleted: result.recordsDeleted,
-          errors: result.errors
-        }
+        success: result.errors.length === 0,
+        data: { ...result, isDryRun: dryRun === true }
       })
     }
   } catch (error) {
@@ -129,60 +133,58 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET /api/admin/data-management/archival - Get archival rules, cleanup rules, or archived records
+// GET /api/admin/data-management/archival - Get archival rules, cleanup rules,
+// retention policies or archived records
 export async function GET(request: NextRequest) {
   try {
-    // Check authentication
-    const isAuthenticated = await checkAuth()
-    if (!isAuthenticated) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const authResult = await checkAdminAuth()
+    if (!authResult.authenticated || !authResult.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     const { searchParams } = new URL(request.url)
-    const type = searchParams.get('type') as string
-    const entityType = searchParams.get('entityType') as string
-    const limit = parseInt(searchParams.get('limit') || '50')
-    const offset = parseInt(searchParams.get('offset') || '0')
+    const type = searchParams.get('type')
+    const entityType = searchParams.get('entityType') || undefined
+    const status = searchParams.get('status') === 'restored' ? 'restored' : 'archived'
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, 200)
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0)
 
     // Create archival manager
     const archivalManager = new DataArchivalManager()
 
     switch (type) {
       case 'archival-rules':
-        const archivalRules = await archivalManager.getArchivalRules()
         return NextResponse.json({
           success: true,
-          data: archivalRules
+          data: await archivalManager.getArchivalRules()
         })
-      
+
       case 'cleanup-rules':
-        const cleanupRules = await archivalManager.getCleanupRules()
         return NextResponse.json({
           success: true,
-          data: cleanupRules
+          data: await archivalManager.getCleanupRules()
         })
-      
+
       case 'archived-records':
-        const archivedRecords = await archivalManager.getArchivedRecords(
-          entityType as any,
-          limit,
-          offset
-        )
+        if (entityType && !['employees', 'attendance', 'schedules'].includes(entityType)) {
+          return NextResponse.json({ error: 'Invalid entityType' }, { status: 400 })
+        }
         return NextResponse.json({
           success: true,
-          data: archivedRecords
+          data: await archivalManager.getArchivedRecords(
+            entityType as ArchivedRecord['entityType'] | undefined,
+            limit,
+            offset,
+            status
+          )
         })
-      
+
       case 'retention-policies':
-        const retentionPolicies = await archivalManager.getDataRetentionPolicies()
         return NextResponse.json({
           success: true,
-          data: retentionPolicies
+          data: await archivalManager.getDataRetentionPolicies()
         })
-      
+
       default:
         return NextResponse.json(
           { error: 'Invalid type parameter' },
@@ -198,23 +200,21 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// PUT /api/admin/data-management/archival - Create or update archival/cleanup rules
+// PUT /api/admin/data-management/archival - Create or update archival/cleanup
+// rules and retention policies
 export async function PUT(request: NextRequest) {
   try {
-    // Check authentication
-    const isAuthenticated = await checkAuth()
-    if (!isAuthenticated) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const authResult = await checkAdminAuth()
+    if (!authResult.authenticated || !authResult.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    const userId = authResult.userId!
 
     // Parse request body
     const body = await request.json()
     const { type, rule } = body
 
-    if (!type || !['archival', 'cleanup'].includes(type)) {
+    if (!type || !['archival', 'cleanup', 'retention'].includes(type)) {
       return NextResponse.json(
         { error: 'Invalid type' },
         { status: 400 }
@@ -228,15 +228,72 @@ export async function PUT(request: NextRequest) {
       )
     }
 
-    // Create archival manager
     const archivalManager = new DataArchivalManager()
 
-    // In a real implementation, this would save to database
-    // For now, we'll just return success
+    if (type === 'retention') {
+      const validation = retentionPolicySchema.safeParse(rule)
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid retention policy', details: validation.error.issues },
+          { status: 400 }
+        )
+      }
+
+      const result = await archivalManager.saveRetentionPolicy(validation.data, userId)
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error, errorCode: result.errorCode },
+          { status: result.status }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Retention policy saved successfully',
+        data: result.policy
+      })
+    }
+
+    let result
+    if (type === 'archival') {
+      const validation = archivalRuleSchema.safeParse(rule)
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid archival rule', details: validation.error.issues },
+          { status: 400 }
+        )
+      }
+      result = await archivalManager.saveArchivalRule(validation.data, userId)
+    } else {
+      const validation = cleanupRuleSchema.safeParse(rule)
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid cleanup rule', details: validation.error.issues },
+          { status: 400 }
+        )
+      }
+      result = await archivalManager.saveCleanupRule(validation.data, userId)
+    }
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    const job = await jobScheduler.syncArchivalRuleSchedule(result.rule, userId)
+    const saved = {
+      ...result.rule,
+      schedule: result.rule.schedule && {
+        ...result.rule.schedule,
+        nextRun: job?.enabled ? job.nextRunAt.toISOString() : ''
+      }
+    }
+
     return NextResponse.json({
       success: true,
       message: `${type === 'archival' ? 'Archival' : 'Cleanup'} rule saved successfully`,
-      data: rule
+      data: saved
     })
   } catch (error) {
     logger.error('Rule creation error', error as Error)
@@ -247,23 +304,21 @@ export async function PUT(request: NextRequest) {
   }
 }
 
-// DELETE /api/admin/data-management/archival - Delete archival rules, cleanup rules, or archived records
+// DELETE /api/admin/data-management/archival - Delete archival/cleanup rules,
+// retention policies or archived records
 export async function DELETE(request: NextRequest) {
   try {
-    // Check authentication
-    const isAuthenticated = await checkAuth()
-    if (!isAuthenticated) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
+    const authResult = await checkAdminAuth()
+    if (!authResult.authenticated || !authResult.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
+    const userId = authResult.userId!
 
     // Parse request body
     const body = await request.json()
     const { type, id } = body
 
-    if (!type || !['archival-rule', 'cleanup-rule', 'archived-record'].includes(type)) {
+    if (!type || !['archival-rule', 'cleanup-rule', 'retention-policy', 'archived-record'].includes(type)) {
       return NextResponse.json(
         { error: 'Invalid type' },
         { status: 400 }
@@ -280,31 +335,34 @@ export async function DELETE(request: NextRequest) {
     // Create archival manager
     const archivalManager = new DataArchivalManager()
 
-    let success = false
-    let message = ''
+    const result = type === 'archived-record'
+      ? await archivalManager.deleteArchivedRecord(id, userId)
+      : await archivalManager.deleteRule(
+          type === 'archival-rule' ? 'archival' : type === 'cleanup-rule' ? 'cleanup' : 'retention',
+          id,
+          userId
+        )
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
 
-    switch (type) {
-      case 'archival-rule':
-        // In a real implementation, this would delete from database
-        success = true
-        message = 'Archival rule deleted successfully'
-        break
-      
-      case 'cleanup-rule':
-        // In a real implementation, this would delete from database
-        success = true
-        message = 'Cleanup rule deleted successfully'
-        break
-      
-      case 'archived-record':
-        success = await archivalManager.deleteArchivedRecord(id)
-        message = success ? 'Archived record deleted successfully' : 'Failed to delete archived record'
-        break
+    if (type === 'archival-rule' || type === 'cleanup-rule') {
+      await jobScheduler.removeArchivalRuleSchedule(id)
+    }
+
+    const messages: Record<string, string> = {
+      'archival-rule': 'Archival rule deleted successfully',
+      'cleanup-rule': 'Cleanup rule deleted successfully',
+      'retention-policy': 'Retention policy deleted successfully',
+      'archived-record': 'Archived record deleted successfully'
     }
 
     return NextResponse.json({
-      success,
-      message
+      success: true,
+      message: messages[type]
     })
   } catch (error) {
     logger.error('Deletion error', error as Error)
@@ -314,6 +372,3 @@ export async function DELETE(request: NextRequest) {
     )
   }
 }
-
-// POST /api/admin/data-management/archival/restore - Restore archived record
-// Note: restore and apply-retention actions are now handled via POST with an `action` field
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAuth } from '@/lib/supabase-server'
+import { importSessions } from '@/lib/import-sessions'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/admin/data-management/import/[sessionId]/commit - Apply a previewed import
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const authResult = await checkAdminAuth()
+    if (!authResult.authenticated || !authResult.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await importSessions.commit(params.sessionId, authResult.userId!)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode, details: result.details },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.session,
+      message: `Import committed: ${result.created} created, ${result.updated} updated`
+    })
+  } catch (error: any) {
+    logger.error('Error committing import session', error as Error)
+    return NextResponse.json({ error: 'Internal server error', details: error.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAuth } from '@/lib/supabase-server'
+import { importRollbackSchema } from '@/lib/validation-schemas'
+import { importSessions } from '@/lib/import-sessions'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/admin/data-management/import/[sessionId]/rollback - Undo a committed import
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const authResult = await checkAdminAuth()
+    if (!authResult.authenticated || !authResult.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validation = importRollbackSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid rollback request', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const result = await importSessions.rollback(params.sessionId, authResult.userId!, validation.data)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode, details: result.details },
+        { status: result.status }
+      )
+    }
+
+    const rollback = result.session.rollbackResult
+    return NextResponse.json({
+      success: true,
+      data: result.session,
+      message: `Import undone: ${rollback?.reverted ?? 0} rows reverted` +
+        (rollback?.skipped.length ? `, ${rollback.skipped.length} left as they are` : '')
+    })
+  } catch (error: any) {
+    logger.error('Error rolling back import session', error as Error)
+    return NextResponse.json({ error: 'Internal server error', details: error.message }, { status: 500 })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkAdminAuth } from '@/lib/supabase-server'
+import { importSessions } from '@/lib/import-sessions'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/data-management/import/[sessionId] - Session with its per-row dry-run result
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { sessionId: string } }
+) {
+  try {
+    const authResult = await checkAdminAuth()
+    if (!authResult.authenticated || !authResult.isAdmin) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await importSessions.get(params.sessionId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.session })
+  } catch (error: any) {
+    logger.error('Error fetching import session', error as Error)
+    return NextResponse.json({ error: 'Internal server error', details: error.message }, { status: 500 })
+  }
+}
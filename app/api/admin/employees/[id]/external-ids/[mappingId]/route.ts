@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { employeeExternalIds } from '@/lib/employee-external-ids'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// DELETE /api/admin/employees/[id]/external-ids/[mappingId] - Remove a badge/PIN mapping
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; mappingId: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userId = getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await employeeExternalIds.remove(params.id, params.mappingId, userId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, message: 'External ID removed' })
+  } catch (error) {
+    logger.error('Error removing employee external ID', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove external ID' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { employeeExternalIdSchema } from '@/lib/validation-schemas'
+import { employeeExternalIds } from '@/lib/employee-external-ids'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/employees/[id]/external-ids - Badge/PIN numbers on third-party time clocks
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const mappings = await employeeExternalIds.list(params.id)
+
+    return NextResponse.json({ success: true, data: mappings })
+  } catch (error) {
+    logger.error('Error fetching employee external IDs', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch external IDs' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/employees/[id]/external-ids - Map a badge/PIN number to the employee
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userId = getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = employeeExternalIdSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid external ID', details: validation.error.issues },
+        { status: 400 }
+      )
+    }
+
+    const result = await employeeExternalIds.add(params.id, validation.data, userId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.mapping }, { status: 201 })
+  } catch (error) {
+    logger.error('Error adding employee external ID', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to add external ID' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
-import { UserUpdateInput, userUpdateSchema } from '@/lib/validation-schemas'
+import { UserUpdateInput, userUpdateSchema, attendancePinSchema } from '@/lib/validation-schemas'
 import { hasAnyServerRole } from '@/lib/server-auth'
+import { faceEmbeddingIndex } from '@/lib/face-embedding-index'
 import { z } from 'zod'
+import bcrypt from 'bcryptjs'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Helper function to check admin authentication
@@ -72,8 +74,9 @@ export async function PUT(
     }
 
     // Parse and validate request body
-    const body = await request.json()
-    const validatedData = userUpdateSchema.parse(body)
+    const { attendancePin, ...profile } = await request.json()
+    const validatedData = userUpdateSchema.parse(profile)
+    const validatedPin = attendancePin === undefined ? undefined : attendancePinSchema.parse(attendancePin)
 
     // Update user
     const updatedUser = {
@@ -85,6 +88,13 @@ export async function PUT(
 
     await serverDbManager.saveUser(updatedUser)
 
+    if (validatedPin !== undefined) {
+      await serverDbManager.setUserAttendancePinHash(id, validatedPin ? await bcrypt.hash(validatedPin, 10) : null)
+    }
+
+    // Deactivated employees must drop out of face matching
+    faceEmbeddingIndex.invalidate()
+
     return NextResponse.json({
       success: true,
       data: updatedUser,
@@ -130,6 +140,7 @@ export async function DELETE(
 
     // Delete user
     await serverDbManager.deleteUser(id)
+    faceEmbeddingIndex.invalidate()
 
     return NextResponse.json({
       success: true,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
 import { UserCreateInput, UserUpdateInput, UserQueryInput, userCreateSchema, userUpdateSchema, userQuerySchema } from '@/lib/validation-schemas'
 import { withAdminAuth } from '@/lib/api-auth-middleware'
+import { faceEmbeddingIndex } from '@/lib/face-embedding-index'
 import { z } from 'zod'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
@@ -127,6 +128,10 @@ export const POST = withAdminAuth(async (request) => {
       phone: validatedData.phone,
       address: validatedData.address,
       startDate: validatedData.startDate ? new Date(validatedData.startDate) : undefined,
+      payGradeId: validatedData.payGradeId,
+      hourlyRate: validatedData.hourlyRate,
+      bankCode: validatedData.bankCode,
+      bankAccountNumber: validatedData.bankAccountNumber,
       createdAt: new Date(),
       updatedAt: new Date(),
     }
@@ -193,6 +198,9 @@ export const PUT = withAdminAuth(async (request) => {
       updatedUsers.push(updatedUser)
     }
 
+    // Deactivated employees must drop out of face matching
+    faceEmbeddingIndex.invalidate()
+
     return NextResponse.json({
       success: true,
       data: updatedUsers,
@@ -239,6 +247,8 @@ export const DELETE = withAdminAuth(async (request) => {
       }
     }
 
+    faceEmbeddingIndex.invalidate()
+
     return NextResponse.json({
       success: true,
       message: `${deletedCount} employees deleted successfully`,
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
 import { hasAnyServerRole } from '@/lib/server-auth'
+import { faceEmbeddingIndex } from '@/lib/face-embedding-index'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 async function checkAdminAuth(request: NextRequest) {
@@ -25,6 +26,7 @@ export async function DELETE(
     }
 
     await serverDbManager.deleteFaceEmbedding(id)
+    faceEmbeddingIndex.invalidate()
     return NextResponse.json({ success: true })
   } catch (error) {
     logger.error('Error deleting face embedding', error as Error)
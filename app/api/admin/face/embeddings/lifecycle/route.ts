@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { faceEnrollmentPolicy } from '@/lib/face-enrollment-policy'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/face/embeddings/lifecycle - Embeddings flagged for re-enrollment
+export async function GET(request: NextRequest) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const flagged = await serverDbManager.getFlaggedFaceEmbeddings()
+
+    const userIds = Array.from(new Set(flagged.map(e => e.userId)))
+    const users = await Promise.all(userIds.map(id => serverDbManager.getUser(id)))
+    const names = new Map(users.filter(Boolean).map(user => [user!.id, user!]))
+
+    return NextResponse.json({
+      success: true,
+      data: flagged.map(embedding => ({
+        id: embedding.id,
+        userId: embedding.userId,
+        userName: names.get(embedding.userId)?.name,
+        employeeId: names.get(embedding.userId)?.employeeId,
+        quality: embedding.quality,
+        matchCount: embedding.matchCount ?? 0,
+        avgMatchConfidence: embedding.avgMatchConfidence,
+        lastMatchedAt: embedding.lastMatchedAt,
+        flaggedAt: embedding.flaggedAt,
+        createdAt: embedding.createdAt,
+      })),
+    })
+  } catch (error) {
+    logger.error('Error fetching flagged face embeddings', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch flagged face embeddings' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/face/embeddings/lifecycle - Retire aged-out embeddings and purge old inactive ones
+export async function POST(request: NextRequest) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const summary = await faceEnrollmentPolicy.runLifecycle()
+
+    await serverDbManager.createAuditLog({
+      userId: getCurrentUserId() || undefined,
+      action: 'face_embedding_lifecycle_run',
+      resource: 'face_embedding',
+      details: {
+        description: 'Face embedding lifecycle sweep',
+        ...summary,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: summary,
+      message: `Retired ${summary.retired} and purged ${summary.purged} face embeddings`,
+    })
+  } catch (error) {
+    logger.error('Error running face embedding lifecycle', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run face embedding lifecycle' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,10 +6,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withAdminAuth } from '@/lib/api-auth-middleware'
 import { serverDbManager } from '@/lib/server-db'
+import { faceEmbeddingIndex } from '@/lib/face-embedding-index'
+import { faceEnrollmentPolicy } from '@/lib/face-enrollment-policy'
+import { faceEmbeddingEnrollmentSchema } from '@/lib/validation-schemas'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export const dynamic = 'force-dynamic'
 
+const ADMIN_MAX_EMBEDDINGS = 5
+
 /**
  * GET - Get face embeddings for a user
  */
@@ -45,6 +50,11 @@ export const GET = withAdminAuth(async (request) => {
         quality: e.quality,
         metadata: e.metadata,
         isActive: e.isActive,
+        matchCount: e.matchCount ?? 0,
+        avgMatchConfidence: e.avgMatchConfidence,
+        lastMatchedAt: e.lastMatchedAt,
+        needsReenrollment: e.needsReenrollment ?? false,
+        kind: e.kind || 'enrolled',
         createdAt: e.createdAt,
         updatedAt: e.updatedAt
       }))
@@ -64,22 +74,14 @@ export const GET = withAdminAuth(async (request) => {
 export const POST = withAdminAuth(async (request) => {
   try {
     const body = await request.json()
-    const { userId, descriptor, quality, metadata } = body
-    
-    // Validate input
-    if (!userId || !descriptor) {
+    const parsed = faceEmbeddingEnrollmentSchema.safeParse(body)
+    if (!parsed.success) {
       return NextResponse.json(
-        { success: false, error: 'userId and descriptor are required' },
-        { status: 400 }
-      )
-    }
-    
-    if (!Array.isArray(descriptor) || descriptor.length !== 128) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid descriptor: must be array of 128 numbers' },
+        { success: false, error: 'Invalid face enrollment', details: parsed.error.errors },
         { status: 400 }
       )
     }
+    const { userId, descriptor, metadata } = parsed.data
     
     // Check if user exists
     const user = await serverDbManager.getUser(userId)
@@ -90,15 +92,14 @@ export const POST = withAdminAuth(async (request) => {
       )
     }
     
-    // Check if user already has embeddings (optional: limit to X embeddings per user)
-    const existingEmbeddings = await serverDbManager.getFaceEmbeddings(userId)
-    if (existingEmbeddings.length >= 5) {
+    // Same gate as self-enrollment; admins may keep a few more samples
+    const policy = await faceEnrollmentPolicy.evaluate(userId, descriptor, metadata.capture, {
+      maxEmbeddings: ADMIN_MAX_EMBEDDINGS
+    })
+    if (!policy.success) {
       return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Maximum number of face embeddings (5) reached for this user. Please delete old embeddings first.' 
-        },
-        { status: 400 }
+        { success: false, error: policy.error, errorCode: policy.errorCode },
+        { status: policy.status }
       )
     }
     
@@ -107,14 +108,15 @@ export const POST = withAdminAuth(async (request) => {
       id: crypto.randomUUID(),
       userId,
       embedding: descriptor,
-      quality: quality || 0.8,
-      metadata: metadata || {},
+      quality: policy.quality,
+      metadata,
       isActive: true,
       createdAt: new Date(),
       updatedAt: new Date()
     }
     
     const savedEmbedding = await serverDbManager.saveFaceEmbedding(embedding)
+    faceEmbeddingIndex.invalidate()
     
     // Create notification
     await serverDbManager.createNotification({
@@ -162,6 +164,7 @@ export const DELETE = withAdminAuth(async (request) => {
     }
     
     const success = await serverDbManager.deleteFaceEmbedding(embeddingId)
+    faceEmbeddingIndex.invalidate()
     
     if (!success) {
       return NextResponse.json(
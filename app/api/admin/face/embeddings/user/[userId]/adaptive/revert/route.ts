@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { faceTemplateAdaptation } from '@/lib/face-template-adaptation'
+import { faceTemplateRevertSchema } from '@/lib/validation-schemas'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/admin/face/embeddings/user/[userId]/adaptive/revert - Undo adaptive template updates
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const revertedBy = getCurrentUserId()
+    if (!revertedBy) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validation = faceTemplateRevertSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid revert request', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const result = await faceTemplateAdaptation.revert(params.userId, {
+      updateId: validation.data.updateId,
+      revertedBy,
+    })
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { reverted: result.reverted, removed: result.removed },
+      message: result.removed
+        ? 'Adaptive face template removed'
+        : `Reverted ${result.reverted} adaptive template ${result.reverted === 1 ? 'update' : 'updates'}`,
+    })
+  } catch (error) {
+    logger.error('Error reverting adaptive face template', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to revert adaptive face template' },
+      { status: 500 }
+    )
+  }
+}
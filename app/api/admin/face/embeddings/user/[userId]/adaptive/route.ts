@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole } from '@/lib/server-auth'
+import { faceTemplateAdaptation } from '@/lib/face-template-adaptation'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/face/embeddings/user/[userId]/adaptive - Adaptive template and its update history
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { adaptive, updates } = await faceTemplateAdaptation.getHistory(params.userId)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        adaptive: adaptive
+          ? {
+              id: adaptive.id,
+              matchCount: adaptive.matchCount ?? 0,
+              avgMatchConfidence: adaptive.avgMatchConfidence,
+              lastMatchedAt: adaptive.lastMatchedAt,
+              createdAt: adaptive.createdAt,
+              updatedAt: adaptive.updatedAt,
+            }
+          : null,
+        updates: updates.map(({ previousEmbedding, newEmbedding, ...update }) => ({
+          ...update,
+          initial: !previousEmbedding,
+        })),
+      },
+    })
+  } catch (error) {
+    logger.error('Error fetching adaptive face template', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch adaptive face template' },
+      { status: 500 }
+    )
+  }
+}
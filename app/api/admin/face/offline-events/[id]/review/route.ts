@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { offlineFaceVerification } from '@/lib/offline-face-verification'
+import { offlineFaceReviewSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/admin/face/offline-events/[id]/review - Approve or dismiss an offline face event rejected on upload
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const reviewerId = getCurrentUserId()
+    if (!reviewerId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = offlineFaceReviewSchema.parse(body)
+
+    const result = await offlineFaceVerification.resolveReview(params.id, validatedData, reviewerId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    const { descriptor, ...event } = result.event
+    return NextResponse.json({
+      success: true,
+      data: event,
+      message: validatedData.decision === 'approve'
+        ? 'Offline check-in approved'
+        : 'Offline check-in dismissed',
+    })
+  } catch (error) {
+    logger.error('Error reviewing offline face event', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid review data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to review offline face event' },
+      { status: 500 }
+    )
+  }
+}
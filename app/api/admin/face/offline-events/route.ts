@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import type { OfflineFaceReviewStatus, ServerOfflineFaceEvent } from '@/lib/server-db'
+import { hasAnyServerRole } from '@/lib/server-auth'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// GET /api/admin/face/offline-events - Offline kiosk face events; ?reviewStatus=pending lists the HR review queue
+export async function GET(request: NextRequest) {
+  try {
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const events = await serverDbManager.getOfflineFaceEvents({
+      reviewStatus: (searchParams.get('reviewStatus') as OfflineFaceReviewStatus | null) || undefined,
+      verdict: (searchParams.get('verdict') as ServerOfflineFaceEvent['verdict'] | null) || undefined,
+      deviceId: searchParams.get('deviceId') || undefined,
+      limit: Math.min(parseInt(searchParams.get('limit') || '100') || 100, 500),
+      offset: parseInt(searchParams.get('offset') || '0') || 0,
+    })
+
+    return NextResponse.json({
+      success: true,
+      // Descriptors stay on the server
+      data: events.map(({ descriptor, ...event }) => event),
+    })
+  } catch (error) {
+    logger.error('Error fetching offline face events', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch offline face events' },
+      { status: 500 }
+    )
+  }
+}
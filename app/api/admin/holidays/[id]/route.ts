@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import { hasAnyServerRole } from '@/lib/server-auth'
+import { holidayCalendar } from '@/lib/holiday-calendar'
+import { holidaySchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr', 'manager'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// PUT /api/admin/holidays/[id] - Update a holiday
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const existing = await serverDbManager.getHoliday(params.id)
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Holiday not found' },
+        { status: 404 }
+      )
+    }
+
+    // Validate the merged entry so scope and half-day rules hold after the update
+    const body = await request.json()
+    const validatedData = holidaySchema.parse({
+      date: existing.date,
+      name: existing.name,
+      description: existing.description,
+      type: existing.type,
+      region: existing.region,
+      siteId: existing.siteId,
+      isHalfDay: existing.isHalfDay,
+      halfDayEndTime: existing.halfDayEndTime,
+      isActive: existing.isActive,
+      ...body,
+    })
+
+    const holiday = await serverDbManager.saveHoliday({
+      ...existing,
+      ...validatedData,
+      updatedAt: new Date(),
+    })
+    holidayCalendar.invalidateCache()
+
+    return NextResponse.json({
+      success: true,
+      data: holiday,
+      message: 'Holiday updated successfully',
+    })
+  } catch (error) {
+    logger.error('Error updating holiday', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid holiday data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update holiday' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/holidays/[id] - Remove a holiday from the calendar
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const deleted = await serverDbManager.deleteHoliday(params.id)
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete holiday' },
+        { status: 500 }
+      )
+    }
+    holidayCalendar.invalidateCache()
+
+    return NextResponse.json({
+      success: true,
+      message: 'Holiday deleted successfully',
+    })
+  } catch (error) {
+    logger.error('Error deleting holiday', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete holiday' },
+      { status: 500 }
+    )
+  }
+}
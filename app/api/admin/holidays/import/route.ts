@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { holidayCalendar } from '@/lib/holiday-calendar'
+import { holidayImportSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// POST /api/admin/holidays/import - Import holidays from an ICS or CSV calendar
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const body = await request.json()
+    const validatedData = holidayImportSchema.parse(body)
+
+    const result = await holidayCalendar.importCalendar(validatedData, getCurrentUserId() || undefined)
+
+    if (result.imported === 0 && result.errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'No holidays could be imported', details: result.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `Imported ${result.imported} holidays`,
+    })
+  } catch (error) {
+    logger.error('Error importing holidays', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid import request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to import holidays' },
+      { status: 500 }
+    )
+  }
+}
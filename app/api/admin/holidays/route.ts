@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { holidayCalendar } from '@/lib/holiday-calendar'
+import { holidaySchema } from '@/lib/validation-schemas'
+import type { HolidayType } from '@/lib/server-db'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr', 'manager'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// GET /api/admin/holidays - Get holidays for a year or date range
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const year = Number(searchParams.get('year')) || new Date().getFullYear()
+    const from = searchParams.get('from') || `${year}-01-01`
+    const to = searchParams.get('to') || `${year}-12-31`
+    const type = searchParams.get('type') as HolidayType | null
+    const siteId = searchParams.get('siteId')
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const holidays = await serverDbManager.getHolidays({
+      from,
+      to,
+      type: type || undefined,
+      siteId: siteId || undefined,
+      isActive: includeInactive ? undefined : true,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: holidays,
+    })
+  } catch (error) {
+    logger.error('Error fetching holidays', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch holidays' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/holidays - Add a holiday to the calendar
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    // Parse and validate request body
+    const body = await request.json()
+    const validatedData = holidaySchema.parse(body)
+
+    const holiday = await serverDbManager.saveHoliday({
+      id: crypto.randomUUID(),
+      ...validatedData,
+      source: 'manual',
+      createdBy: getCurrentUserId() || undefined,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+    holidayCalendar.invalidateCache()
+
+    return NextResponse.json({
+      success: true,
+      data: holiday,
+      message: 'Holiday created successfully',
+    }, { status: 201 })
+  } catch (error) {
+    logger.error('Error creating holiday', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid holiday data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create holiday' },
+      { status: 500 }
+    )
+  }
+}
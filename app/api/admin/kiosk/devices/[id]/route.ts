@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { kioskDeviceTrust } from '@/lib/kiosk-device-trust'
+import { kioskDeviceUpdateSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// PATCH /api/admin/kiosk/devices/[id] - Rename, move to another site, or disable/re-enable a kiosk
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const adminId = getCurrentUserId()
+    if (!adminId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = kioskDeviceUpdateSchema.parse(body)
+
+    const result = await kioskDeviceTrust.updateDevice(params.id, validatedData, adminId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.device,
+      message: 'Kiosk device updated',
+    })
+  } catch (error) {
+    logger.error('Error updating kiosk device', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid kiosk device data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update kiosk device' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import type { KioskDeviceStatus } from '@/lib/kiosk-protocol'
+import { hasAnyServerRole } from '@/lib/server-auth'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/kiosk/devices - Registered kiosks with heartbeat and check-in statistics; ?siteId= and ?status= filter the list
+export async function GET(request: NextRequest) {
+  try {
+    if (!hasAnyServerRole(['admin'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const devices = await serverDbManager.getKioskDevices({
+      siteId: searchParams.get('siteId') || undefined,
+      status: (searchParams.get('status') as KioskDeviceStatus | null) || undefined,
+    })
+
+    return NextResponse.json({ success: true, data: devices })
+  } catch (error) {
+    logger.error('Error fetching kiosk devices', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch kiosk devices' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { kioskDeviceTrust } from '@/lib/kiosk-device-trust'
+import { kioskEnrollmentCodeSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/kiosk/enrollment-codes - Unused, unexpired enrollment codes (without the codes themselves)
+export async function GET() {
+  try {
+    if (!hasAnyServerRole(['admin'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const codes = await serverDbManager.getOpenKioskEnrollmentCodes()
+    return NextResponse.json({ success: true, data: codes })
+  } catch (error) {
+    logger.error('Error fetching kiosk enrollment codes', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch enrollment codes' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/kiosk/enrollment-codes - Issue a one-time code for enrolling a tablet on a site; the code is only returned here
+export async function POST(request: NextRequest) {
+  try {
+    if (!hasAnyServerRole(['admin'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const adminId = getCurrentUserId()
+    if (!adminId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = kioskEnrollmentCodeSchema.parse(body)
+
+    const result = await kioskDeviceTrust.createEnrollmentCode(validatedData, adminId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { ...result.enrollment, code: result.code },
+      message: 'Enrollment code created',
+    }, { status: 201 })
+  } catch (error) {
+    logger.error('Error creating kiosk enrollment code', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid enrollment code data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create enrollment code' },
+      { status: 500 }
+    )
+  }
+}
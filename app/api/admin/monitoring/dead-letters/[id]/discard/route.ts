@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { syncDeadLetterService } from '@/lib/sync-dead-letters'
+import { syncDeadLetterDiscardSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/admin/monitoring/dead-letters/[id]/discard - Close a dead letter without applying it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const adminId = getCurrentUserId()
+    if (!adminId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validatedData = syncDeadLetterDiscardSchema.parse(body)
+
+    const result = await syncDeadLetterService.discard(params.id, validatedData, adminId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.deadLetter,
+      message: 'Dead letter discarded',
+    })
+  } catch (error) {
+    logger.error('Error discarding sync dead letter', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid discard data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to discard sync dead letter' },
+      { status: 500 }
+    )
+  }
+}
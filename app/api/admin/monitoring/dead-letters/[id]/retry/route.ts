@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { syncDeadLetterService } from '@/lib/sync-dead-letters'
+import { syncDeadLetterRetrySchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/admin/monitoring/dead-letters/[id]/retry - Re-submit a dead letter, optionally with edited data
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const adminId = getCurrentUserId()
+    if (!adminId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validatedData = syncDeadLetterRetrySchema.parse(body)
+
+    const result = await syncDeadLetterService.retry(params.id, validatedData, adminId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    const applied = result.result.status === 'applied' || result.result.status === 'duplicate'
+    return NextResponse.json({
+      success: true,
+      data: result.deadLetter,
+      result: result.result,
+      message: applied
+        ? 'Change applied'
+        : 'The server refused the change again',
+    })
+  } catch (error) {
+    logger.error('Error retrying sync dead letter', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid retry data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to retry sync dead letter' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import type { SyncDeadLetterStatus } from '@/lib/sync-protocol'
+import { hasAnyServerRole } from '@/lib/server-auth'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/monitoring/dead-letters - Sync dead letters reported by devices, with per-device counts; ?deviceId= and ?status= filter the list
+export async function GET(request: NextRequest) {
+  try {
+    if (!hasAnyServerRole(['admin'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50') || 50, 200)
+    const offset = parseInt(searchParams.get('offset') || '0') || 0
+
+    const [{ deadLetters, total }, devices] = await Promise.all([
+      serverDbManager.getSyncDeadLetters({
+        deviceId: searchParams.get('deviceId') || undefined,
+        status: (searchParams.get('status') as SyncDeadLetterStatus | null) || undefined,
+        limit,
+        offset,
+      }),
+      serverDbManager.getSyncDeadLetterDevices(),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: deadLetters,
+      devices,
+      pagination: { total, limit, offset },
+    })
+  } catch (error) {
+    logger.error('Error fetching sync dead letters', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch sync dead letters' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import { hasAnyServerRole } from '@/lib/server-auth'
+import { payGradeSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// GET /api/admin/payroll/grades - List pay grades
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const grades = await serverDbManager.getPayGrades({
+      isActive: includeInactive ? undefined : true,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: grades,
+    })
+  } catch (error) {
+    logger.error('Error fetching pay grades', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch pay grades' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/payroll/grades - Create or update a pay grade
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const { id, ...body } = await request.json()
+    const validatedData = payGradeSchema.parse(body)
+
+    const existing = id
+      ? (await serverDbManager.getPayGrades()).find(grade => grade.id === id)
+      : undefined
+    if (id && !existing) {
+      return NextResponse.json(
+        { success: false, error: 'Pay grade not found' },
+        { status: 404 }
+      )
+    }
+
+    const grade = await serverDbManager.savePayGrade({
+      id: existing?.id || crypto.randomUUID(),
+      ...validatedData,
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date(),
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: grade,
+      message: existing ? 'Pay grade updated successfully' : 'Pay grade created successfully',
+    }, { status: existing ? 200 : 201 })
+  } catch (error) {
+    logger.error('Error saving pay grade', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid pay grade data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to save pay grade' },
+      { status: 500 }
+    )
+  }
+}
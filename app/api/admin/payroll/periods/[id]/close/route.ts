@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { payrollService } from '@/lib/payroll'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// POST /api/admin/payroll/periods/[id]/close - Aggregate and lock a payroll period
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const result = await payrollService.closePeriod(params.id, getCurrentUserId() || undefined)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode, details: result.details },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { period: result.period, entries: result.entries },
+      message: `Payroll period closed with ${result.entries.length} entries`,
+    })
+  } catch (error) {
+    logger.error('Error closing payroll period', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to close payroll period' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole } from '@/lib/server-auth'
+import { payrollService } from '@/lib/payroll'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// GET /api/admin/payroll/periods/[id]/export?format=csv|bank|json - Download a closed period
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'csv'
+
+    const result = await payrollService.exportPeriod(params.id, format)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return new NextResponse(result.file.content, {
+      headers: {
+        'Content-Type': result.file.contentType,
+        'Content-Disposition': `attachment; filename="${result.file.filename}"`,
+      },
+    })
+  } catch (error) {
+    logger.error('Error exporting payroll period', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to export payroll period' },
+      { status: 500 }
+    )
+  }
+}
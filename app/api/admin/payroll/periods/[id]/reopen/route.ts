@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { payrollService } from '@/lib/payroll'
+import { payrollReopenSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// POST /api/admin/payroll/periods/[id]/reopen - Unlock a closed payroll period
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const body = await request.json()
+    const { reason } = payrollReopenSchema.parse(body)
+
+    const result = await payrollService.reopenPeriod(params.id, reason, getCurrentUserId() || undefined)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.period,
+      message: 'Payroll period reopened',
+    })
+  } catch (error) {
+    logger.error('Error reopening payroll period', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid reopen request', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to reopen payroll period' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import { hasAnyServerRole } from '@/lib/server-auth'
+import { payrollService } from '@/lib/payroll'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// GET /api/admin/payroll/periods/[id] - Get a period with its entries
+// (stored entries once closed, a live preview while open)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const period = await serverDbManager.getPayrollPeriod(params.id)
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Payroll period not found' },
+        { status: 404 }
+      )
+    }
+
+    if (period.status === 'closed') {
+      const entries = await serverDbManager.getPayrollEntries(period.id)
+      return NextResponse.json({
+        success: true,
+        data: { period, entries, missingRates: [], preview: false },
+      })
+    }
+
+    const { entries, missingRates } = await payrollService.calculatePeriod(period)
+
+    return NextResponse.json({
+      success: true,
+      data: { period, entries, missingRates, preview: true },
+    })
+  } catch (error) {
+    logger.error('Error fetching payroll period', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch payroll period' },
+      { status: 500 }
+    )
+  }
+}
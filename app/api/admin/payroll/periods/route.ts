@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import type { PayrollPeriodStatus } from '@/lib/server-db'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { payrollService } from '@/lib/payroll'
+import { payrollPeriodSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// GET /api/admin/payroll/periods - List payroll periods
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as PayrollPeriodStatus | null
+
+    const periods = await serverDbManager.getPayrollPeriods({
+      status: status || undefined,
+      from: searchParams.get('from') || undefined,
+      to: searchParams.get('to') || undefined,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: periods,
+    })
+  } catch (error) {
+    logger.error('Error fetching payroll periods', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch payroll periods' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/payroll/periods - Open a new payroll period
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const body = await request.json()
+    const validatedData = payrollPeriodSchema.parse(body)
+
+    const result = await payrollService.createPeriod(validatedData, getCurrentUserId() || undefined)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.period,
+      message: 'Payroll period created successfully',
+    }, { status: 201 })
+  } catch (error) {
+    logger.error('Error creating payroll period', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid payroll period data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create payroll period' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,56 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ReportBuilder } from '@/lib/report-builder'
+import { hasAnyServerRole, getServerAuthSession } from '@/lib/server-auth'
+import { serverDbManager } from '@/lib/server-db'
+import { reportDefinitions } from '@/lib/report-definitions'
+import { reportBuildRequestSchema } from '@/lib/validation-schemas'
 
-// Mock authentication check
-// In a real implementation, this would use proper authentication
-async function checkAuth() {
-  // Mock implementation - always return true for demo
-  return true
-}
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
 
-// POST /api/admin/reports/build - Build a report
+// POST /api/admin/reports/build - Run a saved definition (by id) or an unsaved configuration
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const isAuthenticated = await checkAuth()
-    if (!isAuthenticated) {
+    const user = getServerAuthSession()?.user
+    if (!user || !hasAnyServerRole(['admin', 'hr', 'manager'])) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
+        { success: false, error: 'Unauthorized' },
         { status: 401 }
       )
     }
 
-    // Parse request body
-    const body = await request.json()
-    const { id, config } = body
-
-    let reportBuilder: ReportBuilder
-
-    if (id) {
-      // Load existing report
-      reportBuilder = await ReportBuilder.load(id)
-    } else if (config) {
-      // Create new report builder from config
-      reportBuilder = new ReportBuilder(config)
-    } else {
+    const body = await request.json().catch(() => ({}))
+    const validation = reportBuildRequestSchema.safeParse(body)
+    if (!validation.success) {
       return NextResponse.json(
-        { error: 'Missing report ID or configuration' },
+        { success: false, error: 'Invalid report request', details: validation.error.errors },
         { status: 400 }
       )
     }
 
-    // Build report
-    const reportData = await reportBuilder.build()
+    const { id, config } = validation.data
+    if (id) {
+      const definition = await reportDefinitions.get(id, { id: user.id, role: user.role })
+      if (!definition.success) {
+        return NextResponse.json(
+          { success: false, error: definition.error, errorCode: definition.errorCode },
+          { status: definition.status }
+        )
+      }
+
+      const reportData = await reportDefinitions.run(definition.config)
+      await serverDbManager.markReportGenerated(id)
+      return NextResponse.json({ success: true, data: reportData })
+    }
 
-    return NextResponse.json({
-      success: true,
-      data: reportData
-    })
+    const reportData = await reportDefinitions.run(config!)
+    return NextResponse.json({ success: true, data: reportData })
   } catch (error) {
-    console.error('Build report error:', error)
+    logger.error('Build report error', error as Error)
     return NextResponse.json(
-      { error: 'Internal server error' },
+      { success: false, error: 'Failed to build report' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
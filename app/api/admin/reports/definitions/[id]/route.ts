@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getServerAuthSession } from '@/lib/server-auth'
+import { reportDefinitions } from '@/lib/report-definitions'
+import { reportSharingSchema } from '@/lib/validation-schemas'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/reports/definitions/[id] - Load a saved definition
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = getServerAuthSession()?.user
+    if (!user || !hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await reportDefinitions.get(params.id, { id: user.id, role: user.role })
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.config })
+  } catch (error) {
+    logger.error('Error fetching report definition', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch report definition' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/admin/reports/definitions/[id] - Change who the report is shared with
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = getServerAuthSession()?.user
+    if (!user || !hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validation = reportSharingSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid sharing settings', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const result = await reportDefinitions.share(params.id, { id: user.id, role: user.role }, validation.data)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.config, message: 'Report sharing updated' })
+  } catch (error) {
+    logger.error('Error updating report sharing', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update report sharing' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/reports/definitions/[id] - Delete a definition and its versions
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = getServerAuthSession()?.user
+    if (!user || !hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await reportDefinitions.remove(params.id, { id: user.id, role: user.role })
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, message: 'Report deleted' })
+  } catch (error) {
+    logger.error('Error deleting report definition', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete report definition' },
+      { status: 500 }
+    )
+  }
+}
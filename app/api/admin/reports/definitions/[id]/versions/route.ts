@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getServerAuthSession } from '@/lib/server-auth'
+import { reportDefinitions } from '@/lib/report-definitions'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/reports/definitions/[id]/versions - Saved versions, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = getServerAuthSession()?.user
+    if (!user || !hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await reportDefinitions.versions(params.id, { id: user.id, role: user.role })
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.versions })
+  } catch (error) {
+    logger.error('Error fetching report versions', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch report versions' },
+      { status: 500 }
+    )
+  }
+}
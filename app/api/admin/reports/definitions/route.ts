@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getServerAuthSession } from '@/lib/server-auth'
+import { reportDefinitions } from '@/lib/report-definitions'
+import { jobScheduler } from '@/lib/job-scheduler'
+import { reportDefinitionSaveSchema } from '@/lib/validation-schemas'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/reports/definitions - Saved report definitions visible to the user
+export async function GET() {
+  try {
+    const user = getServerAuthSession()?.user
+    if (!user || !hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const definitions = await reportDefinitions.list({ id: user.id, role: user.role })
+
+    return NextResponse.json({ success: true, data: definitions })
+  } catch (error) {
+    logger.error('Error fetching report definitions', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch report definitions' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/reports/definitions - Create a definition or save a new version
+export async function POST(request: NextRequest) {
+  try {
+    const user = getServerAuthSession()?.user
+    if (!user || !hasAnyServerRole(['admin', 'hr', 'manager'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validation = reportDefinitionSaveSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid report definition', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const result = await reportDefinitions.save(validation.data, { id: user.id, role: user.role })
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    // Saving the definition saves its schedule too
+    const config = result.config
+    const job = await jobScheduler.syncReportSchedule(config, validation.data.config.schedule, user.id)
+    if (config.schedule && job) {
+      config.schedule = { ...config.schedule, nextRun: job.nextRunAt.toISOString() }
+    }
+
+    return NextResponse.json(
+      { success: true, data: config, message: `Report saved as version ${config.version}` },
+      { status: validation.data.id ? 200 : 201 }
+    )
+  } catch (error) {
+    logger.error('Error saving report definition', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to save report definition' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,63 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { ReportBuilder } from '@/lib/report-builder'
-
-import { logger, logApiError, logApiRequest } from '@/lib/logger'
-// Mock authentication check
-// In a real implementation, this would use proper authentication
-async function checkAuth() {
-  // Mock implementation - always return true for demo
-  return true
-}
+import { hasAnyServerRole, getServerAuthSession } from '@/lib/server-auth'
+import { serverDbManager } from '@/lib/server-db'
+import { reportDefinitions } from '@/lib/report-definitions'
+import { reportExportRequestSchema } from '@/lib/validation-schemas'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
 
-// POST /api/admin/reports/export - Export a report
+// POST /api/admin/reports/export - Render a saved definition or configuration to PDF, Excel or CSV
 export async function POST(request: NextRequest) {
   try {
-    // Check authentication
-    const isAuthenticated = await checkAuth()
-    if (!isAuthenticated) {
+    const user = getServerAuthSession()?.user
+    if (!user || !hasAnyServerRole(['admin', 'hr', 'manager'])) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
+        { success: false, error: 'Unauthorized' },
         { status: 401 }
       )
     }
 
-    // Parse request body
-    const body = await request.json()
-    const { id, config, format = 'pdf' } = body
-
-    let reportBuilder: ReportBuilder
-
-    if (id) {
-      // Load existing report
-      reportBuilder = await ReportBuilder.load(id)
-    } else if (config) {
-      // Create new report builder from config
-      reportBuilder = new ReportBuilder(config)
-    } else {
+    const body = await request.json().catch(() => ({}))
+    const validation = reportExportRequestSchema.safeParse(body)
+    if (!validation.success) {
       return NextResponse.json(
-        { error: 'Missing report ID or configuration' },
+        { success: false, error: 'Invalid export request', details: validation.error.errors },
         { status: 400 }
       )
     }
 
-    // Export report
-    const blob = await reportBuilder.export(format as 'pdf' | 'excel' | 'csv')
+    const { id, config, format } = validation.data
+    let rendered
+    if (id) {
+      const definition = await reportDefinitions.get(id, { id: user.id, role: user.role })
+      if (!definition.success) {
+        return NextResponse.json(
+          { success: false, error: definition.error, errorCode: definition.errorCode },
+          { status: definition.status }
+        )
+      }
 
-    // Set appropriate headers
-    const headers = new Headers()
-    headers.set('Content-Type', blob.type)
-    headers.set('Content-Disposition', `attachment; filename="report.${format}"`)
+      rendered = await reportDefinitions.export(definition.config, format)
+      await serverDbManager.markReportGenerated(id)
+    } else {
+      rendered = await reportDefinitions.export(config!, format)
+    }
+
+    const headers = {
+      'Content-Type': rendered.contentType,
+      'Content-Disposition': `attachment; filename="${rendered.filename}.${rendered.extension}"`
+    }
+
+    // Convert Buffer to ArrayBuffer for NextResponse
+    const { content } = rendered
+    const responseBody = Buffer.isBuffer(content)
+      ? content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength)
+      : content
 
-    // Return the file
-    return new NextResponse(blob, {
-      status: 200,
-      headers
-    })
+    return new NextResponse(responseBody as BodyInit, { status: 200, headers })
   } catch (error) {
     logger.error('Export report error', error as Error)
     return NextResponse.json(
-      { error: 'Internal server error' },
+      { success: false, error: 'Failed to export report' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -75,6 +75,7 @@ export async function POST(request: NextRequest) {
           }, { status: 400 });
         }
         
+        await businessIntelligence.whenReady();
         const report = businessIntelligence.generateReport({
           type: reportType,
           dateRange: {
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { jobScheduler } from '@/lib/job-scheduler'
+import { scheduledJobUpdateSchema } from '@/lib/validation-schemas'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/scheduled-jobs/[id] - Get a scheduled job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await jobScheduler.get(params.id)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.job })
+  } catch (error) {
+    logger.error('Error fetching scheduled job', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch scheduled job' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/admin/scheduled-jobs/[id] - Change a job's schedule, format or delivery
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userId = getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validation = scheduledJobUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid scheduled job update', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const result = await jobScheduler.update(params.id, validation.data, userId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.job, message: 'Scheduled job updated' })
+  } catch (error) {
+    logger.error('Error updating scheduled job', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to update scheduled job' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/scheduled-jobs/[id] - Delete a job and its run history
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userId = getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await jobScheduler.remove(params.id, userId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, message: 'Scheduled job deleted' })
+  } catch (error) {
+    logger.error('Error deleting scheduled job', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete scheduled job' },
+      { status: 500 }
+    )
+  }
+}
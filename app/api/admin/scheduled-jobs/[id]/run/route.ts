@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { jobScheduler } from '@/lib/job-scheduler'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/admin/scheduled-jobs/[id]/run - Run a job now, outside its schedule
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userId = getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await jobScheduler.runNow(params.id, userId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: result.run.status !== 'failed',
+      data: result.run,
+      message: result.run.status === 'failed' ? `Job failed: ${result.run.error || 'see run history'}` : `Job ${result.run.status}`
+    })
+  } catch (error) {
+    logger.error('Error running scheduled job', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run scheduled job' },
+      { status: 500 }
+    )
+  }
+}
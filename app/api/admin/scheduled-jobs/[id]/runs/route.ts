@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole } from '@/lib/server-auth'
+import { jobScheduler } from '@/lib/job-scheduler'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/scheduled-jobs/[id]/runs - Run history with artifact download links
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const limit = Number(new URL(request.url).searchParams.get('limit')) || undefined
+    const result = await jobScheduler.history(params.id, limit ? Math.min(limit, 200) : undefined)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.runs })
+  } catch (error) {
+    logger.error('Error fetching scheduled job runs', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch scheduled job runs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasAnyServerRole, getCurrentUserId } from '@/lib/server-auth'
+import { jobScheduler } from '@/lib/job-scheduler'
+import { deliveryChannels } from '@/lib/delivery-channels'
+import { scheduledJobSchema } from '@/lib/validation-schemas'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/scheduled-jobs - Scheduled reports and exports
+export async function GET(request: NextRequest) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const kind = new URL(request.url).searchParams.get('kind')
+    const jobs = await jobScheduler.list({
+      kind: kind === 'report' || kind === 'export' || kind === 'retention' || kind === 'archival' ? kind : undefined
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: jobs,
+      meta: { channels: deliveryChannels.types() }
+    })
+  } catch (error) {
+    logger.error('Error fetching scheduled jobs', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch scheduled jobs' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/scheduled-jobs - Schedule a saved report or a data export
+export async function POST(request: NextRequest) {
+  try {
+    if (!hasAnyServerRole(['admin', 'hr'])) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const userId = getCurrentUserId()
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const validation = scheduledJobSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid scheduled job', details: validation.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const result = await jobScheduler.create(validation.data, userId)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.job, message: 'Job scheduled' },
+      { status: 201 }
+    )
+  } catch (error) {
+    logger.error('Error creating scheduled job', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create scheduled job' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
 import { hasAnyServerRole } from '@/lib/server-auth'
+import { leaveService } from '@/lib/leave'
 import { z } from 'zod'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
@@ -130,6 +131,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Approved leave blocks the calendar
+    const blocked = []
+    for (const assignmentData of assignments) {
+      const date = new Date(assignmentData.date).toISOString().split('T')[0]
+      if (await leaveService.isOnApprovedLeave(assignmentData.userId, date)) {
+        blocked.push({ userId: assignmentData.userId, date })
+      }
+    }
+
+    if (blocked.length > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Some employees are on approved leave on the requested dates', blocked },
+        { status: 409 }
+      )
+    }
+
     // Create schedule assignments
     const createdAssignments = []
     for (const assignmentData of assignments) {
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import { hasAnyServerRole } from '@/lib/server-auth'
+import { officeSiteSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr', 'manager'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// PUT /api/admin/sites/[id] - Update an office site
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const existing = await serverDbManager.getOfficeSite(params.id)
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Office site not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedData = officeSiteSchema.partial().parse(body)
+
+    const site = await serverDbManager.saveOfficeSite({
+      ...existing,
+      ...validatedData,
+      updatedAt: new Date(),
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: site,
+      message: 'Office site updated successfully',
+    })
+  } catch (error) {
+    logger.error('Error updating office site', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid office site data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to update office site' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/sites/[id] - Deactivate an office site
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const deleted = await serverDbManager.deleteOfficeSite(params.id)
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete office site' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Office site deleted successfully',
+    })
+  } catch (error) {
+    logger.error('Error deleting office site', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete office site' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { serverDbManager } from '@/lib/server-db'
+import { hasAnyServerRole } from '@/lib/server-auth'
+import { officeSiteSchema } from '@/lib/validation-schemas'
+import { z } from 'zod'
+
+import { logger } from '@/lib/logger'
+// Helper function to check admin authentication
+async function checkAdminAuth(request: NextRequest) {
+  if (!hasAnyServerRole(['admin', 'hr', 'manager'])) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+  return null
+}
+
+// GET /api/admin/sites - Get all office sites (geofences)
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('includeInactive') === 'true'
+
+    const sites = await serverDbManager.getOfficeSites(includeInactive ? undefined : { isActive: true })
+
+    return NextResponse.json({
+      success: true,
+      data: sites,
+    })
+  } catch (error) {
+    logger.error('Error fetching office sites', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch office sites' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/sites - Create a new office site
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication
+    const authError = await checkAdminAuth(request)
+    if (authError) return authError
+
+    // Parse and validate request body
+    const body = await request.json()
+    const validatedData = officeSiteSchema.parse(body)
+
+    const site = await serverDbManager.saveOfficeSite({
+      id: crypto.randomUUID(),
+      ...validatedData,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: site,
+      message: 'Office site created successfully',
+    }, { status: 201 })
+  } catch (error) {
+    logger.error('Error creating office site', error as Error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid office site data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to create office site' },
+      { status: 500 }
+    )
+  }
+}
@@ -5,15 +5,43 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
-import { findBestMatch, assessMatchQuality } from '@/lib/face-matching'
+import { assessMatchQuality } from '@/lib/face-matching'
+import { faceIdentification, parseSecondFactor } from '@/lib/face-identification'
+import { attendanceEvaluation } from '@/lib/attendance-evaluation'
+import { overtimeService } from '@/lib/overtime'
+import { faceEnrollmentPolicy } from '@/lib/face-enrollment-policy'
+import { faceTemplateAdaptation } from '@/lib/face-template-adaptation'
+import { geofenceService } from '@/lib/geofence'
+import { kioskDeviceTrust } from '@/lib/kiosk-device-trust'
+import { redeemLivenessToken } from '@/lib/liveness-token'
+import { logFRLiveness } from '@/lib/face-recognition-logger'
 import { logger, logApiRequest, logApiError } from '@/lib/logger'
 
 export const dynamic = 'force-dynamic'
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { descriptor, timestamp, location, type } = body
+    // Read raw so a kiosk signature can be checked against the exact body
+    const rawBody = await request.text()
+    const kiosk = await kioskDeviceTrust.authorize(request, rawBody)
+    if (!kiosk.success) {
+      return NextResponse.json(
+        { success: false, error: kiosk.error, errorCode: kiosk.errorCode },
+        { status: kiosk.status }
+      )
+    }
+    const kioskDevice = kiosk.device
+
+    let body
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be valid JSON', errorCode: 'INVALID_JSON' },
+        { status: 400 }
+      )
+    }
+    const { descriptor, timestamp, location, type, livenessToken, secondFactor } = body
     
     // Validate input
     if (!descriptor || !Array.isArray(descriptor)) {
@@ -29,27 +57,32 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       )
     }
+
+    // Require a fresh liveness token bound to this face
+    const liveness = await redeemLivenessToken(livenessToken, descriptor)
+    if (!liveness.valid) {
+      logFRLiveness.failed(`token_${liveness.error}`, { endpoint: '/api/attendance/face-checkin' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: liveness.error === 'missing'
+            ? 'Liveness check is required before check-in'
+            : 'Liveness check expired or invalid. Please repeat the liveness check.',
+          errorCode: liveness.error === 'missing' ? 'LIVENESS_REQUIRED' : 'LIVENESS_FAILED',
+          reason: liveness.error
+        },
+        { status: 403 }
+      )
+    }
     
-    // Match face against all enrolled faces
+    // Match face against the enrolled embedding index
     logger.debug('Attempting to match face')
     
-    // Get all users with face embeddings
-    const users = await serverDbManager.getUsers()
-    const allEmbeddings = await Promise.all(
-      users.map(async (user) => {
-        const embeddings = await serverDbManager.getFaceEmbeddings(user.id)
-        return embeddings.map(emb => ({
-          userId: user.id,
-          embedding: emb.embedding,
-          embeddingId: emb.id,
-          user: user
-        }))
-      })
-    )
-
-    const knownEmbeddings = allEmbeddings.flat().filter(e => e.embedding)
+    const identification = await faceIdentification.identify(descriptor, {
+      secondFactor: parseSecondFactor(secondFactor)
+    })
 
-    if (knownEmbeddings.length === 0) {
+    if (identification.indexSize === 0) {
       return NextResponse.json(
         { 
           success: false, 
@@ -60,14 +93,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Find best matching user
-    const match = findBestMatch(
-      descriptor,
-      knownEmbeddings.map(e => ({
-        userId: e.userId,
-        embedding: e.embedding
-      }))
-    )
+    if (identification.outcome === 'ambiguous') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Face matches more than one employee. Please confirm with your PIN or employee ID.',
+          errorCode: 'AMBIGUOUS_MATCH',
+          requiresSecondFactor: true,
+          secondFactors: ['pin', 'employeeId'],
+          candidateCount: identification.candidates.length
+        },
+        { status: 409 }
+      )
+    }
+
+    // Best matching user (open-set: null when below the user's threshold)
+    const match = identification.match
     
     if (!match) {
       return NextResponse.json(
@@ -95,9 +136,6 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    // Get matched embedding info
-    const matchedEmbedding = knownEmbeddings.find(e => e.userId === match.userId)
-    
     // Get user details
     const user = await serverDbManager.getUser(match.userId)
     
@@ -114,41 +152,54 @@ export async function POST(request: NextRequest) {
     
     // Determine check-in type if not provided
     const checkType = type || 'check-in'
+    // Server time; the client's clock is only kept for reference
+    const checkInTime = new Date()
     
-    // Check if already checked in today (prevent duplicate check-ins)
+    // Evaluate against the employee's effective shift (handles overnight shifts)
+    const evaluation = await attendanceEvaluation.evaluate(user.id, checkInTime, checkType)
+    const { effectiveShift } = evaluation
+    
+    // Check if already checked in for this shift (prevent duplicate check-ins)
     if (checkType === 'check-in') {
-      const today = new Date()
-      today.setHours(0, 0, 0, 0)
-      const todayRecords = await serverDbManager.getAttendanceRecords({
-        userId: user.id,
-        startDate: today,
-        type: 'check-in'
-      })
+      const shiftRecords = await attendanceEvaluation.findShiftCheckIns(user.id, effectiveShift)
       
-      if (todayRecords.length > 0) {
+      if (shiftRecords.length > 0) {
         return NextResponse.json(
           { 
             success: false, 
-            error: 'You have already checked in today',
+            error: 'You have already checked in for this shift',
             errorCode: 'ALREADY_CHECKED_IN',
-            existingRecord: todayRecords[0]
+            existingRecord: shiftRecords[0]
           },
           { status: 400 }
         )
       }
     }
     
-    // Calculate status (present/late)
-    const checkInTime = new Date(timestamp || Date.now())
-    const time = checkInTime.getHours() * 60 + checkInTime.getMinutes()
-    const workStart = 8 * 60 // 8:00 AM
-    const lateThreshold = 15 // 15 minutes
+    // Registered kiosks are bound to a site; unsigned requests (only accepted when an
+    // admin turned off requireKioskDevice) are checked by the submitted location
+    const geofence = kioskDevice
+      ? await geofenceService.checkKioskSite(user.id, kioskDevice.siteId, checkInTime)
+      : await geofenceService.checkLocation(user.id, location, checkInTime)
     
-    let status: 'present' | 'late' = 'present'
-    if (checkType === 'check-in' && time > workStart + lateThreshold) {
-      status = 'late'
+    if (geofence.action === 'reject') {
+      return NextResponse.json(
+        { 
+          success: false, 
+          error: geofence.message || 'Location is outside the allowed area',
+          errorCode: geofence.status === 'missing_location' ? 'LOCATION_REQUIRED' : 'OUTSIDE_GEOFENCE',
+          geofence: {
+            status: geofence.status,
+            siteName: geofence.siteName,
+            distanceMeters: geofence.distanceMeters
+          }
+        },
+        { status: 403 }
+      )
     }
     
+    const status = evaluation.status
+    
     // Create attendance record
     const record = {
       id: crypto.randomUUID(),
@@ -159,25 +210,64 @@ export async function POST(request: NextRequest) {
       status,
       verified: true, // Face recognition verified
       synced: true,
+      zoneViolation: geofence.violation,
+      kioskDeviceId: kioskDevice?.id,
       metadata: {
         faceMatchConfidence: match.confidence,
         matchQuality: matchQuality.quality,
         similarity: match.similarity,
         method: 'face-recognition',
-        matchedEmbeddingId: matchedEmbedding?.embeddingId
+        livenessChallengeId: liveness.challengeId,
+        matchedEmbeddingId: match.embeddingId,
+        matchMargin: identification.margin,
+        matchThreshold: identification.threshold,
+        secondFactor: identification.resolvedBy,
+        shiftId: effectiveShift.shift.id,
+        shiftCode: effectiveShift.shift.code,
+        shiftDate: effectiveShift.shiftDate,
+        shiftSource: effectiveShift.source,
+        lateMinutes: evaluation.lateMinutes,
+        earlyLeaveMinutes: evaluation.earlyLeaveMinutes,
+        clientTimestamp: timestamp,
+        kioskDevice: kioskDevice ? { id: kioskDevice.id, name: kioskDevice.name } : undefined,
+        geofence: {
+          status: geofence.status,
+          siteId: geofence.siteId,
+          siteName: geofence.siteName,
+          distanceMeters: geofence.distanceMeters,
+          accuracy: geofence.accuracy,
+          policy: geofence.policy
+        }
       },
       createdAt: new Date(),
       updatedAt: new Date()
     }
     
     const savedRecord = await serverDbManager.saveAttendanceRecord(record)
+
+    // Track how well the matched embedding still scores; never fail the check-in over it
+    await faceEnrollmentPolicy
+      .recordMatch(match, identification.threshold)
+      .catch(error => logger.error('Error recording face match', error as Error))
+
+    // Refine the adaptive template from confident matches (opt-in)
+    await faceTemplateAdaptation
+      .adapt({ descriptor, identification, attendanceId: savedRecord.id, livenessChallengeId: liveness.challengeId })
+      .catch(error => logger.error('Error adapting face template', error as Error))
+    
+    // Detect overtime for the finished day; never fail the check-out over it
+    if (checkType === 'check-out') {
+      await overtimeService
+        .recalculateDay(user.id, effectiveShift.shiftDate)
+        .catch(error => logger.error('Error recalculating overtime', error as Error))
+    }
     
     // Create notification for user
     await serverDbManager.createNotification({
       userId: user.id,
       title: checkType === 'check-in' ? 'Check-in Successful' : 'Check-out Successful',
-      message: `You have successfully ${checkType === 'check-in' ? 'checked in' : 'checked out'} at ${checkInTime.toLocaleTimeString('id-ID')}${status === 'late' ? ' (Late)' : ''}`,
-      type: status === 'late' ? 'warning' : 'success',
+      message: `You have successfully ${checkType === 'check-in' ? 'checked in' : 'checked out'} at ${checkInTime.toLocaleTimeString('id-ID')}${status === 'late' ? ` (Late ${evaluation.lateMinutes} min)` : ''}${status === 'early_leave' ? ` (Early leave ${evaluation.earlyLeaveMinutes} min)` : ''}`,
+      type: status === 'present' ? 'success' : 'warning',
       priority: 'normal'
     })
     
@@ -193,6 +283,17 @@ export async function POST(request: NextRequest) {
         timestamp: checkInTime.toISOString(),
         type: checkType,
         status,
+        lateMinutes: evaluation.lateMinutes,
+        earlyLeaveMinutes: evaluation.earlyLeaveMinutes,
+        shift: {
+          id: effectiveShift.shift.id,
+          code: effectiveShift.shift.code,
+          name: effectiveShift.shift.name,
+          date: effectiveShift.shiftDate,
+          start: effectiveShift.start.toISOString(),
+          end: effectiveShift.end.toISOString()
+        },
+        zoneViolation: geofence.violation,
         confidence: match.confidence,
         matchQuality: matchQuality.quality,
         similarity: match.similarity,
@@ -4,6 +4,8 @@ import { withValidation } from '@/lib/validation-middleware';
 import { attendanceRecordSchema, attendanceQuerySchema } from '@/lib/validation-schemas';
 import { createAuthRateLimit, addSecurityHeaders, BruteForceProtection, logSecurityEvent } from '@/lib/security-middleware';
 import { verifyToken } from '@/lib/auth-middleware';
+import { attendanceEvaluation } from '@/lib/attendance-evaluation';
+import { overtimeService, getApprovedMinutes } from '@/lib/overtime';
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export const GET = withValidation(
@@ -78,9 +80,32 @@ export const GET = withValidation(
         return addSecurityHeaders(response);
       }
       
+      // Attach approved overtime for each attendance day
+      const records = data || [];
+      const dates = records.map(record => record.date).sort();
+      const overtime = records.length > 0
+        ? await overtimeService.getApprovedOvertime(
+            dates[0],
+            dates[dates.length - 1],
+            Array.from(new Set(records.map(record => record.user_id)))
+          )
+        : new Map();
+
       const response = NextResponse.json({
         success: true,
-        data,
+        data: records.map(record => {
+          const approved = overtime.get(record.user_id)?.get(record.date);
+          return {
+            ...record,
+            approved_overtime: approved ? {
+              total_minutes: getApprovedMinutes(approved),
+              weekday_minutes: approved.approvedWeekdayMinutes,
+              weekend_minutes: approved.approvedWeekendMinutes,
+              holiday_minutes: approved.approvedHolidayMinutes,
+              weighted_hours: approved.weightedHours
+            } : null
+          };
+        }),
         pagination: {
           page,
           limit,
@@ -143,10 +168,29 @@ export const POST = withValidation(
         return addSecurityHeaders(response);
       }
 
+      // Derive status from the employee's effective shift unless explicitly provided
+      const checkInEvaluation = validatedData.checkIn
+        ? await attendanceEvaluation.evaluate(validatedData.userId, new Date(validatedData.checkIn), 'check-in')
+        : null;
+      const checkOutEvaluation = validatedData.checkOut
+        ? await attendanceEvaluation.evaluate(validatedData.userId, new Date(validatedData.checkOut), 'check-out')
+        : null;
+
+      let status = validatedData.status;
+      if (!status && (checkInEvaluation || checkOutEvaluation)) {
+        if (checkInEvaluation?.status === 'late') {
+          status = 'late';
+        } else if (checkOutEvaluation?.status === 'early_leave') {
+          status = 'early_leave';
+        } else {
+          status = 'present';
+        }
+      }
+
       // Insert attendance record
       const { data, error } = await supabase
         .from('daily_attendance_records')
-        .insert(validatedData)
+        .insert({ ...validatedData, status })
         .select()
         .single();
       
@@ -169,9 +213,16 @@ export const POST = withValidation(
         userId: tokenVerification.payload.id
       }, 'low');
       
+      const effectiveShift = (checkInEvaluation || checkOutEvaluation)?.effectiveShift;
       const response = NextResponse.json({
         success: true,
-        data
+        data,
+        evaluation: effectiveShift ? {
+          shiftCode: effectiveShift.shift.code,
+          shiftDate: effectiveShift.shiftDate,
+          lateMinutes: checkInEvaluation?.lateMinutes ?? 0,
+          earlyLeaveMinutes: checkOutEvaluation?.earlyLeaveMinutes ?? 0
+        } : undefined
       }, { status: 201 });
       
       return addSecurityHeaders(response);
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase } from '@/lib/supabase';
+import { leaveService } from '@/lib/leave';
+import { holidayCalendar } from '@/lib/holiday-calendar';
+import { overtimeService, getApprovedMinutes } from '@/lib/overtime';
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export const dynamic = 'force-dynamic';
@@ -45,16 +48,37 @@ export async function GET(request: NextRequest) {
       total_days: data?.length || 0,
       present_days: 0,
       absent_days: 0,
+      on_leave_days: 0,
+      holiday_days: 0,
       late_days: 0,
       early_leave_days: 0,
       total_work_hours: 0,
       overtime_hours: 0,
+      weighted_overtime_hours: 0,
       average_work_hours: 0,
     };
     
     if (data && data.length > 0) {
+      // Days on approved leave or holidays are never counted as absences
+      const dates = data.map(record => record.date).sort();
+      const rangeStart = startDate || dates[0];
+      const rangeEnd = endDate || dates[dates.length - 1];
+      const userIds = userId ? [userId] : Array.from(new Set(data.map(record => record.user_id)));
+      const [leaveDates, holidayDates, overtime] = await Promise.all([
+        leaveService.getApprovedLeaveDates(rangeStart, rangeEnd, userIds),
+        holidayCalendar.getHolidayDatesForUsers(rangeStart, rangeEnd, userIds),
+        overtimeService.getApprovedOvertime(rangeStart, rangeEnd, userIds),
+      ]);
+
       for (const record of data) {
-        if (record.status === 'present') {
+        const onApprovedLeave = leaveDates.get(record.user_id)?.has(record.date) ?? false;
+        const onHoliday = holidayDates.get(record.user_id)?.has(record.date) ?? false;
+
+        if (record.status === 'on_leave' || (record.status === 'absent' && onApprovedLeave)) {
+          stats.on_leave_days++;
+        } else if (record.status === 'absent' && onHoliday) {
+          stats.holiday_days++;
+        } else if (record.status === 'present') {
           stats.present_days++;
         } else if (record.status === 'absent') {
           stats.absent_days++;
@@ -70,16 +94,13 @@ export async function GET(request: NextRequest) {
           const clockOutTime = new Date(record.clock_out);
           const workHours = (clockOutTime.getTime() - clockInTime.getTime()) / (1000 * 60 * 60);
           stats.total_work_hours += workHours;
-          
-          // Calculate overtime (after 17:00)
-          const clockOutHour = clockOutTime.getHours();
-          const clockOutMinute = clockOutTime.getMinutes();
-          if (clockOutHour > 17 || (clockOutHour === 17 && clockOutMinute > 0)) {
-            const overtimeStart = new Date(clockOutTime);
-            overtimeStart.setHours(17, 0, 0, 0);
-            const overtimeHours = (clockOutTime.getTime() - overtimeStart.getTime()) / (1000 * 60 * 60);
-            stats.overtime_hours += overtimeHours;
-          }
+        }
+
+        // Only manager-approved overtime counts
+        const approvedOvertime = overtime.get(record.user_id)?.get(record.date);
+        if (approvedOvertime) {
+          stats.overtime_hours += getApprovedMinutes(approvedOvertime) / 60;
+          stats.weighted_overtime_hours += approvedOvertime.weightedHours;
         }
       }
       
@@ -4,6 +4,7 @@ import { verifyJWT } from "@/lib/auth";
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export const dynamic = 'force-dynamic'
 import { createClient } from "@supabase/supabase-js";
+import { geofenceService } from "@/lib/geofence";
 
 export async function POST(request: Request) {
   const authResult = await verifyJWT(request);
@@ -74,6 +75,20 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
 
+    // Enforce geofence on the submitted location
+    const geofence = await geofenceService.checkLocation(userId, location);
+    if (geofence.action === 'reject') {
+      return NextResponse.json({
+        error: geofence.message || "Location is outside the allowed area",
+        errorCode: geofence.status === 'missing_location' ? 'LOCATION_REQUIRED' : 'OUTSIDE_GEOFENCE',
+        geofence: {
+          status: geofence.status,
+          siteName: geofence.siteName,
+          distanceMeters: geofence.distanceMeters
+        }
+      }, { status: 403 });
+    }
+
     // Create break session
     const now = new Date().toISOString();
     const { data: breakSession, error: insertError } = await supabase
@@ -86,6 +101,7 @@ export async function POST(request: Request) {
         break_policy_id: user?.break_policy_id,
         is_paid: true, // Will be calculated on end
         location,
+        zone_violation: geofence.violation,
         status: "in_progress"
       })
       .select()
@@ -97,7 +113,8 @@ export async function POST(request: Request) {
       success: true,
       breakSession,
       message: "Break started successfully",
-      remainingMinutes: validation.remainingMinutes
+      remainingMinutes: validation.remainingMinutes,
+      zoneViolation: geofence.violation
     });
   } catch (error: any) {
     logger.error('Error starting break', error as Error);
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import crypto from 'crypto'
+import { jobScheduler } from '@/lib/job-scheduler'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+function isAuthorizedCron(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const provided = Buffer.from(request.headers.get('authorization') || '')
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected)
+}
+
+// GET /api/cron/scheduled-jobs - Scheduler tick: run due scheduled reports and exports
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCron(request)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const runs = await jobScheduler.runDue()
+
+    return NextResponse.json({ success: true, data: { executed: runs.length, runs } })
+  } catch (error) {
+    logger.error('Error running scheduled jobs', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to run scheduled jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -6,6 +6,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
 import { validateEmbedding } from '@/lib/face-matching'
+import { faceEmbeddingIndex } from '@/lib/face-embedding-index'
+import { faceEnrollmentPolicy, MAX_EMBEDDINGS_PER_USER } from '@/lib/face-enrollment-policy'
+import { faceEmbeddingEnrollmentSchema } from '@/lib/validation-schemas'
 import { logger } from '@/lib/logger'
 
 export const dynamic = 'force-dynamic'
@@ -13,22 +16,14 @@ export const dynamic = 'force-dynamic'
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
-    const { userId, descriptor, quality, metadata } = body
-
-    // Validate input
-    if (!userId || !descriptor) {
-      return NextResponse.json(
-        { success: false, error: 'userId and descriptor are required' },
-        { status: 400 }
-      )
-    }
-
-    if (!Array.isArray(descriptor)) {
+    const parsed = faceEmbeddingEnrollmentSchema.safeParse(body)
+    if (!parsed.success) {
       return NextResponse.json(
-        { success: false, error: 'descriptor must be an array' },
+        { success: false, error: 'Invalid face enrollment', details: parsed.error.errors },
         { status: 400 }
       )
     }
+    const { userId, descriptor, metadata } = parsed.data
 
     // Validate embedding
     if (!validateEmbedding(descriptor)) {
@@ -50,30 +45,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Check if user already has embeddings
-    const existingEmbeddings = await serverDbManager.getFaceEmbeddings(userId)
-    
-    // Limit to 3 face embeddings per user
-    if (existingEmbeddings.length >= 3) {
+    // Quality, duplicate identity, pose diversity and the per-user cap
+    const policy = await faceEnrollmentPolicy.evaluate(userId, descriptor, metadata.capture)
+    if (!policy.success) {
       return NextResponse.json(
-        { 
-          success: false, 
-          error: 'Maximum number of face enrollments (3) reached. Please delete an old enrollment first.',
-          data: {
-            currentCount: existingEmbeddings.length,
-            maxCount: 3
-          }
-        },
-        { status: 400 }
+        { success: false, error: policy.error, errorCode: policy.errorCode },
+        { status: policy.status }
       )
     }
+    const existingEmbeddings = policy.existing
 
     // Create new embedding
     const embedding = {
       id: crypto.randomUUID(),
       userId,
       embedding: descriptor,
-      quality: quality || 0.8,
+      quality: policy.quality,
       metadata: {
         ...metadata,
         enrolledAt: new Date().toISOString(),
@@ -86,6 +73,7 @@ export async function POST(request: NextRequest) {
     }
 
     const savedEmbedding = await serverDbManager.saveFaceEmbedding(embedding)
+    faceEmbeddingIndex.invalidate()
 
     logger.info('Face enrolled successfully', {
       userId,
@@ -111,7 +99,7 @@ export async function POST(request: NextRequest) {
         quality: savedEmbedding.quality,
         enrollmentNumber: embedding.metadata.enrollmentNumber,
         totalEnrollments: existingEmbeddings.length + 1,
-        maxEnrollments: 3,
+        maxEnrollments: MAX_EMBEDDINGS_PER_USER,
         createdAt: savedEmbedding.createdAt
       }
     })
@@ -142,8 +130,8 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get face embeddings
-    const embeddings = await serverDbManager.getFaceEmbeddings(userId)
+    // Get enrolled face embeddings; the adaptive template is managed by admins
+    const embeddings = (await serverDbManager.getFaceEmbeddings(userId)).filter(e => e.kind !== 'adaptive')
 
     return NextResponse.json({
       success: true,
@@ -154,11 +142,12 @@ export async function GET(request: NextRequest) {
           quality: e.quality,
           metadata: e.metadata,
           isActive: e.isActive,
+          needsReenrollment: e.needsReenrollment ?? false,
           createdAt: e.createdAt,
           updatedAt: e.updatedAt
         })),
         count: embeddings.length,
-        maxCount: 3
+        maxCount: MAX_EMBEDDINGS_PER_USER
       }
     })
   } catch (error: any) {
@@ -198,6 +187,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     const success = await serverDbManager.deleteFaceEmbedding(embeddingId)
+    faceEmbeddingIndex.invalidate()
 
     if (!success) {
       return NextResponse.json(
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { verifyJWT } from "@/lib/auth";
+import { serverDbManager } from "@/lib/server-db";
+import { toOfficeDateString } from "@/lib/office-time";
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export const dynamic = 'force-dynamic'
@@ -56,6 +58,26 @@ export async function POST(
       }, { status: 400 });
     }
 
+    // Attendance inside a closed payroll period can't be changed
+    if (exception.attendance_id) {
+      const { data: attendance } = await supabase
+        .from("attendance_records")
+        .select("timestamp, metadata")
+        .eq("id", exception.attendance_id)
+        .single();
+
+      const attendanceDate = attendance
+        ? attendance.metadata?.shiftDate || toOfficeDateString(new Date(attendance.timestamp))
+        : null;
+      const lockedPeriod = attendanceDate ? await serverDbManager.getClosedPayrollPeriodFor(attendanceDate) : null;
+      if (lockedPeriod) {
+        return NextResponse.json({
+          error: `Payroll period "${lockedPeriod.name}" is closed; reopen it before processing this exception`,
+          code: "PERIOD_LOCKED"
+        }, { status: 409 });
+      }
+    }
+
     const now = new Date().toISOString();
 
     if (action === 'approve') {
@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server";
 import { verifyJWT } from "@/lib/auth";
+import { serverDbManager } from "@/lib/server-db";
+import { payrollService } from "@/lib/payroll";
+import { toOfficeDateString } from "@/lib/office-time";
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export const dynamic = 'force-dynamic'
@@ -53,6 +56,20 @@ export async function POST(request: Request) {
       }, { status: 403 });
     }
 
+    // Attendance inside a closed payroll period can't be changed
+    const attendanceDate = attendance.metadata?.shiftDate || toOfficeDateString(new Date(attendance.timestamp));
+    const lockedPeriod = await serverDbManager.getClosedPayrollPeriodFor(attendanceDate);
+    if (lockedPeriod) {
+      return NextResponse.json({
+        error: `Payroll period "${lockedPeriod.name}" is closed; ask HR to reopen it`,
+        code: "PERIOD_LOCKED"
+      }, { status: 409 });
+    }
+
+    // Deductions are priced at the employee's own or pay grade hourly rate
+    const rate = await payrollService.getHourlyRate(userId);
+    const hourlyRate = rate?.hourlyRate ?? 0;
+
     // Calculate time adjustment based on exception type
     let timeAdjustmentMinutes = 0;
     let affectSalary = true;
@@ -70,8 +87,6 @@ export async function POST(request: Request) {
         affectPerformance = false;
         performancePenalty = 0;
       } else {
-        // Calculate salary deduction (example: Rp 125,000/hour)
-        const hourlyRate = 125000;
         salaryDeduction = (timeAdjustmentMinutes / 60) * hourlyRate;
       }
     } else if (exception_type.startsWith('early_')) {
@@ -83,7 +98,6 @@ export async function POST(request: Request) {
         affectPerformance = false;
         performancePenalty = 0;
       } else {
-        const hourlyRate = 125000;
         salaryDeduction = (timeAdjustmentMinutes / 60) * hourlyRate;
       }
     }
@@ -135,6 +149,8 @@ export async function POST(request: Request) {
         performance_penalty_points: performancePenalty,
         metadata: {
           request_adjustment,
+          hourly_rate: hourlyRate,
+          rate_source: rate?.rateSource || null,
           requested_at: new Date().toISOString()
         }
       })
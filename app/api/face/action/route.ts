@@ -7,7 +7,16 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
-import { findBestMatch, assessMatchQuality } from '@/lib/face-matching'
+import { assessMatchQuality } from '@/lib/face-matching'
+import { faceIdentification, parseSecondFactor } from '@/lib/face-identification'
+import { attendanceEvaluation } from '@/lib/attendance-evaluation'
+import { overtimeService } from '@/lib/overtime'
+import { faceEnrollmentPolicy } from '@/lib/face-enrollment-policy'
+import { faceTemplateAdaptation } from '@/lib/face-template-adaptation'
+import { geofenceService } from '@/lib/geofence'
+import { kioskDeviceTrust } from '@/lib/kiosk-device-trust'
+import { redeemLivenessToken } from '@/lib/liveness-token'
+import { logFRLiveness } from '@/lib/face-recognition-logger'
 import { logger } from '@/lib/logger'
 
 export const dynamic = 'force-dynamic'
@@ -22,58 +31,95 @@ interface LateExcuse {
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
+    // Read raw so a kiosk signature can be checked against the exact body
+    const rawBody = await request.text()
+    const kiosk = await kioskDeviceTrust.authorize(request, rawBody)
+    if (!kiosk.success) {
+      return NextResponse.json(
+        { success: false, error: kiosk.error, errorCode: kiosk.errorCode },
+        { status: kiosk.status }
+      )
+    }
+    const kioskDevice = kiosk.device
+
+    let body
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be valid JSON', errorCode: 'INVALID_JSON' },
+        { status: 400 }
+      )
+    }
     const { 
       descriptor, 
       action, 
       timestamp, 
       location,
-      lateExcuse 
+      lateExcuse,
+      livenessToken,
+      secondFactor
     }: {
       descriptor: number[]
       action: ActionType
-      timestamp: string
+      timestamp?: string
       location: { latitude: number; longitude: number } | null
       lateExcuse: LateExcuse | null
+      livenessToken?: string
+      secondFactor?: { pin?: string; employeeId?: string }
     } = body
 
-    if (!descriptor || !action || !timestamp) {
+    if (!descriptor || !action) {
       return NextResponse.json(
         { success: false, error: 'Missing required fields' },
         { status: 400 }
       )
     }
 
-    // Identify user
-    const users = await serverDbManager.getUsers()
-    const allEmbeddings = await Promise.all(
-      users.map(async (user) => {
-        const embeddings = await serverDbManager.getFaceEmbeddings(user.id)
-        return embeddings.map(emb => ({
-          userId: user.id,
-          embedding: emb.embedding,
-          user: user
-        }))
-      })
-    )
+    // Require a fresh liveness token bound to this face
+    const liveness = await redeemLivenessToken(livenessToken, descriptor)
+    if (!liveness.valid) {
+      logFRLiveness.failed(`token_${liveness.error}`, { endpoint: '/api/face/action' })
+      return NextResponse.json(
+        {
+          success: false,
+          error: liveness.error === 'missing'
+            ? 'Liveness check is required before attendance actions'
+            : 'Liveness check expired or invalid. Please repeat the liveness check.',
+          errorCode: liveness.error === 'missing' ? 'LIVENESS_REQUIRED' : 'LIVENESS_FAILED',
+          reason: liveness.error
+        },
+        { status: 403 }
+      )
+    }
 
-    const knownEmbeddings = allEmbeddings.flat().filter(e => e.embedding)
+    // Identify user
+    const identification = await faceIdentification.identify(descriptor, {
+      secondFactor: parseSecondFactor(secondFactor)
+    })
 
-    if (knownEmbeddings.length === 0) {
+    if (identification.indexSize === 0) {
       return NextResponse.json(
         { success: false, error: 'No enrolled faces found' },
         { status: 404 }
       )
     }
 
-    // Find best matching user using cosine similarity
-    const bestMatch = findBestMatch(
-      descriptor,
-      knownEmbeddings.map(e => ({
-        userId: e.userId,
-        embedding: e.embedding
-      }))
-    )
+    if (identification.outcome === 'ambiguous') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Face matches more than one employee. Please confirm with your PIN or employee ID.',
+          errorCode: 'AMBIGUOUS_MATCH',
+          requiresSecondFactor: true,
+          secondFactors: ['pin', 'employeeId'],
+          candidateCount: identification.candidates.length
+        },
+        { status: 409 }
+      )
+    }
+
+    const bestMatch = identification.match
 
     if (!bestMatch) {
       return NextResponse.json(
@@ -82,8 +128,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const matchedUser = knownEmbeddings.find(e => e.userId === bestMatch.userId)?.user
-    if (!matchedUser) {
+    const matchedUser = await serverDbManager.getUser(bestMatch.userId)
+    if (!matchedUser || !matchedUser.isActive) {
       return NextResponse.json(
         { success: false, error: 'User data not found' },
         { status: 404 }
@@ -99,17 +145,93 @@ export async function POST(request: NextRequest) {
       quality: matchQuality.quality
     })
 
+    // Evaluate against the employee's effective shift, at server time; the
+    // client's clock is only kept for reference
+    const actionTime = new Date()
+    const evaluation = await attendanceEvaluation.evaluate(matchedUser.id, actionTime, action)
+    const { effectiveShift } = evaluation
+
+    // Registered kiosks are bound to a site; others are checked by the submitted location
+    const geofence = kioskDevice
+      ? await geofenceService.checkKioskSite(matchedUser.id, kioskDevice.siteId, actionTime)
+      : await geofenceService.checkLocation(matchedUser.id, location, actionTime)
+    if (geofence.action === 'reject') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: geofence.message || 'Location is outside the allowed area',
+          errorCode: geofence.status === 'missing_location' ? 'LOCATION_REQUIRED' : 'OUTSIDE_GEOFENCE',
+          geofence: {
+            status: geofence.status,
+            siteName: geofence.siteName,
+            distanceMeters: geofence.distanceMeters
+          }
+        },
+        { status: 403 }
+      )
+    }
+
     // Create attendance record
     const attendanceRecord = {
+      id: crypto.randomUUID(),
       userId: matchedUser.id,
-      timestamp,
+      timestamp: actionTime,
       type: action,
-      location: location ? JSON.stringify(location) : null,
-      photo: null,
-      notes: lateExcuse ? `Late excuse: ${lateExcuse.reasonType} - ${lateExcuse.notes}` : null
+      location: location ? JSON.stringify(location) : undefined,
+      notes: lateExcuse ? `Late excuse: ${lateExcuse.reasonType} - ${lateExcuse.notes}` : undefined,
+      status: action === 'check-in' || action === 'check-out' ? evaluation.status : undefined,
+      verified: true,
+      synced: true,
+      zoneViolation: geofence.violation,
+      kioskDeviceId: kioskDevice?.id,
+      metadata: {
+        faceMatchConfidence: bestMatch.confidence,
+        matchQuality: matchQuality.quality,
+        similarity: bestMatch.similarity,
+        method: 'face-recognition',
+        livenessChallengeId: liveness.challengeId,
+        matchedEmbeddingId: bestMatch.embeddingId,
+        matchMargin: identification.margin,
+        secondFactor: identification.resolvedBy,
+        shiftId: effectiveShift.shift.id,
+        shiftCode: effectiveShift.shift.code,
+        shiftDate: effectiveShift.shiftDate,
+        shiftSource: effectiveShift.source,
+        lateMinutes: evaluation.lateMinutes,
+        earlyLeaveMinutes: evaluation.earlyLeaveMinutes,
+        clientTimestamp: timestamp,
+        kioskDevice: kioskDevice ? { id: kioskDevice.id, name: kioskDevice.name } : undefined,
+        geofence: {
+          status: geofence.status,
+          siteId: geofence.siteId,
+          siteName: geofence.siteName,
+          distanceMeters: geofence.distanceMeters,
+          accuracy: geofence.accuracy,
+          policy: geofence.policy
+        }
+      },
+      createdAt: new Date(),
+      updatedAt: new Date()
     }
 
-    await serverDbManager.addAttendanceRecord(attendanceRecord)
+    await serverDbManager.saveAttendanceRecord(attendanceRecord)
+
+    // Track how well the matched embedding still scores; never fail the check-in over it
+    await faceEnrollmentPolicy
+      .recordMatch(bestMatch, identification.threshold)
+      .catch(error => logger.error('Error recording face match', error as Error))
+
+    // Refine the adaptive template from confident matches (opt-in)
+    await faceTemplateAdaptation
+      .adapt({ descriptor, identification, attendanceId: attendanceRecord.id, livenessChallengeId: liveness.challengeId })
+      .catch(error => logger.error('Error adapting face template', error as Error))
+
+    // Detect overtime for the finished day; never fail the check-out over it
+    if (action === 'check-out') {
+      await overtimeService
+        .recalculateDay(matchedUser.id, effectiveShift.shiftDate)
+        .catch(error => logger.error('Error recalculating overtime', error as Error))
+    }
 
     // If late excuse provided, create exception request
     if (lateExcuse && action === 'check-in') {
@@ -118,32 +240,38 @@ export async function POST(request: NextRequest) {
         user: matchedUser.name,
         type: lateExcuse.reasonType,
         notes: lateExcuse.notes,
-        timestamp
+        timestamp: actionTime.toISOString()
       })
       
       // Create audit log
-      await serverDbManager.addAuditLog({
+      await serverDbManager.createAuditLog({
         userId: matchedUser.id,
         action: 'late_excuse_submitted',
-        details: `Late excuse: ${lateExcuse.reasonType}`,
-        metadata: {
+        resource: 'attendance',
+        resourceId: attendanceRecord.id,
+        details: {
+          description: `Late excuse: ${lateExcuse.reasonType}`,
           lateExcuse,
-          timestamp
+          lateMinutes: evaluation.lateMinutes,
+          timestamp: actionTime.toISOString()
         }
       })
     }
 
     // Create audit log for action
-    await serverDbManager.addAuditLog({
+    await serverDbManager.createAuditLog({
       userId: matchedUser.id,
       action: `attendance_${action}`,
-      details: `${getActionLabel(action)} via face recognition`,
-      metadata: {
+      resource: 'attendance',
+      resourceId: attendanceRecord.id,
+      details: {
+        description: `${getActionLabel(action)} via face recognition`,
         confidence: bestMatch.confidence,
         similarity: bestMatch.similarity,
         matchQuality: matchQuality.quality,
         location,
-        timestamp
+        kioskDeviceId: kioskDevice?.id,
+        timestamp: actionTime.toISOString()
       }
     })
 
@@ -154,7 +282,17 @@ export async function POST(request: NextRequest) {
         userId: matchedUser.id,
         userName: matchedUser.name,
         action,
-        timestamp,
+        timestamp: actionTime.toISOString(),
+        status: attendanceRecord.status,
+        zoneViolation: geofence.violation,
+        lateMinutes: evaluation.lateMinutes,
+        earlyLeaveMinutes: evaluation.earlyLeaveMinutes,
+        shift: {
+          id: effectiveShift.shift.id,
+          code: effectiveShift.shift.code,
+          name: effectiveShift.shift.name,
+          date: effectiveShift.shiftDate
+        },
         confidence: bestMatch.confidence,
         matchQuality: matchQuality.quality
       }
@@ -7,15 +7,35 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { serverDbManager } from '@/lib/server-db'
-import { findBestMatch, assessMatchQuality } from '@/lib/face-matching'
+import { assessMatchQuality } from '@/lib/face-matching'
+import { faceIdentification, parseSecondFactor } from '@/lib/face-identification'
+import { kioskDeviceTrust } from '@/lib/kiosk-device-trust'
 import { logger } from '@/lib/logger'
 
 export const dynamic = 'force-dynamic'
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { descriptor } = body
+    // Read raw so a kiosk signature can be checked against the exact body
+    const rawBody = await request.text()
+    const kiosk = await kioskDeviceTrust.authorize(request, rawBody)
+    if (!kiosk.success) {
+      return NextResponse.json(
+        { success: false, error: kiosk.error, errorCode: kiosk.errorCode },
+        { status: kiosk.status }
+      )
+    }
+
+    let body
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be valid JSON', errorCode: 'INVALID_JSON' },
+        { status: 400 }
+      )
+    }
+    const { descriptor, secondFactor } = body
 
     if (!descriptor || !Array.isArray(descriptor)) {
       return NextResponse.json(
@@ -24,22 +44,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Get all users with face embeddings
-    const users = await serverDbManager.getUsers()
-    const allEmbeddings = await Promise.all(
-      users.map(async (user) => {
-        const embeddings = await serverDbManager.getFaceEmbeddings(user.id)
-        return embeddings.map(emb => ({
-          userId: user.id,
-          embedding: emb.embedding,
-          user: user
-        }))
-      })
-    )
-
-    const knownEmbeddings = allEmbeddings.flat().filter(e => e.embedding)
+    const identification = await faceIdentification.identify(descriptor, {
+      secondFactor: parseSecondFactor(secondFactor)
+    })
 
-    if (knownEmbeddings.length === 0) {
+    if (identification.indexSize === 0) {
       return NextResponse.json(
         { 
           success: false, 
@@ -52,14 +61,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Find best matching user using cosine similarity
-    const bestMatch = findBestMatch(
-      descriptor,
-      knownEmbeddings.map(e => ({
-        userId: e.userId,
-        embedding: e.embedding
-      }))
-    )
+    if (identification.outcome === 'ambiguous') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Face matches more than one employee. Please confirm with your PIN or employee ID.',
+          errorCode: 'AMBIGUOUS_MATCH',
+          requiresSecondFactor: true,
+          secondFactors: ['pin', 'employeeId'],
+          candidateCount: identification.candidates.length
+        },
+        { status: 409 }
+      )
+    }
+
+    // Best matching user (open-set: null when below the user's threshold)
+    const bestMatch = identification.match
 
     if (!bestMatch) {
       return NextResponse.json(
@@ -69,8 +86,8 @@ export async function POST(request: NextRequest) {
           errorCode: 'FACE_NOT_RECOGNIZED',
           message: 'Your face was not recognized. Please ensure you have enrolled your face or try again with better lighting.',
           details: {
-            enrolledFaces: knownEmbeddings.length,
-            minConfidenceRequired: 0.65
+            enrolledFaces: identification.indexSize,
+            minConfidenceRequired: identification.threshold
           }
         },
         { status: 404 }
@@ -88,8 +105,8 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    const matchedUser = knownEmbeddings.find(e => e.userId === bestMatch.userId)?.user
-    if (!matchedUser) {
+    const matchedUser = await serverDbManager.getUser(bestMatch.userId)
+    if (!matchedUser || !matchedUser.isActive) {
       return NextResponse.json(
         { success: false, error: 'User data not found' },
         { status: 404 }
@@ -146,7 +163,9 @@ export async function POST(request: NextRequest) {
       data: userStatus,
       confidence: bestMatch.confidence,
       matchQuality: matchQuality.quality,
-      similarity: bestMatch.similarity
+      similarity: bestMatch.similarity,
+      margin: identification.margin,
+      secondFactor: identification.resolvedBy
     })
 
   } catch (error) {
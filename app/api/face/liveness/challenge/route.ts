@@ -0,0 +1,37 @@
+/**
+ * Liveness Challenge API
+ * POST /api/face/liveness/challenge
+ * 
+ * Issues a randomized, signed liveness challenge (blink, head turn, smile)
+ */
+
+import { NextResponse } from 'next/server'
+import { createLivenessChallenge } from '@/lib/liveness-token'
+import { LIVENESS_STEP_PROMPTS } from '@/lib/liveness'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST() {
+  try {
+    const challenge = createLivenessChallenge()
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        challengeId: challenge.challengeId,
+        challengeToken: challenge.token,
+        steps: challenge.steps,
+        prompts: challenge.steps.map(step => LIVENESS_STEP_PROMPTS[step]),
+        issuedAt: challenge.issuedAt,
+        expiresAt: challenge.expiresAt
+      }
+    })
+  } catch (error) {
+    logger.error('Failed to create liveness challenge', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to create liveness challenge' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Liveness Verify API
+ * POST /api/face/liveness/verify
+ * 
+ * Validates the frames recorded while answering a challenge and returns a
+ * short-lived liveness token for check-in
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { livenessVerifySchema } from '@/lib/validation-schemas'
+import { evaluateLivenessEvidence } from '@/lib/liveness'
+import type { LivenessFrame } from '@/lib/liveness'
+import { redeemLivenessChallenge, issueLivenessToken } from '@/lib/liveness-token'
+import { logFRLiveness } from '@/lib/face-recognition-logger'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { challengeToken, descriptor, frames } = livenessVerifySchema.parse(body)
+
+    const challenge = await redeemLivenessChallenge(challengeToken)
+    if (!challenge.valid) {
+      logFRLiveness.failed(`challenge_${challenge.error}`)
+      return NextResponse.json(
+        {
+          success: false,
+          error: challenge.error === 'expired'
+            ? 'Liveness challenge expired. Please try again.'
+            : 'Invalid liveness challenge',
+          errorCode: 'LIVENESS_FAILED',
+          reason: `challenge_${challenge.error}`
+        },
+        { status: 403 }
+      )
+    }
+
+    const evaluation = evaluateLivenessEvidence(challenge.steps, frames as LivenessFrame[])
+
+    if (!evaluation.passed) {
+      logFRLiveness.failed(evaluation.reason || 'unknown', {
+        challengeId: challenge.challengeId,
+        steps: challenge.steps,
+        completedSteps: evaluation.progress.completedSteps,
+        frameCount: frames.length,
+        durationMs: evaluation.durationMs,
+        nonRigidMotion: evaluation.passive.nonRigidMotion,
+        rigidMotion: evaluation.passive.rigidMotion,
+        textureScore: evaluation.passive.textureScore
+      })
+
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Liveness check failed. Please follow the on-screen instructions with your real face.',
+          errorCode: 'LIVENESS_FAILED',
+          reason: evaluation.reason
+        },
+        { status: 403 }
+      )
+    }
+
+    const { token, expiresAt } = issueLivenessToken(challenge.challengeId, descriptor)
+
+    logFRLiveness.passed(challenge.challengeId, {
+      durationMs: evaluation.durationMs,
+      steps: challenge.steps
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        livenessToken: token,
+        expiresAt
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid liveness evidence', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Liveness verification error', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Liveness verification failed' },
+      { status: 500 }
+    )
+  }
+}
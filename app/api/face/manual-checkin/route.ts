@@ -0,0 +1,80 @@
+/**
+ * Manual Check-in Fallback API
+ * POST /api/face/manual-checkin
+ *
+ * Used after face recognition fails (LOW_CONFIDENCE, FACE_NOT_RECOGNIZED).
+ * The employee identifies with an employee ID or PIN and the kiosk sends a
+ * photo as evidence. With supervisor credentials the check-in is co-signed
+ * right away; otherwise it waits in the review queue.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { kioskDeviceTrust } from '@/lib/kiosk-device-trust'
+import { manualCheckinService } from '@/lib/manual-checkin'
+import { manualCheckinSchema } from '@/lib/validation-schemas'
+import { logger } from '@/lib/logger'
+
+export const dynamic = 'force-dynamic'
+
+export async function POST(request: NextRequest) {
+  try {
+    // Read raw so a kiosk signature can be checked against the exact body
+    const rawBody = await request.text()
+    const kiosk = await kioskDeviceTrust.authorize(request, rawBody)
+    if (!kiosk.success) {
+      return NextResponse.json(
+        { success: false, error: kiosk.error, errorCode: kiosk.errorCode },
+        { status: kiosk.status }
+      )
+    }
+
+    let body
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Request body must be valid JSON', errorCode: 'INVALID_JSON' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = manualCheckinSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid manual check-in', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const result = await manualCheckinService.submit(parsed.data, { kioskDevice: kiosk.device })
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    const cosigned = result.checkin.status === 'approved'
+    return NextResponse.json({
+      success: true,
+      message: cosigned
+        ? 'Manual attendance recorded'
+        : 'Manual attendance submitted and waiting for supervisor review',
+      data: {
+        id: result.checkin.id,
+        userId: result.checkin.userId,
+        type: result.checkin.type,
+        timestamp: result.checkin.eventTimestamp.toISOString(),
+        status: result.checkin.status,
+        cosignError: result.cosignError,
+        record: result.attendance
+      }
+    }, { status: 201 })
+  } catch (error) {
+    logger.error('Error processing manual check-in', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to process manual check-in', errorCode: 'INTERNAL_ERROR' },
+      { status: 500 }
+    )
+  }
+}
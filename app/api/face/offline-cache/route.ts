@@ -0,0 +1,83 @@
+/**
+ * Offline Face Cache API
+ * GET /api/face/offline-cache?siteId=...
+ *
+ * Embeddings a kiosk may match against locally while offline, limited to
+ * the employees of its site. The kiosk encrypts them at rest.
+ *
+ * A registered kiosk signs the request and always gets its own site's
+ * cache; otherwise an admin session is required and siteId picks the site.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth } from '@/lib/api-auth-middleware'
+import { offlineFaceCacheQuerySchema } from '@/lib/validation-schemas'
+import { offlineFaceVerification } from '@/lib/offline-face-verification'
+import { kioskDeviceTrust } from '@/lib/kiosk-device-trust'
+import { KIOSK_HEADERS } from '@/lib/kiosk-protocol'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+async function issueCache(siteId: string, issuedTo: string | undefined): Promise<NextResponse> {
+  try {
+    const cache = await offlineFaceVerification.buildCache(siteId)
+    if (!cache) {
+      return NextResponse.json(
+        { success: false, error: 'Site not found or inactive' },
+        { status: 404 }
+      )
+    }
+
+    logger.info('Offline face cache issued', {
+      siteId: cache.siteId,
+      entries: cache.entries.length,
+      issuedTo
+    })
+
+    return NextResponse.json(
+      { success: true, data: cache },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    logger.error('Error building offline face cache', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to build offline face cache' },
+      { status: 500 }
+    )
+  }
+}
+
+const adminHandler = withAdminAuth(async (request) => {
+  const parsed = offlineFaceCacheQuerySchema.safeParse({
+    siteId: request.nextUrl.searchParams.get('siteId') || undefined
+  })
+  if (!parsed.success) {
+    return NextResponse.json(
+      { success: false, error: 'A valid siteId is required', details: parsed.error.errors },
+      { status: 400 }
+    )
+  }
+
+  return issueCache(parsed.data.siteId, request.user?.id)
+})
+
+export async function GET(request: NextRequest) {
+  if (!request.headers.get(KIOSK_HEADERS.deviceId)) {
+    return adminHandler(request)
+  }
+
+  const verification = await kioskDeviceTrust.verifyRequest(request, '')
+  if (!verification.success || !verification.device) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: verification.success ? 'Kiosk signature required' : verification.error,
+        code: verification.success ? 'KIOSK_DEVICE_REQUIRED' : verification.errorCode
+      },
+      { status: verification.success ? 401 : verification.status }
+    )
+  }
+
+  return issueCache(verification.device.siteId, `kiosk:${verification.device.id}`)
+}
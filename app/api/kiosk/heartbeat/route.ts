@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { kioskDeviceTrust } from '@/lib/kiosk-device-trust'
+import { kioskHeartbeatSchema } from '@/lib/validation-schemas'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/kiosk/heartbeat - Signed status ping from a registered kiosk; returns the device's current state
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the exact body bytes, so read it raw
+    const rawBody = await request.text()
+
+    const verification = await kioskDeviceTrust.verifyRequest(request, rawBody)
+    if (!verification.success) {
+      return NextResponse.json(
+        { success: false, error: verification.error, code: verification.errorCode },
+        { status: verification.status }
+      )
+    }
+    if (!verification.device) {
+      return NextResponse.json(
+        { success: false, error: 'Kiosk signature required', code: 'KIOSK_DEVICE_REQUIRED' },
+        { status: 401 }
+      )
+    }
+
+    let body: unknown = {}
+    try {
+      body = rawBody ? JSON.parse(rawBody) : {}
+    } catch {
+      body = null
+    }
+
+    const parsed = kioskHeartbeatSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid heartbeat', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const state = await kioskDeviceTrust.heartbeat(verification.device, parsed.data, request)
+    return NextResponse.json({ success: true, data: state })
+  } catch (error) {
+    logger.error('Error recording kiosk heartbeat', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to record heartbeat' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { kioskDeviceTrust } from '@/lib/kiosk-device-trust'
+import { kioskRegistrationSchema } from '@/lib/validation-schemas'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// POST /api/kiosk/register - Register a tablet's public key with an admin-issued enrollment code (the code is the credential)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const parsed = kioskRegistrationSchema.safeParse(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid registration data', details: parsed.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const result = await kioskDeviceTrust.register(parsed.data, request)
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error, code: result.errorCode },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({ success: true, data: result.device }, { status: 201 })
+  } catch (error) {
+    logger.error('Error registering kiosk device', error as Error)
+    return NextResponse.json(
+      { success: false, error: 'Failed to register kiosk device' },
+      { status: 500 }
+    )
+  }
+}
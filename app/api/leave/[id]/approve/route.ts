@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { leaveService } from "@/lib/leave";
+import { leaveResponseSchema } from "@/lib/validation-schemas";
+
+// POST /api/leave/[id]/approve - Manager, then HR where required, approves or rejects
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = authResult.payload.userId;
+  const userRole = authResult.payload.role;
+
+  if (userRole !== "manager" && userRole !== "hr" && userRole !== "admin") {
+    return NextResponse.json(
+      { error: "You don't have permission to approve leave" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = leaveResponseSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid response", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { response, rejectionReason } = parsed.data;
+    const result = await leaveService.respond(
+      params.id,
+      { userId, role: userRole },
+      response,
+      rejectionReason
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      );
+    }
+
+    const messages: Record<string, string> = {
+      approved: "Leave request approved",
+      pending_hr: "Manager approved. Waiting for HR approval.",
+      rejected: "Leave request rejected",
+    };
+
+    return NextResponse.json({
+      success: true,
+      request: result.request,
+      message: messages[result.request.status] || "Leave request updated",
+    });
+  } catch (error: any) {
+    logger.error('Error approving leave request', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to approve leave request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { leaveService } from "@/lib/leave";
+
+// POST /api/leave/[id]/cancel - Withdraw a pending request or upcoming approved leave
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { reason } = body;
+
+    const result = await leaveService.cancel(
+      params.id,
+      { userId: authResult.payload.userId, role: authResult.payload.role },
+      reason
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      request: result.request,
+      message: "Leave request cancelled",
+    });
+  } catch (error: any) {
+    logger.error('Error cancelling leave request', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to cancel leave request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { leaveService } from "@/lib/leave";
+
+// GET /api/leave/balances - Leave balances for a year (own, or any employee for HR/admin/manager)
+export async function GET(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userRole = authResult.payload.role;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const year = Number(searchParams.get("year")) || new Date().getFullYear();
+    const requestedUserId = searchParams.get("userId");
+
+    if (requestedUserId && requestedUserId !== authResult.payload.userId &&
+        userRole !== "hr" && userRole !== "admin" && userRole !== "manager") {
+      return NextResponse.json(
+        { error: "You can only view your own leave balances" },
+        { status: 403 }
+      );
+    }
+
+    const balances = await leaveService.getBalances(requestedUserId || authResult.payload.userId, year);
+
+    return NextResponse.json({ year, balances });
+  } catch (error: any) {
+    logger.error('Error fetching leave balances', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch leave balances" },
+      { status: 500 }
+    );
+  }
+}
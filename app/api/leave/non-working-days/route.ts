@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { leaveService } from "@/lib/leave";
+import { holidayCalendar } from "@/lib/holiday-calendar";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// GET /api/leave/non-working-days - Own approved leave days and full-day holidays in a range
+export async function GET(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = authResult.payload.userId;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const startDate = searchParams.get("startDate") || "";
+    const endDate = searchParams.get("endDate") || "";
+
+    if (!DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate) || endDate < startDate) {
+      return NextResponse.json(
+        { error: "startDate and endDate are required as YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    const [leaveDates, holidayDates] = await Promise.all([
+      leaveService.getApprovedLeaveDates(startDate, endDate, [userId]),
+      holidayCalendar.getHolidayDates(userId, startDate, endDate),
+    ]);
+
+    return NextResponse.json({
+      leaveDates: Array.from(leaveDates.get(userId) || []).sort(),
+      holidayDates: holidayDates.sort(),
+    });
+  } catch (error: any) {
+    logger.error('Error fetching non-working days', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch non-working days" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { serverDbManager } from "@/lib/server-db";
+import type { LeaveRequestStatus } from "@/lib/server-db";
+import { leaveService } from "@/lib/leave";
+import { leaveRequestSchema } from "@/lib/validation-schemas";
+
+// GET /api/leave - Own leave requests; managers also see their team's, HR and admin see all
+export async function GET(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = authResult.payload.userId;
+  const userRole = authResult.payload.role;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get("scope") || "mine"; // mine, team, all
+    const status = searchParams.get("status") as LeaveRequestStatus | null;
+    const from = searchParams.get("from") || undefined;
+    const to = searchParams.get("to") || undefined;
+
+    let requests;
+    if (scope === "all" && (userRole === "hr" || userRole === "admin")) {
+      requests = await serverDbManager.getLeaveRequests({
+        userId: searchParams.get("userId") || undefined,
+        status: status || undefined,
+        from,
+        to,
+      });
+    } else if (scope === "team" && (userRole === "manager" || userRole === "admin")) {
+      const all = await serverDbManager.getLeaveRequests({ status: status || undefined, from, to });
+      requests = all.filter((r) => r.managerId === userId);
+    } else {
+      requests = await serverDbManager.getLeaveRequests({
+        userId,
+        status: status || undefined,
+        from,
+        to,
+      });
+    }
+
+    return NextResponse.json({ requests });
+  } catch (error: any) {
+    logger.error('Error fetching leave requests', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch leave requests" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/leave - Submit a leave request
+export async function POST(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = authResult.payload.userId;
+
+  try {
+    const body = await request.json();
+    const parsed = leaveRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid leave request", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await leaveService.submitRequest(userId, parsed.data);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      request: result.request,
+      message: "Leave request submitted for approval",
+    });
+  } catch (error: any) {
+    logger.error('Error creating leave request', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to create leave request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { serverDbManager } from "@/lib/server-db";
+
+// GET /api/leave/types - Active leave types
+export async function GET(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const leaveTypes = await serverDbManager.getLeaveTypes({ isActive: true });
+    return NextResponse.json({ leaveTypes });
+  } catch (error: any) {
+    logger.error('Error fetching leave types', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch leave types" },
+      { status: 500 }
+    );
+  }
+}
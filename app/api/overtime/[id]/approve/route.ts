@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { overtimeService } from "@/lib/overtime";
+import { overtimeResponseSchema } from "@/lib/validation-schemas";
+
+// POST /api/overtime/[id]/approve - The employee's manager approves (optionally fewer minutes) or rejects
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = authResult.payload.userId;
+  const userRole = authResult.payload.role;
+
+  if (userRole !== "manager" && userRole !== "hr" && userRole !== "admin") {
+    return NextResponse.json(
+      { error: "You don't have permission to approve overtime" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = overtimeResponseSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid response", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { response, approvedMinutes, rejectionReason } = parsed.data;
+    const result = await overtimeService.respond(
+      params.id,
+      { userId, role: userRole },
+      response,
+      { approvedMinutes, rejectionReason }
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      record: result.record,
+      message: result.record.status === "approved" ? "Overtime approved" : "Overtime rejected",
+    });
+  } catch (error: any) {
+    logger.error('Error approving overtime', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to approve overtime" },
+      { status: 500 }
+    );
+  }
+}
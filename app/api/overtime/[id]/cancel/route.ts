@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { overtimeService } from "@/lib/overtime";
+
+// POST /api/overtime/[id]/cancel - Withdraw a pending overtime request
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await overtimeService.cancel(params.id, {
+      userId: authResult.payload.userId,
+      role: authResult.payload.role,
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      record: result.record,
+      message: "Overtime request cancelled",
+    });
+  } catch (error: any) {
+    logger.error('Error cancelling overtime request', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to cancel overtime request" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { serverDbManager } from "@/lib/server-db";
+import type { OvertimeStatus } from "@/lib/server-db";
+import { overtimeService } from "@/lib/overtime";
+import { overtimeRequestSchema } from "@/lib/validation-schemas";
+
+// GET /api/overtime - Own overtime; managers also see their team's, HR and admin see all
+export async function GET(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = authResult.payload.userId;
+  const userRole = authResult.payload.role;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get("scope") || "mine"; // mine, team, all
+    const status = searchParams.get("status") as OvertimeStatus | null;
+    const from = searchParams.get("from") || undefined;
+    const to = searchParams.get("to") || undefined;
+
+    let records;
+    if (scope === "all" && (userRole === "hr" || userRole === "admin")) {
+      records = await serverDbManager.getOvertimeRecords({
+        userId: searchParams.get("userId") || undefined,
+        status: status || undefined,
+        from,
+        to,
+      });
+    } else if (scope === "team" && (userRole === "manager" || userRole === "admin")) {
+      const users = await serverDbManager.getUsers();
+      const teamIds = users.filter((u) => u.managerId === userId).map((u) => u.id);
+      records = teamIds.length > 0
+        ? await serverDbManager.getOvertimeRecords({ userIds: teamIds, status: status || undefined, from, to })
+        : [];
+    } else {
+      records = await serverDbManager.getOvertimeRecords({
+        userId,
+        status: status || undefined,
+        from,
+        to,
+      });
+    }
+
+    return NextResponse.json({ records });
+  } catch (error: any) {
+    logger.error('Error fetching overtime records', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch overtime records" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/overtime - Request pre-approval for planned overtime, or claim detected overtime
+export async function POST(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const userId = authResult.payload.userId;
+
+  try {
+    const body = await request.json();
+    const parsed = overtimeRequestSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid overtime request", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await overtimeService.submitRequest(userId, parsed.data);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      record: result.record,
+      message: "Overtime submitted for approval",
+    });
+  } catch (error: any) {
+    logger.error('Error creating overtime request', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to create overtime request" },
+      { status: 500 }
+    );
+  }
+}
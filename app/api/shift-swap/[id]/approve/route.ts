@@ -4,6 +4,8 @@ import { verifyJWT } from "@/lib/auth";
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export const dynamic = 'force-dynamic'
 import { createClient } from "@supabase/supabase-js";
+import { serverDbManager } from "@/lib/server-db";
+import { shiftSwapService, describeSwapViolation } from "@/lib/shift-swap";
 
 export async function POST(
   request: Request,
@@ -76,7 +78,13 @@ export async function POST(
 
         // If fully approved, execute the swap
         if (nextStatus === "approved") {
-          await executeShiftSwap(supabase, swap);
+          const execution = await executeShiftSwap(supabase, swap, userId);
+          if (!execution.executed) {
+            return NextResponse.json(
+              { error: "Swap approved but could not be executed", violations: execution.violations },
+              { status: 409 }
+            );
+          }
         }
 
         return NextResponse.json({
@@ -153,7 +161,13 @@ export async function POST(
         });
 
         // Execute the swap
-        await executeShiftSwap(supabase, swap);
+        const execution = await executeShiftSwap(supabase, swap, userId);
+        if (!execution.executed) {
+          return NextResponse.json(
+            { error: "Swap approved but could not be executed", violations: execution.violations },
+            { status: 409 }
+          );
+        }
 
         return NextResponse.json({
           success: true,
@@ -206,33 +220,47 @@ export async function POST(
   }
 }
 
-// Helper function to execute the shift swap
-async function executeShiftSwap(supabase: any, swap: any) {
-  // TODO: Implement actual schedule update logic
-  // This would update schedule_assignments table or create new assignments
-  
-  // For now, just log that it's executed
-  logger.info('Executing shift swap', { swapId: swap.id });
-  
-  // In production, you would:
-  // 1. Update schedule_assignments for both requestor and target
-  // 2. Handle different swap types (direct_swap, one_way_coverage, etc.)
-  // 3. Create compensation records if needed
-  // 4. Send notifications to both parties
-  
-  // Mark as completed
+// Apply the approved swap to the roster; a swap that can no longer be
+// executed (double-booking, rest period) is rejected with the reasons
+async function executeShiftSwap(supabase: any, swap: any, actorId: string) {
+  const execution = await shiftSwapService.execute(swap.id, actorId);
+  if (execution.executed) {
+    return execution;
+  }
+
+  const reasons = execution.violations.length > 0
+    ? execution.violations.map(describeSwapViolation).join("; ")
+    : execution.error;
+
   await supabase
     .from("shift_swap_requests")
-    .update({ status: "completed" })
+    .update({
+      status: "rejected",
+      system_notes: `Execution blocked: ${reasons}`,
+      metadata: { ...(swap.metadata || {}), executionViolations: execution.violations },
+      updated_at: new Date().toISOString(),
+    })
     .eq("id", swap.id);
-    
-  // Log completion
+
   await supabase.from("shift_swap_history").insert({
     swap_request_id: swap.id,
-    action: "completed",
+    action: "execution_failed",
+    actor_id: actorId,
     actor_role: "system",
-    action_details: "Swap executed successfully",
+    action_details: `Swap could not be executed: ${reasons}`,
     previous_status: "approved",
-    new_status: "completed",
+    new_status: "rejected",
   });
+
+  for (const userId of [swap.requestor_id, swap.target_id].filter(Boolean)) {
+    await serverDbManager.createNotification({
+      userId,
+      title: "Shift swap could not be applied",
+      message: `Swap ${swap.swap_code} was approved but conflicts with the roster: ${reasons}`,
+      type: "warning",
+      data: { swapRequestId: swap.id, violations: execution.violations },
+    });
+  }
+
+  return execution;
 }
@@ -4,6 +4,8 @@ import { verifyJWT } from "@/lib/auth";
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export const dynamic = 'force-dynamic'
 import { createClient } from "@supabase/supabase-js";
+import { SHIFT_SWAP_TYPES } from "@/lib/shift-swap";
+import { leaveService } from "@/lib/leave";
 
 export async function GET(request: Request) {
   const authResult = await verifyJWT(request);
@@ -83,6 +85,8 @@ export async function POST(request: Request) {
       is_emergency,
       compensation_type,
       compensation_amount,
+      partial_start,
+      partial_end,
     } = body;
 
     // Validation
@@ -93,6 +97,28 @@ export async function POST(request: Request) {
       );
     }
 
+    if (!SHIFT_SWAP_TYPES.includes(swap_type)) {
+      return NextResponse.json(
+        { error: `Unsupported swap type: ${swap_type}` },
+        { status: 400 }
+      );
+    }
+
+    // Nobody can take over a shift on a day they are on approved leave
+    if (target_id && await leaveService.isOnApprovedLeave(target_id, requestor_date)) {
+      return NextResponse.json(
+        { error: "Target employee is on approved leave on that date" },
+        { status: 409 }
+      );
+    }
+    if (["direct_swap", "emergency_swap"].includes(swap_type) &&
+        await leaveService.isOnApprovedLeave(userId, target_date || requestor_date)) {
+      return NextResponse.json(
+        { error: "You are on approved leave on the date you would take over" },
+        { status: 409 }
+      );
+    }
+
     // Generate swap code
     const swapCode = `SR-${new Date().getFullYear()}-${Math.random().toString(36).substring(2, 8).toUpperCase()}`;
 
@@ -138,6 +164,7 @@ export async function POST(request: Request) {
         is_cross_department: isCrossDept,
         compensation_type,
         compensation_amount,
+        metadata: swap_type === "partial_swap" ? { partial_start, partial_end } : null,
         status: "pending_target",
       })
       .select()
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { syncChangesQuerySchema } from "@/lib/validation-schemas";
+import { changeFeedService } from "@/lib/sync-feed";
+
+// GET /api/sync/changes?entity=users&cursor=0 - Changes to one entity after a cursor, with tombstones for deletions
+export async function GET(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = syncChangesQuerySchema.safeParse({
+      entity: searchParams.get("entity") || undefined,
+      cursor: searchParams.get("cursor") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    });
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid change feed query", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const page = await changeFeedService.getChanges(
+      parsed.data.entity,
+      Number(parsed.data.cursor),
+      parsed.data.limit,
+      { userId: authResult.payload.userId, role: authResult.payload.role }
+    );
+
+    return NextResponse.json({ success: true, ...page });
+  } catch (error: any) {
+    logger.error('Error fetching sync changes', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to fetch sync changes" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { syncDeadLetterReportSchema } from "@/lib/validation-schemas";
+import { syncDeadLetterService } from "@/lib/sync-dead-letters";
+
+// POST /api/sync/dead-letters - Report queued changes a device stopped retrying; returns the ones an admin already closed
+export async function POST(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = syncDeadLetterReportSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid dead-letter report", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await syncDeadLetterService.report(parsed.data.deviceId, {
+      userId: authResult.payload.userId,
+      role: authResult.payload.role,
+    }, parsed.data.deadLetters);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error, errorCode: result.errorCode },
+        { status: result.status }
+      );
+    }
+
+    return NextResponse.json({ success: true, ...result.ack });
+  } catch (error: any) {
+    logger.error('Error recording sync dead letters', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to record dead letters" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+import { verifyJWT } from "@/lib/auth";
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+import { syncBatchSchema } from "@/lib/validation-schemas";
+import { kioskDeviceTrust } from "@/lib/kiosk-device-trust";
+import { syncIngestService } from "@/lib/sync-ingest";
+
+// POST /api/sync - Upload a batch of offline mutations; returns a result per mutation
+export async function POST(request: Request) {
+  const authResult = await verifyJWT(request);
+  if (!authResult.valid || !authResult.payload) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    // Read raw so a kiosk signature can be checked against the exact body
+    const rawBody = await request.text();
+
+    // Registered kiosks sign their uploads with the key an admin enrolled;
+    // a bad signature is refused, a missing one leaves a plain device upload
+    const kiosk = await kioskDeviceTrust.verifyRequest(request, rawBody);
+    if (!kiosk.success) {
+      return NextResponse.json(
+        { error: kiosk.error, errorCode: kiosk.errorCode },
+        { status: kiosk.status }
+      );
+    }
+
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { error: "Request body must be valid JSON", errorCode: "INVALID_JSON" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = syncBatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid sync batch", details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (kiosk.device && parsed.data.deviceId !== kiosk.device.id) {
+      return NextResponse.json(
+        { error: "Batch device does not match the signing kiosk", errorCode: "KIOSK_DEVICE_MISMATCH" },
+        { status: 403 }
+      );
+    }
+
+    const response = await syncIngestService.ingestBatch(parsed.data, {
+      userId: authResult.payload.userId,
+      role: authResult.payload.role,
+      kioskDevice: kiosk.device,
+    });
+
+    return NextResponse.json({ success: true, ...response });
+  } catch (error: any) {
+    logger.error('Error ingesting sync batch', error as Error);
+    return NextResponse.json(
+      { error: error.message || "Failed to ingest sync batch" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
 import * as faceapi from 'face-api.js'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -17,9 +17,19 @@ import {
   AlertCircle,
   User,
   Loader2,
-  CheckCircle
+  CheckCircle,
+  WifiOff,
+  ShieldOff,
+  UserCheck
 } from 'lucide-react'
-import { ApiClient } from '@/lib/api-client'
+import { ApiClient, type FaceSecondFactor } from '@/lib/api-client'
+import { SecondFactorDialog } from '@/components/face-recognition/SecondFactorDialog'
+import { ManualCheckinDialog, type ManualCheckinSubmission } from '@/components/face-recognition/ManualCheckinDialog'
+import { useLiveness, loadLivenessModels } from '@/hooks/use-liveness'
+import { offlineFaceCheckin, type OfflineFaceMatch } from '@/lib/offline-face-checkin'
+import { kioskRegistration, type KioskRegistrationInfo } from '@/lib/kiosk-registration'
+import { KIOSK_HEARTBEAT_INTERVAL_MS } from '@/lib/kiosk-protocol'
+import { syncQueue } from '@/lib/sync-queue'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
@@ -65,9 +75,24 @@ const LATE_EXCUSE_TYPES = [
   { value: 'other', label: 'Lainnya' }
 ]
 
+// Face errors after which the employee may fall back to a manual check-in
+const MANUAL_FALLBACK_ERRORS = ['FACE_NOT_RECOGNIZED', 'LOW_CONFIDENCE']
+
+const MANUAL_CHECKIN_ERRORS: Record<string, string> = {
+  EMPLOYEE_NOT_FOUND: 'ID karyawan tidak ditemukan',
+  INVALID_PIN: 'PIN salah',
+  PIN_AMBIGUOUS: 'PIN cocok dengan lebih dari satu karyawan. Gunakan ID karyawan.',
+  SUPERVISOR_INVALID: 'ID atau PIN supervisor tidak valid',
+  SELF_REVIEW: 'Supervisor tidak boleh menyetujui absensinya sendiri',
+  ALREADY_CHECKED_IN: 'Sudah absen masuk untuk shift ini',
+  OUTSIDE_GEOFENCE: 'Di luar area kantor',
+  LOCATION_REQUIRED: 'Lokasi diperlukan untuk absensi manual'
+}
+
 export default function FaceCheckinV2Page() {
   const videoRef = useRef<HTMLVideoElement>(null)
   const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null)
+  const liveness = useLiveness()
   
   // States
   const [modelsLoaded, setModelsLoaded] = useState(false)
@@ -80,6 +105,24 @@ export default function FaceCheckinV2Page() {
   const [userStatus, setUserStatus] = useState<UserStatus | null>(null)
   const [nextAction, setNextAction] = useState<ActionType | null>(null)
   
+  // Second factor for ambiguous face matches
+  const [pendingDescriptor, setPendingDescriptor] = useState<number[] | null>(null)
+  const [secondFactor, setSecondFactor] = useState<FaceSecondFactor | null>(null)
+  const [secondFactorError, setSecondFactorError] = useState<string | null>(null)
+
+  // Manual fallback after face recognition fails
+  const [faceFailure, setFaceFailure] = useState<string | null>(null)
+  const [showManualDialog, setShowManualDialog] = useState(false)
+  const [manualSubmitting, setManualSubmitting] = useState(false)
+  const [manualError, setManualError] = useState<string | null>(null)
+  
+  // Offline kiosk mode: local match against the cached site embeddings
+  const [isOffline, setIsOffline] = useState(false)
+  const [offlineMatch, setOfflineMatch] = useState<{ match: OfflineFaceMatch; margin: number | null } | null>(null)
+
+  // Registered kiosk device (see /kiosk/setup); null on unregistered browsers
+  const [kioskDevice, setKioskDevice] = useState<KioskRegistrationInfo | null>(null)
+
   // Location
   const [location, setLocation] = useState<{ latitude: number; longitude: number } | null>(null)
   
@@ -107,6 +150,7 @@ export default function FaceCheckinV2Page() {
         await faceapi.nets.tinyFaceDetector.loadFromUri('/models')
         await faceapi.nets.faceLandmark68Net.loadFromUri('/models')
         await faceapi.nets.faceRecognitionNet.loadFromUri('/models')
+        await loadLivenessModels('/models')
         setModelsLoaded(true)
         logger.info('✅ Models loaded successfully')
       } catch (err) {
@@ -152,6 +196,66 @@ export default function FaceCheckinV2Page() {
     }
   }, [modelsLoaded])
 
+  // Track connectivity; the kiosk falls back to the offline cache
+  useEffect(() => {
+    const update = () => setIsOffline(!navigator.onLine)
+    update()
+    window.addEventListener('online', update)
+    window.addEventListener('offline', update)
+    return () => {
+      window.removeEventListener('online', update)
+      window.removeEventListener('offline', update)
+    }
+  }, [])
+
+  // Report status while online; admins see it in the device list, and a
+  // disabled or moved device learns about it here
+  useEffect(() => {
+    const registration = kioskRegistration.getRegistration()
+    setKioskDevice(registration)
+    if (!registration || isOffline) return
+
+    const sendHeartbeat = async () => {
+      try {
+        const [stats, cacheInfo] = await Promise.all([
+          syncQueue.getStats(),
+          offlineFaceCheckin.getCacheInfo()
+        ])
+        const updated = await kioskRegistration.heartbeat({
+          online: navigator.onLine,
+          pendingSyncItems: stats.pendingItems,
+          offlineCacheGeneratedAt: cacheInfo?.generatedAt || null
+        })
+        if (updated) setKioskDevice(updated)
+      } catch (err: any) {
+        if (err?.errorCode === 'KIOSK_DEVICE_DISABLED') {
+          kioskRegistration.markDisabled()
+          setKioskDevice(kioskRegistration.getRegistration())
+        }
+        logger.warn('Kiosk heartbeat failed', { error: err?.message, errorCode: err?.errorCode })
+      }
+    }
+
+    sendHeartbeat()
+    const interval = setInterval(sendHeartbeat, KIOSK_HEARTBEAT_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isOffline])
+
+  // A registered kiosk is bound to its site; otherwise the site comes from
+  // ?site= when the kiosk is set up. Refresh the offline cache whenever we
+  // are online
+  useEffect(() => {
+    const site = new URLSearchParams(window.location.search).get('site')
+    if (site && !kioskRegistration.isRegistered()) {
+      offlineFaceCheckin.setSiteId(site)
+    }
+    if (isOffline || !offlineFaceCheckin.getSiteId()) return
+
+    offlineFaceCheckin.refreshCache().catch(err => {
+      logger.warn('Failed to refresh offline face cache', { error: err?.message })
+    })
+  }, [isOffline])
+
   // Get location
   useEffect(() => {
     if (navigator.geolocation) {
@@ -186,7 +290,7 @@ export default function FaceCheckinV2Page() {
           setFaceDetected(true)
           
           // Auto-identify user if not already identified
-          if (!userStatus) {
+          if (!userStatus && !pendingDescriptor) {
             await identifyUser(Array.from(detection.descriptor))
           }
         } else {
@@ -196,6 +300,8 @@ export default function FaceCheckinV2Page() {
             setTimeout(() => {
               if (!faceDetected) {
                 setUserStatus(null)
+                setSecondFactor(null)
+                setOfflineMatch(null)
                 setNextAction(null)
               }
             }, 3000) // Wait 3 seconds before resetting
@@ -214,13 +320,62 @@ export default function FaceCheckinV2Page() {
         clearInterval(detectionIntervalRef.current)
       }
     }
-  }, [modelsLoaded, userStatus, detecting, processing, faceDetected])
+  }, [modelsLoaded, userStatus, detecting, processing, faceDetected, pendingDescriptor])
+
+  // Identify against the offline cache. Today's status is rebuilt from the
+  // events this kiosk has queued, since the server can't be asked.
+  const identifyUserOffline = async (descriptor: number[]) => {
+    const result = await offlineFaceCheckin.identify(descriptor)
+    if (result.outcome !== 'match') {
+      if (result.outcome === 'expired' || result.outcome === 'no_cache') {
+        logger.warn('Offline face check-in unavailable', { outcome: result.outcome })
+      }
+      return
+    }
+
+    const lastAction = await offlineFaceCheckin.getLastQueuedAction(result.match.userId)
+    const status: UserStatus['todayAttendance']['status'] =
+      lastAction === 'check-in' || lastAction === 'break-end' ? 'checked-in'
+        : lastAction === 'break-start' ? 'on-break'
+        : lastAction === 'check-out' ? 'checked-out'
+        : 'not-started'
+
+    setOfflineMatch({ match: result.match, margin: result.margin })
+    setUserStatus({
+      userId: result.match.userId,
+      userName: result.match.userName,
+      userEmail: '',
+      department: result.match.department || '',
+      todayAttendance: { clockIn: null, clockOut: null, breakStart: null, breakEnd: null, status },
+      // Shift is unknown offline; lateness is worked out on the server
+      shift: { startTime: '', endTime: '', lateThresholdMinutes: 0 }
+    })
+
+    if (status === 'not-started') {
+      setNextAction('check-in')
+    } else if (status === 'checked-in') {
+      setNextAction('break-start')
+    } else if (status === 'on-break') {
+      setNextAction('break-end')
+    }
+  }
 
   // Identify user from face descriptor
-  const identifyUser = async (descriptor: number[]) => {
+  const identifyUser = async (descriptor: number[], factor: FaceSecondFactor | null = secondFactor) => {
     if (processing) return
     
     setDetecting(true)
+    if (isOffline) {
+      try {
+        await identifyUserOffline(descriptor)
+      } catch (err) {
+        logger.error('Failed to identify user offline', err as Error)
+      } finally {
+        setDetecting(false)
+      }
+      return
+    }
+
     try {
       // Call API to identify user and get their status
       const response = await ApiClient.request<{
@@ -228,11 +383,12 @@ export default function FaceCheckinV2Page() {
         data: UserStatus
       }>('/api/face/identify-status', {
         method: 'POST',
-        body: JSON.stringify({ descriptor })
+        body: JSON.stringify({ descriptor, secondFactor: factor || undefined })
       })
 
       if (response.success && response.data) {
         setUserStatus(response.data)
+        setFaceFailure(null)
         
         // Determine next action based on status
         const status = response.data.todayAttendance.status
@@ -244,7 +400,17 @@ export default function FaceCheckinV2Page() {
           setNextAction('break-end')
         }
       }
-    } catch (err) {
+    } catch (err: any) {
+      if (err.errorCode === 'AMBIGUOUS_MATCH') {
+        // Look-alike employees: ask for a PIN or employee ID
+        setSecondFactorError(factor ? 'PIN atau ID karyawan tidak cocok' : null)
+        setPendingDescriptor(descriptor)
+        return
+      }
+      if (MANUAL_FALLBACK_ERRORS.includes(err.errorCode)) {
+        setFaceFailure(err.errorCode)
+        return
+      }
       logger.error('Failed to identify user', err as Error)
     } finally {
       setDetecting(false)
@@ -253,7 +419,7 @@ export default function FaceCheckinV2Page() {
 
   // Check if user is late
   const checkIfLate = (): { isLate: boolean; minutes: number } => {
-    if (!userStatus) return { isLate: false, minutes: 0 }
+    if (!userStatus || !userStatus.shift.startTime) return { isLate: false, minutes: 0 }
 
     const now = new Date()
     const [shiftHours, shiftMinutes] = userStatus.shift.startTime.split(':').map(Number)
@@ -275,19 +441,12 @@ export default function FaceCheckinV2Page() {
     setProcessing(true)
     setActionResult(null)
 
-    try {
-      // Detect face again to get fresh descriptor
-      const detection = await faceapi
-        .detectSingleFace(videoRef.current, new faceapi.TinyFaceDetectorOptions())
-        .withFaceLandmarks()
-        .withFaceDescriptor()
-
-      if (!detection) {
-        throw new Error('No face detected. Please position your face clearly in the frame.')
-      }
-
-      const descriptor = Array.from(detection.descriptor)
+    if (isOffline && offlineMatch) {
+      await performOfflineAction(nextAction, offlineMatch)
+      return
+    }
 
+    try {
       // For check-in, check if late
       if (nextAction === 'check-in') {
         const { isLate, minutes } = checkIfLate()
@@ -300,8 +459,11 @@ export default function FaceCheckinV2Page() {
         }
       }
 
+      // Liveness challenge yields a fresh descriptor and the token the API requires
+      const { descriptor, livenessToken } = await liveness.runLivenessCheck(videoRef.current)
+
       // Proceed with action
-      await performAction(descriptor, nextAction, null)
+      await performAction(descriptor, nextAction, null, livenessToken)
 
     } catch (err: any) {
       setActionResult({
@@ -313,11 +475,47 @@ export default function FaceCheckinV2Page() {
     }
   }
 
+  // Queue the action for deferred verification when the server is unreachable
+  const performOfflineAction = async (
+    action: ActionType,
+    matched: { match: OfflineFaceMatch; margin: number | null }
+  ) => {
+    try {
+      const { descriptor, liveness: evidence } = await liveness.runOfflineLivenessCheck(videoRef.current!)
+      await offlineFaceCheckin.recordEvent({
+        descriptor,
+        type: action,
+        match: matched.match,
+        margin: matched.margin,
+        liveness: evidence,
+        location
+      })
+
+      setActionResult({
+        success: true,
+        message: 'Tersimpan offline. Akan diverifikasi saat koneksi kembali.',
+        action
+      })
+      setUserStatus(null)
+      setOfflineMatch(null)
+      setNextAction(null)
+    } catch (err: any) {
+      setActionResult({
+        success: false,
+        message: err.message || 'Failed to process action',
+        action
+      })
+    } finally {
+      setProcessing(false)
+    }
+  }
+
   // Perform the actual action
   const performAction = async (
     descriptor: number[], 
     action: ActionType,
-    lateExcuseData: LateExcuseData | null
+    lateExcuseData: LateExcuseData | null,
+    livenessToken: string
   ) => {
     try {
       const response = await ApiClient.request<{
@@ -331,7 +529,9 @@ export default function FaceCheckinV2Page() {
           action,
           timestamp: new Date().toISOString(),
           location,
-          lateExcuse: lateExcuseData
+          lateExcuse: lateExcuseData,
+          livenessToken,
+          secondFactor: secondFactor || undefined
         })
       })
 
@@ -359,6 +559,9 @@ export default function FaceCheckinV2Page() {
         throw new Error(response.message || 'Action failed')
       }
     } catch (err: any) {
+      if (MANUAL_FALLBACK_ERRORS.includes(err.errorCode)) {
+        setFaceFailure(err.errorCode)
+      }
       setActionResult({
         success: false,
         message: err.message || 'Failed to process action',
@@ -369,6 +572,49 @@ export default function FaceCheckinV2Page() {
     }
   }
 
+  // Grab the current camera frame as evidence for a manual check-in
+  const captureEvidencePhoto = useCallback((): string | null => {
+    const video = videoRef.current
+    if (!video || !video.videoWidth) return null
+
+    const scale = Math.min(1, 640 / video.videoWidth)
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(video.videoWidth * scale)
+    canvas.height = Math.round(video.videoHeight * scale)
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height)
+    return canvas.toDataURL('image/jpeg', 0.8)
+  }, [])
+
+  const handleManualCheckin = async (submission: ManualCheckinSubmission) => {
+    setManualSubmitting(true)
+    setManualError(null)
+
+    try {
+      const response = await ApiClient.manualCheckin({
+        ...submission,
+        faceErrorCode: faceFailure || undefined,
+        location
+      })
+
+      const { status, cosignError } = response.data
+      setActionResult({
+        success: true,
+        message: status === 'approved'
+          ? 'Absensi manual tercatat dan disetujui supervisor.'
+          : cosignError
+            ? `Absensi manual menunggu review: ${cosignError}`
+            : 'Absensi manual tersimpan dan menunggu persetujuan supervisor.',
+        action: submission.type
+      })
+      setShowManualDialog(false)
+      setFaceFailure(null)
+    } catch (err: any) {
+      setManualError(MANUAL_CHECKIN_ERRORS[err.errorCode] || err.message || 'Absensi manual gagal')
+    } finally {
+      setManualSubmitting(false)
+    }
+  }
+
   // Handle late excuse submission
   const handleLateExcuseSubmit = async () => {
     if (!lateExcuse.reasonType || !videoRef.current || !nextAction) {
@@ -380,17 +626,8 @@ export default function FaceCheckinV2Page() {
     setProcessing(true)
 
     try {
-      const detection = await faceapi
-        .detectSingleFace(videoRef.current, new faceapi.TinyFaceDetectorOptions())
-        .withFaceLandmarks()
-        .withFaceDescriptor()
-
-      if (!detection) {
-        throw new Error('No face detected. Please try again.')
-      }
-
-      const descriptor = Array.from(detection.descriptor)
-      await performAction(descriptor, nextAction, lateExcuse)
+      const { descriptor, livenessToken } = await liveness.runLivenessCheck(videoRef.current)
+      await performAction(descriptor, nextAction, lateExcuse, livenessToken)
     } catch (err: any) {
       setActionResult({
         success: false,
@@ -451,14 +688,32 @@ export default function FaceCheckinV2Page() {
           </p>
         </div>
 
+        {kioskDevice?.status === 'disabled' && (
+          <div className="flex items-start gap-3 rounded-lg border border-red-700 bg-red-950/60 p-4 text-red-200">
+            <ShieldOff className="h-5 w-5 mt-0.5" />
+            <div>
+              <p className="font-semibold">Perangkat kiosk ini dinonaktifkan</p>
+              <p className="text-sm text-red-300">
+                {kioskDevice.name} tidak dapat mencatat absensi. Hubungi administrator.
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Main Card */}
         <Card className="bg-slate-800/50 border-slate-700 backdrop-blur">
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-white">
               <Camera className="h-5 w-5" />
               Camera View
+              {isOffline && (
+                <Badge className="ml-auto bg-amber-600">
+                  <WifiOff className="h-3 w-3 mr-1" />
+                  Offline
+                </Badge>
+              )}
               {modelsLoaded && (
-                <Badge variant="outline" className="ml-auto">
+                <Badge variant="outline" className={isOffline ? '' : 'ml-auto'}>
                   <div className="flex items-center gap-1">
                     <div className="w-2 h-2 bg-emerald-500 rounded-full animate-pulse" />
                     AI Ready
@@ -489,6 +744,15 @@ export default function FaceCheckinV2Page() {
                 </div>
               )}
 
+              {/* Liveness Challenge Prompt */}
+              {liveness.status === 'running' && liveness.prompt && (
+                <div className="absolute bottom-4 left-1/2 -translate-x-1/2">
+                  <Badge className="bg-blue-600 text-base px-4 py-2">
+                    {liveness.prompt} ({liveness.progress.completed}/{liveness.progress.total})
+                  </Badge>
+                </div>
+              )}
+
               {/* Loading Models */}
               {!modelsLoaded && (
                 <div className="absolute inset-0 flex items-center justify-center bg-slate-900/80">
@@ -561,7 +825,7 @@ export default function FaceCheckinV2Page() {
                   {processing ? (
                     <>
                       <Loader2 className="h-5 w-5 mr-2 animate-spin" />
-                      Processing...
+                      {liveness.status === 'running' ? 'Liveness check...' : 'Processing...'}
                     </>
                   ) : (
                     <>
@@ -589,6 +853,24 @@ export default function FaceCheckinV2Page() {
               </div>
             )}
 
+            {/* Manual fallback */}
+            {faceFailure && !userStatus && !isOffline && !detecting && (
+              <div className="flex items-center gap-3 p-3 bg-amber-900/30 border border-amber-700 rounded-lg">
+                <AlertCircle className="h-5 w-5 text-amber-500" />
+                <p className="flex-1 text-sm text-amber-200">
+                  Wajah tidak dikenali. Gunakan absensi manual dengan persetujuan supervisor.
+                </p>
+                <Button
+                  size="sm"
+                  onClick={() => { setManualError(null); setShowManualDialog(true) }}
+                  className="bg-amber-600 hover:bg-amber-700"
+                >
+                  <UserCheck className="h-4 w-4 mr-1" />
+                  Absensi Manual
+                </Button>
+              </div>
+            )}
+
             {/* Detecting */}
             {detecting && (
               <div className="text-center py-8">
@@ -666,12 +948,44 @@ export default function FaceCheckinV2Page() {
               <div className="w-6 h-6 rounded-full bg-emerald-600 flex items-center justify-center text-xs text-white mt-0.5">
                 4
               </div>
+              <p>Follow the on-screen liveness instructions (blink, turn your head or smile)</p>
+            </div>
+            <div className="flex items-start gap-2">
+              <div className="w-6 h-6 rounded-full bg-emerald-600 flex items-center justify-center text-xs text-white mt-0.5">
+                5
+              </div>
               <p>If late, you'll be asked to provide a reason</p>
             </div>
           </CardContent>
         </Card>
       </div>
 
+      <SecondFactorDialog
+        open={!!pendingDescriptor}
+        submitting={detecting}
+        error={secondFactorError}
+        onSubmit={async (factor) => {
+          if (!pendingDescriptor) return
+          const descriptor = pendingDescriptor
+          setPendingDescriptor(null)
+          setSecondFactor(factor)
+          await identifyUser(descriptor, factor)
+        }}
+        onCancel={() => {
+          setPendingDescriptor(null)
+          setSecondFactor(null)
+        }}
+      />
+
+      <ManualCheckinDialog
+        open={showManualDialog}
+        submitting={manualSubmitting}
+        error={manualError}
+        capturePhoto={captureEvidencePhoto}
+        onSubmit={handleManualCheckin}
+        onCancel={() => setShowManualDialog(false)}
+      />
+
       {/* Late Excuse Dialog */}
       <Dialog open={showLateDialog} onOpenChange={setShowLateDialog}>
         <DialogContent className="bg-slate-800 border-slate-700">
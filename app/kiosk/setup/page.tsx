@@ -0,0 +1,137 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Tablet, CheckCircle, AlertCircle, Loader2 } from 'lucide-react'
+import { kioskRegistration, type KioskRegistrationInfo } from '@/lib/kiosk-registration'
+
+import { logger } from '@/lib/logger'
+export const dynamic = 'force-dynamic'
+
+// Enrolls this tablet as a face check-in kiosk with a code from an admin
+export default function KioskSetupPage() {
+  const router = useRouter()
+  const [registration, setRegistration] = useState<KioskRegistrationInfo | null>(null)
+  const [code, setCode] = useState('')
+  const [name, setName] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setRegistration(kioskRegistration.getRegistration())
+  }, [])
+
+  const handleRegister = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (!window.crypto?.subtle) {
+      setError('Browser ini tidak mendukung Web Crypto. Gunakan HTTPS dan browser terbaru.')
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const registered = await kioskRegistration.register(code.trim(), name.trim())
+      setRegistration(registered)
+    } catch (err: any) {
+      logger.error('Kiosk registration failed', err as Error)
+      setError(
+        err?.errorCode === 'ENROLLMENT_CODE_INVALID'
+          ? 'Kode pendaftaran tidak valid, sudah dipakai, atau kedaluwarsa.'
+          : err?.message || 'Pendaftaran gagal'
+      )
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleReset = async () => {
+    await kioskRegistration.unregister()
+    setRegistration(null)
+    setCode('')
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4 flex items-center justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tablet className="h-5 w-5" />
+            Pendaftaran Kiosk
+          </CardTitle>
+          <CardDescription>
+            Daftarkan tablet ini sebagai kiosk absensi wajah dengan kode dari administrator
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {registration ? (
+            <div className="space-y-4">
+              <div className="flex items-start gap-3 rounded-lg border border-emerald-200 bg-emerald-50 p-4">
+                <CheckCircle className="h-5 w-5 text-emerald-600 mt-0.5" />
+                <div className="text-sm">
+                  <p className="font-semibold">{registration.name}</p>
+                  <p>Lokasi: {registration.siteName || registration.siteId}</p>
+                  <p className="text-muted-foreground">
+                    Terdaftar {new Date(registration.registeredAt).toLocaleString('id-ID')}
+                  </p>
+                  {registration.status === 'disabled' && (
+                    <p className="text-red-600 font-medium mt-1">Perangkat ini dinonaktifkan</p>
+                  )}
+                </div>
+              </div>
+              <Button className="w-full" onClick={() => router.push('/face-checkin-v2')}>
+                Buka Absensi Wajah
+              </Button>
+              <Button variant="outline" className="w-full" onClick={handleReset}>
+                Hapus Pendaftaran
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleRegister} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-code">Kode pendaftaran</Label>
+                <Input
+                  id="kiosk-code"
+                  value={code}
+                  placeholder="XXXX-XXXX"
+                  autoComplete="off"
+                  className="font-mono uppercase tracking-widest"
+                  onChange={e => setCode(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="kiosk-name">Nama perangkat</Label>
+                <Input
+                  id="kiosk-name"
+                  value={name}
+                  maxLength={100}
+                  placeholder="Tablet Lobi"
+                  onChange={e => setName(e.target.value)}
+                  required
+                />
+              </div>
+
+              {error && (
+                <div className="flex items-start gap-2 text-sm text-red-600">
+                  <AlertCircle className="h-4 w-4 mt-0.5" />
+                  {error}
+                </div>
+              )}
+
+              <Button type="submit" className="w-full" disabled={submitting || code.trim().length < 8 || !name.trim()}>
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Daftarkan
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
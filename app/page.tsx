@@ -83,7 +83,7 @@ export default function LandingPage() {
         {/* Quick Actions */}
         <div className="grid md:grid-cols-2 gap-6 max-w-4xl mx-auto mb-16">
           {/* Face Check-in Card */}
-          <Link href="/face-checkin">
+          <Link href="/face-checkin-v2">
             <Card className="bg-gradient-to-br from-emerald-500/10 to-emerald-600/5 border-emerald-500/20 hover:border-emerald-500/40 transition-all cursor-pointer group h-full">
               <CardHeader>
                 <CardTitle className="text-white flex items-center gap-2 text-2xl">
@@ -245,7 +245,7 @@ export default function LandingPage() {
                 <h4 className="text-white font-semibold mb-3">Quick Links</h4>
                 <ul className="space-y-2">
                   <li>
-                    <Link href="/face-checkin" className="text-slate-400 hover:text-emerald-400 transition-colors">
+                    <Link href="/face-checkin-v2" className="text-slate-400 hover:text-emerald-400 transition-colors">
                       Face Check-in
                     </Link>
                   </li>
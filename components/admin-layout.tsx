@@ -6,7 +6,7 @@ import { useState, useEffect, createContext, useContext } from "react"
 import { useRouter, usePathname } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet"
-import { Shield, LayoutDashboard, Users, Clock, BarChart3, Calendar, Settings, LogOut, Menu, Bell, Database } from "lucide-react"
+import { Shield, LayoutDashboard, Users, Clock, BarChart3, Calendar, Settings, LogOut, Menu, Bell, Database, Tablet, UserCheck } from "lucide-react"
 import { useAuth } from "@/components/auth/AuthProvider"
 import { Badge } from "@/components/ui/badge"
 import { APP_NAME, COMPANY_NAME } from "@/lib/app-config"
@@ -35,6 +35,12 @@ const navigation = [
     icon: Clock,
     current: false,
   },
+  {
+    name: "Absensi Manual",
+    href: "/admin/attendance/manual",
+    icon: UserCheck,
+    current: false,
+  },
   {
     name: "Laporan",
     href: "/admin/reports",
@@ -47,6 +53,12 @@ const navigation = [
     icon: Calendar,
     current: false,
   },
+  {
+    name: "Perangkat Kiosk",
+    href: "/admin/kiosks",
+    icon: Tablet,
+    current: false,
+  },
   {
     name: "Data Management",
     href: "/admin/data-management",
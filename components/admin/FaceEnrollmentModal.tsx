@@ -23,9 +23,10 @@ export function FaceEnrollmentModal({ userId, userName, onClose, targetSamples =
 
   const handleEnrolled = async (embedding: FaceEmbedding) => {
     setError(null)
-    const ok = await faceService.enrollFace(embedding)
-    if (!ok) {
-      setError('Gagal menyimpan embedding ke server. Coba lagi.')
+    const result = await faceService.enrollFace(embedding)
+    if (!result.success) {
+      // Policy rejections (duplicate face, low quality, same pose) come back with a reason
+      setError(result.error || 'Gagal menyimpan embedding ke server. Coba lagi.')
       return
     }
     setSaved((n) => {
@@ -26,7 +26,8 @@ import {
   checkFaceQuality, 
   getQualityColor, 
   getQualityLevel,
-  isReadyForCapture 
+  isReadyForCapture,
+  describeEnrollmentCapture
 } from '@/lib/face-quality-checker'
 
 interface ImprovedFaceEnrollmentModalProps {
@@ -287,6 +288,14 @@ export function ImprovedFaceEnrollmentModal({
             sampleNumber: samplesCollected + 1,
             totalSamples: targetSamples,
             enrolledAt: new Date().toISOString(),
+            capture: describeEnrollmentCapture({
+              score: confidence,
+              box: detection.detection.box,
+              frameWidth: videoRef.current.videoWidth,
+              frameHeight: videoRef.current.videoHeight,
+              landmarks: detection.landmarks,
+              source: videoRef.current,
+            }),
           },
         }),
       })
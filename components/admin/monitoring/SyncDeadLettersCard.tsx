@@ -0,0 +1,383 @@
+/**
+ * Sync Dead Letters Card Component
+ * Offline changes devices stopped retrying, grouped by device, with
+ * inspect, edit-and-retry and discard actions
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useConfirmModal } from '@/components/admin/ConfirmModal';
+import { ApiClient } from '@/lib/api-client';
+import type { ServerSyncDeadLetter, ServerSyncDeadLetterDevice } from '@/lib/server-db';
+import type { SyncDeadLetterStatus } from '@/lib/sync-protocol';
+import { logger } from '@/lib/logger'
+import {
+  RefreshCw,
+  Inbox,
+  CheckCircle,
+  Smartphone,
+  RotateCcw,
+  Trash2,
+  Clock
+} from 'lucide-react';
+
+interface SyncDeadLettersCardProps {
+  refreshInterval?: number;
+}
+
+const REASON_LABELS: Record<ServerSyncDeadLetter['reason'], string> = {
+  max_retries: 'Retries exhausted',
+  rejected: 'Rejected',
+  conflict: 'Conflict',
+  request_rejected: 'Upload refused',
+};
+
+const STATUS_FILTERS: Array<{ value: SyncDeadLetterStatus | 'all'; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'discarded', label: 'Discarded' },
+  { value: 'all', label: 'All' },
+];
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function SyncDeadLettersCard({ refreshInterval = 60000 }: SyncDeadLettersCardProps) {
+  const [devices, setDevices] = useState<ServerSyncDeadLetterDevice[]>([]);
+  const [deadLetters, setDeadLetters] = useState<ServerSyncDeadLetter[]>([]);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+  const [status, setStatus] = useState<SyncDeadLetterStatus | 'all'>('open');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<ServerSyncDeadLetter | null>(null);
+  const [payload, setPayload] = useState('');
+  const [payloadError, setPayloadError] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState(false);
+  const { confirm, ConfirmModal } = useConfirmModal();
+
+  const fetchDeadLetters = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await ApiClient.getSyncDeadLetters({
+        deviceId: deviceId || undefined,
+        status: status === 'all' ? undefined : status,
+        limit: 100,
+      });
+      setDeadLetters(response.data);
+      setDevices(response.devices);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeadLetters();
+
+    if (refreshInterval > 0) {
+      const interval = setInterval(fetchDeadLetters, refreshInterval);
+      return () => clearInterval(interval);
+    }
+  }, [refreshInterval, deviceId, status]);
+
+  const openDeadLetter = (deadLetter: ServerSyncDeadLetter) => {
+    setSelected(deadLetter);
+    setPayload(JSON.stringify(deadLetter.mutation.data, null, 2));
+    setPayloadError(null);
+    setActionMessage(null);
+  };
+
+  const retrySelected = async () => {
+    if (!selected) return;
+
+    let data: Record<string, any> | undefined;
+    const original = JSON.stringify(selected.mutation.data, null, 2);
+    if (payload.trim() !== original) {
+      try {
+        data = JSON.parse(payload);
+      } catch {
+        setPayloadError('Payload is not valid JSON');
+        return;
+      }
+      if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        setPayloadError('Payload must be a JSON object');
+        return;
+      }
+    }
+
+    try {
+      setRetrying(true);
+      setPayloadError(null);
+      const response = await ApiClient.retrySyncDeadLetter(selected.id, data);
+      setActionMessage(response.result.error ? `${response.message}: ${response.result.error}` : response.message);
+      setSelected(response.data.status === 'open' ? response.data : null);
+      fetchDeadLetters();
+    } catch (err) {
+      logger.error('Error retrying sync dead letter', err as Error);
+      setPayloadError(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const discardSelected = () => {
+    if (!selected) return;
+
+    confirm({
+      title: 'Discard this change?',
+      description: `The ${selected.entity} ${selected.operation} from device ${selected.deviceId} will never be applied. The device drops its copy on its next report.`,
+      variant: 'destructive',
+      confirmText: 'Discard',
+      onConfirm: async () => {
+        await ApiClient.discardSyncDeadLetter(selected.id);
+        setSelected(null);
+        fetchDeadLetters();
+      },
+    });
+  };
+
+  const getStatusColor = (value: SyncDeadLetterStatus) => {
+    switch (value) {
+      case 'open':
+        return 'destructive';
+      case 'resolved':
+        return 'outline';
+      default:
+        return 'secondary';
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Sync Dead Letters
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-center text-red-500 p-4">
+            <p>Error loading dead letters: {error}</p>
+            <Button onClick={fetchDeadLetters} className="mt-2" variant="outline">
+              Retry
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Sync Dead Letters
+          </CardTitle>
+          <Button
+            onClick={fetchDeadLetters}
+            variant="outline"
+            size="sm"
+            disabled={loading}
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <CardDescription>
+          Offline changes devices stopped retrying
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <button
+              type="button"
+              onClick={() => setDeviceId(null)}
+              className={`w-full rounded-md border p-3 text-left text-sm ${deviceId === null ? 'bg-muted' : ''}`}
+            >
+              All devices
+            </button>
+            {devices.map((device) => (
+              <button
+                key={device.deviceId}
+                type="button"
+                onClick={() => setDeviceId(device.deviceId)}
+                className={`w-full rounded-md border p-3 text-left ${deviceId === device.deviceId ? 'bg-muted' : ''}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2 text-sm font-medium truncate">
+                    <Smartphone className="h-4 w-4 shrink-0" />
+                    {device.deviceId.slice(0, 8)}
+                  </span>
+                  <Badge variant={device.openCount > 0 ? 'destructive' : 'outline'} className="text-xs">
+                    {device.openCount} open
+                  </Badge>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground truncate">
+                  {device.deviceInfo.platform || 'Unknown platform'}
+                  {device.lastReportedAt && ` · reported ${new Date(device.lastReportedAt).toLocaleString()}`}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="md:col-span-2 space-y-3">
+            <div className="flex flex-wrap gap-2">
+              {STATUS_FILTERS.map((filter) => (
+                <Button
+                  key={filter.value}
+                  size="sm"
+                  variant={status === filter.value ? 'default' : 'outline'}
+                  onClick={() => setStatus(filter.value)}
+                >
+                  {filter.label}
+                </Button>
+              ))}
+            </div>
+
+            {deadLetters.length === 0 ? (
+              <div className="text-center py-8">
+                <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-2" />
+                <p className="text-muted-foreground">No dead letters</p>
+              </div>
+            ) : (
+              deadLetters.map((deadLetter) => (
+                <button
+                  key={deadLetter.id}
+                  type="button"
+                  onClick={() => openDeadLetter(deadLetter)}
+                  className="w-full rounded-md border p-3 text-left hover:bg-muted"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">
+                      {deadLetter.entity} {deadLetter.operation} · {deadLetter.entityId}
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <Badge variant="secondary" className="text-xs">
+                        {REASON_LABELS[deadLetter.reason]}
+                      </Badge>
+                      <Badge variant={getStatusColor(deadLetter.status)} className="text-xs">
+                        {deadLetter.status}
+                      </Badge>
+                    </div>
+                  </div>
+                  <p className="mt-1 text-sm text-muted-foreground truncate">{deadLetter.lastError}</p>
+                  <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                    <Clock className="h-3 w-3" />
+                    {new Date(deadLetter.failedAt).toLocaleString()}
+                    {deadLetter.retryAttempts > 0 && ` · retried ${deadLetter.retryAttempts}×`}
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      </CardContent>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          {selected && (
+            <>
+              <DialogHeader>
+                <DialogTitle>
+                  {selected.entity} {selected.operation} · {selected.entityId}
+                </DialogTitle>
+                <DialogDescription>
+                  {REASON_LABELS[selected.reason]} after {selected.retryCount} attempts
+                  {selected.httpStatus && ` (HTTP ${selected.httpStatus})`}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 text-sm">
+                <div>
+                  <p className="font-medium">Last error</p>
+                  <p className="text-muted-foreground">
+                    {selected.lastError}
+                    {selected.errorCode && ` [${selected.errorCode}]`}
+                  </p>
+                </div>
+
+                {selected.payloadDiff && selected.payloadDiff.length > 0 && (
+                  <div>
+                    <p className="font-medium">Differences from the server copy</p>
+                    <table className="mt-1 w-full text-xs">
+                      <thead>
+                        <tr className="text-left text-muted-foreground">
+                          <th className="py-1 pr-2">Field</th>
+                          <th className="py-1 pr-2">Device</th>
+                          <th className="py-1">Server</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {selected.payloadDiff.map((entry) => (
+                          <tr key={entry.field} className="border-t align-top">
+                            <td className="py-1 pr-2 font-mono">{entry.field}</td>
+                            <td className="py-1 pr-2 break-all">{formatValue(entry.local)}</td>
+                            <td className="py-1 break-all">{formatValue(entry.server)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div>
+                  <p className="font-medium">Device</p>
+                  <p className="text-muted-foreground break-all">
+                    {selected.deviceInfo.deviceId}
+                    {selected.deviceInfo.platform && ` · ${selected.deviceInfo.platform}`}
+                    {selected.deviceInfo.language && ` · ${selected.deviceInfo.language}`}
+                  </p>
+                  {selected.deviceInfo.userAgent && (
+                    <p className="text-xs text-muted-foreground break-all">{selected.deviceInfo.userAgent}</p>
+                  )}
+                </div>
+
+                <div>
+                  <p className="font-medium">Payload</p>
+                  <Textarea
+                    value={payload}
+                    onChange={(event) => setPayload(event.target.value)}
+                    disabled={selected.status !== 'open'}
+                    className="mt-1 h-48 font-mono text-xs"
+                  />
+                  {payloadError && <p className="mt-1 text-xs text-red-500">{payloadError}</p>}
+                  {actionMessage && <p className="mt-1 text-xs text-muted-foreground">{actionMessage}</p>}
+                </div>
+              </div>
+
+              {selected.status === 'open' && (
+                <DialogFooter>
+                  <Button variant="outline" onClick={discardSelected} disabled={retrying}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Discard
+                  </Button>
+                  <Button onClick={retrySelected} disabled={retrying}>
+                    <RotateCcw className={`mr-2 h-4 w-4 ${retrying ? 'animate-spin' : ''}`} />
+                    Retry
+                  </Button>
+                </DialogFooter>
+              )}
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+      <ConfirmModal />
+    </Card>
+  );
+}
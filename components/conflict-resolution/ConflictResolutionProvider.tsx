@@ -5,7 +5,7 @@
 
 import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
 import { Conflict, ConflictStats, ConflictHistoryEntry, ResolutionStrategy, ManualResolutionRequest } from '@/lib/conflict-types';
-import { ConflictResolver } from '@/lib/conflict-resolver';
+import { ConflictResolver, conflictResolver } from '@/lib/conflict-resolver';
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Initial state
@@ -192,7 +192,7 @@ interface ConflictResolutionProviderProps {
 
 export const ConflictResolutionProvider: React.FC<ConflictResolutionProviderProps> = ({
   children,
-  resolver = new ConflictResolver()
+  resolver = conflictResolver
 }) => {
   const [state, dispatch] = useReducer(conflictResolutionReducer, initialState);
 
@@ -410,10 +410,14 @@ export const ConflictResolutionProvider: React.FC<ConflictResolutionProviderProp
     await loadConflicts();
   };
 
-  // Load conflicts on mount
+  // Load conflicts on mount, and again whenever sync reports one the
+  // merge rules couldn't settle
   useEffect(() => {
     loadConflicts();
-  }, []);
+    return resolver.onNotification(() => {
+      loadConflicts();
+    });
+  }, [resolver]);
 
   // Context value
   const contextValue: ConflictResolutionContextType = {
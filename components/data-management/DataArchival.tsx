@@ -1,7 +1,7 @@
 "use client"
 
 import * as React from "react"
-import { useState, useCallback } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -14,6 +14,16 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { ApiClient } from "@/lib/api-client"
+import type {
+  ArchivalRule,
+  ArchivalCondition,
+  ArchivalAction,
+  CleanupRule,
+  ArchivedRecord,
+  DataRetentionPolicy,
+  ArchivalProgress
+} from "@/lib/data-archival"
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 import {
   Archive,
@@ -37,509 +47,353 @@ import {
   ArrowLeft
 } from "lucide-react"
 
-// Define interfaces
-interface ArchivalRule {
-  id: string
-  name: string
-  description: string
-  enabled: boolean
-  entityType: 'employees' | 'attendance' | 'schedules'
-  conditions: ArchivalCondition[]
-  actions: ArchivalAction[]
-  schedule?: {
-    enabled: boolean
-    frequency: 'daily' | 'weekly' | 'monthly'
-    time: string
-    nextRun: string
-  }
-  createdAt: string
-  updatedAt: string
-}
-
-interface ArchivalCondition {
-  field: string
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'between' | 'contains' | 'in' | 'older_than'
-  value: any
-  logicalOperator?: 'and' | 'or'
-}
-
-interface ArchivalAction {
-  type: 'archive' | 'delete' | 'flag'
-  parameters?: {
-    location?: string
-    retentionDays?: number
-    flag?: string
-  }
+// Outcome of the last run, shown under the progress bar
+interface OperationSummary {
+  title: string
+  isDryRun: boolean
+  stats: Array<{ label: string; value: string }>
+  warnings: string[]
+  errors: string[]
 }
 
-interface CleanupRule {
-  id: string
+interface RuleForm {
   name: string
   description: string
-  enabled: boolean
-  entityType: 'employees' | 'attendance' | 'schedules' | 'logs' | 'temp_files'
-  conditions: CleanupCondition[]
-  dryRun: boolean
-  schedule?: {
-    enabled: boolean
-    frequency: 'daily' | 'weekly' | 'monthly'
-    time: string
-    nextRun: string
-  }
-  createdAt: string
-  updatedAt: string
-}
-
-interface CleanupCondition {
+  entityType: ArchivalRule['entityType']
   field: string
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'between' | 'contains' | 'in' | 'older_than'
-  value: any
-  logicalOperator?: 'and' | 'or'
-}
-
-interface ArchivedRecord {
-  id: string
-  originalId: string
-  entityType: 'employees' | 'attendance' | 'schedules'
-  data: any
-  archivedAt: string
-  archivedBy: string
-  retentionExpiresAt?: string
+  operator: ArchivalCondition['operator']
+  value: string
+  action: ArchivalAction['type']
   location: string
-  size: number
+  retentionDays: string
+  flag: string
+  scheduleEnabled: boolean
+  frequency: 'daily' | 'weekly' | 'monthly'
+  time: string
 }
 
-interface DataRetentionPolicy {
-  id: string
-  name: string
-  entityType: 'employees' | 'attendance' | 'schedules'
-  retentionPeriod: number // in days
-  archivalAction: 'archive' | 'delete'
-  archivalDelay: number // in days
-  conditions: RetentionCondition[]
-  enabled: boolean
-  createdAt: string
-  updatedAt: string
+// Condition fields offered per entity; see ENTITIES in lib/data-archival.ts
+const RULE_FIELDS: Record<ArchivalRule['entityType'], Array<{ value: string; label: string }>> = {
+  employees: [
+    { value: 'updatedAt', label: 'Last updated' },
+    { value: 'isActive', label: 'Active' },
+    { value: 'department', label: 'Department' },
+    { value: 'role', label: 'Role' },
+    { value: 'startDate', label: 'Start date' }
+  ],
+  attendance: [
+    { value: 'timestamp', label: 'Punch time' },
+    { value: 'type', label: 'Type' },
+    { value: 'status', label: 'Status' },
+    { value: 'verified', label: 'Verified' }
+  ],
+  schedules: [
+    { value: 'endDate', label: 'End date' },
+    { value: 'isActive', label: 'Active' },
+    { value: 'type', label: 'Type' },
+    { value: 'startDate', label: 'Start date' }
+  ]
 }
 
-interface RetentionCondition {
-  field: string
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'between' | 'contains' | 'in' | 'older_than'
-  value: any
-}
+const emptyRuleForm = (): RuleForm => ({
+  name: '',
+  description: '',
+  entityType: 'attendance',
+  field: 'timestamp',
+  operator: 'older_than',
+  value: '365d',
+  action: 'archive',
+  location: '',
+  retentionDays: '2555',
+  flag: 'archival',
+  scheduleEnabled: false,
+  frequency: 'monthly',
+  time: '02:00'
+})
 
-interface ArchivalProgress {
-  current: number
-  total: number
-  percentage: number
-  status: 'pending' | 'running' | 'completed' | 'failed'
-  message?: string
-  stage?: string
-}
+// Format file size
+const formatFileSize = (bytes: number): string => {
+  if (bytes === 0) return '0 Bytes'
 
-// Mock data
-const mockArchivalRules: ArchivalRule[] = [
-  {
-    id: 'rule-1',
-    name: 'Archive Old Attendance Records',
-    description: 'Archive attendance records older than 1 year',
-    enabled: true,
-    entityType: 'attendance',
-    conditions: [
-      {
-        field: 'date',
-        operator: 'older_than',
-        value: '365d'
-      }
-    ],
-    actions: [
-      {
-        type: 'archive',
-        parameters: {
-          location: '/archives/attendance',
-          retentionDays: 2555 // 7 years
-        }
-      }
-    ],
-    schedule: {
-      enabled: true,
-      frequency: 'monthly',
-      time: '02:00',
-      nextRun: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-    },
-    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-  },
-  {
-    id: 'rule-2',
-    name: 'Archive Inactive Employee Records',
-    description: 'Archive employee records for inactive employees',
-    enabled: true,
-    entityType: 'employees',
-    conditions: [
-      {
-        field: 'status',
-        operator: 'equals',
-        value: 'inactive'
-      },
-      {
-        field: 'lastActiveDate',
-        operator: 'older_than',
-        value: '180d',
-        logicalOperator: 'and'
-      }
-    ],
-    actions: [
-      {
-        type: 'archive',
-        parameters: {
-          location: '/archives/employees',
-          retentionDays: 2555 // 7 years
-        }
-      }
-    ],
-    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-  }
-]
-
-const mockCleanupRules: CleanupRule[] = [
-  {
-    id: 'cleanup-1',
-    name: 'Clean Up Old Log Files',
-    description: 'Delete log files older than 30 days',
-    enabled: true,
-    entityType: 'logs',
-    conditions: [
-      {
-        field: 'createdAt',
-        operator: 'older_than',
-        value: '30d'
-      }
-    ],
-    dryRun: false,
-    schedule: {
-      enabled: true,
-      frequency: 'weekly',
-      time: '03:00',
-      nextRun: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-    },
-    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-  },
-  {
-    id: 'cleanup-2',
-    name: 'Clean Up Temporary Files',
-    description: 'Delete temporary files older than 7 days',
-    enabled: true,
-    entityType: 'temp_files',
-    conditions: [
-      {
-        field: 'createdAt',
-        operator: 'older_than',
-        value: '7d'
-      }
-    ],
-    dryRun: false,
-    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-  }
-]
+  const k = 1024
+  const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
 
-const mockArchivedRecords: ArchivedRecord[] = [
-  {
-    id: 'archived-1',
-    originalId: 'attendance-12345',
-    entityType: 'attendance',
-    data: {
-      employeeId: 'EMP001',
-      date: '2023-01-01',
-      type: 'check-in',
-      timestamp: '2023-01-01T08:00:00Z'
-    },
-    archivedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-    archivedBy: 'System',
-    retentionExpiresAt: new Date(Date.now() + 2525 * 24 * 60 * 60 * 1000).toISOString(),
-    location: '/archives/attendance/2023/01',
-    size: 256
-  },
-  {
-    id: 'archived-2',
-    originalId: 'employee-67890',
-    entityType: 'employees',
-    data: {
-      name: 'John Doe',
-      email: 'john@example.com',
-      employeeId: 'EMP001',
-      department: 'IT',
-      status: 'inactive'
-    },
-    archivedAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString(),
-    archivedBy: 'Admin',
-    retentionExpiresAt: new Date(Date.now() + 2495 * 24 * 60 * 60 * 1000).toISOString(),
-    location: '/archives/employees/2023/12',
-    size: 512
-  }
-]
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
+}
 
-const mockRetentionPolicies: DataRetentionPolicy[] = [
-  {
-    id: 'policy-1',
-    name: 'Attendance Data Retention',
-    entityType: 'attendance',
-    retentionPeriod: 2555, // 7 years
-    archivalAction: 'archive',
-    archivalDelay: 365, // 1 year
-    conditions: [
-      {
-        field: 'date',
-        operator: 'older_than',
-        value: '365d'
-      }
-    ],
-    enabled: true,
-    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-  },
-  {
-    id: 'policy-2',
-    name: 'Employee Data Retention',
-    entityType: 'employees',
-    retentionPeriod: 2555, // 7 years
-    archivalAction: 'archive',
-    archivalDelay: 180, // 6 months
-    conditions: [
-      {
-        field: 'status',
-        operator: 'equals',
-        value: 'inactive'
-      }
-    ],
-    enabled: true,
-    createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-    updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-  }
-]
+const formatConditionValue = (value: any): string =>
+  Array.isArray(value) ? value.join(', ') : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)
 
 export function DataArchival() {
   const [activeTab, setActiveTab] = useState("archival-rules")
-  const [archivalRules, setArchivalRules] = useState<ArchivalRule[]>(mockArchivalRules)
-  const [cleanupRules, setCleanupRules] = useState<CleanupRule[]>(mockCleanupRules)
-  const [archivedRecords, setArchivedRecords] = useState<ArchivedRecord[]>(mockArchivedRecords)
-  const [retentionPolicies, setRetentionPolicies] = useState<DataRetentionPolicy[]>(mockRetentionPolicies)
-  const [selectedRule, setSelectedRule] = useState<ArchivalRule | CleanupRule | null>(null)
+  const [archivalRules, setArchivalRules] = useState<ArchivalRule[]>([])
+  const [cleanupRules, setCleanupRules] = useState<CleanupRule[]>([])
+  const [archivedRecords, setArchivedRecords] = useState<ArchivedRecord[]>([])
+  const [archivedTotal, setArchivedTotal] = useState(0)
+  const [retentionPolicies, setRetentionPolicies] = useState<DataRetentionPolicy[]>([])
   const [selectedRecord, setSelectedRecord] = useState<ArchivedRecord | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
   const [isRunning, setIsRunning] = useState(false)
   const [archivalProgress, setArchivalProgress] = useState<ArchivalProgress | null>(null)
+  const [lastSummary, setLastSummary] = useState<OperationSummary | null>(null)
+  const [error, setError] = useState<string | null>(null)
   const [showRuleDialog, setShowRuleDialog] = useState(false)
+  const [ruleForm, setRuleForm] = useState<RuleForm>(emptyRuleForm)
+  const [ruleFormError, setRuleFormError] = useState<string | null>(null)
+  const [isSavingRule, setIsSavingRule] = useState(false)
   const [showRecordDialog, setShowRecordDialog] = useState(false)
   const [searchTerm, setSearchTerm] = useState("")
   const [filterType, setFilterType] = useState("all")
 
-  // Run archival rule
-  const handleRunArchivalRule = useCallback(async (rule: ArchivalRule, dryRun: boolean = false) => {
-    setIsRunning(true)
-    setArchivalProgress({ current: 0, total: 100, percentage: 0, status: 'pending' })
-    
+  const fetchArchivedRecords = useCallback(async () => {
+    const response = await ApiClient.getArchivedRecords({
+      entityType: filterType === 'all' ? undefined : filterType as ArchivedRecord['entityType'],
+      limit: 100
+    })
+    setArchivedRecords(response.data.records)
+    setArchivedTotal(response.data.total)
+  }, [filterType])
+
+  const fetchData = useCallback(async () => {
+    setIsLoading(true)
     try {
-      // Mock API call with progress
-      // In a real implementation, this would call the actual API
-      const stages = [
-        { name: 'scanning', duration: 1000 },
-        { name: 'processing', duration: 2000 },
-        { name: 'archiving', duration: 3000 }
-      ]
-      
-      let currentProgress = 0
-      const totalStages = stages.length
-      
-      for (let i = 0; i < totalStages; i++) {
-        const stage = stages[i]
-        setArchivalProgress({
-          current: currentProgress,
-          total: 100,
-          percentage: Math.round((currentProgress / 100) * 100),
-          status: 'running',
-          message: `Starting ${stage.name}...`,
-          stage: stage.name
-        })
-        
-        await new Promise(resolve => setTimeout(resolve, stage.duration))
-        
-        currentProgress += Math.round(100 / totalStages)
-        setArchivalProgress({
-          current: currentProgress,
-          total: 100,
-          percentage: currentProgress,
-          status: 'running',
-          message: `Completed ${stage.name}`,
-          stage: stage.name
-        })
-      }
-      
-      setArchivalProgress({
-        current: 100,
-        total: 100,
-        percentage: 100,
-        status: 'completed',
-        message: `Archival completed successfully${dryRun ? ' (dry run)' : ''}`
-      })
+      const [archival, cleanup, retention] = await Promise.all([
+        ApiClient.getArchivalRules(),
+        ApiClient.getCleanupRules(),
+        ApiClient.getRetentionPolicies()
+      ])
+      setArchivalRules(archival.data)
+      setCleanupRules(cleanup.data)
+      setRetentionPolicies(retention.data)
     } catch (error) {
-      logger.error('Archival error', error as Error)
-      setArchivalProgress({
-        current: 0,
-        total: 100,
-        percentage: 0,
-        status: 'failed',
-        message: 'Archival failed'
-      })
+      logger.error('Error fetching archival data', error as Error)
+      setError((error as Error).message)
     } finally {
-      setIsRunning(false)
+      setIsLoading(false)
     }
   }, [])
 
-  // Run cleanup rule
-  const handleRunCleanupRule = useCallback(async (rule: CleanupRule) => {
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  useEffect(() => {
+    fetchArchivedRecords().catch(error => {
+      logger.error('Error fetching archived records', error as Error)
+      setError((error as Error).message)
+    })
+  }, [fetchArchivedRecords])
+
+  // Runs happen in one request; the bar only shows that one is in flight
+  const runOperation = useCallback(async (
+    label: string,
+    operation: () => Promise<OperationSummary | null>
+  ) => {
     setIsRunning(true)
-    setArchivalProgress({ current: 0, total: 100, percentage: 0, status: 'pending' })
-    
+    setError(null)
+    setLastSummary(null)
+    setArchivalProgress({ current: 0, total: 100, percentage: 10, status: 'running', message: `${label}...` })
+
     try {
-      // Mock API call with progress
-      // In a real implementation, this would call the actual API
-      const stages = [
-        { name: 'scanning', duration: 1000 },
-        { name: 'processing', duration: 2000 },
-        { name: 'cleanup', duration: 3000 }
-      ]
-      
-      let currentProgress = 0
-      const totalStages = stages.length
-      
-      for (let i = 0; i < totalStages; i++) {
-        const stage = stages[i]
-        setArchivalProgress({
-          current: currentProgress,
-          total: 100,
-          percentage: Math.round((currentProgress / 100) * 100),
-          status: 'running',
-          message: `Starting ${stage.name}...`,
-          stage: stage.name
-        })
-        
-        await new Promise(resolve => setTimeout(resolve, stage.duration))
-        
-        currentProgress += Math.round(100 / totalStages)
-        setArchivalProgress({
-          current: currentProgress,
-          total: 100,
-          percentage: currentProgress,
-          status: 'running',
-          message: `Completed ${stage.name}`,
-          stage: stage.name
-        })
-      }
-      
+      const summary = await operation()
+      const failed = !!summary && summary.errors.length > 0
+      setLastSummary(summary)
       setArchivalProgress({
         current: 100,
         total: 100,
         percentage: 100,
-        status: 'completed',
-        message: `Cleanup completed successfully${rule.dryRun ? ' (dry run)' : ''}`
+        status: failed ? 'failed' : 'completed',
+        message: `${label} ${failed ? 'finished with errors' : 'completed'}${summary?.isDryRun ? ' (dry run)' : ''}`
       })
+      if (summary && !summary.isDryRun) {
+        await fetchArchivedRecords()
+      }
     } catch (error) {
-      logger.error('Cleanup error', error as Error)
+      logger.error(`${label} error`, error as Error)
       setArchivalProgress({
         current: 0,
         total: 100,
         percentage: 0,
         status: 'failed',
-        message: 'Cleanup failed'
+        message: `${label} failed: ${(error as Error).message}`
       })
     } finally {
       setIsRunning(false)
     }
-  }, [])
+  }, [fetchArchivedRecords])
+
+  // Run archival rule
+  const handleRunArchivalRule = useCallback((rule: ArchivalRule, dryRun: boolean = false) =>
+    runOperation(`Archival "${rule.name}"`, async () => {
+      const { data } = await ApiClient.runArchivalRule(rule.id, dryRun)
+      return {
+        title: rule.name,
+        isDryRun: data.isDryRun,
+        stats: [
+          { label: 'Matched', value: String(data.recordsMatched) },
+          { label: 'Archived', value: String(data.recordsArchived) },
+          { label: 'Deleted', value: String(data.recordsDeleted) },
+          { label: 'Flagged', value: String(data.recordsFlagged) },
+          { label: 'Skipped', value: String(data.recordsSkipped) },
+          { label: 'Data size', value: formatFileSize(data.originalSize) },
+          { label: 'Archive size', value: formatFileSize(data.archiveSize) }
+        ],
+        warnings: data.warnings,
+        errors: data.errors
+      }
+    }), [runOperation])
+
+  // Run cleanup rule
+  const handleRunCleanupRule = useCallback((rule: CleanupRule, dryRun: boolean = false) =>
+    runOperation(`Cleanup "${rule.name}"`, async () => {
+      const { data } = await ApiClient.runCleanupRule(rule.id, dryRun)
+      return {
+        title: rule.name,
+        isDryRun: data.isDryRun,
+        stats: [
+          { label: 'Matched', value: String(data.recordsMatched) },
+          { label: data.isDryRun ? 'Would delete' : 'Deleted', value: String(data.recordsDeleted) },
+          { label: 'Skipped', value: String(data.recordsSkipped) },
+          { label: 'Space freed', value: formatFileSize(data.spaceFreed) }
+        ],
+        warnings: data.warnings,
+        errors: data.errors
+      }
+    }), [runOperation])
+
+  // Apply retention policies
+  const handleApplyRetentionPolicies = useCallback(() =>
+    runOperation('Retention policies', async () => {
+      const { data } = await ApiClient.applyRetentionPolicies()
+      return {
+        title: 'Retention policies',
+        isDryRun: data.isDryRun,
+        stats: [
+          { label: 'Policies applied', value: String(data.policiesApplied) },
+          { label: 'Archived', value: String(data.recordsArchived) },
+          { label: 'Deleted', value: String(data.recordsDeleted) },
+          { label: 'Skipped', value: String(data.recordsSkipped) },
+          { label: 'Expired archives purged', value: String(data.recordsPurged) },
+          { label: 'Archive size', value: formatFileSize(data.archiveSize) }
+        ],
+        warnings: [],
+        errors: data.errors
+      }
+    }), [runOperation])
 
   // Restore archived record
   const handleRestoreRecord = useCallback(async (recordId: string) => {
+    setError(null)
     try {
-      // Mock API call
-      // In a real implementation, this would call the actual API
-      await new Promise(resolve => setTimeout(resolve, 1000))
-      
+      await ApiClient.restoreArchivedRecord(recordId)
       setArchivedRecords(prev => prev.filter(record => record.id !== recordId))
-      
-      alert('Record restored successfully')
+      setArchivedTotal(prev => Math.max(prev - 1, 0))
     } catch (error) {
       logger.error('Restore error', error as Error)
-      alert('Failed to restore record')
+      setError(`Failed to restore record: ${(error as Error).message}`)
     }
   }, [])
 
   // Delete archived record
   const handleDeleteRecord = useCallback(async (recordId: string) => {
+    if (!confirm('Permanently delete this archived record? It cannot be restored afterwards.')) return
+
+    setError(null)
     try {
-      // Mock API call
-      // In a real implementation, this would call the actual API
-      await new Promise(resolve => setTimeout(resolve, 500))
-      
+      await ApiClient.deleteArchivalItem('archived-record', recordId)
       setArchivedRecords(prev => prev.filter(record => record.id !== recordId))
+      setArchivedTotal(prev => Math.max(prev - 1, 0))
     } catch (error) {
       logger.error('Delete error', error as Error)
-      alert('Failed to delete record')
+      setError(`Failed to delete record: ${(error as Error).message}`)
     }
   }, [])
 
-  // Apply retention policies
-  const handleApplyRetentionPolicies = useCallback(async () => {
-    setIsRunning(true)
-    setArchivalProgress({ current: 0, total: 100, percentage: 0, status: 'pending' })
-    
+  // Delete archival or cleanup rule
+  const handleDeleteRule = useCallback(async (type: 'archival-rule' | 'cleanup-rule', ruleId: string) => {
+    if (!confirm('Delete this rule and its schedule?')) return
+
+    setError(null)
     try {
-      // Mock API call with progress
-      // In a real implementation, this would call the actual API
-      for (let i = 0; i <= 100; i += 10) {
-        await new Promise(resolve => setTimeout(resolve, 200))
-        setArchivalProgress({
-          current: i,
-          total: 100,
-          percentage: i,
-          status: 'running',
-          message: `Applying retention policies... ${i}%`
-        })
+      await ApiClient.deleteArchivalItem(type, ruleId)
+      if (type === 'archival-rule') {
+        setArchivalRules(prev => prev.filter(rule => rule.id !== ruleId))
+      } else {
+        setCleanupRules(prev => prev.filter(rule => rule.id !== ruleId))
       }
-      
-      setArchivalProgress({
-        current: 100,
-        total: 100,
-        percentage: 100,
-        status: 'completed',
-        message: 'Retention policies applied successfully'
-      })
     } catch (error) {
-      logger.error('Retention policy application error', error as Error)
-      setArchivalProgress({
-        current: 0,
-        total: 100,
-        percentage: 0,
-        status: 'failed',
-        message: 'Failed to apply retention policies'
+      logger.error('Rule deletion error', error as Error)
+      setError(`Failed to delete rule: ${(error as Error).message}`)
+    }
+  }, [])
+
+  // Toggle a retention policy on or off
+  const handleToggleRetentionPolicy = useCallback(async (policy: DataRetentionPolicy) => {
+    setError(null)
+    try {
+      const { data } = await ApiClient.saveRetentionPolicy({
+        id: policy.id,
+        name: policy.name,
+        entityType: policy.entityType,
+        retentionPeriod: policy.retentionPeriod,
+        archivalAction: policy.archivalAction,
+        archivalDelay: policy.archivalDelay,
+        conditions: policy.conditions,
+        enabled: !policy.enabled
       })
-    } finally {
-      setIsRunning(false)
+      setRetentionPolicies(prev => prev.map(existing => existing.id === data.id ? data : existing))
+    } catch (error) {
+      logger.error('Retention policy update error', error as Error)
+      setError(`Failed to update retention policy: ${(error as Error).message}`)
     }
   }, [])
 
-  // Format file size
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 Bytes'
-    
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i]
-  }
+  // Create archival rule from the dialog
+  const handleCreateRule = useCallback(async () => {
+    setRuleFormError(null)
+    if (!ruleForm.name.trim()) {
+      setRuleFormError('Rule name is required')
+      return
+    }
+
+    const retentionDays = Number(ruleForm.retentionDays)
+    const action: ArchivalAction =
+      ruleForm.action === 'archive'
+        ? {
+            type: 'archive',
+            parameters: {
+              ...(ruleForm.location.trim() ? { location: ruleForm.location.trim() } : {}),
+              ...(ruleForm.retentionDays && retentionDays > 0 ? { retentionDays } : {})
+            }
+          }
+        : ruleForm.action === 'flag'
+          ? { type: 'flag', parameters: { flag: ruleForm.flag.trim() || 'archival' } }
+          : { type: 'delete' }
+
+    setIsSavingRule(true)
+    try {
+      const { data } = await ApiClient.saveArchivalRule({
+        name: ruleForm.name.trim(),
+        description: ruleForm.description.trim(),
+        enabled: true,
+        entityType: ruleForm.entityType,
+        conditions: [{ field: ruleForm.field, operator: ruleForm.operator, value: ruleForm.value.trim() }],
+        actions: [action],
+        schedule: ruleForm.scheduleEnabled
+          ? { enabled: true, frequency: ruleForm.frequency, time: ruleForm.time }
+          : undefined
+      })
+      setArchivalRules(prev => [data, ...prev])
+      setShowRuleDialog(false)
+      setRuleForm(emptyRuleForm())
+    } catch (error) {
+      logger.error('Rule creation error', error as Error)
+      setRuleFormError((error as Error).message)
+    } finally {
+      setIsSavingRule(false)
+    }
+  }, [ruleForm])
 
   // Format date
   const formatDate = (dateString: string): string => {
@@ -583,6 +437,13 @@ export function DataArchival() {
         </Button>
       </div>
 
+      {error && (
+        <Alert className="bg-red-500/10 border-red-500/30">
+          <AlertCircle className="w-4 h-4 text-red-400" />
+          <AlertDescription className="text-red-400">{error}</AlertDescription>
+        </Alert>
+      )}
+
       {archivalProgress && (
         <Card className="bg-slate-800/50 border-slate-700">
           <CardHeader>
@@ -603,6 +464,24 @@ export function DataArchival() {
                   {archivalProgress.stage}
                 </Badge>
               )}
+              {lastSummary && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                    {lastSummary.stats.map(stat => (
+                      <div key={stat.label}>
+                        <p className="text-slate-400">{stat.label}</p>
+                        <p className="text-white font-medium">{stat.value}</p>
+                      </div>
+                    ))}
+                  </div>
+                  {lastSummary.warnings.map((warning, index) => (
+                    <p key={`warning-${index}`} className="text-yellow-400 text-sm">{warning}</p>
+                  ))}
+                  {lastSummary.errors.map((message, index) => (
+                    <p key={`error-${index}`} className="text-red-400 text-sm">{message}</p>
+                  ))}
+                </div>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -650,10 +529,18 @@ export function DataArchival() {
                       <DialogTitle className="text-white">Create Archival Rule</DialogTitle>
                     </DialogHeader>
                     <div className="space-y-4">
+                      {ruleFormError && (
+                        <Alert className="bg-red-500/10 border-red-500/30">
+                          <AlertCircle className="w-4 h-4 text-red-400" />
+                          <AlertDescription className="text-red-400">{ruleFormError}</AlertDescription>
+                        </Alert>
+                      )}
                       <div>
                         <Label className="text-slate-300">Rule Name</Label>
                         <Input
                           placeholder="My Archival Rule"
+                          value={ruleForm.name}
+                          onChange={(e) => setRuleForm(prev => ({ ...prev, name: e.target.value }))}
                           className="bg-slate-700 border-slate-600"
                         />
                       </div>
@@ -661,12 +548,20 @@ export function DataArchival() {
                         <Label className="text-slate-300">Description</Label>
                         <Textarea
                           placeholder="Describe what this rule does"
+                          value={ruleForm.description}
+                          onChange={(e) => setRuleForm(prev => ({ ...prev, description: e.target.value }))}
                           className="bg-slate-700 border-slate-600"
                         />
                       </div>
                       <div>
                         <Label className="text-slate-300">Entity Type</Label>
-                        <Select defaultValue="attendance">
+                        <Select
+                          value={ruleForm.entityType}
+                          onValueChange={(value) => {
+                            const entityType = value as RuleForm['entityType']
+                            setRuleForm(prev => ({ ...prev, entityType, field: RULE_FIELDS[entityType][0].value }))
+                          }}
+                        >
                           <SelectTrigger className="bg-slate-700 border-slate-600">
                             <SelectValue />
                           </SelectTrigger>
@@ -677,9 +572,53 @@ export function DataArchival() {
                           </SelectContent>
                         </Select>
                       </div>
+                      <div>
+                        <Label className="text-slate-300">Condition</Label>
+                        <div className="grid grid-cols-3 gap-2">
+                          <Select
+                            value={ruleForm.field}
+                            onValueChange={(value) => setRuleForm(prev => ({ ...prev, field: value }))}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {RULE_FIELDS[ruleForm.entityType].map(field => (
+                                <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={ruleForm.operator}
+                            onValueChange={(value) => setRuleForm(prev => ({ ...prev, operator: value as RuleForm['operator'] }))}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="older_than">older than</SelectItem>
+                              <SelectItem value="equals">equals</SelectItem>
+                              <SelectItem value="not_equals">not equals</SelectItem>
+                              <SelectItem value="greater_than">greater than</SelectItem>
+                              <SelectItem value="less_than">less than</SelectItem>
+                              <SelectItem value="contains">contains</SelectItem>
+                              <SelectItem value="in">in (comma separated)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            placeholder={ruleForm.operator === 'older_than' ? '365d, 12w, 6m, 1y' : 'Value'}
+                            value={ruleForm.value}
+                            onChange={(e) => setRuleForm(prev => ({ ...prev, value: e.target.value }))}
+                            className="bg-slate-700 border-slate-600"
+                          />
+                        </div>
+                      </div>
                       <div>
                         <Label className="text-slate-300">Action</Label>
-                        <Select defaultValue="archive">
+                        <Select
+                          value={ruleForm.action}
+                          onValueChange={(value) => setRuleForm(prev => ({ ...prev, action: value as RuleForm['action'] }))}
+                        >
                           <SelectTrigger className="bg-slate-700 border-slate-600">
                             <SelectValue />
                           </SelectTrigger>
@@ -690,6 +629,70 @@ export function DataArchival() {
                           </SelectContent>
                         </Select>
                       </div>
+                      {ruleForm.action === 'archive' && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <Label className="text-slate-300">Archive Folder</Label>
+                            <Input
+                              placeholder={ruleForm.entityType}
+                              value={ruleForm.location}
+                              onChange={(e) => setRuleForm(prev => ({ ...prev, location: e.target.value }))}
+                              className="bg-slate-700 border-slate-600"
+                            />
+                          </div>
+                          <div>
+                            <Label className="text-slate-300">Keep Archive For (days)</Label>
+                            <Input
+                              type="number"
+                              min={1}
+                              value={ruleForm.retentionDays}
+                              onChange={(e) => setRuleForm(prev => ({ ...prev, retentionDays: e.target.value }))}
+                              className="bg-slate-700 border-slate-600"
+                            />
+                          </div>
+                        </div>
+                      )}
+                      {ruleForm.action === 'flag' && (
+                        <div>
+                          <Label className="text-slate-300">Flag</Label>
+                          <Input
+                            value={ruleForm.flag}
+                            onChange={(e) => setRuleForm(prev => ({ ...prev, flag: e.target.value }))}
+                            className="bg-slate-700 border-slate-600"
+                          />
+                        </div>
+                      )}
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id="rule-schedule"
+                          checked={ruleForm.scheduleEnabled}
+                          onCheckedChange={(checked) => setRuleForm(prev => ({ ...prev, scheduleEnabled: checked === true }))}
+                        />
+                        <Label htmlFor="rule-schedule" className="text-slate-300">Run on a schedule</Label>
+                      </div>
+                      {ruleForm.scheduleEnabled && (
+                        <div className="grid grid-cols-2 gap-2">
+                          <Select
+                            value={ruleForm.frequency}
+                            onValueChange={(value) => setRuleForm(prev => ({ ...prev, frequency: value as RuleForm['frequency'] }))}
+                          >
+                            <SelectTrigger className="bg-slate-700 border-slate-600">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="daily">Daily</SelectItem>
+                              <SelectItem value="weekly">Weekly</SelectItem>
+                              <SelectItem value="monthly">Monthly</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="time"
+                            value={ruleForm.time}
+                            onChange={(e) => setRuleForm(prev => ({ ...prev, time: e.target.value }))}
+                            className="bg-slate-700 border-slate-600"
+                          />
+                        </div>
+                      )}
                       <div className="flex justify-end space-x-2">
                         <Button
                           variant="outline"
@@ -699,10 +702,11 @@ export function DataArchival() {
                           Cancel
                         </Button>
                         <Button
-                          onClick={() => setShowRuleDialog(false)}
+                          onClick={handleCreateRule}
+                          disabled={isSavingRule}
                           className="bg-emerald-600 hover:bg-emerald-700"
                         >
-                          Create Rule
+                          {isSavingRule ? 'Creating...' : 'Create Rule'}
                         </Button>
                       </div>
                     </div>
@@ -712,7 +716,9 @@ export function DataArchival() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {archivalRules.length === 0 ? (
+                {isLoading ? (
+                  <p className="text-slate-400 text-center py-8">Loading archival rules...</p>
+                ) : archivalRules.length === 0 ? (
                   <p className="text-slate-400 text-center py-8">
                     No archival rules configured.
                   </p>
@@ -743,7 +749,7 @@ export function DataArchival() {
                           <p className="text-slate-400">Conditions</p>
                           <p className="text-white font-medium">
                             {rule.conditions.map(condition => 
-                              `${condition.field} ${condition.operator} ${condition.value}`
+                              `${condition.field} ${condition.operator} ${formatConditionValue(condition.value)}`
                             ).join(', ')}
                           </p>
                         </div>
@@ -751,7 +757,7 @@ export function DataArchival() {
                           <p className="text-slate-400">Actions</p>
                           <p className="text-white font-medium">
                             {rule.actions.map(action => 
-                              `${action.type}${action.parameters ? ` (${action.parameters.location})` : ''}`
+                              `${action.type}${action.parameters?.location ? ` (${action.parameters.location})` : ''}`
                             ).join(', ')}
                           </p>
                         </div>
@@ -762,7 +768,7 @@ export function DataArchival() {
                           <p className="text-slate-400 text-sm">Schedule</p>
                           <p className="text-white font-medium text-sm">
                             {rule.schedule.frequency} at {rule.schedule.time}
-                            {rule.schedule.enabled && ` (Next run: ${formatDate(rule.schedule.nextRun)})`}
+                            {rule.schedule.enabled && rule.schedule.nextRun && ` (Next run: ${formatDate(rule.schedule.nextRun)})`}
                           </p>
                         </div>
                       )}
@@ -772,6 +778,7 @@ export function DataArchival() {
                           variant="outline"
                           size="sm"
                           onClick={() => handleRunArchivalRule(rule, true)}
+                          disabled={isRunning}
                           className="border-slate-600 text-slate-300 hover:bg-slate-700"
                         >
                           <Eye className="w-4 h-4 mr-1" />
@@ -781,11 +788,22 @@ export function DataArchival() {
                           variant="outline"
                           size="sm"
                           onClick={() => handleRunArchivalRule(rule)}
+                          disabled={isRunning || !rule.enabled}
                           className="border-emerald-600 text-emerald-400 hover:bg-emerald-600/20"
                         >
                           <Play className="w-4 h-4 mr-1" />
                           Run Now
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteRule('archival-rule', rule.id)}
+                          disabled={isRunning}
+                          className="border-red-600 text-red-400 hover:bg-red-600/20"
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Delete
+                        </Button>
                       </div>
                     </div>
                   ))
@@ -803,7 +821,9 @@ export function DataArchival() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {cleanupRules.length === 0 ? (
+                {isLoading ? (
+                  <p className="text-slate-400 text-center py-8">Loading cleanup rules...</p>
+                ) : cleanupRules.length === 0 ? (
                   <p className="text-slate-400 text-center py-8">
                     No cleanup rules configured.
                   </p>
@@ -840,7 +860,7 @@ export function DataArchival() {
                         <p className="text-slate-400 text-sm">Conditions</p>
                         <p className="text-white font-medium text-sm">
                           {rule.conditions.map(condition => 
-                            `${condition.field} ${condition.operator} ${condition.value}`
+                            `${condition.field} ${condition.operator} ${formatConditionValue(condition.value)}`
                           ).join(', ')}
                         </p>
                       </div>
@@ -850,16 +870,29 @@ export function DataArchival() {
                           <p className="text-slate-400 text-sm">Schedule</p>
                           <p className="text-white font-medium text-sm">
                             {rule.schedule.frequency} at {rule.schedule.time}
-                            {rule.schedule.enabled && ` (Next run: ${formatDate(rule.schedule.nextRun)})`}
+                            {rule.schedule.enabled && rule.schedule.nextRun && ` (Next run: ${formatDate(rule.schedule.nextRun)})`}
                           </p>
                         </div>
                       )}
                       
                       <div className="flex justify-end gap-2">
+                        {!rule.dryRun && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRunCleanupRule(rule, true)}
+                            disabled={isRunning}
+                            className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                          >
+                            <Eye className="w-4 h-4 mr-1" />
+                            Dry Run
+                          </Button>
+                        )}
                         <Button
                           variant="outline"
                           size="sm"
                           onClick={() => handleRunCleanupRule(rule)}
+                          disabled={isRunning || !rule.enabled}
                           className={rule.dryRun
                             ? "border-slate-600 text-slate-300 hover:bg-slate-700"
                             : "border-red-600 text-red-400 hover:bg-red-600/20"
@@ -868,6 +901,16 @@ export function DataArchival() {
                           <Play className="w-4 h-4 mr-1" />
                           {rule.dryRun ? 'Run Dry' : 'Run Now'}
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeleteRule('cleanup-rule', rule.id)}
+                          disabled={isRunning}
+                          className="border-red-600 text-red-400 hover:bg-red-600/20"
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Delete
+                        </Button>
                       </div>
                     </div>
                   ))
@@ -881,7 +924,7 @@ export function DataArchival() {
         <TabsContent value="archived-records" className="space-y-6">
           <Card className="bg-slate-800/50 border-slate-700">
             <CardHeader>
-              <CardTitle className="text-white">Archived Records</CardTitle>
+              <CardTitle className="text-white">Archived Records ({archivedTotal})</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="flex items-center gap-4 mb-4">
@@ -995,7 +1038,9 @@ export function DataArchival() {
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {retentionPolicies.length === 0 ? (
+                {isLoading ? (
+                  <p className="text-slate-400 text-center py-8">Loading retention policies...</p>
+                ) : retentionPolicies.length === 0 ? (
                   <p className="text-slate-400 text-center py-8">
                     No retention policies configured.
                   </p>
@@ -1042,7 +1087,7 @@ export function DataArchival() {
                         <p className="text-slate-400 text-sm">Conditions</p>
                         <p className="text-white font-medium text-sm">
                           {policy.conditions.map(condition => 
-                            `${condition.field} ${condition.operator} ${condition.value}`
+                            `${condition.field} ${condition.operator} ${formatConditionValue(condition.value)}`
                           ).join(', ')}
                         </p>
                       </div>
@@ -1051,10 +1096,11 @@ export function DataArchival() {
                         <Button
                           variant="outline"
                           size="sm"
+                          onClick={() => handleToggleRetentionPolicy(policy)}
                           className="border-slate-600 text-slate-300 hover:bg-slate-700"
                         >
                           <Settings className="w-4 h-4 mr-1" />
-                          Edit
+                          {policy.enabled ? 'Disable' : 'Enable'}
                         </Button>
                       </div>
                     </div>
@@ -1099,10 +1145,14 @@ export function DataArchival() {
                   <p className="text-slate-400">Size</p>
                   <p className="text-white font-medium">{formatFileSize(selectedRecord.size)}</p>
                 </div>
+                <div className="col-span-2">
+                  <p className="text-slate-400">Checksum (SHA-256)</p>
+                  <p className="text-white font-mono text-xs break-all">{selectedRecord.checksum}</p>
+                </div>
               </div>
               
               <div>
-                <p className="text-slate-400 mb-2">Data</p>
+                <p className="text-slate-400 mb-2">Summary</p>
                 <div className="p-3 bg-slate-700/50 rounded">
                   <pre className="text-slate-300 text-sm overflow-x-auto">
                     {JSON.stringify(selectedRecord.data, null, 2)}
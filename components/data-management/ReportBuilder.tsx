@@ -22,8 +22,24 @@ import {
   ReportFilter, 
   ReportSort, 
   ReportAggregation,
-  ChartType 
+  ChartType,
+  ChartData
 } from "@/lib/report-builder"
+import {
+  ResponsiveContainer,
+  BarChart as RechartsBarChart,
+  LineChart as RechartsLineChart,
+  PieChart as RechartsPieChart,
+  Bar,
+  Line,
+  Pie,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend
+} from "recharts"
 import {
   BarChart,
   BarChart3,
@@ -376,6 +392,10 @@ export function ReportBuilderComponent() {
       const newBuilder = new ReportBuilder({
         ...config,
         id: undefined,
+        version: undefined,
+        ownerId: undefined,
+        isPublic: false,
+        sharedWith: [],
         name: `${config.name} (Copy)`,
         createdAt: undefined,
         updatedAt: undefined
@@ -857,8 +877,8 @@ export function ReportBuilderComponent() {
                     <div className="mb-6">
                       <h3 className="text-white font-medium mb-3">Chart</h3>
                       <div className="p-4 bg-slate-700/30 rounded">
-                        <div className="h-64 flex items-center justify-center text-slate-400">
-                          Chart visualization would be displayed here
+                        <div className="h-64">
+                          <ReportChart chartType={chartType} chartData={reportData.chartData} />
                         </div>
                       </div>
                     </div>
@@ -1021,4 +1041,85 @@ export function ReportBuilderComponent() {
       </Dialog>
     </div>
   )
-}
\ No newline at end of file
+}
+const PREVIEW_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4']
+
+function colorOf(color: string | string[] | undefined, index: number): string {
+  if (Array.isArray(color)) return color[index % color.length]
+  return color || PREVIEW_COLORS[index % PREVIEW_COLORS.length]
+}
+
+// Preview of the chart embedded in exports; radar, polar area and scatter
+// charts are previewed as bars, as they are in the PDF
+function ReportChart({ chartType, chartData }: { chartType: ChartType; chartData: ChartData }) {
+  const rows = chartData.labels.map((label, i) => {
+    const row: Record<string, string | number> = { label }
+    chartData.datasets.forEach(dataset => {
+      row[dataset.label] = dataset.data[i]
+    })
+    return row
+  })
+
+  if (chartType === 'pie' || chartType === 'doughnut') {
+    const dataset = chartData.datasets[0]
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <RechartsPieChart>
+          <Pie
+            data={rows}
+            dataKey={dataset.label}
+            nameKey="label"
+            innerRadius={chartType === 'doughnut' ? '55%' : 0}
+          >
+            {rows.map((_, i) => (
+              <Cell key={i} fill={colorOf(dataset.backgroundColor, i)} />
+            ))}
+          </Pie>
+          <Tooltip />
+          <Legend />
+        </RechartsPieChart>
+      </ResponsiveContainer>
+    )
+  }
+
+  if (chartType === 'line') {
+    return (
+      <ResponsiveContainer width="100%" height="100%">
+        <RechartsLineChart data={rows}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+          <XAxis dataKey="label" stroke="#94a3b8" />
+          <YAxis stroke="#94a3b8" />
+          <Tooltip />
+          <Legend />
+          {chartData.datasets.map((dataset, d) => (
+            <Line
+              key={dataset.label}
+              type="monotone"
+              dataKey={dataset.label}
+              stroke={colorOf(dataset.borderColor || dataset.backgroundColor, d)}
+            />
+          ))}
+        </RechartsLineChart>
+      </ResponsiveContainer>
+    )
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <RechartsBarChart data={rows}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+        <XAxis dataKey="label" stroke="#94a3b8" />
+        <YAxis stroke="#94a3b8" />
+        <Tooltip />
+        <Legend />
+        {chartData.datasets.map((dataset, d) => (
+          <Bar key={dataset.label} dataKey={dataset.label} fill={colorOf(dataset.backgroundColor, d)}>
+            {chartData.datasets.length === 1 && rows.map((_, i) => (
+              <Cell key={i} fill={colorOf(dataset.backgroundColor, i)} />
+            ))}
+          </Bar>
+        ))}
+      </RechartsBarChart>
+    </ResponsiveContainer>
+  )
+}
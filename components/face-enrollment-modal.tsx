@@ -6,6 +6,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Button } from '@/components/ui/button'
 import { Camera, X, Check } from 'lucide-react'
 import { ApiClient } from '@/lib/api-client'
+import { describeEnrollmentCapture } from '@/lib/face-quality-checker'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 interface FaceEnrollmentModalProps {
@@ -195,7 +196,15 @@ export function FaceEnrollmentModal({
           metadata: {
             enrolledAt: new Date().toISOString(),
             method: 'webcam',
-            detectionConfidence: confidence
+            detectionConfidence: confidence,
+            capture: describeEnrollmentCapture({
+              score: confidence,
+              box: detection.detection.box,
+              frameWidth: videoRef.current.videoWidth,
+              frameHeight: videoRef.current.videoHeight,
+              landmarks: detection.landmarks,
+              source: videoRef.current
+            })
           }
         })
       })
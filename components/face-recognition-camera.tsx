@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge"
 import { faceAPI, FaceQualityMetrics } from "@/lib/face-api"
 import { faceRecognition, FaceMatch, FaceDetection } from "@/lib/face-recognition"
 import { faceStorage } from "@/lib/face-storage"
+import { describeEnrollmentCapture } from "@/lib/face-quality-checker"
 import { FaceEmbedding } from "@/lib/face-recognition"
 import { MemoryOptimizer, CPUOptimizer } from "@/lib/hardware-optimization"
 
@@ -305,6 +306,13 @@ export function FaceRecognitionCamera({
             quality: quality.overall,
             lighting: quality.lighting,
             pose: quality.pose,
+            capture: describeEnrollmentCapture({
+              score: face.confidence,
+              box: face.boundingBox,
+              frameWidth: canvas.width,
+              frameHeight: canvas.height,
+              source: canvas,
+            }),
           },
         }
 
@@ -0,0 +1,228 @@
+/**
+ * Manual Check-in Dialog
+ * Fallback when face recognition fails at the kiosk: the employee identifies
+ * with an employee ID or attendance PIN, the kiosk takes a photo as evidence
+ * and a supervisor can co-sign on the spot. Without a supervisor the check-in
+ * waits in the review queue.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Camera, UserCheck } from 'lucide-react';
+
+type ManualCheckinType = 'check-in' | 'break-start' | 'break-end' | 'check-out';
+
+export interface ManualCheckinSubmission {
+  type: ManualCheckinType;
+  employeeId?: string;
+  pin?: string;
+  photo: string;
+  supervisor?: { employeeId: string; pin: string };
+}
+
+interface ManualCheckinDialogProps {
+  open: boolean;
+  submitting?: boolean;
+  error?: string | null;
+  // Returns a JPEG data URL of the current camera frame. Keep it stable
+  // (useCallback): a new function retakes the evidence photo.
+  capturePhoto: () => string | null;
+  onSubmit: (submission: ManualCheckinSubmission) => void;
+  onCancel: () => void;
+}
+
+const TYPE_OPTIONS: Array<{ value: ManualCheckinType; label: string }> = [
+  { value: 'check-in', label: 'Masuk' },
+  { value: 'break-start', label: 'Mulai Istirahat' },
+  { value: 'break-end', label: 'Selesai Istirahat' },
+  { value: 'check-out', label: 'Pulang' }
+];
+
+export const ManualCheckinDialog: React.FC<ManualCheckinDialogProps> = ({
+  open,
+  submitting = false,
+  error,
+  capturePhoto,
+  onSubmit,
+  onCancel
+}) => {
+  const [mode, setMode] = useState<'employeeId' | 'pin'>('employeeId');
+  const [value, setValue] = useState('');
+  const [type, setType] = useState<ManualCheckinType>('check-in');
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [supervisorId, setSupervisorId] = useState('');
+  const [supervisorPin, setSupervisorPin] = useState('');
+
+  // Take the evidence photo as soon as the dialog opens
+  useEffect(() => {
+    if (open) setPhoto(capturePhoto());
+  }, [open, capturePhoto]);
+
+  const reset = () => {
+    setValue('');
+    setPhoto(null);
+    setSupervisorId('');
+    setSupervisorPin('');
+  };
+
+  const supervisorStarted = !!(supervisorId.trim() || supervisorPin.trim());
+  const supervisorComplete = !!(supervisorId.trim() && supervisorPin.trim());
+
+  const handleSubmit = () => {
+    const trimmed = value.trim();
+    if (!trimmed || !photo) return;
+    if (supervisorStarted && !supervisorComplete) return;
+
+    onSubmit({
+      type,
+      ...(mode === 'pin' ? { pin: trimmed } : { employeeId: trimmed }),
+      photo,
+      supervisor: supervisorComplete
+        ? { employeeId: supervisorId.trim(), pin: supervisorPin.trim() }
+        : undefined
+    });
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      reset();
+      onCancel();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700 max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <UserCheck className="h-5 w-5 text-amber-400" />
+            Absensi Manual
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Wajah tidak dikenali. Masukkan ID karyawan atau PIN absensi. Absensi manual
+            harus disetujui supervisor dan tidak tercatat sebagai terverifikasi.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label className="text-white">Foto bukti</Label>
+            <div className="flex items-center gap-3">
+              {photo ? (
+                <img
+                  src={photo}
+                  alt="Foto bukti"
+                  className="h-24 w-32 rounded-md object-cover transform scale-x-[-1]"
+                />
+              ) : (
+                <div className="h-24 w-32 rounded-md bg-slate-900 flex items-center justify-center">
+                  <Camera className="h-6 w-6 text-slate-600" />
+                </div>
+              )}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setPhoto(capturePhoto())}
+                className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+              >
+                <Camera className="h-4 w-4 mr-2" />
+                Ambil Ulang
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-white">Jenis absensi</Label>
+            <Select value={type} onValueChange={(v) => setType(v as ManualCheckinType)}>
+              <SelectTrigger className="bg-slate-700 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TYPE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Tabs value={mode} onValueChange={(v) => { setMode(v as 'pin' | 'employeeId'); setValue(''); }}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="employeeId">ID Karyawan</TabsTrigger>
+              <TabsTrigger value="pin">PIN</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="space-y-2">
+            <Label htmlFor="manual-identity" className="text-white">
+              {mode === 'pin' ? 'PIN Absensi' : 'ID Karyawan'}
+            </Label>
+            <Input
+              id="manual-identity"
+              type={mode === 'pin' ? 'password' : 'text'}
+              inputMode={mode === 'pin' ? 'numeric' : 'text'}
+              autoComplete="off"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+
+          <div className="space-y-2 rounded-lg border border-slate-700 p-3">
+            <p className="text-sm font-medium text-white">Persetujuan supervisor (opsional)</p>
+            <p className="text-xs text-slate-400">
+              Jika dikosongkan, absensi menunggu persetujuan di antrean review.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                placeholder="ID supervisor"
+                autoComplete="off"
+                value={supervisorId}
+                onChange={(e) => setSupervisorId(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+              <Input
+                placeholder="PIN supervisor"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={supervisorPin}
+                onChange={(e) => setSupervisorPin(e.target.value)}
+                className="bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-rose-300">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+          >
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !value.trim() || !photo || (supervisorStarted && !supervisorComplete)}
+            className="bg-amber-600 hover:bg-amber-700"
+          >
+            {submitting ? 'Mengirim...' : 'Kirim'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManualCheckinDialog;
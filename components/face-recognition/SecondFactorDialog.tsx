@@ -0,0 +1,110 @@
+/**
+ * Second Factor Dialog
+ * Shown when a face matches more than one employee; asks for an attendance
+ * PIN or employee ID to confirm who is checking in
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { ShieldCheck } from 'lucide-react';
+import type { FaceSecondFactor } from '@/lib/api-client';
+
+interface SecondFactorDialogProps {
+  open: boolean;
+  submitting?: boolean;
+  error?: string | null;
+  onSubmit: (factor: FaceSecondFactor) => void;
+  onCancel: () => void;
+}
+
+export const SecondFactorDialog: React.FC<SecondFactorDialogProps> = ({
+  open,
+  submitting = false,
+  error,
+  onSubmit,
+  onCancel
+}) => {
+  const [mode, setMode] = useState<'pin' | 'employeeId'>('pin');
+  const [value, setValue] = useState('');
+
+  const handleSubmit = () => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    onSubmit(mode === 'pin' ? { pin: trimmed } : { employeeId: trimmed });
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setValue('');
+      onCancel();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-blue-400" />
+            Konfirmasi Identitas
+          </DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Wajah Anda mirip dengan karyawan lain. Masukkan PIN absensi atau ID karyawan untuk melanjutkan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <Tabs value={mode} onValueChange={(v) => { setMode(v as 'pin' | 'employeeId'); setValue(''); }}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="pin">PIN</TabsTrigger>
+              <TabsTrigger value="employeeId">ID Karyawan</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <div className="space-y-2">
+            <Label htmlFor="second-factor" className="text-white">
+              {mode === 'pin' ? 'PIN Absensi' : 'ID Karyawan'}
+            </Label>
+            <Input
+              id="second-factor"
+              type={mode === 'pin' ? 'password' : 'text'}
+              inputMode={mode === 'pin' ? 'numeric' : 'text'}
+              autoComplete="off"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSubmit(); }}
+              className="bg-slate-700 border-slate-600 text-white"
+            />
+          </div>
+
+          {error && <p className="text-sm text-rose-300">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleOpenChange(false)}
+            className="bg-slate-700 border-slate-600 text-white hover:bg-slate-600"
+          >
+            Batal
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !value.trim()}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            {submitting ? 'Memverifikasi...' : 'Konfirmasi'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SecondFactorDialog;
@@ -0,0 +1,259 @@
+"use client"
+
+import { useCallback, useRef, useState } from "react"
+import * as faceapi from "face-api.js"
+import { ApiClient } from "@/lib/api-client"
+import {
+  LivenessDetector,
+  LIVENESS_STEPS,
+  LIVENESS_STEP_PROMPTS,
+  LIVENESS_THRESHOLDS,
+  computeTextureScore,
+  evaluateLivenessEvidence,
+  type LivenessChallengeStep,
+  type LivenessFrame,
+} from "@/lib/liveness"
+import { logFRLiveness } from "@/lib/face-recognition-logger"
+
+export type LivenessStatus = "idle" | "running" | "verifying" | "passed" | "failed"
+
+export interface LivenessResult {
+  livenessToken: string
+  descriptor: number[]
+}
+
+// Evidence from a challenge run without the server, for offline kiosks
+export interface OfflineLivenessResult {
+  descriptor: number[]
+  liveness: {
+    steps: LivenessChallengeStep[]
+    frames: LivenessFrame[]
+    passed: boolean
+    reason?: string
+  }
+}
+
+const FRAME_INTERVAL_MS = 150
+// Extra frames after the last step so passive checks see the face settle
+const TRAILING_FRAMES = 4
+const TEXTURE_CROP_SIZE = 64
+const OFFLINE_CHALLENGE_STEPS = 2
+
+/**
+ * Load the expression model used for the smile challenge. Optional: without
+ * it the smile step falls back to mouth-width landmarks.
+ */
+export async function loadLivenessModels(uri: string = "/models"): Promise<boolean> {
+  try {
+    if (!faceapi.nets.faceExpressionNet.isLoaded) {
+      await faceapi.nets.faceExpressionNet.loadFromUri(uri)
+    }
+    return true
+  } catch {
+    return false
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Random challenge for offline use, following the same rule as the server:
+ * never both head turns, so one movement cannot satisfy two steps.
+ */
+function generateOfflineSteps(): LivenessChallengeStep[] {
+  const pool = [...LIVENESS_STEPS]
+  const steps: LivenessChallengeStep[] = []
+  while (steps.length < OFFLINE_CHALLENGE_STEPS && pool.length > 0) {
+    const step = pool.splice(Math.floor(Math.random() * pool.length), 1)[0]
+    if ((step === "turn_left" && steps.includes("turn_right")) || (step === "turn_right" && steps.includes("turn_left"))) {
+      continue
+    }
+    steps.push(step)
+  }
+  return steps
+}
+
+/**
+ * Runs a server-issued liveness challenge against a live video element and
+ * exchanges the recorded frames for a short-lived liveness token.
+ */
+export function useLiveness() {
+  const [status, setStatus] = useState<LivenessStatus>("idle")
+  const [prompt, setPrompt] = useState<string | null>(null)
+  const [progress, setProgress] = useState({ completed: 0, total: 0 })
+  const [error, setError] = useState<string | null>(null)
+  const cancelledRef = useRef(false)
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+
+  const measureTexture = useCallback((video: HTMLVideoElement, box: faceapi.Box): number | undefined => {
+    if (typeof document === "undefined") return undefined
+    if (!canvasRef.current) {
+      canvasRef.current = document.createElement("canvas")
+      canvasRef.current.width = TEXTURE_CROP_SIZE
+      canvasRef.current.height = TEXTURE_CROP_SIZE
+    }
+    const ctx = canvasRef.current.getContext("2d", { willReadFrequently: true })
+    if (!ctx) return undefined
+
+    ctx.drawImage(video, box.x, box.y, box.width, box.height, 0, 0, TEXTURE_CROP_SIZE, TEXTURE_CROP_SIZE)
+    const { data } = ctx.getImageData(0, 0, TEXTURE_CROP_SIZE, TEXTURE_CROP_SIZE)
+    return Math.round(computeTextureScore(data, TEXTURE_CROP_SIZE, TEXTURE_CROP_SIZE) * 10) / 10
+  }, [])
+
+  const captureFrame = useCallback(
+    async (video: HTMLVideoElement, startedAt: number, withExpressions: boolean): Promise<LivenessFrame | null> => {
+      const base = faceapi.detectSingleFace(video, new faceapi.TinyFaceDetectorOptions()).withFaceLandmarks()
+      const detection = withExpressions ? await base.withFaceExpressions() : await base
+      if (!detection) return null
+
+      return {
+        t: Date.now() - startedAt,
+        landmarks: detection.landmarks.positions.map(p => [
+          Math.round(p.x * 10) / 10,
+          Math.round(p.y * 10) / 10,
+        ]),
+        happy: "expressions" in detection ? (detection as any).expressions.happy : undefined,
+        texture: measureTexture(video, detection.detection.box),
+      }
+    },
+    [measureTexture]
+  )
+
+  // Prompt through the steps until the detector sees them all, then take a
+  // descriptor from the settled face
+  const recordChallenge = useCallback(
+    async (
+      video: HTMLVideoElement,
+      steps: LivenessChallengeStep[],
+      withExpressions: boolean,
+      challengeId: string
+    ): Promise<{ frames: LivenessFrame[]; descriptor: number[] }> => {
+      const startedAt = Date.now()
+      const detector = new LivenessDetector(steps)
+
+      setProgress({ completed: 0, total: steps.length })
+      setPrompt(LIVENESS_STEP_PROMPTS[steps[0]])
+
+      let trailing = 0
+      while (trailing < TRAILING_FRAMES) {
+        if (cancelledRef.current) throw new Error("Liveness check cancelled")
+        if (Date.now() - startedAt > LIVENESS_THRESHOLDS.maxDurationMs - 1000) {
+          logFRLiveness.failed("challenge_timeout", { challengeId, steps })
+          throw new Error("Waktu verifikasi habis. Silakan coba lagi.")
+        }
+        if (detector.getFrames().length >= LIVENESS_THRESHOLDS.maxFrames) {
+          logFRLiveness.failed("challenge_incomplete", { challengeId, steps })
+          throw new Error("Instruksi tidak terdeteksi. Silakan coba lagi.")
+        }
+
+        const frame = await captureFrame(video, startedAt, withExpressions)
+        if (frame) {
+          const state = detector.addFrame(frame)
+          setProgress({ completed: state.completedSteps.length, total: steps.length })
+          setPrompt(state.currentStep ? LIVENESS_STEP_PROMPTS[state.currentStep] : "Tahan posisi wajah Anda")
+          if (state.completed) trailing++
+        }
+        await sleep(FRAME_INTERVAL_MS)
+      }
+
+      setStatus("verifying")
+      setPrompt(null)
+
+      const final = await faceapi
+        .detectSingleFace(video, new faceapi.TinyFaceDetectorOptions())
+        .withFaceLandmarks()
+        .withFaceDescriptor()
+      if (!final) {
+        logFRLiveness.failed("no_face_after_challenge", { challengeId })
+        throw new Error("Wajah tidak terdeteksi. Silakan coba lagi.")
+      }
+
+      return { frames: detector.getFrames(), descriptor: Array.from(final.descriptor) }
+    },
+    [captureFrame]
+  )
+
+  const runLivenessCheck = useCallback(
+    async (video: HTMLVideoElement): Promise<LivenessResult> => {
+      cancelledRef.current = false
+      setError(null)
+      setStatus("running")
+
+      try {
+        const withExpressions = await loadLivenessModels()
+        const { data: challenge } = await ApiClient.getLivenessChallenge()
+        const { frames, descriptor } = await recordChallenge(
+          video,
+          challenge.steps,
+          withExpressions,
+          challenge.challengeId
+        )
+
+        const response = await ApiClient.verifyLiveness({
+          challengeToken: challenge.challengeToken,
+          descriptor,
+          frames,
+        })
+
+        setStatus("passed")
+        return { livenessToken: response.data.livenessToken, descriptor }
+      } catch (err: any) {
+        const message = err?.message || "Liveness check failed"
+        setStatus("failed")
+        setPrompt(null)
+        setError(message)
+        throw err
+      }
+    },
+    [recordChallenge]
+  )
+
+  /**
+   * Run a locally generated challenge and evaluate it on the device. The
+   * frames travel with the offline event so the server can re-check them.
+   */
+  const runOfflineLivenessCheck = useCallback(
+    async (video: HTMLVideoElement): Promise<OfflineLivenessResult> => {
+      cancelledRef.current = false
+      setError(null)
+      setStatus("running")
+
+      try {
+        const withExpressions = await loadLivenessModels()
+        const steps = generateOfflineSteps()
+        const { frames, descriptor } = await recordChallenge(video, steps, withExpressions, "offline")
+
+        const evaluation = evaluateLivenessEvidence(steps, frames)
+        if (!evaluation.passed) {
+          logFRLiveness.failed(evaluation.reason || "offline_liveness_failed", { steps })
+          throw new Error("Verifikasi keaktifan wajah gagal. Silakan coba lagi.")
+        }
+
+        setStatus("passed")
+        return { descriptor, liveness: { steps, frames, passed: true } }
+      } catch (err: any) {
+        const message = err?.message || "Liveness check failed"
+        setStatus("failed")
+        setPrompt(null)
+        setError(message)
+        throw err
+      }
+    },
+    [recordChallenge]
+  )
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true
+  }, [])
+
+  const reset = useCallback(() => {
+    setStatus("idle")
+    setPrompt(null)
+    setProgress({ completed: 0, total: 0 })
+    setError(null)
+  }, [])
+
+  return { status, prompt, progress, error, runLivenessCheck, runOfflineLivenessCheck, cancel, reset }
+}
@@ -173,8 +173,8 @@ export function useSync(options: UseSyncOptions = {}): UseSyncReturn {
   const handleConflictsCleared = useCallback(() => {
     if (!isMountedRef.current) return
     
-    setConflicts([])
-  }, [])
+    updateConflicts()
+  }, [updateConflicts])
   
   // Handle online status change
   const handleOnlineStatusChange = useCallback(() => {
@@ -203,8 +203,17 @@ export function useSync(options: UseSyncOptions = {}): UseSyncReturn {
   
   // Resolve conflict function
   const resolveConflict = useCallback(async (conflictId: string, resolution: 'local' | 'remote' | 'merge'): Promise<void> => {
-    await syncManager.resolveConflict(conflictId, resolution)
-  }, [])
+    try {
+      await syncManager.resolveConflict(conflictId, resolution)
+    } catch (error) {
+      logger.error('Error resolving sync conflict', error as Error, { conflictId, resolution })
+      updateConflicts()
+      if (mergedOptions.showNotifications) {
+        toast.error('Failed to resolve sync conflict')
+      }
+      throw error
+    }
+  }, [mergedOptions.showNotifications, updateConflicts])
   
   // Clear conflicts function
   const clearConflicts = useCallback((): void => {
@@ -475,8 +484,13 @@ export function useSyncConflicts(): {
   }, [])
   
   const resolveConflict = useCallback(async (conflictId: string, resolution: 'local' | 'remote' | 'merge'): Promise<void> => {
-    await syncManager.resolveConflict(conflictId, resolution)
-  }, [])
+    try {
+      await syncManager.resolveConflict(conflictId, resolution)
+    } finally {
+      // A failed resolution may have been settled elsewhere meanwhile
+      refresh()
+    }
+  }, [refresh])
   
   const clearConflicts = useCallback((): void => {
     syncManager.clearConflicts()
@@ -496,7 +510,7 @@ export function useSyncConflicts(): {
     }
     
     const handleConflictsCleared = () => {
-      setConflicts([])
+      refresh()
     }
     
     syncManager.on('conflict', handleConflict)
@@ -0,0 +1,14 @@
+const nextJest = require('next/jest')
+
+const createJestConfig = nextJest({ dir: './' })
+
+/** @type {import('jest').Config} */
+module.exports = createJestConfig({
+  testEnvironment: 'node',
+  // In-memory IndexedDB for lib/db.ts and lib/transaction-batcher.ts
+  setupFiles: ['fake-indexeddb/auto'],
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+  testMatch: ['**/__tests__/**/*.test.ts'],
+})
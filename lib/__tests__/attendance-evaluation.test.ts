@@ -0,0 +1,117 @@
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerShift } from '@/lib/server-db'
+import { attendanceEvaluation, buildShiftWindow, evaluateAgainstShift } from '@/lib/attendance-evaluation'
+import type { EffectiveShift } from '@/lib/attendance-evaluation'
+
+jest.mock('@/lib/server-db', () => ({
+  serverDbManager: {
+    getScheduleAssignments: jest.fn(),
+    getUserDefaultShiftId: jest.fn(),
+    getShift: jest.fn(),
+    getShiftByCode: jest.fn(),
+    getSettings: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/leave', () => ({
+  leaveService: { isOnApprovedLeave: jest.fn(async () => false) },
+}))
+
+jest.mock('@/lib/holiday-calendar', () => ({
+  holidayCalendar: {
+    getHolidayForUser: jest.fn(async () => null),
+    getCompanyHoliday: jest.fn(async () => null),
+  },
+}))
+
+const db = jest.mocked(serverDbManager)
+
+// 22:00-06:00 WIB, Monday to Friday
+const nightShift: ServerShift = {
+  id: 'night',
+  name: 'Night',
+  code: 'NIGHT',
+  startTime: '22:00',
+  endTime: '06:00',
+  isOvernight: true,
+  expectedWorkHours: 8,
+  lateThresholdMinutes: 15,
+  earlyLeaveThresholdMinutes: 15,
+  clockInGraceMinutes: 5,
+  clockOutGraceMinutes: 5,
+  overtimeAfterHours: 8,
+  overtimeRateWeekday: 1.5,
+  overtimeRateWeekend: 2,
+  overtimeRateHoliday: 3,
+  allowsWfh: false,
+  requiresLocation: true,
+  requiresPhoto: false,
+  activeDays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+function mondayNight(): EffectiveShift {
+  return {
+    shift: nightShift,
+    source: 'default',
+    shiftDate: '2026-01-05',
+    isWorkingDay: true,
+    ...buildShiftWindow(nightShift, '2026-01-05'),
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  attendanceEvaluation.invalidateCache()
+  db.getScheduleAssignments.mockResolvedValue([])
+  db.getUserDefaultShiftId.mockResolvedValue('night')
+  db.getShift.mockResolvedValue(nightShift)
+})
+
+describe('buildShiftWindow', () => {
+  it('ends an overnight shift on the next office-local day', () => {
+    const window = buildShiftWindow(nightShift, '2026-01-05')
+
+    expect(window.start.toISOString()).toBe('2026-01-05T15:00:00.000Z')
+    expect(window.end.toISOString()).toBe('2026-01-05T23:00:00.000Z')
+  })
+})
+
+describe('evaluateAgainstShift', () => {
+  it('counts late minutes past the grace period of an overnight start', () => {
+    // 22:20 WIB
+    const evaluation = evaluateAgainstShift(mondayNight(), new Date('2026-01-05T15:20:00.000Z'), 'check-in')
+
+    expect(evaluation).toMatchObject({ status: 'late', lateMinutes: 15 })
+  })
+
+  it('measures an early leave against the end on the next day', () => {
+    // 05:30 WIB on Tuesday
+    const evaluation = evaluateAgainstShift(mondayNight(), new Date('2026-01-05T22:30:00.000Z'), 'check-out')
+
+    expect(evaluation).toMatchObject({ status: 'early_leave', minutesToShiftEnd: 30, earlyLeaveMinutes: 25 })
+  })
+})
+
+describe('AttendanceEvaluationService.resolveEffectiveShift', () => {
+  it("puts an early-morning check-out on last night's shift", async () => {
+    const shift = await attendanceEvaluation.resolveEffectiveShift('employee', new Date('2026-01-05T23:10:00.000Z'), 'check-out')
+
+    expect(shift).toMatchObject({ shiftDate: '2026-01-05', source: 'default', isWorkingDay: true })
+  })
+
+  it("puts an evening check-in on that night's shift", async () => {
+    const shift = await attendanceEvaluation.resolveEffectiveShift('employee', new Date('2026-01-06T14:55:00.000Z'), 'check-in')
+
+    expect(shift.shiftDate).toBe('2026-01-06')
+  })
+
+  it('treats a night starting on a rest day as off', async () => {
+    // Saturday 22:05 WIB
+    const shift = await attendanceEvaluation.resolveEffectiveShift('employee', new Date('2026-01-10T15:05:00.000Z'), 'check-in')
+
+    expect(shift).toMatchObject({ shiftDate: '2026-01-10', isWorkingDay: false })
+  })
+})
@@ -0,0 +1,40 @@
+import { storageManager, DB_STORES } from '@/lib/db'
+
+describe('StorageManager transactions', () => {
+  beforeEach(async () => {
+    const db = await storageManager.getDB()
+    await db.clear(DB_STORES.SHIFTS)
+    await db.clear(DB_STORES.SYNC_CURSORS)
+  })
+
+  it('applies a page of changes and its cursor in one commit', async () => {
+    await storageManager.applySyncChanges('shifts', DB_STORES.SHIFTS, [
+      { operation: 'upsert', id: 's1', record: { id: 's1', name: 'Morning' } },
+      { operation: 'upsert', id: 's2', record: { id: 's2', name: 'Night' } },
+    ], '10')
+
+    await storageManager.applySyncChanges('shifts', DB_STORES.SHIFTS, [
+      { operation: 'delete', id: 's1' },
+    ], '11')
+
+    const db = await storageManager.getDB()
+    expect(await db.getAll(DB_STORES.SHIFTS)).toEqual([{ id: 's2', name: 'Night' }])
+    expect(await storageManager.getSyncCursor('shifts')).toBe('11')
+  })
+
+  it('rolls back every store when a multi-store transaction fails', async () => {
+    await storageManager.applySyncChanges('shifts', DB_STORES.SHIFTS, [
+      { operation: 'upsert', id: 's1', record: { id: 's1', name: 'Morning' } },
+    ], '10')
+
+    // A record without its key path fails half way through the page
+    await expect(storageManager.applySyncChanges('shifts', DB_STORES.SHIFTS, [
+      { operation: 'upsert', id: 's2', record: { id: 's2', name: 'Night' } },
+      { operation: 'upsert', id: 's3', record: { name: 'Missing id' } },
+    ], '12')).rejects.toMatchObject({ name: 'DataError' })
+
+    const db = await storageManager.getDB()
+    expect(await db.getAllKeys(DB_STORES.SHIFTS)).toEqual(['s1'])
+    expect(await storageManager.getSyncCursor('shifts')).toBe('10')
+  })
+})
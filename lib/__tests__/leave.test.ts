@@ -0,0 +1,188 @@
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerLeaveType, ServerLeaveBalance, ServerLeaveRequest } from '@/lib/server-db'
+import { leaveService, countLeaveDays, calculateAccrual, getAvailableDays } from '@/lib/leave'
+
+jest.mock('@/lib/server-db', () => ({
+  serverDbManager: {
+    getUser: jest.fn(),
+    getLeaveType: jest.fn(),
+    getLeaveBalances: jest.fn(),
+    saveLeaveBalance: jest.fn(),
+    updateLeaveBalanceAccrual: jest.fn(),
+    adjustLeaveBalance: jest.fn(),
+    getLeaveRequest: jest.fn(),
+    saveLeaveRequest: jest.fn(),
+    submitLeaveRequest: jest.fn(),
+    getUserDefaultShiftId: jest.fn(),
+    getShift: jest.fn(),
+    createNotification: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/holiday-calendar', () => ({
+  holidayCalendar: { getHolidayDates: jest.fn(async () => []) },
+}))
+
+const db = jest.mocked(serverDbManager)
+
+const annualLeave: ServerLeaveType = {
+  id: 'annual',
+  code: 'ANNUAL',
+  name: 'Annual Leave',
+  isPaid: true,
+  deductsBalance: true,
+  annualEntitlementDays: 12,
+  accrualMethod: 'yearly',
+  maxCarryOverDays: 0,
+  minNoticeDays: 0,
+  requiresDocument: false,
+  requiresHrApproval: true,
+  allowsHalfDay: true,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const balance: ServerLeaveBalance = {
+  id: 'balance-1',
+  userId: 'employee',
+  leaveTypeId: 'annual',
+  year: 2099,
+  entitledDays: 12,
+  accruedDays: 12,
+  carriedOverDays: 0,
+  adjustmentDays: 0,
+  usedDays: 0,
+  pendingDays: 2,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+function leaveRequest(overrides: Partial<ServerLeaveRequest> = {}): ServerLeaveRequest {
+  return {
+    id: 'request-1',
+    userId: 'employee',
+    leaveTypeId: 'annual',
+    startDate: '2099-03-02',
+    endDate: '2099-03-03',
+    halfDay: false,
+    days: 2,
+    reason: 'Family visit',
+    status: 'pending_manager',
+    managerId: 'manager',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  db.getLeaveType.mockResolvedValue(annualLeave)
+  db.getLeaveBalances.mockResolvedValue([balance])
+  db.getUser.mockResolvedValue(null)
+  db.saveLeaveRequest.mockImplementation(async request => request)
+})
+
+describe('countLeaveDays', () => {
+  it('skips weekends and holidays', () => {
+    // Friday to Tuesday with the Monday off
+    expect(countLeaveDays('2099-02-27', '2099-03-03', { holidays: ['2099-03-02'] })).toBe(2)
+  })
+
+  it('counts a half day as 0.5', () => {
+    expect(countLeaveDays('2099-03-02', '2099-03-02', { halfDay: true })).toBe(0.5)
+  })
+})
+
+describe('leave balances', () => {
+  it('pro-rates the entitlement from the start month and accrues monthly', () => {
+    const monthly = { ...annualLeave, accrualMethod: 'monthly' as const }
+    expect(calculateAccrual(monthly, 2099, '2099-10-15', '2099-07-01')).toEqual({ entitledDays: 6, accruedDays: 3 })
+  })
+
+  it('forfeits unused carry-over after it expires', () => {
+    const withCarryOver = { ...balance, carriedOverDays: 3, usedDays: 1, pendingDays: 0, carryOverExpiresAt: '2099-03-31' }
+    expect(getAvailableDays(withCarryOver, '2099-03-31')).toBe(14)
+    expect(getAvailableDays(withCarryOver, '2099-04-01')).toBe(12)
+  })
+})
+
+describe('LeaveService.respond', () => {
+  it('rejects approving your own request', async () => {
+    db.getLeaveRequest.mockResolvedValue(leaveRequest({ userId: 'manager' }))
+
+    const result = await leaveService.respond('request-1', { userId: 'manager', role: 'manager' }, 'approve')
+
+    expect(result).toMatchObject({ success: false, errorCode: 'SELF_APPROVAL', status: 403 })
+    expect(db.saveLeaveRequest).not.toHaveBeenCalled()
+  })
+
+  it('only lets the assigned manager respond first', async () => {
+    db.getLeaveRequest.mockResolvedValue(leaveRequest())
+
+    const result = await leaveService.respond('request-1', { userId: 'other-manager', role: 'manager' }, 'approve')
+
+    expect(result).toMatchObject({ success: false, errorCode: 'NOT_ALLOWED', status: 403 })
+  })
+
+  it('passes manager approval on to HR without touching the balance', async () => {
+    db.getLeaveRequest.mockResolvedValue(leaveRequest())
+
+    const result = await leaveService.respond('request-1', { userId: 'manager', role: 'manager' }, 'approve')
+
+    expect(result).toMatchObject({ success: true, request: { status: 'pending_hr', managerResponse: 'approved' } })
+    expect(db.adjustLeaveBalance).not.toHaveBeenCalled()
+  })
+
+  it('moves the reserved days to used on HR approval', async () => {
+    db.getLeaveRequest.mockResolvedValue(leaveRequest({ status: 'pending_hr' }))
+
+    const result = await leaveService.respond('request-1', { userId: 'hr', role: 'hr' }, 'approve')
+
+    expect(result).toMatchObject({ success: true, request: { status: 'approved', hrId: 'hr' } })
+    expect(db.adjustLeaveBalance).toHaveBeenCalledWith('balance-1', { pendingDays: -2, usedDays: 2 })
+  })
+
+  it('releases the reserved days on rejection', async () => {
+    db.getLeaveRequest.mockResolvedValue(leaveRequest())
+
+    const result = await leaveService.respond('request-1', { userId: 'manager', role: 'manager' }, 'reject', 'Busy week')
+
+    expect(result).toMatchObject({ success: true, request: { status: 'rejected', managerRejectionReason: 'Busy week' } })
+    expect(db.adjustLeaveBalance).toHaveBeenCalledWith('balance-1', { pendingDays: -2 })
+  })
+})
+
+describe('LeaveService.submitRequest', () => {
+  const input = { leaveTypeId: 'annual', startDate: '2099-03-02', endDate: '2099-03-03', reason: 'Family visit' }
+
+  it('reserves the days through the atomic database function', async () => {
+    db.submitLeaveRequest.mockImplementation(async request => ({ result: request, error: null }))
+
+    const result = await leaveService.submitRequest('employee', input)
+
+    expect(result).toMatchObject({ success: true, request: { days: 2, status: 'pending_manager' } })
+    expect(db.submitLeaveRequest).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'employee', days: 2 }),
+      expect.objectContaining({ balanceId: 'balance-1' })
+    )
+    expect(db.saveLeaveBalance).not.toHaveBeenCalled()
+  })
+
+  it('reports the balance the database found insufficient', async () => {
+    db.submitLeaveRequest.mockResolvedValue({ result: null, error: { message: 'INSUFFICIENT_BALANCE', details: '1.5' } })
+
+    const result = await leaveService.submitRequest('employee', input)
+
+    expect(result).toMatchObject({ success: false, errorCode: 'INSUFFICIENT_BALANCE', error: expect.stringContaining('1.5 days') })
+  })
+
+  it('reports overlapping leave as a conflict', async () => {
+    db.submitLeaveRequest.mockResolvedValue({ result: null, error: { message: 'LEAVE_OVERLAP' } })
+
+    const result = await leaveService.submitRequest('employee', input)
+
+    expect(result).toMatchObject({ success: false, errorCode: 'LEAVE_OVERLAP', status: 409 })
+  })
+})
@@ -0,0 +1,166 @@
+import type { ServerShift, ServerOvertimeRecord } from '@/lib/server-db'
+import { buildShiftWindow } from '@/lib/attendance-evaluation'
+import type { EffectiveShift } from '@/lib/attendance-evaluation'
+import { calculateOvertimeMinutes, applyApproval } from '@/lib/overtime'
+
+jest.mock('@/lib/server-db', () => ({ serverDbManager: {} }))
+
+jest.mock('@/lib/holiday-calendar', () => ({ holidayCalendar: {} }))
+
+function shift(startTime: string, endTime: string): ServerShift {
+  return {
+    id: `shift-${startTime}`,
+    name: 'Shift',
+    code: 'SHIFT',
+    startTime,
+    endTime,
+    isOvernight: false,
+    expectedWorkHours: 8,
+    lateThresholdMinutes: 15,
+    earlyLeaveThresholdMinutes: 15,
+    clockInGraceMinutes: 5,
+    clockOutGraceMinutes: 5,
+    overtimeAfterHours: 8,
+    overtimeRateWeekday: 1.5,
+    overtimeRateWeekend: 2,
+    overtimeRateHoliday: 3,
+    allowsWfh: false,
+    requiresLocation: true,
+    requiresPhoto: false,
+    activeDays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  }
+}
+
+function effective(base: ServerShift, shiftDate: string, isWorkingDay = true): EffectiveShift {
+  return { shift: base, source: 'default', shiftDate, isWorkingDay, ...buildShiftWindow(base, shiftDate) }
+}
+
+// Office-local (WIB) time to a Date
+function wib(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00+07:00`)
+}
+
+const dayShift = shift('08:00', '17:00')
+const eveningShift = shift('14:00', '22:00')
+
+// Monday's evening shift worked until 01:00 on Tuesday, a holiday
+function eveningIntoHoliday() {
+  return calculateOvertimeMinutes({
+    checkIn: wib('2026-01-05', '14:00'),
+    checkOut: wib('2026-01-06', '01:00'),
+    breaks: [],
+    effectiveShift: effective(eveningShift, '2026-01-05'),
+    holidayDates: new Set(['2026-01-06']),
+  })
+}
+
+describe('calculateOvertimeMinutes', () => {
+  it('counts minutes after the shift once the threshold is worked, skipping breaks', () => {
+    const result = calculateOvertimeMinutes({
+      checkIn: wib('2026-01-05', '08:00'),
+      checkOut: wib('2026-01-05', '19:00'),
+      breaks: [{ start: wib('2026-01-05', '12:00'), end: wib('2026-01-05', '13:00') }],
+      effectiveShift: effective(dayShift, '2026-01-05'),
+      holidayDates: new Set(),
+    })
+
+    expect(result).toMatchObject({ workedMinutes: 600, breakMinutes: 60, thresholdMinutes: 480, totalMinutes: 120 })
+    expect(result.minutesByTier).toEqual({ weekday: 120, weekend: 0, holiday: 0 })
+    expect(result.segments).toEqual([
+      expect.objectContaining({ start: wib('2026-01-05', '17:00'), minutes: 120, tier: 'weekday', rate: 1.5 }),
+    ])
+  })
+
+  it('does not count arriving early as overtime until the threshold is worked', () => {
+    const result = calculateOvertimeMinutes({
+      checkIn: wib('2026-01-05', '07:00'),
+      checkOut: wib('2026-01-05', '17:00'),
+      breaks: [],
+      effectiveShift: effective(dayShift, '2026-01-05'),
+      holidayDates: new Set(),
+    })
+
+    expect(result.workedMinutes).toBe(600)
+    expect(result.totalMinutes).toBe(0)
+  })
+
+  it('counts every minute on a rest day at the weekend rate', () => {
+    const result = calculateOvertimeMinutes({
+      checkIn: wib('2026-01-10', '09:00'),
+      checkOut: wib('2026-01-10', '13:00'),
+      breaks: [],
+      effectiveShift: effective(dayShift, '2026-01-10', false),
+      holidayDates: new Set(),
+    })
+
+    expect(result.thresholdMinutes).toBe(0)
+    expect(result.minutesByTier).toEqual({ weekday: 0, weekend: 240, holiday: 0 })
+  })
+
+  it('switches to the holiday rate at midnight', () => {
+    const result = eveningIntoHoliday()
+
+    expect(result.minutesByTier).toEqual({ weekday: 120, weekend: 0, holiday: 60 })
+    expect(result.segments.map(segment => [segment.tier, segment.rate, segment.minutes])).toEqual([
+      ['weekday', 1.5, 120],
+      ['holiday', 3, 60],
+    ])
+  })
+})
+
+describe('applyApproval', () => {
+  function record(overrides: Partial<ServerOvertimeRecord>): ServerOvertimeRecord {
+    const calculation = eveningIntoHoliday()
+    return {
+      id: 'overtime-1',
+      userId: 'employee',
+      workDate: '2026-01-05',
+      approvalType: 'post',
+      workedMinutes: calculation.workedMinutes,
+      detectedMinutes: calculation.totalMinutes,
+      detectedWeekdayMinutes: calculation.minutesByTier.weekday,
+      detectedWeekendMinutes: calculation.minutesByTier.weekend,
+      detectedHolidayMinutes: calculation.minutesByTier.holiday,
+      segments: calculation.segments,
+      status: 'approved',
+      approvedWeekdayMinutes: 0,
+      approvedWeekendMinutes: 0,
+      approvedHolidayMinutes: 0,
+      weightedHours: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      ...overrides,
+    }
+  }
+
+  it('counts nothing until the overtime is approved', () => {
+    const result = applyApproval(record({ status: 'pending' }), { enabled: true, requireApproval: true })
+
+    expect(result).toMatchObject({ approvedWeekdayMinutes: 0, approvedHolidayMinutes: 0, weightedHours: 0 })
+  })
+
+  it('weights approved minutes by their tier rate', () => {
+    const result = applyApproval(record({}), { enabled: true, requireApproval: true })
+
+    // 120 min at 1.5 plus 60 min at 3
+    expect(result).toMatchObject({ approvedWeekdayMinutes: 120, approvedHolidayMinutes: 60, weightedHours: 6 })
+  })
+
+  it('only counts pre-approved overtime inside the planned window', () => {
+    const result = applyApproval(
+      record({ approvalType: 'pre', plannedStart: wib('2026-01-05', '22:30'), plannedEnd: wib('2026-01-06', '00:30') }),
+      { enabled: true, requireApproval: true }
+    )
+
+    expect(result).toMatchObject({ approvedWeekdayMinutes: 90, approvedHolidayMinutes: 30, weightedHours: 3.75 })
+  })
+
+  it('caps approved minutes at the daily maximum, earliest first', () => {
+    const result = applyApproval(record({}), { enabled: true, requireApproval: true, maxDailyMinutes: 60 })
+
+    expect(result).toMatchObject({ approvedWeekdayMinutes: 60, approvedHolidayMinutes: 0, weightedHours: 1.5 })
+  })
+})
@@ -0,0 +1,87 @@
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerPayrollPeriod, ServerPayrollEntry } from '@/lib/server-db'
+import { payrollService } from '@/lib/payroll'
+
+jest.mock('@/lib/server-db', () => ({
+  serverDbManager: {
+    getPayrollPeriod: jest.fn(),
+    closePayrollPeriod: jest.fn(),
+    createAuditLog: jest.fn(),
+  },
+}))
+
+const db = jest.mocked(serverDbManager)
+
+const period: ServerPayrollPeriod = {
+  id: 'period-1',
+  name: 'January',
+  startDate: '2020-01-01',
+  endDate: '2020-01-31',
+  status: 'open',
+  closeCount: 1,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const entry = { id: 'entry-1', periodId: 'period-1', userId: 'employee', netPay: 1500000 } as ServerPayrollEntry
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  db.getPayrollPeriod.mockResolvedValue(period)
+  jest.spyOn(payrollService, 'calculatePeriod').mockResolvedValue({ entries: [entry], missingRates: [] })
+})
+
+describe('PayrollService.closePeriod', () => {
+  it('stores the entries and closes the period in one call', async () => {
+    const closed = { ...period, status: 'closed' as const, closeCount: 2, closedBy: 'admin' }
+    db.closePayrollPeriod.mockResolvedValue({ result: { period: closed, entries: [entry] }, error: null })
+
+    const result = await payrollService.closePeriod('period-1', 'admin')
+
+    expect(result).toMatchObject({ success: true, period: { status: 'closed', closeCount: 2 }, entries: [entry] })
+    // Guarded by the close count the entries were calculated against
+    expect(db.closePayrollPeriod).toHaveBeenCalledWith('period-1', 1, [entry], 'admin')
+    expect(db.createAuditLog).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'payroll_period_closed',
+      details: { entries: 1, netPay: 1500000 },
+    }))
+  })
+
+  it('refuses when the period changed while it was being calculated', async () => {
+    db.closePayrollPeriod.mockResolvedValue({ result: null, error: { message: 'PERIOD_CHANGED' } })
+
+    const result = await payrollService.closePeriod('period-1', 'admin')
+
+    expect(result).toMatchObject({ success: false, errorCode: 'PERIOD_CHANGED', status: 409 })
+    expect(db.createAuditLog).not.toHaveBeenCalled()
+  })
+
+  it('refuses a concurrent second close', async () => {
+    db.closePayrollPeriod.mockResolvedValue({ result: null, error: { message: 'ALREADY_CLOSED' } })
+
+    const result = await payrollService.closePeriod('period-1', 'admin')
+
+    expect(result).toMatchObject({ success: false, errorCode: 'ALREADY_CLOSED', status: 409 })
+  })
+
+  it('writes nothing while employees are missing a rate', async () => {
+    jest.spyOn(payrollService, 'calculatePeriod').mockResolvedValue({
+      entries: [],
+      missingRates: [{ userId: 'employee', name: 'Employee' }],
+    })
+
+    const result = await payrollService.closePeriod('period-1', 'admin')
+
+    expect(result).toMatchObject({ success: false, errorCode: 'MISSING_RATES', status: 422 })
+    expect(db.closePayrollPeriod).not.toHaveBeenCalled()
+  })
+
+  it('only closes a period after its last day', async () => {
+    db.getPayrollPeriod.mockResolvedValue({ ...period, endDate: '2999-12-31' })
+
+    const result = await payrollService.closePeriod('period-1', 'admin')
+
+    expect(result).toMatchObject({ success: false, errorCode: 'PERIOD_NOT_ENDED' })
+    expect(db.closePayrollPeriod).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,67 @@
+import { punchLogParsers, parsePunchTimestamp, ZktecoAttlogParser, BadgeCsvParser } from '@/lib/punch-log-parsers'
+
+describe('parsePunchTimestamp', () => {
+  it('reads year-first and day-first dates as office-local wall-clock time', () => {
+    expect(parsePunchTimestamp('2026-01-05 7:58')).toEqual({ date: '2026-01-05', time: '07:58:00' })
+    expect(parsePunchTimestamp('05/01/2026 17:02:09')).toEqual({ date: '2026-01-05', time: '17:02:09' })
+    // The terminal's offset is ignored
+    expect(parsePunchTimestamp('2026-01-05T08:00:00Z')).toEqual({ date: '2026-01-05', time: '08:00:00' })
+  })
+
+  it('refuses impossible dates and times', () => {
+    expect(parsePunchTimestamp('2026-13-05 08:00')).toBeNull()
+    expect(parsePunchTimestamp('2026-01-05 24:10')).toBeNull()
+    expect(parsePunchTimestamp('yesterday')).toBeNull()
+  })
+})
+
+describe('ZktecoAttlogParser', () => {
+  const attlog = [
+    '  1024\t2026-01-05 07:58:12\t1\t0\t0\t0',
+    '  1024\t2026-01-05 17:03:40\t1\t1\t0\t0',
+    'garbled',
+    '  2048\t2026-01-05 08:15:00',
+  ].join('\n')
+
+  it('reads PIN, timestamp and state code per line and reports bad lines', () => {
+    const result = new ZktecoAttlogParser().parse(attlog)
+
+    expect(result.punches).toEqual([
+      { line: 1, externalId: '1024', date: '2026-01-05', time: '07:58:12', state: 'check-in' },
+      { line: 2, externalId: '1024', date: '2026-01-05', time: '17:03:40', state: 'check-out' },
+      { line: 4, externalId: '2048', date: '2026-01-05', time: '08:15:00', state: undefined },
+    ])
+    expect(result.errors).toEqual([{ line: 3, message: 'Unrecognized attlog line' }])
+  })
+
+  it('is detected despite a stray garbled line', () => {
+    expect(punchLogParsers.detect(attlog)?.id).toBe('zkteco_attlog')
+  })
+})
+
+describe('BadgeCsvParser', () => {
+  it('combines separate date and time columns and maps terminal states', () => {
+    const csv = [
+      'Card No;Date;Time;In/Out;Terminal',
+      '00417;05/01/2026;07:55;C/In;GATE-1',
+      '00417;05/01/2026;17:05;C/Out;GATE-1',
+      ';05/01/2026;17:06;C/Out;GATE-1',
+    ].join('\n')
+
+    expect(punchLogParsers.detect(csv)?.id).toBe('badge_csv')
+    const result = new BadgeCsvParser().parse(csv)
+
+    expect(result.punches).toEqual([
+      { line: 2, externalId: '00417', date: '2026-01-05', time: '07:55:00', state: 'check-in', device: 'GATE-1' },
+      { line: 3, externalId: '00417', date: '2026-01-05', time: '17:05:00', state: 'check-out', device: 'GATE-1' },
+    ])
+    expect(result.errors).toEqual([{ line: 4, message: 'Missing badge/PIN' }])
+  })
+
+  it('rejects a file without a badge column', () => {
+    const result = new BadgeCsvParser().parse('name,timestamp\nBudi,2026-01-05 08:00')
+
+    expect(result.punches).toEqual([])
+    expect(result.errors[0].line).toBe(1)
+  })
+})
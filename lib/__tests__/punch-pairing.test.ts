@@ -0,0 +1,113 @@
+import type { ServerShift } from '@/lib/server-db'
+import { attendanceEvaluation, buildShiftWindow } from '@/lib/attendance-evaluation'
+import type { EffectiveShift } from '@/lib/attendance-evaluation'
+import type { PunchState } from '@/lib/punch-log-parsers'
+import { punchPairing } from '@/lib/punch-pairing'
+
+jest.mock('@/lib/server-db', () => ({ serverDbManager: {} }))
+
+jest.mock('@/lib/holiday-calendar', () => ({ holidayCalendar: {} }))
+
+jest.mock('@/lib/attendance-evaluation', () => ({
+  ...jest.requireActual('@/lib/attendance-evaluation'),
+  attendanceEvaluation: { resolveEffectiveShift: jest.fn() },
+}))
+
+const evaluation = jest.mocked(attendanceEvaluation)
+
+// 08:00-17:00 WIB
+const dayShift = {
+  id: 'day',
+  code: 'DAY',
+  startTime: '08:00',
+  endTime: '17:00',
+  isOvernight: false,
+  lateThresholdMinutes: 15,
+  earlyLeaveThresholdMinutes: 15,
+  clockInGraceMinutes: 5,
+  clockOutGraceMinutes: 5,
+} as ServerShift
+
+function shiftOn(shiftDate: string): EffectiveShift {
+  return { shift: dayShift, source: 'default', shiftDate, isWorkingDay: true, ...buildShiftWindow(dayShift, shiftDate) }
+}
+
+let line = 0
+
+function punch(date: string, time: string, state?: PunchState) {
+  line++
+  return {
+    punch: { line, externalId: '1024', date, time, state },
+    at: new Date(`${date}T${time}+07:00`),
+  }
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  line = 0
+  evaluation.resolveEffectiveShift.mockImplementation(async (_userId, at) => shiftOn(at.toISOString().slice(0, 10)))
+})
+
+describe('PunchPairingService.pair', () => {
+  it('pairs a day by position when the terminal reports every punch as in', async () => {
+    const paired = await punchPairing.pair('employee', [
+      punch('2026-01-05', '17:10:00', 'check-in'),
+      punch('2026-01-05', '07:55:00', 'check-in'),
+      punch('2026-01-05', '12:40:00', 'check-in'),
+      punch('2026-01-05', '12:00:00', 'check-in'),
+    ])
+
+    expect(paired.map(p => p.type)).toEqual(['check-in', 'break-start', 'break-end', 'check-out'])
+    expect(paired.map(p => p.status)).toEqual(['present', undefined, undefined, 'present'])
+    expect(evaluation.resolveEffectiveShift).toHaveBeenCalledTimes(1)
+  })
+
+  it('trusts terminal states once they vary', async () => {
+    const paired = await punchPairing.pair('employee', [
+      punch('2026-01-05', '08:20:00', 'check-in'),
+      punch('2026-01-05', '12:00:00', 'check-out'),
+    ])
+
+    expect(paired.map(p => [p.type, p.status])).toEqual([
+      ['check-in', 'late'],
+      ['check-out', 'early_leave'],
+    ])
+  })
+
+  it('drops double scans and leaves an odd punch in the middle unpaired', async () => {
+    const paired = await punchPairing.pair('employee', [
+      punch('2026-01-05', '07:58:00'),
+      punch('2026-01-05', '07:58:30'),
+      punch('2026-01-05', '12:00:00'),
+      punch('2026-01-05', '17:02:00'),
+    ])
+
+    expect(paired.map(p => p.type ?? p.ignored)).toEqual([
+      'check-in',
+      'Repeat of the punch on line 1',
+      'Unpaired punch between check-in and check-out',
+      'check-out',
+    ])
+  })
+
+  it('takes a lone punch as the nearer end of its shift', async () => {
+    const paired = await punchPairing.pair('employee', [punch('2026-01-05', '16:50:00')])
+
+    expect(paired[0]).toMatchObject({ type: 'check-out', status: 'present' })
+  })
+
+  it('starts a new shift once a punch falls past the current shift window', async () => {
+    const paired = await punchPairing.pair('employee', [
+      punch('2026-01-05', '08:00:00'),
+      punch('2026-01-05', '17:00:00'),
+      punch('2026-01-06', '08:00:00'),
+    ])
+
+    expect(paired.map(p => [p.effectiveShift?.shiftDate, p.type])).toEqual([
+      ['2026-01-05', 'check-in'],
+      ['2026-01-05', 'check-out'],
+      ['2026-01-06', 'check-in'],
+    ])
+    expect(evaluation.resolveEffectiveShift).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,221 @@
+import { serverDbManager } from '@/lib/server-db'
+import { attendanceEvaluation } from '@/lib/attendance-evaluation'
+import { offlineFaceVerification } from '@/lib/offline-face-verification'
+import { syncIngestService } from '@/lib/sync-ingest'
+import type { SyncBatchInput, SyncMutationInput } from '@/lib/validation-schemas'
+
+jest.mock('@/lib/server-db', () => ({
+  serverDbManager: {
+    getUser: jest.fn(),
+    getClosedPayrollPeriodFor: jest.fn(),
+    toAttendanceSyncRow: jest.fn((record: any) => ({ id: record.id, user_id: record.userId })),
+    applySyncMutation: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/attendance-evaluation', () => ({
+  attendanceEvaluation: {
+    evaluate: jest.fn(),
+    findShiftCheckIns: jest.fn(),
+  },
+}))
+
+jest.mock('@/lib/geofence', () => ({
+  geofenceService: {
+    checkLocation: jest.fn(async () => ({ status: 'no_zones', action: 'allow', violation: false })),
+  },
+}))
+
+jest.mock('@/lib/overtime', () => ({
+  overtimeService: { recalculateDay: jest.fn(async () => undefined) },
+  attendanceDayOf: jest.fn(() => '2026-01-05'),
+}))
+
+jest.mock('@/lib/offline-face-verification', () => ({
+  offlineFaceVerification: { verifyEvent: jest.fn() },
+}))
+
+const db = jest.mocked(serverDbManager)
+const evaluation = jest.mocked(attendanceEvaluation)
+const faceVerification = jest.mocked(offlineFaceVerification)
+
+const USER_ID = '6f1c2a8e-0d4b-4c57-9a61-2b7d3e9f0a11'
+const RECORD_ID = '0b9e7c51-3f2a-4d86-b1c4-8a5e6d7f9012'
+const EVENT_ID = '5d8e2b41-7c3a-4f69-9e10-6b2a4c8d1e37'
+const SITE_ID = '9a3f6c12-4e8b-4d27-a5c1-7f0e2b9d6a48'
+const HOUR_MS = 60 * 60 * 1000
+
+function checkIn(overrides: Partial<SyncMutationInput> = {}, timestamp = new Date(Date.now() - HOUR_MS)): SyncMutationInput {
+  return {
+    idempotencyKey: `attendance-${RECORD_ID}`,
+    entity: 'attendance',
+    operation: 'create',
+    entityId: RECORD_ID,
+    data: { userId: USER_ID, timestamp: timestamp.toISOString(), type: 'check-in' },
+    clientTimestamp: timestamp.toISOString(),
+    ...overrides,
+  }
+}
+
+function batch(mutations: SyncMutationInput[]): SyncBatchInput {
+  return { batchId: 'batch-1', deviceId: 'device-1', createdAt: new Date().toISOString(), mutations }
+}
+
+const employee = { userId: USER_ID, role: 'employee' }
+
+function faceEvent(siteId = SITE_ID): SyncMutationInput {
+  return {
+    idempotencyKey: `face-event-${EVENT_ID}`,
+    entity: 'face_event',
+    operation: 'create',
+    entityId: EVENT_ID,
+    data: {
+      id: EVENT_ID,
+      siteId,
+      type: 'check-in',
+      capturedAt: new Date().toISOString(),
+      clockOffsetMs: 0,
+      descriptor: new Array(128).fill(0.1),
+      liveness: { steps: ['blink'], frames: [], passed: true },
+      localMatch: { userId: USER_ID, confidence: 0.9, margin: null },
+    },
+    clientTimestamp: new Date().toISOString(),
+  }
+}
+
+const kioskOperator = {
+  userId: USER_ID,
+  role: 'manager',
+  kioskDevice: { id: 'kiosk-1', siteId: SITE_ID, status: 'active' } as any,
+}
+
+beforeEach(() => {
+  jest.clearAllMocks()
+  db.getUser.mockResolvedValue({ id: USER_ID, isActive: true } as any)
+  db.getClosedPayrollPeriodFor.mockResolvedValue(null)
+  evaluation.evaluate.mockResolvedValue({
+    status: 'present',
+    lateMinutes: 0,
+    earlyLeaveMinutes: 0,
+    effectiveShift: {
+      shift: { id: 'shift-1', code: 'DAY' },
+      shiftDate: '2026-01-05',
+      source: 'default',
+      windowStart: new Date(Date.now() - 6 * HOUR_MS),
+      windowEnd: new Date(Date.now() + 6 * HOUR_MS),
+    },
+  } as any)
+  evaluation.findShiftCheckIns.mockResolvedValue([])
+})
+
+describe('SyncIngestService', () => {
+  it('applies a punch once and reports the replay as a duplicate', async () => {
+    db.applySyncMutation
+      .mockResolvedValueOnce({ result: { status: 'applied', seq: 7, result: { record: { id: RECORD_ID } } }, error: null })
+      .mockResolvedValueOnce({ result: { status: 'duplicate', seq: 7, result: { record: { id: RECORD_ID } } }, error: null })
+
+    const first = await syncIngestService.ingestBatch(batch([checkIn()]), employee)
+    // The same batch again after a dropped connection
+    const replay = await syncIngestService.ingestBatch(batch([checkIn()]), employee)
+
+    expect(first.results[0]).toMatchObject({ status: 'applied', entityId: RECORD_ID })
+    expect(replay.results[0]).toMatchObject({ status: 'duplicate', entityId: RECORD_ID })
+    expect(replay.summary).toEqual({ applied: 0, duplicate: 1, conflict: 0, rejected: 0 })
+    expect(db.applySyncMutation).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      idempotencyKey: `attendance-${RECORD_ID}`,
+      entityId: RECORD_ID,
+    }))
+  })
+
+  it('rejects a second check-in for the shift sent under a new idempotency key', async () => {
+    evaluation.findShiftCheckIns.mockResolvedValue([{ id: 'another-check-in' } as any])
+
+    const response = await syncIngestService.ingestBatch(batch([
+      checkIn({ idempotencyKey: 'attendance-retry', entityId: 'a4d2f6e8-1b3c-4e5f-8a7b-9c0d1e2f3a4b' }),
+    ]), employee)
+
+    expect(response.results[0]).toMatchObject({ status: 'rejected', errorCode: 'ALREADY_CHECKED_IN' })
+    expect(response.results[0].retryable).toBeUndefined()
+    expect(db.applySyncMutation).not.toHaveBeenCalled()
+  })
+
+  it('leaves a replay of the stored record to the ledger', async () => {
+    evaluation.findShiftCheckIns.mockResolvedValue([{ id: RECORD_ID } as any])
+    db.applySyncMutation.mockResolvedValue({ result: { status: 'duplicate', seq: 7, result: {} }, error: null })
+
+    const response = await syncIngestService.ingestBatch(batch([checkIn({ idempotencyKey: 'attendance-retry' })]), employee)
+
+    expect(response.results[0]).toMatchObject({ status: 'duplicate' })
+  })
+
+  it('rejects punches backdated past the offline window', async () => {
+    const response = await syncIngestService.ingestBatch(batch([
+      checkIn({}, new Date(Date.now() - 73 * HOUR_MS)),
+    ]), employee)
+
+    expect(response.results[0]).toMatchObject({ status: 'rejected', errorCode: 'TIMESTAMP_TOO_OLD' })
+    expect(db.applySyncMutation).not.toHaveBeenCalled()
+  })
+
+  it('rejects punches stamped in the future', async () => {
+    const response = await syncIngestService.ingestBatch(batch([
+      checkIn({}, new Date(Date.now() + HOUR_MS)),
+    ]), employee)
+
+    expect(response.results[0]).toMatchObject({ status: 'rejected', errorCode: 'INVALID_TIMESTAMP' })
+  })
+
+  it('only lets kiosk operators upload punches for someone else', async () => {
+    const response = await syncIngestService.ingestBatch(batch([checkIn()]), {
+      userId: 'c3d4e5f6-a7b8-4c9d-8e0f-1a2b3c4d5e6f',
+      role: 'employee',
+    })
+
+    expect(response.results[0]).toMatchObject({ status: 'rejected', errorCode: 'NOT_ALLOWED' })
+  })
+
+  it('keeps applying the rest of a batch after a rejected item', async () => {
+    db.applySyncMutation.mockResolvedValue({ result: { status: 'applied', seq: 9, result: {} }, error: null })
+
+    const response = await syncIngestService.ingestBatch(batch([
+      checkIn({ idempotencyKey: 'old' }, new Date(Date.now() - 100 * HOUR_MS)),
+      checkIn(),
+    ]), employee)
+
+    expect(response.results.map(result => result.status)).toEqual(['rejected', 'applied'])
+    expect(response.cursor).toBe('9')
+  })
+
+  it('only accepts offline face events from a signed kiosk', async () => {
+    const response = await syncIngestService.ingestBatch(batch([faceEvent()]), { ...kioskOperator, kioskDevice: null })
+
+    expect(response.results[0]).toMatchObject({ status: 'rejected', errorCode: 'KIOSK_DEVICE_REQUIRED' })
+    expect(faceVerification.verifyEvent).not.toHaveBeenCalled()
+  })
+
+  it('refuses offline face events for a site the kiosk is not enrolled at', async () => {
+    const response = await syncIngestService.ingestBatch(
+      batch([faceEvent('1e2d3c4b-5a69-4788-9a6b-5c4d3e2f1a0b')]),
+      kioskOperator
+    )
+
+    expect(response.results[0]).toMatchObject({ status: 'rejected', errorCode: 'KIOSK_SITE_MISMATCH' })
+    expect(faceVerification.verifyEvent).not.toHaveBeenCalled()
+  })
+
+  it('verifies offline face events as the signing kiosk', async () => {
+    faceVerification.verifyEvent.mockResolvedValue({
+      success: true,
+      status: 'applied',
+      event: { verdict: 'accepted', matchedUserId: USER_ID, attendanceId: EVENT_ID } as any,
+    })
+
+    const response = await syncIngestService.ingestBatch(batch([faceEvent()]), kioskOperator)
+
+    expect(response.results[0]).toMatchObject({ status: 'applied', record: { verdict: 'accepted' } })
+    expect(faceVerification.verifyEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ id: EVENT_ID, siteId: SITE_ID }),
+      { submittedBy: USER_ID, deviceId: 'kiosk-1' }
+    )
+  })
+})
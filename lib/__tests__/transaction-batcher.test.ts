@@ -0,0 +1,135 @@
+import { openDB } from 'idb'
+import type { IDBPDatabase } from 'idb'
+import { TransactionBatcher } from '@/lib/transaction-batcher'
+import type { BatchRollback } from '@/lib/transaction-batcher'
+import { storageQuotaManager } from '@/lib/storage-quota-manager'
+
+const STORES = ['attendance', 'syncQueue']
+
+let databaseCounter = 0
+
+// A fresh database per test, so one test's writes never leak into another
+async function openTestDatabase(): Promise<IDBPDatabase<any>> {
+  return openDB(`transaction-batcher-test-${++databaseCounter}`, 1, {
+    upgrade(db) {
+      for (const store of STORES) {
+        db.createObjectStore(store, { keyPath: 'id' })
+      }
+    },
+  })
+}
+
+function quotaExceededError(): Error {
+  return Object.assign(new Error('The quota has been exceeded.'), { name: 'QuotaExceededError' })
+}
+
+function createBatcher(getDatabase: () => Promise<IDBPDatabase<any>>): TransactionBatcher {
+  return new TransactionBatcher({
+    stores: STORES,
+    getDatabase,
+    batchTimeout: 1000, // Batches are flushed explicitly
+    retryDelay: 0,
+    maxRetries: 2,
+  })
+}
+
+describe('TransactionBatcher', () => {
+  let db: IDBPDatabase<any>
+
+  beforeEach(async () => {
+    db = await openTestDatabase()
+  })
+
+  afterEach(() => {
+    db.close()
+    jest.restoreAllMocks()
+  })
+
+  it('commits a batch that spans several stores', async () => {
+    const batcher = createBatcher(async () => db)
+
+    const writes = Promise.all([
+      batcher.addOperation('put', 'attendance', { id: 'a1', type: 'check-in' }),
+      batcher.addOperation('put', 'syncQueue', { id: 'q1', type: 'attendance' }),
+      batcher.addOperation('put', 'attendance', { id: 'a2', type: 'check-out' }),
+    ])
+    await batcher.flush()
+
+    await expect(writes).resolves.toEqual(['a1', 'q1', 'a2'])
+    expect(await db.getAllKeys('attendance')).toEqual(['a1', 'a2'])
+    expect(await db.getAllKeys('syncQueue')).toEqual(['q1'])
+    expect(batcher.getRollbacks()).toHaveLength(0)
+  })
+
+  it('rolls back every operation in the batch when one of them fails', async () => {
+    await db.put('attendance', { id: 'existing' })
+    const batcher = createBatcher(async () => db)
+    const rollbacks: BatchRollback[] = []
+    batcher.onRollback(rollback => rollbacks.push(rollback))
+
+    const first = batcher.addOperation('put', 'attendance', { id: 'a1' })
+    const duplicate = batcher.addOperation('add', 'attendance', { id: 'existing' })
+    const last = batcher.addOperation('put', 'attendance', { id: 'a2' })
+    const otherStore = batcher.addOperation('put', 'syncQueue', { id: 'q1' })
+    const settled = Promise.allSettled([first, duplicate, last, otherStore])
+    await batcher.flush()
+
+    const [firstResult, duplicateResult, lastResult, otherStoreResult] = await settled
+    expect(firstResult.status).toBe('rejected')
+    expect(duplicateResult).toMatchObject({ status: 'rejected', reason: { name: 'ConstraintError' } })
+    expect(lastResult.status).toBe('rejected')
+    // One transaction covers every store, so the other store is rolled back too
+    expect(otherStoreResult.status).toBe('rejected')
+
+    expect(await db.getAllKeys('attendance')).toEqual(['existing'])
+    expect(await db.getAllKeys('syncQueue')).toEqual([])
+
+    expect(rollbacks).toHaveLength(1)
+    expect(rollbacks[0]).toMatchObject({ stores: ['attendance', 'syncQueue'], attempts: 1 })
+    expect(rollbacks[0].operationIds).toHaveLength(4)
+    expect(rollbacks[0].failedOperationId).toBe(rollbacks[0].operationIds[1])
+  })
+
+  it('retries a batch that exceeded the storage quota once space is freed', async () => {
+    const forceCleanup = jest.spyOn(storageQuotaManager, 'forceCleanup').mockResolvedValue()
+    jest.spyOn(storageQuotaManager, 'requestQuota').mockResolvedValue(true)
+
+    // The first transaction fails as a full disk would; later ones succeed
+    let transactions = 0
+    const batcher = createBatcher(async () => {
+      if (++transactions === 1) {
+        return { transaction: () => { throw quotaExceededError() } } as unknown as IDBPDatabase<any>
+      }
+      return db
+    })
+
+    const write = batcher.addOperation('put', 'attendance', { id: 'a1' })
+    await batcher.flush()
+
+    await expect(write).resolves.toBe('a1')
+    expect(forceCleanup).toHaveBeenCalledTimes(1)
+    expect(transactions).toBe(2)
+    expect(await db.getAllKeys('attendance')).toEqual(['a1'])
+    expect(batcher.getRollbacks()).toHaveLength(0)
+  })
+
+  it('rolls the batch back when no space can be freed', async () => {
+    jest.spyOn(storageQuotaManager, 'forceCleanup').mockResolvedValue()
+    jest.spyOn(storageQuotaManager, 'requestQuota').mockResolvedValue(false)
+
+    let transactions = 0
+    const batcher = createBatcher(async () => {
+      transactions++
+      return { transaction: () => { throw quotaExceededError() } } as unknown as IDBPDatabase<any>
+    })
+
+    const write = batcher.addOperation('put', 'attendance', { id: 'a1' })
+    await batcher.flush()
+
+    await expect(write).rejects.toThrow('The quota has been exceeded.')
+    expect(transactions).toBe(1)
+    expect(batcher.getRollbacks()).toEqual([
+      expect.objectContaining({ stores: ['attendance'], attempts: 1 }),
+    ])
+  })
+})
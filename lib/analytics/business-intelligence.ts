@@ -5,6 +5,9 @@
  */
 
 import { systemMonitor } from '@/lib/monitoring/system-monitor';
+import { leaveService } from '@/lib/leave';
+import { holidayCalendar, holidayAppliesTo } from '@/lib/holiday-calendar';
+import { logger } from '@/lib/logger';
 
 // Attendance analytics interfaces
 export interface AttendanceAnalytics {
@@ -12,6 +15,8 @@ export interface AttendanceAnalytics {
   totalEmployees: number;
   present: number;
   absent: number;
+  onLeave: number;
+  holiday: number;
   late: number;
   earlyLeave: number;
   overtime: number;
@@ -140,6 +145,7 @@ class BusinessIntelligence {
   private employeePerformance: EmployeePerformance[] = [];
   private businessMetrics: BusinessMetric[] = [];
   private reports: AnalyticsReport[] = [];
+  private ready: Promise<void> = Promise.resolve();
 
   constructor() {
     this.initializeMockData();
@@ -151,6 +157,44 @@ class BusinessIntelligence {
     this.generateMockDepartmentData();
     this.generateMockEmployeePerformance();
     this.generateMockBusinessMetrics();
+    this.ready = this.excludeLeaveAndHolidays();
+  }
+
+  // Wait until approved leave and holidays are taken out of the absences
+  async whenReady(): Promise<void> {
+    await this.ready;
+  }
+
+  // Employees on approved leave or on a company holiday are not absent
+  private async excludeLeaveAndHolidays(): Promise<void> {
+    if (this.attendanceData.length === 0) return;
+
+    const startDate = this.attendanceData[0].date;
+    const endDate = this.attendanceData[this.attendanceData.length - 1].date;
+
+    try {
+      const [leaveDates, holidays] = await Promise.all([
+        leaveService.getApprovedLeaveDates(startDate, endDate),
+        holidayCalendar.getHolidays(startDate, endDate)
+      ]);
+
+      const onLeaveByDate = new Map<string, number>();
+      leaveDates.forEach(dates => {
+        dates.forEach(date => onLeaveByDate.set(date, (onLeaveByDate.get(date) || 0) + 1));
+      });
+      const holidayDates = new Set(
+        holidays.filter(h => !h.isHalfDay && holidayAppliesTo(h, [])).map(h => h.date)
+      );
+
+      this.attendanceData.forEach(day => {
+        const notPresent = day.totalEmployees - day.present;
+        day.holiday = holidayDates.has(day.date) ? notPresent : 0;
+        day.onLeave = Math.min(onLeaveByDate.get(day.date) || 0, notPresent - day.holiday);
+        day.absent = notPresent - day.holiday - day.onLeave;
+      });
+    } catch (error) {
+      logger.warn('Could not exclude approved leave and holidays from attendance analytics', { error });
+    }
   }
 
   // Generate mock attendance data
@@ -174,6 +218,8 @@ class BusinessIntelligence {
         totalEmployees,
         present,
         absent,
+        onLeave: 0,
+        holiday: 0,
         late,
         earlyLeave,
         overtime,
@@ -907,6 +953,7 @@ class BusinessIntelligence {
     this.businessMetrics = [];
     
     this.initializeMockData();
+    await this.ready;
   }
 }
 
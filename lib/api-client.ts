@@ -4,9 +4,73 @@
  */
 
 import { getSecureItem } from './secure-storage'
+import type { LivenessChallengeStep, LivenessFrame } from './liveness'
+import type {
+  SyncBatch,
+  SyncMutation,
+  SyncBatchResponse,
+  SyncChangePage,
+  SyncFeedEntity,
+  OfflineFaceCache,
+  SyncDeadLetterReport,
+  SyncDeadLetterAck,
+  SyncDeadLetterStatus,
+  SyncItemResult
+} from './sync-protocol'
+import type {
+  ServerSyncDeadLetter,
+  ServerSyncDeadLetterDevice,
+  ServerKioskDevice,
+  ServerKioskEnrollmentCode,
+  ServerOfficeSite,
+  ServerManualCheckin,
+  ManualCheckinStatus,
+  ServerScheduledJob,
+  ServerScheduledJobRun,
+  ServerImportSession,
+  ImportType,
+  ImportMode,
+  ServerEmployeeExternalId
+} from './server-db'
+import type { ReportConfig, ReportData } from './report-builder'
+import type {
+  ScheduledJobInput,
+  ScheduledJobUpdateInput,
+  ArchivalRuleInput,
+  CleanupRuleInput,
+  RetentionPolicyInput
+} from './validation-schemas'
+import type {
+  ArchivalRule,
+  CleanupRule,
+  DataRetentionPolicy,
+  ArchivedRecord,
+  ArchivalResult,
+  CleanupResult,
+  RetentionResult
+} from './data-archival'
+import type { KioskDeviceState, KioskDeviceStatus, KioskHeartbeat, KioskRequestSigner } from './kiosk-protocol'
+
+// Second factor for ambiguous face matches
+export interface FaceSecondFactor {
+  pin?: string
+  employeeId?: string
+}
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export class ApiClient {
+  // Installed by kiosk registration so a registered tablet signs every request
+  private static requestSigner: KioskRequestSigner | null = null
+
+  static setRequestSigner(signer: KioskRequestSigner | null) {
+    this.requestSigner = signer
+  }
+
+  // Kiosk signature headers for a request; none on devices that aren't kiosks
+  static async signRequest(request: { method: string; path: string; body: string }): Promise<Record<string, string>> {
+    return this.requestSigner ? this.requestSigner(request) : {}
+  }
+
   private static getToken(): string | null {
     if (typeof window === 'undefined') return null
     
@@ -42,6 +106,12 @@ export class ApiClient {
     }
 
     try {
+      Object.assign(headers, await this.signRequest({
+        method: options.method || 'GET',
+        path: endpoint,
+        body: typeof options.body === 'string' ? options.body : '',
+      }))
+
       const response = await fetch(endpoint, {
         ...options,
         headers,
@@ -54,7 +124,12 @@ export class ApiClient {
             ? 'Unauthorized - No authentication token provided' 
             : 'Request failed' 
         }))
-        throw new Error(error.error || error.message || `HTTP ${response.status}`)
+        // Keep the API error code so callers can react (e.g. AMBIGUOUS_MATCH)
+        throw Object.assign(new Error(error.error || error.message || `HTTP ${response.status}`), {
+          errorCode: error.errorCode,
+          status: response.status,
+          details: error.details,
+        })
       }
 
       return response.json()
@@ -197,6 +272,8 @@ export class ApiClient {
     timestamp?: string
     location?: any
     type?: string
+    livenessToken: string
+    secondFactor?: FaceSecondFactor
   }) {
     return this.request<any>('/api/attendance/face-checkin', {
       method: 'POST',
@@ -206,6 +283,7 @@ export class ApiClient {
 
   static async identifyFaceStatus(data: {
     descriptor: number[]
+    secondFactor?: FaceSecondFactor
   }) {
     return this.request<{
       success: boolean
@@ -237,13 +315,15 @@ export class ApiClient {
   static async faceAction(data: {
     descriptor: number[]
     action: 'check-in' | 'break-start' | 'break-end' | 'check-out'
-    timestamp: string
+    timestamp?: string
     location?: any
     lateExcuse?: {
       reasonType: string
       reason: string
       notes: string
     } | null
+    livenessToken: string
+    secondFactor?: FaceSecondFactor
   }) {
     return this.request<any>('/api/face/action', {
       method: 'POST',
@@ -251,6 +331,105 @@ export class ApiClient {
     })
   }
 
+  // Manual check-in fallback (after face recognition fails)
+  static async manualCheckin(data: {
+    type: 'check-in' | 'break-start' | 'break-end' | 'check-out'
+    employeeId?: string
+    pin?: string
+    photo: string
+    faceErrorCode?: string
+    location?: { latitude: number; longitude: number; accuracy?: number } | null
+    supervisor?: { employeeId: string; pin: string }
+  }) {
+    return this.request<{
+      success: boolean
+      message: string
+      data: {
+        id: string
+        userId: string
+        type: string
+        timestamp: string
+        status: ManualCheckinStatus
+        cosignError?: string
+        record?: any
+      }
+    }>('/api/face/manual-checkin', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  static async getManualCheckins(params?: {
+    status?: ManualCheckinStatus
+    userId?: string
+    limit?: number
+    offset?: number
+  }) {
+    const searchParams = new URLSearchParams()
+    if (params?.status) searchParams.append('status', params.status)
+    if (params?.userId) searchParams.append('userId', params.userId)
+    if (params?.limit) searchParams.append('limit', params.limit.toString())
+    if (params?.offset) searchParams.append('offset', params.offset.toString())
+
+    const query = searchParams.toString()
+    return this.request<{
+      success: boolean
+      data: Array<ServerManualCheckin & {
+        userName?: string
+        employeeId?: string
+        department?: string
+        cosignedByName?: string
+        photoUrl: string | null
+      }>
+      pagination: { total: number; limit: number; offset: number }
+    }>(`/api/admin/attendance/manual-checkins${query ? `?${query}` : ''}`)
+  }
+
+  static async reviewManualCheckin(id: string, decision: 'approve' | 'reject', notes?: string) {
+    return this.request<{
+      success: boolean
+      data: ServerManualCheckin
+      message: string
+    }>(`/api/admin/attendance/manual-checkins/${id}/review`, {
+      method: 'POST',
+      body: JSON.stringify({ decision, notes }),
+    })
+  }
+
+  // Liveness API
+  static async getLivenessChallenge() {
+    return this.request<{
+      success: boolean
+      data: {
+        challengeId: string
+        challengeToken: string
+        steps: LivenessChallengeStep[]
+        prompts: string[]
+        issuedAt: number
+        expiresAt: number
+      }
+    }>('/api/face/liveness/challenge', {
+      method: 'POST',
+    })
+  }
+
+  static async verifyLiveness(data: {
+    challengeToken: string
+    descriptor: number[]
+    frames: LivenessFrame[]
+  }) {
+    return this.request<{
+      success: boolean
+      data: {
+        livenessToken: string
+        expiresAt: number
+      }
+    }>('/api/face/liveness/verify', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
   // Reports API
   static async generateReport(config: {
     type: string
@@ -355,6 +534,301 @@ export class ApiClient {
     }>('/api/admin/reports/stats')
   }
 
+  // Report builder definitions
+  static async getReportDefinitions() {
+    return this.request<{ success: boolean; data: ReportConfig[] }>('/api/admin/reports/definitions')
+  }
+
+  static async getReportDefinition(id: string) {
+    return this.request<{ success: boolean; data: ReportConfig }>(`/api/admin/reports/definitions/${id}`)
+  }
+
+  static async saveReportDefinition(config: ReportConfig) {
+    return this.request<{ success: boolean; data: ReportConfig }>('/api/admin/reports/definitions', {
+      method: 'POST',
+      // Unsaved reports carry a client-side id and no version
+      body: JSON.stringify({
+        id: config.version ? config.id : undefined,
+        version: config.version,
+        config,
+      }),
+    })
+  }
+
+  static async deleteReportDefinition(id: string) {
+    return this.request<{ success: boolean }>(`/api/admin/reports/definitions/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  static async buildReport(body: { id: string } | { config: ReportConfig }) {
+    return this.request<{ success: boolean; data: ReportData }>('/api/admin/reports/build', {
+      method: 'POST',
+      body: JSON.stringify(body),
+    })
+  }
+
+  static async exportReport(body: ({ id: string } | { config: ReportConfig }) & { format?: 'pdf' | 'excel' | 'csv' }) {
+    const token = this.getToken()
+
+    const response = await fetch('/api/admin/reports/export', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      credentials: 'include',
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}))
+      throw new Error(error.error || 'Failed to export report')
+    }
+
+    return response.blob()
+  }
+
+  // Scheduled reports and exports
+  static async getScheduledJobs(kind?: ServerScheduledJob['kind']) {
+    const query = kind ? `?kind=${kind}` : ''
+    return this.request<{ success: boolean; data: ServerScheduledJob[]; meta: { channels: string[] } }>(
+      `/api/admin/scheduled-jobs${query}`
+    )
+  }
+
+  static async createScheduledJob(job: ScheduledJobInput) {
+    return this.request<{ success: boolean; data: ServerScheduledJob }>('/api/admin/scheduled-jobs', {
+      method: 'POST',
+      body: JSON.stringify(job),
+    })
+  }
+
+  static async updateScheduledJob(id: string, updates: ScheduledJobUpdateInput) {
+    return this.request<{ success: boolean; data: ServerScheduledJob }>(`/api/admin/scheduled-jobs/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    })
+  }
+
+  static async deleteScheduledJob(id: string) {
+    return this.request<{ success: boolean }>(`/api/admin/scheduled-jobs/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  static async runScheduledJob(id: string) {
+    return this.request<{
+      success: boolean
+      data: { jobId: string; runId?: string; status: ServerScheduledJobRun['status']; error?: string }
+      message: string
+    }>(`/api/admin/scheduled-jobs/${id}/run`, {
+      method: 'POST',
+    })
+  }
+
+  static async getScheduledJobRuns(id: string, limit?: number) {
+    const query = limit ? `?limit=${limit}` : ''
+    return this.request<{ success: boolean; data: Array<ServerScheduledJobRun & { downloadUrl?: string }> }>(
+      `/api/admin/scheduled-jobs/${id}/runs${query}`
+    )
+  }
+
+  // Data import sessions
+  static async previewImport(
+    file: File,
+    importType: ImportType,
+    mode: ImportMode,
+    punchLog?: { format?: string; source?: string }
+  ) {
+    const token = this.getToken()
+    const formData = new FormData()
+    formData.append('file', file)
+    formData.append('importType', importType)
+    formData.append('mode', mode)
+    if (punchLog?.format) formData.append('format', punchLog.format)
+    if (punchLog?.source) formData.append('source', punchLog.source)
+
+    // No JSON content type: the browser sets the multipart boundary
+    const response = await fetch('/api/admin/data-management/import', {
+      method: 'POST',
+      headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+      credentials: 'include',
+      body: formData,
+    })
+
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw Object.assign(new Error(result.error || 'Failed to upload import file'), {
+        errorCode: result.errorCode,
+        status: response.status,
+        details: result.details,
+      })
+    }
+
+    return result as { success: boolean; data: ServerImportSession }
+  }
+
+  static async getImportSessions(limit?: number) {
+    const query = limit ? `?limit=${limit}` : ''
+    return this.request<{
+      success: boolean
+      data: ServerImportSession[]
+      meta: { punchLogFormats: Array<{ id: string; label: string }> }
+    }>(`/api/admin/data-management/import${query}`)
+  }
+
+  static async getImportSession(id: string) {
+    return this.request<{ success: boolean; data: ServerImportSession }>(`/api/admin/data-management/import/${id}`)
+  }
+
+  static async commitImportSession(id: string) {
+    return this.request<{ success: boolean; data: ServerImportSession; message: string }>(
+      `/api/admin/data-management/import/${id}/commit`,
+      { method: 'POST' }
+    )
+  }
+
+  static async rollbackImportSession(id: string, skipConflicts: boolean = false) {
+    return this.request<{ success: boolean; data: ServerImportSession; message: string }>(
+      `/api/admin/data-management/import/${id}/rollback`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ skipConflicts }),
+      }
+    )
+  }
+
+  // Data archival, cleanup and retention
+  static async getArchivalRules() {
+    return this.request<{ success: boolean; data: ArchivalRule[] }>(
+      '/api/admin/data-management/archival?type=archival-rules'
+    )
+  }
+
+  static async getCleanupRules() {
+    return this.request<{ success: boolean; data: CleanupRule[] }>(
+      '/api/admin/data-management/archival?type=cleanup-rules'
+    )
+  }
+
+  static async getRetentionPolicies() {
+    return this.request<{ success: boolean; data: DataRetentionPolicy[] }>(
+      '/api/admin/data-management/archival?type=retention-policies'
+    )
+  }
+
+  static async getArchivedRecords(params?: {
+    entityType?: ArchivedRecord['entityType']
+    status?: ArchivedRecord['status']
+    limit?: number
+    offset?: number
+  }) {
+    const query = new URLSearchParams({ type: 'archived-records' })
+    if (params?.entityType) query.set('entityType', params.entityType)
+    if (params?.status) query.set('status', params.status)
+    if (params?.limit) query.set('limit', String(params.limit))
+    if (params?.offset) query.set('offset', String(params.offset))
+
+    return this.request<{ success: boolean; data: { records: ArchivedRecord[]; total: number } }>(
+      `/api/admin/data-management/archival?${query.toString()}`
+    )
+  }
+
+  static async saveArchivalRule(rule: ArchivalRuleInput) {
+    return this.request<{ success: boolean; data: ArchivalRule; message: string }>('/api/admin/data-management/archival', {
+      method: 'PUT',
+      body: JSON.stringify({ type: 'archival', rule }),
+    })
+  }
+
+  static async saveCleanupRule(rule: CleanupRuleInput) {
+    return this.request<{ success: boolean; data: CleanupRule; message: string }>('/api/admin/data-management/archival', {
+      method: 'PUT',
+      body: JSON.stringify({ type: 'cleanup', rule }),
+    })
+  }
+
+  static async saveRetentionPolicy(policy: RetentionPolicyInput) {
+    return this.request<{ success: boolean; data: DataRetentionPolicy; message: string }>('/api/admin/data-management/archival', {
+      method: 'PUT',
+      body: JSON.stringify({ type: 'retention', rule: policy }),
+    })
+  }
+
+  static async deleteArchivalItem(
+    type: 'archival-rule' | 'cleanup-rule' | 'retention-policy' | 'archived-record',
+    id: string
+  ) {
+    return this.request<{ success: boolean; message: string }>('/api/admin/data-management/archival', {
+      method: 'DELETE',
+      body: JSON.stringify({ type, id }),
+    })
+  }
+
+  static async runArchivalRule(ruleId: string, dryRun: boolean) {
+    return this.request<{
+      success: boolean
+      data: Omit<ArchivalResult, 'success' | 'dryRun'> & { isDryRun: boolean }
+    }>('/api/admin/data-management/archival', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'archive', ruleId, dryRun }),
+    })
+  }
+
+  static async runCleanupRule(ruleId: string, dryRun: boolean) {
+    return this.request<{
+      success: boolean
+      data: Omit<CleanupResult, 'success' | 'dryRun'> & { isDryRun: boolean }
+    }>('/api/admin/data-management/archival', {
+      method: 'POST',
+      body: JSON.stringify({ action: 'cleanup', ruleId, dryRun }),
+    })
+  }
+
+  static async restoreArchivedRecord(archivedId: string) {
+    return this.request<{ success: boolean; data: ArchivedRecord; message: string }>(
+      '/api/admin/data-management/archival',
+      {
+        method: 'POST',
+        body: JSON.stringify({ action: 'restore', archivedId }),
+      }
+    )
+  }
+
+  static async applyRetentionPolicies(dryRun: boolean = false) {
+    return this.request<{ success: boolean; data: RetentionResult & { isDryRun: boolean } }>(
+      '/api/admin/data-management/archival',
+      {
+        method: 'POST',
+        body: JSON.stringify({ action: 'apply-retention', dryRun }),
+      }
+    )
+  }
+
+  // Badge/PIN numbers on third-party time clocks
+  static async getEmployeeExternalIds(userId: string) {
+    return this.request<{ success: boolean; data: ServerEmployeeExternalId[] }>(
+      `/api/admin/employees/${userId}/external-ids`
+    )
+  }
+
+  static async addEmployeeExternalId(userId: string, mapping: { source?: string; externalId: string }) {
+    return this.request<{ success: boolean; data: ServerEmployeeExternalId }>(
+      `/api/admin/employees/${userId}/external-ids`,
+      {
+        method: 'POST',
+        body: JSON.stringify(mapping),
+      }
+    )
+  }
+
+  static async removeEmployeeExternalId(userId: string, mappingId: string) {
+    return this.request<{ success: boolean }>(`/api/admin/employees/${userId}/external-ids/${mappingId}`, {
+      method: 'DELETE',
+    })
+  }
+
   // Analytics API
   static async getAnalyticsStats() {
     return this.request<{
@@ -393,6 +867,8 @@ export class ApiClient {
     is_emergency?: boolean
     compensation_type?: string
     compensation_amount?: number
+    partial_start?: string
+    partial_end?: string
   }) {
     return this.request<{
       success: boolean
@@ -434,6 +910,316 @@ export class ApiClient {
     })
   }
 
+  // Leave API
+  static async getLeaveTypes() {
+    return this.request<{
+      leaveTypes: any[]
+    }>('/api/leave/types')
+  }
+
+  static async getLeaveBalances(year?: number, userId?: string) {
+    const params = new URLSearchParams()
+    if (year) params.set('year', String(year))
+    if (userId) params.set('userId', userId)
+    return this.request<{
+      year: number
+      balances: any[]
+    }>(`/api/leave/balances?${params.toString()}`)
+  }
+
+  static async getLeaveRequests(options: {
+    scope?: 'mine' | 'team' | 'all'
+    status?: string
+    from?: string
+    to?: string
+  } = {}) {
+    const params = new URLSearchParams()
+    Object.entries(options).forEach(([key, value]) => {
+      if (value) params.set(key, value)
+    })
+    return this.request<{
+      requests: any[]
+    }>(`/api/leave?${params.toString()}`)
+  }
+
+  static async requestLeave(data: {
+    leaveTypeId: string
+    startDate: string
+    endDate: string
+    halfDay?: boolean
+    reason: string
+    supportingDocument?: string
+  }) {
+    return this.request<{
+      success: boolean
+      request: any
+      message: string
+    }>('/api/leave', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  static async respondToLeave(requestId: string, response: 'approve' | 'reject', rejectionReason?: string) {
+    return this.request<{
+      success: boolean
+      request: any
+      message: string
+    }>(`/api/leave/${requestId}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ response, rejectionReason }),
+    })
+  }
+
+  static async cancelLeave(requestId: string, reason?: string) {
+    return this.request<{
+      success: boolean
+      request: any
+      message: string
+    }>(`/api/leave/${requestId}/cancel`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    })
+  }
+
+  static async getNonWorkingDays(startDate: string, endDate: string) {
+    const params = new URLSearchParams({ startDate, endDate })
+    return this.request<{
+      leaveDates: string[]
+      holidayDates: string[]
+    }>(`/api/leave/non-working-days?${params.toString()}`)
+  }
+
+  // Overtime API
+  static async getOvertime(options: {
+    scope?: 'mine' | 'team' | 'all'
+    status?: string
+    from?: string
+    to?: string
+  } = {}) {
+    const params = new URLSearchParams()
+    Object.entries(options).forEach(([key, value]) => {
+      if (value) params.set(key, value)
+    })
+    return this.request<{
+      records: any[]
+    }>(`/api/overtime?${params.toString()}`)
+  }
+
+  static async requestOvertime(data:
+    | { type: 'pre'; workDate: string; plannedStart: string; plannedEnd: string; reason: string }
+    | { type: 'post'; workDate: string; reason: string }
+  ) {
+    return this.request<{
+      success: boolean
+      record: any
+      message: string
+    }>('/api/overtime', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  static async respondToOvertime(
+    recordId: string,
+    response: 'approve' | 'reject',
+    options: { approvedMinutes?: number; rejectionReason?: string } = {}
+  ) {
+    return this.request<{
+      success: boolean
+      record: any
+      message: string
+    }>(`/api/overtime/${recordId}/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ response, ...options }),
+    })
+  }
+
+  static async cancelOvertime(recordId: string) {
+    return this.request<{
+      success: boolean
+      record: any
+      message: string
+    }>(`/api/overtime/${recordId}/cancel`, {
+      method: 'POST',
+    })
+  }
+
+  // Batch Sync API
+  // Stable id for this browser profile, so the server can tell devices apart
+  static getSyncDeviceId(): string {
+    const key = 'sync-device-id'
+    let deviceId = localStorage.getItem(key)
+    if (!deviceId) {
+      deviceId = crypto.randomUUID()
+      localStorage.setItem(key, deviceId)
+    }
+    return deviceId
+  }
+
+  // A registered kiosk syncs under its kiosk id (lib/kiosk-registration.ts)
+  static setSyncDeviceId(deviceId: string): void {
+    localStorage.setItem('sync-device-id', deviceId)
+  }
+
+  // Token and device id for the service worker, which can't read app storage
+  static getSyncCredentials(): { token: string | null; deviceId: string } {
+    return { token: this.getToken(), deviceId: this.getSyncDeviceId() }
+  }
+
+  // Upload mutations as one batch; a registered kiosk signs the request
+  static async syncBatch(mutations: SyncMutation[]) {
+    const token = this.getToken()
+    if (!token) {
+      throw Object.assign(new Error('Not signed in'), { status: 401 })
+    }
+
+    const batch: SyncBatch = {
+      batchId: crypto.randomUUID(),
+      deviceId: this.getSyncDeviceId(),
+      createdAt: new Date().toISOString(),
+      mutations,
+    }
+
+    return this.request<SyncBatchResponse & { success: boolean }>('/api/sync', {
+      method: 'POST',
+      body: JSON.stringify(batch),
+    })
+  }
+
+  static async getSyncChanges(entity: SyncFeedEntity, cursor: string, limit?: number) {
+    const params = new URLSearchParams({ entity, cursor })
+    if (limit) params.set('limit', String(limit))
+    return this.request<SyncChangePage & { success: boolean }>(`/api/sync/changes?${params}`)
+  }
+
+  static async reportSyncDeadLetters(deadLetters: SyncDeadLetterReport[]) {
+    return this.request<SyncDeadLetterAck & { success: boolean }>('/api/sync/dead-letters', {
+      method: 'POST',
+      body: JSON.stringify({ deviceId: this.getSyncDeviceId(), deadLetters }),
+    })
+  }
+
+  // Sync Dead Letter Console API (admin)
+  static async getSyncDeadLetters(params?: {
+    deviceId?: string
+    status?: SyncDeadLetterStatus
+    limit?: number
+    offset?: number
+  }) {
+    const query = new URLSearchParams()
+    if (params?.deviceId) query.set('deviceId', params.deviceId)
+    if (params?.status) query.set('status', params.status)
+    if (params?.limit) query.set('limit', String(params.limit))
+    if (params?.offset) query.set('offset', String(params.offset))
+
+    return this.request<{
+      success: boolean
+      data: ServerSyncDeadLetter[]
+      devices: ServerSyncDeadLetterDevice[]
+      pagination: { total: number; limit: number; offset: number }
+    }>(`/api/admin/monitoring/dead-letters?${query}`)
+  }
+
+  static async retrySyncDeadLetter(id: string, data?: Record<string, any>) {
+    return this.request<{
+      success: boolean
+      data: ServerSyncDeadLetter
+      result: SyncItemResult
+      message: string
+    }>(`/api/admin/monitoring/dead-letters/${id}/retry`, {
+      method: 'POST',
+      body: JSON.stringify(data ? { data } : {}),
+    })
+  }
+
+  static async discardSyncDeadLetter(id: string, notes?: string) {
+    return this.request<{
+      success: boolean
+      data: ServerSyncDeadLetter
+      message: string
+    }>(`/api/admin/monitoring/dead-letters/${id}/discard`, {
+      method: 'POST',
+      body: JSON.stringify({ notes }),
+    })
+  }
+
+  // Office Sites API
+  static async getOfficeSites() {
+    return this.request<{ success: boolean; data: ServerOfficeSite[] }>('/api/admin/sites')
+  }
+
+  // Kiosk Devices API
+  static async registerKioskDevice(data: {
+    code: string
+    name: string
+    publicKey: JsonWebKey
+  }) {
+    return this.request<{ success: boolean; data: KioskDeviceState }>('/api/kiosk/register', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  static async kioskHeartbeat(heartbeat: KioskHeartbeat) {
+    return this.request<{ success: boolean; data: KioskDeviceState }>('/api/kiosk/heartbeat', {
+      method: 'POST',
+      body: JSON.stringify(heartbeat),
+    })
+  }
+
+  static async getKioskDevices(params?: { siteId?: string; status?: KioskDeviceStatus }) {
+    const searchParams = new URLSearchParams()
+    if (params?.siteId) searchParams.append('siteId', params.siteId)
+    if (params?.status) searchParams.append('status', params.status)
+
+    const query = searchParams.toString()
+    return this.request<{ success: boolean; data: ServerKioskDevice[] }>(
+      `/api/admin/kiosk/devices${query ? `?${query}` : ''}`
+    )
+  }
+
+  static async updateKioskDevice(id: string, data: {
+    name?: string
+    siteId?: string
+    status?: KioskDeviceStatus
+    reason?: string
+  }) {
+    return this.request<{
+      success: boolean
+      data: ServerKioskDevice
+      message: string
+    }>(`/api/admin/kiosk/devices/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  }
+
+  static async getKioskEnrollmentCodes() {
+    return this.request<{ success: boolean; data: ServerKioskEnrollmentCode[] }>('/api/admin/kiosk/enrollment-codes')
+  }
+
+  static async createKioskEnrollmentCode(data: {
+    siteId: string
+    label?: string
+    expiresInHours?: number
+  }) {
+    return this.request<{
+      success: boolean
+      data: ServerKioskEnrollmentCode & { code: string }
+      message: string
+    }>('/api/admin/kiosk/enrollment-codes', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  static async getOfflineFaceCache(siteId: string) {
+    return this.request<{ success: boolean; data: OfflineFaceCache }>(
+      `/api/face/offline-cache?siteId=${encodeURIComponent(siteId)}`
+    )
+  }
+
   // Break Management API
   static async validateBreak() {
     return this.request<{
@@ -0,0 +1,389 @@
+/**
+ * Attendance Evaluation Service
+ * Resolves the shift an employee is working at a given moment and evaluates
+ * check-in/check-out events against it (late, early leave, grace periods)
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerShift, ServerHoliday, ServerAttendanceRecord } from '@/lib/server-db'
+import { OFFICE_INFO } from '@/lib/app-config'
+import {
+  officeDateTimeToUtc,
+  toOfficeDateString,
+  addDaysToDateString,
+  getDateStringWeekday,
+  timeStringToMinutes
+} from '@/lib/office-time'
+import { leaveService } from '@/lib/leave'
+import { holidayCalendar } from '@/lib/holiday-calendar'
+import { logger } from '@/lib/logger'
+
+export type AttendanceEventType = 'check-in' | 'check-out' | 'break-start' | 'break-end'
+
+export type ShiftSource = 'assignment' | 'default' | 'fallback'
+
+export interface EffectiveShift {
+  shift: ServerShift
+  source: ShiftSource
+  shiftDate: string // Office-local date the shift starts on (YYYY-MM-DD)
+  start: Date
+  end: Date
+  windowStart: Date // Earliest moment an event can belong to this shift
+  windowEnd: Date // Latest moment an event can belong to this shift
+  isWorkingDay: boolean
+  holiday?: ServerHoliday // Holiday on the shift date, if any
+}
+
+export type OvertimeRateTier = 'weekday' | 'weekend' | 'holiday'
+
+export interface AttendanceEvaluation {
+  status: 'present' | 'late' | 'early_leave'
+  effectiveShift: EffectiveShift
+  lateMinutes: number
+  earlyLeaveMinutes: number
+  minutesFromShiftStart: number
+  minutesToShiftEnd: number
+}
+
+// How far around a shift an event is still attributed to it
+const EARLY_CHECK_IN_MINUTES = 240
+const LATE_CHECK_OUT_MINUTES = 240
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+const SHIFT_CACHE_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Build the concrete shift window for a shift starting on an office-local date
+ */
+export function buildShiftWindow(
+  shift: ServerShift,
+  shiftDate: string,
+  timeZone: string = OFFICE_INFO.timezone
+): Pick<EffectiveShift, 'start' | 'end' | 'windowStart' | 'windowEnd'> {
+  const crossesMidnight =
+    shift.isOvernight || timeStringToMinutes(shift.endTime) <= timeStringToMinutes(shift.startTime)
+  const endDate = crossesMidnight ? addDaysToDateString(shiftDate, 1) : shiftDate
+
+  const start = officeDateTimeToUtc(shiftDate, shift.startTime, timeZone)
+  const end = officeDateTimeToUtc(endDate, shift.endTime, timeZone)
+
+  return {
+    start,
+    end,
+    windowStart: new Date(start.getTime() - EARLY_CHECK_IN_MINUTES * 60000),
+    windowEnd: new Date(end.getTime() + LATE_CHECK_OUT_MINUTES * 60000)
+  }
+}
+
+/**
+ * Whether a shift runs on an office-local date's weekday
+ */
+export function isShiftActiveDay(shift: ServerShift, date: string): boolean {
+  if (!shift.activeDays || shift.activeDays.length === 0) {
+    return true
+  }
+  const dayName = DAY_NAMES[getDateStringWeekday(date)]
+  return shift.activeDays.map(d => d.toLowerCase()).includes(dayName)
+}
+
+/**
+ * Shorten a shift to end at a half-day holiday's closing time
+ */
+export function applyHalfDay(shift: ServerShift, holiday: ServerHoliday): ServerShift {
+  if (!holiday.isHalfDay || !holiday.halfDayEndTime) {
+    return shift
+  }
+
+  const startMinutes = timeStringToMinutes(shift.startTime)
+  const endMinutes = timeStringToMinutes(holiday.halfDayEndTime)
+  if (shift.isOvernight || endMinutes <= startMinutes || endMinutes >= timeStringToMinutes(shift.endTime)) {
+    return shift
+  }
+
+  return {
+    ...shift,
+    endTime: holiday.halfDayEndTime,
+    expectedWorkHours: Math.min(shift.expectedWorkHours, (endMinutes - startMinutes) / 60)
+  }
+}
+
+/**
+ * Overtime rate tier for work on a resolved shift: holidays take the holiday
+ * rate, rest days the weekend rate, and regular working days the weekday rate
+ */
+export function getOvertimeRateTier(effectiveShift: EffectiveShift): OvertimeRateTier {
+  if (effectiveShift.holiday && !effectiveShift.holiday.isHalfDay) {
+    return 'holiday'
+  }
+  return effectiveShift.isWorkingDay ? 'weekday' : 'weekend'
+}
+
+export function getOvertimeRate(effectiveShift: EffectiveShift): number {
+  const { shift } = effectiveShift
+  const tier = getOvertimeRateTier(effectiveShift)
+  if (tier === 'holiday') return shift.overtimeRateHoliday
+  if (tier === 'weekend') return shift.overtimeRateWeekend
+  return shift.overtimeRateWeekday
+}
+
+/**
+ * Evaluate an attendance event against a resolved shift
+ *
+ * Check-ins within `clockInGraceMinutes` of the shift start carry no late
+ * minutes; beyond that, late minutes are counted from the end of the grace
+ * period and the status becomes `late` once `lateThresholdMinutes` is passed.
+ * Check-outs mirror this with the clock-out grace and early-leave threshold.
+ */
+export function evaluateAgainstShift(
+  effectiveShift: EffectiveShift,
+  at: Date,
+  type: AttendanceEventType
+): AttendanceEvaluation {
+  const { shift } = effectiveShift
+  const minutesFromShiftStart = Math.floor((at.getTime() - effectiveShift.start.getTime()) / 60000)
+  const minutesToShiftEnd = Math.floor((effectiveShift.end.getTime() - at.getTime()) / 60000)
+
+  let status: AttendanceEvaluation['status'] = 'present'
+  let lateMinutes = 0
+  let earlyLeaveMinutes = 0
+
+  if (effectiveShift.isWorkingDay) {
+    if (type === 'check-in' && minutesFromShiftStart > 0) {
+      lateMinutes = Math.max(0, minutesFromShiftStart - shift.clockInGraceMinutes)
+      if (minutesFromShiftStart > shift.lateThresholdMinutes) {
+        status = 'late'
+      }
+    }
+
+    if (type === 'check-out' && minutesToShiftEnd > 0) {
+      earlyLeaveMinutes = Math.max(0, minutesToShiftEnd - shift.clockOutGraceMinutes)
+      if (minutesToShiftEnd > shift.earlyLeaveThresholdMinutes) {
+        status = 'early_leave'
+      }
+    }
+  }
+
+  return {
+    status,
+    effectiveShift,
+    lateMinutes,
+    earlyLeaveMinutes,
+    minutesFromShiftStart,
+    minutesToShiftEnd
+  }
+}
+
+export class AttendanceEvaluationService {
+  private shiftCache = new Map<string, { shift: ServerShift | null; expiresAt: number }>()
+
+  /**
+   * Resolve the shift an employee is working at the given moment.
+   * Overnight shifts that started on the previous office-local day are
+   * considered, so a 05:30 check-out still belongs to last night's shift.
+   */
+  async resolveEffectiveShift(
+    userId: string,
+    at: Date,
+    type: AttendanceEventType = 'check-in'
+  ): Promise<EffectiveShift> {
+    const today = toOfficeDateString(at)
+    const yesterday = addDaysToDateString(today, -1)
+
+    const candidates: EffectiveShift[] = []
+    for (const shiftDate of [yesterday, today]) {
+      const candidate = await this.resolveShiftForDate(userId, shiftDate)
+      if (!candidate) continue
+
+      // A previous-day shift is only relevant when it runs past midnight
+      if (shiftDate === yesterday && toOfficeDateString(candidate.end) === yesterday) {
+        continue
+      }
+      candidates.push(candidate)
+    }
+
+    if (candidates.length === 0) {
+      return this.buildFallbackShift(today)
+    }
+
+    const distance = (candidate: EffectiveShift): number => {
+      const t = at.getTime()
+      if (type === 'check-in') {
+        return Math.abs(t - candidate.start.getTime())
+      }
+      if (t >= candidate.start.getTime() && t <= candidate.windowEnd.getTime()) {
+        return 0
+      }
+      return Math.min(Math.abs(t - candidate.start.getTime()), Math.abs(t - candidate.end.getTime()))
+    }
+
+    // Prefer working-day shifts whose window contains the event, then the closest one
+    const inWindow = candidates.filter(c => at >= c.windowStart && at <= c.windowEnd)
+    const pool = inWindow.length > 0 ? inWindow : candidates
+    pool.sort((a, b) => {
+      if (a.isWorkingDay !== b.isWorkingDay) return a.isWorkingDay ? -1 : 1
+      return distance(a) - distance(b)
+    })
+
+    return pool[0]
+  }
+
+  /**
+   * Resolve the shift for an employee at a moment and evaluate the event against it
+   */
+  async evaluate(userId: string, at: Date, type: AttendanceEventType): Promise<AttendanceEvaluation> {
+    const effectiveShift = await this.resolveEffectiveShift(userId, at, type)
+    const evaluation = evaluateAgainstShift(effectiveShift, at, type)
+
+    logger.debug('Attendance evaluated', {
+      userId,
+      type,
+      shift: effectiveShift.shift.code,
+      source: effectiveShift.source,
+      shiftDate: effectiveShift.shiftDate,
+      holiday: effectiveShift.holiday?.name,
+      status: evaluation.status,
+      lateMinutes: evaluation.lateMinutes,
+      earlyLeaveMinutes: evaluation.earlyLeaveMinutes
+    })
+
+    return evaluation
+  }
+
+  /**
+   * Check-ins already recorded in an effective shift's window. A shift takes
+   * one check-in, however it arrives (kiosk, manual, offline upload).
+   */
+  async findShiftCheckIns(userId: string, effectiveShift: EffectiveShift): Promise<ServerAttendanceRecord[]> {
+    return serverDbManager.getAttendanceRecords({
+      userId,
+      startDate: effectiveShift.windowStart,
+      endDate: effectiveShift.windowEnd,
+      type: 'check-in'
+    })
+  }
+
+  /**
+   * Clear cached shift definitions (e.g. after shifts are edited)
+   */
+  invalidateCache(): void {
+    this.shiftCache.clear()
+  }
+
+  private async resolveShiftForDate(userId: string, shiftDate: string): Promise<EffectiveShift | null> {
+    // 1. Explicit roster assignment for that day
+    const day = new Date(`${shiftDate}T00:00:00.000Z`)
+    const assignments = await serverDbManager.getScheduleAssignments({
+      userId,
+      startDate: day,
+      endDate: day
+    })
+    const assignment = assignments.find(a => a.shiftId && a.status !== 'cancelled')
+    // Only cancelled assignments (e.g. a shift given away in a swap) means a day off
+    const released = assignments.length > 0 && assignments.every(a => a.status === 'cancelled')
+    // Approved leave blocks the day whatever the roster says
+    const onLeave = await leaveService.isOnApprovedLeave(userId, shiftDate)
+    const holiday = (await holidayCalendar.getHolidayForUser(userId, shiftDate)) || undefined
+
+    // Rostering someone onto a holiday is deliberate: it stays a working day
+    // (paid at the holiday overtime rate) and is not shortened on half-days
+    if (assignment?.shiftId) {
+      const shift = await this.getCachedShift(assignment.shiftId)
+      if (shift) {
+        return {
+          shift,
+          source: 'assignment',
+          shiftDate,
+          isWorkingDay: !onLeave,
+          holiday,
+          ...buildShiftWindow(shift, shiftDate)
+        }
+      }
+    }
+
+    // 2. Employee's default shift, honouring its active days and the holiday calendar
+    const defaultShiftId = await serverDbManager.getUserDefaultShiftId(userId)
+    if (defaultShiftId) {
+      const defaultShift = await this.getCachedShift(defaultShiftId)
+      if (defaultShift && defaultShift.isActive) {
+        const shift = holiday ? applyHalfDay(defaultShift, holiday) : defaultShift
+        return {
+          shift,
+          source: 'default',
+          shiftDate,
+          isWorkingDay:
+            !released && !onLeave && !(holiday && !holiday.isHalfDay) && isShiftActiveDay(shift, shiftDate),
+          holiday,
+          ...buildShiftWindow(shift, shiftDate)
+        }
+      }
+    }
+
+    return null
+  }
+
+  private async buildFallbackShift(shiftDate: string): Promise<EffectiveShift> {
+    // Company-wide regular shift, then configured working hours
+    let shift = await this.getCachedShift('code:REG')
+
+    if (!shift) {
+      const attendanceSettings = await serverDbManager.getSettings('attendance').catch(() => null)
+      const now = new Date()
+      shift = {
+        id: 'fallback',
+        name: 'Regular Hours',
+        code: 'REG',
+        startTime: attendanceSettings?.workingHours?.start || OFFICE_INFO.workStart,
+        endTime: attendanceSettings?.workingHours?.end || OFFICE_INFO.workEnd,
+        isOvernight: false,
+        expectedWorkHours: attendanceSettings?.requiredWorkHours ?? 8,
+        lateThresholdMinutes: attendanceSettings?.lateThreshold ?? 15,
+        earlyLeaveThresholdMinutes: attendanceSettings?.earlyLeaveThreshold ?? 15,
+        clockInGraceMinutes: 5,
+        clockOutGraceMinutes: 5,
+        overtimeAfterHours: 8,
+        overtimeRateWeekday: 1.5,
+        overtimeRateWeekend: 2,
+        overtimeRateHoliday: 3,
+        allowsWfh: false,
+        requiresLocation: true,
+        requiresPhoto: false,
+        activeDays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      }
+    }
+
+    const holiday = (await holidayCalendar.getCompanyHoliday(shiftDate)) || undefined
+    if (holiday) {
+      shift = applyHalfDay(shift, holiday)
+    }
+
+    return {
+      shift,
+      source: 'fallback',
+      shiftDate,
+      isWorkingDay: !(holiday && !holiday.isHalfDay) && isShiftActiveDay(shift, shiftDate),
+      holiday,
+      ...buildShiftWindow(shift, shiftDate)
+    }
+  }
+
+  private async getCachedShift(key: string): Promise<ServerShift | null> {
+    const cached = this.shiftCache.get(key)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.shift
+    }
+
+    const shift = key.startsWith('code:')
+      ? await serverDbManager.getShiftByCode(key.slice(5))
+      : await serverDbManager.getShift(key)
+
+    this.shiftCache.set(key, { shift, expiresAt: Date.now() + SHIFT_CACHE_TTL_MS })
+    return shift
+  }
+}
+
+// Export singleton instance
+export const attendanceEvaluation = new AttendanceEvaluationService()
@@ -0,0 +1,272 @@
+/**
+ * Attendance Reconciler
+ * Keeps version metadata on local attendance records and settles upload
+ * conflicts with a three-way merge against the last server copy the device
+ * saw. Only fields the attendance rules can't settle become a pending
+ * conflict in the ConflictResolver (and so reach ConflictModal).
+ */
+
+import { storageService } from './storage'
+import { AttendanceRecord } from './db'
+import { ApiClient } from './api-client'
+import { conflictResolver } from './conflict-resolver'
+import { Conflict, ConflictCategory, RecordVersion, ResolutionStrategy, VersionVector } from './conflict-types'
+import { compareVectors, incrementVector, mergeVectors, SERVER_NODE } from './version-vector'
+
+import { logger } from '@/lib/logger'
+
+export type ReconcileOutcome =
+  | 'stale' // The server copy already had every local edit; local copy replaced
+  | 'rebased' // Local copy had every server edit; re-uploaded on top of it
+  | 'merged' // Concurrent edits, settled by the merge rules
+  | 'manual' // Concurrent edits the rules couldn't settle
+
+// Fields that take part in merges; the rest is sync bookkeeping
+const MERGE_FIELDS = ['userId', 'timestamp', 'type', 'location', 'photo', 'notes'] as const
+
+interface PendingMerge {
+  record: AttendanceRecord
+  version: RecordVersion
+}
+
+export class AttendanceReconciler {
+  // Records waiting on a manual resolution, by conflict id
+  private pending: Map<string, PendingMerge> = new Map()
+  // Resolutions being written locally, by conflict id
+  private applying: Map<string, Promise<void>> = new Map()
+
+  constructor() {
+    conflictResolver.onNotification((notification, conflict) => {
+      if (notification.type === 'resolved' && this.pending.has(conflict.metadata.id)) {
+        const id = conflict.metadata.id
+        const applied = this.applyResolution(conflict)
+          .catch(error => logger.error('Error applying attendance conflict resolution', error as Error))
+          .finally(() => this.applying.delete(id))
+        this.applying.set(id, applied)
+      }
+    })
+  }
+
+  /**
+   * Conflicts still waiting on a person, as registered in the ConflictResolver
+   */
+  getPendingConflicts(): Conflict[] {
+    return Array.from(this.pending.keys())
+      .map(id => conflictResolver.getConflict(id))
+      .filter((conflict): conflict is Conflict => !!conflict && !conflict.metadata.resolved)
+  }
+
+  /**
+   * Settle a pending conflict by keeping this device's values, the server's,
+   * or a field-level merge of both. Goes through the ConflictResolver like
+   * ConflictModal does, so both views stay in step; resolves once the
+   * outcome is saved locally.
+   */
+  async resolve(conflictId: string, choice: 'local' | 'remote' | 'merge', userId: string): Promise<boolean> {
+    const conflict = conflictResolver.getConflict(conflictId)
+    if (!conflict || !this.pending.has(conflictId)) {
+      return false
+    }
+
+    const settled = choice === 'merge'
+      ? conflictResolver.resolveConflict(conflictId, ResolutionStrategy.FIELD_LEVEL)
+      : conflictResolver.manuallyResolveConflict({
+          conflictId,
+          resolution: Object.fromEntries(conflict.conflictedFields.map(field =>
+            [field.name, choice === 'local' ? field.localValue : field.remoteValue]
+          )),
+          strategy: ResolutionStrategy.MANUAL,
+          userId,
+        })
+
+    await this.applying.get(conflictId)
+    return settled
+  }
+
+  /**
+   * Version for a record created on this device that has never been synced
+   */
+  ensureVersion(record: AttendanceRecord): AttendanceRecord {
+    if (!record.version) {
+      record.version = {
+        baseRevision: null,
+        base: null,
+        vector: incrementVector({}, this.getDeviceNode()),
+      }
+    }
+    return record
+  }
+
+  /**
+   * The server stored (or already had) the record: its copy becomes the
+   * new common ancestor
+   */
+  async recordApplied(record: AttendanceRecord, serverRow?: Record<string, any>): Promise<void> {
+    record.synced = true
+    record.pendingSync = false
+
+    if (serverRow) {
+      const remote = this.fromServerRow(serverRow)
+      record.version = {
+        baseRevision: this.revisionOf(serverRow),
+        base: this.project(remote),
+        vector: mergeVectors(record.version?.vector || {}, this.vectorOf(serverRow)),
+      }
+    }
+
+    await storageService.saveAttendanceRecord(record)
+  }
+
+  /**
+   * The server refused the upload because its copy changed since the
+   * device's base revision
+   */
+  async reconcile(record: AttendanceRecord, serverRow: Record<string, any>): Promise<{
+    outcome: ReconcileOutcome
+    conflict: Conflict | null
+  }> {
+    const remote = this.fromServerRow(serverRow)
+    const remoteVector = this.vectorOf(serverRow)
+    const localVector = record.version?.vector || {}
+    const order = compareVectors(localVector, remoteVector)
+
+    const nextVersion: RecordVersion = {
+      baseRevision: this.revisionOf(serverRow),
+      base: this.project(remote),
+      vector: mergeVectors(localVector, remoteVector),
+    }
+
+    if (order === 'before' || order === 'equal') {
+      await storageService.saveAttendanceRecord({
+        ...record,
+        ...remote,
+        synced: true,
+        pendingSync: false,
+        version: nextVersion,
+      })
+      return { outcome: 'stale', conflict: null }
+    }
+
+    if (order === 'after') {
+      await storageService.saveAttendanceRecord({
+        ...record,
+        synced: false,
+        pendingSync: true,
+        version: nextVersion,
+      })
+      return { outcome: 'rebased', conflict: null }
+    }
+
+    const result = conflictResolver.mergeThreeWay(
+      record.version?.base || null,
+      this.project(record),
+      this.project(remote),
+      'attendance',
+      record.id,
+      ConflictCategory.ATTENDANCE
+    )
+
+    if (result.conflict) {
+      this.pending.set(result.conflict.metadata.id, { record, version: nextVersion })
+      logger.warn('Attendance conflict needs manual resolution', {
+        recordId: record.id,
+        fields: result.conflict.conflictedFields.map(field => field.name),
+      })
+      return { outcome: 'manual', conflict: result.conflict }
+    }
+
+    await this.saveMerged(record, result.merged, nextVersion)
+    logger.info('Attendance conflict merged', {
+      recordId: record.id,
+      autoMergedFields: result.autoMergedFields,
+    })
+    return { outcome: 'merged', conflict: null }
+  }
+
+  private async applyResolution(conflict: Conflict): Promise<void> {
+    const pending = this.pending.get(conflict.metadata.id)
+    if (!pending) return
+    this.pending.delete(conflict.metadata.id)
+
+    const merged: Record<string, any> = { ...this.project(pending.record) }
+    for (const field of MERGE_FIELDS) {
+      const settled = conflict.conflictedFields.find(f => f.name === field)
+      if (settled) {
+        merged[field] = settled.resolvedValue !== undefined ? settled.resolvedValue : settled.localValue
+      } else if (conflict.suggestedResolution && field in conflict.suggestedResolution) {
+        merged[field] = conflict.suggestedResolution[field]
+      }
+    }
+
+    await this.saveMerged(pending.record, merged, pending.version)
+  }
+
+  // A merge is a new local edit on top of the server copy; it goes out on
+  // the next push and fast-forwards the server
+  private async saveMerged(record: AttendanceRecord, merged: Record<string, any>, version: RecordVersion): Promise<void> {
+    await storageService.saveAttendanceRecord({
+      ...record,
+      userId: merged.userId,
+      timestamp: new Date(merged.timestamp),
+      type: merged.type,
+      location: merged.location,
+      photo: merged.photo,
+      notes: merged.notes,
+      synced: false,
+      pendingSync: true,
+      updatedAt: new Date(),
+      version: { ...version, vector: incrementVector(version.vector, this.getDeviceNode()) },
+    })
+  }
+
+  // Comparable snapshot of the merge fields
+  private project(record: Partial<AttendanceRecord>): Record<string, any> {
+    return {
+      userId: record.userId,
+      timestamp: record.timestamp ? new Date(record.timestamp).toISOString() : undefined,
+      type: record.type,
+      location: record.location ?? undefined,
+      photo: record.photo ?? undefined,
+      notes: record.notes || undefined,
+    }
+  }
+
+  private fromServerRow(row: Record<string, any>): Partial<AttendanceRecord> {
+    let location = row.location
+    if (typeof location === 'string') {
+      try {
+        location = JSON.parse(location)
+      } catch {
+        location = undefined
+      }
+    }
+
+    return {
+      id: row.id,
+      userId: row.user_id,
+      timestamp: new Date(row.timestamp),
+      type: row.type,
+      location: location ?? undefined,
+      photo: row.photo_url ?? undefined,
+      notes: row.notes ?? undefined,
+      updatedAt: row.updated_at ? new Date(row.updated_at) : undefined,
+    }
+  }
+
+  private vectorOf(row: Record<string, any>): VersionVector {
+    return row.version_vector && typeof row.version_vector === 'object'
+      ? row.version_vector
+      : { [SERVER_NODE]: 1 }
+  }
+
+  private revisionOf(row: Record<string, any>): string | null {
+    return row.updated_at ? new Date(row.updated_at).toISOString() : null
+  }
+
+  private getDeviceNode(): string {
+    return ApiClient.getSyncDeviceId()
+  }
+}
+
+// Singleton instance
+export const attendanceReconciler = new AttendanceReconciler()
@@ -26,7 +26,7 @@ export class AttendanceUtils {
 
   /**
    * Check if a given date is a holiday
-   * In a real implementation, this would check against a holiday calendar
+   * Callers pass the dates from the holiday calendar (`holidayCalendar.getHolidayDates`)
    */
   static isHoliday(date: Date, holidays: Date[] = []): boolean {
     return holidays.some(holiday => 
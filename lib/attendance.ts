@@ -1,6 +1,7 @@
 import { supabase } from './supabase';
 import { storageService } from './storage';
 import { syncManager } from './sync-manager';
+import { ApiClient } from './api-client';
 import { AttendanceRecord, AttendanceStats, AttendancePolicy, DailyAttendanceRecord } from '@/types';
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
@@ -363,6 +364,8 @@ export class AttendanceService {
         total_days: 0,
         present_days: 0,
         absent_days: 0,
+        on_leave_days: 0,
+        holiday_days: 0,
         late_days: 0,
         early_leave_days: 0,
         total_work_hours: 0,
@@ -381,6 +384,9 @@ export class AttendanceService {
 
       stats.total_days = records.length;
 
+      // Days on approved leave or holidays are never counted as absences
+      const { leaveDates, holidayDates } = await this.getNonWorkingDays(startDate, endDate);
+
       for (const record of records) {
         if (record.clock_in && record.clock_out) {
           stats.present_days++;
@@ -421,6 +427,10 @@ export class AttendanceService {
             const overtimeMinutes = (clockOutTime.getTime() - workEndTime.getTime()) / (1000 * 60);
             stats.overtime_hours += overtimeMinutes / 60;
           }
+        } else if (record.status === 'absent' && leaveDates.has(record.date)) {
+          stats.on_leave_days++;
+        } else if (record.status === 'absent' && holidayDates.has(record.date)) {
+          stats.holiday_days++;
         } else if (record.status === 'absent') {
           stats.absent_days++;
         }
@@ -442,6 +452,8 @@ export class AttendanceService {
         total_days: 0,
         present_days: 0,
         absent_days: 0,
+        on_leave_days: 0,
+        holiday_days: 0,
         late_days: 0,
         early_leave_days: 0,
         total_work_hours: 0,
@@ -451,6 +463,19 @@ export class AttendanceService {
     }
   }
 
+  private async getNonWorkingDays(startDate: Date, endDate: Date): Promise<{ leaveDates: Set<string>; holidayDates: Set<string> }> {
+    try {
+      const { leaveDates, holidayDates } = await ApiClient.getNonWorkingDays(
+        startDate.toISOString().split('T')[0],
+        endDate.toISOString().split('T')[0]
+      );
+      return { leaveDates: new Set(leaveDates), holidayDates: new Set(holidayDates) };
+    } catch (error) {
+      logger.warn('Could not load approved leave and holidays for attendance stats', { error });
+      return { leaveDates: new Set(), holidayDates: new Set() };
+    }
+  }
+
   async markAbsent(userId: string, date: string, reason?: string): Promise<DailyAttendanceRecord | null> {
     try {
       // Check if record already exists for this date
@@ -15,7 +15,9 @@ import {
   ConflictStats,
   ConflictHistoryEntry,
   ManualResolutionRequest,
-  ConflictNotification
+  ConflictNotification,
+  FieldMergeRule,
+  MergeResult
 } from './conflict-types';
 
 /**
@@ -27,6 +29,38 @@ const DEFAULT_RESOLUTION_OPTIONS: ResolutionOptions = {
   maxRetryAttempts: 3,
 };
 
+/**
+ * Attendance rules for fields both sides changed: the earliest check-in and
+ * the latest check-out win, and notes from both sides are kept
+ */
+const ATTENDANCE_MERGE_RULES: Record<string, FieldMergeRule> = {
+  timestamp: (localValue, remoteValue, merged) => {
+    const local = new Date(localValue).getTime();
+    const remote = new Date(remoteValue).getTime();
+    if (isNaN(local) || isNaN(remote)) return undefined;
+
+    if (merged.type === 'check-in') return local <= remote ? localValue : remoteValue;
+    if (merged.type === 'check-out') return local >= remote ? localValue : remoteValue;
+    return undefined;
+  },
+  notes: (localValue, remoteValue) => {
+    const parts = [remoteValue, localValue]
+      .filter((note): note is string => typeof note === 'string' && note.trim().length > 0)
+      .map(note => note.trim());
+    if (parts.length === 2 && (parts[0].includes(parts[1]) || parts[1].includes(parts[0]))) {
+      return parts[0].length >= parts[1].length ? parts[0] : parts[1];
+    }
+    return parts.join('\n');
+  }
+};
+
+const MERGE_RULES: Record<string, Record<string, FieldMergeRule>> = {
+  attendance: ATTENDANCE_MERGE_RULES
+};
+
+// Fields settled first, because other rules read them from `merged`
+const MERGE_FIELD_ORDER = ['type'];
+
 /**
  * Conflict Resolver class
  */
@@ -35,6 +69,7 @@ export class ConflictResolver {
   private conflicts: Map<string, Conflict> = new Map();
   private history: ConflictHistoryEntry[] = [];
   private notifications: ConflictNotification[] = [];
+  private notificationListeners: Array<(notification: ConflictNotification, conflict: Conflict) => void> = [];
   private stats: ConflictStats = {
     total: 0,
     resolved: 0,
@@ -148,6 +183,114 @@ export class ConflictResolver {
     return conflicts;
   }
 
+  /**
+   * Three-way merge against the common ancestor. Fields changed on one side
+   * take that side's value; fields changed on both go through the entity's
+   * merge rules. Only fields no rule settles become a (pending) conflict.
+   * Without an ancestor every differing field counts as changed on both.
+   */
+  mergeThreeWay(
+    baseData: Record<string, any> | null,
+    localData: Record<string, any>,
+    remoteData: Record<string, any>,
+    entityType: string,
+    entityId: string,
+    category: ConflictCategory = ConflictCategory.CUSTOM
+  ): MergeResult {
+    const rules = MERGE_RULES[entityType] || {};
+    const merged: Record<string, any> = {};
+    const autoMergedFields: string[] = [];
+    const conflictedFields: ConflictedField[] = [];
+
+    const allFields = Array.from(new Set([
+      ...Object.keys(baseData || {}),
+      ...Object.keys(localData || {}),
+      ...Object.keys(remoteData || {})
+    ])).sort((a, b) => {
+      const rank = (field: string) => {
+        const index = MERGE_FIELD_ORDER.indexOf(field);
+        return index === -1 ? MERGE_FIELD_ORDER.length : index;
+      };
+      return rank(a) - rank(b);
+    });
+
+    for (const fieldName of allFields) {
+      const localValue = localData?.[fieldName];
+      const remoteValue = remoteData?.[fieldName];
+      const baseValue = baseData?.[fieldName];
+
+      if (this.isEqual(localValue, remoteValue)) {
+        merged[fieldName] = localValue;
+        continue;
+      }
+      if (baseData && this.isEqual(localValue, baseValue)) {
+        merged[fieldName] = remoteValue;
+        continue;
+      }
+      if (baseData && this.isEqual(remoteValue, baseValue)) {
+        merged[fieldName] = localValue;
+        continue;
+      }
+
+      const rule = rules[fieldName];
+      const resolvedValue = rule ? rule(localValue, remoteValue, merged) : undefined;
+
+      if (resolvedValue !== undefined) {
+        merged[fieldName] = resolvedValue;
+        autoMergedFields.push(fieldName);
+        continue;
+      }
+
+      merged[fieldName] = localValue;
+      conflictedFields.push({ name: fieldName, localValue, remoteValue });
+    }
+
+    if (conflictedFields.length === 0) {
+      return { merged, autoMergedFields, conflict: null };
+    }
+
+    const conflictId = this.generateConflictId(entityType, entityId);
+    const conflict: Conflict = {
+      metadata: {
+        id: conflictId,
+        timestamp: new Date(),
+        entityType,
+        entityId,
+        severity: this.getHighestSeverity(conflictedFields, entityType),
+        category,
+        resolved: false,
+        retryCount: 0,
+        tags: ['three_way_merge'],
+      },
+      localData,
+      remoteData,
+      baseData,
+      conflictedFields,
+      suggestedResolution: merged,
+    };
+
+    this.conflicts.set(conflictId, conflict);
+    this.updateStatsForNewConflict(conflict);
+    this.addToHistory(conflictId, 'detected', {
+      conflictedFields: conflictedFields.length,
+      autoMergedFields,
+      strategy: ResolutionStrategy.THREE_WAY_MERGE
+    });
+    this.createNotification(conflict);
+
+    return { merged, autoMergedFields, conflict };
+  }
+
+  /**
+   * Listen for new, resolved and escalated conflicts
+   */
+  onNotification(listener: (notification: ConflictNotification, conflict: Conflict) => void): () => void {
+    this.notificationListeners.push(listener);
+    return () => {
+      this.notificationListeners = this.notificationListeners.filter(l => l !== listener);
+    };
+  }
+
   /**
    * Resolve a conflict by ID
    */
@@ -644,6 +787,7 @@ export class ConflictResolver {
     };
     
     this.notifications.push(notification);
+    this.notificationListeners.forEach(listener => listener(notification, conflict));
     
     // Keep notifications at a reasonable size
     if (this.notifications.length > 100) {
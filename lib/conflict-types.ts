@@ -42,10 +42,48 @@ export enum ResolutionStrategy {
   LAST_WRITE_WINS = 'last_write_wins',     // Most recent change wins
   FIRST_WRITE_WINS = 'first_write_wins',   // Original change wins
   FIELD_LEVEL = 'field_level',             // Merge field by field
+  THREE_WAY_MERGE = 'three_way_merge',     // Merge against the common ancestor
   CUSTOM_BUSINESS_LOGIC = 'custom_logic',  // Apply custom business rules
   MANUAL = 'manual'                        // Require manual resolution
 }
 
+/**
+ * Per-node edit counters ('server' or a device id)
+ */
+export type VersionVector = Record<string, number>;
+
+/**
+ * How two version vectors relate
+ */
+export type VectorOrder = 'equal' | 'before' | 'after' | 'concurrent';
+
+/**
+ * Version metadata stored alongside a local record
+ */
+export interface RecordVersion {
+  baseRevision: string | null;   // Server updated_at of the last copy seen; null if never synced
+  base: Record<string, any> | null; // That server copy: the common ancestor for merges
+  vector: VersionVector;         // Edits this copy includes, per node
+}
+
+/**
+ * Settles a field both sides changed; returns undefined when it can't
+ */
+export type FieldMergeRule = (
+  localValue: any,
+  remoteValue: any,
+  merged: Record<string, any>
+) => any;
+
+/**
+ * Outcome of a three-way merge
+ */
+export interface MergeResult {
+  merged: Record<string, any>;   // Merged record; unresolved fields keep the local value
+  autoMergedFields: string[];    // Fields both sides changed that a rule settled
+  conflict: Conflict | null;     // Fields no rule could settle, for manual resolution
+}
+
 /**
  * Base conflict metadata structure
  */
@@ -85,6 +123,7 @@ export interface Conflict {
   metadata: ConflictMetadata;    // Conflict metadata
   localData: Record<string, any>; // Local version of the data
   remoteData: Record<string, any>; // Remote version of the data
+  baseData?: Record<string, any> | null; // Common ancestor, when known
   conflictedFields: ConflictedField[]; // List of conflicting fields
   suggestedResolution?: Record<string, any>; // Suggested resolution
   customResolutionData?: any;    // Additional data for custom resolution
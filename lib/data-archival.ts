@@ -1,12 +1,41 @@
-import { z } from 'zod'
+/**
+ * Data Archival
+ * Archival and cleanup rules and retention policies, evaluated as queries
+ * against the real tables. Archiving moves matching rows into gzip
+ * compressed, SHA-256 checksummed JSON objects in the archives storage
+ * bucket, indexed row by row in archived_records so single rows can be
+ * restored. Rows other records depend on (an employee with attendance, a
+ * schedule with assignments) are skipped rather than cascaded away.
+ * Retention policies are applied by a scheduled job of kind 'retention'
+ * (see lib/job-scheduler.ts).
+ */
+
+import crypto from 'crypto'
+import { gzipSync, gunzipSync } from 'zlib'
+import { serverDbManager } from '@/lib/server-db'
+import type {
+  ArchivalFilter,
+  ArchivalRuleType,
+  ArchivalTable,
+  ServerArchivalRule,
+  ServerArchivedRecord
+} from '@/lib/server-db'
+import type { ArchivalRuleInput, CleanupRuleInput, RetentionPolicyInput } from '@/lib/validation-schemas'
+import { toOfficeDateString, officeDateTimeToUtc } from '@/lib/office-time'
+import { logger } from '@/lib/logger'
 
-import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Define interfaces for data archival and cleanup
 export interface ArchivalResult {
   success: boolean
   archivalId: string
+  dryRun: boolean
+  recordsMatched: number
   recordsArchived: number
+  recordsDeleted: number
+  recordsFlagged: number
   recordsSkipped: number
+  // Serialized rows, and the compressed archive objects holding them
+  originalSize: number
   archiveSize: number
   errors: string[]
   warnings: string[]
@@ -17,6 +46,8 @@ export interface ArchivalResult {
 export interface CleanupResult {
   success: boolean
   cleanupId: string
+  dryRun: boolean
+  recordsMatched: number
   recordsDeleted: number
   recordsSkipped: number
   spaceFreed: number
@@ -98,11 +129,15 @@ export interface ArchivedRecord {
   id: string
   originalId: string
   entityType: 'employees' | 'attendance' | 'schedules'
+  // Identifying fields from the archive index; the full row stays in the object
   data: any
+  status: 'archived' | 'restored'
   archivedAt: string
   archivedBy: string
   retentionExpiresAt?: string
+  restoredAt?: string
   location: string
+  checksum: string
   size: number
 }
 
@@ -125,6 +160,122 @@ export interface RetentionCondition {
   value: any
 }
 
+export interface RetentionResult {
+  policiesApplied: number
+  recordsArchived: number
+  recordsDeleted: number
+  recordsSkipped: number
+  // Archived rows dropped because their retention expired
+  recordsPurged: number
+  archiveSize: number
+  errors: string[]
+}
+
+export type DataArchivalResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+type FieldType = 'timestamp' | 'date' | 'string' | 'boolean' | 'uuid'
+
+interface ArchivalEntity {
+  table: ArchivalTable
+  // Condition fields, by name, and the columns they test
+  fields: Record<string, { column: string; type: FieldType }>
+  // Field that dates a row, for retention delays and expiry
+  ageField: string
+  // Columns copied into the archive index to identify a row
+  summary: string[]
+}
+
+// A row of an archivable table, as read from the database
+type ArchivalRow = Record<string, unknown> & { id: string }
+
+const ENTITIES: Record<string, ArchivalEntity> = {
+  employees: {
+    table: 'users',
+    fields: {
+      name: { column: 'name', type: 'string' },
+      email: { column: 'email', type: 'string' },
+      employeeId: { column: 'employee_id', type: 'string' },
+      role: { column: 'role', type: 'string' },
+      department: { column: 'department', type: 'string' },
+      position: { column: 'position', type: 'string' },
+      isActive: { column: 'is_active', type: 'boolean' },
+      startDate: { column: 'start_date', type: 'date' },
+      createdAt: { column: 'created_at', type: 'timestamp' },
+      updatedAt: { column: 'updated_at', type: 'timestamp' },
+      archivalFlag: { column: 'archival_flag', type: 'string' }
+    },
+    ageField: 'updatedAt',
+    summary: ['name', 'email', 'employee_id', 'department']
+  },
+  attendance: {
+    table: 'attendance_records',
+    fields: {
+      // Rules written against "date" mean the punch time
+      date: { column: 'timestamp', type: 'timestamp' },
+      timestamp: { column: 'timestamp', type: 'timestamp' },
+      userId: { column: 'user_id', type: 'uuid' },
+      type: { column: 'type', type: 'string' },
+      status: { column: 'status', type: 'string' },
+      verified: { column: 'verified', type: 'boolean' },
+      notes: { column: 'notes', type: 'string' },
+      createdAt: { column: 'created_at', type: 'timestamp' },
+      updatedAt: { column: 'updated_at', type: 'timestamp' },
+      archivalFlag: { column: 'archival_flag', type: 'string' }
+    },
+    ageField: 'timestamp',
+    summary: ['user_id', 'timestamp', 'type', 'status']
+  },
+  schedules: {
+    table: 'schedules',
+    fields: {
+      name: { column: 'name', type: 'string' },
+      type: { column: 'type', type: 'string' },
+      startDate: { column: 'start_date', type: 'date' },
+      endDate: { column: 'end_date', type: 'date' },
+      isActive: { column: 'is_active', type: 'boolean' },
+      isRecurring: { column: 'is_recurring', type: 'boolean' },
+      createdBy: { column: 'created_by', type: 'uuid' },
+      createdAt: { column: 'created_at', type: 'timestamp' },
+      updatedAt: { column: 'updated_at', type: 'timestamp' },
+      archivalFlag: { column: 'archival_flag', type: 'string' }
+    },
+    ageField: 'endDate',
+    summary: ['name', 'type', 'start_date', 'end_date']
+  },
+  // Cleanup only
+  logs: {
+    table: 'audit_logs',
+    fields: {
+      action: { column: 'action', type: 'string' },
+      resource: { column: 'resource', type: 'string' },
+      resourceId: { column: 'resource_id', type: 'string' },
+      userId: { column: 'user_id', type: 'uuid' },
+      createdAt: { column: 'created_at', type: 'timestamp' }
+    },
+    ageField: 'createdAt',
+    summary: ['action', 'resource', 'created_at']
+  }
+}
+
+// Rows read, and packed into one archive object, per batch
+const ARCHIVE_BATCH_SIZE = 500
+// Layout of the JSON inside archive objects
+const ARCHIVE_FORMAT_VERSION = 1
+// Expired archive entries dropped per purge call, and calls per retention run
+const PURGE_BATCH_SIZE = 1000
+const PURGE_MAX_ROUNDS = 20
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+function toCamelCase(column: string): string {
+  return column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+}
+
 // Data Archival and Cleanup class
 export class DataArchivalManager {
   private progressCallback?: (progress: ArchivalProgress) => void
@@ -140,9 +291,9 @@ export class DataArchivalManager {
 
   // Update progress
   private updateProgress(
-    current: number, 
-    total: number, 
-    status: ArchivalProgress['status'], 
+    current: number,
+    total: number,
+    status: ArchivalProgress['status'],
     message?: string,
     stage?: string
   ): void {
@@ -158,475 +309,496 @@ export class DataArchivalManager {
     }
   }
 
-  // Archive data based on rules
-  async archiveData(rule: ArchivalRule, dryRun: boolean = false): Promise<ArchivalResult> {
-    const archivalId = this.generateId()
-    
+  /**
+   * Run an archival rule. A dry run reads and packs the matching rows
+   * exactly as a real run would, so its counts and sizes are exact, but
+   * stores and removes nothing.
+   */
+  async archiveData(rule: ArchivalRule, dryRun: boolean = false, userId?: string): Promise<ArchivalResult> {
+    const result: ArchivalResult = {
+      success: true,
+      archivalId: this.generateId(),
+      dryRun,
+      recordsMatched: 0,
+      recordsArchived: 0,
+      recordsDeleted: 0,
+      recordsFlagged: 0,
+      recordsSkipped: 0,
+      originalSize: 0,
+      archiveSize: 0,
+      errors: [],
+      warnings: [],
+      createdAt: new Date().toISOString()
+    }
+
     this.updateProgress(0, 100, 'pending', 'Initializing archival process...')
-    
+
     try {
-      // Start archival
-      this.updateProgress(5, 100, 'running', 'Starting archival process', 'initialization')
-      
-      // Find records matching conditions
+      const entity = this.getEntity(rule.entityType)
+      const groups = this.buildFilters(entity, rule.conditions)
+
+      // Archiving or deleting removes the rows, so a flag alongside would be lost
+      const archive = rule.actions.find(action => action.type === 'archive')
+      const remove = !archive && rule.actions.some(action => action.type === 'delete')
+      const flag = !archive && !remove ? rule.actions.find(action => action.type === 'flag') : undefined
+      const retentionDays = archive?.parameters?.retentionDays
+
       this.updateProgress(10, 100, 'running', 'Finding records to archive...', 'scanning')
-      const matchingRecords = await this.findMatchingRecords(rule)
-      
-      if (matchingRecords.length === 0) {
+      result.recordsMatched = await serverDbManager.countArchivalCandidates(entity.table, groups)
+
+      if (result.recordsMatched === 0) {
+        result.warnings.push('No records found matching archival conditions')
         this.updateProgress(100, 100, 'completed', 'No records found matching archival conditions')
-        
-        return {
-          success: true,
-          archivalId,
-          recordsArchived: 0,
-          recordsSkipped: 0,
-          archiveSize: 0,
-          errors: [],
-          warnings: ['No records found matching archival conditions'],
-          createdAt: new Date().toISOString(),
-          completedAt: new Date().toISOString()
-        }
+        return { ...result, completedAt: new Date().toISOString() }
       }
-      
-      this.updateProgress(30, 100, 'running', `Found ${matchingRecords.length} records to archive`, 'processing')
-      
-      // Process each record
-      let recordsArchived = 0
-      let recordsSkipped = 0
-      let totalArchiveSize = 0
-      const errors: string[] = []
-      const warnings: string[] = []
-      
-      for (let i = 0; i < matchingRecords.length; i++) {
-        const record = matchingRecords[i]
-        
-        try {
-          // Process actions for this record
-          for (const action of rule.actions) {
-            if (action.type === 'archive') {
-              if (!dryRun) {
-                const archiveSize = await this.archiveRecord(record, action.parameters?.location)
-                totalArchiveSize += archiveSize
-              }
-              recordsArchived++
-            } else if (action.type === 'flag') {
-              if (!dryRun) {
-                await this.flagRecord(record, action.parameters?.flag)
-              }
-            }
+
+      this.updateProgress(30, 100, 'running', `Found ${result.recordsMatched} records to archive`, 'processing')
+
+      let processed = 0
+      const blocked = await this.forEachCandidateBatch(entity, groups, async rows => {
+        if (archive) {
+          const batch = await this.archiveBatch(rule.entityType, entity, rows, {
+            dryRun,
+            runId: result.archivalId,
+            ruleId: rule.id,
+            location: archive.parameters?.location,
+            userId,
+            expiresAt: () => retentionDays ? new Date(Date.now() + retentionDays * DAY_MS) : undefined
+          })
+          result.recordsArchived += batch.archived
+          result.originalSize += batch.originalSize
+          result.archiveSize += batch.archiveSize
+          if (batch.error) {
+            result.recordsSkipped += rows.length
+            result.errors.push(batch.error)
           }
-          
-          // Update progress
-          this.updateProgress(
-            30 + (i / matchingRecords.length) * 60, 
-            100, 
-            'running', 
-            `Archived ${i + 1} of ${matchingRecords.length} records`
-          )
-        } catch (error) {
-          recordsSkipped++
-          errors.push(`Failed to archive record ${record.id}: ${error}`)
+        } else if (remove) {
+          const batch = await this.deleteBatch(entity, rows, dryRun)
+          result.recordsDeleted += batch.deleted
+          result.originalSize += batch.size
+          if (batch.error) {
+            result.recordsSkipped += rows.length
+            result.errors.push(batch.error)
+          }
+        } else if (flag) {
+          result.recordsFlagged += dryRun
+            ? rows.length
+            : await serverDbManager.flagArchivalCandidates(entity.table, rows.map(row => row.id), flag.parameters?.flag || 'archival')
         }
+
+        processed += rows.length
+        this.updateProgress(
+          30 + Math.round((processed / result.recordsMatched) * 60),
+          100,
+          'running',
+          `Processed ${processed} of ${result.recordsMatched} records`,
+          'processing'
+        )
+      })
+
+      result.recordsSkipped += blocked
+      if (blocked > 0) {
+        result.warnings.push(`${blocked} records were skipped because other records still depend on them`)
       }
-      
-      // Complete archival
-      this.updateProgress(100, 100, 'completed', `Archival completed successfully. ${recordsArchived} records archived.`)
-      
-      return {
-        success: true,
-        archivalId,
-        recordsArchived,
-        recordsSkipped,
-        archiveSize: totalArchiveSize,
-        errors,
-        warnings,
-        createdAt: new Date().toISOString(),
-        completedAt: new Date().toISOString()
+      if (dryRun) {
+        result.warnings.push('Dry run completed. No records were archived, deleted or flagged.')
+      } else {
+        await serverDbManager.createAuditLog({
+          userId,
+          action: 'data_archived',
+          resource: 'data_archival_rule',
+          resourceId: rule.id,
+          details: {
+            description: `Archival rule "${rule.name}" ran: ${result.recordsArchived} archived, ${result.recordsDeleted} deleted, ${result.recordsFlagged} flagged`,
+            runId: result.archivalId,
+            skipped: result.recordsSkipped,
+            archiveSize: result.archiveSize
+          }
+        })
       }
+
+      this.updateProgress(100, 100, 'completed', `Archival completed${dryRun ? ' (dry run)' : ''}. ${result.recordsArchived} records archived.`)
+
+      return { ...result, completedAt: new Date().toISOString() }
     } catch (error) {
-      this.updateProgress(0, 100, 'failed', `Archival failed: ${error}`)
-      
-      return {
-        success: false,
-        archivalId,
-        recordsArchived: 0,
-        recordsSkipped: 0,
-        archiveSize: 0,
-        errors: [String(error)],
-        warnings: [],
-        createdAt: new Date().toISOString()
-      }
+      const message = error instanceof Error ? error.message : String(error)
+      logger.error('Archival failed', error as Error, { ruleId: rule.id })
+      this.updateProgress(0, 100, 'failed', `Archival failed: ${message}`)
+
+      return { ...result, success: false, errors: [...result.errors, message] }
     }
   }
 
-  // Cleanup data based on rules
-  async cleanupData(rule: CleanupRule): Promise<CleanupResult> {
-    const cleanupId = this.generateId()
-    
+  /**
+   * Run a cleanup rule: matching rows are deleted outright. Dry runs report
+   * what would be deleted, including the space it would free.
+   */
+  async cleanupData(rule: CleanupRule, userId?: string): Promise<CleanupResult> {
+    const result: CleanupResult = {
+      success: true,
+      cleanupId: this.generateId(),
+      dryRun: rule.dryRun,
+      recordsMatched: 0,
+      recordsDeleted: 0,
+      recordsSkipped: 0,
+      spaceFreed: 0,
+      errors: [],
+      warnings: [],
+      createdAt: new Date().toISOString()
+    }
+
     this.updateProgress(0, 100, 'pending', 'Initializing cleanup process...')
-    
+
     try {
-      // Start cleanup
-      this.updateProgress(5, 100, 'running', 'Starting cleanup process', 'initialization')
-      
-      // Find records matching conditions
+      const entity = this.getEntity(rule.entityType)
+      const groups = this.buildFilters(entity, rule.conditions)
+
       this.updateProgress(10, 100, 'running', 'Finding records to clean up...', 'scanning')
-      const matchingRecords = await this.findMatchingCleanupRecords(rule)
-      
-      if (matchingRecords.length === 0) {
+      result.recordsMatched = await serverDbManager.countArchivalCandidates(entity.table, groups)
+
+      if (result.recordsMatched === 0) {
+        result.warnings.push('No records found matching cleanup conditions')
         this.updateProgress(100, 100, 'completed', 'No records found matching cleanup conditions')
-        
-        return {
-          success: true,
-          cleanupId,
-          recordsDeleted: 0,
-          recordsSkipped: 0,
-          spaceFreed: 0,
-          errors: [],
-          warnings: ['No records found matching cleanup conditions'],
-          createdAt: new Date().toISOString(),
-          completedAt: new Date().toISOString()
-        }
-      }
-      
-      this.updateProgress(30, 100, 'running', `Found ${matchingRecords.length} records to clean up`, 'processing')
-      
-      // Calculate space to be freed
-      let spaceToFree = 0
-      for (const record of matchingRecords) {
-        spaceToFree += await this.calculateRecordSize(record)
+        return { ...result, completedAt: new Date().toISOString() }
       }
-      
-      // Process each record
-      let recordsDeleted = 0
-      let recordsSkipped = 0
-      const errors: string[] = []
-      const warnings: string[] = []
-      
-      for (let i = 0; i < matchingRecords.length; i++) {
-        const record = matchingRecords[i]
-        
-        try {
-          if (!rule.dryRun) {
-            await this.deleteRecord(record)
-          }
-          recordsDeleted++
-          
-          // Update progress
-          this.updateProgress(
-            30 + (i / matchingRecords.length) * 60, 
-            100, 
-            'running', 
-            `Cleaned up ${i + 1} of ${matchingRecords.length} records`
-          )
-        } catch (error) {
-          recordsSkipped++
-          errors.push(`Failed to delete record ${record.id}: ${error}`)
+
+      this.updateProgress(30, 100, 'running', `Found ${result.recordsMatched} records to clean up`, 'processing')
+
+      let processed = 0
+      const blocked = await this.forEachCandidateBatch(entity, groups, async rows => {
+        const batch = await this.deleteBatch(entity, rows, rule.dryRun)
+        result.recordsDeleted += batch.deleted
+        result.spaceFreed += batch.size
+        if (batch.error) {
+          result.recordsSkipped += rows.length
+          result.errors.push(batch.error)
         }
+
+        processed += rows.length
+        this.updateProgress(
+          30 + Math.round((processed / result.recordsMatched) * 60),
+          100,
+          'running',
+          `Cleaned up ${processed} of ${result.recordsMatched} records`,
+          'processing'
+        )
+      })
+
+      result.recordsSkipped += blocked
+      if (blocked > 0) {
+        result.warnings.push(`${blocked} records were skipped because other records still depend on them`)
       }
-      
-      // Complete cleanup
-      this.updateProgress(100, 100, 'completed', `Cleanup completed successfully. ${recordsDeleted} records deleted.`)
-      
-      return {
-        success: true,
-        cleanupId,
-        recordsDeleted,
-        recordsSkipped,
-        spaceFreed: rule.dryRun ? 0 : spaceToFree,
-        errors,
-        warnings: rule.dryRun ? ['Dry run completed. No records were actually deleted.'] : [],
-        createdAt: new Date().toISOString(),
-        completedAt: new Date().toISOString()
+      if (rule.dryRun) {
+        result.warnings.push('Dry run completed. No records were actually deleted.')
+      } else {
+        await serverDbManager.createAuditLog({
+          userId,
+          action: 'data_cleanup',
+          resource: 'data_archival_rule',
+          resourceId: rule.id,
+          details: {
+            description: `Cleanup rule "${rule.name}" deleted ${result.recordsDeleted} ${rule.entityType} records`,
+            runId: result.cleanupId,
+            skipped: result.recordsSkipped,
+            spaceFreed: result.spaceFreed
+          }
+        })
       }
+
+      this.updateProgress(100, 100, 'completed', `Cleanup completed${rule.dryRun ? ' (dry run)' : ''}. ${result.recordsDeleted} records deleted.`)
+
+      return { ...result, completedAt: new Date().toISOString() }
     } catch (error) {
-      this.updateProgress(0, 100, 'failed', `Cleanup failed: ${error}`)
-      
-      return {
-        success: false,
-        cleanupId,
-        recordsDeleted: 0,
-        recordsSkipped: 0,
-        spaceFreed: 0,
-        errors: [String(error)],
-        warnings: [],
-        createdAt: new Date().toISOString()
-      }
+      const message = error instanceof Error ? error.message : String(error)
+      logger.error('Cleanup failed', error as Error, { ruleId: rule.id })
+      this.updateProgress(0, 100, 'failed', `Cleanup failed: ${message}`)
+
+      return { ...result, success: false, errors: [...result.errors, message] }
     }
   }
 
+  /**
+   * Run a stored archival or cleanup rule; used by its scheduled job
+   */
+  async runRule(ruleId: string): Promise<ArchivalResult | CleanupResult> {
+    const stored = await serverDbManager.getArchivalRule(ruleId)
+    if (!stored || stored.ruleType === 'retention') {
+      throw new Error('Scheduled archival rule no longer exists')
+    }
+    if (!stored.enabled) {
+      throw new Error(`Rule "${stored.name}" is disabled`)
+    }
+
+    return stored.ruleType === 'archival'
+      ? this.archiveData(this.toArchivalRule(stored))
+      : this.cleanupData(this.toCleanupRule(stored))
+  }
+
   // Get archival rules
   async getArchivalRules(): Promise<ArchivalRule[]> {
-    // Mock implementation
-    // In a real implementation, this would fetch from database
-    return [
-      {
-        id: 'rule-1',
-        name: 'Archive Old Attendance Records',
-        description: 'Archive attendance records older than 1 year',
-        enabled: true,
-        entityType: 'attendance',
-        conditions: [
-          {
-            field: 'date',
-            operator: 'older_than',
-            value: '365d'
-          }
-        ],
-        actions: [
-          {
-            type: 'archive',
-            parameters: {
-              location: '/archives/attendance',
-              retentionDays: 2555 // 7 years
-            }
-          }
-        ],
-        schedule: {
-          enabled: true,
-          frequency: 'monthly',
-          time: '02:00',
-          nextRun: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-        },
-        createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-        updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        id: 'rule-2',
-        name: 'Archive Inactive Employee Records',
-        description: 'Archive employee records for inactive employees',
-        enabled: true,
-        entityType: 'employees',
-        conditions: [
-          {
-            field: 'status',
-            operator: 'equals',
-            value: 'inactive'
-          },
-          {
-            field: 'lastActiveDate',
-            operator: 'older_than',
-            value: '180d',
-            logicalOperator: 'and'
-          }
-        ],
-        actions: [
-          {
-            type: 'archive',
-            parameters: {
-              location: '/archives/employees',
-              retentionDays: 2555 // 7 years
-            }
-          }
-        ],
-        createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-        updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-      }
-    ]
+    const [rules, nextRuns] = await Promise.all([
+      serverDbManager.getArchivalRules({ ruleType: 'archival' }),
+      this.getScheduledRuns()
+    ])
+    return rules.map(rule => this.toArchivalRule(rule, nextRuns.get(rule.id)))
   }
 
   // Get cleanup rules
   async getCleanupRules(): Promise<CleanupRule[]> {
-    // Mock implementation
-    // In a real implementation, this would fetch from database
-    return [
-      {
-        id: 'cleanup-1',
-        name: 'Clean Up Old Log Files',
-        description: 'Delete log files older than 30 days',
-        enabled: true,
-        entityType: 'logs',
-        conditions: [
-          {
-            field: 'createdAt',
-            operator: 'older_than',
-            value: '30d'
-          }
-        ],
-        dryRun: false,
-        schedule: {
-          enabled: true,
-          frequency: 'weekly',
-          time: '03:00',
-          nextRun: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
-        },
-        createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-        updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        id: 'cleanup-2',
-        name: 'Clean Up Temporary Files',
-        description: 'Delete temporary files older than 7 days',
-        enabled: true,
-        entityType: 'temp_files',
-        conditions: [
-          {
-            field: 'createdAt',
-            operator: 'older_than',
-            value: '7d'
-          }
-        ],
-        dryRun: false,
-        createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-        updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+    const [rules, nextRuns] = await Promise.all([
+      serverDbManager.getArchivalRules({ ruleType: 'cleanup' }),
+      this.getScheduledRuns()
+    ])
+    return rules.map(rule => this.toCleanupRule(rule, nextRuns.get(rule.id)))
+  }
+
+  // Get data retention policies
+  async getDataRetentionPolicies(): Promise<DataRetentionPolicy[]> {
+    const policies = await serverDbManager.getArchivalRules({ ruleType: 'retention' })
+    return policies.map(policy => this.toRetentionPolicy(policy))
+  }
+
+  async saveArchivalRule(input: ArchivalRuleInput, userId: string): Promise<DataArchivalResult<{ rule: ArchivalRule }>> {
+    const saved = await this.persistRule('archival', input, {
+      conditions: input.conditions,
+      settings: { actions: input.actions },
+      schedule: input.schedule
+    }, userId)
+    return saved.success ? { success: true, rule: this.toArchivalRule(saved.rule) } : saved
+  }
+
+  async saveCleanupRule(input: CleanupRuleInput, userId: string): Promise<DataArchivalResult<{ rule: CleanupRule }>> {
+    const saved = await this.persistRule('cleanup', input, {
+      conditions: input.conditions,
+      settings: { dryRun: input.dryRun },
+      schedule: input.schedule
+    }, userId)
+    return saved.success ? { success: true, rule: this.toCleanupRule(saved.rule) } : saved
+  }
+
+  async saveRetentionPolicy(input: RetentionPolicyInput, userId: string): Promise<DataArchivalResult<{ policy: DataRetentionPolicy }>> {
+    const saved = await this.persistRule('retention', { ...input, description: '' }, {
+      conditions: input.conditions,
+      settings: {
+        retentionPeriod: input.retentionPeriod,
+        archivalAction: input.archivalAction,
+        archivalDelay: input.archivalDelay
       }
-    ]
+    }, userId)
+    return saved.success ? { success: true, policy: this.toRetentionPolicy(saved.rule) } : saved
+  }
+
+  async deleteRule(ruleType: ArchivalRuleType, id: string, userId: string): Promise<DataArchivalResult<{}>> {
+    const existing = await serverDbManager.getArchivalRule(id)
+    if (!existing || existing.ruleType !== ruleType) {
+      return failure('Rule not found', 'NOT_FOUND', 404)
+    }
+    if (!(await serverDbManager.deleteArchivalRule(id))) {
+      return failure('Failed to delete rule', 'SERVER_ERROR', 500)
+    }
+
+    await serverDbManager.createAuditLog({
+      userId,
+      action: 'data_archival_rule_deleted',
+      resource: 'data_archival_rule',
+      resourceId: id,
+      details: { description: `${ruleType} rule "${existing.name}" deleted` }
+    })
+
+    return { success: true }
   }
 
   // Get archived records
   async getArchivedRecords(
     entityType?: 'employees' | 'attendance' | 'schedules',
     limit: number = 50,
-    offset: number = 0
+    offset: number = 0,
+    status: ArchivedRecord['status'] = 'archived'
   ): Promise<{ records: ArchivedRecord[], total: number }> {
-    // Mock implementation
-    // In a real implementation, this would fetch from archive storage
-    const mockRecords: ArchivedRecord[] = [
-      {
-        id: 'archived-1',
-        originalId: 'attendance-12345',
-        entityType: 'attendance',
-        data: {
-          employeeId: 'EMP001',
-          date: '2023-01-01',
-          type: 'check-in',
-          timestamp: '2023-01-01T08:00:00Z'
-        },
-        archivedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-        archivedBy: 'System',
-        retentionExpiresAt: new Date(Date.now() + 2525 * 24 * 60 * 60 * 1000).toISOString(),
-        location: '/archives/attendance/2023/01',
-        size: 256
-      },
-      {
-        id: 'archived-2',
-        originalId: 'employee-67890',
-        entityType: 'employees',
-        data: {
-          name: 'John Doe',
-          email: 'john@example.com',
-          employeeId: 'EMP001',
-          department: 'IT',
-          status: 'inactive'
-        },
-        archivedAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString(),
-        archivedBy: 'Admin',
-        retentionExpiresAt: new Date(Date.now() + 2495 * 24 * 60 * 60 * 1000).toISOString(),
-        location: '/archives/employees/2023/12',
-        size: 512
+    const { records, total } = await serverDbManager.getArchivedRecords({ entityType, status, limit, offset })
+    return { records: records.map(record => this.toArchivedRecord(record)), total }
+  }
+
+  /**
+   * Put an archived row back into its table. The archive object is
+   * verified against its checksum first; the row is refused if its id is
+   * in use again or it refers to a record that no longer exists.
+   */
+  async restoreArchivedRecord(archivedId: string, userId: string): Promise<DataArchivalResult<{ record: ArchivedRecord }>> {
+    const record = await serverDbManager.getArchivedRecord(archivedId)
+    if (!record) {
+      return failure('Archived record not found', 'NOT_FOUND', 404)
+    }
+    if (record.status !== 'archived') {
+      return failure('This record has already been restored', 'ALREADY_RESTORED', 409)
+    }
+
+    const archive = await this.readArchiveObject(record)
+    if (!archive.success) return archive
+
+    const row = archive.rows.find(candidate => candidate.id === record.originalId)
+    if (!row) {
+      logger.error('Archived row missing from its object', new Error(record.object.storagePath), { archivedId })
+      return failure('The archive object does not contain this record', 'ARCHIVE_CORRUPT', 500)
+    }
+
+    const { result, error } = await serverDbManager.restoreArchivedRecords([record.id], record.object.sourceTable, [row], userId)
+    if (error || !result) {
+      switch (error?.message) {
+        case 'ARCHIVE_RECORD_NOT_PENDING':
+          return failure('This record has already been restored', 'ALREADY_RESTORED', 409)
+        case 'ARCHIVE_RESTORE_CONFLICT':
+          return failure('A record with the same ID or unique fields exists again', 'RESTORE_CONFLICT', 409)
+        case 'ARCHIVE_RESTORE_MISSING_REFERENCE':
+          return failure('The record refers to data that no longer exists, such as its employee', 'RESTORE_MISSING_REFERENCE', 409)
+        default:
+          logger.error('Error restoring archived record', new Error(error?.message || 'Unknown error'), { archivedId })
+          return failure('Failed to restore archived record', 'SERVER_ERROR', 500)
       }
-    ]
-    
-    // Filter by entity type if specified
-    let filteredRecords = mockRecords
-    if (entityType) {
-      filteredRecords = mockRecords.filter(record => record.entityType === entityType)
-    }
-    
-    // Apply pagination
-    const total = filteredRecords.length
-    const records = filteredRecords.slice(offset, offset + limit)
-    
-    return { records, total }
-  }
-
-  // Restore archived record
-  async restoreArchivedRecord(archivedId: string): Promise<boolean> {
-    try {
-      // Mock implementation
-      // In a real implementation, this would restore from archive
-      logger.info('Restoring archived record: ${archivedId}')
-      return true
-    } catch (error) {
-      logger.error('Failed to restore archived record: ${archivedId}', error as Error)
-      return false
+    }
+
+    await serverDbManager.removeArchiveObjects(result.emptiedObjects)
+    await serverDbManager.createAuditLog({
+      userId,
+      action: 'archived_record_restored',
+      resource: record.object.sourceTable,
+      resourceId: record.originalId,
+      details: {
+        description: `Archived ${record.entityType} record ${record.originalId} restored`,
+        archivedId
+      }
+    })
+
+    return {
+      success: true,
+      record: this.toArchivedRecord({ ...record, status: 'restored', restoredAt: new Date(), restoredBy: userId })
     }
   }
 
-  // Delete archived record
-  async deleteArchivedRecord(archivedId: string): Promise<boolean> {
-    try {
-      // Mock implementation
-      // In a real implementation, this would delete from archive
-      logger.info('Deleting archived record: ${archivedId}')
-      return true
-    } catch (error) {
-      logger.error('Failed to delete archived record: ${archivedId}', error as Error)
-      return false
+  /**
+   * Discard an archived row for good. Its object is removed from storage
+   * once no archived row is left in it.
+   */
+  async deleteArchivedRecord(archivedId: string, userId: string): Promise<DataArchivalResult<{}>> {
+    const record = await serverDbManager.getArchivedRecord(archivedId)
+    if (!record) {
+      return failure('Archived record not found', 'NOT_FOUND', 404)
     }
+
+    const { emptiedObjects } = await serverDbManager.discardArchivedRecords([archivedId])
+    await serverDbManager.removeArchiveObjects(emptiedObjects)
+
+    await serverDbManager.createAuditLog({
+      userId,
+      action: 'archived_record_deleted',
+      resource: record.object.sourceTable,
+      resourceId: record.originalId,
+      details: {
+        description: `Archived ${record.entityType} record ${record.originalId} discarded`,
+        archivedId
+      }
+    })
+
+    return { success: true }
   }
 
-  // Get data retention policies
-  async getDataRetentionPolicies(): Promise<DataRetentionPolicy[]> {
-    // Mock implementation
-    // In a real implementation, this would fetch from database
-    return [
-      {
-        id: 'policy-1',
-        name: 'Attendance Data Retention',
-        entityType: 'attendance',
-        retentionPeriod: 2555, // 7 years
-        archivalAction: 'archive',
-        archivalDelay: 365, // 1 year
-        conditions: [
-          {
-            field: 'date',
-            operator: 'older_than',
-            value: '365d'
-          }
-        ],
-        enabled: true,
-        createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-        updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
-      },
-      {
-        id: 'policy-2',
-        name: 'Employee Data Retention',
-        entityType: 'employees',
-        retentionPeriod: 2555, // 7 years
-        archivalAction: 'archive',
-        archivalDelay: 180, // 6 months
-        conditions: [
-          {
-            field: 'status',
-            operator: 'equals',
-            value: 'inactive'
+  /**
+   * Apply every enabled retention policy, then purge archived rows whose
+   * retention has expired. "archive" policies move rows older than their
+   * delay into the archive and keep them there until the row is
+   * retentionPeriod days old; "delete" policies delete rows older than
+   * retentionPeriod outright.
+   */
+  async applyRetentionPolicies(options: { userId?: string; dryRun?: boolean } = {}): Promise<RetentionResult> {
+    const runId = this.generateId()
+    const dryRun = options.dryRun ?? false
+    const summary: RetentionResult = {
+      policiesApplied: 0,
+      recordsArchived: 0,
+      recordsDeleted: 0,
+      recordsSkipped: 0,
+      recordsPurged: 0,
+      archiveSize: 0,
+      errors: []
+    }
+
+    const policies = (await this.getDataRetentionPolicies()).filter(policy => policy.enabled)
+
+    for (const policy of policies) {
+      try {
+        const entity = this.getEntity(policy.entityType)
+        const archiving = policy.archivalAction === 'archive'
+        const age = this.toFilters(entity, {
+          field: entity.ageField,
+          operator: 'older_than',
+          value: `${archiving ? policy.archivalDelay : policy.retentionPeriod}d`
+        })
+        const groups = this.buildFilters(entity, policy.conditions)
+        const scoped = groups.length > 0 ? groups.map(group => [...group, ...age]) : [age]
+
+        summary.recordsSkipped += await this.forEachCandidateBatch(entity, scoped, async rows => {
+          if (archiving) {
+            const batch = await this.archiveBatch(policy.entityType, entity, rows, {
+              dryRun,
+              runId,
+              ruleId: policy.id,
+              userId: options.userId,
+              expiresAt: row => new Date(this.rowDate(entity, row).getTime() + policy.retentionPeriod * DAY_MS)
+            })
+            summary.recordsArchived += batch.archived
+            summary.archiveSize += batch.archiveSize
+            if (batch.error) {
+              summary.recordsSkipped += rows.length
+              summary.errors.push(`${policy.name}: ${batch.error}`)
+            }
+          } else {
+            const batch = await this.deleteBatch(entity, rows, dryRun)
+            summary.recordsDeleted += batch.deleted
+            if (batch.error) {
+              summary.recordsSkipped += rows.length
+              summary.errors.push(`${policy.name}: ${batch.error}`)
+            }
           }
-        ],
-        enabled: true,
-        createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString(),
-        updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString()
+        })
+
+        summary.policiesApplied++
+      } catch (error) {
+        logger.error('Retention policy failed', error as Error, { policyId: policy.id })
+        summary.errors.push(`${policy.name}: ${error instanceof Error ? error.message : String(error)}`)
       }
-    ]
-  }
+    }
 
-  // Apply retention policies
-  async applyRetentionPolicies(): Promise<{
-    policiesApplied: number
-    recordsArchived: number
-    recordsDeleted: number
-    errors: string[]
-  }> {
-    try {
-      // Mock implementation
-      // In a real implementation, this would apply all enabled retention policies
-      logger.info('Applying retention policies...')
-      
-      return {
-        policiesApplied: 2,
-        recordsArchived: 150,
-        recordsDeleted: 25,
-        errors: []
+    if (!dryRun) {
+      try {
+        for (let round = 0; round < PURGE_MAX_ROUNDS; round++) {
+          const { purged, emptiedObjects } = await serverDbManager.purgeExpiredArchivedRecords(PURGE_BATCH_SIZE)
+          await serverDbManager.removeArchiveObjects(emptiedObjects)
+          summary.recordsPurged += purged
+          if (purged < PURGE_BATCH_SIZE) break
+        }
+      } catch (error) {
+        logger.error('Purging expired archives failed', error as Error)
+        summary.errors.push(`Purge: ${error instanceof Error ? error.message : String(error)}`)
       }
-    } catch (error) {
-      logger.error('Failed to apply retention policies', error as Error)
-      return {
-        policiesApplied: 0,
-        recordsArchived: 0,
-        recordsDeleted: 0,
-        errors: [String(error)]
+
+      if (summary.recordsArchived + summary.recordsDeleted + summary.recordsPurged > 0) {
+        await serverDbManager.createAuditLog({
+          userId: options.userId,
+          action: 'retention_applied',
+          resource: 'data_archival_rule',
+          details: {
+            description: `Retention policies applied: ${summary.recordsArchived} archived, ${summary.recordsDeleted} deleted, ${summary.recordsPurged} expired archives purged`,
+            runId,
+            policiesApplied: summary.policiesApplied,
+            errors: summary.errors
+          }
+        })
       }
     }
+
+    logger.info('Retention policies applied', { runId, dryRun, ...summary })
+
+    return summary
   }
 
   // Private helper methods
@@ -634,47 +806,438 @@ export class DataArchivalManager {
     return `archival-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
   }
 
-  private async findMatchingRecords(rule: ArchivalRule): Promise<any[]> {
-    // Mock implementation
-    // In a real implementation, this would query the database
-    return [
-      { id: 'record-1', date: '2023-01-01', type: 'check-in' },
-      { id: 'record-2', date: '2023-01-02', type: 'check-out' }
-    ]
+  private getEntity(entityType: string): ArchivalEntity {
+    const entity = ENTITIES[entityType]
+    if (!entity) {
+      throw new Error(entityType === 'temp_files'
+        ? 'Temporary files are not kept in the database; there is nothing to clean up'
+        : `Unsupported entity type: ${entityType}`)
+    }
+    return entity
+  }
+
+  /**
+   * Turn rule conditions into query filter groups. A condition joined with
+   * "or" starts a new group; "and" (the default) adds to the current one,
+   * so `a and b or c` reads as `(a and b) or c`.
+   */
+  private buildFilters(entity: ArchivalEntity, conditions: Array<ArchivalCondition | RetentionCondition>): ArchivalFilter[][] {
+    const groups: ArchivalFilter[][] = []
+
+    conditions.forEach((condition, index) => {
+      const filters = this.toFilters(entity, condition)
+      const startsGroup = index === 0 || ('logicalOperator' in condition && condition.logicalOperator === 'or')
+      if (startsGroup) {
+        groups.push(filters)
+      } else {
+        groups[groups.length - 1].push(...filters)
+      }
+    })
+
+    return groups
   }
 
-  private async findMatchingCleanupRecords(rule: CleanupRule): Promise<any[]> {
-    // Mock implementation
-    // In a real implementation, this would query the database
-    return [
-      { id: 'cleanup-record-1', createdAt: '2023-01-01' },
-      { id: 'cleanup-record-2', createdAt: '2023-01-02' }
-    ]
+  private toFilters(entity: ArchivalEntity, condition: RetentionCondition): ArchivalFilter[] {
+    const field = entity.fields[condition.field]
+    if (!field) {
+      throw new Error(`Unknown field "${condition.field}". Available: ${Object.keys(entity.fields).join(', ')}`)
+    }
+
+    const { column } = field
+    const value = condition.value
+    switch (condition.operator) {
+      case 'equals':
+        return [{ column, operator: 'eq', value: this.coerceValue(field, value, condition.field) }]
+      case 'not_equals':
+        return [{ column, operator: 'neq', value: this.coerceValue(field, value, condition.field) }]
+      case 'greater_than':
+        return [{ column, operator: 'gt', value: this.coerceValue(field, value, condition.field) }]
+      case 'less_than':
+        return [{ column, operator: 'lt', value: this.coerceValue(field, value, condition.field) }]
+      case 'between': {
+        const [from, to] = Array.isArray(value) ? value : [value?.from ?? value?.start, value?.to ?? value?.end]
+        if (from === undefined || from === null || to === undefined || to === null) {
+          throw new Error(`"${condition.field}" between needs a from and a to value`)
+        }
+        return [
+          { column, operator: 'gte', value: this.coerceValue(field, from, condition.field) },
+          { column, operator: 'lte', value: this.coerceValue(field, to, condition.field) }
+        ]
+      }
+      case 'contains':
+        if (field.type !== 'string') {
+          throw new Error(`"${condition.field}" is not a text field; use equals instead of contains`)
+        }
+        return [{ column, operator: 'ilike', value: `%${String(value ?? '').replace(/[%_\\]/g, '\\$&')}%` }]
+      case 'in': {
+        const list: unknown[] = Array.isArray(value)
+          ? value
+          : String(value ?? '').split(',').map(item => item.trim()).filter(Boolean)
+        if (list.length === 0) {
+          throw new Error(`"${condition.field}" in needs at least one value`)
+        }
+        return [{
+          column,
+          operator: 'in',
+          value: list.map(item => this.coerceValue(field, item, condition.field)) as Array<string | number>
+        }]
+      }
+      case 'older_than':
+        if (field.type !== 'timestamp' && field.type !== 'date') {
+          throw new Error(`"${condition.field}" is not a date field; older_than needs one`)
+        }
+        return [{ column, operator: 'lt', value: this.ageCutoff(field.type, value, condition.field) }]
+      default:
+        throw new Error(`Unsupported operator: ${condition.operator}`)
+    }
   }
 
-  private async archiveRecord(record: any, location?: string): Promise<number> {
-    // Mock implementation
-    // In a real implementation, this would archive the record
-    logger.info('Archiving record: ${record.id} to ${location}')
-    return 256 // Return mock size in bytes
+  private coerceValue(field: { type: FieldType }, value: unknown, name: string): string | number | boolean {
+    switch (field.type) {
+      case 'boolean':
+        if (value === true || value === 'true') return true
+        if (value === false || value === 'false') return false
+        throw new Error(`"${name}" must be true or false`)
+      case 'date':
+        if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+          throw new Error(`"${name}" must be a date (YYYY-MM-DD)`)
+        }
+        return value
+      case 'timestamp': {
+        const date = new Date(value as string)
+        if (value === null || value === '' || Number.isNaN(date.getTime())) {
+          throw new Error(`"${name}" must be a date or timestamp`)
+        }
+        return date.toISOString()
+      }
+      case 'uuid':
+        if (typeof value !== 'string' || !/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+          throw new Error(`"${name}" must be an ID`)
+        }
+        return value
+      default:
+        if (value === undefined || value === null) {
+          throw new Error(`"${name}" needs a value`)
+        }
+        return typeof value === 'number' ? value : String(value)
+    }
   }
 
-  private async flagRecord(record: any, flag?: string): Promise<void> {
-    // Mock implementation
-    // In a real implementation, this would flag the record
-    logger.info('Flagging record: ${record.id} with flag: ${flag}')
+  /**
+   * Cutoff for older_than: '30d', '12w', '6m' or '1y'; a bare number is days
+   */
+  private ageCutoff(type: FieldType, value: unknown, name: string): string {
+    const match = String(value ?? '').trim().toLowerCase().match(/^(\d+)\s*([dwmy]?)$/)
+    if (!match) {
+      throw new Error(`"${name}" older_than needs an age such as 30d, 12w, 6m or 1y`)
+    }
+
+    const amount = Number(match[1])
+    const cutoff = new Date()
+    switch (match[2]) {
+      case 'w':
+        cutoff.setUTCDate(cutoff.getUTCDate() - amount * 7)
+        break
+      case 'm':
+        cutoff.setUTCMonth(cutoff.getUTCMonth() - amount)
+        break
+      case 'y':
+        cutoff.setUTCFullYear(cutoff.getUTCFullYear() - amount)
+        break
+      default:
+        cutoff.setUTCDate(cutoff.getUTCDate() - amount)
+    }
+
+    return type === 'date' ? toOfficeDateString(cutoff) : cutoff.toISOString()
   }
 
-  private async deleteRecord(record: any): Promise<void> {
-    // Mock implementation
-    // In a real implementation, this would delete the record
-    logger.info('Deleting record: ${record.id}')
+  /**
+   * Walk the rows matching `groups` a batch at a time, leaving out rows
+   * other records depend on. Returns how many rows were left out.
+   */
+  private async forEachCandidateBatch(
+    entity: ArchivalEntity,
+    groups: ArchivalFilter[][],
+    handle: (rows: Array<ArchivalRow>) => Promise<void>
+  ): Promise<number> {
+    let afterId: string | undefined
+    let blocked = 0
+
+    for (;;) {
+      const rows = await serverDbManager.getArchivalCandidates(entity.table, groups, { afterId, limit: ARCHIVE_BATCH_SIZE })
+      if (rows.length === 0) break
+      afterId = rows[rows.length - 1].id
+
+      const blockedIds = new Set(await serverDbManager.getArchivalBlockedIds(entity.table, rows.map(row => row.id)))
+      blocked += blockedIds.size
+
+      const eligible = rows.filter(row => !blockedIds.has(row.id))
+      if (eligible.length > 0) {
+        await handle(eligible)
+      }
+      if (rows.length < ARCHIVE_BATCH_SIZE) break
+    }
+
+    return blocked
   }
 
-  private async calculateRecordSize(record: any): Promise<number> {
-    // Mock implementation
-    // In a real implementation, this would calculate the actual size
-    return 256 // Return mock size in bytes
+  /**
+   * Pack rows into one archive object, store it and remove the rows. Rows
+   * changed by someone else in the meantime leave the whole batch in place.
+   */
+  private async archiveBatch(
+    entityType: string,
+    entity: ArchivalEntity,
+    rows: Array<ArchivalRow>,
+    options: {
+      dryRun: boolean
+      runId: string
+      ruleId?: string
+      location?: string
+      userId?: string
+      expiresAt: (row: ArchivalRow) => Date | undefined
+    }
+  ): Promise<{ archived: number; originalSize: number; archiveSize: number; error?: string }> {
+    const packed = this.packArchiveObject(entityType, entity, rows)
+    if (options.dryRun) {
+      return { archived: rows.length, originalSize: packed.originalSize, archiveSize: packed.content.length }
+    }
+
+    const objectId = crypto.randomUUID()
+    const folder = (options.location || entityType).replace(/^\/+|\/+$/g, '')
+    const month = toOfficeDateString(new Date()).slice(0, 7).replace('-', '/')
+    const storagePath = `${folder}/${month}/${objectId}.json.gz`
+
+    if (!(await serverDbManager.uploadArchiveObject(storagePath, packed.content))) {
+      throw new Error('Archive object could not be stored')
+    }
+
+    const { result, error } = await serverDbManager.archiveRecords(entity.table, rows.map(row => row.id), {
+      object: {
+        id: objectId,
+        entityType,
+        ruleId: options.ruleId,
+        runId: options.runId,
+        storagePath,
+        originalSize: packed.originalSize,
+        compressedSize: packed.content.length,
+        checksum: packed.checksum,
+        archivedBy: options.userId
+      },
+      records: packed.records.map((record, index) => ({ ...record, retentionExpiresAt: options.expiresAt(rows[index]) }))
+    })
+
+    if (error) {
+      await serverDbManager.removeArchiveObjects([storagePath])
+      if (error.message === 'ARCHIVE_RECORDS_CHANGED' || error.message === 'ARCHIVE_RECORDS_BLOCKED') {
+        return {
+          archived: 0,
+          originalSize: 0,
+          archiveSize: 0,
+          error: `${rows.length} records changed while being archived and were left in place; run the rule again to archive them`
+        }
+      }
+      throw new Error(`Failed to archive records: ${error.message}`)
+    }
+
+    return { archived: result ?? rows.length, originalSize: packed.originalSize, archiveSize: packed.content.length }
+  }
+
+  private async deleteBatch(
+    entity: ArchivalEntity,
+    rows: Array<ArchivalRow>,
+    dryRun: boolean
+  ): Promise<{ deleted: number; size: number; error?: string }> {
+    const size = rows.reduce((total, row) => total + this.calculateRecordSize(row), 0)
+    if (dryRun) {
+      return { deleted: rows.length, size }
+    }
+
+    const { result, error } = await serverDbManager.archiveRecords(entity.table, rows.map(row => row.id))
+    if (error) {
+      if (error.message === 'ARCHIVE_RECORDS_BLOCKED') {
+        return { deleted: 0, size: 0, error: `${rows.length} records gained dependent records and were left in place` }
+      }
+      throw new Error(`Failed to delete records: ${error.message}`)
+    }
+
+    return { deleted: result ?? 0, size }
+  }
+
+  private packArchiveObject(entityType: string, entity: ArchivalEntity, rows: Array<ArchivalRow>) {
+    const records = rows.map(row => ({
+      originalId: row.id,
+      size: this.calculateRecordSize(row),
+      summary: Object.fromEntries(entity.summary.map(column => [toCamelCase(column), row[column] ?? null])),
+      // Compared at removal time; audit logs have no updated_at
+      updatedAt: row.updated_at as string | undefined
+    }))
+
+    const payload = JSON.stringify({ version: ARCHIVE_FORMAT_VERSION, entityType, table: entity.table, rows })
+    const content = gzipSync(Buffer.from(payload, 'utf8'))
+
+    return {
+      content,
+      checksum: crypto.createHash('sha256').update(content).digest('hex'),
+      originalSize: records.reduce((total, record) => total + record.size, 0),
+      records
+    }
+  }
+
+  private async readArchiveObject(
+    record: ServerArchivedRecord
+  ): Promise<DataArchivalResult<{ rows: Array<ArchivalRow> }>> {
+    const content = await serverDbManager.downloadArchiveObject(record.object.storagePath)
+    if (!content) {
+      return failure('The archive object could not be read from storage', 'ARCHIVE_UNAVAILABLE', 502)
+    }
+
+    const checksum = crypto.createHash('sha256').update(content).digest('hex')
+    if (checksum !== record.object.checksum) {
+      logger.error('Archive object checksum mismatch', new Error(record.object.storagePath), { expected: record.object.checksum, actual: checksum })
+      return failure('The archive object failed its integrity check', 'ARCHIVE_CHECKSUM_MISMATCH', 500)
+    }
+
+    try {
+      const payload = JSON.parse(gunzipSync(content).toString('utf8'))
+      if (payload.version !== ARCHIVE_FORMAT_VERSION || !Array.isArray(payload.rows)) {
+        return failure(`Unsupported archive format version ${payload.version}`, 'ARCHIVE_CORRUPT', 500)
+      }
+      return { success: true, rows: payload.rows }
+    } catch (error) {
+      logger.error('Error unpacking archive object', error as Error, { path: record.object.storagePath })
+      return failure('The archive object could not be unpacked', 'ARCHIVE_CORRUPT', 500)
+    }
+  }
+
+  private calculateRecordSize(record: object): number {
+    return Buffer.byteLength(JSON.stringify(record), 'utf8')
+  }
+
+  // When a row was dated, by its entity's age field
+  private rowDate(entity: ArchivalEntity, row: ArchivalRow): Date {
+    const field = entity.fields[entity.ageField]
+    const value = String(row[field.column])
+    return field.type === 'date' ? officeDateTimeToUtc(value, '00:00') : new Date(value)
+  }
+
+  private async persistRule(
+    ruleType: ArchivalRuleType,
+    input: { id?: string; name: string; description: string; enabled: boolean; entityType: string },
+    definition: Pick<ServerArchivalRule, 'conditions' | 'settings' | 'schedule'>,
+    userId: string
+  ): Promise<DataArchivalResult<{ rule: ServerArchivalRule }>> {
+    if (input.id) {
+      const existing = await serverDbManager.getArchivalRule(input.id)
+      if (!existing || existing.ruleType !== ruleType) {
+        return failure('Rule not found', 'NOT_FOUND', 404)
+      }
+    }
+
+    try {
+      this.buildFilters(this.getEntity(input.entityType), definition.conditions as ArchivalCondition[])
+    } catch (error) {
+      return failure(error instanceof Error ? error.message : String(error), 'INVALID_RULE')
+    }
+
+    const rule = await serverDbManager.saveArchivalRule({
+      id: input.id,
+      ruleType,
+      name: input.name,
+      description: input.description,
+      entityType: input.entityType,
+      enabled: input.enabled,
+      conditions: definition.conditions,
+      settings: definition.settings,
+      schedule: definition.schedule && {
+        enabled: definition.schedule.enabled,
+        frequency: definition.schedule.frequency,
+        time: definition.schedule.time
+      },
+      createdBy: userId
+    })
+
+    await serverDbManager.createAuditLog({
+      userId,
+      action: input.id ? 'data_archival_rule_updated' : 'data_archival_rule_created',
+      resource: 'data_archival_rule',
+      resourceId: rule.id,
+      details: { description: `${ruleType} rule "${rule.name}" ${input.id ? 'updated' : 'created'}` }
+    })
+
+    return { success: true, rule }
+  }
+
+  // Next run of each rule's scheduled job, by rule id
+  private async getScheduledRuns(): Promise<Map<string, Date>> {
+    const jobs = await serverDbManager.getScheduledJobs({ kind: 'archival', enabled: true })
+    return new Map(jobs.map(job => [job.config.ruleId as string, job.nextRunAt]))
+  }
+
+  private toSchedule(rule: ServerArchivalRule, nextRun?: Date): ArchivalRule['schedule'] {
+    return rule.schedule && { ...rule.schedule, nextRun: nextRun?.toISOString() || '' }
+  }
+
+  private toArchivalRule(rule: ServerArchivalRule, nextRun?: Date): ArchivalRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      enabled: rule.enabled,
+      entityType: rule.entityType as ArchivalRule['entityType'],
+      conditions: rule.conditions as ArchivalCondition[],
+      actions: rule.settings.actions || [],
+      schedule: this.toSchedule(rule, nextRun),
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString()
+    }
+  }
+
+  private toCleanupRule(rule: ServerArchivalRule, nextRun?: Date): CleanupRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      enabled: rule.enabled,
+      entityType: rule.entityType as CleanupRule['entityType'],
+      conditions: rule.conditions as CleanupCondition[],
+      dryRun: rule.settings.dryRun ?? true,
+      schedule: this.toSchedule(rule, nextRun),
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString()
+    }
+  }
+
+  private toRetentionPolicy(rule: ServerArchivalRule): DataRetentionPolicy {
+    return {
+      id: rule.id,
+      name: rule.name,
+      entityType: rule.entityType as DataRetentionPolicy['entityType'],
+      retentionPeriod: rule.settings.retentionPeriod,
+      archivalAction: rule.settings.archivalAction,
+      archivalDelay: rule.settings.archivalDelay ?? 0,
+      conditions: rule.conditions as RetentionCondition[],
+      enabled: rule.enabled,
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString()
+    }
+  }
+
+  private toArchivedRecord(record: ServerArchivedRecord): ArchivedRecord {
+    return {
+      id: record.id,
+      originalId: record.originalId,
+      entityType: record.entityType as ArchivedRecord['entityType'],
+      data: record.summary,
+      status: record.status,
+      archivedAt: record.archivedAt.toISOString(),
+      archivedBy: record.object.archivedByName || (record.object.archivedBy ? 'Unknown user' : 'System'),
+      retentionExpiresAt: record.retentionExpiresAt?.toISOString(),
+      restoredAt: record.restoredAt?.toISOString(),
+      location: record.object.storagePath,
+      checksum: record.object.checksum,
+      size: record.size
+    }
   }
 }
 
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { ApiClient } from '@/lib/api-client'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Define interfaces for data export
@@ -434,11 +435,26 @@ export class DataExporter {
     }
   }
 
-  // Schedule export
-  static async scheduleExport(schedule: ExportSchedule): Promise<void> {
-    // In a real implementation, this would set up a scheduled job
-    logger.info('Scheduling export: ${schedule.name}')
-    logger.info('Next run: ${schedule.nextRun}')
+  // Schedule export; runs server-side (see lib/job-scheduler.ts) and emails the recipients
+  static async scheduleExport(schedule: ExportSchedule): Promise<ExportSchedule> {
+    if (schedule.type === 'custom') {
+      throw new Error('Custom exports are scheduled from the report builder')
+    }
+
+    const response = await ApiClient.createScheduledJob({
+      name: schedule.name,
+      kind: 'export',
+      config: { dataSource: schedule.type, fields: schedule.fields, filters: schedule.filters },
+      format: schedule.format,
+      frequency: schedule.frequency,
+      timeOfDay: schedule.time,
+      recipients: schedule.recipients,
+      channels: [{ type: 'email' }],
+      enabled: schedule.enabled
+    })
+    logger.info(`Scheduled export: ${schedule.name}`, { nextRun: response.data.nextRunAt })
+
+    return { ...schedule, id: response.data.id, nextRun: new Date(response.data.nextRunAt).toISOString() }
   }
 
   // Get available fields for a data type
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { punchLogParsers } from '@/lib/punch-log-parsers'
 
 // Mock implementations for external libraries
 // In a real implementation, these would be installed as dependencies
@@ -117,7 +118,9 @@ export interface FieldMapping {
 }
 
 export interface ImportConfig {
-  fileType: 'csv' | 'excel' | 'json'
+  fileType: 'csv' | 'excel' | 'json' | 'punch-log'
+  // Punch logs: parser id from punchLogParsers, detected when omitted
+  punchLogFormat?: string
   delimiter?: string
   encoding?: string
   hasHeader?: boolean
@@ -225,6 +228,9 @@ export class DataImporter {
         case 'json':
           data = await this.parseJSON(buffer)
           break
+        case 'punch-log':
+          data = await this.parsePunchLog(buffer, file.name)
+          break
         default:
           throw new Error(`Unsupported file type: ${this.config.fileType}`)
       }
@@ -291,6 +297,24 @@ export class DataImporter {
     }
   }
 
+  // Parse a time-clock punch log into { line, externalId, date, time, state, device } rows
+  private async parsePunchLog(buffer: ArrayBuffer, filename: string): Promise<any[]> {
+    const text = new TextDecoder(this.config.encoding || 'utf-8').decode(buffer)
+    const parser = this.config.punchLogFormat
+      ? punchLogParsers.get(this.config.punchLogFormat)
+      : punchLogParsers.detect(text, filename)
+
+    if (!parser) {
+      throw new Error('Unrecognized punch log format')
+    }
+
+    const { punches, errors } = parser.parse(text)
+    if (punches.length === 0 && errors.length > 0) {
+      throw new Error(`Line ${errors[0].line}: ${errors[0].message}`)
+    }
+    return punches
+  }
+
   // Apply field mapping
   applyFieldMapping(data: any[]): any[] {
     if (!this.config.fieldMapping || this.config.fieldMapping.length === 0) {
@@ -488,10 +512,10 @@ export const createFieldMapping = (sourceFields: string[], targetFields: string[
 }
 
 export const validateImportConfig = (config: ImportConfig): boolean => {
-  return !!config.fileType && ['csv', 'excel', 'json'].includes(config.fileType)
+  return !!config.fileType && ['csv', 'excel', 'json', 'punch-log'].includes(config.fileType)
 }
 
-export const getFileType = (filename: string): 'csv' | 'excel' | 'json' | null => {
+export const getFileType = (filename: string): ImportConfig['fileType'] | null => {
   const extension = filename.split('.').pop()?.toLowerCase()
   
   switch (extension) {
@@ -502,6 +526,9 @@ export const getFileType = (filename: string): 'csv' | 'excel' | 'json' | null =
       return 'excel'
     case 'json':
       return 'json'
+    case 'dat':
+    case 'txt':
+      return 'punch-log'
     default:
       return null
   }
@@ -1,5 +1,7 @@
 import { get, set, del, clear, keys, createStore } from 'idb-keyval'
 import { openDB, DBSchema, IDBPDatabase, IDBPTransaction } from 'idb'
+import type { RecordVersion } from './conflict-types'
+import type { SyncDeadLetterReason, SyncPayloadDiff, SyncDeviceInfo } from './sync-protocol'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Database store names
@@ -9,6 +11,12 @@ export const DB_STORES = {
   SYNC_QUEUE: 'syncQueue',
   OFFLINE_DATA: 'offlineData',
   SETTINGS: 'settings',
+  FACE_EMBEDDINGS: 'faceEmbeddings',
+  SHIFTS: 'shifts',
+  SCHEDULE_ASSIGNMENTS: 'scheduleAssignments',
+  SERVER_SETTINGS: 'serverSettings',
+  SYNC_CURSORS: 'syncCursors',
+  DEAD_LETTERS: 'deadLetters',
 } as const
 
 // Attendance policy type
@@ -26,7 +34,7 @@ export interface AttendancePolicy {
 
 // Database name and version
 const DB_NAME = 'edo-attendance-db'
-const DB_VERSION = 2 // Incremented to add new indexes
+const DB_VERSION = 6 // Incremented to drop the sync device-key store
 
 // Database schema - using type assertion to bypass strict typing
 interface AttendanceDBSchema extends DBSchema {
@@ -35,6 +43,12 @@ interface AttendanceDBSchema extends DBSchema {
   syncQueue: any
   offlineData: any
   settings: any
+  faceEmbeddings: any
+  shifts: any
+  scheduleAssignments: any
+  serverSettings: any
+  syncCursors: any
+  deadLetters: any
 }
 
 // Attendance record type
@@ -48,8 +62,11 @@ export interface AttendanceRecord {
     longitude: number
   }
   photo?: string // Base64 encoded photo
+  notes?: string
   synced: boolean
   pendingSync?: boolean
+  // Common ancestor and version vector for three-way merges on sync
+  version?: RecordVersion
   createdAt?: Date
   updatedAt?: Date
 }
@@ -69,11 +86,62 @@ export interface User {
 // Sync queue item type
 export interface SyncQueueItem {
   id: string
-  type: 'attendance' | 'user' | 'settings'
+  type: 'attendance' | 'user' | 'settings' | 'face_event'
   data: any
   timestamp: Date
   retryCount: number
   priority: 'high' | 'medium' | 'low'
+  lastError?: string // Why the server last refused it (conflict or rejection)
+}
+
+// Queued change that stopped being retried; kept until an admin settles it
+export interface DeadLetterItem {
+  id: string // Same id as the queue item (its idempotency key)
+  item: SyncQueueItem
+  reason: SyncDeadLetterReason
+  lastError: string
+  errorCode?: string
+  httpStatus?: number
+  payloadDiff: SyncPayloadDiff[] | null
+  device: SyncDeviceInfo
+  failedAt: Date
+  reportedAt?: Date // Last time the server acknowledged it
+}
+
+// Face template mirrored from the server change feed
+export interface FaceEmbeddingRecord {
+  id: string
+  userId: string
+  embedding: number[]
+  quality?: number
+  updatedAt?: Date
+}
+
+// Roster entry mirrored from the server change feed
+export interface ScheduleAssignmentRecord {
+  id: string
+  scheduleId: string
+  userId: string
+  shiftId?: string
+  date: string // YYYY-MM-DD
+  status: string
+  notes?: string
+  updatedAt?: Date
+}
+
+// Server settings section mirrored from the server change feed
+export interface ServerSettingRecord {
+  id: string
+  section: string
+  data: any
+  updatedAt?: Date
+}
+
+// Change feed position per entity
+export interface SyncCursor {
+  entity: string
+  cursor: string
+  updatedAt: Date
 }
 
 // Offline data type
@@ -99,18 +167,14 @@ let db: IDBPDatabase<AttendanceDBSchema> | null = null
 
 // Storage Manager class
 export class StorageManager {
-  private dbPromise: Promise<IDBPDatabase<AttendanceDBSchema>>
-
-  constructor() {
-    this.dbPromise = this.initDB()
-  }
+  private dbPromise: Promise<IDBPDatabase<AttendanceDBSchema>> | null = null
 
   // Initialize database
   private async initDB(): Promise<IDBPDatabase<AttendanceDBSchema>> {
     if (db) return db
 
-    // Check if we're in a browser environment
-    if (typeof window === 'undefined' || typeof indexedDB === 'undefined') {
+    // Check IndexedDB is available (browsers, or an in-memory shim under Node)
+    if (typeof indexedDB === 'undefined') {
       throw new Error('IndexedDB is not available in this environment')
     }
 
@@ -190,6 +254,42 @@ export class StorageManager {
             const settingsStore = db.transaction(DB_STORES.SETTINGS, 'versionchange').objectStore(DB_STORES.SETTINGS)
             settingsStore.createIndex('by-last-updated', 'lastUpdated')
           }
+
+          // Create change feed mirror stores
+          if (!db.objectStoreNames.contains(DB_STORES.FACE_EMBEDDINGS)) {
+            const embeddingsStore = db.createObjectStore(DB_STORES.FACE_EMBEDDINGS, { keyPath: 'id' })
+            embeddingsStore.createIndex('by-user', 'userId')
+          }
+
+          if (!db.objectStoreNames.contains(DB_STORES.SHIFTS)) {
+            db.createObjectStore(DB_STORES.SHIFTS, { keyPath: 'id' })
+          }
+
+          if (!db.objectStoreNames.contains(DB_STORES.SCHEDULE_ASSIGNMENTS)) {
+            const assignmentsStore = db.createObjectStore(DB_STORES.SCHEDULE_ASSIGNMENTS, { keyPath: 'id' })
+            assignmentsStore.createIndex('by-user', 'userId')
+            assignmentsStore.createIndex('by-date', 'date')
+            assignmentsStore.createIndex('by-user-date', ['userId', 'date'])
+          }
+
+          if (!db.objectStoreNames.contains(DB_STORES.SERVER_SETTINGS)) {
+            const serverSettingsStore = db.createObjectStore(DB_STORES.SERVER_SETTINGS, { keyPath: 'id' })
+            serverSettingsStore.createIndex('by-section', 'section')
+          }
+
+          if (!db.objectStoreNames.contains(DB_STORES.SYNC_CURSORS)) {
+            db.createObjectStore(DB_STORES.SYNC_CURSORS, { keyPath: 'entity' })
+          }
+
+          if (!db.objectStoreNames.contains(DB_STORES.DEAD_LETTERS)) {
+            const deadLettersStore = db.createObjectStore(DB_STORES.DEAD_LETTERS, { keyPath: 'id' })
+            deadLettersStore.createIndex('by-failed-at', 'failedAt')
+          }
+
+          // Self-registered sync signing keys are gone; kiosks sign with their enrolled key
+          if (db.objectStoreNames.contains('deviceKeys' as any)) {
+            db.deleteObjectStore('deviceKeys' as any)
+          }
         },
         blocked() {
           logger.error('Database upgrade blocked by other tabs', new Error())
@@ -232,8 +332,13 @@ export class StorageManager {
     }
   }
 
-  // Get database instance
+  // Get database instance, opening it on first use. The open connection is
+  // handed out directly so initDB can seed default settings through it.
   async getDB(): Promise<IDBPDatabase<AttendanceDBSchema>> {
+    if (db) return db
+    if (!this.dbPromise) {
+      this.dbPromise = this.initDB()
+    }
     return this.dbPromise
   }
 
@@ -245,6 +350,8 @@ export class StorageManager {
   ): Promise<T> {
     const db = await this.getDB()
     const transaction = db.transaction(stores as any, mode)
+    // Awaited below on success; an abort must not surface as an unhandled rejection
+    transaction.done.catch(() => {})
 
     try {
       const result = await callback(transaction)
@@ -660,6 +767,55 @@ export class StorageManager {
     }
   }
 
+  // Dead-letter operations
+  // Moves the item out of the sync queue in the same transaction, so a
+  // failed change is never in both places or in neither
+  async moveToDeadLetters(deadLetter: DeadLetterItem): Promise<void> {
+    try {
+      await this.executeTransaction(
+        [DB_STORES.SYNC_QUEUE, DB_STORES.DEAD_LETTERS],
+        'readwrite',
+        async (transaction) => {
+          await transaction.objectStore(DB_STORES.SYNC_QUEUE).delete(deadLetter.item.id)
+          await transaction.objectStore(DB_STORES.DEAD_LETTERS).put(deadLetter)
+        }
+      )
+    } catch (error) {
+      logger.error('Error moving sync item to dead letters', error as Error, { id: deadLetter.id })
+      throw error
+    }
+  }
+
+  async getDeadLetters(): Promise<DeadLetterItem[]> {
+    try {
+      const db = await this.getDB()
+      return await db.getAllFromIndex(DB_STORES.DEAD_LETTERS, 'by-failed-at')
+    } catch (error) {
+      logger.error('Error getting dead letters', error as Error)
+      return []
+    }
+  }
+
+  async updateDeadLetter(deadLetter: DeadLetterItem): Promise<void> {
+    try {
+      const db = await this.getDB()
+      await db.put(DB_STORES.DEAD_LETTERS, deadLetter)
+    } catch (error) {
+      logger.error('Error updating dead letter', error as Error)
+      throw error
+    }
+  }
+
+  async removeDeadLetter(id: string): Promise<void> {
+    try {
+      const db = await this.getDB()
+      await db.delete(DB_STORES.DEAD_LETTERS, id)
+    } catch (error) {
+      logger.error('Error removing dead letter', error as Error, { id })
+      throw error
+    }
+  }
+
   // Offline data operations
   async getOfflineData(): Promise<OfflineData | null> {
     try {
@@ -705,6 +861,117 @@ export class StorageManager {
     }
   }
 
+  // Change feed operations
+  async getSyncCursor(entity: string): Promise<string | null> {
+    try {
+      const db = await this.getDB()
+      const result: SyncCursor | undefined = await db.get(DB_STORES.SYNC_CURSORS, entity)
+      return result?.cursor || null
+    } catch (error) {
+      logger.error('Error getting sync cursor', error as Error, { entity })
+      return null
+    }
+  }
+
+  // Forget cursors so the next pull starts over (all entities when none given)
+  async resetSyncCursors(entities?: string[]): Promise<void> {
+    try {
+      const db = await this.getDB()
+      if (!entities) {
+        await db.clear(DB_STORES.SYNC_CURSORS)
+        return
+      }
+      for (const entity of entities) {
+        await db.delete(DB_STORES.SYNC_CURSORS, entity)
+      }
+    } catch (error) {
+      logger.error('Error resetting sync cursors', error as Error)
+      throw error
+    }
+  }
+
+  // Apply one page of changes and advance the cursor in the same
+  // transaction, so an interrupted pull resumes exactly where it stopped
+  async applySyncChanges(
+    entity: string,
+    store: string,
+    changes: Array<{ operation: 'upsert' | 'delete'; id: string; record?: any }>,
+    cursor: string
+  ): Promise<void> {
+    try {
+      await this.executeTransaction(
+        [store, DB_STORES.SYNC_CURSORS],
+        'readwrite',
+        async (transaction) => {
+          const target = transaction.objectStore(store)
+          for (const change of changes) {
+            if (change.operation === 'delete') {
+              await target.delete(change.id)
+            } else {
+              await target.put(change.record)
+            }
+          }
+          await transaction.objectStore(DB_STORES.SYNC_CURSORS).put({ entity, cursor, updatedAt: new Date() })
+        }
+      )
+    } catch (error) {
+      logger.error('Error applying sync changes', error as Error, { entity, cursor })
+      throw error
+    }
+  }
+
+  async getFaceEmbeddings(userId?: string): Promise<FaceEmbeddingRecord[]> {
+    try {
+      const db = await this.getDB()
+      return userId
+        ? await db.getAllFromIndex(DB_STORES.FACE_EMBEDDINGS, 'by-user', userId)
+        : await db.getAll(DB_STORES.FACE_EMBEDDINGS)
+    } catch (error) {
+      logger.error('Error getting face embeddings', error as Error)
+      return []
+    }
+  }
+
+  async getShifts(): Promise<any[]> {
+    try {
+      const db = await this.getDB()
+      return await db.getAll(DB_STORES.SHIFTS)
+    } catch (error) {
+      logger.error('Error getting shifts', error as Error)
+      return []
+    }
+  }
+
+  async getScheduleAssignments(filter: { userId?: string; date?: string } = {}): Promise<ScheduleAssignmentRecord[]> {
+    try {
+      const db = await this.getDB()
+      if (filter.userId && filter.date) {
+        return await db.getAllFromIndex(DB_STORES.SCHEDULE_ASSIGNMENTS, 'by-user-date', [filter.userId, filter.date])
+      }
+      if (filter.userId) {
+        return await db.getAllFromIndex(DB_STORES.SCHEDULE_ASSIGNMENTS, 'by-user', filter.userId)
+      }
+      if (filter.date) {
+        return await db.getAllFromIndex(DB_STORES.SCHEDULE_ASSIGNMENTS, 'by-date', filter.date)
+      }
+      return await db.getAll(DB_STORES.SCHEDULE_ASSIGNMENTS)
+    } catch (error) {
+      logger.error('Error getting schedule assignments', error as Error)
+      return []
+    }
+  }
+
+  async getServerSetting(section: string): Promise<any | null> {
+    try {
+      const db = await this.getDB()
+      const result: ServerSettingRecord | undefined = await db.getFromIndex(DB_STORES.SERVER_SETTINGS, 'by-section', section)
+      return result?.data ?? null
+    } catch (error) {
+      logger.error('Error getting server setting', error as Error, { section })
+      return null
+    }
+  }
+
   // Clear all data
   async clearAllData(): Promise<void> {
     try {
@@ -0,0 +1,379 @@
+/**
+ * Delivery Channels
+ * Where scheduled job artifacts go once rendered. Each channel implements
+ * DeliveryChannel and is registered by type; jobs list the channel types
+ * (and per-channel targets) they deliver to. Built in: SMTP email, webhook
+ * and a local filesystem sink for testing.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import path from 'path'
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import { serverDbManager } from '@/lib/server-db'
+import { APP_NAME } from '@/lib/app-config'
+
+export interface DeliveryArtifact {
+  filename: string
+  content: Buffer | string
+  contentType: string
+  size: number
+  // Signed storage URL, when the artifact was stored
+  downloadUrl?: string
+}
+
+export interface DeliveryContext {
+  jobId: string
+  jobName: string
+  runId: string
+  recipients: string[]
+  recordCount?: number
+  generatedAt: Date
+}
+
+export interface DeliveryChannel {
+  readonly type: string
+  /**
+   * Deliver the artifact; throws when delivery failed
+   */
+  deliver(artifact: DeliveryArtifact, context: DeliveryContext, target?: string): Promise<void>
+}
+
+// Network deliveries give up after this long
+const DELIVERY_TIMEOUT_MS = 30000
+
+// ============================================
+// SMTP EMAIL
+// ============================================
+
+interface SmtpConfig {
+  host: string
+  port: number
+  user?: string
+  password?: string
+  fromEmail: string
+  fromName: string
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Minimal SMTP client: implicit TLS on port 465, STARTTLS when offered
+ * elsewhere, AUTH PLAIN when credentials are configured
+ */
+class SmtpConnection {
+  private socket: net.Socket
+  private buffer = ''
+  private replies: SmtpReply[] = []
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = []
+  private failure?: Error
+
+  private constructor(socket: net.Socket) {
+    this.socket = socket
+    this.attach()
+  }
+
+  static async open(config: SmtpConfig): Promise<SmtpConnection> {
+    const socket = config.port === 465
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port })
+
+    const connection = new SmtpConnection(socket)
+    await connection.expect([220])
+
+    let ehlo = await connection.command(`EHLO ${os.hostname()}`, [250])
+    if (config.port !== 465 && ehlo.lines.some(line => /^STARTTLS\b/i.test(line))) {
+      await connection.command('STARTTLS', [220])
+      await connection.upgrade(config.host)
+      ehlo = await connection.command(`EHLO ${os.hostname()}`, [250])
+    }
+
+    if (config.user && config.password) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password}`).toString('base64')
+      await connection.command(`AUTH PLAIN ${credentials}`, [235])
+    }
+
+    return connection
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected)
+  }
+
+  async send(data: string, expected: number[]): Promise<SmtpReply> {
+    this.socket.write(data)
+    return this.expect(expected)
+  }
+
+  close(): void {
+    this.socket.end('QUIT\r\n')
+  }
+
+  private attach(): void {
+    this.socket.setTimeout(DELIVERY_TIMEOUT_MS)
+    this.socket.setEncoding('utf8')
+    this.socket.on('data', (chunk: string) => this.onData(chunk))
+    this.socket.on('timeout', () => this.fail(new Error('SMTP server timed out')))
+    this.socket.on('error', (error: Error) => this.fail(error))
+    this.socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners()
+    const secure = tls.connect({ socket: this.socket, servername: host })
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', () => resolve())
+      secure.once('error', reject)
+    })
+    this.socket = secure
+    this.attach()
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk
+    let lines: string[] = []
+    let index: number
+
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index)
+      this.buffer = this.buffer.slice(index + 2)
+      lines.push(line.slice(4))
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines })
+        lines = []
+      }
+    }
+
+    while (this.replies.length > 0 && this.waiters.length > 0) {
+      this.waiters.shift()!.resolve(this.replies.shift()!)
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return
+    this.failure = error
+    this.waiters.splice(0).forEach(waiter => waiter.reject(error))
+    this.socket.destroy()
+  }
+
+  private async expect(expected: number[]): Promise<SmtpReply> {
+    const reply = this.replies.length > 0
+      ? this.replies.shift()!
+      : await new Promise<SmtpReply>((resolve, reject) => {
+          if (this.failure) return reject(this.failure)
+          this.waiters.push({ resolve, reject })
+        })
+
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(' ')}`)
+    }
+    return reply
+  }
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`
+}
+
+function wrapBase64(content: Buffer | string): string {
+  return Buffer.from(content).toString('base64').replace(/.{76}/g, '$&\r\n')
+}
+
+export class SmtpEmailChannel implements DeliveryChannel {
+  readonly type = 'email'
+
+  async deliver(artifact: DeliveryArtifact, context: DeliveryContext, target?: string): Promise<void> {
+    const recipients = target
+      ? target.split(',').map(address => address.trim()).filter(Boolean)
+      : context.recipients
+    if (recipients.length === 0) {
+      throw new Error('No email recipients')
+    }
+
+    const config = await this.resolveConfig()
+    const connection = await SmtpConnection.open(config)
+    try {
+      await connection.command(`MAIL FROM:<${config.fromEmail}>`, [250])
+      for (const recipient of recipients) {
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251])
+      }
+      await connection.command('DATA', [354])
+      await connection.send(this.buildMessage(config, recipients, artifact, context), [250])
+    } finally {
+      connection.close()
+    }
+  }
+
+  /**
+   * Notification settings when email is enabled there, SMTP_* env otherwise
+   */
+  private async resolveConfig(): Promise<SmtpConfig> {
+    const notifications = await serverDbManager.getSettings('notifications').catch(() => null)
+    const email = notifications?.email
+    if (email?.enabled && email.smtpHost) {
+      return {
+        host: email.smtpHost,
+        port: Number(email.smtpPort) || 587,
+        user: email.smtpUser,
+        password: email.smtpPassword,
+        fromEmail: email.fromEmail || email.smtpUser,
+        fromName: email.fromName || APP_NAME
+      }
+    }
+
+    if (!process.env.SMTP_HOST) {
+      throw new Error('SMTP is not configured')
+    }
+    return {
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      fromEmail: process.env.SMTP_FROM_EMAIL || process.env.SMTP_USER || `noreply@${os.hostname()}`,
+      fromName: process.env.SMTP_FROM_NAME || APP_NAME
+    }
+  }
+
+  private buildMessage(
+    config: SmtpConfig,
+    recipients: string[],
+    artifact: DeliveryArtifact,
+    context: DeliveryContext
+  ): string {
+    const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`
+    const body = [
+      `${context.jobName} generated ${context.generatedAt.toLocaleString('id-ID')}.`,
+      context.recordCount !== undefined ? `Records: ${context.recordCount}` : '',
+      artifact.downloadUrl ? `Download: ${artifact.downloadUrl}` : ''
+    ].filter(Boolean).join('\r\n')
+
+    const message = [
+      `From: ${encodeHeader(config.fromName)} <${config.fromEmail}>`,
+      `To: ${recipients.join(', ')}`,
+      `Subject: ${encodeHeader(`${context.jobName} - ${artifact.filename}`)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${context.runId}@${os.hostname()}>`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      wrapBase64(body),
+      `--${boundary}`,
+      `Content-Type: ${artifact.contentType}; name="${artifact.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${artifact.filename}"`,
+      '',
+      wrapBase64(artifact.content),
+      `--${boundary}--`
+    ].join('\r\n')
+
+    // Base64 bodies never start a line with '.', headers might
+    return `${message.replace(/\r\n\./g, '\r\n..')}\r\n.\r\n`
+  }
+}
+
+// ============================================
+// WEBHOOK
+// ============================================
+
+/**
+ * POSTs run details as JSON. The file itself is linked when it was stored,
+ * inlined as base64 otherwise. Set SCHEDULED_JOB_WEBHOOK_SECRET to sign
+ * the body (X-Signature: sha256=<hex HMAC>).
+ */
+export class WebhookChannel implements DeliveryChannel {
+  readonly type = 'webhook'
+
+  async deliver(artifact: DeliveryArtifact, context: DeliveryContext, target?: string): Promise<void> {
+    if (!target || !/^https?:\/\//.test(target)) {
+      throw new Error('Webhook channel needs an http(s) URL target')
+    }
+
+    const body = JSON.stringify({
+      event: 'scheduled_job.completed',
+      job: { id: context.jobId, name: context.jobName },
+      run: { id: context.runId, generatedAt: context.generatedAt.toISOString(), recordCount: context.recordCount },
+      artifact: {
+        filename: artifact.filename,
+        contentType: artifact.contentType,
+        size: artifact.size,
+        downloadUrl: artifact.downloadUrl,
+        content: artifact.downloadUrl ? undefined : Buffer.from(artifact.content).toString('base64')
+      }
+    })
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    const secret = process.env.SCHEDULED_JOB_WEBHOOK_SECRET
+    if (secret) {
+      headers['X-Signature'] = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`
+    }
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), DELIVERY_TIMEOUT_MS)
+    try {
+      const response = await fetch(target, { method: 'POST', headers, body, signal: controller.signal })
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}`)
+      }
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+}
+
+// ============================================
+// FILESYSTEM
+// ============================================
+
+/**
+ * Writes artifacts to a local directory (the target, or
+ * SCHEDULED_JOB_OUTPUT_DIR). Meant for development and testing.
+ */
+export class FilesystemChannel implements DeliveryChannel {
+  readonly type = 'filesystem'
+
+  async deliver(artifact: DeliveryArtifact, context: DeliveryContext, target?: string): Promise<void> {
+    const directory = path.resolve(
+      target || process.env.SCHEDULED_JOB_OUTPUT_DIR || path.join(os.tmpdir(), 'scheduled-jobs'),
+      context.jobId
+    )
+    await fs.mkdir(directory, { recursive: true })
+    await fs.writeFile(path.join(directory, artifact.filename), artifact.content)
+  }
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export class DeliveryChannelRegistry {
+  private channels = new Map<string, DeliveryChannel>()
+
+  register(channel: DeliveryChannel): void {
+    this.channels.set(channel.type, channel)
+  }
+
+  get(type: string): DeliveryChannel | undefined {
+    return this.channels.get(type)
+  }
+
+  types(): string[] {
+    return Array.from(this.channels.keys())
+  }
+}
+
+// Export singleton instance
+export const deliveryChannels = new DeliveryChannelRegistry()
+deliveryChannels.register(new SmtpEmailChannel())
+deliveryChannels.register(new WebhookChannel())
+deliveryChannels.register(new FilesystemChannel())
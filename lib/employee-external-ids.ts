@@ -0,0 +1,94 @@
+/**
+ * Employee External IDs
+ * Maps the badge, card or PIN numbers employees use on third-party time
+ * clocks to their accounts, so punch logs from those terminals can be
+ * imported (see lib/punch-log-parsers.ts). Numbers are unique per source.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerEmployeeExternalId } from '@/lib/server-db'
+import type { EmployeeExternalIdInput } from '@/lib/validation-schemas'
+
+export type ExternalIdResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+export class EmployeeExternalIdService {
+  async list(userId: string): Promise<ServerEmployeeExternalId[]> {
+    return serverDbManager.getEmployeeExternalIds({ userId })
+  }
+
+  async add(
+    userId: string,
+    input: EmployeeExternalIdInput,
+    actorId: string
+  ): Promise<ExternalIdResult<{ mapping: ServerEmployeeExternalId }>> {
+    const user = await serverDbManager.getUser(userId)
+    if (!user) return failure('Employee not found', 'USER_NOT_FOUND', 404)
+
+    const [existing] = await serverDbManager.getEmployeeExternalIdsByKeys(input.source, [input.externalId])
+    if (existing) {
+      return existing.userId === userId
+        ? { success: true, mapping: existing }
+        : failure(`${input.externalId} is already mapped to another employee in ${input.source}`, 'EXTERNAL_ID_TAKEN', 409)
+    }
+
+    const mapping = await serverDbManager.createEmployeeExternalId({
+      userId,
+      source: input.source,
+      externalId: input.externalId,
+      createdBy: actorId
+    })
+
+    await serverDbManager.createAuditLog({
+      userId: actorId,
+      action: 'employee_external_id_added',
+      resource: 'user',
+      resourceId: userId,
+      details: {
+        description: `Mapped ${input.source} ID ${input.externalId} to ${user.name}`,
+        source: input.source,
+        externalId: input.externalId
+      }
+    })
+
+    return { success: true, mapping }
+  }
+
+  async remove(userId: string, id: string, actorId: string): Promise<ExternalIdResult<{}>> {
+    const mapping = (await this.list(userId)).find(item => item.id === id)
+    if (!mapping) return failure('External ID not found', 'EXTERNAL_ID_NOT_FOUND', 404)
+
+    if (!(await serverDbManager.deleteEmployeeExternalId(id))) {
+      return failure('Failed to remove external ID', 'EXTERNAL_ID_DELETE_FAILED', 500)
+    }
+
+    await serverDbManager.createAuditLog({
+      userId: actorId,
+      action: 'employee_external_id_removed',
+      resource: 'user',
+      resourceId: userId,
+      details: {
+        description: `Removed ${mapping.source} ID ${mapping.externalId}`,
+        source: mapping.source,
+        externalId: mapping.externalId
+      }
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Employee ids for the given numbers within one source
+   */
+  async resolve(source: string, externalIds: string[]): Promise<Map<string, string>> {
+    const mappings = await serverDbManager.getEmployeeExternalIdsByKeys(source, externalIds)
+    return new Map(mappings.map(mapping => [mapping.externalId, mapping.userId]))
+  }
+}
+
+export const employeeExternalIds = new EmployeeExternalIdService()
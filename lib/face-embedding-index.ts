@@ -0,0 +1,311 @@
+/**
+ * Face Embedding Index
+ * Keeps every active enrolled embedding in an in-process, L2-normalized
+ * Float32 matrix so a check-in is one matrix-vector product instead of N+1
+ * queries and a linear scan. Optionally delegates the nearest-neighbour query
+ * to pgvector (FACE_INDEX_BACKEND=pgvector, see migration 006).
+ *
+ * Enrollment and deletion routes call `invalidate()`; a TTL covers changes
+ * made by other server instances.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import { calibrateUserThreshold, validateEmbedding } from '@/lib/face-matching'
+import type { FaceMatchResult } from '@/lib/face-matching'
+import { logger } from '@/lib/logger'
+
+export interface IndexedFaceMatch extends FaceMatchResult {
+  embeddingId: string
+}
+
+export interface EmbeddingIndexStats {
+  backend: 'memory' | 'pgvector'
+  embeddings: number
+  users: number
+  dimensions: number
+  loadedAt: Date | null
+  version: number
+}
+
+interface IndexState {
+  matrix: Float32Array // Row-major, one normalized embedding per row
+  norms: Float32Array // Original vector lengths, for Euclidean distance
+  userIds: string[]
+  embeddingIds: string[]
+  userThresholds: Map<string, number> // Calibrated from each user's enrollments
+  dimensions: number
+  loadedAt: number
+  version: number
+}
+
+const DESCRIPTOR_DIMENSIONS = 128
+const INDEX_TTL_MS = 10 * 60 * 1000
+const DEFAULT_CANDIDATE_LIMIT = 5
+
+/**
+ * Map raw cosine similarity to the 0-1 scale used by `calculateCosineSimilarity`
+ */
+function toConfidence(cosine: number): number {
+  return (cosine + 1) / 2
+}
+
+export class FaceEmbeddingIndex {
+  private state: IndexState | null = null
+  private loading: Promise<IndexState> | null = null
+  private version = 0
+  private vectorCount: { value: number; expiresAt: number } | null = null
+  private thresholdCache = new Map<string, { value: number | null; expiresAt: number }>()
+
+  private get backend(): 'memory' | 'pgvector' {
+    return process.env.FACE_INDEX_BACKEND === 'pgvector' ? 'pgvector' : 'memory'
+  }
+
+  /**
+   * Drop the cached matrix; the next search reloads it
+   */
+  invalidate(): void {
+    this.version++
+    this.state = null
+    this.loading = null
+    this.vectorCount = null
+    this.thresholdCache.clear()
+    logger.debug('Face embedding index invalidated', { version: this.version })
+  }
+
+  /**
+   * Number of indexed embeddings (0 means nobody has enrolled)
+   */
+  async size(): Promise<number> {
+    if (this.backend === 'pgvector' && !this.state) {
+      if (this.vectorCount && this.vectorCount.expiresAt > Date.now()) {
+        return this.vectorCount.value
+      }
+      const value = await serverDbManager.countIndexableFaceEmbeddings()
+      this.vectorCount = { value, expiresAt: Date.now() + INDEX_TTL_MS }
+      return value
+    }
+
+    const state = await this.ensureLoaded()
+    return state.userIds.length
+  }
+
+  /**
+   * Best-scoring embedding per distinct user, highest similarity first.
+   * No threshold is applied here.
+   */
+  async search(descriptor: number[] | Float32Array, limit: number = DEFAULT_CANDIDATE_LIMIT): Promise<IndexedFaceMatch[]> {
+    if (descriptor.length !== DESCRIPTOR_DIMENSIONS || !validateEmbedding(descriptor)) {
+      return []
+    }
+
+    if (this.backend === 'pgvector') {
+      try {
+        return await this.searchVector(descriptor, limit)
+      } catch (error) {
+        logger.error('pgvector search failed, falling back to in-memory index', error as Error)
+      }
+    }
+
+    return this.searchMemory(await this.ensureLoaded(), descriptor, limit)
+  }
+
+  /**
+   * Calibrated per-user thresholds for the given users (users with fewer
+   * than two enrollments are omitted and use the global threshold)
+   */
+  async getUserThresholds(userIds: string[]): Promise<Map<string, number>> {
+    const thresholds = new Map<string, number>()
+
+    if (this.backend === 'memory' || this.state) {
+      const state = await this.ensureLoaded()
+      for (const userId of userIds) {
+        const value = state.userThresholds.get(userId)
+        if (value !== undefined) thresholds.set(userId, value)
+      }
+      return thresholds
+    }
+
+    // pgvector backend: calibrate only the candidates, cached per user
+    await Promise.all(
+      userIds.map(async userId => {
+        const cached = this.thresholdCache.get(userId)
+        let value = cached && cached.expiresAt > Date.now() ? cached.value : undefined
+        if (value === undefined) {
+          const embeddings = await serverDbManager.getFaceEmbeddings(userId)
+          value = calibrateUserThreshold(
+            embeddings.filter(e => e.kind !== 'adaptive').map(e => e.embedding).filter(validateEmbedding)
+          )
+          this.thresholdCache.set(userId, { value, expiresAt: Date.now() + INDEX_TTL_MS })
+        }
+        if (value !== null) thresholds.set(userId, value)
+      })
+    )
+    return thresholds
+  }
+
+  getStats(): EmbeddingIndexStats {
+    return {
+      backend: this.backend,
+      embeddings: this.state?.userIds.length ?? 0,
+      users: this.state ? new Set(this.state.userIds).size : 0,
+      dimensions: this.state?.dimensions ?? DESCRIPTOR_DIMENSIONS,
+      loadedAt: this.state ? new Date(this.state.loadedAt) : null,
+      version: this.version
+    }
+  }
+
+  private async ensureLoaded(): Promise<IndexState> {
+    if (this.state && Date.now() - this.state.loadedAt < INDEX_TTL_MS) {
+      return this.state
+    }
+
+    // Concurrent requests share a single load
+    if (!this.loading) {
+      const version = this.version
+      this.loading = this.load(version)
+        .then(state => {
+          // Ignore loads that raced with an invalidation
+          if (version === this.version) {
+            this.state = state
+          }
+          return state
+        })
+        .finally(() => {
+          this.loading = null
+        })
+    }
+
+    return this.loading
+  }
+
+  private async load(version: number): Promise<IndexState> {
+    const started = Date.now()
+    const embeddings = await serverDbManager.getIndexableFaceEmbeddings()
+
+    const valid = embeddings.filter(
+      e => Array.isArray(e.embedding) && e.embedding.length === DESCRIPTOR_DIMENSIONS && validateEmbedding(e.embedding)
+    )
+
+    const matrix = new Float32Array(valid.length * DESCRIPTOR_DIMENSIONS)
+    const norms = new Float32Array(valid.length)
+
+    valid.forEach((e, row) => {
+      let sumSq = 0
+      for (let i = 0; i < DESCRIPTOR_DIMENSIONS; i++) {
+        sumSq += e.embedding[i] * e.embedding[i]
+      }
+      const norm = Math.sqrt(sumSq)
+      norms[row] = norm
+      const offset = row * DESCRIPTOR_DIMENSIONS
+      for (let i = 0; i < DESCRIPTOR_DIMENSIONS; i++) {
+        matrix[offset + i] = e.embedding[i] / norm
+      }
+    })
+
+    if (valid.length !== embeddings.length) {
+      logger.warn('Skipped invalid face embeddings while building index', {
+        skipped: embeddings.length - valid.length
+      })
+    }
+
+    const byUser = new Map<string, number[][]>()
+    for (const e of valid) {
+      // Calibrate on enrolled samples only; the adaptive template is derived from them
+      if (e.kind === 'adaptive') continue
+      byUser.set(e.userId, [...(byUser.get(e.userId) || []), e.embedding])
+    }
+    const userThresholds = new Map<string, number>()
+    byUser.forEach((userEmbeddings, userId) => {
+      const threshold = calibrateUserThreshold(userEmbeddings)
+      if (threshold !== null) userThresholds.set(userId, threshold)
+    })
+
+    logger.info('Face embedding index loaded', {
+      embeddings: valid.length,
+      loadMs: Date.now() - started
+    })
+
+    return {
+      matrix,
+      norms,
+      userIds: valid.map(e => e.userId),
+      embeddingIds: valid.map(e => e.id),
+      userThresholds,
+      dimensions: DESCRIPTOR_DIMENSIONS,
+      loadedAt: Date.now(),
+      version
+    }
+  }
+
+  private searchMemory(state: IndexState, descriptor: number[] | Float32Array, limit: number): IndexedFaceMatch[] {
+    const dims = state.dimensions
+    let queryNorm = 0
+    for (let i = 0; i < dims; i++) {
+      queryNorm += descriptor[i] * descriptor[i]
+    }
+    queryNorm = Math.sqrt(queryNorm)
+
+    const query = new Float32Array(dims)
+    for (let i = 0; i < dims; i++) {
+      query[i] = descriptor[i] / queryNorm
+    }
+
+    // Best row per user
+    const bestByUser = new Map<string, { row: number; cosine: number }>()
+    for (let row = 0; row < state.userIds.length; row++) {
+      const offset = row * dims
+      let dot = 0
+      for (let i = 0; i < dims; i++) {
+        dot += state.matrix[offset + i] * query[i]
+      }
+
+      const userId = state.userIds[row]
+      const current = bestByUser.get(userId)
+      if (!current || dot > current.cosine) {
+        bestByUser.set(userId, { row, cosine: dot })
+      }
+    }
+
+    const results: IndexedFaceMatch[] = []
+    bestByUser.forEach(({ row, cosine }, userId) => {
+      const norm = state.norms[row]
+      const distance = Math.sqrt(Math.max(0, norm * norm + queryNorm * queryNorm - 2 * norm * queryNorm * cosine))
+      const confidence = toConfidence(cosine)
+      results.push({
+        userId,
+        embeddingId: state.embeddingIds[row],
+        confidence,
+        similarity: confidence,
+        distance
+      })
+    })
+
+    results.sort((a, b) => b.confidence - a.confidence)
+    return results.slice(0, limit)
+  }
+
+  private async searchVector(descriptor: number[] | Float32Array, limit: number): Promise<IndexedFaceMatch[]> {
+    // Over-fetch so several embeddings of one user don't crowd out others
+    const rows = await serverDbManager.matchFaceEmbeddingsByVector(Array.from(descriptor), limit * 5)
+
+    const seen = new Set<string>()
+    const results: IndexedFaceMatch[] = []
+    for (const row of rows) {
+      if (seen.has(row.userId)) continue
+      seen.add(row.userId)
+      const confidence = toConfidence(row.similarity)
+      results.push({
+        userId: row.userId,
+        embeddingId: row.embeddingId,
+        confidence,
+        similarity: confidence,
+        distance: row.distance
+      })
+    }
+
+    return results.slice(0, limit)
+  }
+}
+
+// Export singleton instance
+export const faceEmbeddingIndex = new FaceEmbeddingIndex()
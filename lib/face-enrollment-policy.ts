@@ -0,0 +1,272 @@
+/**
+ * Face Enrollment Policy
+ * Server-side gate for new face embeddings and their lifecycle afterwards.
+ * A sample is rejected when it looks like someone else's enrolled face,
+ * adds nothing over the user's existing samples, or was captured poorly;
+ * the stored quality is recomputed from the capture measurements instead
+ * of trusting the client's score. Embeddings age out after a fixed period,
+ * and ones that keep producing barely-passing matches are flagged for
+ * re-enrollment.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerFaceEmbedding } from '@/lib/server-db'
+import { faceEmbeddingIndex } from '@/lib/face-embedding-index'
+import { calculateCosineSimilarity, BASE_MATCH_THRESHOLD } from '@/lib/face-matching'
+import type { FaceEnrollmentCapture } from '@/lib/validation-schemas'
+import { logger } from '@/lib/logger'
+
+export type EnrollmentPolicyResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+export const MAX_EMBEDDINGS_PER_USER = 3
+export const EMBEDDING_MAX_AGE_DAYS = 365
+// Inactive embeddings are deleted for good after this long
+const INACTIVE_RETENTION_DAYS = 90
+
+const MIN_ENROLLMENT_QUALITY = 0.5
+// A sample this close to one of the user's own is a repeat, not a new view
+const NEAR_DUPLICATE_SIMILARITY = 0.985
+// Samples must differ by at least this much head rotation (degrees)
+const MIN_POSE_SEPARATION = 8
+// The first sample is the reference and must face the camera
+const MAX_REFERENCE_ANGLE = 15
+
+// Matches within this much of the user's threshold count as low scoring
+const LOW_MATCH_MARGIN = 0.03
+const LOW_MATCH_FLAG_AFTER = 5
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value))
+}
+
+function daysAgo(days: number): Date {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+}
+
+function poseOf(embedding: ServerFaceEmbedding): FaceEnrollmentCapture['pose'] | undefined {
+  return embedding.metadata?.capture?.pose
+}
+
+export class FaceEnrollmentPolicy {
+  /**
+   * Score a capture 0-1 from detection confidence, face size, centering,
+   * lighting and how frontal the pose is
+   */
+  computeQuality(capture: FaceEnrollmentCapture): number {
+    const detection = clamp01(capture.detectionScore)
+    const size = clamp01((capture.faceSize - 80) / 120)
+    const centering = clamp01(1 - capture.centerOffset / 0.3)
+    const lighting = capture.brightness === undefined
+      ? 0.7
+      : clamp01(1 - Math.abs(capture.brightness - 0.5) / 0.35)
+    const frontal = capture.pose
+      ? clamp01(1 - Math.max(Math.abs(capture.pose.yaw), Math.abs(capture.pose.pitch)) / 45)
+      : 0.7
+
+    const score = detection * 0.35 + size * 0.2 + centering * 0.1 + lighting * 0.15 + frontal * 0.2
+    return Math.round(score * 1000) / 1000
+  }
+
+  /**
+   * Decide whether a new sample may be enrolled for a user. Retires the
+   * user's aged-out embeddings first so they don't count against the cap.
+   */
+  async evaluate(
+    userId: string,
+    descriptor: number[],
+    capture: FaceEnrollmentCapture,
+    options: { maxEmbeddings?: number } = {}
+  ): Promise<EnrollmentPolicyResult<{ quality: number; existing: ServerFaceEmbedding[] }>> {
+    const maxEmbeddings = options.maxEmbeddings ?? MAX_EMBEDDINGS_PER_USER
+
+    const retired = await serverDbManager.retireAgedFaceEmbeddings(daysAgo(EMBEDDING_MAX_AGE_DAYS), userId)
+    if (retired.length > 0) {
+      faceEmbeddingIndex.invalidate()
+      logger.info('Retired aged face embeddings before enrollment', { userId, count: retired.length })
+    }
+
+    // The adaptive template is maintained separately and doesn't count
+    const existing = (await serverDbManager.getFaceEmbeddings(userId)).filter(e => e.kind !== 'adaptive')
+    if (existing.length >= maxEmbeddings) {
+      return failure(
+        `Maximum number of face enrollments (${maxEmbeddings}) reached. Please delete an old enrollment first.`,
+        'MAX_ENROLLMENTS'
+      )
+    }
+
+    const quality = this.computeQuality(capture)
+    if (quality < MIN_ENROLLMENT_QUALITY) {
+      return failure(
+        'Face capture quality is too low. Face the camera in good lighting and move closer.',
+        'LOW_QUALITY'
+      )
+    }
+
+    const duplicateOf = await this.findOtherIdentity(userId, descriptor)
+    if (duplicateOf) {
+      await serverDbManager.createAuditLog({
+        userId,
+        action: 'face_enrollment_duplicate_identity',
+        resource: 'face_embedding',
+        details: {
+          description: 'Face enrollment rejected: sample matches another enrolled user',
+          matchedUserId: duplicateOf.userId,
+          confidence: duplicateOf.confidence
+        }
+      })
+      logger.warn('Face enrollment matches another user', {
+        userId,
+        matchedUserId: duplicateOf.userId,
+        confidence: duplicateOf.confidence
+      })
+      return failure(
+        'This face is already enrolled for another employee. Please contact HR.',
+        'DUPLICATE_IDENTITY',
+        409
+      )
+    }
+
+    const diversity = this.checkDiversity(descriptor, capture, existing)
+    if (diversity) return diversity
+
+    return { success: true, quality, existing }
+  }
+
+  /**
+   * Update the statistics of the embedding behind a successful check-in and
+   * notify the user the first time it is flagged for re-enrollment
+   */
+  async recordMatch(match: { userId: string; embeddingId: string; confidence: number }, threshold: number): Promise<void> {
+    const stats = await serverDbManager.recordFaceEmbeddingMatch(
+      match.embeddingId,
+      match.confidence,
+      threshold + LOW_MATCH_MARGIN,
+      LOW_MATCH_FLAG_AFTER
+    )
+    if (!stats?.newlyFlagged) return
+
+    await serverDbManager.createAuditLog({
+      userId: match.userId,
+      action: 'face_embedding_flagged',
+      resource: 'face_embedding',
+      resourceId: match.embeddingId,
+      details: {
+        description: `Face embedding flagged for re-enrollment after ${LOW_MATCH_FLAG_AFTER} low-scoring matches`,
+        avgMatchConfidence: stats.avgMatchConfidence,
+        threshold
+      }
+    })
+
+    await serverDbManager.createNotification({
+      userId: match.userId,
+      title: 'Please re-enroll your face',
+      message: 'Face recognition is having trouble recognizing you. Please enroll a new face sample.',
+      type: 'warning',
+      priority: 'normal'
+    })
+
+    logger.info('Face embedding flagged for re-enrollment', {
+      userId: match.userId,
+      embeddingId: match.embeddingId,
+      avgMatchConfidence: stats.avgMatchConfidence
+    })
+  }
+
+  /**
+   * Periodic sweep: retire embeddings past their maximum age, notifying each
+   * affected user once, and delete embeddings inactive past retention
+   */
+  async runLifecycle(): Promise<{ retired: number; purged: number; flagged: number; notifiedUsers: number }> {
+    const retired = await serverDbManager.retireAgedFaceEmbeddings(daysAgo(EMBEDDING_MAX_AGE_DAYS))
+    if (retired.length > 0) {
+      faceEmbeddingIndex.invalidate()
+    }
+
+    const userIds = Array.from(new Set(retired.map(e => e.userId)))
+    for (const userId of userIds) {
+      await serverDbManager.createNotification({
+        userId,
+        title: 'Face enrollment expired',
+        message: `Face samples older than ${EMBEDDING_MAX_AGE_DAYS} days have been retired. Please enroll a new face sample.`,
+        type: 'warning',
+        priority: 'normal'
+      })
+    }
+
+    const purged = await serverDbManager.purgeInactiveFaceEmbeddings(daysAgo(INACTIVE_RETENTION_DAYS))
+    const flagged = await serverDbManager.getFlaggedFaceEmbeddings()
+
+    logger.info('Face embedding lifecycle sweep finished', {
+      retired: retired.length,
+      purged,
+      flagged: flagged.length
+    })
+
+    return { retired: retired.length, purged, flagged: flagged.length, notifiedUsers: userIds.length }
+  }
+
+  /**
+   * Best match among other users' embeddings that would pass as them
+   */
+  private async findOtherIdentity(
+    userId: string,
+    descriptor: number[]
+  ): Promise<{ userId: string; confidence: number } | null> {
+    const candidates = (await faceEmbeddingIndex.search(descriptor)).filter(c => c.userId !== userId)
+    if (candidates.length === 0) return null
+
+    const thresholds = await faceEmbeddingIndex.getUserThresholds(candidates.map(c => c.userId))
+    const match = candidates.find(c => c.confidence >= (thresholds.get(c.userId) ?? BASE_MATCH_THRESHOLD))
+    return match ? { userId: match.userId, confidence: match.confidence } : null
+  }
+
+  private checkDiversity(
+    descriptor: number[],
+    capture: FaceEnrollmentCapture,
+    existing: ServerFaceEmbedding[]
+  ): ReturnType<typeof failure> | null {
+    const pose = capture.pose
+
+    if (existing.length === 0) {
+      if (pose && Math.max(Math.abs(pose.yaw), Math.abs(pose.pitch)) > MAX_REFERENCE_ANGLE) {
+        return failure('The first face sample must look straight at the camera.', 'FRONTAL_REQUIRED')
+      }
+      return null
+    }
+
+    for (const embedding of existing) {
+      if (
+        embedding.embedding?.length === descriptor.length &&
+        calculateCosineSimilarity(descriptor, embedding.embedding) >= NEAR_DUPLICATE_SIMILARITY
+      ) {
+        return failure(
+          'This sample is almost identical to one already enrolled. Turn your head slightly and try again.',
+          'LOW_DIVERSITY'
+        )
+      }
+
+      const existingPose = poseOf(embedding)
+      if (
+        pose &&
+        existingPose &&
+        Math.max(Math.abs(pose.yaw - existingPose.yaw), Math.abs(pose.pitch - existingPose.pitch)) < MIN_POSE_SEPARATION
+      ) {
+        return failure(
+          'Your head angle matches an enrolled sample. Turn your head slightly left, right, up or down.',
+          'LOW_DIVERSITY'
+        )
+      }
+    }
+
+    return null
+  }
+}
+
+// Export singleton instance
+export const faceEnrollmentPolicy = new FaceEnrollmentPolicy()
@@ -0,0 +1,113 @@
+/**
+ * Face Identification Service
+ * Open-set identification on top of the embedding index: per-user calibrated
+ * thresholds, a top-2 margin test across distinct users, and a second factor
+ * (attendance PIN or employee ID) to settle ambiguous matches.
+ */
+
+import bcrypt from 'bcryptjs'
+import { serverDbManager } from '@/lib/server-db'
+import { faceEmbeddingIndex } from '@/lib/face-embedding-index'
+import type { IndexedFaceMatch } from '@/lib/face-embedding-index'
+import { identifyFromCandidates } from '@/lib/face-matching'
+import type { IdentificationResult, MatchingConditions } from '@/lib/face-matching'
+import { logger } from '@/lib/logger'
+
+export interface SecondFactor {
+  pin?: string
+  employeeId?: string
+}
+
+export interface FaceIdentification extends IdentificationResult<IndexedFaceMatch> {
+  indexSize: number
+  resolvedBy?: 'pin' | 'employeeId'
+}
+
+const CANDIDATE_LIMIT = 5
+
+/**
+ * Parse a second factor from a request body, ignoring empty values
+ */
+export function parseSecondFactor(raw: unknown): SecondFactor | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+  const { pin, employeeId } = raw as Record<string, unknown>
+  const factor: SecondFactor = {}
+  if (typeof pin === 'string' && pin.trim()) factor.pin = pin.trim()
+  if (typeof employeeId === 'string' && employeeId.trim()) factor.employeeId = employeeId.trim()
+  return factor.pin || factor.employeeId ? factor : undefined
+}
+
+export class FaceIdentificationService {
+  /**
+   * Identify the person behind a descriptor. Ambiguous results are resolved
+   * only when the second factor matches exactly one of the tied candidates.
+   */
+  async identify(
+    descriptor: number[],
+    options: { conditions?: MatchingConditions; secondFactor?: SecondFactor } = {}
+  ): Promise<FaceIdentification> {
+    const indexSize = await faceEmbeddingIndex.size()
+    if (indexSize === 0) {
+      return { outcome: 'no_match', match: null, candidates: [], margin: null, threshold: 0, indexSize }
+    }
+
+    const candidates = await faceEmbeddingIndex.search(descriptor, CANDIDATE_LIMIT)
+    const userThresholds = await faceEmbeddingIndex.getUserThresholds(candidates.map(c => c.userId))
+    const result = identifyFromCandidates(candidates, { conditions: options.conditions, userThresholds })
+
+    if (result.outcome !== 'ambiguous' || !options.secondFactor) {
+      return { ...result, indexSize }
+    }
+
+    const resolved = await this.resolveWithSecondFactor(result.candidates, options.secondFactor)
+    if (!resolved) {
+      logger.warn('Second factor did not resolve ambiguous face match', {
+        candidates: result.candidates.map(c => c.userId)
+      })
+      return { ...result, indexSize }
+    }
+
+    return {
+      ...result,
+      outcome: 'match',
+      match: resolved.match,
+      candidates: [resolved.match],
+      indexSize,
+      resolvedBy: resolved.factor
+    }
+  }
+
+  private async resolveWithSecondFactor(
+    candidates: IndexedFaceMatch[],
+    secondFactor: SecondFactor
+  ): Promise<{ match: IndexedFaceMatch; factor: 'pin' | 'employeeId' } | null> {
+    const matches: Array<{ match: IndexedFaceMatch; factor: 'pin' | 'employeeId' }> = []
+
+    for (const candidate of candidates) {
+      const user = await serverDbManager.getUser(candidate.userId)
+      if (!user) continue
+
+      if (
+        secondFactor.employeeId &&
+        user.employeeId &&
+        user.employeeId.toLowerCase() === secondFactor.employeeId.toLowerCase()
+      ) {
+        matches.push({ match: candidate, factor: 'employeeId' })
+        continue
+      }
+
+      if (secondFactor.pin) {
+        const pinHash = await serverDbManager.getUserAttendancePinHash(candidate.userId)
+        if (pinHash && (await bcrypt.compare(secondFactor.pin, pinHash))) {
+          matches.push({ match: candidate, factor: 'pin' })
+        }
+      }
+    }
+
+    // The factor must single out exactly one of the tied candidates
+    return matches.length === 1 ? matches[0] : null
+  }
+}
+
+// Export singleton instance
+export const faceIdentification = new FaceIdentificationService()
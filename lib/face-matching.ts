@@ -18,6 +18,32 @@ export interface MatchingConditions {
   faceSize?: number
 }
 
+export type IdentificationOutcome = 'match' | 'ambiguous' | 'no_match'
+
+export interface IdentificationResult<T extends FaceMatchResult = FaceMatchResult> {
+  outcome: IdentificationOutcome
+  match: T | null // Only set when the outcome is 'match'
+  candidates: T[] // Best first; for 'ambiguous', every user the probe could be
+  margin: number | null // Confidence gap between the best two distinct users
+  threshold: number // Threshold applied to the best candidate
+}
+
+export interface IdentificationOptions {
+  conditions?: MatchingConditions
+  userThresholds?: Map<string, number>
+  minMargin?: number
+}
+
+// Base threshold for cosine similarity (on the 0-1 confidence scale)
+export const BASE_MATCH_THRESHOLD = 0.65
+
+// Minimum confidence gap between the best two distinct users
+export const DEFAULT_AMBIGUITY_MARGIN = 0.03
+
+const MIN_USER_THRESHOLD = BASE_MATCH_THRESHOLD
+const MAX_USER_THRESHOLD = 0.9
+const CALIBRATION_SLACK = 0.03
+
 /**
  * Calculate cosine similarity between two face embeddings
  * Returns value between 0 and 1 (higher is more similar)
@@ -75,7 +101,7 @@ export function calculateEuclideanDistance(
  * Get adaptive threshold based on image quality conditions
  */
 export function getAdaptiveThreshold(conditions: MatchingConditions = {}): number {
-  let baseThreshold = 0.65 // Base threshold for cosine similarity
+  let baseThreshold = BASE_MATCH_THRESHOLD
 
   const { lighting = 1, imageQuality = 1, faceSize = 150 } = conditions
 
@@ -261,3 +287,81 @@ export function assessMatchQuality(matchResult: FaceMatchResult): {
     }
   }
 }
+
+/**
+ * Calibrate a per-user threshold from that user's enrolled embeddings.
+ * Users whose enrollments agree closely get a stricter threshold; returns
+ * null when there are too few embeddings to calibrate.
+ */
+export function calibrateUserThreshold(embeddings: Array<number[] | Float32Array>): number | null {
+  if (embeddings.length < 2) {
+    return null
+  }
+
+  const scores: number[] = []
+  for (let i = 0; i < embeddings.length; i++) {
+    for (let j = i + 1; j < embeddings.length; j++) {
+      scores.push(calculateCosineSimilarity(embeddings[i], embeddings[j]))
+    }
+  }
+
+  const mean = scores.reduce((sum, v) => sum + v, 0) / scores.length
+  const variance = scores.reduce((sum, v) => sum + (v - mean) ** 2, 0) / scores.length
+  const lowerBound = Math.min(mean - 3 * Math.sqrt(variance), Math.min(...scores))
+
+  return Math.max(MIN_USER_THRESHOLD, Math.min(MAX_USER_THRESHOLD, lowerBound - CALIBRATION_SLACK))
+}
+
+/**
+ * Open-set identification over per-user best candidates (one entry per user,
+ * best first). A match must clear that user's threshold, and is reported as
+ * ambiguous when a different user scores within `minMargin` of it while
+ * being plausible themselves.
+ */
+export function identifyFromCandidates<T extends FaceMatchResult>(
+  candidates: T[],
+  options: IdentificationOptions = {}
+): IdentificationResult<T> {
+  const { conditions = {}, userThresholds, minMargin = DEFAULT_AMBIGUITY_MARGIN } = options
+
+  // Lighting/quality adjustments apply on top of calibrated thresholds too
+  const globalThreshold = getAdaptiveThreshold(conditions)
+  const adjustment = globalThreshold - BASE_MATCH_THRESHOLD
+  const thresholdFor = (userId: string): number => {
+    const calibrated = userThresholds?.get(userId)
+    return calibrated === undefined ? globalThreshold : Math.max(0.45, calibrated + adjustment)
+  }
+
+  const sorted = [...candidates].sort((a, b) => b.confidence - a.confidence)
+  const best = sorted[0]
+
+  if (!best) {
+    return { outcome: 'no_match', match: null, candidates: [], margin: null, threshold: globalThreshold }
+  }
+
+  const threshold = thresholdFor(best.userId)
+  const runnerUp = sorted.find(c => c.userId !== best.userId)
+  const margin = runnerUp ? best.confidence - runnerUp.confidence : null
+
+  if (best.confidence < threshold) {
+    return { outcome: 'no_match', match: null, candidates: [], margin, threshold }
+  }
+
+  const rivals = sorted.filter(
+    c =>
+      c.userId !== best.userId &&
+      best.confidence - c.confidence < minMargin &&
+      c.confidence >= thresholdFor(c.userId) - minMargin
+  )
+
+  if (rivals.length > 0) {
+    logger.warn('Ambiguous face match', {
+      userIds: [best.userId, ...rivals.map(r => r.userId)],
+      margin,
+      minMargin
+    })
+    return { outcome: 'ambiguous', match: null, candidates: [best, ...rivals], margin, threshold }
+  }
+
+  return { outcome: 'match', match: best, candidates: [best], margin, threshold }
+}
@@ -6,6 +6,7 @@
  */
 
 import * as faceapi from 'face-api.js'
+import type { FaceEnrollmentCapture } from '@/lib/validation-schemas'
 
 export interface FaceQualityResult {
   score: number // 0-100
@@ -251,3 +252,94 @@ export function isReadyForCapture(quality: FaceQualityResult): boolean {
     quality.details.mouthVisible
   )
 }
+
+type Point = { x: number; y: number }
+
+function centroid(points: Point[]): Point {
+  return {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  }
+}
+
+function clampDegrees(value: number, limit: number): number {
+  return Math.round(Math.max(-limit, Math.min(limit, value)) * 10) / 10
+}
+
+/**
+ * Rough head pose in degrees from 68-point landmarks: yaw from how far the
+ * nose tip sits off the eye midline, pitch from where it sits between the
+ * eyes and mouth, roll from the eye line
+ */
+export function estimateHeadPose(landmarks: faceapi.FaceLandmarks68): NonNullable<FaceEnrollmentCapture['pose']> {
+  const leftEye = centroid(landmarks.getLeftEye())
+  const rightEye = centroid(landmarks.getRightEye())
+  const noseTip = landmarks.getNose()[3]
+  const mouth = centroid(landmarks.getMouth())
+
+  const eyeMid = { x: (leftEye.x + rightEye.x) / 2, y: (leftEye.y + rightEye.y) / 2 }
+  const eyeDistance = Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y) || 1
+  const eyeToMouth = mouth.y - eyeMid.y || 1
+
+  return {
+    yaw: clampDegrees(((noseTip.x - eyeMid.x) / eyeDistance) * 90, 90),
+    // The nose tip sits ~60% of the way from the eyes to the mouth when level
+    pitch: clampDegrees(((noseTip.y - eyeMid.y) / eyeToMouth - 0.6) * 150, 90),
+    roll: clampDegrees(Math.atan2(rightEye.y - leftEye.y, rightEye.x - leftEye.x) * (180 / Math.PI), 180),
+  }
+}
+
+/**
+ * Mean luma (0-1) of the face region of a frame
+ */
+function measureBrightness(
+  source: CanvasImageSource,
+  box: { x: number; y: number; width: number; height: number }
+): number | undefined {
+  if (typeof document === 'undefined' || box.width <= 0 || box.height <= 0) return undefined
+
+  const canvas = document.createElement('canvas')
+  canvas.width = 32
+  canvas.height = 32
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return undefined
+
+  try {
+    ctx.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, 32, 32)
+    const { data } = ctx.getImageData(0, 0, 32, 32)
+    let luma = 0
+    for (let i = 0; i < data.length; i += 4) {
+      luma += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+    }
+    return Math.round((luma / (data.length / 4) / 255) * 1000) / 1000
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Measurements sent with an enrollment sample; the server computes the
+ * stored quality and checks pose diversity from them
+ */
+export function describeEnrollmentCapture(input: {
+  score: number
+  box: { x: number; y: number; width: number; height: number }
+  frameWidth: number
+  frameHeight: number
+  landmarks?: faceapi.FaceLandmarks68
+  source?: CanvasImageSource
+}): FaceEnrollmentCapture {
+  const { score, box, frameWidth, frameHeight } = input
+  const offsetX = (box.x + box.width / 2 - frameWidth / 2) / frameWidth
+  const offsetY = (box.y + box.height / 2 - frameHeight / 2) / frameHeight
+
+  return {
+    detectionScore: Math.max(0, Math.min(1, score)),
+    faceSize: Math.round(Math.min(box.width, box.height)),
+    frameWidth,
+    frameHeight,
+    centerOffset: Math.min(1, Math.round(Math.hypot(offsetX, offsetY) * 1000) / 1000),
+    brightness: input.source ? measureBrightness(input.source, box) : undefined,
+    pose: input.landmarks ? estimateHeadPose(input.landmarks) : undefined,
+  }
+}
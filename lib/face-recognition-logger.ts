@@ -145,6 +145,30 @@ export class FaceRecognitionLogger {
     existingLogger.error(`❌ Face matching error: ${errorMsg} (${matchingTime}ms)`);
   }
 
+  // Liveness checks
+  livenessPassed(challengeId: string, details?: { userId?: string; durationMs?: number; steps?: string[] }): void {
+    vercelLogger.info('Liveness check passed', {
+      action: 'liveness',
+      component: 'liveness',
+      userId: details?.userId,
+      metadata: { challengeId, ...details }
+    });
+
+    existingLogger.info(`✅ Liveness check passed${details?.durationMs ? ` (${details.durationMs}ms)` : ''}`);
+  }
+
+  livenessFailed(reason: string, details?: Record<string, any>): void {
+    this.sessionMetrics.errorCount++;
+    vercelLogger.warn(`Liveness check failed: ${reason}`, {
+      action: 'liveness',
+      component: 'liveness',
+      userId: details?.userId,
+      metadata: { reason, ...details }
+    });
+
+    existingLogger.warn(`⚠️ Liveness check failed: ${reason}`, details);
+  }
+
   // Attendance actions
   logCheckIn(userId: string, userName: string, success: boolean, error?: string): void {
     logAttendanceAction('check_in', success ? 'success' : 'failed', {
@@ -262,6 +286,12 @@ export const logFRMatching = {
   error: (error: string | Error) => frLogger.faceMatchingError(error),
 };
 
+export const logFRLiveness = {
+  passed: (challengeId: string, details?: { userId?: string; durationMs?: number; steps?: string[] }) =>
+    frLogger.livenessPassed(challengeId, details),
+  failed: (reason: string, details?: Record<string, any>) => frLogger.livenessFailed(reason, details),
+};
+
 export const logFRAttendance = {
   checkIn: (userId: string, userName: string, success: boolean, error?: string) => 
     frLogger.logCheckIn(userId, userName, success, error),
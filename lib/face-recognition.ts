@@ -11,6 +11,7 @@ import { modelLoader, ModelType, ModelQuality } from './model-loader';
 import { imageProcessor, ImageProcessingOptions } from './image-processor';
 import { qualityThresholdsManager, QualityThresholdsOptions, QualityMetrics } from './quality-thresholds';
 import { memoryMonitor, MemoryMonitorOptions } from './memory-monitor';
+import type { FaceEnrollmentCapture } from './validation-schemas';
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export interface FaceEmbedding {
@@ -23,6 +24,7 @@ export interface FaceEmbedding {
     quality?: number;
     lighting?: number;
     pose?: number;
+    capture?: FaceEnrollmentCapture;
   };
 }
 
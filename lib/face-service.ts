@@ -2,7 +2,7 @@ import { FaceEmbedding } from '@/lib/face-recognition'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export const faceService = {
-  async enrollFace(embedding: FaceEmbedding): Promise<boolean> {
+  async enrollFace(embedding: FaceEmbedding): Promise<{ success: boolean; error?: string }> {
     try {
       const res = await fetch('/api/admin/face/embeddings', {
         method: 'POST',
@@ -18,10 +18,10 @@ export const faceService = {
         }),
       })
       const data = await res.json()
-      return !!data?.success
+      return { success: !!data?.success, error: data?.error }
     } catch (e) {
       logger.error('enrollFace error', e as Error)
-      return false
+      return { success: false }
     }
   },
 
@@ -5,6 +5,7 @@
  */
 
 import { FaceEmbedding } from './face-recognition';
+import type { OfflineFaceCache } from './sync-protocol';
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 export interface FaceStorageOptions {
@@ -16,6 +17,20 @@ export interface FaceStorageOptions {
   backupInterval?: number; // in minutes
 }
 
+export interface KioskCacheInfo {
+  siteId: string;
+  siteName: string;
+  generatedAt: string;
+  expiresAt: string;
+  clockOffsetMs: number; // Device clock minus server clock when the cache was fetched
+}
+
+// Kiosk cache as stored: everything biometric is inside the ciphertext
+interface EncryptedKioskCache extends KioskCacheInfo {
+  iv: Uint8Array<ArrayBuffer>;
+  ciphertext: ArrayBuffer;
+}
+
 export interface FaceDatabaseStats {
   totalFaces: number;
   totalUsers: number;
@@ -28,6 +43,8 @@ export class FaceStorage {
   private db: IDBDatabase | null = null;
   private dbName = 'FaceRecognitionDB';
   private storeName = 'faceEmbeddings';
+  private kioskCacheStoreName = 'kioskCache';
+  private keyStoreName = 'keys';
   private options: FaceStorageOptions;
   private cleanupTimer?: NodeJS.Timeout;
   private backupTimer?: NodeJS.Timeout;
@@ -65,7 +82,7 @@ export class FaceStorage {
    */
   private async openDatabase(): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(this.dbName, 1);
+      const request = indexedDB.open(this.dbName, 2);
 
       request.onerror = () => {
         reject(new Error(`Database error: ${request.error?.message}`));
@@ -84,6 +101,14 @@ export class FaceStorage {
           store.createIndex('userId', 'userId', { unique: false });
           store.createIndex('createdAt', 'createdAt', { unique: false });
         }
+
+        // Offline kiosk cache (version 2)
+        if (!db.objectStoreNames.contains(this.kioskCacheStoreName)) {
+          db.createObjectStore(this.kioskCacheStoreName, { keyPath: 'siteId' });
+        }
+        if (!db.objectStoreNames.contains(this.keyStoreName)) {
+          db.createObjectStore(this.keyStoreName, { keyPath: 'id' });
+        }
       };
     });
   }
@@ -495,6 +520,192 @@ export class FaceStorage {
     }
   }
 
+  /**
+   * Store the offline kiosk cache for a site, encrypted with this device's
+   * cache key. Replaces any earlier cache for the site.
+   */
+  async saveKioskCache(cache: OfflineFaceCache, clockOffsetMs: number): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    try {
+      const key = await this.getKioskCacheKey();
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const plaintext = new TextEncoder().encode(JSON.stringify(cache));
+      const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+      const record: EncryptedKioskCache = {
+        siteId: cache.siteId,
+        siteName: cache.siteName,
+        generatedAt: cache.generatedAt,
+        expiresAt: cache.expiresAt,
+        clockOffsetMs,
+        iv,
+        ciphertext,
+      };
+
+      const transaction = this.db!.transaction([this.kioskCacheStoreName], 'readwrite');
+      await this.requestToPromise(
+        transaction.objectStore(this.kioskCacheStoreName).put(record),
+        'Failed to store kiosk cache'
+      );
+    } catch (error) {
+      logger.error('Failed to store kiosk cache', error as Error);
+      throw new Error('Failed to store kiosk cache');
+    }
+  }
+
+  /**
+   * Read and decrypt the offline kiosk cache for a site
+   */
+  async getKioskCache(siteId: string): Promise<{ cache: OfflineFaceCache; info: KioskCacheInfo } | null> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    try {
+      const transaction = this.db!.transaction([this.kioskCacheStoreName], 'readonly');
+      const record = await this.requestToPromise<EncryptedKioskCache | undefined>(
+        transaction.objectStore(this.kioskCacheStoreName).get(siteId),
+        'Failed to retrieve kiosk cache'
+      );
+      if (!record) {
+        return null;
+      }
+
+      const key = await this.getKioskCacheKey();
+      const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv }, key, record.ciphertext);
+      const { iv, ciphertext, ...info } = record;
+
+      return {
+        cache: JSON.parse(new TextDecoder().decode(plaintext)),
+        info,
+      };
+    } catch (error) {
+      // A cache written under a key that no longer exists can't be read;
+      // the kiosk simply downloads a fresh one
+      logger.error('Failed to read kiosk cache', error as Error);
+      return null;
+    }
+  }
+
+  /**
+   * Metadata of the cached site, without decrypting it
+   */
+  async getKioskCacheInfo(siteId: string): Promise<KioskCacheInfo | null> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    const transaction = this.db!.transaction([this.kioskCacheStoreName], 'readonly');
+    const record = await this.requestToPromise<EncryptedKioskCache | undefined>(
+      transaction.objectStore(this.kioskCacheStoreName).get(siteId),
+      'Failed to retrieve kiosk cache'
+    );
+    if (!record) {
+      return null;
+    }
+
+    const { iv, ciphertext, ...info } = record;
+    return info;
+  }
+
+  /**
+   * Remove the offline kiosk cache for one site, or for all sites
+   */
+  async clearKioskCache(siteId?: string): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    const transaction = this.db!.transaction([this.kioskCacheStoreName], 'readwrite');
+    const store = transaction.objectStore(this.kioskCacheStoreName);
+    await this.requestToPromise(
+      siteId ? store.delete(siteId) : store.clear(),
+      'Failed to clear kiosk cache'
+    );
+  }
+
+  /**
+   * Store the kiosk registration key pair. The private key is
+   * non-extractable; IndexedDB keeps the CryptoKey itself, not its bytes.
+   */
+  async saveKioskDeviceKey(keyPair: CryptoKeyPair): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    const transaction = this.db!.transaction([this.keyStoreName], 'readwrite');
+    await this.requestToPromise(
+      transaction.objectStore(this.keyStoreName).put({ id: 'kioskDevice', key: keyPair }),
+      'Failed to store kiosk device key'
+    );
+  }
+
+  async getKioskDeviceKey(): Promise<CryptoKeyPair | null> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    const transaction = this.db!.transaction([this.keyStoreName], 'readonly');
+    const record = await this.requestToPromise<{ id: string; key: CryptoKeyPair } | undefined>(
+      transaction.objectStore(this.keyStoreName).get('kioskDevice'),
+      'Failed to retrieve kiosk device key'
+    );
+    return record?.key || null;
+  }
+
+  async clearKioskDeviceKey(): Promise<void> {
+    if (!this.db) {
+      await this.initialize();
+    }
+
+    const transaction = this.db!.transaction([this.keyStoreName], 'readwrite');
+    await this.requestToPromise(
+      transaction.objectStore(this.keyStoreName).delete('kioskDevice'),
+      'Failed to clear kiosk device key'
+    );
+  }
+
+  /**
+   * AES-GCM key for the kiosk cache. Generated once per device as a
+   * non-extractable key, so it can be used here but never read out.
+   */
+  private async getKioskCacheKey(): Promise<CryptoKey> {
+    const readTransaction = this.db!.transaction([this.keyStoreName], 'readonly');
+    const existing = await this.requestToPromise<{ id: string; key: CryptoKey } | undefined>(
+      readTransaction.objectStore(this.keyStoreName).get('kioskCache'),
+      'Failed to retrieve kiosk cache key'
+    );
+    if (existing) {
+      return existing.key;
+    }
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    const writeTransaction = this.db!.transaction([this.keyStoreName], 'readwrite');
+    await this.requestToPromise(
+      writeTransaction.objectStore(this.keyStoreName).put({ id: 'kioskCache', key }),
+      'Failed to store kiosk cache key'
+    );
+    return key;
+  }
+
+  /**
+   * Wrap an IndexedDB request in a promise
+   */
+  private requestToPromise<T = unknown>(request: IDBRequest, message: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+
+      request.onerror = () => {
+        reject(new Error(`${message}: ${request.error?.message}`));
+      };
+    });
+  }
+
   /**
    * Compress face embedding for storage
    */
@@ -0,0 +1,227 @@
+/**
+ * Face Template Adaptation
+ * Opt-in (attendance.adaptiveFaceTemplates) refinement of a per-user
+ * 'adaptive' embedding from confident, liveness-checked check-ins, so
+ * recognition keeps up with gradual changes in appearance. Updates are a
+ * small moving average and are dropped when they would pull the template
+ * too far from the user's enrolled samples. Every update is recorded with
+ * the previous vector and can be reverted by an admin.
+ */
+
+import crypto from 'crypto'
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerFaceEmbedding, ServerFaceTemplateUpdate } from '@/lib/server-db'
+import { faceEmbeddingIndex } from '@/lib/face-embedding-index'
+import type { FaceIdentification } from '@/lib/face-identification'
+import { calculateCosineSimilarity, normalizeEmbedding, validateEmbedding } from '@/lib/face-matching'
+import { logger } from '@/lib/logger'
+
+export type TemplateAdaptationResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+// Weight of the new check-in in the moving average
+const ADAPTATION_RATE = 0.1
+// Only matches this far ahead of the runner-up user are used
+const MIN_MATCH_MARGIN = 0.08
+// ...and this far above the user's threshold
+const MIN_CONFIDENCE_ABOVE_THRESHOLD = 0.05
+// Drift cap: the adaptive template must stay this similar to the enrolled reference
+const MIN_REFERENCE_SIMILARITY = 0.95
+const MIN_UPDATE_INTERVAL_HOURS = 6
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+function isAdaptive(embedding: ServerFaceEmbedding): boolean {
+  return embedding.kind === 'adaptive'
+}
+
+/**
+ * Normalized mean of the enrolled samples
+ */
+function referenceOf(enrolled: ServerFaceEmbedding[]): number[] {
+  const sum = new Array<number>(enrolled[0].embedding.length).fill(0)
+  for (const embedding of enrolled) {
+    const normalized = normalizeEmbedding(embedding.embedding)
+    for (let i = 0; i < sum.length; i++) sum[i] += normalized[i]
+  }
+  return Array.from(normalizeEmbedding(sum))
+}
+
+export class FaceTemplateAdaptation {
+  /**
+   * Fold a check-in into the user's adaptive template when the setting is on
+   * and the match was confident. Returns the recorded update, or null when
+   * the check-in was not used.
+   */
+  async adapt(input: {
+    descriptor: number[]
+    identification: FaceIdentification
+    attendanceId?: string
+    livenessChallengeId?: string
+  }): Promise<ServerFaceTemplateUpdate | null> {
+    const { descriptor, identification } = input
+    const match = identification.match
+    if (identification.outcome !== 'match' || !match || identification.resolvedBy) return null
+    if (identification.margin !== null && identification.margin < MIN_MATCH_MARGIN) return null
+    if (match.confidence < identification.threshold + MIN_CONFIDENCE_ABOVE_THRESHOLD) return null
+    if (!validateEmbedding(descriptor)) return null
+
+    const settings = await serverDbManager.getSettings('attendance').catch(() => null)
+    if (!settings?.adaptiveFaceTemplates) return null
+
+    const embeddings = await serverDbManager.getFaceEmbeddings(match.userId)
+    const enrolled = embeddings.filter(
+      e => !isAdaptive(e) && e.embedding?.length === descriptor.length && validateEmbedding(e.embedding)
+    )
+    if (enrolled.length === 0) return null
+    const adaptive = embeddings.find(isAdaptive)
+
+    const [latest] = await serverDbManager.getFaceTemplateUpdates(match.userId, { limit: 1 })
+    if (latest && Date.now() - latest.createdAt.getTime() < MIN_UPDATE_INTERVAL_HOURS * 60 * 60 * 1000) {
+      return null
+    }
+
+    const reference = referenceOf(enrolled)
+    const base = adaptive?.embedding?.length === descriptor.length ? normalizeEmbedding(adaptive.embedding) : reference
+    const probe = normalizeEmbedding(descriptor)
+    const blended = Array.from(
+      normalizeEmbedding(Array.from(base, (value, i) => value * (1 - ADAPTATION_RATE) + probe[i] * ADAPTATION_RATE))
+    )
+
+    const referenceSimilarity = calculateCosineSimilarity(blended, reference)
+    if (referenceSimilarity < MIN_REFERENCE_SIMILARITY) {
+      logger.info('Adaptive face template update skipped: drift cap', {
+        userId: match.userId,
+        referenceSimilarity
+      })
+      return null
+    }
+
+    const now = new Date()
+    const saved = await serverDbManager.saveFaceEmbedding({
+      id: adaptive?.id || crypto.randomUUID(),
+      userId: match.userId,
+      embedding: blended,
+      quality: adaptive?.quality ?? Math.max(...enrolled.map(e => e.quality ?? 0)),
+      metadata: {
+        ...adaptive?.metadata,
+        source: 'adaptive',
+        lastAttendanceId: input.attendanceId
+      },
+      isActive: true,
+      kind: 'adaptive',
+      createdAt: adaptive?.createdAt || now,
+      updatedAt: now
+    })
+
+    const update = await serverDbManager.createFaceTemplateUpdate({
+      userId: match.userId,
+      embeddingId: saved.id,
+      previousEmbedding: adaptive?.embedding,
+      newEmbedding: blended,
+      referenceSimilarity,
+      matchConfidence: match.confidence,
+      matchMargin: identification.margin ?? undefined,
+      attendanceId: input.attendanceId,
+      livenessChallengeId: input.livenessChallengeId
+    })
+
+    await serverDbManager.createAuditLog({
+      userId: match.userId,
+      action: adaptive ? 'face_template_adapted' : 'face_template_created',
+      resource: 'face_embedding',
+      resourceId: saved.id,
+      details: {
+        description: adaptive
+          ? 'Adaptive face template updated from a confident check-in'
+          : 'Adaptive face template created from a confident check-in',
+        updateId: update.id,
+        attendanceId: input.attendanceId,
+        matchConfidence: match.confidence,
+        matchMargin: identification.margin,
+        referenceSimilarity
+      }
+    })
+
+    faceEmbeddingIndex.invalidate()
+    logger.info('Adaptive face template updated', {
+      userId: match.userId,
+      embeddingId: saved.id,
+      referenceSimilarity
+    })
+
+    return update
+  }
+
+  /**
+   * The user's active adaptive template and its update history
+   */
+  async getHistory(userId: string): Promise<{ adaptive: ServerFaceEmbedding | null; updates: ServerFaceTemplateUpdate[] }> {
+    const [embeddings, updates] = await Promise.all([
+      serverDbManager.getFaceEmbeddings(userId),
+      serverDbManager.getFaceTemplateUpdates(userId, { includeReverted: true })
+    ])
+    return { adaptive: embeddings.find(isAdaptive) || null, updates }
+  }
+
+  /**
+   * Undo adaptive updates for a user. With an update id, the template goes
+   * back to its state before that update; otherwise it is removed entirely
+   * and matching falls back to the enrolled samples.
+   */
+  async revert(
+    userId: string,
+    options: { updateId?: string; revertedBy: string }
+  ): Promise<TemplateAdaptationResult<{ reverted: number; removed: boolean }>> {
+    const adaptive = (await serverDbManager.getFaceEmbeddings(userId)).find(isAdaptive)
+    if (!adaptive) {
+      return failure('User has no adaptive face template', 'NO_ADAPTIVE_TEMPLATE', 404)
+    }
+
+    // Newest first, limited to the current template
+    const updates = (await serverDbManager.getFaceTemplateUpdates(userId)).filter(u => u.embeddingId === adaptive.id)
+
+    let toRevert = updates
+    let restore: number[] | undefined
+    if (options.updateId) {
+      const index = updates.findIndex(u => u.id === options.updateId)
+      if (index === -1) {
+        return failure('Template update not found or already reverted', 'UPDATE_NOT_FOUND', 404)
+      }
+      toRevert = updates.slice(0, index + 1)
+      restore = updates[index].previousEmbedding
+    }
+
+    if (restore) {
+      await serverDbManager.saveFaceEmbedding({ ...adaptive, embedding: restore, updatedAt: new Date() })
+    } else {
+      await serverDbManager.deleteFaceEmbedding(adaptive.id)
+    }
+    await serverDbManager.markFaceTemplateUpdatesReverted(toRevert.map(u => u.id), options.revertedBy)
+
+    await serverDbManager.createAuditLog({
+      userId: options.revertedBy,
+      action: 'face_template_reverted',
+      resource: 'face_embedding',
+      resourceId: adaptive.id,
+      details: {
+        description: restore
+          ? 'Adaptive face template reverted to an earlier state'
+          : 'Adaptive face template removed',
+        targetUserId: userId,
+        updateId: options.updateId,
+        revertedUpdates: toRevert.map(u => u.id)
+      }
+    })
+
+    faceEmbeddingIndex.invalidate()
+
+    return { success: true, reverted: toRevert.length, removed: !restore }
+  }
+}
+
+// Export singleton instance
+export const faceTemplateAdaptation = new FaceTemplateAdaptation()
@@ -0,0 +1,367 @@
+/**
+ * Geofencing Service
+ * Validates submitted coordinates against the office sites an employee is
+ * allowed to work from (circle and polygon zones, per schedule or department)
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerOfficeSite, ServerSettings } from '@/lib/server-db'
+import { toOfficeDateString } from '@/lib/office-time'
+import { logger } from '@/lib/logger'
+
+export interface GeoPoint {
+  latitude: number
+  longitude: number
+}
+
+export interface SubmittedLocation extends GeoPoint {
+  accuracy?: number
+}
+
+export type GeofenceZone =
+  | { type: 'circle'; name?: string; center: GeoPoint; radius: number }
+  | { type: 'polygon'; name?: string; points: GeoPoint[] }
+
+export type GeofencePolicy = 'reject' | 'flag'
+
+export type GeofenceStatus = 'inside' | 'outside' | 'missing_location' | 'no_zones'
+
+export interface GeofenceResult {
+  status: GeofenceStatus
+  action: 'allow' | 'flag' | 'reject'
+  violation: boolean
+  siteId?: string
+  siteName?: string
+  zoneName?: string
+  distanceMeters?: number
+  accuracy?: number
+  policy: GeofencePolicy
+  message?: string
+}
+
+const EARTH_RADIUS_METERS = 6371000
+
+// GPS readings are noisy; never trust more than this much reported accuracy
+const MAX_ACCURACY_TOLERANCE_METERS = 50
+
+const DEFAULT_RADIUS_METERS = 100
+
+/**
+ * Great-circle distance between two points in meters (haversine)
+ */
+export function haversineDistance(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.latitude - a.latitude)
+  const dLon = toRad(b.longitude - a.longitude)
+  const lat1 = toRad(a.latitude)
+  const lat2 = toRad(b.latitude)
+
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(lat1) * Math.cos(lat2) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/**
+ * Ray-casting point-in-polygon test
+ */
+export function isPointInPolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = polygon[i].longitude
+    const yi = polygon[i].latitude
+    const xj = polygon[j].longitude
+    const yj = polygon[j].latitude
+
+    const intersects =
+      yi > point.latitude !== yj > point.latitude &&
+      point.longitude < ((xj - xi) * (point.latitude - yi)) / (yj - yi) + xi
+    if (intersects) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * Approximate distance in meters from a point to the nearest polygon edge.
+ * Uses a local equirectangular projection, which is accurate at site scale.
+ */
+function distanceToPolygonEdge(point: GeoPoint, polygon: GeoPoint[]): number {
+  const metersPerDegLat = 111320
+  const metersPerDegLon = 111320 * Math.cos((point.latitude * Math.PI) / 180)
+  const project = (p: GeoPoint) => ({
+    x: (p.longitude - point.longitude) * metersPerDegLon,
+    y: (p.latitude - point.latitude) * metersPerDegLat
+  })
+
+  let min = Infinity
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = project(polygon[j])
+    const b = project(polygon[i])
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSq = dx * dx + dy * dy
+    const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq))
+    const cx = a.x + t * dx
+    const cy = a.y + t * dy
+    min = Math.min(min, Math.sqrt(cx * cx + cy * cy))
+  }
+  return min
+}
+
+/**
+ * Signed distance from a zone boundary: negative or zero means inside
+ */
+export function distanceFromZone(point: GeoPoint, zone: GeofenceZone): number {
+  if (zone.type === 'circle') {
+    return haversineDistance(point, zone.center) - zone.radius
+  }
+
+  if (zone.points.length < 3) {
+    return Infinity
+  }
+
+  const edgeDistance = distanceToPolygonEdge(point, zone.points)
+  return isPointInPolygon(point, zone.points) ? -edgeDistance : edgeDistance
+}
+
+/**
+ * Evaluate a location against a set of sites. Pure function, no I/O.
+ */
+export function evaluateLocation(
+  location: SubmittedLocation | null | undefined,
+  sites: ServerOfficeSite[],
+  options: { policy: GeofencePolicy; requireLocation: boolean }
+): GeofenceResult {
+  const { policy, requireLocation } = options
+  const zoned = sites.filter(site => site.isActive && site.zones.length > 0)
+
+  if (!location || !isFinite(location.latitude) || !isFinite(location.longitude)) {
+    if (!requireLocation) {
+      return { status: 'missing_location', action: 'allow', violation: false, policy }
+    }
+    return {
+      status: 'missing_location',
+      action: policy,
+      violation: true,
+      policy,
+      message: 'Location is required for this action'
+    }
+  }
+
+  if (zoned.length === 0) {
+    return { status: 'no_zones', action: 'allow', violation: false, policy, accuracy: location.accuracy }
+  }
+
+  const tolerance = Math.min(Math.max(location.accuracy || 0, 0), MAX_ACCURACY_TOLERANCE_METERS)
+
+  let nearest: { site: ServerOfficeSite; zone: GeofenceZone; distance: number } | null = null
+  for (const site of zoned) {
+    for (const zone of site.zones) {
+      const distance = distanceFromZone(location, zone)
+      if (!nearest || distance < nearest.distance) {
+        nearest = { site, zone, distance }
+      }
+    }
+  }
+
+  const inside = nearest !== null && nearest.distance - tolerance <= 0
+  return {
+    status: inside ? 'inside' : 'outside',
+    action: inside ? 'allow' : policy,
+    violation: !inside,
+    siteId: nearest?.site.id,
+    siteName: nearest?.site.name,
+    zoneName: nearest?.zone.name,
+    distanceMeters: nearest ? Math.max(0, Math.round(nearest.distance)) : undefined,
+    accuracy: location.accuracy,
+    policy,
+    message: inside
+      ? undefined
+      : `Location is ${Math.round(nearest?.distance ?? 0)}m outside ${nearest?.site.name || 'the allowed area'}`
+  }
+}
+
+/**
+ * Parse a location payload which may arrive as an object or a JSON string
+ */
+export function parseSubmittedLocation(raw: unknown): SubmittedLocation | null {
+  if (!raw) return null
+
+  let value: any = raw
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw)
+    } catch {
+      return null
+    }
+  }
+
+  const latitude = Number(value?.latitude ?? value?.lat)
+  const longitude = Number(value?.longitude ?? value?.lng ?? value?.lon)
+  if (!isFinite(latitude) || !isFinite(longitude)) {
+    return null
+  }
+
+  const accuracy = value?.accuracy !== undefined ? Number(value.accuracy) : undefined
+  return { latitude, longitude, accuracy: isFinite(accuracy as number) ? accuracy : undefined }
+}
+
+export class GeofenceService {
+  /**
+   * Collect the sites an employee may work from on a given day: sites linked to
+   * their assigned schedules (including the schedule's own location), sites for
+   * their department, and company-wide default sites as a last resort.
+   */
+  async getSitesForUser(userId: string, at: Date = new Date()): Promise<ServerOfficeSite[]> {
+    const [user, allSites] = await Promise.all([
+      serverDbManager.getUser(userId),
+      serverDbManager.getOfficeSites({ isActive: true })
+    ])
+
+    const day = new Date(`${toOfficeDateString(at)}T00:00:00.000Z`)
+    const [assignments, schedules] = await Promise.all([
+      serverDbManager.getScheduleAssignments({ userId, startDate: day, endDate: day }),
+      serverDbManager.getSchedules({ isActive: true })
+    ])
+
+    const scheduleIds = new Set(
+      assignments.filter(a => a.scheduleId && a.status !== 'cancelled').map(a => a.scheduleId)
+    )
+    const userSchedules = schedules.filter(
+      schedule =>
+        scheduleIds.has(schedule.id) ||
+        schedule.assignedUsers.includes(userId) ||
+        (!!user?.department && schedule.assignedDepartments.includes(user.department))
+    )
+
+    const sites: ServerOfficeSite[] = []
+
+    for (const schedule of userSchedules) {
+      sites.push(...allSites.filter(site => site.scheduleIds.includes(schedule.id)))
+
+      // Legacy single-location schedules act as an implicit circle zone
+      if (schedule.location && isFinite(schedule.location.latitude) && isFinite(schedule.location.longitude)) {
+        sites.push({
+          id: `schedule:${schedule.id}`,
+          name: schedule.location.name || schedule.name,
+          address: schedule.location.address,
+          zones: [
+            {
+              type: 'circle',
+              name: schedule.location.name,
+              center: { latitude: schedule.location.latitude, longitude: schedule.location.longitude },
+              radius: schedule.location.radius || DEFAULT_RADIUS_METERS
+            }
+          ],
+          departments: [],
+          scheduleIds: [schedule.id],
+          isDefault: false,
+          isActive: true,
+          createdAt: schedule.createdAt,
+          updatedAt: schedule.updatedAt
+        })
+      }
+    }
+
+    if (user?.department) {
+      sites.push(...allSites.filter(site => site.departments.includes(user.department!)))
+    }
+
+    if (sites.length === 0) {
+      sites.push(...allSites.filter(site => site.isDefault))
+    }
+
+    // De-duplicate sites reachable through several links
+    const seen = new Set<string>()
+    return sites.filter(site => (seen.has(site.id) ? false : (seen.add(site.id), true)))
+  }
+
+  /**
+   * Resolve the configured enforcement policy
+   */
+  async getPolicy(): Promise<{ policy: GeofencePolicy; requireLocation: boolean; defaultRadius: number }> {
+    const settings: ServerSettings['attendance'] | null = await serverDbManager
+      .getSettings('attendance')
+      .catch(() => null)
+
+    const policy: GeofencePolicy =
+      settings?.geofencePolicy || (settings?.allowRemoteCheckIn ? 'flag' : 'reject')
+
+    return {
+      policy,
+      requireLocation: settings?.requireLocation ?? false,
+      defaultRadius: settings?.checkInRadius || DEFAULT_RADIUS_METERS
+    }
+  }
+
+  /**
+   * Check a submitted location for an employee and decide whether to allow,
+   * flag or reject the action
+   */
+  async checkLocation(userId: string, rawLocation: unknown, at: Date = new Date()): Promise<GeofenceResult> {
+    const location = parseSubmittedLocation(rawLocation)
+    const [{ policy, requireLocation, defaultRadius }, sites] = await Promise.all([
+      this.getPolicy(),
+      this.getSitesForUser(userId, at)
+    ])
+
+    // Circle zones saved without a radius fall back to the configured check-in radius
+    const normalizedSites = sites.map(site => ({
+      ...site,
+      zones: site.zones.map(zone =>
+        zone.type === 'circle' && !zone.radius ? { ...zone, radius: defaultRadius } : zone
+      )
+    }))
+
+    const result = evaluateLocation(location, normalizedSites, { policy, requireLocation })
+
+    if (result.violation) {
+      logger.warn('Geofence violation', {
+        userId,
+        status: result.status,
+        action: result.action,
+        siteId: result.siteId,
+        distanceMeters: result.distanceMeters
+      })
+    }
+
+    return result
+  }
+
+  /**
+   * Check a punch from a kiosk bound to a site. The tablet doesn't move, so
+   * instead of coordinates the question is whether the employee may work
+   * at the kiosk's site.
+   */
+  async checkKioskSite(userId: string, siteId: string, at: Date = new Date()): Promise<GeofenceResult> {
+    const [{ policy }, sites, kioskSite] = await Promise.all([
+      this.getPolicy(),
+      this.getSitesForUser(userId, at),
+      serverDbManager.getOfficeSite(siteId)
+    ])
+
+    // Same as checkLocation: an employee with no site to check against is
+    // not restricted, whether punching on a phone or at a kiosk
+    if (!sites.some(site => site.isActive)) {
+      return { status: 'no_zones', action: 'allow', violation: false, siteId, siteName: kioskSite?.name, policy }
+    }
+
+    const allowed = sites.some(site => site.id === siteId)
+    const result: GeofenceResult = {
+      status: allowed ? 'inside' : 'outside',
+      action: allowed ? 'allow' : policy,
+      violation: !allowed,
+      siteId,
+      siteName: kioskSite?.name,
+      policy,
+      message: allowed ? undefined : `Not assigned to work at ${kioskSite?.name || 'this site'}`
+    }
+
+    if (result.violation) {
+      logger.warn('Kiosk site violation', { userId, siteId, action: result.action })
+    }
+
+    return result
+  }
+}
+
+// Export singleton instance
+export const geofenceService = new GeofenceService()
@@ -0,0 +1,478 @@
+/**
+ * Holiday Calendar Service
+ * National, regional and site-specific holidays, collective leave days
+ * (cuti bersama) and half-days. Attendance evaluation, leave, overtime and
+ * absence checks consult it to decide whether a date is a working day.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerHoliday, ServerOfficeSite, HolidayType } from '@/lib/server-db'
+import type { HolidayImportInput } from '@/lib/validation-schemas'
+import { geofenceService } from '@/lib/geofence'
+import { toOfficeDateString, officeDateTimeToUtc, addDaysToDateString, timeStringToMinutes } from '@/lib/office-time'
+import { logger } from '@/lib/logger'
+
+export interface ParsedHoliday {
+  date: string // YYYY-MM-DD
+  name: string
+  description?: string
+  type?: HolidayType
+  region?: string
+  siteCode?: string
+  isHalfDay: boolean
+  halfDayEndTime?: string
+  externalId: string
+}
+
+export interface HolidayParseResult {
+  holidays: ParsedHoliday[]
+  errors: string[]
+}
+
+export interface HolidayImportResult {
+  imported: number
+  skipped: number
+  errors: string[]
+  holidays: ServerHoliday[]
+}
+
+// Types that apply to every employee whatever site they work from
+const COMPANY_WIDE_TYPES: HolidayType[] = ['national', 'collective_leave', 'company']
+
+const HOLIDAY_TYPES: HolidayType[] = ['national', 'regional', 'site', 'collective_leave', 'company']
+
+const HOLIDAY_CACHE_TTL_MS = 10 * 60 * 1000
+
+// Longest single calendar entry we expand into days (guards against bad DTEND values)
+const MAX_EVENT_DAYS = 31
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+}
+
+function inferType(name: string): HolidayType | undefined {
+  return /cuti bersama|collective leave/i.test(name) ? 'collective_leave' : undefined
+}
+
+/**
+ * Whether a holiday applies to an employee working from the given sites
+ */
+export function holidayAppliesTo(holiday: ServerHoliday, sites: ServerOfficeSite[]): boolean {
+  if (COMPANY_WIDE_TYPES.includes(holiday.type) && !holiday.siteId && !holiday.region) {
+    return true
+  }
+  if (holiday.siteId) {
+    return sites.some(site => site.id === holiday.siteId)
+  }
+  if (holiday.region) {
+    const region = holiday.region.toLowerCase()
+    return sites.some(site => site.region?.toLowerCase() === region)
+  }
+  return false
+}
+
+/**
+ * Pick the entry that governs a day when several apply: a full-day holiday
+ * wins over half-days, and of several half-days the earliest end wins
+ */
+export function pickGoverningHoliday(holidays: ServerHoliday[]): ServerHoliday | null {
+  if (holidays.length === 0) return null
+  const fullDay = holidays.find(h => !h.isHalfDay)
+  if (fullDay) return fullDay
+  return [...holidays].sort(
+    (a, b) => timeStringToMinutes(a.halfDayEndTime || '23:59') - timeStringToMinutes(b.halfDayEndTime || '23:59')
+  )[0]
+}
+
+// ============================================
+// ICS parsing
+// ============================================
+
+function unfoldIcsLines(content: string): string[] {
+  // RFC 5545 folds long lines with CRLF followed by a space or tab
+  return content.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n')
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim()
+}
+
+function parseIcsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) return null
+  const [, year, month, day, hours, minutes, seconds, utc] = match
+  if (hours && utc) {
+    // UTC date-times are moved to the office-local calendar day
+    return toOfficeDateString(new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)))
+  }
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * Parse VEVENT entries of an iCalendar feed into holiday days. All-day events
+ * spanning several days (DTEND is exclusive) become one entry per day.
+ */
+export function parseIcsHolidays(content: string): HolidayParseResult {
+  const holidays: ParsedHoliday[] = []
+  const errors: string[] = []
+
+  let event: Record<string, string> | null = null
+  let eventIndex = 0
+
+  for (const line of unfoldIcsLines(content)) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {}
+      eventIndex++
+      continue
+    }
+    if (line === 'END:VEVENT') {
+      if (event) {
+        const parsed = buildIcsEvent(event, eventIndex)
+        if (typeof parsed === 'string') {
+          errors.push(parsed)
+        } else {
+          holidays.push(...parsed)
+        }
+      }
+      event = null
+      continue
+    }
+    if (!event) continue
+
+    const colon = line.indexOf(':')
+    if (colon < 0) continue
+    // Property parameters (e.g. DTSTART;VALUE=DATE) are not needed for all-day holidays
+    const name = line.slice(0, colon).split(';')[0].toUpperCase()
+    event[name] = line.slice(colon + 1).trim()
+  }
+
+  return { holidays, errors }
+}
+
+function buildIcsEvent(
+  event: Record<string, string>,
+  index: number
+): ParsedHoliday[] | string {
+  const name = event.SUMMARY ? unescapeIcsText(event.SUMMARY) : ''
+  const startDate = event.DTSTART ? parseIcsDate(event.DTSTART) : null
+  if (!name || !startDate) {
+    return `Event ${index}: missing SUMMARY or DTSTART`
+  }
+  if (event.STATUS?.toUpperCase() === 'CANCELLED') {
+    return []
+  }
+
+  let endDate = startDate
+  if (event.DTEND) {
+    const exclusiveEnd = parseIcsDate(event.DTEND)
+    if (exclusiveEnd && exclusiveEnd > startDate) {
+      endDate = addDaysToDateString(exclusiveEnd, -1)
+    }
+  }
+
+  const uid = event.UID || `ics:${startDate}:${slugify(name)}`
+  const description = event.DESCRIPTION ? unescapeIcsText(event.DESCRIPTION) || undefined : undefined
+  const type = inferType(name)
+
+  const days: ParsedHoliday[] = []
+  for (let date = startDate; date <= endDate && days.length < MAX_EVENT_DAYS; date = addDaysToDateString(date, 1)) {
+    days.push({ date, name, description, type, isHalfDay: false, externalId: uid })
+  }
+  return days
+}
+
+// ============================================
+// CSV parsing
+// ============================================
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      fields.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  fields.push(current.trim())
+  return fields
+}
+
+function parseCsvDate(value: string): string | null {
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (match) return value
+  // Day-first dates as exported by Indonesian spreadsheets
+  match = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/)
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`
+  }
+  return null
+}
+
+function parseCsvBoolean(value: string | undefined): boolean {
+  return !!value && ['true', 'yes', 'ya', '1', 'y'].includes(value.toLowerCase())
+}
+
+/**
+ * Parse a holiday CSV. A header row is required; recognised columns are
+ * date, name, type, region, site (site code), half_day, end_time and description.
+ */
+export function parseCsvHolidays(content: string): HolidayParseResult {
+  const holidays: ParsedHoliday[] = []
+  const errors: string[] = []
+
+  const lines = content.replace(/\r\n/g, '\n').split('\n').filter(line => line.trim() !== '')
+  if (lines.length === 0) {
+    return { holidays, errors: ['CSV file is empty'] }
+  }
+
+  // Spreadsheets in Indonesian locales export with semicolons
+  const delimiter = lines[0].includes(';') && !lines[0].includes(',') ? ';' : ','
+  const header = splitCsvLine(lines[0], delimiter).map(h => h.toLowerCase().replace(/\s+/g, '_'))
+  const column = (row: string[], ...names: string[]): string | undefined => {
+    for (const name of names) {
+      const index = header.indexOf(name)
+      if (index >= 0 && row[index]) return row[index]
+    }
+    return undefined
+  }
+
+  if (!header.includes('date') || !header.includes('name')) {
+    return { holidays, errors: ['CSV header must include "date" and "name" columns'] }
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const row = splitCsvLine(lines[i], delimiter)
+    const lineNumber = i + 1
+
+    const date = parseCsvDate(column(row, 'date') || '')
+    const name = column(row, 'name')
+    if (!date || !name) {
+      errors.push(`Line ${lineNumber}: invalid date or missing name`)
+      continue
+    }
+
+    const rawType = column(row, 'type')?.toLowerCase()
+    if (rawType && !HOLIDAY_TYPES.includes(rawType as HolidayType)) {
+      errors.push(`Line ${lineNumber}: unknown holiday type "${rawType}"`)
+      continue
+    }
+
+    const isHalfDay = parseCsvBoolean(column(row, 'half_day', 'is_half_day'))
+    const halfDayEndTime = column(row, 'end_time', 'half_day_end_time')
+    if (isHalfDay && !/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/.test(halfDayEndTime || '')) {
+      errors.push(`Line ${lineNumber}: half-days need an end_time (HH:mm)`)
+      continue
+    }
+
+    const region = column(row, 'region')
+    const siteCode = column(row, 'site', 'site_code')
+    const type = (rawType as HolidayType | undefined) || inferType(name)
+
+    holidays.push({
+      date,
+      name,
+      description: column(row, 'description'),
+      type,
+      region,
+      siteCode,
+      isHalfDay,
+      halfDayEndTime: isHalfDay ? halfDayEndTime : undefined,
+      externalId: `csv:${type || 'default'}:${slugify(region || siteCode || '')}:${slugify(name)}`
+    })
+  }
+
+  return { holidays, errors }
+}
+
+export class HolidayCalendarService {
+  private yearCache = new Map<number, { holidays: ServerHoliday[]; expiresAt: number }>()
+
+  /**
+   * Active holidays of every scope between two office-local dates (inclusive)
+   */
+  async getHolidays(startDate: string, endDate: string): Promise<ServerHoliday[]> {
+    const holidays: ServerHoliday[] = []
+    for (let year = Number(startDate.slice(0, 4)); year <= Number(endDate.slice(0, 4)); year++) {
+      const yearHolidays = await this.getYear(year)
+      holidays.push(...yearHolidays.filter(h => h.date >= startDate && h.date <= endDate))
+    }
+    return holidays
+  }
+
+  /**
+   * Holidays that apply to an employee, resolved through the sites they work from
+   */
+  async getHolidaysForUser(userId: string, startDate: string, endDate: string): Promise<ServerHoliday[]> {
+    const holidays = await this.getHolidays(startDate, endDate)
+    const scoped = holidays.filter(h => h.siteId || h.region)
+    if (scoped.length === 0) {
+      return holidays
+    }
+
+    const sites = await geofenceService.getSitesForUser(userId, officeDateTimeToUtc(startDate, '12:00'))
+    return holidays.filter(h => holidayAppliesTo(h, sites))
+  }
+
+  /**
+   * The holiday governing an employee's office-local date, if any
+   */
+  async getHolidayForUser(userId: string, date: string): Promise<ServerHoliday | null> {
+    return pickGoverningHoliday(await this.getHolidaysForUser(userId, date, date))
+  }
+
+  /**
+   * Company-wide holiday on a date (for checks that are not tied to one employee)
+   */
+  async getCompanyHoliday(date: string): Promise<ServerHoliday | null> {
+    const holidays = await this.getHolidays(date, date)
+    return pickGoverningHoliday(holidays.filter(h => holidayAppliesTo(h, [])))
+  }
+
+  /**
+   * Full-day holidays of an employee within a range, as date strings
+   */
+  async getHolidayDates(userId: string, startDate: string, endDate: string): Promise<string[]> {
+    const holidays = await this.getHolidaysForUser(userId, startDate, endDate)
+    return Array.from(new Set(holidays.filter(h => !h.isHalfDay).map(h => h.date)))
+  }
+
+  /**
+   * Full-day holidays within a range per employee, as date strings
+   */
+  async getHolidayDatesForUsers(startDate: string, endDate: string, userIds: string[]): Promise<Map<string, Set<string>>> {
+    const holidays = (await this.getHolidays(startDate, endDate)).filter(h => !h.isHalfDay)
+    const companyWide = holidays.filter(h => holidayAppliesTo(h, []))
+    const scoped = holidays.filter(h => !holidayAppliesTo(h, []))
+
+    const byUser = new Map<string, Set<string>>()
+    for (const userId of userIds) {
+      const dates = new Set(companyWide.map(h => h.date))
+      if (scoped.length > 0) {
+        const sites = await geofenceService.getSitesForUser(userId, officeDateTimeToUtc(startDate, '12:00'))
+        scoped.filter(h => holidayAppliesTo(h, sites)).forEach(h => dates.add(h.date))
+      }
+      byUser.set(userId, dates)
+    }
+    return byUser
+  }
+
+  /**
+   * Import an ICS or CSV calendar. Entries are matched on their source id and
+   * date, so importing the same file again updates instead of duplicating.
+   */
+  async importCalendar(input: HolidayImportInput, actorId?: string): Promise<HolidayImportResult> {
+    const parsed = input.format === 'ics' ? parseIcsHolidays(input.content) : parseCsvHolidays(input.content)
+    const errors = [...parsed.errors]
+
+    const sites = await serverDbManager.getOfficeSites()
+    const sitesByCode = new Map(sites.filter(s => s.code).map(s => [s.code!.toLowerCase(), s]))
+
+    const now = new Date()
+    const holidays: ServerHoliday[] = []
+    for (const entry of parsed.holidays) {
+      const site = entry.siteCode ? sitesByCode.get(entry.siteCode.toLowerCase()) : undefined
+      if (entry.siteCode && !site) {
+        errors.push(`${entry.date} ${entry.name}: unknown site "${entry.siteCode}"`)
+        continue
+      }
+
+      const siteId = site?.id || (entry.siteCode ? undefined : input.siteId)
+      const region = entry.region || (siteId ? undefined : input.region)
+      const type: HolidayType = site ? 'site' : entry.type || (entry.region ? 'regional' : input.type)
+
+      if (type === 'regional' && !region) {
+        errors.push(`${entry.date} ${entry.name}: regional holiday without a region`)
+        continue
+      }
+      if (type === 'site' && !siteId) {
+        errors.push(`${entry.date} ${entry.name}: site holiday without a site`)
+        continue
+      }
+
+      holidays.push({
+        id: crypto.randomUUID(),
+        date: entry.date,
+        name: entry.name,
+        description: entry.description,
+        type,
+        region,
+        siteId,
+        isHalfDay: entry.isHalfDay,
+        halfDayEndTime: entry.halfDayEndTime,
+        source: input.format,
+        externalId: entry.externalId,
+        isActive: true,
+        createdBy: actorId,
+        createdAt: now,
+        updatedAt: now
+      })
+    }
+
+    const saved = await serverDbManager.saveImportedHolidays(holidays)
+    this.invalidateCache()
+
+    logger.info('Holiday calendar imported', {
+      format: input.format,
+      imported: saved.length,
+      skipped: parsed.holidays.length - holidays.length,
+      errors: errors.length
+    })
+
+    return {
+      imported: saved.length,
+      skipped: parsed.holidays.length - holidays.length,
+      errors,
+      holidays: saved
+    }
+  }
+
+  /**
+   * Clear cached holidays (e.g. after the calendar is edited)
+   */
+  invalidateCache(): void {
+    this.yearCache.clear()
+  }
+
+  private async getYear(year: number): Promise<ServerHoliday[]> {
+    const cached = this.yearCache.get(year)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.holidays
+    }
+
+    let holidays: ServerHoliday[]
+    try {
+      holidays = await serverDbManager.getHolidays({
+        from: `${year}-01-01`,
+        to: `${year}-12-31`,
+        isActive: true
+      })
+    } catch (error) {
+      // An unavailable calendar must not block check-ins; treat the year as having no holidays
+      logger.error('Error loading holiday calendar', error as Error)
+      return []
+    }
+
+    this.yearCache.set(year, { holidays, expiresAt: Date.now() + HOLIDAY_CACHE_TTL_MS })
+    return holidays
+  }
+}
+
+// Export singleton instance
+export const holidayCalendar = new HolidayCalendarService()
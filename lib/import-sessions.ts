@@ -0,0 +1,744 @@
+/**
+ * Import Sessions
+ * Two-step data import for employees, attendance and raw punch logs from
+ * third-party time clocks. Uploading a file stores
+ * a dry run: every row classified as create, update, skip or error, with the
+ * field-level changes against the current data. Committing applies the
+ * planned changes in one transaction (commit_import_session) and stamps each
+ * affected row with the session id as its import batch; undoing reverts
+ * exactly that batch (rollback_import_session).
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type {
+  ServerImportSession,
+  ServerUser,
+  ServerAttendanceRecord,
+  ImportType,
+  ImportMode,
+  ImportRowResult,
+  ImportPlanOperation,
+  ImportFieldDiff,
+  ImportSummary
+} from '@/lib/server-db'
+import { employeeImportRowSchema, attendanceImportRowSchema } from '@/lib/validation-schemas'
+import type { EmployeeImportRow, AttendanceImportRow, ImportRollbackInput } from '@/lib/validation-schemas'
+import { officeDateTimeToUtc, addDaysToDateString, toOfficeDateString } from '@/lib/office-time'
+import { punchLogParsers } from '@/lib/punch-log-parsers'
+import type { RawPunch } from '@/lib/punch-log-parsers'
+import { punchPairing } from '@/lib/punch-pairing'
+import { employeeExternalIds } from '@/lib/employee-external-ids'
+import { logger } from '@/lib/logger'
+
+export type ImportSessionResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number; details?: any }
+
+export interface ImportPreviewRequest {
+  importType: ImportType
+  mode: ImportMode
+  filename: string
+  // Parsed rows (employees, attendance) or the raw file text (punch logs)
+  rows?: Record<string, any>[]
+  content?: string
+  // Punch logs: parser id, detected from the content when omitted
+  format?: string
+  // Punch logs: external ID source the badge numbers belong to
+  source?: string
+}
+
+// A preview can be committed for this long
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000
+
+// A punch this close to an existing event of the same type is that event
+const PUNCH_DUPLICATE_TOLERANCE_MS = 2 * 60 * 1000
+
+// Employee columns an import may set
+const EMPLOYEE_FIELDS = ['name', 'role', 'department', 'position', 'employee_id', 'phone', 'start_date'] as const
+
+function failure(error: string, errorCode: string, status: number = 400, details?: any) {
+  return { success: false as const, error, errorCode, status, details }
+}
+
+/**
+ * Normalize a parsed row: snake_case headers, trimmed string cells, empty
+ * cells dropped
+ */
+function normalizeRow(raw: Record<string, any>): Record<string, string> {
+  const row: Record<string, string> = {}
+  for (const [header, value] of Object.entries(raw || {})) {
+    if (value === null || value === undefined) continue
+    const key = header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+    const text = value instanceof Date ? value.toISOString().split('T')[0] : String(value).trim()
+    if (key && text) row[key] = text
+  }
+  return row
+}
+
+/**
+ * Accept 12-hour times from spreadsheets ("8:30 AM") alongside HH:mm[:ss]
+ */
+function normalizeTime(value: string | undefined): string | undefined {
+  if (!value) return value
+  const match = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)$/i)
+  if (!match) return value
+  let hours = Number(match[1]) % 12
+  if (match[4].toLowerCase() === 'pm') hours += 12
+  return `${String(hours).padStart(2, '0')}:${match[2]}${match[3] ? `:${match[3]}` : ''}`
+}
+
+function issuesOf(error: { issues: Array<{ path: (string | number)[]; message: string }> }): string[] {
+  return error.issues.map(issue => issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)
+}
+
+function userValue(user: ServerUser, field: typeof EMPLOYEE_FIELDS[number]): string | null {
+  switch (field) {
+    case 'employee_id':
+      return user.employeeId ?? null
+    case 'start_date':
+      return user.startDate ? user.startDate.toISOString().split('T')[0] : null
+    default:
+      return (user[field] as string | undefined) ?? null
+  }
+}
+
+function summarize(rows: ImportRowResult[]): ImportSummary {
+  const summary: ImportSummary = { total: rows.length, create: 0, update: 0, skip: 0, error: 0 }
+  for (const row of rows) summary[row.action]++
+  return summary
+}
+
+/**
+ * Row action from the changes it would make
+ */
+function classify(result: ImportRowResult): ImportRowResult {
+  if (result.changes.length === 0) return { ...result, action: 'skip' }
+  return { ...result, action: result.changes.some(change => change.action === 'update') ? 'update' : 'create' }
+}
+
+export class ImportSessionService {
+  /**
+   * Dry-run the parsed rows of a file and store the result as a session
+   */
+  async preview(input: ImportPreviewRequest, userId: string): Promise<ImportSessionResult<{ session: ServerImportSession }>> {
+    let planned: { results: ImportRowResult[]; plan: ImportPlanOperation[] }
+    let options: ServerImportSession['options'] = {}
+
+    if (input.importType === 'punch_log') {
+      const source = input.source || 'default'
+      const parser = input.format ? punchLogParsers.get(input.format) : punchLogParsers.detect(input.content || '', input.filename)
+      if (!parser) {
+        return input.format
+          ? failure(`Unknown punch log format: ${input.format}`, 'UNKNOWN_PUNCH_LOG_FORMAT')
+          : failure('Could not recognise the punch log format; choose it explicitly', 'PUNCH_LOG_FORMAT_NOT_DETECTED')
+      }
+
+      planned = await this.planPunchLog(input.content || '', parser.id, source, input.mode)
+      options = { format: parser.id, source }
+    } else {
+      const rows = (input.rows || []).map(normalizeRow)
+      planned = input.importType === 'employees'
+        ? await this.planEmployees(rows, input.mode)
+        : await this.planAttendance(rows, input.mode)
+    }
+
+    const { results, plan } = planned
+    const session = await serverDbManager.createImportSession({
+      importType: input.importType,
+      mode: input.mode,
+      filename: input.filename,
+      options,
+      rows: results,
+      plan,
+      summary: summarize(results),
+      createdBy: userId,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+    })
+
+    return { success: true, session: { ...session, rows: results } }
+  }
+
+  async list(limit?: number): Promise<ServerImportSession[]> {
+    return serverDbManager.getImportSessions({ limit })
+  }
+
+  async get(id: string): Promise<ImportSessionResult<{ session: ServerImportSession }>> {
+    const session = await serverDbManager.getImportSession(id, { includeRows: true })
+    if (!session) return failure('Import session not found', 'IMPORT_SESSION_NOT_FOUND', 404)
+    return { success: true, session }
+  }
+
+  /**
+   * Apply a previewed session; rows that failed validation are left out
+   */
+  async commit(id: string, userId: string): Promise<ImportSessionResult<{ session: ServerImportSession; created: number; updated: number }>> {
+    const existing = await serverDbManager.getImportSession(id)
+    if (!existing) return failure('Import session not found', 'IMPORT_SESSION_NOT_FOUND', 404)
+    if (existing.status === 'previewed' && existing.summary.create + existing.summary.update === 0) {
+      return failure('The import has no changes to apply', 'IMPORT_SESSION_EMPTY', 409)
+    }
+
+    const { result, error } = await serverDbManager.commitImportSession(id, userId)
+    if (error || !result) return this.rpcFailure(error)
+
+    const session = (await serverDbManager.getImportSession(id))!
+
+    await serverDbManager.createAuditLog({
+      userId,
+      action: 'DATA_IMPORT',
+      resource: session.importType,
+      resourceId: id,
+      details: {
+        description: `Imported ${session.filename}: ${result.created} created, ${result.updated} updated`,
+        filename: session.filename,
+        mode: session.mode,
+        created: result.created,
+        updated: result.updated,
+        summary: session.summary
+      }
+    })
+
+    logger.info('Import session committed', { sessionId: id, created: result.created, updated: result.updated })
+
+    return { success: true, session, created: result.created, updated: result.updated }
+  }
+
+  /**
+   * Undo a committed session. Rows changed since the import are conflicts:
+   * the undo is refused unless skipConflicts leaves them in place.
+   */
+  async rollback(
+    id: string,
+    userId: string,
+    input: ImportRollbackInput
+  ): Promise<ImportSessionResult<{ session: ServerImportSession }>> {
+    const { result, error } = await serverDbManager.rollbackImportSession(id, userId, input.skipConflicts)
+    if (error || !result) return this.rpcFailure(error)
+
+    const session = (await serverDbManager.getImportSession(id))!
+
+    await serverDbManager.createAuditLog({
+      userId,
+      action: 'DATA_IMPORT_ROLLBACK',
+      resource: session.importType,
+      resourceId: id,
+      details: {
+        description: `Import of ${session.filename} undone: ${result.reverted} rows reverted, ${result.skipped.length} skipped`,
+        filename: session.filename,
+        reverted: result.reverted,
+        skipped: result.skipped
+      }
+    })
+
+    logger.info('Import session rolled back', { sessionId: id, reverted: result.reverted, skipped: result.skipped.length })
+
+    return { success: true, session }
+  }
+
+  private rpcFailure(error: { message: string; details?: string } | null) {
+    switch (error?.message) {
+      case 'IMPORT_SESSION_NOT_FOUND':
+        return failure('Import session not found', 'IMPORT_SESSION_NOT_FOUND', 404)
+      case 'IMPORT_SESSION_NOT_PENDING':
+        return failure('This import has already been committed or undone', 'IMPORT_SESSION_NOT_PENDING', 409)
+      case 'IMPORT_SESSION_EXPIRED':
+        return failure('The preview has expired; upload the file again', 'IMPORT_SESSION_EXPIRED', 410)
+      case 'IMPORT_SESSION_STALE':
+        return failure(
+          `Row ${error.details} no longer matches the preview; upload the file again`,
+          'IMPORT_SESSION_STALE',
+          409,
+          { row: Number(error.details) }
+        )
+      case 'IMPORT_SESSION_NOT_COMMITTED':
+        return failure('Only committed imports can be undone', 'IMPORT_SESSION_NOT_COMMITTED', 409)
+      case 'IMPORT_ROLLBACK_CONFLICT': {
+        let conflicts: any[] = []
+        try {
+          conflicts = JSON.parse(error.details || '[]')
+        } catch {
+          // Keep the generic message
+        }
+        return failure(
+          `${conflicts.length} imported rows have changed since the import`,
+          'IMPORT_ROLLBACK_CONFLICT',
+          409,
+          { conflicts }
+        )
+      }
+      default:
+        logger.error('Import session RPC failed', new Error(error?.message || 'Unknown error'))
+        return failure('Import failed', 'IMPORT_FAILED', 500)
+    }
+  }
+
+  // ============================================
+  // EMPLOYEES
+  // ============================================
+
+  private async planEmployees(
+    rows: Record<string, string>[],
+    mode: ImportMode
+  ): Promise<{ results: ImportRowResult[]; plan: ImportPlanOperation[] }> {
+    const parsed = rows.map(row => employeeImportRowSchema.safeParse(row))
+    const valid = parsed.flatMap(result => result.success ? [result.data] : [])
+
+    const emails = Array.from(new Set(valid.flatMap(row => [row.email, row.email.toLowerCase()])))
+    const employeeIds = Array.from(new Set(valid.flatMap(row => row.employee_id ? [row.employee_id] : [])))
+    const users = await serverDbManager.getUsersForImport({ ids: [], emails, employeeIds })
+
+    const byEmail = new Map(users.map(user => [user.email.toLowerCase(), user]))
+    const byEmployeeId = new Map(users.filter(user => user.employeeId).map(user => [user.employeeId!.toLowerCase(), user]))
+
+    const seenEmails = new Map<string, number>()
+    const seenEmployeeIds = new Map<string, number>()
+    const results: ImportRowResult[] = []
+    const plan: ImportPlanOperation[] = []
+
+    parsed.forEach((result, index) => {
+      const rowNumber = index + 1
+      if (!result.success) {
+        results.push({ row: rowNumber, action: 'error', key: rows[index].email, changes: [], messages: issuesOf(result.error) })
+        return
+      }
+
+      const row: EmployeeImportRow = result.data
+      const email = row.email.toLowerCase()
+      const messages: string[] = []
+
+      if (seenEmails.has(email)) {
+        messages.push(`Duplicate of row ${seenEmails.get(email)}`)
+      } else {
+        seenEmails.set(email, rowNumber)
+      }
+
+      const existing = byEmail.get(email)
+      if (row.employee_id) {
+        const employeeKey = row.employee_id.toLowerCase()
+        const owner = byEmployeeId.get(employeeKey)
+        if (owner && owner.id !== existing?.id) {
+          messages.push(`Employee ID ${row.employee_id} belongs to ${owner.email}`)
+        } else if (seenEmployeeIds.has(employeeKey)) {
+          messages.push(`Employee ID ${row.employee_id} is also used on row ${seenEmployeeIds.get(employeeKey)}`)
+        }
+        seenEmployeeIds.set(employeeKey, rowNumber)
+      }
+
+      if (messages.length) {
+        results.push({ row: rowNumber, action: 'error', key: email, changes: [], messages })
+        return
+      }
+
+      if (existing) {
+        if (mode === 'insert') {
+          results.push({ row: rowNumber, action: 'skip', key: email, changes: [], messages: ['Employee already exists'] })
+          return
+        }
+
+        const diffs: ImportFieldDiff[] = []
+        const values: Record<string, any> = {}
+        for (const field of EMPLOYEE_FIELDS) {
+          const next = row[field]
+          if (next === undefined) continue
+          const current = userValue(existing, field)
+          if (current !== next) {
+            diffs.push({ field, from: current, to: next })
+            values[field] = next
+          }
+        }
+
+        if (diffs.length) {
+          plan.push({
+            row: rowNumber,
+            entity: 'users',
+            action: 'update',
+            id: existing.id,
+            values,
+            expectedUpdatedAt: existing.updatedAt.toISOString()
+          })
+        }
+
+        results.push(classify({
+          row: rowNumber,
+          action: 'update',
+          key: email,
+          changes: diffs.length ? [{ entity: 'users', action: 'update', entityId: existing.id, label: existing.name, diffs }] : [],
+          messages: diffs.length ? [] : ['No changes']
+        }))
+        return
+      }
+
+      if (mode === 'update') {
+        results.push({ row: rowNumber, action: 'skip', key: email, changes: [], messages: ['No employee with this email'] })
+        return
+      }
+
+      const id = crypto.randomUUID()
+      const values: Record<string, any> = { email, role: row.role || 'employee' }
+      for (const field of EMPLOYEE_FIELDS) {
+        if (row[field] !== undefined) values[field] = row[field]
+      }
+
+      plan.push({ row: rowNumber, entity: 'users', action: 'create', id, values })
+      results.push({
+        row: rowNumber,
+        action: 'create',
+        key: email,
+        changes: [{
+          entity: 'users',
+          action: 'create',
+          entityId: id,
+          label: row.name,
+          diffs: Object.entries(values).map(([field, to]) => ({ field, from: null, to }))
+        }],
+        messages: []
+      })
+    })
+
+    return { results, plan }
+  }
+
+  // ============================================
+  // ATTENDANCE
+  // ============================================
+
+  private async planAttendance(
+    rows: Record<string, string>[],
+    mode: ImportMode
+  ): Promise<{ results: ImportRowResult[]; plan: ImportPlanOperation[] }> {
+    const parsed = rows.map(row => attendanceImportRowSchema.safeParse({
+      ...row,
+      clock_in: normalizeTime(row.clock_in),
+      clock_out: normalizeTime(row.clock_out)
+    }))
+    const valid = parsed.flatMap(result => result.success ? [result.data] : [])
+
+    const users = await serverDbManager.getUsersForImport({
+      ids: Array.from(new Set(valid.flatMap(row => row.user_id ? [row.user_id] : []))),
+      emails: Array.from(new Set(valid.flatMap(row => row.email ? [row.email, row.email.toLowerCase()] : []))),
+      employeeIds: Array.from(new Set(valid.flatMap(row => row.employee_id ? [row.employee_id] : [])))
+    })
+    const byId = new Map(users.map(user => [user.id, user]))
+    const byEmail = new Map(users.map(user => [user.email.toLowerCase(), user]))
+    const byEmployeeId = new Map(users.filter(user => user.employeeId).map(user => [user.employeeId!.toLowerCase(), user]))
+
+    const resolveUser = (row: AttendanceImportRow): ServerUser | undefined => {
+      if (row.user_id) return byId.get(row.user_id)
+      if (row.email) return byEmail.get(row.email.toLowerCase())
+      return byEmployeeId.get(row.employee_id!.toLowerCase())
+    }
+
+    // Existing events for the people and days in the file, by user and office day
+    const existingByDay = new Map<string, ServerAttendanceRecord[]>()
+    const dates = valid.map(row => row.date).sort()
+    if (users.length && dates.length) {
+      const records = await serverDbManager.getAttendanceForImport(
+        users.map(user => user.id),
+        officeDateTimeToUtc(dates[0], '00:00'),
+        officeDateTimeToUtc(addDaysToDateString(dates[dates.length - 1], 2), '00:00')
+      )
+      for (const record of records) {
+        const key = `${record.userId}:${toOfficeDateString(record.timestamp)}`
+        existingByDay.set(key, [...(existingByDay.get(key) || []), record])
+      }
+    }
+
+    const seenDays = new Map<string, number>()
+    const results: ImportRowResult[] = []
+    const plan: ImportPlanOperation[] = []
+
+    parsed.forEach((result, index) => {
+      const rowNumber = index + 1
+      const source = rows[index]
+      if (!result.success) {
+        results.push({
+          row: rowNumber,
+          action: 'error',
+          key: [source.email || source.employee_id || source.user_id, source.date].filter(Boolean).join(' '),
+          changes: [],
+          messages: issuesOf(result.error)
+        })
+        return
+      }
+
+      const row = result.data
+      const user = resolveUser(row)
+      const key = `${user?.email || row.email || row.employee_id || row.user_id} ${row.date}`
+      if (!user) {
+        results.push({ row: rowNumber, action: 'error', key, changes: [], messages: ['Employee not found'] })
+        return
+      }
+
+      const dayKey = `${user.id}:${row.date}`
+      if (seenDays.has(dayKey)) {
+        results.push({ row: rowNumber, action: 'error', key, changes: [], messages: [`Duplicate of row ${seenDays.get(dayKey)}`] })
+        return
+      }
+      seenDays.set(dayKey, rowNumber)
+
+      const checkIn = row.clock_in ? officeDateTimeToUtc(row.date, row.clock_in) : undefined
+      let checkOut = row.clock_out ? officeDateTimeToUtc(row.date, row.clock_out) : undefined
+      // A clock-out before the clock-in ends an overnight shift on the next day
+      if (checkIn && checkOut && checkOut <= checkIn) {
+        checkOut = officeDateTimeToUtc(addDaysToDateString(row.date, 1), row.clock_out!)
+      }
+
+      const dayRecords = existingByDay.get(dayKey) || []
+      const nextDayRecords = existingByDay.get(`${user.id}:${addDaysToDateString(row.date, 1)}`) || []
+      const events: Array<{ type: 'check-in' | 'check-out'; timestamp: Date; existing?: ServerAttendanceRecord }> = []
+
+      if (checkIn) {
+        const existing = dayRecords
+          .filter(record => record.type === 'check-in')
+          .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())[0]
+        events.push({ type: 'check-in', timestamp: checkIn, existing })
+      }
+      if (checkOut) {
+        const overnight = toOfficeDateString(checkOut) !== row.date
+        const existing = (overnight ? nextDayRecords : dayRecords)
+          .filter(record => record.type === 'check-out')
+          .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0]
+        events.push({ type: 'check-out', timestamp: checkOut, existing })
+      }
+
+      const changes: ImportRowResult['changes'] = []
+      const messages: string[] = []
+
+      for (const event of events) {
+        if (event.existing) {
+          if (mode === 'insert') {
+            messages.push(`${event.type} already recorded`)
+            continue
+          }
+
+          const diffs: ImportFieldDiff[] = []
+          const values: Record<string, any> = {}
+          if (event.existing.timestamp.getTime() !== event.timestamp.getTime()) {
+            diffs.push({ field: 'timestamp', from: event.existing.timestamp.toISOString(), to: event.timestamp.toISOString() })
+            values.timestamp = event.timestamp.toISOString()
+          }
+          if (row.status && row.status !== (event.existing.status ?? null)) {
+            diffs.push({ field: 'status', from: event.existing.status ?? null, to: row.status })
+            values.status = row.status
+          }
+          if (row.notes !== undefined && row.notes !== (event.existing.notes ?? null)) {
+            diffs.push({ field: 'notes', from: event.existing.notes ?? null, to: row.notes })
+            values.notes = row.notes
+          }
+
+          if (diffs.length === 0) continue
+          plan.push({
+            row: rowNumber,
+            entity: 'attendance_records',
+            action: 'update',
+            id: event.existing.id,
+            values,
+            expectedUpdatedAt: event.existing.updatedAt.toISOString()
+          })
+          changes.push({ entity: 'attendance_records', action: 'update', entityId: event.existing.id, label: event.type, diffs })
+          continue
+        }
+
+        if (mode === 'update') {
+          messages.push(`No ${event.type} recorded to update`)
+          continue
+        }
+
+        const id = crypto.randomUUID()
+        const values: Record<string, any> = {
+          user_id: user.id,
+          timestamp: event.timestamp.toISOString(),
+          type: event.type,
+          status: row.status || 'present',
+          ...(row.notes !== undefined ? { notes: row.notes } : {})
+        }
+        plan.push({ row: rowNumber, entity: 'attendance_records', action: 'create', id, values })
+        changes.push({
+          entity: 'attendance_records',
+          action: 'create',
+          entityId: id,
+          label: event.type,
+          diffs: Object.entries(values)
+            .filter(([field]) => field !== 'user_id')
+            .map(([field, to]) => ({ field, from: null, to }))
+        })
+      }
+
+      results.push(classify({
+        row: rowNumber,
+        action: 'skip',
+        key,
+        changes,
+        messages: changes.length || messages.length ? messages : ['No changes']
+      }))
+    })
+
+    return { results, plan }
+  }
+
+  // ============================================
+  // PUNCH LOGS
+  // ============================================
+
+  /**
+   * Dry-run a time-clock punch log: one result per line, each punch mapped
+   * to its employee by external ID and paired into an attendance event
+   */
+  private async planPunchLog(
+    content: string,
+    format: string,
+    source: string,
+    mode: ImportMode
+  ): Promise<{ results: ImportRowResult[]; plan: ImportPlanOperation[] }> {
+    const { punches, errors } = punchLogParsers.get(format)!.parse(content)
+    const results: ImportRowResult[] = errors.map(error => ({
+      row: error.line,
+      action: 'error' as const,
+      changes: [],
+      messages: [error.message]
+    }))
+    const plan: ImportPlanOperation[] = []
+
+    const userByExternalId = await employeeExternalIds.resolve(
+      source,
+      Array.from(new Set(punches.map(punch => punch.externalId)))
+    )
+
+    const byUser = new Map<string, Array<{ punch: RawPunch; at: Date }>>()
+    for (const punch of punches) {
+      const userId = userByExternalId.get(punch.externalId)
+      if (!userId) {
+        results.push({
+          row: punch.line,
+          action: 'error',
+          key: `${punch.externalId} ${punch.date} ${punch.time.slice(0, 5)}`,
+          changes: [],
+          messages: [`No employee mapped to ${source} ID ${punch.externalId}`]
+        })
+        continue
+      }
+      byUser.set(userId, [...(byUser.get(userId) || []), { punch, at: officeDateTimeToUtc(punch.date, punch.time) }])
+    }
+
+    const userIds = Array.from(byUser.keys())
+    const users = new Map(
+      (await serverDbManager.getUsersForImport({ ids: userIds, emails: [], employeeIds: [] })).map(user => [user.id, user])
+    )
+
+    // Existing events around the punches, by employee
+    const existingByUser = new Map<string, ServerAttendanceRecord[]>()
+    const times = Array.from(byUser.values()).flat().map(({ at }) => at.getTime())
+    if (times.length) {
+      const day = 24 * 60 * 60 * 1000
+      const records = await serverDbManager.getAttendanceForImport(
+        userIds,
+        new Date(Math.min(...times) - day),
+        new Date(Math.max(...times) + day)
+      )
+      for (const record of records) {
+        existingByUser.set(record.userId, [...(existingByUser.get(record.userId) || []), record])
+      }
+    }
+
+    for (const [userId, userPunches] of Array.from(byUser.entries())) {
+      const user = users.get(userId)
+      const existing = existingByUser.get(userId) || []
+      // Existing events already matched to an earlier punch
+      const claimed = new Map<string, number>()
+
+      for (const paired of await punchPairing.pair(userId, userPunches)) {
+        const { punch, at, type, effectiveShift } = paired
+        const result: ImportRowResult = {
+          row: punch.line,
+          action: 'skip',
+          key: `${user?.email || punch.externalId} ${punch.date} ${punch.time.slice(0, 5)}`,
+          changes: [],
+          messages: []
+        }
+        results.push(result)
+
+        if (paired.ignored || !type || !effectiveShift) {
+          result.messages.push(paired.ignored || 'No attendance event')
+          continue
+        }
+
+        const sameType = existing.filter(record => record.type === type)
+        const duplicate = sameType.find(record => Math.abs(record.timestamp.getTime() - at.getTime()) <= PUNCH_DUPLICATE_TOLERANCE_MS)
+        if (duplicate) {
+          result.messages.push(`${type} already recorded`)
+          continue
+        }
+
+        // A shift has one check-in and one check-out; breaks can repeat
+        const counterpart = type === 'check-in' || type === 'check-out'
+          ? sameType.find(record => record.timestamp >= effectiveShift.windowStart && record.timestamp <= effectiveShift.windowEnd)
+          : undefined
+
+        if (counterpart) {
+          if (mode === 'insert') {
+            result.messages.push(`${type} already recorded for this shift`)
+            continue
+          }
+          if (claimed.has(counterpart.id)) {
+            result.messages.push(`Existing ${type} already matched to line ${claimed.get(counterpart.id)}`)
+            continue
+          }
+          claimed.set(counterpart.id, punch.line)
+
+          const diffs: ImportFieldDiff[] = [
+            { field: 'timestamp', from: counterpart.timestamp.toISOString(), to: at.toISOString() }
+          ]
+          const values: Record<string, any> = { timestamp: at.toISOString() }
+          if (paired.status && paired.status !== (counterpart.status ?? null)) {
+            diffs.push({ field: 'status', from: counterpart.status ?? null, to: paired.status })
+            values.status = paired.status
+          }
+
+          plan.push({
+            row: punch.line,
+            entity: 'attendance_records',
+            action: 'update',
+            id: counterpart.id,
+            values,
+            expectedUpdatedAt: counterpart.updatedAt.toISOString()
+          })
+          result.action = 'update'
+          result.changes.push({ entity: 'attendance_records', action: 'update', entityId: counterpart.id, label: type, diffs })
+          continue
+        }
+
+        if (mode === 'update') {
+          result.messages.push(`No ${type} recorded to update`)
+          continue
+        }
+
+        const id = crypto.randomUUID()
+        const values: Record<string, any> = {
+          user_id: userId,
+          timestamp: at.toISOString(),
+          type,
+          ...(paired.status ? { status: paired.status } : {}),
+          metadata: { source, externalId: punch.externalId, device: punch.device, format, line: punch.line }
+        }
+        plan.push({ row: punch.line, entity: 'attendance_records', action: 'create', id, values })
+        result.action = 'create'
+        result.changes.push({
+          entity: 'attendance_records',
+          action: 'create',
+          entityId: id,
+          label: type,
+          diffs: [
+            { field: 'type', from: null, to: type },
+            { field: 'timestamp', from: null, to: values.timestamp },
+            ...(paired.status ? [{ field: 'status', from: null, to: paired.status }] : [])
+          ]
+        })
+      }
+    }
+
+    results.sort((a, b) => a.row - b.row)
+    return { results, plan }
+  }
+}
+
+export const importSessions = new ImportSessionService()
@@ -1,41 +1,171 @@
 /**
- * Incremental Sync (Stub)
- * Stub implementation for backward compatibility
+ * Incremental Sync
+ * Pulls the server change feed entity by entity and applies each page to
+ * IndexedDB together with its cursor. Deletions arrive as tombstones, so
+ * the local roster, face templates, shifts and settings stay current
+ * without full refreshes.
  */
 
+import { ApiClient } from './api-client'
+import { storageManager, DB_STORES } from './db'
+import { SYNC_FEED_ENTITIES, SYNC_FEED_PAGE_SIZE } from './sync-protocol'
+import type { SyncChange, SyncFeedEntity } from './sync-protocol'
+import { logger } from '@/lib/logger'
+
 export interface IncrementalSyncOptions {
-  batchSize?: number;
-  interval?: number;
+  batchSize?: number; // Changes requested per page
+  interval?: number; // Pull on a timer (ms); 0 leaves scheduling to the caller
+}
+
+export interface EntityPullResult {
+  upserted: number;
+  deleted: number;
+  cursor: string;
+}
+
+export interface IncrementalSyncResult {
+  success: boolean;
+  changesSynced: number;
+  changesFailed: number;
+  entities: Partial<Record<SyncFeedEntity, EntityPullResult>>;
+  error?: Error;
+}
+
+// Local store each feed entity is mirrored into
+const ENTITY_STORES: Record<SyncFeedEntity, string> = {
+  users: DB_STORES.USERS,
+  face_embeddings: DB_STORES.FACE_EMBEDDINGS,
+  shifts: DB_STORES.SHIFTS,
+  schedule_assignments: DB_STORES.SCHEDULE_ASSIGNMENTS,
+  settings: DB_STORES.SERVER_SETTINGS,
+};
+
+// Pages pulled per entity in one run, so a long backlog can't hold the
+// sync lock forever; the next run carries on from the stored cursor
+const MAX_PAGES_PER_RUN = 100;
+
+// JSON leaves timestamps as strings; local stores keep Date objects
+function reviveDates(record: Record<string, any>): Record<string, any> {
+  const revived = { ...record };
+  for (const key of ['createdAt', 'updatedAt']) {
+    if (typeof revived[key] === 'string') {
+      revived[key] = new Date(revived[key]);
+    }
+  }
+  return revived;
 }
 
 export class IncrementalSync {
-  private callbacks: ((result: any) => void)[] = [];
+  private options: Required<IncrementalSyncOptions>;
+  private callbacks: ((result: IncrementalSyncResult) => void)[] = [];
+  private running: Promise<IncrementalSyncResult> | null = null;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
 
-  constructor(options?: IncrementalSyncOptions) {
-    // Stub
+  constructor(options: IncrementalSyncOptions = {}) {
+    this.options = {
+      batchSize: options.batchSize ?? SYNC_FEED_PAGE_SIZE,
+      interval: options.interval ?? 0,
+    };
   }
 
   initialize() {
-    // Stub - no-op
+    if (this.options.interval > 0 && typeof window !== 'undefined' && !this.intervalId) {
+      this.intervalId = setInterval(() => {
+        this.sync().catch(() => undefined);
+      }, this.options.interval);
+    }
     return this;
   }
 
-  async sync() {
-    // Stub - no-op
-    const result = { success: true, synced: 0 };
-    this.callbacks.forEach(cb => cb(result));
-    return result;
+  /**
+   * Pull every entity (or the given ones) up to date. Concurrent callers
+   * share the run already in progress.
+   */
+  sync(entities: readonly SyncFeedEntity[] = SYNC_FEED_ENTITIES): Promise<IncrementalSyncResult> {
+    if (!this.running) {
+      this.running = this.pull(entities).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  forceSync(): Promise<IncrementalSyncResult> {
+    return this.sync();
+  }
+
+  // Drop stored cursors so the next pull rebuilds the mirror from scratch
+  async reset(entities?: SyncFeedEntity[]): Promise<void> {
+    await storageManager.resetSyncCursors(entities);
   }
 
-  onSyncComplete(callback: (result: any) => void) {
-    // Stub - register callback
+  onSyncComplete(callback: (result: IncrementalSyncResult) => void) {
     this.callbacks.push(callback);
   }
 
   stop() {
-    // Stub - no-op
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
     this.callbacks = [];
   }
+
+  cleanup() {
+    this.stop();
+  }
+
+  private async pull(entities: readonly SyncFeedEntity[]): Promise<IncrementalSyncResult> {
+    const result: IncrementalSyncResult = {
+      success: true,
+      changesSynced: 0,
+      changesFailed: 0,
+      entities: {},
+    };
+
+    // Users come first; assignments and templates refer to them
+    for (const entity of entities) {
+      try {
+        const entityResult = await this.pullEntity(entity);
+        result.entities[entity] = entityResult;
+        result.changesSynced += entityResult.upserted + entityResult.deleted;
+      } catch (error) {
+        // Other entities still pull; this one resumes from its last applied page
+        logger.error('Incremental pull failed', error as Error, { entity });
+        result.success = false;
+        result.changesFailed++;
+        result.error = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    this.callbacks.forEach(cb => cb(result));
+    return result;
+  }
+
+  private async pullEntity(entity: SyncFeedEntity): Promise<EntityPullResult> {
+    let cursor = (await storageManager.getSyncCursor(entity)) || '0';
+    let upserted = 0;
+    let deleted = 0;
+
+    for (let page = 0; page < MAX_PAGES_PER_RUN; page++) {
+      const response = await ApiClient.getSyncChanges(entity, cursor, this.options.batchSize);
+      const changes = response.changes.map((change: SyncChange) => ({
+        operation: change.operation,
+        id: change.id,
+        record: change.record ? reviveDates(change.record) : undefined,
+      }));
+
+      await storageManager.applySyncChanges(entity, ENTITY_STORES[entity], changes, response.cursor);
+
+      upserted += changes.filter(change => change.operation === 'upsert').length;
+      deleted += changes.filter(change => change.operation === 'delete').length;
+      cursor = response.cursor;
+
+      if (!response.hasMore) break;
+    }
+
+    return { upserted, deleted, cursor };
+  }
 }
 
 export const incrementalSyncManager = new IncrementalSync();
@@ -0,0 +1,596 @@
+/**
+ * Job Scheduler
+ * Runs scheduled report builder definitions, data exports, retention
+ * policies and archival rules. Schedules are
+ * office-local (daily, weekly or monthly at a time of day) and stored in
+ * scheduled_jobs. A runner leases due jobs before executing them, so
+ * overlapping ticks or instances never run a job twice. Each run stores its
+ * artifact in the exports bucket, hands it to the job's delivery channels
+ * and is kept in scheduled_job_runs.
+ */
+
+import os from 'os'
+import crypto from 'crypto'
+import { serverDbManager } from '@/lib/server-db'
+import type {
+  ServerScheduledJob,
+  ServerScheduledJobRun,
+  ScheduledJobDelivery,
+  ScheduledJobFrequency,
+  ScheduledJobRunStatus
+} from '@/lib/server-db'
+import { ReportBuilder } from '@/lib/report-builder'
+import type { ReportConfig, ReportField, ReportSchedule } from '@/lib/report-builder'
+import { reportDefinitions } from '@/lib/report-definitions'
+import { reportRenderer } from '@/lib/report-renderer'
+import { deliveryChannels } from '@/lib/delivery-channels'
+import type { DeliveryArtifact } from '@/lib/delivery-channels'
+import { DataArchivalManager } from '@/lib/data-archival'
+import type { ArchivalRule } from '@/lib/data-archival'
+import type { ScheduledJobInput, ScheduledJobUpdateInput } from '@/lib/validation-schemas'
+import {
+  toOfficeDateString,
+  officeDateTimeToUtc,
+  addDaysToDateString,
+  getDateStringWeekday
+} from '@/lib/office-time'
+import { logger } from '@/lib/logger'
+
+export type JobSchedulerResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+export interface JobScheduleTiming {
+  frequency: ScheduledJobFrequency
+  timeOfDay: string
+  dayOfWeek?: number
+  dayOfMonth?: number
+}
+
+export interface ScheduledJobRunSummary {
+  jobId: string
+  runId?: string
+  status: ScheduledJobRunStatus
+  error?: string
+}
+
+// A run holds its lease this long; a crashed runner's jobs are picked up after it
+const LEASE_SECONDS = 15 * 60
+// Jobs executed per scheduler tick
+const MAX_JOBS_PER_TICK = 5
+// How long links to stored artifacts stay valid in deliveries
+const ARTIFACT_URL_TTL_SECONDS = 7 * 24 * 60 * 60
+
+const FORMAT_FILES: Record<ServerScheduledJob['format'], { extension: string; contentType: string }> = {
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+  excel: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' }
+}
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+/**
+ * First run of a schedule strictly after the given instant, in office time.
+ * Weekly schedules default to Monday, monthly ones to the 1st; a day of
+ * month past the month's end runs on its last day.
+ */
+export function computeNextRun(timing: JobScheduleTiming, after: Date = new Date()): Date {
+  const today = toOfficeDateString(after)
+
+  if (timing.frequency === 'monthly') {
+    const [year, month] = today.split('-').map(Number)
+    for (let offset = 0; offset <= 1; offset++) {
+      const targetYear = year + Math.floor((month - 1 + offset) / 12)
+      const targetMonth = ((month - 1 + offset) % 12) + 1
+      const day = Math.min(timing.dayOfMonth ?? 1, daysInMonth(targetYear, targetMonth))
+      const date = `${targetYear}-${String(targetMonth).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+      const candidate = officeDateTimeToUtc(date, timing.timeOfDay)
+      if (candidate > after) return candidate
+    }
+  }
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = addDaysToDateString(today, offset)
+    if (timing.frequency === 'weekly' && getDateStringWeekday(date) !== (timing.dayOfWeek ?? 1)) continue
+    const candidate = officeDateTimeToUtc(date, timing.timeOfDay)
+    if (candidate > after) return candidate
+  }
+
+  throw new Error(`Could not compute next run for ${timing.frequency} schedule`)
+}
+
+export class JobScheduler {
+  private readonly runnerId = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString('hex')}`
+
+  async list(options?: { kind?: ServerScheduledJob['kind'] }): Promise<ServerScheduledJob[]> {
+    return serverDbManager.getScheduledJobs(options)
+  }
+
+  async get(id: string): Promise<JobSchedulerResult<{ job: ServerScheduledJob }>> {
+    const job = await serverDbManager.getScheduledJob(id)
+    if (!job) {
+      return failure('Scheduled job not found', 'NOT_FOUND', 404)
+    }
+    return { success: true, job }
+  }
+
+  async create(input: ScheduledJobInput, userId: string): Promise<JobSchedulerResult<{ job: ServerScheduledJob }>> {
+    const channelError = this.validateChannels(input.channels)
+    if (channelError) return channelError
+
+    if (input.kind === 'report') {
+      const definition = await serverDbManager.getReportDefinition(input.reportId!)
+      if (!definition) {
+        return failure('Report not found', 'NOT_FOUND', 404)
+      }
+      if (await serverDbManager.getScheduledJobByReport(input.reportId!)) {
+        return failure('This report already has a schedule', 'ALREADY_SCHEDULED', 409)
+      }
+    }
+
+    const job = await serverDbManager.createScheduledJob({
+      name: input.name,
+      kind: input.kind,
+      reportId: input.kind === 'report' ? input.reportId : undefined,
+      config: input.kind === 'export' ? input.config! : {},
+      format: input.format,
+      frequency: input.frequency,
+      timeOfDay: input.timeOfDay,
+      dayOfWeek: input.dayOfWeek,
+      dayOfMonth: input.dayOfMonth,
+      recipients: input.recipients,
+      channels: input.channels,
+      enabled: input.enabled,
+      nextRunAt: computeNextRun(input),
+      createdBy: userId
+    })
+
+    await serverDbManager.createAuditLog({
+      userId,
+      action: 'scheduled_job_created',
+      resource: 'scheduled_job',
+      resourceId: job.id,
+      details: {
+        description: `Scheduled ${job.kind} "${job.name}" created (${job.frequency} at ${job.timeOfDay})`,
+        nextRunAt: job.nextRunAt.toISOString()
+      }
+    })
+
+    return { success: true, job }
+  }
+
+  async update(id: string, input: ScheduledJobUpdateInput, userId: string): Promise<JobSchedulerResult<{ job: ServerScheduledJob }>> {
+    const existing = await serverDbManager.getScheduledJob(id)
+    if (!existing) {
+      return failure('Scheduled job not found', 'NOT_FOUND', 404)
+    }
+    if (input.config && existing.kind !== 'export') {
+      return failure('Only scheduled exports carry a config; edit the report definition instead', 'INVALID_UPDATE')
+    }
+    if (input.format && input.format !== 'json' && (existing.kind === 'retention' || existing.kind === 'archival')) {
+      return failure('Retention and archival runs produce a JSON summary', 'INVALID_UPDATE')
+    }
+    if (input.channels) {
+      const channelError = this.validateChannels(input.channels)
+      if (channelError) return channelError
+    }
+
+    const timing: JobScheduleTiming = {
+      frequency: input.frequency ?? existing.frequency,
+      timeOfDay: input.timeOfDay ?? existing.timeOfDay,
+      dayOfWeek: input.dayOfWeek === undefined ? existing.dayOfWeek : input.dayOfWeek ?? undefined,
+      dayOfMonth: input.dayOfMonth === undefined ? existing.dayOfMonth : input.dayOfMonth ?? undefined
+    }
+    const rescheduled = input.frequency !== undefined || input.timeOfDay !== undefined ||
+      input.dayOfWeek !== undefined || input.dayOfMonth !== undefined ||
+      (input.enabled === true && !existing.enabled)
+
+    const job = await serverDbManager.updateScheduledJob(id, {
+      name: input.name,
+      config: input.config,
+      format: input.format,
+      frequency: input.frequency,
+      timeOfDay: input.timeOfDay,
+      ...(input.dayOfWeek !== undefined ? { dayOfWeek: input.dayOfWeek ?? undefined } : {}),
+      ...(input.dayOfMonth !== undefined ? { dayOfMonth: input.dayOfMonth ?? undefined } : {}),
+      recipients: input.recipients,
+      channels: input.channels,
+      enabled: input.enabled,
+      nextRunAt: rescheduled ? computeNextRun(timing) : undefined
+    })
+    if (!job) {
+      return failure('Scheduled job not found', 'NOT_FOUND', 404)
+    }
+
+    await serverDbManager.createAuditLog({
+      userId,
+      action: 'scheduled_job_updated',
+      resource: 'scheduled_job',
+      resourceId: id,
+      details: {
+        description: `Scheduled ${job.kind} "${job.name}" updated`,
+        changes: Object.keys(input),
+        nextRunAt: job.nextRunAt.toISOString()
+      }
+    })
+
+    return { success: true, job }
+  }
+
+  async remove(id: string, userId: string): Promise<JobSchedulerResult<{}>> {
+    const job = await serverDbManager.getScheduledJob(id)
+    if (!job) {
+      return failure('Scheduled job not found', 'NOT_FOUND', 404)
+    }
+    if (!(await serverDbManager.deleteScheduledJob(id))) {
+      return failure('Failed to delete scheduled job', 'SERVER_ERROR', 500)
+    }
+
+    await serverDbManager.createAuditLog({
+      userId,
+      action: 'scheduled_job_deleted',
+      resource: 'scheduled_job',
+      resourceId: id,
+      details: { description: `Scheduled ${job.kind} "${job.name}" deleted` }
+    })
+
+    return { success: true }
+  }
+
+  /**
+   * Run history with signed links to the stored artifacts
+   */
+  async history(id: string, limit?: number): Promise<JobSchedulerResult<{ runs: Array<ServerScheduledJobRun & { downloadUrl?: string }> }>> {
+    const job = await serverDbManager.getScheduledJob(id)
+    if (!job) {
+      return failure('Scheduled job not found', 'NOT_FOUND', 404)
+    }
+
+    const runs = await serverDbManager.getScheduledJobRuns(id, { limit })
+    const withLinks = await Promise.all(runs.map(async run => ({
+      ...run,
+      downloadUrl: run.artifactPath
+        ? (await serverDbManager.createJobArtifactUrl(run.artifactPath, 60 * 60)) || undefined
+        : undefined
+    })))
+
+    return { success: true, runs: withLinks }
+  }
+
+  /**
+   * Keep a saved report's schedule (ReportConfig.schedule) in step with its
+   * scheduled job: create, update or disable it
+   */
+  async syncReportSchedule(
+    report: ReportConfig,
+    schedule: ReportSchedule | undefined,
+    userId: string
+  ): Promise<ServerScheduledJob | null> {
+    const existing = await serverDbManager.getScheduledJobByReport(report.id)
+
+    if (!schedule?.enabled) {
+      if (existing?.enabled) {
+        return serverDbManager.updateScheduledJob(existing.id, { enabled: false })
+      }
+      return existing
+    }
+
+    const fields = {
+      name: report.name,
+      format: report.exportFormat || 'pdf',
+      frequency: schedule.frequency,
+      timeOfDay: schedule.time,
+      dayOfWeek: schedule.dayOfWeek,
+      dayOfMonth: schedule.dayOfMonth,
+      recipients: schedule.recipients,
+      channels: schedule.channels || [{ type: 'email' }],
+      enabled: true
+    }
+    const nextRunAt = computeNextRun(fields)
+
+    if (existing) {
+      return serverDbManager.updateScheduledJob(existing.id, { ...fields, nextRunAt })
+    }
+    return serverDbManager.createScheduledJob({
+      ...fields,
+      kind: 'report',
+      reportId: report.id,
+      config: {},
+      nextRunAt,
+      createdBy: userId
+    })
+  }
+
+  /**
+   * Keep an archival or cleanup rule's schedule in step with its scheduled
+   * job. The job runs the stored rule, so only its timing is kept here.
+   */
+  async syncArchivalRuleSchedule(
+    rule: { id: string; name: string; enabled: boolean; schedule?: Omit<NonNullable<ArchivalRule['schedule']>, 'nextRun'> },
+    userId: string
+  ): Promise<ServerScheduledJob | null> {
+    const existing = await this.findArchivalRuleJob(rule.id)
+
+    if (!rule.enabled || !rule.schedule?.enabled) {
+      if (existing?.enabled) {
+        return serverDbManager.updateScheduledJob(existing.id, { enabled: false })
+      }
+      return existing
+    }
+
+    const fields = {
+      name: rule.name,
+      format: 'json' as const,
+      frequency: rule.schedule.frequency,
+      timeOfDay: rule.schedule.time,
+      recipients: [],
+      channels: [],
+      enabled: true
+    }
+    const nextRunAt = computeNextRun(fields)
+
+    if (existing) {
+      return serverDbManager.updateScheduledJob(existing.id, { ...fields, nextRunAt })
+    }
+    return serverDbManager.createScheduledJob({
+      ...fields,
+      kind: 'archival',
+      config: { ruleId: rule.id },
+      nextRunAt,
+      createdBy: userId
+    })
+  }
+
+  async removeArchivalRuleSchedule(ruleId: string): Promise<void> {
+    const existing = await this.findArchivalRuleJob(ruleId)
+    if (existing) {
+      await serverDbManager.deleteScheduledJob(existing.id)
+    }
+  }
+
+  /**
+   * Execute every due job this runner can lease. Called by the cron endpoint.
+   */
+  async runDue(): Promise<ScheduledJobRunSummary[]> {
+    const jobs = await serverDbManager.claimDueScheduledJobs(this.runnerId, LEASE_SECONDS, MAX_JOBS_PER_TICK)
+    const summaries: ScheduledJobRunSummary[] = []
+
+    // One at a time: renders are memory-heavy
+    for (const job of jobs) {
+      summaries.push(await this.execute(job))
+    }
+
+    if (summaries.length > 0) {
+      logger.info('Scheduled jobs executed', {
+        runnerId: this.runnerId,
+        succeeded: summaries.filter(s => s.status === 'succeeded').length,
+        failed: summaries.filter(s => s.status !== 'succeeded').length
+      })
+    }
+
+    return summaries
+  }
+
+  /**
+   * Execute a job now, outside its schedule. Its next scheduled run is kept.
+   */
+  async runNow(id: string, userId: string): Promise<JobSchedulerResult<{ run: ScheduledJobRunSummary }>> {
+    const { result: job, error } = await serverDbManager.claimScheduledJob(id, this.runnerId, LEASE_SECONDS)
+    if (error || !job) {
+      if (error?.message === 'JOB_NOT_FOUND') {
+        return failure('Scheduled job not found', 'NOT_FOUND', 404)
+      }
+      if (error?.message === 'JOB_LOCKED') {
+        return failure('This job is already running', 'JOB_RUNNING', 409)
+      }
+      logger.error('Error claiming scheduled job', new Error(error?.message || 'Unknown error'))
+      return failure('Failed to start job', 'SERVER_ERROR', 500)
+    }
+
+    const run = await this.execute(job, userId)
+    return { success: true, run }
+  }
+
+  private async execute(job: ServerScheduledJob, triggeredBy?: string): Promise<ScheduledJobRunSummary> {
+    const startedAt = new Date()
+    // Scheduled runs advance the schedule even when they fail, so a broken
+    // job doesn't run again on every tick
+    const nextRunAt = triggeredBy ? undefined : computeNextRun(job, startedAt)
+    let run: ServerScheduledJobRun | undefined
+
+    try {
+      run = await serverDbManager.createScheduledJobRun({
+        jobId: job.id,
+        triggeredBy,
+        runnerId: this.runnerId,
+        scheduledFor: triggeredBy ? undefined : job.nextRunAt
+      })
+
+      const { content, recordCount } = await this.produce(job)
+      const file = FORMAT_FILES[job.format]
+      const stamp = toOfficeDateString(startedAt)
+      const filename = `${job.name.trim().replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'job'}-${stamp}.${file.extension}`
+      const artifactPath = `scheduled/${job.id}/${run.id}.${file.extension}`
+
+      const stored = await serverDbManager.uploadJobArtifact(artifactPath, content, file.contentType)
+      const artifact: DeliveryArtifact = {
+        filename,
+        content,
+        contentType: file.contentType,
+        size: Buffer.byteLength(content),
+        downloadUrl: stored
+          ? (await serverDbManager.createJobArtifactUrl(artifactPath, ARTIFACT_URL_TTL_SECONDS)) || undefined
+          : undefined
+      }
+
+      const deliveries = await this.deliver(job, run.id, artifact, recordCount, startedAt)
+      const delivered = deliveries.filter(d => d.success).length
+      const status: ScheduledJobRunStatus =
+        !stored && delivered === 0 ? 'failed'
+          : stored && delivered === deliveries.length ? 'succeeded'
+          : 'partial'
+
+      await serverDbManager.finishScheduledJobRun(run.id, {
+        status,
+        deliveries,
+        artifactPath: stored ? artifactPath : undefined,
+        artifactSize: artifact.size,
+        contentType: file.contentType,
+        recordCount,
+        error: stored ? undefined : 'Artifact could not be stored'
+      })
+      await serverDbManager.releaseScheduledJob(job.id, this.runnerId, { lastStatus: status, lastRunAt: startedAt, nextRunAt })
+
+      return { jobId: job.id, runId: run.id, status }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      logger.error('Scheduled job failed', error as Error, { jobId: job.id })
+
+      if (run) {
+        await serverDbManager.finishScheduledJobRun(run.id, { status: 'failed', deliveries: [], error: message })
+      }
+      await serverDbManager.releaseScheduledJob(job.id, this.runnerId, { lastStatus: 'failed', lastRunAt: startedAt, nextRunAt })
+
+      return { jobId: job.id, runId: run?.id, status: 'failed', error: message }
+    }
+  }
+
+  /**
+   * Render the job's report or export, or run its retention policies or
+   * archival rule and report the outcome
+   */
+  private async produce(job: ServerScheduledJob): Promise<{ content: Buffer | string; recordCount: number }> {
+    if (job.kind === 'retention') {
+      const result = await new DataArchivalManager().applyRetentionPolicies()
+      if (result.errors.length > 0) {
+        throw new Error(result.errors.join('; '))
+      }
+      return {
+        content: JSON.stringify(result, null, 2),
+        recordCount: result.recordsArchived + result.recordsDeleted + result.recordsPurged
+      }
+    }
+
+    if (job.kind === 'archival') {
+      const result = await new DataArchivalManager().runRule(job.config.ruleId)
+      if (!result.success) {
+        throw new Error(result.errors.join('; ') || 'Archival rule failed')
+      }
+      const recordCount = 'archivalId' in result
+        ? result.recordsArchived + result.recordsDeleted + result.recordsFlagged
+        : result.recordsDeleted
+      return { content: JSON.stringify(result, null, 2), recordCount }
+    }
+
+    let config: ReportConfig
+    if (job.kind === 'report') {
+      const resolved = await reportDefinitions.resolve(job.reportId!)
+      if (!resolved) {
+        throw new Error('Scheduled report definition no longer exists')
+      }
+      config = resolved
+    } else {
+      config = this.exportToReportConfig(job)
+    }
+
+    const data = await reportDefinitions.run(config)
+    if (job.reportId) {
+      await serverDbManager.markReportGenerated(job.reportId)
+    }
+
+    if (job.format === 'json') {
+      const records = data.rows.map(row => Object.fromEntries(data.headers.map((header, i) => [header, row[i]])))
+      return { content: JSON.stringify(records, null, 2), recordCount: records.length }
+    }
+
+    const rendered = reportRenderer.render(config, data, job.format)
+    return { content: rendered.content, recordCount: data.totalRecords ?? data.rows.length }
+  }
+
+  /**
+   * Scheduled exports list plain field names; give them builder field types
+   */
+  private exportToReportConfig(job: ServerScheduledJob): ReportConfig {
+    const available = ReportBuilder.getAvailableFields(job.config.dataSource)
+    const fields: ReportField[] = (job.config.fields as string[]).map((name, order) => ({
+      ...(available.find(field => field.name === name) || { name, label: name, type: 'string' as const }),
+      visible: true,
+      order
+    }))
+
+    return {
+      id: job.id,
+      name: job.name,
+      description: '',
+      dataSource: job.config.dataSource,
+      fields,
+      filters: job.config.filters || [],
+      groupBy: [],
+      sortBy: [],
+      aggregations: [],
+      createdBy: job.createdBy || '',
+      createdAt: job.createdAt.toISOString(),
+      updatedAt: job.updatedAt.toISOString()
+    }
+  }
+
+  private async findArchivalRuleJob(ruleId: string): Promise<ServerScheduledJob | null> {
+    const jobs = await serverDbManager.getScheduledJobs({ kind: 'archival' })
+    return jobs.find(job => job.config.ruleId === ruleId) || null
+  }
+
+  private async deliver(
+    job: ServerScheduledJob,
+    runId: string,
+    artifact: DeliveryArtifact,
+    recordCount: number,
+    generatedAt: Date
+  ): Promise<ScheduledJobDelivery[]> {
+    const deliveries: ScheduledJobDelivery[] = []
+
+    for (const { type, target } of job.channels) {
+      const channel = deliveryChannels.get(type)
+      try {
+        if (!channel) {
+          throw new Error(`Unknown delivery channel: ${type}`)
+        }
+        await channel.deliver(artifact, {
+          jobId: job.id,
+          jobName: job.name,
+          runId,
+          recipients: job.recipients,
+          recordCount,
+          generatedAt
+        }, target)
+        deliveries.push({ type, target, success: true, deliveredAt: new Date().toISOString() })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        logger.warn('Scheduled job delivery failed', { jobId: job.id, channel: type, error: message })
+        deliveries.push({ type, target, success: false, error: message, deliveredAt: new Date().toISOString() })
+      }
+    }
+
+    return deliveries
+  }
+
+  private validateChannels(channels: Array<{ type: string }>) {
+    const unknown = channels.map(channel => channel.type).filter(type => !deliveryChannels.get(type))
+    if (unknown.length > 0) {
+      return failure(
+        `Unknown delivery channel: ${unknown.join(', ')}. Available: ${deliveryChannels.types().join(', ')}`,
+        'INVALID_CHANNEL'
+      )
+    }
+    return null
+  }
+}
+
+// Export singleton instance
+export const jobScheduler = new JobScheduler()
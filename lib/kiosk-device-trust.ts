@@ -0,0 +1,309 @@
+/**
+ * Kiosk Device Trust Service
+ * Server side of kiosk registration: issues one-time enrollment codes,
+ * registers a tablet's public key with one, and verifies the signed
+ * requests registered tablets make afterwards (clock skew, nonce replay,
+ * signature and device status).
+ *
+ * Server-only: uses node crypto.
+ */
+
+import crypto from 'crypto'
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerKioskDevice, ServerKioskEnrollmentCode, ServerSettings } from '@/lib/server-db'
+import {
+  KIOSK_HEADERS,
+  KIOSK_MAX_CLOCK_SKEW_MS,
+  canonicalKioskRequest,
+  sha256Hex
+} from '@/lib/kiosk-protocol'
+import type { KioskDeviceState, KioskHeartbeat } from '@/lib/kiosk-protocol'
+import type {
+  KioskDeviceUpdateInput,
+  KioskEnrollmentCodeInput,
+  KioskRegistrationInput
+} from '@/lib/validation-schemas'
+import { logger } from '@/lib/logger'
+
+export type KioskTrustResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+// Codes avoid characters that are easy to misread on a tablet keyboard
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'
+const CODE_LENGTH = 8
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/
+// Verified requests refresh last_seen_at at most this often per device
+const LAST_SEEN_WRITE_INTERVAL_MS = 60 * 1000
+
+const lastSeenWrites = new Map<string, number>()
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+/**
+ * Codes are shown as XXXX-XXXX; hashing ignores case and separators
+ */
+export function hashEnrollmentCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '')
+  return crypto.createHash('sha256').update(normalized).digest('hex')
+}
+
+function generateEnrollmentCode(): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH)
+  const chars = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+  return `${chars.slice(0, 4).join('')}-${chars.slice(4).join('')}`
+}
+
+function clientIp(request: Request): string | undefined {
+  const forwarded = request.headers.get('x-forwarded-for')
+  return forwarded ? forwarded.split(',')[0].trim() : request.headers.get('x-real-ip') || undefined
+}
+
+export class KioskDeviceTrustService {
+  /**
+   * Issue a one-time code for enrolling a tablet on a site. Only the hash is
+   * stored, so the code is returned here and never again.
+   */
+  async createEnrollmentCode(
+    input: KioskEnrollmentCodeInput,
+    adminId: string
+  ): Promise<KioskTrustResult<{ code: string; enrollment: ServerKioskEnrollmentCode }>> {
+    const site = await serverDbManager.getOfficeSite(input.siteId)
+    if (!site || !site.isActive) {
+      return failure('Site not found or inactive', 'SITE_NOT_FOUND', 404)
+    }
+
+    const code = generateEnrollmentCode()
+    const enrollment = await serverDbManager.createKioskEnrollmentCode({
+      codeHash: hashEnrollmentCode(code),
+      siteId: site.id,
+      label: input.label,
+      createdBy: adminId,
+      expiresAt: new Date(Date.now() + input.expiresInHours * 60 * 60 * 1000)
+    })
+
+    logger.info('Kiosk enrollment code issued', {
+      enrollmentId: enrollment.id,
+      siteId: site.id,
+      issuedBy: adminId,
+      expiresAt: enrollment.expiresAt.toISOString()
+    })
+
+    return { success: true, code, enrollment }
+  }
+
+  async register(input: KioskRegistrationInput, request: Request): Promise<KioskTrustResult<{ device: KioskDeviceState }>> {
+    // Only public P-256 keys; refuse anything carrying private material
+    const { kty, crv, x, y } = input.publicKey
+    const publicKey: JsonWebKey = { kty, crv, x, y }
+    try {
+      crypto.createPublicKey({ key: publicKey as crypto.JsonWebKey, format: 'jwk' })
+    } catch {
+      return failure('Invalid device public key', 'INVALID_PUBLIC_KEY')
+    }
+
+    const { result, error } = await serverDbManager.redeemKioskEnrollmentCode(hashEnrollmentCode(input.code), {
+      name: input.name,
+      publicKey,
+      userAgent: request.headers.get('user-agent') || undefined
+    })
+
+    if (error || !result) {
+      if (error?.message === 'ENROLLMENT_CODE_INVALID') {
+        return failure('Enrollment code is invalid, used or expired', 'ENROLLMENT_CODE_INVALID', 403)
+      }
+      logger.error('Error registering kiosk device', new Error(error?.message || 'Unknown error'))
+      return failure('Failed to register kiosk device', 'SERVER_ERROR', 500)
+    }
+
+    const device = (await serverDbManager.getKioskDevice(result.id)) || result
+    logger.info('Kiosk device registered', { deviceId: device.id, siteId: device.siteId, name: device.name })
+
+    return { success: true, device: this.toState(device) }
+  }
+
+  /**
+   * Check a request's kiosk signature. Unsigned requests pass with a null
+   * device; signed ones must be valid, fresh and from an active device.
+   */
+  async verifyRequest(request: Request, rawBody: string): Promise<KioskTrustResult<{ device: ServerKioskDevice | null }>> {
+    const deviceId = request.headers.get(KIOSK_HEADERS.deviceId)
+    if (!deviceId) {
+      return { success: true, device: null }
+    }
+
+    const timestamp = request.headers.get(KIOSK_HEADERS.timestamp) || ''
+    const nonce = request.headers.get(KIOSK_HEADERS.nonce) || ''
+    const signature = request.headers.get(KIOSK_HEADERS.signature) || ''
+
+    const signedAt = Number(timestamp)
+    if (!Number.isFinite(signedAt) || !NONCE_PATTERN.test(nonce) || !signature) {
+      return failure('Malformed kiosk signature', 'KIOSK_SIGNATURE_INVALID', 401)
+    }
+
+    const skew = Date.now() - signedAt
+    if (Math.abs(skew) > KIOSK_MAX_CLOCK_SKEW_MS) {
+      logger.warn('Kiosk request outside clock skew limit', { deviceId, skewMs: skew })
+      return failure('Kiosk clock is out of sync with the server', 'KIOSK_CLOCK_SKEW', 401)
+    }
+
+    const device = await serverDbManager.getKioskDevice(deviceId).catch(() => null)
+    if (!device) {
+      return failure('Unknown kiosk device', 'KIOSK_DEVICE_UNKNOWN', 401)
+    }
+
+    const url = new URL(request.url)
+    const canonical = canonicalKioskRequest({
+      method: request.method,
+      path: `${url.pathname}${url.search}`,
+      timestamp,
+      nonce,
+      bodyHash: await sha256Hex(rawBody)
+    })
+
+    let valid = false
+    try {
+      valid = crypto.verify(
+        'sha256',
+        Buffer.from(canonical),
+        {
+          key: crypto.createPublicKey({ key: device.publicKey as crypto.JsonWebKey, format: 'jwk' }),
+          dsaEncoding: 'ieee-p1363'
+        },
+        Buffer.from(signature, 'base64')
+      )
+    } catch {
+      valid = false
+    }
+
+    if (!valid) {
+      logger.warn('Kiosk request with invalid signature', { deviceId })
+      return failure('Invalid kiosk signature', 'KIOSK_SIGNATURE_INVALID', 401)
+    }
+
+    // Checked after the signature so unsigned junk can't fill the nonce table.
+    // Nonces only need keeping inside the skew window; older ones fail the
+    // timestamp check anyway.
+    const fresh = await serverDbManager.consumeNonce(
+      'kiosk-request',
+      `${device.id}:${nonce}`,
+      new Date(signedAt + KIOSK_MAX_CLOCK_SKEW_MS)
+    )
+    if (!fresh) {
+      logger.warn('Replayed kiosk request', { deviceId })
+      return failure('Kiosk request was already used', 'KIOSK_REPLAY', 401)
+    }
+
+    if (device.status !== 'active') {
+      return failure('This kiosk has been disabled by an administrator', 'KIOSK_DEVICE_DISABLED', 403)
+    }
+
+    this.touch(device, request)
+    return { success: true, device }
+  }
+
+  /**
+   * verifyRequest plus the requireKioskDevice setting: unless an admin has
+   * turned it off, unsigned face check-ins are refused. An unsigned request
+   * carries nothing but the client's word for where it was made.
+   */
+  async authorize(request: Request, rawBody: string): Promise<KioskTrustResult<{ device: ServerKioskDevice | null }>> {
+    const verification = await this.verifyRequest(request, rawBody)
+    if (!verification.success || verification.device) {
+      return verification
+    }
+
+    const settings: ServerSettings['attendance'] | null = await serverDbManager
+      .getSettings('attendance')
+      .catch(() => null)
+
+    // Missing or unreadable settings count as on
+    if (settings?.requireKioskDevice !== false) {
+      return failure('Face check-in is only available on registered kiosks', 'KIOSK_DEVICE_REQUIRED', 403)
+    }
+
+    return verification
+  }
+
+  async heartbeat(device: ServerKioskDevice, heartbeat: KioskHeartbeat, request: Request): Promise<KioskDeviceState> {
+    const now = new Date()
+    const updated = await serverDbManager.updateKioskDevice(device.id, {
+      lastHeartbeatAt: now,
+      lastSeenAt: now,
+      lastSeenIp: clientIp(request),
+      heartbeat,
+      userAgent: request.headers.get('user-agent') || undefined
+    })
+    lastSeenWrites.set(device.id, now.getTime())
+
+    return this.toState(updated || device)
+  }
+
+  async updateDevice(
+    id: string,
+    input: KioskDeviceUpdateInput,
+    adminId: string
+  ): Promise<KioskTrustResult<{ device: ServerKioskDevice }>> {
+    const device = await serverDbManager.getKioskDevice(id)
+    if (!device) {
+      return failure('Kiosk device not found', 'NOT_FOUND', 404)
+    }
+
+    if (input.siteId && input.siteId !== device.siteId) {
+      const site = await serverDbManager.getOfficeSite(input.siteId)
+      if (!site || !site.isActive) {
+        return failure('Site not found or inactive', 'SITE_NOT_FOUND', 404)
+      }
+    }
+
+    const statusChanged = input.status !== undefined && input.status !== device.status
+    const updated = await serverDbManager.updateKioskDevice(id, {
+      name: input.name,
+      siteId: input.siteId,
+      ...(statusChanged
+        ? input.status === 'disabled'
+          ? { status: 'disabled' as const, disabledAt: new Date(), disabledBy: adminId, disabledReason: input.reason }
+          : { status: 'active' as const, disabledAt: null, disabledBy: '', disabledReason: '' }
+        : {})
+    })
+
+    if (!updated) {
+      return failure('Kiosk device not found', 'NOT_FOUND', 404)
+    }
+
+    logger.info('Kiosk device updated', {
+      deviceId: id,
+      updatedBy: adminId,
+      status: updated.status,
+      siteId: updated.siteId
+    })
+
+    return { success: true, device: updated }
+  }
+
+  toState(device: ServerKioskDevice): KioskDeviceState {
+    return {
+      deviceId: device.id,
+      name: device.name,
+      siteId: device.siteId,
+      siteName: device.siteName,
+      status: device.status,
+      serverTime: new Date().toISOString()
+    }
+  }
+
+  private touch(device: ServerKioskDevice, request: Request): void {
+    const now = Date.now()
+    if (now - (lastSeenWrites.get(device.id) || 0) < LAST_SEEN_WRITE_INTERVAL_MS) return
+    lastSeenWrites.set(device.id, now)
+
+    serverDbManager
+      .updateKioskDevice(device.id, { lastSeenAt: new Date(now), lastSeenIp: clientIp(request) })
+      .catch(error => logger.error('Error updating kiosk last seen', error as Error))
+  }
+}
+
+// Singleton instance
+export const kioskDeviceTrust = new KioskDeviceTrustService()
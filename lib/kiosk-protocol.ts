@@ -0,0 +1,65 @@
+// Signed requests from registered kiosk devices. Shared by the tablet
+// (lib/kiosk-registration.ts) and the server (lib/kiosk-device-trust.ts).
+//
+// Each request carries the device id, a timestamp, a random nonce and an
+// ECDSA P-256 signature (IEEE P1363, base64) over the canonical string.
+
+export const KIOSK_HEADERS = {
+  deviceId: 'X-Kiosk-Device',
+  timestamp: 'X-Kiosk-Timestamp',
+  nonce: 'X-Kiosk-Nonce',
+  signature: 'X-Kiosk-Signature',
+} as const
+
+// Largest difference between the device and server clocks the server accepts
+export const KIOSK_MAX_CLOCK_SKEW_MS = 2 * 60 * 1000
+
+export const KIOSK_HEARTBEAT_INTERVAL_MS = 60 * 1000
+
+export type KioskDeviceStatus = 'active' | 'disabled'
+
+export interface KioskHeartbeat {
+  appVersion?: string
+  online: boolean
+  pendingSyncItems?: number
+  offlineCacheGeneratedAt?: string | null
+}
+
+// What the server tells a device about itself (registration and heartbeat)
+export interface KioskDeviceState {
+  deviceId: string
+  name: string
+  siteId: string
+  siteName?: string
+  status: KioskDeviceStatus
+  serverTime: string
+}
+
+// Produces the signature headers for an outgoing request
+export type KioskRequestSigner = (request: {
+  method: string
+  path: string
+  body: string
+}) => Promise<Record<string, string>>
+
+/**
+ * String a kiosk signs: method, path with query, timestamp, nonce and the
+ * SHA-256 of the body, one per line
+ */
+export function canonicalKioskRequest(parts: {
+  method: string
+  path: string
+  timestamp: string
+  nonce: string
+  bodyHash: string
+}): string {
+  return [parts.method.toUpperCase(), parts.path, parts.timestamp, parts.nonce, parts.bodyHash].join('\n')
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  // Web Crypto: the same code runs on the kiosk and in the Node 18+ server
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(value))
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
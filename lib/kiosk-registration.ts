@@ -0,0 +1,210 @@
+/**
+ * Kiosk Registration (tablet side)
+ * Enrolls a shared tablet with an admin-issued code and signs its requests
+ * afterwards (see lib/kiosk-protocol.ts), sync uploads included. The ECDSA private key is created
+ * non-extractable and kept in IndexedDB, so it can sign but never be read
+ * out or copied to another device.
+ */
+
+import { ApiClient } from './api-client'
+import { faceStorage } from './face-storage'
+import { offlineFaceCheckin } from './offline-face-checkin'
+import { canonicalKioskRequest, sha256Hex, KIOSK_HEADERS } from './kiosk-protocol'
+import type { KioskDeviceState, KioskHeartbeat } from './kiosk-protocol'
+
+import { logger } from '@/lib/logger'
+
+const REGISTRATION_STORAGE_KEY = 'kiosk-device'
+
+export interface KioskRegistrationInfo {
+  deviceId: string
+  name: string
+  siteId: string
+  siteName?: string
+  status: KioskDeviceState['status']
+  registeredAt: string
+  // Device clock minus server clock, from the last response carrying serverTime
+  clockOffsetMs: number
+}
+
+function base64(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...Array.from(new Uint8Array(bytes))))
+}
+
+function generateNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(18))
+  return base64(bytes.buffer).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function clockOffset(serverTime: string, requestedAt: number): number {
+  return Math.round((requestedAt + Date.now()) / 2 - new Date(serverTime).getTime())
+}
+
+export class KioskRegistration {
+  private privateKey: CryptoKey | null = null
+
+  constructor() {
+    const registration = typeof window !== 'undefined' ? this.getRegistration() : null
+    if (registration) {
+      ApiClient.setRequestSigner(request => this.signRequest(request))
+      ApiClient.setSyncDeviceId(registration.deviceId)
+    }
+  }
+
+  getRegistration(): KioskRegistrationInfo | null {
+    if (typeof localStorage === 'undefined') return null
+    const stored = localStorage.getItem(REGISTRATION_STORAGE_KEY)
+    if (!stored) return null
+
+    try {
+      return JSON.parse(stored)
+    } catch {
+      return null
+    }
+  }
+
+  isRegistered(): boolean {
+    return this.getRegistration() !== null
+  }
+
+  /**
+   * Register this tablet with an enrollment code. Binds the offline face
+   * cache to the device's site and starts signing requests.
+   */
+  async register(code: string, name: string): Promise<KioskRegistrationInfo> {
+    const keyPair = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign', 'verify']
+    )
+    const publicKey = await crypto.subtle.exportKey('jwk', keyPair.publicKey)
+
+    // Any earlier registration's signature would be rejected by the server
+    ApiClient.setRequestSigner(null)
+
+    const requestedAt = Date.now()
+    const response = await ApiClient.registerKioskDevice({ code, name, publicKey })
+    const state = response.data
+
+    await faceStorage.saveKioskDeviceKey(keyPair)
+    this.privateKey = keyPair.privateKey
+
+    const registration: KioskRegistrationInfo = {
+      deviceId: state.deviceId,
+      name: state.name,
+      siteId: state.siteId,
+      siteName: state.siteName,
+      status: state.status,
+      registeredAt: new Date().toISOString(),
+      clockOffsetMs: clockOffset(state.serverTime, requestedAt)
+    }
+    localStorage.setItem(REGISTRATION_STORAGE_KEY, JSON.stringify(registration))
+
+    offlineFaceCheckin.setSiteId(state.siteId)
+    ApiClient.setRequestSigner(request => this.signRequest(request))
+    // Signed sync uploads must name the kiosk as their device
+    ApiClient.setSyncDeviceId(state.deviceId)
+
+    logger.info('Kiosk device registered', { deviceId: state.deviceId, siteId: state.siteId })
+    return registration
+  }
+
+  /**
+   * Report status to the server and pick up changes made by admins
+   * (site moves, disabling)
+   */
+  async heartbeat(heartbeat: KioskHeartbeat): Promise<KioskRegistrationInfo | null> {
+    const registration = this.getRegistration()
+    if (!registration) return null
+
+    const requestedAt = Date.now()
+    const response = await ApiClient.kioskHeartbeat(heartbeat)
+    return this.applyState(response.data, requestedAt)
+  }
+
+  /**
+   * Mark the registration disabled locally after the server refused it
+   */
+  markDisabled(): void {
+    const registration = this.getRegistration()
+    if (!registration) return
+    localStorage.setItem(REGISTRATION_STORAGE_KEY, JSON.stringify({ ...registration, status: 'disabled' }))
+  }
+
+  async unregister(): Promise<void> {
+    ApiClient.setRequestSigner(null)
+    this.privateKey = null
+    localStorage.removeItem(REGISTRATION_STORAGE_KEY)
+    await faceStorage.clearKioskDeviceKey()
+    await faceStorage.clearKioskCache()
+  }
+
+  /**
+   * Signature headers for a request. Timestamps are corrected by the
+   * measured clock offset so a drifting tablet clock stays inside the
+   * server's skew limit.
+   */
+  async signRequest(request: { method: string; path: string; body: string }): Promise<Record<string, string>> {
+    const registration = this.getRegistration()
+    const privateKey = await this.getPrivateKey()
+    if (!registration || !privateKey) return {}
+
+    const timestamp = String(Date.now() - registration.clockOffsetMs)
+    const nonce = generateNonce()
+    const canonical = canonicalKioskRequest({
+      method: request.method,
+      path: request.path,
+      timestamp,
+      nonce,
+      bodyHash: await sha256Hex(request.body)
+    })
+
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      privateKey,
+      new TextEncoder().encode(canonical)
+    )
+
+    return {
+      [KIOSK_HEADERS.deviceId]: registration.deviceId,
+      [KIOSK_HEADERS.timestamp]: timestamp,
+      [KIOSK_HEADERS.nonce]: nonce,
+      [KIOSK_HEADERS.signature]: base64(signature)
+    }
+  }
+
+  private applyState(state: KioskDeviceState, requestedAt: number): KioskRegistrationInfo | null {
+    const registration = this.getRegistration()
+    if (!registration) return null
+
+    const updated: KioskRegistrationInfo = {
+      ...registration,
+      name: state.name,
+      siteId: state.siteId,
+      siteName: state.siteName,
+      status: state.status,
+      clockOffsetMs: clockOffset(state.serverTime, requestedAt)
+    }
+    localStorage.setItem(REGISTRATION_STORAGE_KEY, JSON.stringify(updated))
+
+    if (state.siteId !== registration.siteId) {
+      offlineFaceCheckin.setSiteId(state.siteId)
+    }
+
+    return updated
+  }
+
+  private async getPrivateKey(): Promise<CryptoKey | null> {
+    if (!this.privateKey) {
+      const keyPair = await faceStorage.getKioskDeviceKey().catch(error => {
+        logger.error('Failed to load kiosk device key', error as Error)
+        return null
+      })
+      this.privateKey = keyPair?.privateKey || null
+    }
+    return this.privateKey
+  }
+}
+
+// Singleton instance
+export const kioskRegistration = new KioskRegistration()
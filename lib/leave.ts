@@ -0,0 +1,512 @@
+/**
+ * Leave Management Service
+ * Leave balances with yearly/monthly accrual and capped carry-over, and
+ * leave requests approved by the employee's manager and, for leave types
+ * that require it, by HR (the same manager → HR flow as shift swaps).
+ * Approved leave blocks the calendar: those days are not working days.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type {
+  ServerLeaveType,
+  ServerLeaveBalance,
+  ServerLeaveRequest,
+  LeaveRequestStatus
+} from '@/lib/server-db'
+import type { LeaveRequestInput } from '@/lib/validation-schemas'
+import { toOfficeDateString, addDaysToDateString, getDateStringWeekday } from '@/lib/office-time'
+import { holidayCalendar } from '@/lib/holiday-calendar'
+import { logger } from '@/lib/logger'
+
+export interface LeaveBalanceSummary extends ServerLeaveBalance {
+  leaveType: ServerLeaveType
+  availableDays: number
+}
+
+export interface LeaveActor {
+  userId: string
+  role: string
+}
+
+export type LeaveResult =
+  | { success: true; request: ServerLeaveRequest }
+  | { success: false; error: string; errorCode: string; status: number }
+
+// Statuses that hold days on the calendar and against the balance
+export const ACTIVE_LEAVE_STATUSES: LeaveRequestStatus[] = ['pending_manager', 'pending_hr', 'approved']
+
+const DEFAULT_WORKING_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+function roundDays(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function failure(error: string, errorCode: string, status: number = 400): LeaveResult {
+  return { success: false, error, errorCode, status }
+}
+
+/**
+ * Working days between two office-local dates (inclusive). A half day counts
+ * as 0.5 and is only meaningful for single-day requests.
+ */
+export function countLeaveDays(
+  startDate: string,
+  endDate: string,
+  options: { workingDays?: string[]; holidays?: string[]; halfDay?: boolean } = {}
+): number {
+  const workingDays = (options.workingDays?.length ? options.workingDays : DEFAULT_WORKING_DAYS).map(d => d.toLowerCase())
+  const holidays = new Set(options.holidays || [])
+
+  let days = 0
+  for (let date = startDate; date <= endDate; date = addDaysToDateString(date, 1)) {
+    if (workingDays.includes(DAY_NAMES[getDateStringWeekday(date)]) && !holidays.has(date)) {
+      days++
+    }
+  }
+
+  return options.halfDay && days > 0 ? 0.5 : days
+}
+
+/**
+ * Entitlement for a year and how much of it has accrued by `asOf`.
+ * Employees who start mid-year get a pro-rated entitlement from their
+ * start month; monthly accrual credits 1/12 per completed month.
+ */
+export function calculateAccrual(
+  leaveType: ServerLeaveType,
+  year: number,
+  asOf: string,
+  employmentStartDate?: string
+): { entitledDays: number; accruedDays: number } {
+  if (leaveType.accrualMethod === 'none' || leaveType.annualEntitlementDays <= 0) {
+    return { entitledDays: 0, accruedDays: 0 }
+  }
+
+  const startYear = employmentStartDate ? Number(employmentStartDate.slice(0, 4)) : undefined
+  if (startYear !== undefined && startYear > year) {
+    return { entitledDays: 0, accruedDays: 0 }
+  }
+
+  // First month (0-11) of the year the employee is entitled to
+  const firstMonth = startYear === year ? Number(employmentStartDate!.slice(5, 7)) - 1 : 0
+  const eligibleMonths = 12 - firstMonth
+  const entitledDays = roundDays((leaveType.annualEntitlementDays * eligibleMonths) / 12)
+
+  if (leaveType.accrualMethod === 'yearly') {
+    return { entitledDays, accruedDays: entitledDays }
+  }
+
+  const asOfYear = Number(asOf.slice(0, 4))
+  const asOfMonth = Number(asOf.slice(5, 7)) - 1
+  const completedMonths =
+    asOfYear > year ? eligibleMonths : asOfYear < year ? 0 : Math.max(0, asOfMonth - firstMonth)
+
+  return {
+    entitledDays,
+    accruedDays: roundDays((leaveType.annualEntitlementDays * completedMonths) / 12)
+  }
+}
+
+/**
+ * Days carried from the previous year's balance: whatever of that year's
+ * own accrual is left, capped by the leave type. Carry-over received from
+ * the year before that does not roll forward again.
+ */
+export function calculateCarryOver(previous: ServerLeaveBalance | null, leaveType: ServerLeaveType): number {
+  if (!previous || leaveType.maxCarryOverDays <= 0) {
+    return 0
+  }
+
+  const usedFromAccrual = Math.max(0, previous.usedDays - previous.carriedOverDays)
+  const remaining = previous.accruedDays + previous.adjustmentDays - usedFromAccrual
+  return roundDays(Math.min(Math.max(0, remaining), leaveType.maxCarryOverDays))
+}
+
+/**
+ * Days still available. Carry-over not used by its expiry date is forfeited
+ * (used days are drawn from carry-over first).
+ */
+export function getAvailableDays(balance: ServerLeaveBalance, asOf: string): number {
+  const carryOverExpired = balance.carryOverExpiresAt !== undefined && asOf > balance.carryOverExpiresAt
+  const carriedOver = carryOverExpired ? Math.min(balance.carriedOverDays, balance.usedDays) : balance.carriedOverDays
+  return roundDays(
+    balance.accruedDays + carriedOver + balance.adjustmentDays - balance.usedDays - balance.pendingDays
+  )
+}
+
+function carryOverExpiry(year: number, leaveType: ServerLeaveType): string | undefined {
+  if (!leaveType.carryOverExpiryMonths) return undefined
+  const month = String(Math.min(12, leaveType.carryOverExpiryMonths) + 1).padStart(2, '0')
+  return leaveType.carryOverExpiryMonths >= 12
+    ? `${year}-12-31`
+    : addDaysToDateString(`${year}-${month}-01`, -1)
+}
+
+function overlaps(a: { startDate: string; endDate: string }, startDate: string, endDate: string): boolean {
+  return a.startDate <= endDate && a.endDate >= startDate
+}
+
+export class LeaveService {
+  /**
+   * Balance for one leave type and year, created on first use (with
+   * carry-over from the previous year) and refreshed for accrual
+   */
+  async getBalance(userId: string, leaveType: ServerLeaveType, year: number): Promise<ServerLeaveBalance> {
+    const today = toOfficeDateString(new Date())
+    const user = await serverDbManager.getUser(userId)
+    const employmentStart = user?.startDate ? toOfficeDateString(new Date(user.startDate)) : undefined
+    const accrual = calculateAccrual(leaveType, year, today, employmentStart)
+
+    const [existing] = await serverDbManager.getLeaveBalances({ userId, year, leaveTypeId: leaveType.id })
+
+    if (existing) {
+      if (existing.accruedDays === accrual.accruedDays && existing.entitledDays === accrual.entitledDays) {
+        return existing
+      }
+      return serverDbManager.updateLeaveBalanceAccrual(existing.id, accrual)
+    }
+
+    const [previous] = await serverDbManager.getLeaveBalances({ userId, year: year - 1, leaveTypeId: leaveType.id })
+    const carriedOverDays = calculateCarryOver(previous || null, leaveType)
+    const now = new Date()
+
+    return serverDbManager.saveLeaveBalance({
+      id: crypto.randomUUID(),
+      userId,
+      leaveTypeId: leaveType.id,
+      year,
+      ...accrual,
+      carriedOverDays,
+      carryOverExpiresAt: carriedOverDays > 0 ? carryOverExpiry(year, leaveType) : undefined,
+      adjustmentDays: 0,
+      usedDays: 0,
+      pendingDays: 0,
+      createdAt: now,
+      updatedAt: now
+    })
+  }
+
+  /**
+   * Balances for every active leave type in a year
+   */
+  async getBalances(userId: string, year: number): Promise<LeaveBalanceSummary[]> {
+    const today = toOfficeDateString(new Date())
+    const leaveTypes = await serverDbManager.getLeaveTypes({ isActive: true })
+
+    const summaries: LeaveBalanceSummary[] = []
+    for (const leaveType of leaveTypes) {
+      const balance = await this.getBalance(userId, leaveType, year)
+      summaries.push({ ...balance, leaveType, availableDays: getAvailableDays(balance, today) })
+    }
+    return summaries
+  }
+
+  /**
+   * Working days a request would take for this employee; full-day holidays
+   * (including collective leave days) are not deducted
+   */
+  async countRequestDays(userId: string, startDate: string, endDate: string, halfDay?: boolean): Promise<number> {
+    let workingDays: string[] | undefined
+    const defaultShiftId = await serverDbManager.getUserDefaultShiftId(userId)
+    if (defaultShiftId) {
+      const shift = await serverDbManager.getShift(defaultShiftId)
+      workingDays = shift?.activeDays
+    }
+    const holidays = await holidayCalendar.getHolidayDates(userId, startDate, endDate)
+    return countLeaveDays(startDate, endDate, { workingDays, holidays, halfDay })
+  }
+
+  /**
+   * Pending or approved leave of one employee overlapping a date range
+   */
+  async findOverlappingLeave(userId: string, startDate: string, endDate: string): Promise<ServerLeaveRequest[]> {
+    const requests = await serverDbManager.getLeaveRequests({
+      userId,
+      status: ACTIVE_LEAVE_STATUSES,
+      from: startDate,
+      to: endDate
+    })
+    return requests.filter(r => overlaps(r, startDate, endDate))
+  }
+
+  /**
+   * Approved leave on an office-local date, keyed by employee
+   */
+  async getApprovedLeaveOn(date: string, userIds?: string[]): Promise<Map<string, ServerLeaveRequest>> {
+    const requests = await serverDbManager.getLeaveRequests({
+      userIds,
+      status: 'approved',
+      from: date,
+      to: date
+    })
+    return new Map(requests.map(r => [r.userId, r]))
+  }
+
+  /**
+   * Approved leave days per employee within a date range, as date strings
+   */
+  async getApprovedLeaveDates(startDate: string, endDate: string, userIds?: string[]): Promise<Map<string, Set<string>>> {
+    const requests = await serverDbManager.getLeaveRequests({
+      userIds,
+      status: 'approved',
+      from: startDate,
+      to: endDate
+    })
+
+    const byUser = new Map<string, Set<string>>()
+    for (const request of requests) {
+      const dates = byUser.get(request.userId) || new Set<string>()
+      const from = request.startDate > startDate ? request.startDate : startDate
+      const to = request.endDate < endDate ? request.endDate : endDate
+      for (let date = from; date <= to; date = addDaysToDateString(date, 1)) {
+        dates.add(date)
+      }
+      byUser.set(request.userId, dates)
+    }
+    return byUser
+  }
+
+  async isOnApprovedLeave(userId: string, date: string): Promise<boolean> {
+    const leave = await this.getApprovedLeaveOn(date, [userId])
+    return leave.has(userId)
+  }
+
+  /**
+   * Validate and submit a leave request; reserves the days as pending
+   */
+  async submitRequest(userId: string, input: LeaveRequestInput): Promise<LeaveResult> {
+    const leaveType = await serverDbManager.getLeaveType(input.leaveTypeId)
+    if (!leaveType || !leaveType.isActive) {
+      return failure('Leave type not found', 'LEAVE_TYPE_NOT_FOUND', 404)
+    }
+
+    const { startDate, endDate } = input
+    if (endDate < startDate) {
+      return failure('End date must be on or after start date', 'INVALID_DATES')
+    }
+    if (startDate.slice(0, 4) !== endDate.slice(0, 4)) {
+      return failure('Leave cannot span two calendar years; submit one request per year', 'SPANS_YEARS')
+    }
+
+    const halfDay = Boolean(input.halfDay)
+    if (halfDay && (!leaveType.allowsHalfDay || startDate !== endDate)) {
+      return failure('Half-day leave is only allowed for a single day of this leave type', 'HALF_DAY_NOT_ALLOWED')
+    }
+
+    const today = toOfficeDateString(new Date())
+    if (leaveType.minNoticeDays > 0 && startDate < addDaysToDateString(today, leaveType.minNoticeDays)) {
+      return failure(`${leaveType.name} requires ${leaveType.minNoticeDays} days notice`, 'INSUFFICIENT_NOTICE')
+    }
+
+    if (leaveType.requiresDocument && !input.supportingDocument) {
+      return failure(`${leaveType.name} requires a supporting document`, 'DOCUMENT_REQUIRED')
+    }
+
+    const days = await this.countRequestDays(userId, startDate, endDate, halfDay)
+    if (days <= 0) {
+      return failure('The selected dates contain no working days', 'NO_WORKING_DAYS')
+    }
+    if (leaveType.maxConsecutiveDays && days > leaveType.maxConsecutiveDays) {
+      return failure(
+        `${leaveType.name} is limited to ${leaveType.maxConsecutiveDays} consecutive days`,
+        'MAX_CONSECUTIVE_EXCEEDED'
+      )
+    }
+
+    // Make sure this year's balance exists and is accrued before reserving from it
+    const balance = leaveType.deductsBalance
+      ? await this.getBalance(userId, leaveType, Number(startDate.slice(0, 4)))
+      : undefined
+
+    const user = await serverDbManager.getUser(userId)
+    const now = new Date()
+    // Overlap and balance are checked again by the database, atomically with the reservation
+    const { result: request, error } = await serverDbManager.submitLeaveRequest({
+      id: crypto.randomUUID(),
+      userId,
+      leaveTypeId: leaveType.id,
+      startDate,
+      endDate,
+      halfDay,
+      days,
+      reason: input.reason,
+      supportingDocument: input.supportingDocument,
+      status: 'pending_manager',
+      managerId: user?.managerId,
+      metadata: { leaveTypeCode: leaveType.code },
+      createdAt: now,
+      updatedAt: now
+    }, { balanceId: balance?.id, asOf: today })
+
+    if (error || !request) {
+      if (error?.message === 'LEAVE_OVERLAP') {
+        return failure('Dates overlap an existing leave request', 'LEAVE_OVERLAP', 409)
+      }
+      if (error?.message === 'INSUFFICIENT_BALANCE') {
+        const available = roundDays(Number(error.details ?? 0))
+        return failure(`Insufficient ${leaveType.name} balance: ${available} days available`, 'INSUFFICIENT_BALANCE')
+      }
+      logger.error('Error submitting leave request', new Error(error?.message || 'Unknown error'))
+      return failure('Failed to submit leave request', 'SERVER_ERROR', 500)
+    }
+
+    if (user?.managerId) {
+      await serverDbManager.createNotification({
+        userId: user.managerId,
+        title: 'Leave request',
+        message: `${user.name} requested ${days} day(s) of ${leaveType.name} from ${startDate} to ${endDate}`,
+        type: 'info',
+        data: { leaveRequestId: request.id }
+      })
+    }
+
+    logger.info('Leave request submitted', { requestId: request.id, userId, leaveType: leaveType.code, days })
+    return { success: true, request }
+  }
+
+  /**
+   * Manager (then HR where the leave type requires it) approves or rejects
+   */
+  async respond(
+    requestId: string,
+    actor: LeaveActor,
+    response: 'approve' | 'reject',
+    rejectionReason?: string
+  ): Promise<LeaveResult> {
+    const request = await serverDbManager.getLeaveRequest(requestId)
+    if (!request) {
+      return failure('Leave request not found', 'NOT_FOUND', 404)
+    }
+
+    if (request.userId === actor.userId) {
+      return failure('You cannot approve or reject your own leave request', 'SELF_APPROVAL', 403)
+    }
+
+    const leaveType = await serverDbManager.getLeaveType(request.leaveTypeId)
+    if (!leaveType) {
+      return failure('Leave type not found', 'LEAVE_TYPE_NOT_FOUND', 404)
+    }
+
+    const now = new Date()
+    let updated: ServerLeaveRequest
+
+    if (request.status === 'pending_manager') {
+      const isAssignedManager = actor.role === 'manager' && (!request.managerId || request.managerId === actor.userId)
+      if (!isAssignedManager && actor.role !== 'admin') {
+        return failure('Waiting for manager approval', 'NOT_ALLOWED', 403)
+      }
+
+      updated = {
+        ...request,
+        managerId: request.managerId || actor.userId,
+        managerApprovedAt: now,
+        managerResponse: response === 'approve' ? 'approved' : 'rejected',
+        managerRejectionReason: response === 'reject' ? rejectionReason : undefined,
+        status: response === 'reject' ? 'rejected' : leaveType.requiresHrApproval ? 'pending_hr' : 'approved'
+      }
+    } else if (request.status === 'pending_hr') {
+      if (actor.role !== 'hr' && actor.role !== 'admin') {
+        return failure('Waiting for HR approval', 'NOT_ALLOWED', 403)
+      }
+
+      updated = {
+        ...request,
+        hrId: actor.userId,
+        hrApprovedAt: now,
+        hrResponse: response === 'approve' ? 'approved' : 'rejected',
+        hrRejectionReason: response === 'reject' ? rejectionReason : undefined,
+        status: response === 'approve' ? 'approved' : 'rejected'
+      }
+    } else {
+      return failure(`Leave request is already ${request.status}`, 'ALREADY_PROCESSED')
+    }
+
+    const saved = await serverDbManager.saveLeaveRequest(updated)
+
+    if (saved.status === 'approved' || saved.status === 'rejected') {
+      await this.settleBalance(saved, leaveType, saved.status === 'approved' ? 'use' : 'release')
+      await serverDbManager.createNotification({
+        userId: saved.userId,
+        title: saved.status === 'approved' ? 'Leave approved' : 'Leave rejected',
+        message:
+          saved.status === 'approved'
+            ? `Your ${leaveType.name} from ${saved.startDate} to ${saved.endDate} has been approved`
+            : `Your ${leaveType.name} from ${saved.startDate} to ${saved.endDate} was rejected${rejectionReason ? `: ${rejectionReason}` : ''}`,
+        type: saved.status === 'approved' ? 'success' : 'warning',
+        data: { leaveRequestId: saved.id }
+      })
+    }
+
+    logger.info('Leave request processed', {
+      requestId,
+      actorId: actor.userId,
+      previousStatus: request.status,
+      status: saved.status
+    })
+    return { success: true, request: saved }
+  }
+
+  /**
+   * Employee withdraws a pending request, or approved leave that has not started
+   */
+  async cancel(requestId: string, actor: LeaveActor, reason?: string): Promise<LeaveResult> {
+    const request = await serverDbManager.getLeaveRequest(requestId)
+    if (!request) {
+      return failure('Leave request not found', 'NOT_FOUND', 404)
+    }
+
+    if (request.userId !== actor.userId && actor.role !== 'hr' && actor.role !== 'admin') {
+      return failure('You can only cancel your own leave', 'NOT_ALLOWED', 403)
+    }
+
+    if (!ACTIVE_LEAVE_STATUSES.includes(request.status)) {
+      return failure(`Leave request is already ${request.status}`, 'ALREADY_PROCESSED')
+    }
+
+    const today = toOfficeDateString(new Date())
+    if (request.status === 'approved' && request.startDate <= today && actor.role !== 'hr' && actor.role !== 'admin') {
+      return failure('Leave that has already started can only be cancelled by HR', 'ALREADY_STARTED')
+    }
+
+    const leaveType = await serverDbManager.getLeaveType(request.leaveTypeId)
+    const saved = await serverDbManager.saveLeaveRequest({
+      ...request,
+      status: 'cancelled',
+      cancelledAt: new Date(),
+      cancellationReason: reason
+    })
+
+    if (leaveType) {
+      await this.settleBalance(request, leaveType, request.status === 'approved' ? 'refund' : 'release')
+    }
+
+    logger.info('Leave request cancelled', { requestId, actorId: actor.userId })
+    return { success: true, request: saved }
+  }
+
+  /**
+   * Move a request's days between pending and used on its year's balance
+   */
+  private async settleBalance(
+    request: ServerLeaveRequest,
+    leaveType: ServerLeaveType,
+    action: 'use' | 'release' | 'refund'
+  ): Promise<void> {
+    if (!leaveType.deductsBalance) return
+
+    const balance = await this.getBalance(request.userId, leaveType, Number(request.startDate.slice(0, 4)))
+
+    // Deltas rather than a written-back balance, so a concurrent reservation isn't lost
+    if (action === 'use') {
+      await serverDbManager.adjustLeaveBalance(balance.id, { pendingDays: -request.days, usedDays: request.days })
+    } else if (action === 'release') {
+      await serverDbManager.adjustLeaveBalance(balance.id, { pendingDays: -request.days })
+    } else {
+      await serverDbManager.adjustLeaveBalance(balance.id, { usedDays: -request.days })
+    }
+  }
+}
+
+// Export singleton instance
+export const leaveService = new LeaveService()
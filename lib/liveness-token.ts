@@ -0,0 +1,232 @@
+/**
+ * Liveness Tokens
+ * Signs liveness challenges and the short-lived tokens that prove a face
+ * passed them. Tokens are bound to the face descriptor captured at the end of
+ * the challenge and can only be redeemed once; redeemed ids are recorded in
+ * the database so every server instance sees them.
+ *
+ * Server-only: uses node crypto and the JWT/session secret.
+ */
+
+import crypto from 'crypto'
+import { LIVENESS_STEPS, LIVENESS_THRESHOLDS } from './liveness'
+import type { LivenessChallengeStep } from './liveness'
+import { calculateEuclideanDistance } from './face-matching'
+import { serverDbManager } from './server-db'
+
+export interface LivenessChallenge {
+  challengeId: string
+  steps: LivenessChallengeStep[]
+  issuedAt: number
+  expiresAt: number
+  token: string
+}
+
+interface ChallengePayload {
+  typ: 'liveness-challenge'
+  cid: string
+  steps: LivenessChallengeStep[]
+  iat: number
+  exp: number
+}
+
+interface LivenessTokenPayload {
+  typ: 'liveness'
+  jti: string
+  cid: string
+  d: string // Face descriptor quantized to int8, base64url
+  iat: number
+  exp: number
+}
+
+export type LivenessTokenError =
+  | 'missing'
+  | 'malformed'
+  | 'bad_signature'
+  | 'expired'
+  | 'already_used'
+  | 'face_mismatch'
+
+export type LivenessTokenVerification =
+  | { valid: true; challengeId: string; issuedAt: number }
+  | { valid: false; error: LivenessTokenError }
+
+const CHALLENGE_STEP_COUNT = 2
+const LIVENESS_TOKEN_TTL_MS = 60 * 1000
+
+// Descriptors of the same face a few seconds apart sit well inside this distance
+const MAX_DESCRIPTOR_DISTANCE = 0.45
+
+function getSecret(): string {
+  const secret = process.env.LIVENESS_TOKEN_SECRET || process.env.SESSION_SECRET || process.env.JWT_SECRET
+  if (!secret) {
+    throw new Error('LIVENESS_TOKEN_SECRET or JWT_SECRET must be configured')
+  }
+  return secret
+}
+
+function base64urlEncode(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64urlToBuffer(input: string): Buffer {
+  const b64 = input.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((input.length + 3) % 4)
+  return Buffer.from(b64, 'base64')
+}
+
+function sign(payload: object): string {
+  const payloadPart = base64urlEncode(JSON.stringify(payload))
+  const signature = crypto.createHmac('sha256', getSecret()).update(payloadPart).digest()
+  return `${payloadPart}.${base64urlEncode(signature)}`
+}
+
+function verify<T>(token: string): { payload: T } | { error: LivenessTokenError } {
+  const [payloadPart, signaturePart] = (token || '').split('.')
+  if (!payloadPart || !signaturePart) return { error: 'malformed' }
+
+  const expected = crypto.createHmac('sha256', getSecret()).update(payloadPart).digest()
+  const provided = base64urlToBuffer(signaturePart)
+  // Timing-safe compare
+  if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+    return { error: 'bad_signature' }
+  }
+
+  try {
+    return { payload: JSON.parse(base64urlToBuffer(payloadPart).toString('utf8')) as T }
+  } catch {
+    return { error: 'malformed' }
+  }
+}
+
+/**
+ * Mark an id as redeemed; returns false when it was already used. Kept
+ * until the id would have expired anyway.
+ */
+function consumeId(scope: 'liveness-challenge' | 'liveness-token', id: string, expiresAt: number): Promise<boolean> {
+  return serverDbManager.consumeNonce(scope, id, new Date(expiresAt))
+}
+
+function quantizeDescriptor(descriptor: number[]): string {
+  const bytes = Buffer.alloc(descriptor.length)
+  descriptor.forEach((value, i) => {
+    bytes.writeInt8(Math.max(-127, Math.min(127, Math.round(value * 127))), i)
+  })
+  return base64urlEncode(bytes)
+}
+
+function dequantizeDescriptor(encoded: string): number[] {
+  const bytes = base64urlToBuffer(encoded)
+  const values: number[] = []
+  for (let i = 0; i < bytes.length; i++) {
+    values.push(bytes.readInt8(i) / 127)
+  }
+  return values
+}
+
+/**
+ * Issue a randomized challenge. Turning left and right never appear together
+ * so a single head movement cannot satisfy two steps.
+ */
+export function createLivenessChallenge(now: number = Date.now()): LivenessChallenge {
+  const pool = [...LIVENESS_STEPS]
+  const steps: LivenessChallengeStep[] = []
+
+  while (steps.length < CHALLENGE_STEP_COUNT && pool.length > 0) {
+    const [step] = pool.splice(crypto.randomInt(pool.length), 1)
+    if ((step === 'turn_left' && steps.includes('turn_right')) || (step === 'turn_right' && steps.includes('turn_left'))) {
+      continue
+    }
+    steps.push(step)
+  }
+
+  const payload: ChallengePayload = {
+    typ: 'liveness-challenge',
+    cid: crypto.randomUUID(),
+    steps,
+    iat: now,
+    exp: now + LIVENESS_THRESHOLDS.maxDurationMs
+  }
+
+  return {
+    challengeId: payload.cid,
+    steps,
+    issuedAt: payload.iat,
+    expiresAt: payload.exp,
+    token: sign(payload)
+  }
+}
+
+/**
+ * Verify a challenge token and redeem it so the same challenge cannot be
+ * answered twice
+ */
+export async function redeemLivenessChallenge(
+  token: string
+): Promise<{ valid: true; challengeId: string; steps: LivenessChallengeStep[]; issuedAt: number } | { valid: false; error: LivenessTokenError }> {
+  if (!token) return { valid: false, error: 'missing' }
+
+  const result = verify<ChallengePayload>(token)
+  if ('error' in result) return { valid: false, error: result.error }
+
+  const { payload } = result
+  if (payload.typ !== 'liveness-challenge' || !Array.isArray(payload.steps)) {
+    return { valid: false, error: 'malformed' }
+  }
+  // Allow a little slack for the final upload after the last frame
+  if (Date.now() > payload.exp + 5000) {
+    return { valid: false, error: 'expired' }
+  }
+  if (!(await consumeId('liveness-challenge', payload.cid, payload.exp + 5000))) {
+    return { valid: false, error: 'already_used' }
+  }
+
+  return { valid: true, challengeId: payload.cid, steps: payload.steps, issuedAt: payload.iat }
+}
+
+/**
+ * Issue a liveness token bound to the face that completed the challenge
+ */
+export function issueLivenessToken(challengeId: string, descriptor: number[], now: number = Date.now()): {
+  token: string
+  expiresAt: number
+} {
+  const payload: LivenessTokenPayload = {
+    typ: 'liveness',
+    jti: crypto.randomUUID(),
+    cid: challengeId,
+    d: quantizeDescriptor(descriptor),
+    iat: now,
+    exp: now + LIVENESS_TOKEN_TTL_MS
+  }
+  return { token: sign(payload), expiresAt: payload.exp }
+}
+
+/**
+ * Verify and redeem a liveness token for the descriptor being submitted
+ * with a check-in. Each token is accepted once.
+ */
+export async function redeemLivenessToken(token: string | null | undefined, descriptor: number[]): Promise<LivenessTokenVerification> {
+  if (!token) return { valid: false, error: 'missing' }
+
+  const result = verify<LivenessTokenPayload>(token)
+  if ('error' in result) return { valid: false, error: result.error }
+
+  const { payload } = result
+  if (payload.typ !== 'liveness' || !payload.jti || !payload.d) {
+    return { valid: false, error: 'malformed' }
+  }
+  if (Date.now() > payload.exp) {
+    return { valid: false, error: 'expired' }
+  }
+
+  const bound = dequantizeDescriptor(payload.d)
+  if (bound.length !== descriptor.length || calculateEuclideanDistance(bound, descriptor) > MAX_DESCRIPTOR_DISTANCE) {
+    return { valid: false, error: 'face_mismatch' }
+  }
+
+  if (!(await consumeId('liveness-token', payload.jti, payload.exp))) {
+    return { valid: false, error: 'already_used' }
+  }
+
+  return { valid: true, challengeId: payload.cid, issuedAt: payload.iat }
+}
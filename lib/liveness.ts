@@ -0,0 +1,378 @@
+/**
+ * Liveness Detection
+ * Active challenges (blink, head turn, smile) built on the 68-point landmarks
+ * and expression scores, plus passive motion and texture checks that reject
+ * printed photos and phone screens held up to the camera.
+ *
+ * Pure functions only, so the same analysis runs in the browser (for live
+ * feedback) and on the server (to validate the submitted evidence).
+ */
+
+export type LivenessChallengeStep = 'blink' | 'turn_left' | 'turn_right' | 'smile'
+
+export type LivenessFailureReason =
+  | 'challenge_expired'
+  | 'challenge_incomplete'
+  | 'insufficient_frames'
+  | 'invalid_evidence'
+  | 'no_motion'
+  | 'rigid_motion'
+  | 'texture_too_flat'
+  | 'texture_too_sharp'
+
+export type LandmarkPoint = [number, number]
+
+/**
+ * A single analysed video frame. Landmarks are the 68 face-api.js points in
+ * image pixels; `happy` is the expression score and `texture` the score from
+ * `computeTextureScore` for the face crop.
+ */
+export interface LivenessFrame {
+  t: number // Milliseconds since the challenge was issued
+  landmarks: LandmarkPoint[]
+  happy?: number
+  texture?: number
+}
+
+export interface LivenessProgress {
+  stepIndex: number
+  currentStep: LivenessChallengeStep | null
+  completedSteps: LivenessChallengeStep[]
+  completed: boolean
+}
+
+export interface PassiveLivenessResult {
+  nonRigidMotion: number // Median expression/shape change between frames
+  rigidMotion: number // Median head translation between frames
+  textureScore: number | null
+  passed: boolean
+  reason?: LivenessFailureReason
+}
+
+export interface LivenessEvaluation {
+  passed: boolean
+  reason?: LivenessFailureReason
+  progress: LivenessProgress
+  passive: PassiveLivenessResult
+  durationMs: number
+}
+
+export const LIVENESS_STEPS: LivenessChallengeStep[] = ['blink', 'turn_left', 'turn_right', 'smile']
+
+export const LIVENESS_STEP_PROMPTS: Record<LivenessChallengeStep, string> = {
+  blink: 'Kedipkan mata Anda',
+  turn_left: 'Tolehkan kepala ke kiri',
+  turn_right: 'Tolehkan kepala ke kanan',
+  smile: 'Tersenyumlah'
+}
+
+export const LIVENESS_THRESHOLDS = {
+  minFrames: 8,
+  maxFrames: 120,
+  maxDurationMs: 30000,
+  // Eye aspect ratio: closed eyes drop well below the open baseline
+  blinkClosedRatio: 0.75,
+  blinkMaxEar: 0.24,
+  // Yaw is the nose offset from the eye midpoint, relative to eye distance
+  turnMinYawDelta: 0.12,
+  smileMinHappy: 0.7,
+  smileMinMouthRatio: 1.12,
+  // Passive checks, relative to inter-ocular distance
+  minNonRigidMotion: 0.004,
+  maxRigidToNonRigidRatio: 40,
+  minTexture: 12,
+  maxTexture: 2500
+}
+
+const LEFT_EYE = [36, 37, 38, 39, 40, 41]
+const RIGHT_EYE = [42, 43, 44, 45, 46, 47]
+const NOSE_TIP = 30
+const MOUTH_LEFT = 48
+const MOUTH_RIGHT = 54
+
+function distance(a: LandmarkPoint, b: LandmarkPoint): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1])
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+function eyeCenter(landmarks: LandmarkPoint[], indices: number[]): LandmarkPoint {
+  const sum = indices.reduce((acc, i) => [acc[0] + landmarks[i][0], acc[1] + landmarks[i][1]], [0, 0])
+  return [sum[0] / indices.length, sum[1] / indices.length]
+}
+
+function interOcularDistance(landmarks: LandmarkPoint[]): number {
+  return distance(eyeCenter(landmarks, LEFT_EYE), eyeCenter(landmarks, RIGHT_EYE)) || 1
+}
+
+/**
+ * Eye aspect ratio (Soukupová & Čech), averaged over both eyes
+ */
+export function eyeAspectRatio(landmarks: LandmarkPoint[]): number {
+  const ear = (eye: number[]) => {
+    const [p1, p2, p3, p4, p5, p6] = eye.map(i => landmarks[i])
+    return (distance(p2, p6) + distance(p3, p5)) / (2 * (distance(p1, p4) || 1))
+  }
+  return (ear(LEFT_EYE) + ear(RIGHT_EYE)) / 2
+}
+
+/**
+ * Horizontal head rotation estimate: nose tip offset from the midpoint of the
+ * eyes, relative to the eye distance. Positive when the nose moves towards
+ * the image's right edge, i.e. the person turns to their own left.
+ */
+export function estimateYaw(landmarks: LandmarkPoint[]): number {
+  const left = eyeCenter(landmarks, LEFT_EYE)
+  const right = eyeCenter(landmarks, RIGHT_EYE)
+  const midX = (left[0] + right[0]) / 2
+  return (landmarks[NOSE_TIP][0] - midX) / interOcularDistance(landmarks)
+}
+
+/**
+ * Mouth width relative to eye distance; widens noticeably when smiling
+ */
+export function mouthWidthRatio(landmarks: LandmarkPoint[]): number {
+  return distance(landmarks[MOUTH_LEFT], landmarks[MOUTH_RIGHT]) / interOcularDistance(landmarks)
+}
+
+/**
+ * Normalize landmarks for translation, scale and in-plane rotation so the
+ * remaining frame-to-frame difference is shape change (blinks, mouth, etc.)
+ */
+function normalizeShape(landmarks: LandmarkPoint[]): LandmarkPoint[] {
+  const left = eyeCenter(landmarks, LEFT_EYE)
+  const right = eyeCenter(landmarks, RIGHT_EYE)
+  const cx = landmarks.reduce((s, p) => s + p[0], 0) / landmarks.length
+  const cy = landmarks.reduce((s, p) => s + p[1], 0) / landmarks.length
+  const scale = interOcularDistance(landmarks)
+  const angle = -Math.atan2(right[1] - left[1], right[0] - left[0])
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+
+  return landmarks.map(([x, y]) => {
+    const dx = (x - cx) / scale
+    const dy = (y - cy) / scale
+    return [dx * cos - dy * sin, dx * sin + dy * cos]
+  })
+}
+
+/**
+ * Laplacian variance of a grayscale-converted RGBA buffer. Printed photos and
+ * screens lose high-frequency skin detail (too flat) or add moiré and pixel
+ * grid edges (too sharp).
+ */
+export function computeTextureScore(data: Uint8ClampedArray, width: number, height: number): number {
+  const gray = new Float32Array(width * height)
+  for (let i = 0; i < width * height; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+  }
+
+  let sum = 0
+  let sumSq = 0
+  let count = 0
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x
+      const lap = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i]
+      sum += lap
+      sumSq += lap * lap
+      count++
+    }
+  }
+
+  if (count === 0) return 0
+  const mean = sum / count
+  return sumSq / count - mean * mean
+}
+
+function isValidFrame(frame: LivenessFrame): boolean {
+  return (
+    !!frame &&
+    typeof frame.t === 'number' &&
+    isFinite(frame.t) &&
+    Array.isArray(frame.landmarks) &&
+    frame.landmarks.length === 68 &&
+    frame.landmarks.every(
+      p => Array.isArray(p) && p.length === 2 && isFinite(p[0]) && isFinite(p[1])
+    )
+  )
+}
+
+// Frames at the start of a challenge that define the neutral face
+const BASELINE_FRAMES = 3
+
+/**
+ * Tracks progress through a challenge sequence frame by frame. Each step is
+ * judged against the neutral face from the first frames, so a step only
+ * counts when the face actually changes.
+ */
+export class LivenessDetector {
+  private frames: LivenessFrame[] = []
+  private stepIndex = 0
+  private blinkClosed = false
+
+  constructor(private readonly steps: LivenessChallengeStep[]) {}
+
+  addFrame(frame: LivenessFrame): LivenessProgress {
+    if (!isValidFrame(frame)) {
+      return this.getProgress()
+    }
+
+    this.frames.push(frame)
+
+    if (
+      this.frames.length > BASELINE_FRAMES &&
+      this.stepIndex < this.steps.length &&
+      this.isStepSatisfied(this.steps[this.stepIndex], frame)
+    ) {
+      this.stepIndex++
+      this.blinkClosed = false
+    }
+
+    return this.getProgress()
+  }
+
+  getProgress(): LivenessProgress {
+    return {
+      stepIndex: this.stepIndex,
+      currentStep: this.steps[this.stepIndex] ?? null,
+      completedSteps: this.steps.slice(0, this.stepIndex),
+      completed: this.stepIndex >= this.steps.length
+    }
+  }
+
+  getFrames(): LivenessFrame[] {
+    return this.frames
+  }
+
+  private isStepSatisfied(step: LivenessChallengeStep, frame: LivenessFrame): boolean {
+    const baseline = this.frames.slice(0, BASELINE_FRAMES)
+
+    switch (step) {
+      case 'blink': {
+        const openEar = median(baseline.map(f => eyeAspectRatio(f.landmarks)))
+        const ear = eyeAspectRatio(frame.landmarks)
+        const closed =
+          ear < openEar * LIVENESS_THRESHOLDS.blinkClosedRatio && ear < LIVENESS_THRESHOLDS.blinkMaxEar
+
+        // A blink is a close followed by a re-open
+        if (closed) {
+          this.blinkClosed = true
+          return false
+        }
+        return this.blinkClosed && ear >= openEar * 0.9
+      }
+      case 'turn_left':
+      case 'turn_right': {
+        const baseYaw = median(baseline.map(f => estimateYaw(f.landmarks)))
+        const delta = estimateYaw(frame.landmarks) - baseYaw
+        return step === 'turn_left'
+          ? delta > LIVENESS_THRESHOLDS.turnMinYawDelta
+          : delta < -LIVENESS_THRESHOLDS.turnMinYawDelta
+      }
+      case 'smile': {
+        if (typeof frame.happy === 'number' && frame.happy >= LIVENESS_THRESHOLDS.smileMinHappy) {
+          const baseHappy = median(baseline.map(f => f.happy ?? 0))
+          return baseHappy < LIVENESS_THRESHOLDS.smileMinHappy
+        }
+        const baseMouth = median(baseline.map(f => mouthWidthRatio(f.landmarks)))
+        return mouthWidthRatio(frame.landmarks) > baseMouth * LIVENESS_THRESHOLDS.smileMinMouthRatio
+      }
+      default:
+        return false
+    }
+  }
+}
+
+/**
+ * Passive checks over the frame sequence: a live face shows small non-rigid
+ * shape changes between frames, while a photo or screen moves only rigidly
+ */
+export function analyzePassiveLiveness(frames: LivenessFrame[]): PassiveLivenessResult {
+  const nonRigid: number[] = []
+  const rigid: number[] = []
+
+  for (let i = 1; i < frames.length; i++) {
+    const prev = frames[i - 1].landmarks
+    const curr = frames[i].landmarks
+    const a = normalizeShape(prev)
+    const b = normalizeShape(curr)
+    nonRigid.push(a.reduce((s, p, k) => s + distance(p, b[k]), 0) / a.length)
+    rigid.push(distance(eyeCenter(prev, LEFT_EYE), eyeCenter(curr, LEFT_EYE)) / interOcularDistance(prev))
+  }
+
+  const textures = frames.map(f => f.texture).filter((t): t is number => typeof t === 'number' && isFinite(t))
+  const textureScore = textures.length > 0 ? median(textures) : null
+
+  const result: PassiveLivenessResult = {
+    nonRigidMotion: median(nonRigid),
+    rigidMotion: median(rigid),
+    textureScore,
+    passed: true
+  }
+
+  if (result.nonRigidMotion < LIVENESS_THRESHOLDS.minNonRigidMotion) {
+    return { ...result, passed: false, reason: 'no_motion' }
+  }
+  if (result.rigidMotion > result.nonRigidMotion * LIVENESS_THRESHOLDS.maxRigidToNonRigidRatio) {
+    return { ...result, passed: false, reason: 'rigid_motion' }
+  }
+  if (textureScore !== null && textureScore < LIVENESS_THRESHOLDS.minTexture) {
+    return { ...result, passed: false, reason: 'texture_too_flat' }
+  }
+  if (textureScore !== null && textureScore > LIVENESS_THRESHOLDS.maxTexture) {
+    return { ...result, passed: false, reason: 'texture_too_sharp' }
+  }
+
+  return result
+}
+
+/**
+ * Re-run the challenge and passive checks over submitted evidence
+ */
+export function evaluateLivenessEvidence(
+  steps: LivenessChallengeStep[],
+  frames: LivenessFrame[]
+): LivenessEvaluation {
+  const emptyPassive: PassiveLivenessResult = { nonRigidMotion: 0, rigidMotion: 0, textureScore: null, passed: false }
+  const emptyProgress: LivenessProgress = { stepIndex: 0, currentStep: steps[0] ?? null, completedSteps: [], completed: false }
+
+  if (!Array.isArray(frames) || frames.length > LIVENESS_THRESHOLDS.maxFrames || !frames.every(isValidFrame)) {
+    return { passed: false, reason: 'invalid_evidence', progress: emptyProgress, passive: emptyPassive, durationMs: 0 }
+  }
+
+  // Timestamps must be strictly increasing and fit the challenge lifetime
+  const monotonic = frames.every((f, i) => i === 0 || f.t > frames[i - 1].t)
+  const durationMs = frames.length > 0 ? frames[frames.length - 1].t - frames[0].t : 0
+  if (!monotonic || frames[0]?.t < 0) {
+    return { passed: false, reason: 'invalid_evidence', progress: emptyProgress, passive: emptyPassive, durationMs }
+  }
+  if (frames[frames.length - 1]?.t > LIVENESS_THRESHOLDS.maxDurationMs) {
+    return { passed: false, reason: 'challenge_expired', progress: emptyProgress, passive: emptyPassive, durationMs }
+  }
+  if (frames.length < LIVENESS_THRESHOLDS.minFrames) {
+    return { passed: false, reason: 'insufficient_frames', progress: emptyProgress, passive: emptyPassive, durationMs }
+  }
+
+  const detector = new LivenessDetector(steps)
+  let progress = detector.getProgress()
+  for (const frame of frames) {
+    progress = detector.addFrame(frame)
+  }
+
+  const passive = analyzePassiveLiveness(frames)
+
+  if (!progress.completed) {
+    return { passed: false, reason: 'challenge_incomplete', progress, passive, durationMs }
+  }
+  if (!passive.passed) {
+    return { passed: false, reason: passive.reason, progress, passive, durationMs }
+  }
+
+  return { passed: true, progress, passive, durationMs }
+}
@@ -0,0 +1,381 @@
+/**
+ * Manual Check-in Service
+ * Audited fallback for when face recognition fails at a kiosk. The
+ * employee identifies with an employee ID or attendance PIN, the kiosk's
+ * photo is kept as evidence, and a supervisor co-signs either on the spot
+ * (with their own employee ID and PIN) or later from the review queue.
+ * Attendance is only created on co-sign and is never marked verified.
+ */
+
+import crypto from 'crypto'
+import bcrypt from 'bcryptjs'
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerAttendanceRecord, ServerKioskDevice, ServerManualCheckin, ServerUser } from '@/lib/server-db'
+import type { ManualCheckinInput, ManualCheckinReviewInput } from '@/lib/validation-schemas'
+import { attendanceEvaluation } from '@/lib/attendance-evaluation'
+import { overtimeService, attendanceDayOf } from '@/lib/overtime'
+import { geofenceService } from '@/lib/geofence'
+import { toOfficeDateString } from '@/lib/office-time'
+import { logger } from '@/lib/logger'
+
+export type ManualCheckinResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+// Roles that may vouch for an employee's manual check-in
+const SUPERVISOR_ROLES: ServerUser['role'][] = ['manager', 'hr', 'admin']
+const MAX_PHOTO_BYTES = 2 * 1024 * 1024
+
+const PHOTO_TYPES: Record<string, { extension: string; signature: number[] }> = {
+  'image/jpeg': { extension: 'jpg', signature: [0xff, 0xd8, 0xff] },
+  'image/png': { extension: 'png', signature: [0x89, 0x50, 0x4e, 0x47] },
+  'image/webp': { extension: 'webp', signature: [0x52, 0x49, 0x46, 0x46] }
+}
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+/**
+ * Decode a camera data URL, checking the declared type against the file's
+ * own signature
+ */
+function decodePhoto(dataUrl: string): { content: Buffer; contentType: string; extension: string } | null {
+  const match = /^data:(image\/[a-z]+);base64,(.+)$/.exec(dataUrl)
+  if (!match) return null
+
+  const type = PHOTO_TYPES[match[1]]
+  if (!type) return null
+
+  const content = Buffer.from(match[2], 'base64')
+  if (content.length === 0 || content.length > MAX_PHOTO_BYTES) return null
+  if (!type.signature.every((byte, i) => content[i] === byte)) return null
+
+  return { content, contentType: match[1], extension: type.extension }
+}
+
+export class ManualCheckinService {
+  /**
+   * Record a manual check-in from a kiosk. With supervisor credentials it
+   * is co-signed right away; otherwise it waits in the review queue.
+   */
+  async submit(
+    input: ManualCheckinInput,
+    context: { kioskDevice: ServerKioskDevice | null }
+  ): Promise<ManualCheckinResult<{ checkin: ServerManualCheckin; attendance?: ServerAttendanceRecord; cosignError?: string }>> {
+    const identified = await this.identifyEmployee(input)
+    if (!identified.success) return identified
+    const { user, identifiedBy } = identified
+
+    let supervisor: ServerUser | undefined
+    if (input.supervisor) {
+      const verified = await this.verifySupervisor(input.supervisor, user.id)
+      if (!verified.success) return verified
+      supervisor = verified.supervisor
+    }
+
+    const photo = decodePhoto(input.photo)
+    if (!photo) {
+      return failure('Photo must be a JPEG, PNG or WebP image up to 2MB', 'INVALID_PHOTO')
+    }
+
+    // Server time; the kiosk's clock is not trusted
+    const eventTimestamp = new Date()
+
+    if (input.type === 'check-in') {
+      const { effectiveShift } = await attendanceEvaluation.evaluate(user.id, eventTimestamp, input.type)
+      const shiftRecords = await attendanceEvaluation.findShiftCheckIns(user.id, effectiveShift)
+      if (shiftRecords.length > 0) {
+        return failure('Already checked in for this shift', 'ALREADY_CHECKED_IN')
+      }
+    }
+
+    const geofence = context.kioskDevice
+      ? await geofenceService.checkKioskSite(user.id, context.kioskDevice.siteId, eventTimestamp)
+      : await geofenceService.checkLocation(user.id, input.location, eventTimestamp)
+    if (geofence.action === 'reject') {
+      return failure(
+        geofence.message || 'Location is outside the allowed area',
+        geofence.status === 'missing_location' ? 'LOCATION_REQUIRED' : 'OUTSIDE_GEOFENCE',
+        403
+      )
+    }
+
+    const id = crypto.randomUUID()
+    const photoPath = `manual/${toOfficeDateString(eventTimestamp)}/${id}.${photo.extension}`
+    await serverDbManager.uploadAttendanceEvidence(photoPath, photo.content, photo.contentType)
+
+    const checkin = await serverDbManager.createManualCheckin({
+      id,
+      userId: user.id,
+      type: input.type,
+      eventTimestamp,
+      identifiedBy,
+      faceErrorCode: input.faceErrorCode,
+      photoPath,
+      kioskDeviceId: context.kioskDevice?.id,
+      location: input.location || undefined,
+      geofence: {
+        status: geofence.status,
+        siteId: geofence.siteId,
+        siteName: geofence.siteName,
+        distanceMeters: geofence.distanceMeters,
+        accuracy: geofence.accuracy,
+        policy: geofence.policy
+      },
+      zoneViolation: geofence.violation
+    })
+
+    await serverDbManager.createAuditLog({
+      userId: user.id,
+      action: 'manual_checkin_submitted',
+      resource: 'attendance',
+      resourceId: checkin.id,
+      details: {
+        description: `Manual ${input.type} after face recognition failed`,
+        identifiedBy,
+        faceErrorCode: input.faceErrorCode,
+        kioskDeviceId: context.kioskDevice?.id,
+        supervisorId: supervisor?.id
+      }
+    })
+
+    logger.info('Manual check-in submitted', {
+      checkinId: checkin.id,
+      userId: user.id,
+      identifiedBy,
+      cosigned: !!supervisor
+    })
+
+    if (!supervisor) {
+      return { success: true, checkin }
+    }
+
+    // The check-in itself is recorded either way; a failed co-sign leaves
+    // it for the review queue
+    const cosigned = await this.cosign(checkin, supervisor.id, 'kiosk')
+    if (!cosigned.success) {
+      logger.warn('Kiosk co-sign failed, left for review', { checkinId: checkin.id, errorCode: cosigned.errorCode })
+      return { success: true, checkin, cosignError: cosigned.errorCode }
+    }
+
+    return { success: true, checkin: cosigned.checkin, attendance: cosigned.attendance }
+  }
+
+  /**
+   * Co-sign or reject a pending manual check-in from the review queue
+   */
+  async review(
+    id: string,
+    input: ManualCheckinReviewInput,
+    reviewerId: string
+  ): Promise<ManualCheckinResult<{ checkin: ServerManualCheckin; attendance?: ServerAttendanceRecord }>> {
+    const checkin = await serverDbManager.getManualCheckin(id)
+    if (!checkin) {
+      return failure('Manual check-in not found', 'NOT_FOUND', 404)
+    }
+    if (checkin.status !== 'pending') {
+      return failure('Manual check-in is not awaiting review', 'NOT_PENDING', 409)
+    }
+    if (checkin.userId === reviewerId) {
+      return failure('You cannot co-sign your own check-in', 'SELF_REVIEW', 403)
+    }
+
+    if (input.decision === 'approve') {
+      return this.cosign(checkin, reviewerId, 'review', input.notes)
+    }
+
+    const { result, error } = await serverDbManager.resolveManualCheckin({
+      id,
+      decision: 'rejected',
+      cosignedBy: reviewerId,
+      via: 'review',
+      notes: input.notes
+    })
+    if (error || !result) {
+      return this.resolveFailure(error)
+    }
+
+    logger.info('Manual check-in rejected', { checkinId: id, reviewedBy: reviewerId })
+    return { success: true, checkin: result }
+  }
+
+  /**
+   * Signed URL for a check-in's evidence photo
+   */
+  async getPhotoUrl(checkin: ServerManualCheckin): Promise<string | null> {
+    return serverDbManager.getAttendanceEvidenceUrl(checkin.photoPath)
+  }
+
+  private async cosign(
+    checkin: ServerManualCheckin,
+    supervisorId: string,
+    via: 'kiosk' | 'review',
+    notes?: string
+  ): Promise<ManualCheckinResult<{ checkin: ServerManualCheckin; attendance: ServerAttendanceRecord }>> {
+    const timestamp = checkin.eventTimestamp
+    const evaluation = await attendanceEvaluation.evaluate(checkin.userId, timestamp, checkin.type)
+    const { effectiveShift } = evaluation
+
+    const lockedPeriod = await serverDbManager.getClosedPayrollPeriodFor(effectiveShift.shiftDate || toOfficeDateString(timestamp))
+    if (lockedPeriod) {
+      return failure('The payroll period for this day is closed', 'PERIOD_LOCKED', 409)
+    }
+
+    if (checkin.type === 'check-in') {
+      const shiftRecords = await attendanceEvaluation.findShiftCheckIns(checkin.userId, effectiveShift)
+      if (shiftRecords.length > 0) {
+        return failure('Employee already has a check-in for this shift', 'ALREADY_CHECKED_IN', 409)
+      }
+    }
+
+    const attendance: ServerAttendanceRecord = {
+      id: checkin.id,
+      userId: checkin.userId,
+      timestamp,
+      type: checkin.type,
+      location: checkin.location ? JSON.stringify(checkin.location) : undefined,
+      status: checkin.type === 'check-in' || checkin.type === 'check-out' ? evaluation.status : undefined,
+      verified: false,
+      synced: true,
+      zoneViolation: checkin.zoneViolation,
+      kioskDeviceId: checkin.kioskDeviceId,
+      metadata: {
+        method: 'manual-fallback',
+        identifiedBy: checkin.identifiedBy,
+        faceErrorCode: checkin.faceErrorCode,
+        evidence: {
+          manualCheckinId: checkin.id,
+          photoPath: checkin.photoPath
+        },
+        cosign: {
+          by: supervisorId,
+          via,
+          at: new Date().toISOString()
+        },
+        shiftId: effectiveShift.shift.id,
+        shiftCode: effectiveShift.shift.code,
+        shiftDate: effectiveShift.shiftDate,
+        shiftSource: effectiveShift.source,
+        lateMinutes: evaluation.lateMinutes,
+        earlyLeaveMinutes: evaluation.earlyLeaveMinutes,
+        geofence: checkin.geofence
+      },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+
+    const { result, error } = await serverDbManager.resolveManualCheckin({
+      id: checkin.id,
+      decision: 'approved',
+      cosignedBy: supervisorId,
+      via,
+      notes,
+      attendance
+    })
+    if (error || !result) {
+      return this.resolveFailure(error)
+    }
+
+    if (attendance.type === 'check-out') {
+      await overtimeService
+        .recalculateDay(attendance.userId, attendanceDayOf(attendance))
+        .catch(err => logger.error('Error recalculating overtime after manual check-in', err as Error))
+    }
+
+    await serverDbManager.createNotification({
+      userId: checkin.userId,
+      title: 'Manual attendance recorded',
+      message: `Your manual ${checkin.type} at ${timestamp.toLocaleTimeString('id-ID')} was co-signed by a supervisor`,
+      type: 'info',
+      priority: 'normal'
+    })
+
+    logger.info('Manual check-in co-signed', { checkinId: checkin.id, cosignedBy: supervisorId, via })
+    return { success: true, checkin: result, attendance }
+  }
+
+  /**
+   * Employee ID takes precedence; a PIN given with it must match. A PIN
+   * alone must match exactly one employee.
+   */
+  private async identifyEmployee(
+    input: Pick<ManualCheckinInput, 'employeeId' | 'pin'>
+  ): Promise<ManualCheckinResult<{ user: ServerUser; identifiedBy: 'employeeId' | 'pin' }>> {
+    if (input.employeeId) {
+      const user = await serverDbManager.getUserByEmployeeId(input.employeeId)
+      if (!user) {
+        return failure('Employee ID not found', 'EMPLOYEE_NOT_FOUND', 404)
+      }
+
+      if (input.pin) {
+        const pinHash = await serverDbManager.getUserAttendancePinHash(user.id)
+        if (!pinHash || !(await bcrypt.compare(input.pin, pinHash))) {
+          return failure('Incorrect PIN', 'INVALID_PIN', 403)
+        }
+        return { success: true, user, identifiedBy: 'pin' }
+      }
+
+      return { success: true, user, identifiedBy: 'employeeId' }
+    }
+
+    // Checks every PIN holder; only reached after face recognition failed
+    const holders = await serverDbManager.getAttendancePinHolders()
+    const matches: string[] = []
+    for (const holder of holders) {
+      if (await bcrypt.compare(input.pin!, holder.pinHash)) {
+        matches.push(holder.userId)
+      }
+    }
+
+    if (matches.length === 0) {
+      return failure('Incorrect PIN', 'INVALID_PIN', 403)
+    }
+    if (matches.length > 1) {
+      return failure('PIN matches more than one employee. Please enter your employee ID.', 'PIN_AMBIGUOUS', 409)
+    }
+
+    const user = await serverDbManager.getUser(matches[0])
+    if (!user || user.isActive === false) {
+      return failure('Employee not found or inactive', 'USER_INACTIVE', 404)
+    }
+
+    return { success: true, user, identifiedBy: 'pin' }
+  }
+
+  private async verifySupervisor(
+    credentials: { employeeId: string; pin: string },
+    employeeUserId: string
+  ): Promise<ManualCheckinResult<{ supervisor: ServerUser }>> {
+    const supervisor = await serverDbManager.getUserByEmployeeId(credentials.employeeId)
+    const pinHash = supervisor ? await serverDbManager.getUserAttendancePinHash(supervisor.id) : null
+
+    if (
+      !supervisor ||
+      !SUPERVISOR_ROLES.includes(supervisor.role) ||
+      !pinHash ||
+      !(await bcrypt.compare(credentials.pin, pinHash))
+    ) {
+      return failure('Supervisor credentials are invalid', 'SUPERVISOR_INVALID', 403)
+    }
+    if (supervisor.id === employeeUserId) {
+      return failure('You cannot co-sign your own check-in', 'SELF_REVIEW', 403)
+    }
+
+    return { success: true, supervisor }
+  }
+
+  private resolveFailure(error: { message: string; details?: string } | null) {
+    if (error?.message === 'MANUAL_CHECKIN_NOT_FOUND') {
+      return failure('Manual check-in not found', 'NOT_FOUND', 404)
+    }
+    if (error?.message === 'MANUAL_CHECKIN_NOT_PENDING') {
+      return failure('Manual check-in is not awaiting review', 'NOT_PENDING', 409)
+    }
+    logger.error('Error resolving manual check-in', new Error(error?.message || 'Unknown error'))
+    return failure('Failed to resolve manual check-in', 'SERVER_ERROR', 500)
+  }
+}
+
+// Singleton instance
+export const manualCheckinService = new ManualCheckinService()
@@ -0,0 +1,121 @@
+/**
+ * Office Time Utilities
+ * Converts between UTC instants and office wall-clock time, so server-side
+ * attendance rules don't depend on the timezone the server happens to run in
+ */
+
+import { OFFICE_INFO } from '@/lib/app-config'
+
+export interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+  weekday: number // 0 = Sunday
+}
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short'
+    })
+    formatterCache.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Get the wall-clock components of an instant in the given timezone
+ */
+export function getZonedParts(date: Date, timeZone: string = OFFICE_INFO.timezone): ZonedParts {
+  const parts: Record<string, string> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase().slice(0, 3))
+  }
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in minutes
+ */
+export function getTimezoneOffsetMinutes(date: Date, timeZone: string = OFFICE_INFO.timezone): number {
+  const p = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000)
+}
+
+/**
+ * Format an instant as an office-local calendar date (YYYY-MM-DD)
+ */
+export function toOfficeDateString(date: Date, timeZone: string = OFFICE_INFO.timezone): string {
+  const p = getZonedParts(date, timeZone)
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`
+}
+
+/**
+ * Convert an office-local date (YYYY-MM-DD) and time (HH:mm or HH:mm:ss) to a UTC instant
+ */
+export function officeDateTimeToUtc(
+  dateString: string,
+  timeString: string,
+  timeZone: string = OFFICE_INFO.timezone
+): Date {
+  const [year, month, day] = dateString.split('-').map(Number)
+  const [hours, minutes, seconds = 0] = timeString.split(':').map(Number)
+  const guess = Date.UTC(year, month - 1, day, hours, minutes, seconds)
+
+  // Apply the offset twice so instants next to a DST transition settle correctly
+  let result = guess - getTimezoneOffsetMinutes(new Date(guess), timeZone) * 60000
+  result = guess - getTimezoneOffsetMinutes(new Date(result), timeZone) * 60000
+
+  return new Date(result)
+}
+
+/**
+ * Shift a calendar date string (YYYY-MM-DD) by a number of days
+ */
+export function addDaysToDateString(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split('-').map(Number)
+  const date = new Date(Date.UTC(year, month - 1, day + days))
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Day of week (0 = Sunday) of a calendar date string
+ */
+export function getDateStringWeekday(dateString: string): number {
+  const [year, month, day] = dateString.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
+
+/**
+ * Convert an HH:mm[:ss] time string to minutes since midnight
+ */
+export function timeStringToMinutes(timeString: string): number {
+  const [hours, minutes] = timeString.split(':').map(Number)
+  return hours * 60 + (minutes || 0)
+}
@@ -0,0 +1,198 @@
+/**
+ * Offline Face Check-in (kiosk side)
+ * Keeps an encrypted copy of the site's face embeddings, matches faces
+ * locally while the network is down and queues each event for the server
+ * to re-verify (see lib/offline-face-verification.ts).
+ */
+
+import { ApiClient } from './api-client'
+import { faceStorage, type KioskCacheInfo } from './face-storage'
+import { calculateCosineSimilarity, identifyFromCandidates, type FaceMatchResult } from './face-matching'
+import { syncQueue } from './sync-queue'
+import type { OfflineFaceCache, OfflineFaceEvent } from './sync-protocol'
+
+import { logger } from '@/lib/logger'
+
+const SITE_STORAGE_KEY = 'kiosk-site-id'
+
+export interface OfflineFaceMatch extends FaceMatchResult {
+  userName: string
+  department?: string
+}
+
+export type OfflineIdentifyResult =
+  | { outcome: 'match'; match: OfflineFaceMatch; margin: number | null }
+  | { outcome: 'ambiguous' | 'no_match' | 'no_cache' | 'expired' }
+
+export type OfflineFaceAction = OfflineFaceEvent['type']
+
+export class OfflineFaceCheckin {
+  // Decrypted cache for the current session; never written back in the clear
+  private cache: OfflineFaceCache | null = null
+  private info: KioskCacheInfo | null = null
+
+  getSiteId(): string | null {
+    if (typeof localStorage === 'undefined') return null
+    return localStorage.getItem(SITE_STORAGE_KEY)
+  }
+
+  setSiteId(siteId: string): void {
+    if (this.getSiteId() !== siteId) {
+      this.cache = null
+      this.info = null
+    }
+    localStorage.setItem(SITE_STORAGE_KEY, siteId)
+  }
+
+  /**
+   * Download a fresh cache for the configured site. The device clock offset
+   * is measured against the midpoint of the request.
+   */
+  async refreshCache(): Promise<KioskCacheInfo | null> {
+    const siteId = this.getSiteId()
+    if (!siteId) return null
+
+    const requestedAt = Date.now()
+    const response = await ApiClient.getOfflineFaceCache(siteId)
+    const receivedAt = Date.now()
+
+    const cache = response.data
+    const clockOffsetMs = Math.round((requestedAt + receivedAt) / 2 - new Date(cache.serverTime).getTime())
+
+    await faceStorage.saveKioskCache(cache, clockOffsetMs)
+    this.cache = cache
+    this.info = {
+      siteId: cache.siteId,
+      siteName: cache.siteName,
+      generatedAt: cache.generatedAt,
+      expiresAt: cache.expiresAt,
+      clockOffsetMs
+    }
+
+    logger.info('Offline face cache refreshed', {
+      siteId: cache.siteId,
+      entries: cache.entries.length,
+      clockOffsetMs
+    })
+    return this.info
+  }
+
+  async getCacheInfo(): Promise<KioskCacheInfo | null> {
+    await this.loadCache()
+    return this.info
+  }
+
+  /**
+   * Identify a face against the cached site embeddings
+   */
+  async identify(descriptor: number[]): Promise<OfflineIdentifyResult> {
+    const cache = await this.loadCache()
+    if (!cache) return { outcome: 'no_cache' }
+    if (new Date(cache.expiresAt).getTime() < Date.now()) {
+      return { outcome: 'expired' }
+    }
+
+    // One candidate per user: their best-scoring enrolled embedding
+    const bestByUser = new Map<string, OfflineFaceMatch>()
+    for (const entry of cache.entries) {
+      if (entry.embedding.length !== descriptor.length) continue
+
+      const similarity = calculateCosineSimilarity(descriptor, entry.embedding)
+      const existing = bestByUser.get(entry.userId)
+      if (!existing || similarity > existing.confidence) {
+        bestByUser.set(entry.userId, {
+          userId: entry.userId,
+          userName: entry.userName,
+          department: entry.department,
+          confidence: similarity,
+          similarity,
+          distance: 1 - similarity
+        })
+      }
+    }
+
+    const result = identifyFromCandidates(Array.from(bestByUser.values()), {
+      userThresholds: new Map(Object.entries(cache.thresholds))
+    })
+
+    if (result.outcome === 'match' && result.match) {
+      return { outcome: 'match', match: result.match, margin: result.margin }
+    }
+    return { outcome: result.outcome === 'ambiguous' ? 'ambiguous' : 'no_match' }
+  }
+
+  /**
+   * Last action queued today for a user, so the kiosk can offer the next one
+   */
+  async getLastQueuedAction(userId: string): Promise<OfflineFaceAction | null> {
+    const items = await syncQueue.getItems({ type: 'face_event' })
+    const startOfDay = new Date()
+    startOfDay.setHours(0, 0, 0, 0)
+
+    const events = items
+      .map(item => item.data as OfflineFaceEvent)
+      .filter(event => event.localMatch.userId === userId && new Date(event.capturedAt) >= startOfDay)
+      .sort((a, b) => new Date(a.capturedAt).getTime() - new Date(b.capturedAt).getTime())
+
+    return events.length > 0 ? events[events.length - 1].type : null
+  }
+
+  /**
+   * Queue a locally matched event for upload through /api/sync
+   */
+  async recordEvent(input: {
+    descriptor: number[]
+    type: OfflineFaceAction
+    match: OfflineFaceMatch
+    margin: number | null
+    liveness: OfflineFaceEvent['liveness']
+    location?: OfflineFaceEvent['location']
+  }): Promise<OfflineFaceEvent> {
+    await this.loadCache()
+    if (!this.info) {
+      throw new Error('Offline face cache is not available')
+    }
+
+    const event: OfflineFaceEvent = {
+      id: crypto.randomUUID(),
+      siteId: this.info.siteId,
+      type: input.type,
+      capturedAt: new Date().toISOString(),
+      clockOffsetMs: this.info.clockOffsetMs,
+      descriptor: input.descriptor,
+      liveness: input.liveness,
+      localMatch: {
+        userId: input.match.userId,
+        confidence: input.match.confidence,
+        margin: input.margin
+      },
+      location: input.location ?? null
+    }
+
+    await syncQueue.addItem({ type: 'face_event', data: event, priority: 'high' })
+
+    logger.info('Offline face event queued', {
+      eventId: event.id,
+      type: event.type,
+      userId: event.localMatch.userId
+    })
+    return event
+  }
+
+  private async loadCache(): Promise<OfflineFaceCache | null> {
+    if (this.cache) return this.cache
+
+    const siteId = this.getSiteId()
+    if (!siteId) return null
+
+    const stored = await faceStorage.getKioskCache(siteId)
+    if (!stored) return null
+
+    this.cache = stored.cache
+    this.info = stored.info
+    return this.cache
+  }
+}
+
+// Singleton instance
+export const offlineFaceCheckin = new OfflineFaceCheckin()
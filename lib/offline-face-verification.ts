@@ -0,0 +1,425 @@
+/**
+ * Offline Face Verification Service
+ * Server side of the offline kiosk mode: builds the per-site embedding cache
+ * a kiosk matches against while the network is down, and re-verifies every
+ * event it queued once it reconnects. The server's own identification is
+ * authoritative; the kiosk's local match only tells us who was told they
+ * were checked in.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerAttendanceRecord, ServerOfflineFaceEvent, ServerUser } from '@/lib/server-db'
+import type { OfflineFaceCache, OfflineFaceCacheEntry, OfflineFaceVerdict } from '@/lib/sync-protocol'
+import type { OfflineFaceEventInput, OfflineFaceReviewInput } from '@/lib/validation-schemas'
+import { assessMatchQuality } from '@/lib/face-matching'
+import { faceIdentification } from '@/lib/face-identification'
+import { faceEmbeddingIndex } from '@/lib/face-embedding-index'
+import { evaluateLivenessEvidence } from '@/lib/liveness'
+import type { LivenessFrame } from '@/lib/liveness'
+import { attendanceEvaluation } from '@/lib/attendance-evaluation'
+import { overtimeService, attendanceDayOf } from '@/lib/overtime'
+import { geofenceService } from '@/lib/geofence'
+import { toOfficeDateString } from '@/lib/office-time'
+import { logger } from '@/lib/logger'
+
+export type OfflineFaceResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+export interface OfflineFaceEventOutcome {
+  status: 'applied' | 'duplicate'
+  event: ServerOfflineFaceEvent
+}
+
+type AttendanceDecision =
+  | { ok: true; record: ServerAttendanceRecord }
+  | { ok: false; reason: string }
+
+interface Verdict {
+  verdict: OfflineFaceVerdict
+  reason?: string
+  matchedUserId?: string
+  matchConfidence?: number
+  attendance?: ServerAttendanceRecord
+}
+
+// How long a kiosk may keep matching offline on one cache download
+const CACHE_TTL_MS = 72 * 60 * 60 * 1000
+// Largest device/server clock difference we still correct for; anything
+// beyond it suggests a tampered clock
+const MAX_CLOCK_OFFSET_MS = 15 * 60 * 1000
+// Tolerated drift for corrected timestamps that land in the future
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+export class OfflineFaceVerificationService {
+  /**
+   * Embeddings of active employees who may work at a site. Membership uses
+   * the same rules as the geofence (schedules, department, default sites).
+   */
+  async buildCache(siteId: string): Promise<OfflineFaceCache | null> {
+    const site = await serverDbManager.getOfficeSite(siteId)
+    if (!site || !site.isActive) {
+      return null
+    }
+
+    const embeddings = await serverDbManager.getIndexableFaceEmbeddings()
+    const byUser = new Map<string, typeof embeddings>()
+    for (const embedding of embeddings) {
+      const list = byUser.get(embedding.userId) || []
+      list.push(embedding)
+      byUser.set(embedding.userId, list)
+    }
+
+    const entries: OfflineFaceCacheEntry[] = []
+    const userIds: string[] = []
+
+    for (const [userId, userEmbeddings] of Array.from(byUser.entries())) {
+      const sites = await geofenceService.getSitesForUser(userId)
+      if (!sites.some(s => s.id === siteId)) continue
+
+      const user = await serverDbManager.getUser(userId)
+      if (!user || user.isActive === false) continue
+
+      userIds.push(userId)
+      for (const embedding of userEmbeddings) {
+        entries.push({
+          id: embedding.id,
+          userId,
+          userName: user.name,
+          department: user.department,
+          embedding: embedding.embedding
+        })
+      }
+    }
+
+    const thresholds = await faceEmbeddingIndex.getUserThresholds(userIds)
+    const now = new Date()
+
+    return {
+      siteId: site.id,
+      siteName: site.name,
+      generatedAt: now.toISOString(),
+      serverTime: now.toISOString(),
+      expiresAt: new Date(now.getTime() + CACHE_TTL_MS).toISOString(),
+      entries,
+      thresholds: Object.fromEntries(Array.from(thresholds.entries()))
+    }
+  }
+
+  /**
+   * Re-verify an uploaded event and record the verdict. Accepted and
+   * re-matched events create the attendance record in the same transaction;
+   * rejected ones are kept for HR review. Replays return the stored verdict.
+   */
+  async verifyEvent(
+    event: OfflineFaceEventInput,
+    context: { submittedBy: string; deviceId?: string }
+  ): Promise<OfflineFaceResult<OfflineFaceEventOutcome>> {
+    const existing = await serverDbManager.getOfflineFaceEvent(event.id)
+    if (existing) {
+      return { success: true, status: 'duplicate', event: existing }
+    }
+
+    const capturedAt = new Date(event.capturedAt)
+    const eventTimestamp = new Date(capturedAt.getTime() - event.clockOffsetMs)
+    const liveness = evaluateLivenessEvidence(event.liveness.steps, event.liveness.frames as LivenessFrame[])
+
+    const verdict = await this.decide(event, eventTimestamp, liveness.passed && event.liveness.passed, context)
+
+    const { result, error } = await serverDbManager.applyOfflineFaceEvent(
+      {
+        id: event.id,
+        submittedBy: context.submittedBy,
+        deviceId: context.deviceId,
+        siteId: event.siteId,
+        type: event.type,
+        capturedAt,
+        clockOffsetMs: event.clockOffsetMs,
+        eventTimestamp,
+        descriptor: event.descriptor,
+        // The frames themselves aren't kept; the verdict on them is
+        liveness: {
+          steps: event.liveness.steps,
+          source: 'offline',
+          clientPassed: event.liveness.passed,
+          passed: liveness.passed,
+          reason: liveness.reason,
+          frameCount: event.liveness.frames.length,
+          durationMs: liveness.durationMs
+        },
+        location: event.location || undefined,
+        localUserId: event.localMatch.userId,
+        localConfidence: event.localMatch.confidence,
+        matchedUserId: verdict.matchedUserId,
+        matchConfidence: verdict.matchConfidence,
+        verdict: verdict.verdict,
+        reason: verdict.reason
+      },
+      verdict.attendance
+    )
+
+    if (error || !result) {
+      logger.warn('Offline face event not recorded', {
+        eventId: event.id,
+        error: error?.message,
+        details: error?.details
+      })
+      return failure('Could not record offline face event', 'SERVER_ERROR', 500)
+    }
+
+    if (result.status === 'applied') {
+      logger.info('Offline face event verified', {
+        eventId: event.id,
+        deviceId: context.deviceId,
+        verdict: verdict.verdict,
+        reason: verdict.reason,
+        localUserId: event.localMatch.userId,
+        matchedUserId: verdict.matchedUserId
+      })
+
+      if (verdict.attendance && verdict.attendance.type === 'check-out') {
+        await overtimeService
+          .recalculateDay(verdict.attendance.userId, attendanceDayOf(verdict.attendance))
+          .catch(err => logger.error('Error recalculating overtime after offline check-out', err as Error))
+      }
+    }
+
+    return { success: true, status: result.status, event: result.event }
+  }
+
+  /**
+   * Approve a rejected event (recording attendance for the confirmed
+   * employee) or dismiss it
+   */
+  async resolveReview(
+    eventId: string,
+    input: OfflineFaceReviewInput,
+    reviewerId: string
+  ): Promise<OfflineFaceResult<{ event: ServerOfflineFaceEvent }>> {
+    const event = await serverDbManager.getOfflineFaceEvent(eventId)
+    if (!event) {
+      return failure('Offline face event not found', 'NOT_FOUND', 404)
+    }
+    if (event.reviewStatus !== 'pending') {
+      return failure('Offline face event is not awaiting review', 'NOT_PENDING', 409)
+    }
+
+    let attendance: ServerAttendanceRecord | undefined
+
+    if (input.decision === 'approve') {
+      const userId = input.userId || event.matchedUserId || event.localUserId
+      if (!userId) {
+        return failure('Select the employee to record attendance for', 'USER_REQUIRED')
+      }
+
+      const user = await serverDbManager.getUser(userId)
+      if (!user || user.isActive === false) {
+        return failure('Employee not found or inactive', 'USER_INACTIVE', 404)
+      }
+
+      // HR vouches for identity and location; period locks and duplicate
+      // check-ins still apply
+      const decision = await this.buildAttendance(user, event, {
+        enforceGeofence: false,
+        metadata: {
+          reviewedBy: reviewerId,
+          reviewReason: event.reason,
+          verification: 'hr-review'
+        }
+      })
+      if (!decision.ok) {
+        return failure(`Attendance cannot be recorded: ${decision.reason}`, decision.reason, 409)
+      }
+      attendance = { ...decision.record, verified: false }
+    }
+
+    const { result, error } = await serverDbManager.resolveOfflineFaceEvent({
+      eventId,
+      decision: input.decision === 'approve' ? 'approved' : 'dismissed',
+      reviewedBy: reviewerId,
+      notes: input.notes,
+      attendance
+    })
+
+    if (error || !result) {
+      if (error?.message === 'OFFLINE_EVENT_NOT_FOUND') {
+        return failure('Offline face event not found', 'NOT_FOUND', 404)
+      }
+      if (error?.message === 'OFFLINE_EVENT_NOT_PENDING') {
+        return failure('Offline face event is not awaiting review', 'NOT_PENDING', 409)
+      }
+      logger.error('Error resolving offline face event', new Error(error?.message || 'Unknown error'))
+      return failure('Failed to resolve offline face event', 'SERVER_ERROR', 500)
+    }
+
+    if (attendance && attendance.type === 'check-out') {
+      await overtimeService
+        .recalculateDay(attendance.userId, attendanceDayOf(attendance))
+        .catch(err => logger.error('Error recalculating overtime after offline review', err as Error))
+    }
+
+    return { success: true, event: result }
+  }
+
+  private async decide(
+    event: OfflineFaceEventInput,
+    eventTimestamp: Date,
+    livenessPassed: boolean,
+    context: { submittedBy: string; deviceId?: string }
+  ): Promise<Verdict> {
+    if (!livenessPassed) {
+      return { verdict: 'rejected', reason: 'LIVENESS_FAILED' }
+    }
+    if (Math.abs(event.clockOffsetMs) > MAX_CLOCK_OFFSET_MS) {
+      return { verdict: 'rejected', reason: 'CLOCK_UNTRUSTED' }
+    }
+    if (eventTimestamp.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return { verdict: 'rejected', reason: 'INVALID_TIMESTAMP' }
+    }
+    // The kiosk stops matching offline once its cache expires, so nothing it
+    // genuinely captured can be older than that
+    if (eventTimestamp.getTime() < Date.now() - CACHE_TTL_MS) {
+      return { verdict: 'rejected', reason: 'EVENT_TOO_OLD' }
+    }
+
+    const identification = await faceIdentification.identify(event.descriptor)
+    if (identification.outcome === 'ambiguous') {
+      return { verdict: 'rejected', reason: 'AMBIGUOUS_MATCH' }
+    }
+
+    const match = identification.match
+    if (!match) {
+      return { verdict: 'rejected', reason: 'FACE_NOT_RECOGNIZED' }
+    }
+
+    const matched = { matchedUserId: match.userId, matchConfidence: match.confidence }
+    if (assessMatchQuality(match).quality === 'poor') {
+      return { verdict: 'rejected', reason: 'LOW_CONFIDENCE', ...matched }
+    }
+
+    const user = await serverDbManager.getUser(match.userId)
+    if (!user || user.isActive === false) {
+      return { verdict: 'rejected', reason: 'USER_INACTIVE', ...matched }
+    }
+
+    const verdict: OfflineFaceVerdict = match.userId === event.localMatch.userId ? 'accepted' : 'rematched'
+    const decision = await this.buildAttendance(
+      user,
+      {
+        id: event.id,
+        type: event.type,
+        eventTimestamp,
+        location: event.location || undefined,
+        siteId: event.siteId
+      },
+      {
+        enforceGeofence: true,
+        metadata: {
+          verification: verdict,
+          faceMatchConfidence: match.confidence,
+          matchQuality: assessMatchQuality(match).quality,
+          similarity: match.similarity,
+          matchedEmbeddingId: match.embeddingId,
+          matchMargin: identification.margin,
+          matchThreshold: identification.threshold,
+          submittedBy: context.submittedBy,
+          deviceId: context.deviceId,
+          capturedAt: event.capturedAt,
+          clockOffsetMs: event.clockOffsetMs,
+          localMatch: event.localMatch,
+          ...(verdict === 'rematched' ? { rematchedFrom: event.localMatch.userId } : {})
+        }
+      }
+    )
+
+    if (!decision.ok) {
+      return { verdict: 'rejected', reason: decision.reason, ...matched }
+    }
+
+    return { verdict, attendance: decision.record, ...matched }
+  }
+
+  /**
+   * Evaluate the event for an employee and build the attendance record,
+   * applying the same period-lock, duplicate and geofence rules as online
+   * check-ins
+   */
+  private async buildAttendance(
+    user: ServerUser,
+    event: Pick<ServerOfflineFaceEvent, 'id' | 'type' | 'eventTimestamp' | 'location' | 'siteId'>,
+    options: { enforceGeofence: boolean; metadata: Record<string, any> }
+  ): Promise<AttendanceDecision> {
+    const timestamp = event.eventTimestamp
+    const evaluation = await attendanceEvaluation.evaluate(user.id, timestamp, event.type)
+    const { effectiveShift } = evaluation
+
+    const lockedPeriod = await serverDbManager.getClosedPayrollPeriodFor(effectiveShift.shiftDate || toOfficeDateString(timestamp))
+    if (lockedPeriod) {
+      return { ok: false, reason: 'PERIOD_LOCKED' }
+    }
+
+    if (event.type === 'check-in') {
+      const shiftRecords = await attendanceEvaluation.findShiftCheckIns(user.id, effectiveShift)
+      if (shiftRecords.length > 0) {
+        return { ok: false, reason: 'ALREADY_CHECKED_IN' }
+      }
+    }
+
+    // Events only come from a signed kiosk enrolled at their site (see
+    // sync-ingest); older stored events without a site fall back to location
+    const geofence = event.siteId
+      ? await geofenceService.checkKioskSite(user.id, event.siteId, timestamp)
+      : await geofenceService.checkLocation(user.id, event.location, timestamp)
+    if (options.enforceGeofence && geofence.action === 'reject') {
+      return {
+        ok: false,
+        reason: geofence.status === 'missing_location' ? 'LOCATION_REQUIRED' : 'OUTSIDE_GEOFENCE'
+      }
+    }
+
+    return {
+      ok: true,
+      record: {
+        id: event.id,
+        userId: user.id,
+        timestamp,
+        type: event.type,
+        location: event.location ? JSON.stringify(event.location) : undefined,
+        status: event.type === 'check-in' || event.type === 'check-out' ? evaluation.status : undefined,
+        verified: true,
+        synced: true,
+        zoneViolation: geofence.violation,
+        metadata: {
+          method: 'offline-face',
+          offlineEventId: event.id,
+          kioskSiteId: event.siteId,
+          livenessSource: 'offline',
+          ...options.metadata,
+          shiftId: effectiveShift.shift.id,
+          shiftCode: effectiveShift.shift.code,
+          shiftDate: effectiveShift.shiftDate,
+          shiftSource: effectiveShift.source,
+          lateMinutes: evaluation.lateMinutes,
+          earlyLeaveMinutes: evaluation.earlyLeaveMinutes,
+          geofence: {
+            status: geofence.status,
+            siteId: geofence.siteId,
+            siteName: geofence.siteName,
+            distanceMeters: geofence.distanceMeters,
+            accuracy: geofence.accuracy,
+            policy: geofence.policy
+          }
+        },
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const offlineFaceVerification = new OfflineFaceVerificationService()
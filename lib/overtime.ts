@@ -0,0 +1,625 @@
+/**
+ * Overtime Service
+ * Derives overtime per attendance day from clock-in, clock-out and breaks,
+ * classifies every overtime minute by rate tier (weekday, weekend, holiday)
+ * and only counts minutes a manager approved, either beforehand for a
+ * planned window (pre-approval) or after the fact (post-approval).
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerOvertimeRecord, ServerAttendanceRecord, ServerSettings, ServerPayrollPeriod } from '@/lib/server-db'
+import type { OvertimeRequestInput } from '@/lib/validation-schemas'
+import {
+  attendanceEvaluation,
+  getOvertimeRateTier,
+  isShiftActiveDay
+} from '@/lib/attendance-evaluation'
+import type { EffectiveShift, OvertimeRateTier } from '@/lib/attendance-evaluation'
+import { holidayCalendar } from '@/lib/holiday-calendar'
+import { toOfficeDateString, officeDateTimeToUtc, addDaysToDateString, timeStringToMinutes } from '@/lib/office-time'
+import { logger } from '@/lib/logger'
+
+export interface TimeInterval {
+  start: Date
+  end: Date
+}
+
+// A run of consecutive overtime minutes paid at one rate
+export interface OvertimeSegment extends TimeInterval {
+  minutes: number
+  tier: OvertimeRateTier
+  rate: number
+}
+
+export interface OvertimeCalculation {
+  workDate: string
+  shiftId?: string
+  checkIn: Date
+  checkOut: Date
+  workedMinutes: number
+  breakMinutes: number
+  thresholdMinutes: number
+  segments: OvertimeSegment[]
+  minutesByTier: Record<OvertimeRateTier, number>
+  totalMinutes: number
+}
+
+export interface OvertimeSettings {
+  enabled: boolean
+  requireApproval: boolean
+  maxDailyMinutes?: number
+}
+
+export interface OvertimeActor {
+  userId: string
+  role: string
+}
+
+export type OvertimeResult =
+  | { success: true; record: ServerOvertimeRecord }
+  | { success: false; error: string; errorCode: string; status: number }
+
+// Longest stretch between clock-in and clock-out we evaluate (forgotten check-outs)
+const MAX_WORK_SPAN_MINUTES = 24 * 60
+
+function failure(error: string, errorCode: string, status: number = 400): OvertimeResult {
+  return { success: false, error, errorCode, status }
+}
+
+function periodLocked(period: ServerPayrollPeriod): OvertimeResult {
+  return failure(`Payroll period "${period.name}" is closed; reopen it to change overtime`, 'PERIOD_LOCKED', 409)
+}
+
+function emptyTiers(): Record<OvertimeRateTier, number> {
+  return { weekday: 0, weekend: 0, holiday: 0 }
+}
+
+/**
+ * Office-local day an attendance event belongs to. Events carry the shift
+ * date they were evaluated against; older ones fall back to their local date.
+ */
+export function attendanceDayOf(record: ServerAttendanceRecord): string {
+  return record.metadata?.shiftDate || toOfficeDateString(record.timestamp)
+}
+
+/**
+ * Sort and merge overlapping intervals
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter(i => i.end > i.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+
+  const merged: TimeInterval[] = []
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) last.end = interval.end
+    } else {
+      merged.push({ start: interval.start, end: interval.end })
+    }
+  }
+  return merged
+}
+
+/**
+ * Walk the worked minutes between clock-in and clock-out, skipping breaks.
+ * On a working day a minute is overtime once the shift's overtime threshold
+ * has been worked and the minute lies outside the scheduled shift; on rest
+ * days and holidays every worked minute is overtime. Each minute takes the
+ * tier of the office-local date it falls on, so an overnight shift running
+ * into a holiday is paid the holiday rate after midnight.
+ */
+export function calculateOvertimeMinutes(params: {
+  checkIn: Date
+  checkOut: Date
+  breaks: TimeInterval[]
+  effectiveShift: EffectiveShift
+  holidayDates: Set<string>
+}): OvertimeCalculation {
+  const { checkIn, effectiveShift, holidayDates } = params
+  const { shift, shiftDate } = effectiveShift
+  const checkOut = new Date(Math.min(params.checkOut.getTime(), checkIn.getTime() + MAX_WORK_SPAN_MINUTES * 60000))
+
+  const rates: Record<OvertimeRateTier, number> = {
+    weekday: shift.overtimeRateWeekday,
+    weekend: shift.overtimeRateWeekend,
+    holiday: shift.overtimeRateHoliday
+  }
+  const baseTier = getOvertimeRateTier(effectiveShift)
+  const thresholdMinutes = effectiveShift.isWorkingDay
+    ? Math.round(Math.min(shift.overtimeAfterHours, shift.expectedWorkHours) * 60)
+    : 0
+
+  const tierForDate = (date: string): OvertimeRateTier => {
+    if (holidayDates.has(date)) return 'holiday'
+    if (date === shiftDate) return baseTier
+    return isShiftActiveDay(shift, date) ? 'weekday' : 'weekend'
+  }
+
+  const breaks = mergeIntervals(params.breaks)
+  let breakIndex = 0
+  let date = toOfficeDateString(checkIn)
+  let nextMidnight = officeDateTimeToUtc(addDaysToDateString(date, 1), '00:00').getTime()
+
+  const segments: OvertimeSegment[] = []
+  let workedMinutes = 0
+  let breakMinutes = 0
+
+  for (let t = checkIn.getTime(); t + 60000 <= checkOut.getTime(); t += 60000) {
+    while (breakIndex < breaks.length && breaks[breakIndex].end.getTime() <= t) {
+      breakIndex++
+    }
+    if (breakIndex < breaks.length && breaks[breakIndex].start.getTime() <= t) {
+      breakMinutes++
+      continue
+    }
+
+    workedMinutes++
+    const outsideShift = t < effectiveShift.start.getTime() || t >= effectiveShift.end.getTime()
+    if (workedMinutes <= thresholdMinutes || (effectiveShift.isWorkingDay && !outsideShift)) {
+      continue
+    }
+
+    while (t >= nextMidnight) {
+      date = addDaysToDateString(date, 1)
+      nextMidnight = officeDateTimeToUtc(addDaysToDateString(date, 1), '00:00').getTime()
+    }
+
+    const tier = tierForDate(date)
+    const last = segments[segments.length - 1]
+    if (last && last.tier === tier && last.end.getTime() === t) {
+      last.end = new Date(t + 60000)
+      last.minutes++
+    } else {
+      segments.push({ start: new Date(t), end: new Date(t + 60000), minutes: 1, tier, rate: rates[tier] })
+    }
+  }
+
+  const minutesByTier = emptyTiers()
+  segments.forEach(segment => (minutesByTier[segment.tier] += segment.minutes))
+
+  return {
+    workDate: shiftDate,
+    shiftId: shift.id === 'fallback' ? undefined : shift.id,
+    checkIn,
+    checkOut,
+    workedMinutes,
+    breakMinutes,
+    thresholdMinutes,
+    segments,
+    minutesByTier,
+    totalMinutes: segments.reduce((sum, segment) => sum + segment.minutes, 0)
+  }
+}
+
+/**
+ * Keep only the parts of segments inside a window
+ */
+export function clipSegments(segments: OvertimeSegment[], window: TimeInterval): OvertimeSegment[] {
+  const clipped: OvertimeSegment[] = []
+  for (const segment of segments) {
+    const start = new Date(Math.max(segment.start.getTime(), window.start.getTime()))
+    const end = new Date(Math.min(segment.end.getTime(), window.end.getTime()))
+    const minutes = Math.floor((end.getTime() - start.getTime()) / 60000)
+    if (minutes > 0) {
+      clipped.push({ ...segment, start, end, minutes })
+    }
+  }
+  return clipped
+}
+
+/**
+ * Take the first `cap` minutes of the segments in chronological order
+ */
+export function takeMinutes(segments: OvertimeSegment[], cap: number): OvertimeSegment[] {
+  const taken: OvertimeSegment[] = []
+  let remaining = Math.max(0, Math.floor(cap))
+  for (const segment of segments) {
+    if (remaining <= 0) break
+    const minutes = Math.min(segment.minutes, remaining)
+    taken.push({ ...segment, minutes, end: new Date(segment.start.getTime() + minutes * 60000) })
+    remaining -= minutes
+  }
+  return taken
+}
+
+/**
+ * Recompute the minutes that count for a record: nothing unless approved;
+ * pre-approved overtime only inside the planned window; then capped by the
+ * manager's approved minutes and the daily maximum
+ */
+export function applyApproval(record: ServerOvertimeRecord, settings: OvertimeSettings): ServerOvertimeRecord {
+  let counted: OvertimeSegment[] = []
+
+  if (record.status === 'approved') {
+    counted = record.segments
+    if (record.approvalType === 'pre' && record.plannedStart && record.plannedEnd) {
+      counted = clipSegments(counted, { start: record.plannedStart, end: record.plannedEnd })
+    }
+    const caps = [record.approvedMinutesCap, settings.maxDailyMinutes].filter((c): c is number => c !== undefined)
+    if (caps.length > 0) {
+      counted = takeMinutes(counted, Math.min(...caps))
+    }
+  }
+
+  const minutesByTier = emptyTiers()
+  counted.forEach(segment => (minutesByTier[segment.tier] += segment.minutes))
+  const weightedMinutes = counted.reduce((sum, segment) => sum + segment.minutes * segment.rate, 0)
+
+  return {
+    ...record,
+    approvedWeekdayMinutes: minutesByTier.weekday,
+    approvedWeekendMinutes: minutesByTier.weekend,
+    approvedHolidayMinutes: minutesByTier.holiday,
+    weightedHours: Math.round((weightedMinutes / 60) * 100) / 100
+  }
+}
+
+export function getApprovedMinutes(record: ServerOvertimeRecord): number {
+  return record.approvedWeekdayMinutes + record.approvedWeekendMinutes + record.approvedHolidayMinutes
+}
+
+export class OvertimeService {
+  async getSettings(): Promise<OvertimeSettings> {
+    const attendance: ServerSettings['attendance'] | null = await serverDbManager
+      .getSettings('attendance')
+      .catch(() => null)
+    const overtime = attendance?.overtimeSettings
+
+    return {
+      enabled: overtime?.enabled ?? false,
+      requireApproval: overtime?.requireApproval ?? true,
+      maxDailyMinutes: overtime?.maxDailyHours ? Math.round(overtime.maxDailyHours * 60) : undefined
+    }
+  }
+
+  /**
+   * Detect overtime for an employee's attendance day from their check-in,
+   * check-out and breaks. Returns null until the day has both a check-in
+   * and a later check-out.
+   */
+  async calculateDay(userId: string, workDate: string): Promise<OvertimeCalculation | null> {
+    const records = await serverDbManager.getAttendanceRecords({
+      userId,
+      startDate: officeDateTimeToUtc(addDaysToDateString(workDate, -1), '00:00'),
+      endDate: officeDateTimeToUtc(addDaysToDateString(workDate, 2), '00:00')
+    })
+
+    const dayRecords = records
+      .filter(record => attendanceDayOf(record) === workDate)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+    const checkIn = dayRecords.find(record => record.type === 'check-in')
+    const checkOut = [...dayRecords].reverse().find(record => record.type === 'check-out')
+    if (!checkIn || !checkOut || checkOut.timestamp <= checkIn.timestamp) {
+      return null
+    }
+
+    const [effectiveShift, sessions, holidayDates] = await Promise.all([
+      attendanceEvaluation.resolveEffectiveShift(userId, checkIn.timestamp, 'check-in'),
+      serverDbManager.getBreakSessions({ userId, from: checkIn.timestamp, to: checkOut.timestamp }),
+      holidayCalendar.getHolidayDates(userId, workDate, addDaysToDateString(workDate, 1))
+    ])
+
+    // Breaks come from break sessions and from break-start/break-end events
+    const breaks: TimeInterval[] = sessions
+      .filter(session => session.breakEnd)
+      .map(session => ({ start: session.breakStart, end: session.breakEnd! }))
+    let openBreak: Date | null = null
+    for (const record of dayRecords) {
+      if (record.type === 'break-start') {
+        openBreak = record.timestamp
+      } else if (record.type === 'break-end' && openBreak) {
+        breaks.push({ start: openBreak, end: record.timestamp })
+        openBreak = null
+      }
+    }
+
+    return calculateOvertimeMinutes({
+      checkIn: checkIn.timestamp,
+      checkOut: checkOut.timestamp,
+      breaks,
+      effectiveShift,
+      holidayDates: new Set(holidayDates)
+    })
+  }
+
+  /**
+   * Re-detect a day's overtime and refresh its record. Days with new
+   * overtime and no request yet get a pending post-approval record (or an
+   * approved one when approval is switched off).
+   */
+  async recalculateDay(userId: string, workDate: string): Promise<ServerOvertimeRecord | null> {
+    const settings = await this.getSettings()
+    if (!settings.enabled) {
+      return null
+    }
+
+    const lockedPeriod = await serverDbManager.getClosedPayrollPeriodFor(workDate)
+    if (lockedPeriod) {
+      logger.warn('Skipping overtime recalculation in closed payroll period', { userId, workDate, periodId: lockedPeriod.id })
+      return null
+    }
+
+    const [calculation, existing] = await Promise.all([
+      this.calculateDay(userId, workDate),
+      serverDbManager.getOvertimeRecordForDay(userId, workDate)
+    ])
+
+    if (!existing && (!calculation || calculation.totalMinutes === 0)) {
+      return null
+    }
+
+    const now = new Date()
+    const base: ServerOvertimeRecord = existing || {
+      ...this.newRecord(userId, workDate, 'post'),
+      status: settings.requireApproval ? 'pending' : 'approved',
+      approvedAt: settings.requireApproval ? undefined : now
+    }
+
+    const saved = await serverDbManager.saveOvertimeRecord(
+      applyApproval({ ...base, ...this.detectedFields(calculation), calculatedAt: now }, settings)
+    )
+
+    if (!existing && saved.status === 'pending') {
+      await this.notifyManager(saved, `worked ${saved.detectedMinutes} minutes of overtime on ${workDate}`)
+    }
+
+    logger.info('Overtime recalculated', {
+      userId,
+      workDate,
+      detectedMinutes: saved.detectedMinutes,
+      status: saved.status,
+      approvedMinutes: getApprovedMinutes(saved)
+    })
+    return saved
+  }
+
+  /**
+   * Employee asks for overtime: beforehand for a planned window, or afterwards
+   * for overtime already detected on a day
+   */
+  async submitRequest(userId: string, input: OvertimeRequestInput): Promise<OvertimeResult> {
+    const settings = await this.getSettings()
+    if (!settings.enabled) {
+      return failure('Overtime is not enabled', 'OVERTIME_DISABLED')
+    }
+
+    const lockedPeriod = await serverDbManager.getClosedPayrollPeriodFor(input.workDate)
+    if (lockedPeriod) {
+      return periodLocked(lockedPeriod)
+    }
+
+    const existing = await serverDbManager.getOvertimeRecordForDay(userId, input.workDate)
+    if (existing && existing.status !== 'pending' && existing.status !== 'cancelled') {
+      return failure(`Overtime for ${input.workDate} is already ${existing.status}`, 'ALREADY_PROCESSED', 409)
+    }
+
+    let record: ServerOvertimeRecord
+    if (input.type === 'pre') {
+      const plannedStart = officeDateTimeToUtc(input.workDate, input.plannedStart)
+      const endDate =
+        timeStringToMinutes(input.plannedEnd) <= timeStringToMinutes(input.plannedStart)
+          ? addDaysToDateString(input.workDate, 1)
+          : input.workDate
+      const plannedEnd = officeDateTimeToUtc(endDate, input.plannedEnd)
+
+      if (plannedStart <= new Date()) {
+        return failure('Pre-approval must be requested before the overtime starts', 'TOO_LATE')
+      }
+
+      record = {
+        ...(existing || this.newRecord(userId, input.workDate, 'pre')),
+        approvalType: 'pre',
+        plannedStart,
+        plannedEnd,
+        reason: input.reason,
+        requestedBy: userId,
+        status: 'pending'
+      }
+    } else {
+      const calculation = await this.calculateDay(userId, input.workDate)
+      if (!calculation || calculation.totalMinutes === 0) {
+        return failure('No overtime was detected on that day', 'NO_OVERTIME_DETECTED')
+      }
+
+      record = {
+        ...(existing || this.newRecord(userId, input.workDate, 'post')),
+        ...this.detectedFields(calculation),
+        approvalType: existing?.approvalType || 'post',
+        reason: input.reason,
+        requestedBy: userId,
+        status: 'pending',
+        calculatedAt: new Date()
+      }
+    }
+
+    const saved = await serverDbManager.saveOvertimeRecord(applyApproval(record, settings))
+    await this.notifyManager(
+      saved,
+      input.type === 'pre'
+        ? `requested overtime on ${input.workDate} from ${input.plannedStart} to ${input.plannedEnd}`
+        : `claimed ${saved.detectedMinutes} minutes of overtime on ${input.workDate}`
+    )
+
+    logger.info('Overtime requested', { recordId: saved.id, userId, type: input.type, workDate: input.workDate })
+    return { success: true, record: saved }
+  }
+
+  /**
+   * The employee's manager (or HR/admin) approves or rejects; an approval
+   * may grant fewer minutes than requested
+   */
+  async respond(
+    recordId: string,
+    actor: OvertimeActor,
+    response: 'approve' | 'reject',
+    options: { approvedMinutes?: number; rejectionReason?: string } = {}
+  ): Promise<OvertimeResult> {
+    const record = await serverDbManager.getOvertimeRecord(recordId)
+    if (!record) {
+      return failure('Overtime record not found', 'NOT_FOUND', 404)
+    }
+
+    if (record.status !== 'pending') {
+      return failure(`Overtime is already ${record.status}`, 'ALREADY_PROCESSED')
+    }
+
+    const lockedPeriod = await serverDbManager.getClosedPayrollPeriodFor(record.workDate)
+    if (lockedPeriod) {
+      return periodLocked(lockedPeriod)
+    }
+
+    if (record.userId === actor.userId) {
+      return failure('You cannot approve your own overtime', 'NOT_ALLOWED', 403)
+    }
+
+    if (actor.role !== 'hr' && actor.role !== 'admin') {
+      const employee = await serverDbManager.getUser(record.userId)
+      const isAssignedManager = actor.role === 'manager' && (!employee?.managerId || employee.managerId === actor.userId)
+      if (!isAssignedManager) {
+        return failure("Only the employee's manager can approve overtime", 'NOT_ALLOWED', 403)
+      }
+    }
+
+    const settings = await this.getSettings()
+    const now = new Date()
+    const saved = await serverDbManager.saveOvertimeRecord(
+      applyApproval(
+        {
+          ...record,
+          status: response === 'approve' ? 'approved' : 'rejected',
+          approverId: actor.userId,
+          approvedAt: now,
+          approvedMinutesCap: response === 'approve' ? options.approvedMinutes : undefined,
+          rejectionReason: response === 'reject' ? options.rejectionReason : undefined
+        },
+        settings
+      )
+    )
+
+    await serverDbManager.createNotification({
+      userId: saved.userId,
+      title: saved.status === 'approved' ? 'Overtime approved' : 'Overtime rejected',
+      message:
+        saved.status === 'approved'
+          ? `Your overtime on ${saved.workDate} has been approved`
+          : `Your overtime on ${saved.workDate} was rejected${options.rejectionReason ? `: ${options.rejectionReason}` : ''}`,
+      type: saved.status === 'approved' ? 'success' : 'warning',
+      data: { overtimeRecordId: saved.id }
+    })
+
+    logger.info('Overtime processed', {
+      recordId,
+      actorId: actor.userId,
+      status: saved.status,
+      approvedMinutes: getApprovedMinutes(saved)
+    })
+    return { success: true, record: saved }
+  }
+
+  /**
+   * Employee withdraws a pending request
+   */
+  async cancel(recordId: string, actor: OvertimeActor): Promise<OvertimeResult> {
+    const record = await serverDbManager.getOvertimeRecord(recordId)
+    if (!record) {
+      return failure('Overtime record not found', 'NOT_FOUND', 404)
+    }
+
+    if (record.userId !== actor.userId && actor.role !== 'hr' && actor.role !== 'admin') {
+      return failure('You can only cancel your own overtime', 'NOT_ALLOWED', 403)
+    }
+
+    if (record.status !== 'pending') {
+      return failure(`Overtime is already ${record.status}`, 'ALREADY_PROCESSED')
+    }
+
+    const lockedPeriod = await serverDbManager.getClosedPayrollPeriodFor(record.workDate)
+    if (lockedPeriod) {
+      return periodLocked(lockedPeriod)
+    }
+
+    const settings = await this.getSettings()
+    const saved = await serverDbManager.saveOvertimeRecord(applyApproval({ ...record, status: 'cancelled' }, settings))
+
+    logger.info('Overtime cancelled', { recordId, actorId: actor.userId })
+    return { success: true, record: saved }
+  }
+
+  /**
+   * Approved overtime within a date range, keyed by employee and work date
+   */
+  async getApprovedOvertime(
+    startDate: string,
+    endDate: string,
+    userIds?: string[]
+  ): Promise<Map<string, Map<string, ServerOvertimeRecord>>> {
+    const records = await serverDbManager.getOvertimeRecords({
+      userIds,
+      status: 'approved',
+      from: startDate,
+      to: endDate
+    })
+
+    const byUser = new Map<string, Map<string, ServerOvertimeRecord>>()
+    for (const record of records) {
+      const days = byUser.get(record.userId) || new Map<string, ServerOvertimeRecord>()
+      days.set(record.workDate, record)
+      byUser.set(record.userId, days)
+    }
+    return byUser
+  }
+
+  private newRecord(userId: string, workDate: string, approvalType: 'pre' | 'post'): ServerOvertimeRecord {
+    const now = new Date()
+    return {
+      id: crypto.randomUUID(),
+      userId,
+      workDate,
+      approvalType,
+      workedMinutes: 0,
+      detectedMinutes: 0,
+      detectedWeekdayMinutes: 0,
+      detectedWeekendMinutes: 0,
+      detectedHolidayMinutes: 0,
+      segments: [],
+      status: 'pending',
+      approvedWeekdayMinutes: 0,
+      approvedWeekendMinutes: 0,
+      approvedHolidayMinutes: 0,
+      weightedHours: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+  }
+
+  private detectedFields(calculation: OvertimeCalculation | null): Partial<ServerOvertimeRecord> {
+    return {
+      shiftId: calculation?.shiftId,
+      workedMinutes: calculation?.workedMinutes ?? 0,
+      detectedMinutes: calculation?.totalMinutes ?? 0,
+      detectedWeekdayMinutes: calculation?.minutesByTier.weekday ?? 0,
+      detectedWeekendMinutes: calculation?.minutesByTier.weekend ?? 0,
+      detectedHolidayMinutes: calculation?.minutesByTier.holiday ?? 0,
+      segments: calculation?.segments ?? []
+    }
+  }
+
+  private async notifyManager(record: ServerOvertimeRecord, action: string): Promise<void> {
+    const user = await serverDbManager.getUser(record.userId)
+    if (!user?.managerId) return
+
+    await serverDbManager.createNotification({
+      userId: user.managerId,
+      title: 'Overtime approval',
+      message: `${user.name} ${action}`,
+      type: 'info',
+      data: { overtimeRecordId: record.id }
+    })
+  }
+}
+
+// Export singleton instance
+export const overtimeService = new OvertimeService()
@@ -0,0 +1,182 @@
+/**
+ * Payroll Export Formatters
+ * Turns a closed payroll period into files for payroll and bank systems.
+ * Formatters are looked up by id, so new layouts only need registering.
+ */
+
+import type { ServerPayrollPeriod, ServerPayrollEntry, ServerUser } from '@/lib/server-db'
+
+export interface PayrollExportRow {
+  entry: ServerPayrollEntry
+  user: ServerUser | null
+}
+
+export interface PayrollExportFormatter {
+  id: string
+  label: string
+  contentType: string
+  extension: string
+  format(period: ServerPayrollPeriod, rows: PayrollExportRow[]): string
+}
+
+const formatters = new Map<string, PayrollExportFormatter>()
+
+export function registerPayrollFormatter(formatter: PayrollExportFormatter): void {
+  formatters.set(formatter.id, formatter)
+}
+
+export function getPayrollFormatter(id: string): PayrollExportFormatter | null {
+  return formatters.get(id) || null
+}
+
+export function listPayrollFormatters(): Array<Pick<PayrollExportFormatter, 'id' | 'label' | 'extension'>> {
+  return Array.from(formatters.values()).map(({ id, label, extension }) => ({ id, label, extension }))
+}
+
+function minutesToHours(minutes: number): number {
+  return Math.round((minutes / 60) * 100) / 100
+}
+
+function csvValue(value: string | number): string {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// ============================================
+// GENERIC CSV
+// ============================================
+
+registerPayrollFormatter({
+  id: 'csv',
+  label: 'CSV',
+  contentType: 'text/csv',
+  extension: 'csv',
+  format(period, rows) {
+    const header = [
+      'employee_id', 'name', 'department', 'period_start', 'period_end',
+      'hourly_rate', 'rate_source', 'worked_days', 'worked_hours', 'regular_hours',
+      'paid_break_hours', 'unpaid_break_hours', 'adjustment_hours',
+      'overtime_weekday_hours', 'overtime_weekend_hours', 'overtime_holiday_hours', 'overtime_weighted_hours',
+      'approved_exceptions', 'deductions', 'base_pay', 'overtime_pay', 'gross_pay', 'net_pay'
+    ]
+
+    const lines = rows.map(({ entry, user }) => [
+      user?.employeeId || entry.userId,
+      user?.name || 'Unknown',
+      user?.department || '',
+      period.startDate,
+      period.endDate,
+      entry.hourlyRate,
+      entry.rateSource,
+      entry.workedDays,
+      minutesToHours(entry.workedMinutes),
+      minutesToHours(entry.regularMinutes),
+      minutesToHours(entry.paidBreakMinutes),
+      minutesToHours(entry.unpaidBreakMinutes),
+      minutesToHours(entry.adjustmentMinutes),
+      minutesToHours(entry.overtimeWeekdayMinutes),
+      minutesToHours(entry.overtimeWeekendMinutes),
+      minutesToHours(entry.overtimeHolidayMinutes),
+      entry.overtimeWeightedHours,
+      entry.approvedExceptions,
+      entry.deductionAmount,
+      entry.basePay,
+      entry.overtimePay,
+      entry.grossPay,
+      entry.netPay
+    ].map(csvValue).join(','))
+
+    return [header.join(','), ...lines].join('\n')
+  }
+})
+
+// ============================================
+// FIXED-WIDTH BANK TRANSFER
+// ============================================
+
+// Every record is BANK_LINE_WIDTH characters:
+//   H | period start (8) | period end (8) | record count (6) | total amount (18) | filler
+//   D | bank code (10) | account number (20) | account name (30) | amount (15) | employee id (20) | filler
+//   T | record count (6) | total amount (18) | filler
+// Amounts are whole rupiah, zero-padded on the left; text is upper-case
+// ASCII, space-padded on the right.
+const BANK_LINE_WIDTH = 100
+
+function alpha(value: string, width: number): string {
+  const ascii = value.normalize('NFKD').replace(/[^\x20-\x7E]/g, '').toUpperCase()
+  return ascii.slice(0, width).padEnd(width, ' ')
+}
+
+function numeric(value: number, width: number): string {
+  const text = String(Math.max(0, Math.round(value)))
+  if (text.length > width) {
+    throw new Error(`Amount ${text} does not fit in ${width} digits`)
+  }
+  return text.padStart(width, '0')
+}
+
+function bankLine(...fields: string[]): string {
+  return fields.join('').padEnd(BANK_LINE_WIDTH, ' ')
+}
+
+registerPayrollFormatter({
+  id: 'bank',
+  label: 'Bank transfer (fixed width)',
+  contentType: 'text/plain',
+  extension: 'txt',
+  format(period, rows) {
+    const payable = rows.filter(({ entry }) => entry.netPay > 0)
+
+    const missingAccounts = payable.filter(({ user }) => !user?.bankAccountNumber)
+    if (missingAccounts.length > 0) {
+      const names = missingAccounts.map(({ entry, user }) => user?.name || entry.userId).join(', ')
+      throw new Error(`Missing bank account for: ${names}`)
+    }
+
+    const total = payable.reduce((sum, { entry }) => sum + Math.round(entry.netPay), 0)
+    const compactDate = (date: string) => date.replace(/-/g, '')
+
+    const lines = [
+      bankLine('H', compactDate(period.startDate), compactDate(period.endDate), numeric(payable.length, 6), numeric(total, 18)),
+      ...payable.map(({ entry, user }) => bankLine(
+        'D',
+        alpha(user!.bankCode || '', 10),
+        alpha(user!.bankAccountNumber!, 20),
+        alpha(user!.name, 30),
+        numeric(entry.netPay, 15),
+        alpha(user!.employeeId || entry.userId, 20)
+      )),
+      bankLine('T', numeric(payable.length, 6), numeric(total, 18))
+    ]
+
+    return lines.join('\r\n') + '\r\n'
+  }
+})
+
+// ============================================
+// JSON
+// ============================================
+
+registerPayrollFormatter({
+  id: 'json',
+  label: 'JSON',
+  contentType: 'application/json',
+  extension: 'json',
+  format(period, rows) {
+    return JSON.stringify({
+      period: {
+        id: period.id,
+        name: period.name,
+        startDate: period.startDate,
+        endDate: period.endDate,
+        closedAt: period.closedAt
+      },
+      employees: rows.map(({ entry, user }) => ({
+        employeeId: user?.employeeId,
+        name: user?.name,
+        department: user?.department,
+        ...entry
+      }))
+    }, null, 2)
+  }
+})
@@ -0,0 +1,452 @@
+/**
+ * Payroll Period Close
+ * Aggregates each employee's attendance outcomes for a pay period (worked
+ * hours, paid and unpaid breaks, approved overtime by tier, approved
+ * exceptions and work hour adjustments) into payroll entries, priced at the
+ * employee's own hourly rate or their pay grade's. Closing a period stores
+ * the entries and locks the period until it is explicitly reopened.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type {
+  ServerUser,
+  ServerPayGrade,
+  ServerPayrollPeriod,
+  ServerPayrollEntry,
+  ServerAttendanceRecord,
+  ServerBreakSession
+} from '@/lib/server-db'
+import type { PayrollPeriodInput } from '@/lib/validation-schemas'
+import { attendanceDayOf, mergeIntervals } from '@/lib/overtime'
+import type { TimeInterval } from '@/lib/overtime'
+import { getPayrollFormatter } from '@/lib/payroll-export'
+import { toOfficeDateString, officeDateTimeToUtc, addDaysToDateString } from '@/lib/office-time'
+import { logger } from '@/lib/logger'
+
+export interface HourlyRate {
+  hourlyRate: number
+  rateSource: 'employee' | 'grade'
+  payGradeId?: string
+}
+
+export type PayrollResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number; details?: any }
+
+export interface PayrollExportFile {
+  filename: string
+  contentType: string
+  content: string
+}
+
+// Longest stretch between clock-in and clock-out that counts (forgotten check-outs)
+const MAX_WORK_SPAN_MINUTES = 24 * 60
+
+function failure(error: string, errorCode: string, status: number = 400, details?: any) {
+  return { success: false as const, error, errorCode, status, details }
+}
+
+function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+function intervalMinutes(intervals: TimeInterval[]): number {
+  return intervals.reduce((sum, i) => sum + (i.end.getTime() - i.start.getTime()) / 60000, 0)
+}
+
+function clipInterval(interval: TimeInterval, window: TimeInterval): TimeInterval | null {
+  const start = new Date(Math.max(interval.start.getTime(), window.start.getTime()))
+  const end = new Date(Math.min(interval.end.getTime(), window.end.getTime()))
+  return end > start ? { start, end } : null
+}
+
+/**
+ * An employee's own hourly rate wins over their pay grade's; null when
+ * neither is set
+ */
+export function resolveHourlyRate(user: ServerUser, grades: ServerPayGrade[]): HourlyRate | null {
+  if (user.hourlyRate != null) {
+    return { hourlyRate: user.hourlyRate, rateSource: 'employee' }
+  }
+
+  const grade = user.payGradeId ? grades.find(g => g.id === user.payGradeId) : undefined
+  if (grade) {
+    return { hourlyRate: grade.hourlyRate, rateSource: 'grade', payGradeId: grade.id }
+  }
+
+  return null
+}
+
+/**
+ * Worked, paid-break and unpaid-break minutes for one attendance day. Paid
+ * breaks count as worked time; unpaid breaks (and break-start/break-end
+ * events, which carry no pay flag) do not.
+ */
+export function summarizeWorkDay(
+  dayRecords: ServerAttendanceRecord[],
+  sessions: ServerBreakSession[]
+): { workedMinutes: number; paidBreakMinutes: number; unpaidBreakMinutes: number } | null {
+  const sorted = [...dayRecords].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  const checkIn = sorted.find(record => record.type === 'check-in')
+  const checkOut = [...sorted].reverse().find(record => record.type === 'check-out')
+  if (!checkIn || !checkOut || checkOut.timestamp <= checkIn.timestamp) {
+    return null
+  }
+
+  const window: TimeInterval = {
+    start: checkIn.timestamp,
+    end: new Date(Math.min(checkOut.timestamp.getTime(), checkIn.timestamp.getTime() + MAX_WORK_SPAN_MINUTES * 60000))
+  }
+
+  const paid: TimeInterval[] = []
+  const unpaid: TimeInterval[] = []
+  for (const session of sessions) {
+    if (!session.breakEnd) continue
+    const clipped = clipInterval({ start: session.breakStart, end: session.breakEnd }, window)
+    if (clipped) (session.isPaid ? paid : unpaid).push(clipped)
+  }
+
+  let openBreak: Date | null = null
+  for (const record of sorted) {
+    if (record.type === 'break-start') {
+      openBreak = record.timestamp
+    } else if (record.type === 'break-end' && openBreak) {
+      const clipped = clipInterval({ start: openBreak, end: record.timestamp }, window)
+      if (clipped) unpaid.push(clipped)
+      openBreak = null
+    }
+  }
+
+  // Where a paid and an unpaid break overlap, the overlap is unpaid
+  const unpaidMinutes = intervalMinutes(mergeIntervals(unpaid))
+  const allBreakMinutes = intervalMinutes(mergeIntervals([...paid, ...unpaid]))
+  const spanMinutes = intervalMinutes([window])
+
+  return {
+    workedMinutes: Math.round(spanMinutes - unpaidMinutes),
+    paidBreakMinutes: Math.round(allBreakMinutes - unpaidMinutes),
+    unpaidBreakMinutes: Math.round(unpaidMinutes)
+  }
+}
+
+export class PayrollService {
+  /**
+   * Hourly rate for one employee, used wherever attendance outcomes are
+   * priced outside a period close (e.g. exception deductions)
+   */
+  async getHourlyRate(userId: string): Promise<HourlyRate | null> {
+    const [user, grades] = await Promise.all([
+      serverDbManager.getUser(userId),
+      serverDbManager.getPayGrades()
+    ])
+    return user ? resolveHourlyRate(user, grades) : null
+  }
+
+  async createPeriod(input: PayrollPeriodInput, actorId?: string): Promise<PayrollResult<{ period: ServerPayrollPeriod }>> {
+    const overlapping = await serverDbManager.getPayrollPeriods({ from: input.startDate, to: input.endDate })
+    if (overlapping.length > 0) {
+      return failure(`Overlaps payroll period "${overlapping[0].name}"`, 'PERIOD_OVERLAP', 409)
+    }
+
+    const now = new Date()
+    const period = await serverDbManager.savePayrollPeriod({
+      id: crypto.randomUUID(),
+      name: input.name,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      status: 'open',
+      closeCount: 0,
+      createdBy: actorId,
+      createdAt: now,
+      updatedAt: now
+    })
+
+    logger.info('Payroll period created', { periodId: period.id, startDate: period.startDate, endDate: period.endDate })
+    return { success: true, period }
+  }
+
+  /**
+   * Aggregate a period's entries from live attendance data without saving
+   * them. Employees with activity but no rate are reported separately.
+   */
+  async calculatePeriod(period: ServerPayrollPeriod): Promise<{
+    entries: ServerPayrollEntry[]
+    missingRates: Array<{ userId: string; name: string }>
+  }> {
+    const [users, grades, overtime] = await Promise.all([
+      serverDbManager.getUsers({ isActive: true }),
+      serverDbManager.getPayGrades(),
+      serverDbManager.getOvertimeRecords({ from: period.startDate, to: period.endDate })
+    ])
+
+    // Exceptions and adjustments are raised after the attendance they correct
+    const userIds = users.map(user => user.id)
+    const fetchFrom = officeDateTimeToUtc(addDaysToDateString(period.startDate, -1), '00:00')
+    const fetchTo = officeDateTimeToUtc(addDaysToDateString(period.endDate, 2), '00:00')
+    const [approvedExceptions, workHourAdjustments] = await Promise.all([
+      serverDbManager.getApprovedExceptions(userIds, fetchFrom),
+      serverDbManager.getWorkHourAdjustments(userIds, fetchFrom)
+    ])
+
+    const entries: ServerPayrollEntry[] = []
+    const missingRates: Array<{ userId: string; name: string }> = []
+
+    for (const user of users) {
+      // Events are fetched a day either side so overnight shifts resolve to their shift date
+      const [records, sessions] = await Promise.all([
+        serverDbManager.getAttendanceRecords({ userId: user.id, startDate: fetchFrom, endDate: fetchTo }),
+        serverDbManager.getBreakSessions({ userId: user.id, from: fetchFrom, to: fetchTo })
+      ])
+
+      const periodRecords = records.filter(record => {
+        const day = attendanceDayOf(record)
+        return day >= period.startDate && day <= period.endDate
+      })
+      const attendanceIds = new Set(periodRecords.map(record => record.id))
+
+      const days = new Map<string, ServerAttendanceRecord[]>()
+      for (const record of periodRecords) {
+        const day = attendanceDayOf(record)
+        days.set(day, [...(days.get(day) || []), record])
+      }
+
+      const userOvertime = overtime.filter(record => record.userId === user.id)
+      const entry: ServerPayrollEntry = {
+        id: crypto.randomUUID(),
+        periodId: period.id,
+        userId: user.id,
+        hourlyRate: 0,
+        rateSource: 'employee',
+        workedDays: 0,
+        workedMinutes: 0,
+        regularMinutes: 0,
+        paidBreakMinutes: 0,
+        unpaidBreakMinutes: 0,
+        adjustmentMinutes: 0,
+        overtimeWeekdayMinutes: 0,
+        overtimeWeekendMinutes: 0,
+        overtimeHolidayMinutes: 0,
+        overtimeWeightedHours: 0,
+        approvedExceptions: 0,
+        deductionAmount: 0,
+        basePay: 0,
+        overtimePay: 0,
+        grossPay: 0,
+        netPay: 0,
+        createdAt: new Date()
+      }
+      const incompleteDays: string[] = []
+
+      for (const [day, dayRecords] of Array.from(days.entries())) {
+        const summary = summarizeWorkDay(dayRecords, sessions)
+        if (!summary) {
+          incompleteDays.push(day)
+          continue
+        }
+
+        // Detected overtime is paid (once approved) at its tier rate, never as regular time
+        const detectedOvertime = userOvertime.find(record => record.workDate === day)?.detectedMinutes || 0
+        entry.workedDays++
+        entry.workedMinutes += summary.workedMinutes
+        entry.regularMinutes += Math.max(0, summary.workedMinutes - detectedOvertime)
+        entry.paidBreakMinutes += summary.paidBreakMinutes
+        entry.unpaidBreakMinutes += summary.unpaidBreakMinutes
+      }
+
+      for (const record of userOvertime) {
+        if (record.status !== 'approved') continue
+        entry.overtimeWeekdayMinutes += record.approvedWeekdayMinutes
+        entry.overtimeWeekendMinutes += record.approvedWeekendMinutes
+        entry.overtimeHolidayMinutes += record.approvedHolidayMinutes
+        entry.overtimeWeightedHours += record.weightedHours
+      }
+      entry.overtimeWeightedHours = roundMoney(entry.overtimeWeightedHours)
+
+      for (const adjustment of workHourAdjustments) {
+        if (adjustment.userId === user.id && attendanceIds.has(adjustment.attendanceId)) {
+          entry.adjustmentMinutes += Math.round(adjustment.differenceHours * 60)
+        }
+      }
+
+      for (const exception of approvedExceptions) {
+        if (exception.userId !== user.id || !exception.attendanceId || !attendanceIds.has(exception.attendanceId)) continue
+        entry.approvedExceptions++
+        if (exception.affectSalary) {
+          entry.deductionAmount += exception.salaryDeductionAmount
+        }
+      }
+
+      const hasActivity =
+        entry.workedDays > 0 ||
+        entry.overtimeWeightedHours > 0 ||
+        entry.adjustmentMinutes !== 0 ||
+        entry.approvedExceptions > 0
+      if (!hasActivity) continue
+
+      const rate = resolveHourlyRate(user, grades)
+      if (!rate) {
+        missingRates.push({ userId: user.id, name: user.name })
+        continue
+      }
+
+      entry.hourlyRate = rate.hourlyRate
+      entry.rateSource = rate.rateSource
+      entry.payGradeId = rate.payGradeId
+      entry.deductionAmount = roundMoney(entry.deductionAmount)
+      entry.basePay = roundMoney(((entry.regularMinutes + entry.adjustmentMinutes) / 60) * rate.hourlyRate)
+      entry.overtimePay = roundMoney(entry.overtimeWeightedHours * rate.hourlyRate)
+      entry.grossPay = roundMoney(entry.basePay + entry.overtimePay)
+      entry.netPay = roundMoney(Math.max(0, entry.grossPay - entry.deductionAmount))
+      if (incompleteDays.length > 0) {
+        entry.metadata = { incompleteDays }
+      }
+
+      entries.push(entry)
+    }
+
+    return { entries, missingRates }
+  }
+
+  /**
+   * Close a period that has ended: store its entries and lock it
+   */
+  async closePeriod(
+    periodId: string,
+    actorId?: string
+  ): Promise<PayrollResult<{ period: ServerPayrollPeriod; entries: ServerPayrollEntry[] }>> {
+    const period = await serverDbManager.getPayrollPeriod(periodId)
+    if (!period) {
+      return failure('Payroll period not found', 'NOT_FOUND', 404)
+    }
+
+    if (period.status === 'closed') {
+      return failure('Payroll period is already closed', 'ALREADY_CLOSED', 409)
+    }
+
+    if (period.endDate >= toOfficeDateString(new Date())) {
+      return failure('A payroll period can only be closed after its last day', 'PERIOD_NOT_ENDED')
+    }
+
+    const { entries, missingRates } = await this.calculatePeriod(period)
+    if (missingRates.length > 0) {
+      return failure(
+        'Some employees have no hourly rate or pay grade',
+        'MISSING_RATES',
+        422,
+        { employees: missingRates }
+      )
+    }
+
+    // Entries and the closed status are written together, and only if the
+    // period hasn't been closed or reopened while they were calculated
+    const { result, error } = await serverDbManager.closePayrollPeriod(period.id, period.closeCount, entries, actorId)
+    if (error || !result) {
+      if (error?.message === 'ALREADY_CLOSED') {
+        return failure('Payroll period is already closed', 'ALREADY_CLOSED', 409)
+      }
+      if (error?.message === 'PERIOD_CHANGED') {
+        return failure('Payroll period changed while it was being closed; try again', 'PERIOD_CHANGED', 409)
+      }
+      logger.error('Error closing payroll period', new Error(error?.message || 'Unknown error'))
+      return failure('Failed to close payroll period', 'SERVER_ERROR', 500)
+    }
+    const { period: closed, entries: savedEntries } = result
+
+    await serverDbManager.createAuditLog({
+      userId: actorId,
+      action: 'payroll_period_closed',
+      resource: 'payroll_periods',
+      resourceId: period.id,
+      details: {
+        entries: savedEntries.length,
+        netPay: roundMoney(savedEntries.reduce((sum, entry) => sum + entry.netPay, 0))
+      }
+    })
+
+    logger.info('Payroll period closed', { periodId: period.id, entries: savedEntries.length })
+    return { success: true, period: closed, entries: savedEntries }
+  }
+
+  /**
+   * Unlock a closed period so its attendance can be corrected; it must be
+   * closed again before it can be exported
+   */
+  async reopenPeriod(
+    periodId: string,
+    reason: string,
+    actorId?: string
+  ): Promise<PayrollResult<{ period: ServerPayrollPeriod }>> {
+    const period = await serverDbManager.getPayrollPeriod(periodId)
+    if (!period) {
+      return failure('Payroll period not found', 'NOT_FOUND', 404)
+    }
+
+    if (period.status !== 'closed') {
+      return failure('Payroll period is not closed', 'NOT_CLOSED', 409)
+    }
+
+    const now = new Date()
+    const reopened = await serverDbManager.savePayrollPeriod({
+      ...period,
+      status: 'open',
+      reopenedAt: now,
+      reopenedBy: actorId,
+      reopenReason: reason,
+      updatedAt: now
+    })
+
+    await serverDbManager.createAuditLog({
+      userId: actorId,
+      action: 'payroll_period_reopened',
+      resource: 'payroll_periods',
+      resourceId: period.id,
+      details: { reason }
+    })
+
+    logger.info('Payroll period reopened', { periodId: period.id, reason })
+    return { success: true, period: reopened }
+  }
+
+  /**
+   * Render a closed period's stored entries through an export formatter
+   */
+  async exportPeriod(periodId: string, formatId: string): Promise<PayrollResult<{ file: PayrollExportFile }>> {
+    const formatter = getPayrollFormatter(formatId)
+    if (!formatter) {
+      return failure(`Unknown export format: ${formatId}`, 'UNKNOWN_FORMAT')
+    }
+
+    const period = await serverDbManager.getPayrollPeriod(periodId)
+    if (!period) {
+      return failure('Payroll period not found', 'NOT_FOUND', 404)
+    }
+
+    if (period.status !== 'closed') {
+      return failure('Only closed payroll periods can be exported', 'NOT_CLOSED', 409)
+    }
+
+    const entries = await serverDbManager.getPayrollEntries(period.id)
+    const rows = await Promise.all(
+      entries.map(async entry => ({ entry, user: await serverDbManager.getUser(entry.userId) }))
+    )
+    rows.sort((a, b) => (a.user?.name || '').localeCompare(b.user?.name || ''))
+
+    let content: string
+    try {
+      content = formatter.format(period, rows)
+    } catch (error) {
+      return failure((error as Error).message, 'EXPORT_FAILED', 422)
+    }
+
+    return {
+      success: true,
+      file: {
+        filename: `payroll-${period.startDate}-${period.endDate}.${formatter.extension}`,
+        contentType: formatter.contentType,
+        content
+      }
+    }
+  }
+}
+
+export const payrollService = new PayrollService()
@@ -0,0 +1,259 @@
+/**
+ * Punch Log Parsers
+ * Reads raw punch logs exported by third-party time clocks (fingerprint,
+ * RFID) into a common punch shape: badge/PIN, office-local date and time,
+ * and the in/out state the terminal reported, if any. Parsers are pluggable
+ * through the registry; pairing punches into attendance events happens
+ * server-side in lib/punch-pairing.ts.
+ */
+
+import * as Papa from 'papaparse'
+
+export type PunchState = 'check-in' | 'check-out' | 'break-start' | 'break-end'
+
+export interface RawPunch {
+  line: number // 1-based line (or data row) in the source file
+  externalId: string // Badge, card or PIN number on the terminal
+  date: string // Office-local YYYY-MM-DD
+  time: string // Office-local HH:mm:ss
+  state?: PunchState // As reported by the terminal
+  device?: string
+}
+
+export interface PunchLogParseResult {
+  punches: RawPunch[]
+  errors: Array<{ line: number; message: string }>
+}
+
+export interface PunchLogParser {
+  id: string
+  label: string
+  // Whether the content looks like this parser's format
+  detect(content: string, filename?: string): boolean
+  parse(content: string): PunchLogParseResult
+}
+
+// Terminal state codes and labels. ZKTeco-style numeric codes: 0 in, 1 out,
+// 2 break out, 3 break in, 4 overtime in, 5 overtime out.
+const STATE_ALIASES: Record<string, PunchState> = {
+  '0': 'check-in',
+  '1': 'check-out',
+  '2': 'break-start',
+  '3': 'break-end',
+  '4': 'check-in',
+  '5': 'check-out',
+  'i': 'check-in',
+  'in': 'check-in',
+  'c/in': 'check-in',
+  'checkin': 'check-in',
+  'check-in': 'check-in',
+  'check in': 'check-in',
+  'o': 'check-out',
+  'out': 'check-out',
+  'c/out': 'check-out',
+  'checkout': 'check-out',
+  'check-out': 'check-out',
+  'check out': 'check-out',
+  'break out': 'break-start',
+  'break-out': 'break-start',
+  'break-start': 'break-start',
+  'break in': 'break-end',
+  'break-in': 'break-end',
+  'break-end': 'break-end',
+  'ot in': 'check-in',
+  'overtime in': 'check-in',
+  'ot out': 'check-out',
+  'overtime out': 'check-out'
+}
+
+export function toPunchState(value: string | undefined): PunchState | undefined {
+  if (!value) return undefined
+  return STATE_ALIASES[value.trim().toLowerCase()]
+}
+
+/**
+ * Split a terminal timestamp into office-local date and time. Year-first
+ * dates (2025-01-06, 2025/01/06, ISO) and day-first dates (06/01/2025,
+ * 06-01-2025) are accepted; a trailing UTC offset is ignored, since
+ * terminals log wall-clock time.
+ */
+export function parsePunchTimestamp(value: string): { date: string; time: string } | null {
+  const text = value.trim()
+  const pad = (n: string) => n.padStart(2, '0')
+
+  const yearFirst = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?/)
+  const dayFirst = yearFirst ? null : text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?/)
+  const match = yearFirst || dayFirst
+  if (!match) return null
+
+  const year = yearFirst ? match[1] : match[3]
+  const month = match[2]
+  const day = yearFirst ? match[3] : match[1]
+  const [hours, minutes, seconds = '00'] = [match[4], match[5], match[6]]
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return null
+  if (Number(hours) > 23 || Number(minutes) > 59 || Number(seconds) > 59) return null
+
+  return {
+    date: `${year}-${pad(month)}-${pad(day)}`,
+    time: `${pad(hours)}:${minutes}:${pad(seconds)}`
+  }
+}
+
+/**
+ * ZKTeco-style attendance log (attlog.dat / attlog.txt): one punch per line,
+ * whitespace separated, no header:
+ *   PIN  YYYY-MM-DD HH:mm:ss  verify  state  workcode  reserved
+ * Only PIN and timestamp are required; state is the punch state code.
+ */
+export class ZktecoAttlogParser implements PunchLogParser {
+  id = 'zkteco_attlog'
+  label = 'ZKTeco attendance log (attlog)'
+
+  private static LINE = /^\s*(\S+)\s+(\d{4}-\d{2}-\d{2}\s+\d{1,2}:\d{2}(?::\d{2})?)(?:\s+(\S+))?(?:\s+(\S+))?/
+
+  detect(content: string, filename?: string): boolean {
+    if (filename && /attlog/i.test(filename)) return true
+    const lines = content.split(/\r?\n/).filter(line => line.trim()).slice(0, 5)
+    // A stray garbled line should not hide the format
+    const matching = lines.filter(line => ZktecoAttlogParser.LINE.test(line) && !line.includes(','))
+    return lines.length > 0 && matching.length * 2 > lines.length
+  }
+
+  parse(content: string): PunchLogParseResult {
+    const result: PunchLogParseResult = { punches: [], errors: [] }
+
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return
+      const match = line.match(ZktecoAttlogParser.LINE)
+      const timestamp = match && parsePunchTimestamp(match[2])
+      if (!match || !timestamp) {
+        result.errors.push({ line: index + 1, message: 'Unrecognized attlog line' })
+        return
+      }
+
+      result.punches.push({
+        line: index + 1,
+        externalId: match[1],
+        ...timestamp,
+        state: toPunchState(match[4])
+      })
+    })
+
+    return result
+  }
+}
+
+// Header names terminals use for each column, after lowercasing and
+// collapsing spaces, dots and dashes to underscores
+const CSV_COLUMNS = {
+  externalId: ['badge', 'badge_id', 'badge_no', 'badge_number', 'card', 'card_no', 'card_number', 'pin', 'ac_no', 'enroll_number', 'enrollnumber', 'user_id', 'userid', 'emp_no', 'employee_no', 'external_id'],
+  timestamp: ['timestamp', 'datetime', 'date_time', 'punch_time', 'check_time', 'checktime', 'time_stamp', 'log_time'],
+  date: ['date', 'punch_date'],
+  time: ['time', 'clock_time'],
+  state: ['state', 'status', 'direction', 'in_out', 'inout', 'punch_state', 'checktype', 'check_type', 'type'],
+  device: ['device', 'device_id', 'terminal', 'terminal_id', 'sn', 'machine', 'machine_no']
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s.\-/]+/g, '_').replace(/^_+|_+$/g, '')
+}
+
+function findColumn(headers: string[], aliases: string[]): string | undefined {
+  return headers.find(header => aliases.includes(normalizeHeader(header)))
+}
+
+/**
+ * CSV export with a header row: a badge/PIN column and either a combined
+ * timestamp column or separate date and time columns; optional state and
+ * device columns. Comma, semicolon and tab delimiters are detected.
+ */
+export class BadgeCsvParser implements PunchLogParser {
+  id = 'badge_csv'
+  label = 'CSV with badge ID and timestamp'
+
+  detect(content: string): boolean {
+    const header = content.split(/\r?\n/, 1)[0] || ''
+    const headers = header.split(/[,;\t]/)
+    return !!findColumn(headers, CSV_COLUMNS.externalId) &&
+      (!!findColumn(headers, CSV_COLUMNS.timestamp) || !!findColumn(headers, CSV_COLUMNS.date))
+  }
+
+  parse(content: string): PunchLogParseResult {
+    const result: PunchLogParseResult = { punches: [], errors: [] }
+    const parsed = Papa.parse<Record<string, string>>(content, { header: true, skipEmptyLines: true })
+    const headers = parsed.meta.fields || []
+
+    const columns = {
+      externalId: findColumn(headers, CSV_COLUMNS.externalId),
+      timestamp: findColumn(headers, CSV_COLUMNS.timestamp),
+      date: findColumn(headers, CSV_COLUMNS.date),
+      time: findColumn(headers, CSV_COLUMNS.time),
+      state: findColumn(headers, CSV_COLUMNS.state),
+      device: findColumn(headers, CSV_COLUMNS.device)
+    }
+
+    if (!columns.externalId || !(columns.timestamp || columns.date)) {
+      result.errors.push({ line: 1, message: 'Header needs a badge/PIN column and a timestamp (or date and time) column' })
+      return result
+    }
+
+    parsed.data.forEach((row, index) => {
+      // Data rows start on line 2, after the header
+      const line = index + 2
+      const externalId = row[columns.externalId!]?.trim()
+      // A date column without a time column carries the full timestamp
+      const raw = columns.timestamp
+        ? row[columns.timestamp]
+        : columns.time
+          ? `${row[columns.date!] ?? ''} ${row[columns.time] ?? ''}`
+          : row[columns.date!]
+      const timestamp = raw ? parsePunchTimestamp(raw) : null
+
+      if (!externalId) {
+        result.errors.push({ line, message: 'Missing badge/PIN' })
+        return
+      }
+      if (!timestamp) {
+        result.errors.push({ line, message: `Unrecognized timestamp "${(raw || '').trim()}"` })
+        return
+      }
+
+      result.punches.push({
+        line,
+        externalId,
+        ...timestamp,
+        state: columns.state ? toPunchState(row[columns.state]) : undefined,
+        device: columns.device ? row[columns.device]?.trim() || undefined : undefined
+      })
+    })
+
+    return result
+  }
+}
+
+export class PunchLogParserRegistry {
+  private parsers = new Map<string, PunchLogParser>()
+
+  register(parser: PunchLogParser): void {
+    this.parsers.set(parser.id, parser)
+  }
+
+  get(id: string): PunchLogParser | undefined {
+    return this.parsers.get(id)
+  }
+
+  list(): Array<{ id: string; label: string }> {
+    return Array.from(this.parsers.values()).map(({ id, label }) => ({ id, label }))
+  }
+
+  /**
+   * First registered parser that recognises the content
+   */
+  detect(content: string, filename?: string): PunchLogParser | undefined {
+    return Array.from(this.parsers.values()).find(parser => parser.detect(content, filename))
+  }
+}
+
+export const punchLogParsers = new PunchLogParserRegistry()
+punchLogParsers.register(new ZktecoAttlogParser())
+punchLogParsers.register(new BadgeCsvParser())
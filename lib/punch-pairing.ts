@@ -0,0 +1,101 @@
+/**
+ * Punch Pairing
+ * Turns one employee's raw time-clock punches into attendance events using
+ * their shift rules: punches are grouped into the shift they fall in (see
+ * AttendanceEvaluationService.resolveEffectiveShift), the first punch of a
+ * shift is the check-in, the last the check-out, and punches in between
+ * pair up as break start and end. Terminal-reported states win when the
+ * terminal actually distinguishes them.
+ */
+
+import { attendanceEvaluation, evaluateAgainstShift } from '@/lib/attendance-evaluation'
+import type { AttendanceEventType, EffectiveShift } from '@/lib/attendance-evaluation'
+import type { RawPunch } from '@/lib/punch-log-parsers'
+
+export interface PairedPunch {
+  punch: RawPunch
+  at: Date
+  type?: AttendanceEventType
+  status?: 'present' | 'late' | 'early_leave'
+  effectiveShift?: EffectiveShift
+  // Why the punch produces no event
+  ignored?: string
+}
+
+// Repeat punches closer than this to the previous one are double scans
+const DOUBLE_PUNCH_SECONDS = 60
+
+/**
+ * Event types for one shift's punches by position
+ */
+function positionalTypes(group: PairedPunch[], shift: EffectiveShift): Array<AttendanceEventType | undefined> {
+  if (group.length === 1) {
+    // A lone punch is whichever end of the shift it is nearer to
+    const t = group[0].at.getTime()
+    return [Math.abs(t - shift.start.getTime()) <= Math.abs(t - shift.end.getTime()) ? 'check-in' : 'check-out']
+  }
+
+  const types: Array<AttendanceEventType | undefined> = group.map(() => undefined)
+  types[0] = 'check-in'
+  types[group.length - 1] = 'check-out'
+
+  const middle = group.length - 2
+  for (let i = 1; i <= middle; i++) {
+    // An odd punch out has no partner; it stays unassigned
+    if (middle % 2 === 1 && i === middle) break
+    types[i] = i % 2 === 1 ? 'break-start' : 'break-end'
+  }
+  return types
+}
+
+export class PunchPairingService {
+  /**
+   * Pair one employee's punches; returns them sorted by time
+   */
+  async pair(userId: string, punches: Array<{ punch: RawPunch; at: Date }>): Promise<PairedPunch[]> {
+    const sorted: PairedPunch[] = [...punches].sort((a, b) => a.at.getTime() - b.at.getTime())
+
+    let previous: PairedPunch | undefined
+    const groups: Array<{ shift: EffectiveShift; punches: PairedPunch[] }> = []
+
+    for (const paired of sorted) {
+      if (previous && paired.at.getTime() - previous.at.getTime() < DOUBLE_PUNCH_SECONDS * 1000) {
+        paired.ignored = `Repeat of the punch on line ${previous.punch.line}`
+        continue
+      }
+      previous = paired
+
+      const current = groups[groups.length - 1]
+      if (current && paired.at <= current.shift.windowEnd) {
+        current.punches.push(paired)
+        continue
+      }
+
+      const shift = await attendanceEvaluation.resolveEffectiveShift(userId, paired.at, 'check-in')
+      groups.push({ shift, punches: [paired] })
+    }
+
+    for (const { shift, punches: group } of groups) {
+      // Many terminals report "in" for every punch; only trust states that vary
+      const trusted = group.some(paired => paired.punch.state && paired.punch.state !== 'check-in')
+      const positional = positionalTypes(group, shift)
+
+      group.forEach((paired, index) => {
+        paired.effectiveShift = shift
+        paired.type = (trusted && paired.punch.state) || positional[index]
+
+        if (!paired.type) {
+          paired.ignored = 'Unpaired punch between check-in and check-out'
+          return
+        }
+        if (paired.type === 'check-in' || paired.type === 'check-out') {
+          paired.status = evaluateAgainstShift(shift, paired.at, paired.type).status
+        }
+      })
+    }
+
+    return sorted
+  }
+}
+
+export const punchPairing = new PunchPairingService()
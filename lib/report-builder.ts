@@ -1,5 +1,6 @@
 
 import { z } from 'zod'
+import { ApiClient } from '@/lib/api-client'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Define interfaces for report builder
@@ -20,6 +21,11 @@ export interface ReportConfig {
   createdAt: string
   updatedAt: string
   createdBy: string
+  // Set once saved (migration 022)
+  ownerId?: string
+  version?: number
+  isPublic?: boolean
+  sharedWith?: string[]
 }
 
 export interface ReportField {
@@ -69,16 +75,28 @@ export interface ChartOptions {
 export interface ReportSchedule {
   enabled: boolean
   frequency: 'daily' | 'weekly' | 'monthly'
-  time: string
+  time: string // HH:mm, office time
+  dayOfWeek?: number // 0 = Sunday, weekly schedules
+  dayOfMonth?: number // monthly schedules
   recipients: string[]
-  nextRun: string
+  // Delivery channels; email to the recipients when omitted
+  channels?: Array<{ type: string; target?: string }>
+  // Set by the scheduler when the definition is saved
+  nextRun?: string
 }
 
 export interface ReportData {
   headers: string[]
   rows: any[][]
   summary?: Record<string, any>
+  // One row per group with its count and aggregations
+  groups?: {
+    headers: string[]
+    rows: any[][]
+  }
   chartData?: ChartData
+  totalRecords?: number
+  generatedAt?: string
 }
 
 export interface ChartData {
@@ -251,158 +269,28 @@ export class ReportBuilder {
     return { ...this.config }
   }
 
-  // Build report
+  // Build report on the server from live data
   async build(): Promise<ReportData> {
-    // Mock implementation
-    // In a real implementation, this would query the database and build the report
-    const { dataSource, fields, filters, groupBy, sortBy, aggregations, chartType } = this.config
-    
-    // Get mock data based on data source
-    let mockData: any[] = []
-    switch (dataSource) {
-      case 'employees':
-        mockData = getMockEmployeeData()
-        break
-      case 'attendance':
-        mockData = getMockAttendanceData()
-        break
-      case 'schedules':
-        mockData = getMockScheduleData()
-        break
-    }
-    
-    // Apply filters
-    let filteredData = mockData
-    for (const filter of filters) {
-      filteredData = applyFilter(filteredData, filter)
-    }
-    
-    // Apply group by
-    if (groupBy && groupBy.length > 0) {
-      filteredData = applyGroupBy(filteredData, groupBy, aggregations || [])
-    }
-    
-    // Apply sort
-    if (sortBy) {
-      for (const sort of sortBy) {
-        filteredData = applySort(filteredData, sort)
-      }
-    }
-    
-    // Build report data
-    const headers = fields
-      .filter(field => field.visible)
-      .sort((a, b) => a.order - b.order)
-      .map(field => field.label)
-    
-    const rows = filteredData.map(row => {
-      return fields
-        .filter(field => field.visible)
-        .sort((a, b) => a.order - b.order)
-        .map(field => {
-          let value = row[field.name]
-          
-          // Apply formatting
-          if (field.format && value !== undefined && value !== null) {
-            switch (field.type) {
-              case 'date':
-                value = formatDate(value, field.format)
-                break
-              case 'number':
-                value = formatNumber(value, field.format)
-                break
-              default:
-                break
-            }
-          }
-          
-          return value
-        })
-    })
-    
-    // Generate chart data if chart type is specified
-    let chartData: ChartData | undefined
-    if (chartType && groupBy && groupBy.length > 0) {
-      chartData = generateChartData(filteredData, groupBy, aggregations || [], chartType)
-    }
-    
-    // Generate summary
-    let summary: Record<string, any> | undefined
-    if (aggregations && aggregations.length > 0) {
-      summary = {}
-      for (const agg of aggregations) {
-        summary[agg.label] = calculateAggregation(filteredData, agg)
-      }
-    }
-    
-    return {
-      headers,
-      rows,
-      summary,
-      chartData
-    }
+    const response = await ApiClient.buildReport({ config: this.getConfig() })
+    return response.data
   }
 
-  // Export report
+  // Export report as a PDF, Excel or CSV file rendered on the server
   async export(format?: 'pdf' | 'excel' | 'csv'): Promise<Blob> {
-    const exportFormat = format || this.config.exportFormat
-    const reportData = await this.build()
-    
-    // Mock implementation
-    // In a real implementation, this would generate and return the actual file
-    switch (exportFormat) {
-      case 'pdf':
-        return new Blob(['PDF content'], { type: 'application/pdf' })
-      case 'excel':
-        return new Blob(['Excel content'], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
-      case 'csv':
-        return new Blob(['CSV content'], { type: 'text/csv' })
-      default:
-        return new Blob(['Report content'], { type: 'text/plain' })
-    }
+    return ApiClient.exportReport({ config: this.getConfig(), format: format || this.config.exportFormat })
   }
 
-  // Save report
+  // Save report; the first save creates it, later saves add a version
   async save(): Promise<ReportConfig> {
-    // Mock implementation
-    // In a real implementation, this would save to database
-    this.config.updatedAt = new Date().toISOString()
-    return this.config
+    const response = await ApiClient.saveReportDefinition(this.config)
+    this.config = { ...this.config, ...response.data }
+    return this.getConfig()
   }
 
   // Load report
   static async load(id: string): Promise<ReportBuilder> {
-    // Mock implementation
-    // In a real implementation, this would load from database
-    const mockConfig: ReportConfig = {
-      id,
-      name: 'Sample Report',
-      description: 'A sample report',
-      dataSource: 'employees',
-      fields: [
-        { name: 'name', label: 'Name', type: 'string', visible: true, order: 0 },
-        { name: 'department', label: 'Department', type: 'string', visible: true, order: 1 },
-        { name: 'salary', label: 'Salary', type: 'number', visible: true, order: 2 }
-      ],
-      filters: [],
-      groupBy: ['department'],
-      sortBy: [{ field: 'name', direction: 'asc' }],
-      aggregations: [
-        { field: 'salary', function: 'avg', label: 'Average Salary' }
-      ],
-      chartType: 'bar',
-      chartOptions: {
-        title: 'Employee Report',
-        xAxis: { label: 'Department', type: 'category' },
-        yAxis: { label: 'Salary' }
-      },
-      exportFormat: 'pdf',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-      createdBy: 'System'
-    }
-    
-    return new ReportBuilder(mockConfig)
+    const response = await ApiClient.getReportDefinition(id)
+    return new ReportBuilder(response.data)
   }
 
   // Get available fields for data source
@@ -415,111 +303,61 @@ export class ReportBuilder {
           { name: 'email', label: 'Email', type: 'string', visible: true, order: 2 },
           { name: 'employeeId', label: 'Employee ID', type: 'string', visible: true, order: 3 },
           { name: 'department', label: 'Department', type: 'string', visible: true, order: 4 },
-          { name: 'role', label: 'Role', type: 'string', visible: true, order: 5 },
-          { name: 'phone', label: 'Phone', type: 'string', visible: false, order: 6 },
-          { name: 'address', label: 'Address', type: 'string', visible: false, order: 7 },
-          { name: 'startDate', label: 'Start Date', type: 'date', visible: true, order: 8 },
-          { name: 'salary', label: 'Salary', type: 'number', visible: true, order: 9 },
-          { name: 'manager', label: 'Manager', type: 'string', visible: false, order: 10 },
-          { name: 'status', label: 'Status', type: 'string', visible: true, order: 11 }
+          { name: 'position', label: 'Position', type: 'string', visible: false, order: 5 },
+          { name: 'role', label: 'Role', type: 'string', visible: true, order: 6 },
+          { name: 'phone', label: 'Phone', type: 'string', visible: false, order: 7 },
+          { name: 'address', label: 'Address', type: 'string', visible: false, order: 8 },
+          { name: 'startDate', label: 'Start Date', type: 'date', visible: true, order: 9 },
+          { name: 'hourlyRate', label: 'Hourly Rate', type: 'number', visible: false, order: 10 },
+          { name: 'manager', label: 'Manager', type: 'string', visible: false, order: 11 },
+          { name: 'status', label: 'Status', type: 'string', visible: true, order: 12 }
         ]
       case 'attendance':
         return [
           { name: 'id', label: 'ID', type: 'string', visible: false, order: 0 },
           { name: 'employeeId', label: 'Employee ID', type: 'string', visible: true, order: 1 },
-          { name: 'date', label: 'Date', type: 'date', visible: true, order: 2 },
-          { name: 'type', label: 'Type', type: 'string', visible: true, order: 3 },
-          { name: 'timestamp', label: 'Timestamp', type: 'date', visible: true, order: 4 },
-          { name: 'location', label: 'Location', type: 'string', visible: false, order: 5 },
-          { name: 'notes', label: 'Notes', type: 'string', visible: false, order: 6 },
-          { name: 'approvedBy', label: 'Approved By', type: 'string', visible: false, order: 7 },
-          { name: 'status', label: 'Status', type: 'string', visible: true, order: 8 }
+          { name: 'employeeName', label: 'Employee', type: 'string', visible: true, order: 2 },
+          { name: 'department', label: 'Department', type: 'string', visible: false, order: 3 },
+          { name: 'date', label: 'Date', type: 'date', visible: true, order: 4 },
+          { name: 'type', label: 'Type', type: 'string', visible: true, order: 5 },
+          { name: 'timestamp', label: 'Timestamp', type: 'date', visible: true, order: 6 },
+          { name: 'location', label: 'Location', type: 'string', visible: false, order: 7 },
+          { name: 'notes', label: 'Notes', type: 'string', visible: false, order: 8 },
+          { name: 'status', label: 'Status', type: 'string', visible: true, order: 9 },
+          { name: 'lateMinutes', label: 'Late (min)', type: 'number', visible: false, order: 10 },
+          { name: 'verified', label: 'Verified', type: 'boolean', visible: false, order: 11 },
+          { name: 'method', label: 'Method', type: 'string', visible: false, order: 12 },
+          { name: 'cosignedBy', label: 'Co-signed By', type: 'string', visible: false, order: 13 }
         ]
       case 'schedules':
         return [
           { name: 'id', label: 'ID', type: 'string', visible: false, order: 0 },
           { name: 'employeeId', label: 'Employee ID', type: 'string', visible: true, order: 1 },
-          { name: 'startDate', label: 'Start Date', type: 'date', visible: true, order: 2 },
-          { name: 'endDate', label: 'End Date', type: 'date', visible: true, order: 3 },
-          { name: 'shiftType', label: 'Shift Type', type: 'string', visible: true, order: 4 },
-          { name: 'location', label: 'Location', type: 'string', visible: false, order: 5 },
-          { name: 'notes', label: 'Notes', type: 'string', visible: false, order: 6 },
-          { name: 'approvedBy', label: 'Approved By', type: 'string', visible: false, order: 7 },
-          { name: 'status', label: 'Status', type: 'string', visible: true, order: 8 }
+          { name: 'employeeName', label: 'Employee', type: 'string', visible: true, order: 2 },
+          { name: 'date', label: 'Date', type: 'date', visible: true, order: 3 },
+          { name: 'scheduleName', label: 'Schedule', type: 'string', visible: true, order: 4 },
+          { name: 'shiftType', label: 'Shift Type', type: 'string', visible: true, order: 5 },
+          { name: 'startTime', label: 'Start Time', type: 'string', visible: false, order: 6 },
+          { name: 'endTime', label: 'End Time', type: 'string', visible: false, order: 7 },
+          { name: 'location', label: 'Location', type: 'string', visible: false, order: 8 },
+          { name: 'notes', label: 'Notes', type: 'string', visible: false, order: 9 },
+          { name: 'status', label: 'Status', type: 'string', visible: true, order: 10 }
         ]
       default:
         return []
     }
   }
 
-  // Get all reports
+  // Get all reports visible to the current user
   static async getAll(): Promise<ReportConfig[]> {
-    // Mock implementation
-    // In a real implementation, this would fetch from database
-    return [
-      {
-        id: 'report-1',
-        name: 'Employee Department Report',
-        description: 'Report showing employees by department',
-        dataSource: 'employees',
-        fields: [
-          { name: 'name', label: 'Name', type: 'string', visible: true, order: 0 },
-          { name: 'department', label: 'Department', type: 'string', visible: true, order: 1 },
-          { name: 'role', label: 'Role', type: 'string', visible: true, order: 2 }
-        ],
-        filters: [],
-        groupBy: ['department'],
-        sortBy: [{ field: 'name', direction: 'asc' }],
-        aggregations: [
-          { field: 'id', function: 'count', label: 'Employee Count' }
-        ],
-        chartType: 'bar',
-        chartOptions: {
-          title: 'Employees by Department',
-          xAxis: { label: 'Department', type: 'category' },
-          yAxis: { label: 'Count' }
-        },
-        exportFormat: 'pdf',
-        createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-        updatedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
-        createdBy: 'Admin'
-      },
-      {
-        id: 'report-2',
-        name: 'Attendance Summary',
-        description: 'Summary of attendance records',
-        dataSource: 'attendance',
-        fields: [
-          { name: 'employeeId', label: 'Employee ID', type: 'string', visible: true, order: 0 },
-          { name: 'date', label: 'Date', type: 'date', visible: true, order: 1 },
-          { name: 'type', label: 'Type', type: 'string', visible: true, order: 2 }
-        ],
-        filters: [
-          { field: 'date', operator: 'greater_than', value: '2025-01-01' }
-        ],
-        groupBy: ['type'],
-        sortBy: [{ field: 'date', direction: 'desc' }],
-        aggregations: [
-          { field: 'id', function: 'count', label: 'Total Records' }
-        ],
-        chartType: 'pie',
-        chartOptions: {
-          title: 'Attendance Types',
-          legend: { position: 'bottom' }
-        },
-        exportFormat: 'excel',
-        createdAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(),
-        updatedAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
-        createdBy: 'Admin'
-      }
-    ]
+    const response = await ApiClient.getReportDefinitions()
+    return response.data
   }
 
   // Delete report
   static async delete(id: string): Promise<boolean> {
-    // Mock implementation
-    // In a real implementation, this would delete from database
-    logger.info('Deleting report: ${id}')
+    await ApiClient.deleteReportDefinition(id)
+    logger.info('Report deleted', { id })
     return true
   }
 
@@ -529,223 +367,278 @@ export class ReportBuilder {
   }
 }
 
+const CHART_COLORS = ['#10b981', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16']
+
+/**
+ * Run a report definition over already loaded records: filter, sort,
+ * format the visible fields, and compute group aggregates, the summary and
+ * chart data. Runs on the server (see lib/report-definitions.ts).
+ */
+export function buildReportData(config: ReportConfig, records: Record<string, any>[]): ReportData {
+  const { fields, filters, groupBy, sortBy, aggregations, chartType } = config
+  const fieldTypes = new Map<string, ReportField['type']>()
+  for (const field of [...ReportBuilder.getAvailableFields(config.dataSource), ...fields]) {
+    fieldTypes.set(field.name, field.type)
+  }
+
+  let filteredData = records
+  for (const filter of filters) {
+    filteredData = applyFilter(filteredData, filter, fieldTypes.get(filter.field))
+  }
+
+  if (sortBy && sortBy.length > 0) {
+    filteredData = applySort(filteredData, sortBy, fieldTypes)
+  }
+
+  const visibleFields = fields
+    .filter(field => field.visible)
+    .sort((a, b) => a.order - b.order)
+
+  const headers = visibleFields.map(field => field.label)
+  const rows = filteredData.map(row => visibleFields.map(field => formatValue(row[field.name], field)))
+
+  let summary: Record<string, any> | undefined
+  if (aggregations && aggregations.length > 0) {
+    summary = {}
+    for (const agg of aggregations) {
+      summary[agg.label || `${agg.function}(${agg.field})`] = calculateAggregation(filteredData, agg)
+    }
+  }
+
+  let groups: ReportData['groups']
+  if (groupBy && groupBy.length > 0) {
+    groups = applyGroupBy(filteredData, groupBy, aggregations || [], fields)
+  }
+
+  let chartData: ChartData | undefined
+  if (chartType) {
+    chartData = generateChartData(groups, summary, config.chartOptions?.colors)
+  }
+
+  return {
+    headers,
+    rows,
+    summary,
+    groups,
+    chartData,
+    totalRecords: filteredData.length,
+    generatedAt: new Date().toISOString()
+  }
+}
+
 // Helper functions
-function applyFilter(data: any[], filter: ReportFilter): any[] {
+function toComparable(value: any, type?: ReportField['type']): number | string | null {
+  if (value === null || value === undefined || value === '') return null
+  if (value instanceof Date) return value.getTime()
+  if (type === 'date') {
+    const time = new Date(value).getTime()
+    return isNaN(time) ? null : time
+  }
+  if (type === 'number' || typeof value === 'number') {
+    const number = Number(value)
+    return isNaN(number) ? null : number
+  }
+  if (typeof value === 'boolean') return value ? 1 : 0
+  return String(value).toLowerCase()
+}
+
+function applyFilter(data: any[], filter: ReportFilter, type?: ReportField['type']): any[] {
   const { field, operator, value } = filter
-  
+  const list = Array.isArray(value) ? value : String(value ?? '').split(',').map(v => v.trim())
+
   return data.filter(item => {
-    const itemValue = item[field]
-    
+    const itemValue = toComparable(item[field], type)
+
     switch (operator) {
       case 'equals':
-        return itemValue === value
+        return itemValue === toComparable(value, type)
       case 'not_equals':
-        return itemValue !== value
-      case 'greater_than':
-        return itemValue > value
-      case 'less_than':
-        return itemValue < value
-      case 'between':
-        return itemValue >= value[0] && itemValue <= value[1]
+        return itemValue !== toComparable(value, type)
+      case 'greater_than': {
+        const bound = toComparable(value, type)
+        return itemValue !== null && bound !== null && itemValue > bound
+      }
+      case 'less_than': {
+        const bound = toComparable(value, type)
+        return itemValue !== null && bound !== null && itemValue < bound
+      }
+      case 'between': {
+        const [low, high] = list.map(v => toComparable(v, type))
+        return itemValue !== null && low !== null && high !== null && itemValue >= low && itemValue <= high
+      }
       case 'contains':
-        return String(itemValue).toLowerCase().includes(String(value).toLowerCase())
+        return String(item[field] ?? '').toLowerCase().includes(String(value ?? '').toLowerCase())
       case 'in':
-        return value.includes(itemValue)
+        return list.some(v => toComparable(v, type) === itemValue)
       case 'not_in':
-        return !value.includes(itemValue)
+        return !list.some(v => toComparable(v, type) === itemValue)
       default:
         return true
     }
   })
 }
 
-function applyGroupBy(data: any[], groupBy: string[], aggregations: ReportAggregation[]): any[] {
-  // Mock implementation
-  // In a real implementation, this would properly group the data
-  return data
+function applyGroupBy(
+  data: any[],
+  groupBy: string[],
+  aggregations: ReportAggregation[],
+  fields: ReportField[]
+): NonNullable<ReportData['groups']> {
+  const labelOf = (name: string) => fields.find(field => field.name === name)?.label || name
+  const buckets = new Map<string, { keys: string[]; items: any[] }>()
+
+  for (const item of data) {
+    const keys = groupBy.map(name => {
+      const value = item[name]
+      return value === null || value === undefined || value === '' ? '(none)' : String(value)
+    })
+    const bucketKey = keys.join('\u0000')
+    const bucket = buckets.get(bucketKey)
+    if (bucket) {
+      bucket.items.push(item)
+    } else {
+      buckets.set(bucketKey, { keys, items: [item] })
+    }
+  }
+
+  return {
+    headers: [...groupBy.map(labelOf), 'Count', ...aggregations.map(agg => agg.label || `${agg.function}(${agg.field})`)],
+    rows: Array.from(buckets.values()).map(({ keys, items }) => [
+      ...keys,
+      items.length,
+      ...aggregations.map(agg => calculateAggregation(items, agg))
+    ])
+  }
 }
 
-function applySort(data: any[], sort: ReportSort): any[] {
+function applySort(data: any[], sortBy: ReportSort[], fieldTypes: Map<string, ReportField['type']>): any[] {
   return [...data].sort((a, b) => {
-    const aValue = a[sort.field]
-    const bValue = b[sort.field]
-    
-    if (aValue < bValue) {
-      return sort.direction === 'asc' ? -1 : 1
-    }
-    if (aValue > bValue) {
-      return sort.direction === 'asc' ? 1 : -1
+    for (const sort of sortBy) {
+      const type = fieldTypes.get(sort.field)
+      const aValue = toComparable(a[sort.field], type)
+      const bValue = toComparable(b[sort.field], type)
+      if (aValue === bValue) continue
+      // Empty values last
+      if (aValue === null) return 1
+      if (bValue === null) return -1
+      const order = aValue < bValue ? -1 : 1
+      return sort.direction === 'asc' ? order : -order
     }
     return 0
   })
 }
 
-function generateChartData(data: any[], groupBy: string[], aggregations: ReportAggregation[], chartType: ChartType): ChartData {
-  // Mock implementation
-  // In a real implementation, this would generate proper chart data
-  return {
-    labels: ['Group 1', 'Group 2', 'Group 3'],
-    datasets: [
-      {
-        label: 'Dataset 1',
-        data: [10, 20, 30],
-        backgroundColor: ['#8884d8', '#82ca9d', '#ffc658']
-      }
-    ]
+function generateChartData(
+  groups: ReportData['groups'],
+  summary: Record<string, any> | undefined,
+  colors: string[] = CHART_COLORS
+): ChartData | undefined {
+  if (groups && groups.rows.length > 0) {
+    const groupColumns = groups.headers.indexOf('Count')
+    const labels = groups.rows.map(row => row.slice(0, groupColumns).join(' / '))
+    const series = groups.headers.length > groupColumns + 1
+      ? groups.headers.slice(groupColumns + 1).map((label, i) => ({ label, column: groupColumns + 1 + i }))
+      : [{ label: 'Count', column: groupColumns }]
+
+    return {
+      labels,
+      datasets: series.map(({ label, column }, i) => ({
+        label,
+        data: groups.rows.map(row => Number(row[column]) || 0),
+        backgroundColor: series.length === 1
+          ? labels.map((_, j) => colors[j % colors.length])
+          : colors[i % colors.length],
+        borderColor: colors[i % colors.length]
+      }))
+    }
   }
+
+  if (summary && Object.keys(summary).length > 0) {
+    const labels = Object.keys(summary)
+    return {
+      labels,
+      datasets: [{
+        label: 'Summary',
+        data: labels.map(label => Number(summary[label]) || 0),
+        backgroundColor: labels.map((_, i) => colors[i % colors.length])
+      }]
+    }
+  }
+
+  return undefined
 }
 
-function calculateAggregation(data: any[], aggregation: ReportAggregation): any {
-  // Mock implementation
-  // In a real implementation, this would calculate the actual aggregation
+function calculateAggregation(data: any[], aggregation: ReportAggregation): number | null {
+  if (aggregation.function === 'count') {
+    return data.filter(item => item[aggregation.field] !== null && item[aggregation.field] !== undefined).length
+  }
+
+  const values = data
+    .map(item => Number(item[aggregation.field]))
+    .filter(value => isFinite(value))
+  if (values.length === 0) return null
+
   switch (aggregation.function) {
     case 'sum':
-      return 100
+      return round(values.reduce((a, b) => a + b, 0))
     case 'avg':
-      return 50
+      return round(values.reduce((a, b) => a + b, 0) / values.length)
     case 'min':
-      return 10
+      return Math.min(...values)
     case 'max':
-      return 90
-    case 'count':
-      return data.length
+      return Math.max(...values)
     default:
       return null
   }
 }
 
-function formatDate(date: string, format: string): string {
-  // Mock implementation
-  // In a real implementation, this would properly format dates
-  return new Date(date).toLocaleDateString()
+function round(value: number): number {
+  return Math.round(value * 100) / 100
 }
 
-function formatNumber(number: number, format: string): string {
-  // Mock implementation
-  // In a real implementation, this would properly format numbers
-  return number.toLocaleString()
-}
+function formatValue(value: any, field: ReportField): any {
+  if (value === null || value === undefined || value === '') return '-'
 
-// Mock data functions
-function getMockEmployeeData(): any[] {
-  return [
-    {
-      id: '1',
-      name: 'John Doe',
-      email: 'john@example.com',
-      employeeId: 'EMP001',
-      department: 'IT',
-      role: 'Developer',
-      phone: '+1234567890',
-      address: '123 Main St',
-      startDate: '2023-01-01',
-      salary: 75000,
-      manager: 'Jane Smith',
-      status: 'active'
-    },
-    {
-      id: '2',
-      name: 'Jane Smith',
-      email: 'jane@example.com',
-      employeeId: 'EMP002',
-      department: 'HR',
-      role: 'Manager',
-      phone: '+1234567891',
-      address: '456 Oak Ave',
-      startDate: '2022-06-15',
-      salary: 85000,
-      manager: '',
-      status: 'active'
-    },
-    {
-      id: '3',
-      name: 'Bob Johnson',
-      email: 'bob@example.com',
-      employeeId: 'EMP003',
-      department: 'Finance',
-      role: 'Accountant',
-      phone: '+1234567892',
-      address: '789 Pine Rd',
-      startDate: '2023-03-10',
-      salary: 70000,
-      manager: 'Jane Smith',
-      status: 'active'
-    }
-  ]
+  switch (field.type) {
+    case 'date':
+      return formatDate(value, field.format)
+    case 'number':
+      return field.format ? formatNumber(Number(value), field.format) : value
+    case 'boolean':
+      return value ? 'Yes' : 'No'
+    default:
+      return typeof value === 'object' ? JSON.stringify(value) : value
+  }
 }
 
-function getMockAttendanceData(): any[] {
-  return [
-    {
-      id: '1',
-      employeeId: 'EMP001',
-      date: '2025-01-01',
-      type: 'check-in',
-      timestamp: '2025-01-01T08:00:00Z',
-      location: 'Office',
-      notes: '',
-      approvedBy: '',
-      status: 'approved'
-    },
-    {
-      id: '2',
-      employeeId: 'EMP001',
-      date: '2025-01-01',
-      type: 'check-out',
-      timestamp: '2025-01-01T17:00:00Z',
-      location: 'Office',
-      notes: '',
-      approvedBy: '',
-      status: 'approved'
-    },
-    {
-      id: '3',
-      employeeId: 'EMP002',
-      date: '2025-01-01',
-      type: 'check-in',
-      timestamp: '2025-01-01T08:30:00Z',
-      location: 'Office',
-      notes: '',
-      approvedBy: '',
-      status: 'approved'
-    }
-  ]
+// Supports YYYY, MM, DD, HH, mm and ss tokens; without a format, dates
+// stay as-is and timestamps use the Indonesian locale
+function formatDate(value: string | Date, format?: string): string {
+  if (!format && typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+
+  const date = value instanceof Date ? value : new Date(value)
+  if (isNaN(date.getTime())) return String(value)
+  if (!format) return date.toLocaleString('id-ID')
+
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return format
+    .replace('YYYY', String(date.getFullYear()))
+    .replace('MM', pad(date.getMonth() + 1))
+    .replace('DD', pad(date.getDate()))
+    .replace('HH', pad(date.getHours()))
+    .replace('mm', pad(date.getMinutes()))
+    .replace('ss', pad(date.getSeconds()))
 }
 
-function getMockScheduleData(): any[] {
-  return [
-    {
-      id: '1',
-      employeeId: 'EMP001',
-      startDate: '2025-01-01',
-      endDate: '2025-01-31',
-      shiftType: 'Regular',
-      location: 'Office',
-      notes: '',
-      approvedBy: '',
-      status: 'active'
-    },
-    {
-      id: '2',
-      employeeId: 'EMP002',
-      startDate: '2025-01-01',
-      endDate: '2025-01-31',
-      shiftType: 'Regular',
-      location: 'Office',
-      notes: '',
-      approvedBy: '',
-      status: 'active'
-    },
-    {
-      id: '3',
-      employeeId: 'EMP003',
-      startDate: '2025-01-01',
-      endDate: '2025-01-31',
-      shiftType: 'Night',
-      location: 'Remote',
-      notes: 'Night shift for January',
-      approvedBy: 'Jane Smith',
-      status: 'active'
-    }
-  ]
-}
\ No newline at end of file
+// 'currency' (IDR), 'percent', or a pattern like '0.00' for fixed decimals
+function formatNumber(number: number, format: string): string {
+  if (isNaN(number)) return '-'
+  if (format === 'currency') {
+    return number.toLocaleString('id-ID', { style: 'currency', currency: 'IDR', maximumFractionDigits: 0 })
+  }
+  if (format === 'percent') {
+    return `${round(number * 100)}%`
+  }
+  const decimals = format.includes('.') ? format.split('.')[1].length : 0
+  return number.toLocaleString('id-ID', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+}
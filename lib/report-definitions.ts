@@ -0,0 +1,417 @@
+/**
+ * Report Definitions
+ * Server side of the report builder: saved definitions in the reports table
+ * (owner, sharing, versions) and running a definition against live data.
+ * Filtering, grouping and aggregation happen in buildReportData; rendering
+ * to files in lib/report-renderer.ts.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerReportDefinition, ServerReportVersion, ServerUser } from '@/lib/server-db'
+import type { UserRole } from '@/lib/auth'
+import { buildReportData } from '@/lib/report-builder'
+import type { ReportConfig, ReportData, ReportFilter } from '@/lib/report-builder'
+import { reportRenderer } from '@/lib/report-renderer'
+import type { RenderedReport } from '@/lib/report-renderer'
+import type { ReportBuilderConfigInput, ReportDefinitionSaveInput, ReportSharingInput } from '@/lib/validation-schemas'
+import { toOfficeDateString } from '@/lib/office-time'
+import { logger } from '@/lib/logger'
+
+export type ReportDefinitionResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+export interface ReportViewer {
+  id: string
+  role: UserRole
+}
+
+// Upper bound on source records loaded for one run
+const MAX_REPORT_RECORDS = 10000
+// Date-bounded sources cover this many days when no date filter is given
+const DEFAULT_PERIOD_DAYS = 30
+
+// Definition keys stored in reports.config; name and description have columns
+const CONFIG_KEYS = [
+  'dataSource', 'fields', 'filters', 'groupBy', 'sortBy', 'aggregations',
+  'chartType', 'chartOptions', 'exportFormat', 'schedule'
+] as const
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+function canView(definition: ServerReportDefinition, viewer: ReportViewer): boolean {
+  return viewer.role === 'admin' ||
+    definition.createdBy === viewer.id ||
+    definition.isPublic ||
+    definition.sharedWith.includes(viewer.id)
+}
+
+function canEdit(definition: ServerReportDefinition, viewer: ReportViewer): boolean {
+  return viewer.role === 'admin' || definition.createdBy === viewer.id
+}
+
+/**
+ * Period covered by date filters on a date-bounded source
+ */
+function periodOf(filters: ReportFilter[], dateFields: string[]): { start: Date; end: Date } {
+  let start: Date | undefined
+  let end: Date | undefined
+
+  for (const filter of filters) {
+    if (!dateFields.includes(filter.field)) continue
+    const values = Array.isArray(filter.value) ? filter.value : [filter.value]
+    const dates = values.map(value => new Date(value)).filter(date => !isNaN(date.getTime()))
+    if (dates.length === 0) continue
+
+    switch (filter.operator) {
+      case 'greater_than':
+        start = dates[0]
+        break
+      case 'less_than':
+        end = dates[0]
+        break
+      case 'between':
+        start = dates[0]
+        end = dates[1] || dates[0]
+        break
+      case 'equals':
+        start = dates[0]
+        end = dates[0]
+        break
+    }
+  }
+
+  // Load a day either side; the filters themselves are applied exactly
+  // afterwards, in office dates
+  const day = 24 * 60 * 60 * 1000
+  const resolvedEnd = end ? new Date(end.getTime() + day) : new Date()
+  const resolvedStart = start
+    ? new Date(start.getTime() - day)
+    : new Date(resolvedEnd.getTime() - DEFAULT_PERIOD_DAYS * day)
+  return { start: resolvedStart, end: resolvedEnd }
+}
+
+export class ReportDefinitionService {
+  /**
+   * Definitions the viewer can see, as builder configs
+   */
+  async list(viewer: ReportViewer): Promise<ReportConfig[]> {
+    const definitions = await serverDbManager.getReportDefinitions(
+      viewer.role === 'admin' ? undefined : { visibleTo: viewer.id }
+    )
+    const owners = await this.loadOwners(definitions.map(d => d.createdBy))
+    return definitions.map(definition => this.toConfig(definition, owners.get(definition.createdBy)))
+  }
+
+  async get(id: string, viewer: ReportViewer): Promise<ReportDefinitionResult<{ definition: ServerReportDefinition; config: ReportConfig }>> {
+    const definition = await serverDbManager.getReportDefinition(id)
+    if (!definition || !canView(definition, viewer)) {
+      return failure('Report not found', 'NOT_FOUND', 404)
+    }
+
+    const owner = await serverDbManager.getUser(definition.createdBy)
+    return { success: true, definition, config: this.toConfig(definition, owner || undefined) }
+  }
+
+  /**
+   * Load a definition for a run nobody is viewing (scheduled jobs)
+   */
+  async resolve(id: string): Promise<ReportConfig | null> {
+    const definition = await serverDbManager.getReportDefinition(id)
+    if (!definition) return null
+
+    const owner = await serverDbManager.getUser(definition.createdBy)
+    return this.toConfig(definition, owner || undefined)
+  }
+
+  /**
+   * Create a definition, or save a new version of one the viewer may edit
+   */
+  async save(input: ReportDefinitionSaveInput, viewer: ReportViewer): Promise<ReportDefinitionResult<{ config: ReportConfig }>> {
+    if (input.id) {
+      const existing = await serverDbManager.getReportDefinition(input.id)
+      if (!existing || !canView(existing, viewer)) {
+        return failure('Report not found', 'NOT_FOUND', 404)
+      }
+      if (!canEdit(existing, viewer)) {
+        return failure('Only the owner can change this report', 'FORBIDDEN', 403)
+      }
+    }
+
+    const { name, description, ...rest } = input.config
+    const config: Record<string, any> = {}
+    for (const key of CONFIG_KEYS) {
+      if (rest[key] !== undefined) config[key] = rest[key]
+    }
+
+    const { result, error } = await serverDbManager.saveReportDefinition({
+      id: input.id,
+      name,
+      description,
+      config,
+      expectedVersion: input.version,
+      userId: viewer.id
+    })
+
+    if (error || !result) {
+      if (error?.message === 'REPORT_NOT_FOUND') {
+        return failure('Report not found', 'NOT_FOUND', 404)
+      }
+      if (error?.message === 'REPORT_VERSION_CONFLICT') {
+        return failure(
+          `Report was changed by someone else (now version ${error.details}). Reload it and try again.`,
+          'VERSION_CONFLICT',
+          409
+        )
+      }
+      logger.error('Error saving report definition', new Error(error?.message || 'Unknown error'))
+      return failure('Failed to save report', 'SERVER_ERROR', 500)
+    }
+
+    await serverDbManager.createAuditLog({
+      userId: viewer.id,
+      action: input.id ? 'report_definition_updated' : 'report_definition_created',
+      resource: 'report',
+      resourceId: result.id,
+      details: {
+        description: `Report "${result.name}" saved as version ${result.version}`,
+        version: result.version,
+        dataSource: config.dataSource
+      }
+    })
+
+    const owner = await serverDbManager.getUser(result.createdBy)
+    return { success: true, config: this.toConfig(result, owner || undefined) }
+  }
+
+  async remove(id: string, viewer: ReportViewer): Promise<ReportDefinitionResult<{}>> {
+    const definition = await serverDbManager.getReportDefinition(id)
+    if (!definition || !canView(definition, viewer)) {
+      return failure('Report not found', 'NOT_FOUND', 404)
+    }
+    if (!canEdit(definition, viewer)) {
+      return failure('Only the owner can delete this report', 'FORBIDDEN', 403)
+    }
+
+    if (!(await serverDbManager.deleteReportDefinition(id))) {
+      return failure('Failed to delete report', 'SERVER_ERROR', 500)
+    }
+
+    await serverDbManager.createAuditLog({
+      userId: viewer.id,
+      action: 'report_definition_deleted',
+      resource: 'report',
+      resourceId: id,
+      details: { description: `Report "${definition.name}" deleted`, version: definition.version }
+    })
+
+    return { success: true }
+  }
+
+  async share(id: string, viewer: ReportViewer, sharing: ReportSharingInput): Promise<ReportDefinitionResult<{ config: ReportConfig }>> {
+    const definition = await serverDbManager.getReportDefinition(id)
+    if (!definition || !canView(definition, viewer)) {
+      return failure('Report not found', 'NOT_FOUND', 404)
+    }
+    if (!canEdit(definition, viewer)) {
+      return failure('Only the owner can share this report', 'FORBIDDEN', 403)
+    }
+
+    const updated = await serverDbManager.updateReportSharing(id, {
+      isPublic: sharing.isPublic,
+      sharedWith: sharing.sharedWith?.filter(userId => userId !== definition.createdBy)
+    })
+    if (!updated) {
+      return failure('Report not found', 'NOT_FOUND', 404)
+    }
+
+    await serverDbManager.createAuditLog({
+      userId: viewer.id,
+      action: 'report_definition_shared',
+      resource: 'report',
+      resourceId: id,
+      details: {
+        description: `Sharing of report "${definition.name}" changed`,
+        isPublic: updated.isPublic,
+        sharedWith: updated.sharedWith
+      }
+    })
+
+    const owner = await serverDbManager.getUser(updated.createdBy)
+    return { success: true, config: this.toConfig(updated, owner || undefined) }
+  }
+
+  async versions(id: string, viewer: ReportViewer): Promise<ReportDefinitionResult<{ versions: ServerReportVersion[] }>> {
+    const definition = await serverDbManager.getReportDefinition(id)
+    if (!definition || !canView(definition, viewer)) {
+      return failure('Report not found', 'NOT_FOUND', 404)
+    }
+    return { success: true, versions: await serverDbManager.getReportVersions(id) }
+  }
+
+  /**
+   * Run a definition against live data
+   */
+  async run(config: ReportConfig | ReportBuilderConfigInput): Promise<ReportData> {
+    const builderConfig = this.normalize(config)
+    const records = await this.loadRecords(builderConfig)
+    return buildReportData(builderConfig, records)
+  }
+
+  /**
+   * Run a definition and render it to a file
+   */
+  async export(
+    config: ReportConfig | ReportBuilderConfigInput,
+    format?: 'pdf' | 'excel' | 'csv'
+  ): Promise<RenderedReport> {
+    const builderConfig = this.normalize(config)
+    const data = await this.run(builderConfig)
+    return reportRenderer.render(builderConfig, data, format || builderConfig.exportFormat || 'pdf')
+  }
+
+  private normalize(config: ReportConfig | ReportBuilderConfigInput): ReportConfig {
+    const now = new Date().toISOString()
+    return {
+      id: '',
+      createdAt: now,
+      updatedAt: now,
+      createdBy: '',
+      ...config,
+      description: config.description || '',
+      filters: config.filters || [],
+      groupBy: config.groupBy || [],
+      sortBy: config.sortBy || [],
+      aggregations: config.aggregations || []
+    } as ReportConfig
+  }
+
+  private async loadRecords(config: ReportConfig): Promise<Record<string, any>[]> {
+    switch (config.dataSource) {
+      case 'employees':
+        return this.loadEmployees()
+      case 'attendance':
+        return this.loadAttendance(config)
+      case 'schedules':
+        return this.loadSchedules(config)
+      default:
+        throw new Error(`Unsupported data source: ${config.dataSource}`)
+    }
+  }
+
+  private async loadEmployees(): Promise<Record<string, any>[]> {
+    const users = await serverDbManager.getUsers({ limit: MAX_REPORT_RECORDS })
+    const names = new Map(users.map(user => [user.id, user.name]))
+
+    return users.map(user => ({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      employeeId: user.employeeId,
+      department: user.department,
+      position: user.position,
+      role: user.role,
+      phone: user.phone,
+      address: user.address,
+      startDate: user.startDate,
+      hourlyRate: user.hourlyRate,
+      manager: user.managerId ? names.get(user.managerId) : undefined,
+      status: user.isActive === false ? 'inactive' : 'active'
+    }))
+  }
+
+  private async loadAttendance(config: ReportConfig): Promise<Record<string, any>[]> {
+    const { start, end } = periodOf(config.filters, ['date', 'timestamp'])
+    const records = await serverDbManager.getAttendanceRecords({
+      startDate: start,
+      endDate: end,
+      limit: MAX_REPORT_RECORDS
+    })
+
+    const userIds = new Set<string>()
+    for (const record of records) {
+      userIds.add(record.userId)
+      if (record.metadata?.cosign?.by) userIds.add(record.metadata.cosign.by)
+    }
+    const users = await this.loadOwners(Array.from(userIds))
+
+    return records.map(record => {
+      const user = users.get(record.userId)
+      const cosignerId = record.metadata?.cosign?.by
+      return {
+        id: record.id,
+        employeeId: user?.employeeId,
+        employeeName: user?.name,
+        department: user?.department,
+        date: toOfficeDateString(record.timestamp),
+        type: record.type,
+        timestamp: record.timestamp,
+        location: record.metadata?.geofence?.siteName || record.location,
+        notes: record.notes,
+        status: record.status,
+        lateMinutes: record.metadata?.lateMinutes,
+        verified: record.verified,
+        method: record.metadata?.method,
+        cosignedBy: cosignerId ? users.get(cosignerId)?.name || cosignerId : undefined
+      }
+    })
+  }
+
+  private async loadSchedules(config: ReportConfig): Promise<Record<string, any>[]> {
+    const { start, end } = periodOf(config.filters, ['date'])
+    const [assignments, schedules] = await Promise.all([
+      serverDbManager.getScheduleAssignments({ startDate: start, endDate: end, limit: MAX_REPORT_RECORDS }),
+      serverDbManager.getSchedules()
+    ])
+    const schedulesById = new Map(schedules.map(schedule => [schedule.id, schedule]))
+    const users = await this.loadOwners(assignments.map(a => a.userId))
+
+    return assignments.map(assignment => {
+      const schedule = schedulesById.get(assignment.scheduleId)
+      const user = users.get(assignment.userId)
+      return {
+        id: assignment.id,
+        employeeId: user?.employeeId,
+        employeeName: user?.name,
+        date: toOfficeDateString(assignment.date),
+        scheduleName: schedule?.name,
+        shiftType: schedule?.type,
+        startTime: schedule?.startTime,
+        endTime: schedule?.endTime,
+        location: schedule?.location?.name,
+        notes: assignment.notes,
+        status: assignment.status
+      }
+    })
+  }
+
+  private async loadOwners(userIds: string[]): Promise<Map<string, ServerUser>> {
+    const unique = Array.from(new Set(userIds))
+    const users = await Promise.all(unique.map(id => serverDbManager.getUser(id)))
+    return new Map(users.filter((user): user is ServerUser => !!user).map(user => [user.id, user]))
+  }
+
+  private toConfig(definition: ServerReportDefinition, owner?: ServerUser): ReportConfig {
+    return {
+      ...(definition.config as Partial<ReportConfig>),
+      id: definition.id,
+      name: definition.name,
+      description: definition.description || '',
+      dataSource: definition.config.dataSource,
+      fields: definition.config.fields || [],
+      filters: definition.config.filters || [],
+      version: definition.version,
+      ownerId: definition.createdBy,
+      isPublic: definition.isPublic,
+      sharedWith: definition.sharedWith,
+      createdBy: owner?.name || definition.createdBy,
+      createdAt: definition.createdAt.toISOString(),
+      updatedAt: definition.updatedAt.toISOString()
+    }
+  }
+}
+
+// Export singleton instance
+export const reportDefinitions = new ReportDefinitionService()
@@ -7,10 +7,12 @@ import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
 import * as XLSX from 'xlsx'
 import { serverDbManager } from './server-db'
+import { getApprovedMinutes } from './overtime'
+import { toOfficeDateString } from './office-time'
 
 import { logger } from '@/lib/logger'
 export interface ReportConfig {
-  type: 'attendance' | 'performance' | 'employee' | 'department' | 'custom'
+  type: 'attendance' | 'performance' | 'employee' | 'department' | 'overtime' | 'custom'
   dataSource: string
   dateRange: {
     start: Date
@@ -68,6 +70,8 @@ export class ReportGenerator {
         return this.fetchEmployeeData(config)
       case 'department':
         return this.fetchDepartmentData(config)
+      case 'overtime':
+        return this.fetchOvertimeData(config)
       default:
         throw new Error(`Unsupported report type: ${config.type}`)
     }
@@ -86,6 +90,9 @@ export class ReportGenerator {
     const enrichedRecords = await Promise.all(
       records.map(async (record) => {
         const user = await serverDbManager.getUser(record.userId)
+        // Manual fallback check-ins carry the supervisor who co-signed them
+        const cosignerId = record.metadata?.cosign?.by
+        const cosigner = cosignerId ? await serverDbManager.getUser(cosignerId) : null
         return {
           id: record.id,
           userId: record.userId,
@@ -101,7 +108,9 @@ export class ReportGenerator {
           status: record.status || this.calculateStatus(record),
           location: this.formatLocation(record.location),
           notes: record.notes || '-',
-          verified: record.verified ? 'Yes' : 'No'
+          verified: record.verified ? 'Yes' : 'No',
+          method: record.metadata?.method || '-',
+          cosignedBy: cosigner?.name || cosignerId || '-'
         }
       })
     )
@@ -147,6 +156,57 @@ export class ReportGenerator {
     }))
   }
   
+  /**
+   * Fetch approved overtime, one row per employee per work day
+   */
+  private async fetchOvertimeData(config: ReportConfig): Promise<any[]> {
+    const records = await serverDbManager.getOvertimeRecords({
+      status: 'approved',
+      from: toOfficeDateString(config.dateRange.start),
+      to: toOfficeDateString(config.dateRange.end)
+    })
+    
+    const enrichedRecords = await Promise.all(
+      records.map(async (record): Promise<Record<string, unknown>> => {
+        const user = await serverDbManager.getUser(record.userId)
+        return {
+          id: record.id,
+          userId: record.userId,
+          userName: user?.name || 'Unknown',
+          department: user?.department || 'N/A',
+          employeeId: user?.employeeId || 'N/A',
+          workDate: record.workDate,
+          approvalType: record.approvalType,
+          detectedMinutes: record.detectedMinutes,
+          approvedMinutes: getApprovedMinutes(record),
+          weekdayMinutes: record.approvedWeekdayMinutes,
+          weekendMinutes: record.approvedWeekendMinutes,
+          holidayMinutes: record.approvedHolidayMinutes,
+          weightedHours: record.weightedHours,
+          approvedAt: record.approvedAt?.toLocaleString('id-ID') || '-',
+          reason: record.reason || '-'
+        }
+      })
+    )
+    
+    let filteredRecords = enrichedRecords
+    if (config.filters) {
+      filteredRecords = filteredRecords.filter(record => {
+        return Object.entries(config.filters!).every(([key, value]) => {
+          if (value === 'all' || value === '' || value === undefined) return true
+          const field = record[key]
+          return field === value || (field != null && String(field).toLowerCase().includes(value.toLowerCase()))
+        })
+      })
+    }
+    
+    if (config.groupBy) {
+      return this.applyGrouping(filteredRecords, config)
+    }
+    
+    return filteredRecords
+  }
+  
   /**
    * Fetch department data
    */
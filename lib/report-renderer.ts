@@ -0,0 +1,377 @@
+/**
+ * Report Renderer
+ * Renders report builder output (see buildReportData) to PDF, Excel and CSV.
+ * The PDF embeds the chart drawn with jsPDF primitives, so no browser
+ * canvas is needed on the server; radar, polar area and scatter charts are
+ * drawn as bar charts. Excel gets one sheet each for the data, summary,
+ * group aggregates, chart data and the report definition.
+ */
+
+import jsPDF from 'jspdf'
+import autoTable, { type Table } from 'jspdf-autotable'
+import * as XLSX from 'xlsx'
+import type { ChartData, ReportConfig, ReportData } from '@/lib/report-builder'
+
+export interface RenderedReport {
+  content: Buffer | string
+  contentType: string
+  extension: string
+  filename: string
+}
+
+// jspdf-autotable records the last table it drew on the document
+type AutoTableDoc = jsPDF & { lastAutoTable: Table }
+
+const HEAD_STYLES = {
+  fillColor: [16, 185, 129] as [number, number, number],
+  textColor: [255, 255, 255] as [number, number, number],
+  fontStyle: 'bold' as const
+}
+
+const CHART_HEIGHT = 70
+
+function hexToRgb(color: string | undefined, fallback: [number, number, number] = [16, 185, 129]): [number, number, number] {
+  const match = color && /^#?([0-9a-f]{6})$/i.exec(color)
+  if (!match) return fallback
+  const value = parseInt(match[1], 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+function colorAt(color: string | string[] | undefined, index: number): [number, number, number] {
+  return hexToRgb(Array.isArray(color) ? color[index % color.length] : color)
+}
+
+function fileBaseName(name: string): string {
+  return name.trim().replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'report'
+}
+
+function cellText(value: any): string {
+  if (value === null || value === undefined) return '-'
+  if (value instanceof Date) return value.toLocaleString('id-ID')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function csvCell(value: any): string {
+  const text = value === null || value === undefined ? '' : cellText(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export class ReportRenderer {
+  render(config: ReportConfig, data: ReportData, format: 'pdf' | 'excel' | 'csv'): RenderedReport {
+    const filename = `${fileBaseName(config.name)}-${Date.now()}`
+
+    switch (format) {
+      case 'pdf':
+        return { content: this.renderPDF(config, data), contentType: 'application/pdf', extension: 'pdf', filename }
+      case 'excel':
+        return {
+          content: this.renderExcel(config, data),
+          contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          extension: 'xlsx',
+          filename
+        }
+      case 'csv':
+        return { content: this.renderCSV(config, data), contentType: 'text/csv; charset=utf-8', extension: 'csv', filename }
+      default:
+        throw new Error(`Unsupported format: ${format}`)
+    }
+  }
+
+  private renderPDF(config: ReportConfig, data: ReportData): Buffer {
+    const doc = new jsPDF({ orientation: data.headers.length > 6 ? 'landscape' : 'portrait' }) as AutoTableDoc
+    const pageWidth = doc.internal.pageSize.getWidth()
+
+    doc.setFontSize(18)
+    doc.setFont('helvetica', 'bold')
+    doc.text(config.name, 14, 20)
+
+    doc.setFontSize(10)
+    doc.setFont('helvetica', 'normal')
+    let y = 30
+    doc.text(`Generated: ${new Date().toLocaleString('id-ID')}`, 14, y)
+    y += 6
+    doc.text(`Total Records: ${data.totalRecords ?? data.rows.length}`, 14, y)
+    if (config.description) {
+      y += 6
+      const lines = doc.splitTextToSize(config.description, pageWidth - 28)
+      doc.text(lines, 14, y)
+      y += (lines.length - 1) * 5
+    }
+    y += 8
+
+    if (data.summary && Object.keys(data.summary).length > 0) {
+      autoTable(doc, {
+        head: [['Summary', 'Value']],
+        body: Object.entries(data.summary).map(([label, value]) => [label, cellText(value)]),
+        startY: y,
+        theme: 'grid',
+        headStyles: HEAD_STYLES,
+        styles: { fontSize: 9, cellPadding: 2 },
+        tableWidth: Math.min(120, pageWidth - 28)
+      })
+      y = (doc.lastAutoTable.finalY ?? y) + 8
+    }
+
+    if (data.chartData && data.chartData.labels.length > 0) {
+      if (y + CHART_HEIGHT + 20 > doc.internal.pageSize.getHeight()) {
+        doc.addPage()
+        y = 20
+      }
+      doc.setFontSize(12)
+      doc.setFont('helvetica', 'bold')
+      doc.text(config.chartOptions?.title || 'Chart', 14, y)
+      doc.setFont('helvetica', 'normal')
+      y += 6
+      this.drawChart(doc, data.chartData, config.chartType, 14, y, pageWidth - 28, CHART_HEIGHT)
+      y += CHART_HEIGHT + 14
+    }
+
+    if (data.groups && data.groups.rows.length > 0) {
+      autoTable(doc, {
+        head: [data.groups.headers],
+        body: data.groups.rows.map(row => row.map(cellText)),
+        startY: y,
+        theme: 'grid',
+        headStyles: HEAD_STYLES,
+        styles: { fontSize: 8, cellPadding: 2 }
+      })
+      y = (doc.lastAutoTable.finalY ?? y) + 8
+    }
+
+    autoTable(doc, {
+      head: [data.headers],
+      body: data.rows.map(row => row.map(cellText)),
+      startY: y,
+      theme: 'grid',
+      headStyles: HEAD_STYLES,
+      styles: { fontSize: 8, cellPadding: 2 },
+      alternateRowStyles: { fillColor: [245, 245, 245] }
+    })
+
+    const pageCount = doc.getNumberOfPages()
+    for (let i = 1; i <= pageCount; i++) {
+      doc.setPage(i)
+      doc.setFontSize(8)
+      doc.text(
+        `Page ${i} of ${pageCount}`,
+        pageWidth / 2,
+        doc.internal.pageSize.getHeight() - 10,
+        { align: 'center' }
+      )
+    }
+
+    return Buffer.from(doc.output('arraybuffer'))
+  }
+
+  private drawChart(
+    doc: jsPDF,
+    chart: ChartData,
+    chartType: ReportConfig['chartType'],
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    if (chartType === 'pie' || chartType === 'doughnut') {
+      this.drawPieChart(doc, chart, chartType === 'doughnut', x, y, width, height)
+    } else if (chartType === 'line') {
+      this.drawAxesChart(doc, chart, 'line', x, y, width, height)
+    } else {
+      this.drawAxesChart(doc, chart, 'bar', x, y, width, height)
+    }
+  }
+
+  private drawAxesChart(
+    doc: jsPDF,
+    chart: ChartData,
+    kind: 'bar' | 'line',
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    const plotLeft = x + 14
+    const plotBottom = y + height - 10
+    const plotWidth = width - 16
+    const plotHeight = height - 14
+    const values = chart.datasets.flatMap(dataset => dataset.data)
+    const max = Math.max(...values, 0) || 1
+    const min = Math.min(...values, 0)
+    const range = max - min || 1
+    const scaleY = (value: number) => plotBottom - ((value - min) / range) * plotHeight
+
+    doc.setDrawColor(148, 163, 184)
+    doc.setLineWidth(0.2)
+    doc.line(plotLeft, y, plotLeft, plotBottom)
+    doc.line(plotLeft, scaleY(0), plotLeft + plotWidth, scaleY(0))
+    doc.setFontSize(7)
+    doc.text(String(Math.round(max * 100) / 100), plotLeft - 1, y + 2, { align: 'right' })
+    if (min < 0) doc.text(String(Math.round(min * 100) / 100), plotLeft - 1, plotBottom, { align: 'right' })
+
+    const slot = plotWidth / chart.labels.length
+    chart.labels.forEach((label, i) => {
+      const text = label.length > 14 ? `${label.slice(0, 13)}…` : label
+      doc.text(text, plotLeft + slot * (i + 0.5), plotBottom + 4, { align: 'center', maxWidth: slot })
+    })
+
+    if (kind === 'bar') {
+      const barWidth = (slot * 0.8) / chart.datasets.length
+      chart.datasets.forEach((dataset, d) => {
+        dataset.data.forEach((value, i) => {
+          const color = chart.datasets.length === 1 ? colorAt(dataset.backgroundColor, i) : colorAt(dataset.backgroundColor, d)
+          doc.setFillColor(...color)
+          const top = Math.min(scaleY(value), scaleY(0))
+          const barHeight = Math.abs(scaleY(value) - scaleY(0))
+          doc.rect(plotLeft + slot * i + slot * 0.1 + barWidth * d, top, barWidth, Math.max(barHeight, 0.2), 'F')
+        })
+      })
+    } else {
+      doc.setLineWidth(0.6)
+      chart.datasets.forEach((dataset, d) => {
+        doc.setDrawColor(...colorAt(dataset.borderColor || dataset.backgroundColor, d))
+        dataset.data.forEach((value, i) => {
+          const px = plotLeft + slot * (i + 0.5)
+          if (i > 0) {
+            doc.line(plotLeft + slot * (i - 0.5), scaleY(dataset.data[i - 1]), px, scaleY(value))
+          }
+          doc.circle(px, scaleY(value), 0.7, 'F')
+        })
+      })
+    }
+
+    if (chart.datasets.length > 1) {
+      this.drawLegend(doc, chart.datasets.map((dataset, d) => ({
+        label: dataset.label,
+        color: colorAt(dataset.borderColor || dataset.backgroundColor, d)
+      })), x + width - 50, y)
+    }
+  }
+
+  private drawPieChart(
+    doc: jsPDF,
+    chart: ChartData,
+    doughnut: boolean,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    const dataset = chart.datasets[0]
+    const total = dataset.data.reduce((sum, value) => sum + Math.max(value, 0), 0)
+    const radius = height / 2 - 2
+    const cx = x + radius + 4
+    const cy = y + height / 2
+
+    if (total <= 0) {
+      doc.setFontSize(9)
+      doc.text('No data to chart', x, cy)
+      return
+    }
+
+    // Each slice is a fan of thin triangles
+    let angle = -Math.PI / 2
+    dataset.data.forEach((value, i) => {
+      const sweep = (Math.max(value, 0) / total) * Math.PI * 2
+      const steps = Math.max(1, Math.ceil(sweep / (Math.PI / 90)))
+      doc.setFillColor(...colorAt(dataset.backgroundColor, i))
+      for (let step = 0; step < steps; step++) {
+        const a1 = angle + (sweep * step) / steps
+        const a2 = angle + (sweep * (step + 1)) / steps
+        doc.triangle(
+          cx, cy,
+          cx + radius * Math.cos(a1), cy + radius * Math.sin(a1),
+          cx + radius * Math.cos(a2), cy + radius * Math.sin(a2),
+          'F'
+        )
+      }
+      angle += sweep
+    })
+
+    if (doughnut) {
+      doc.setFillColor(255, 255, 255)
+      doc.circle(cx, cy, radius * 0.55, 'F')
+    }
+
+    this.drawLegend(doc, chart.labels.map((label, i) => ({
+      label: `${label} (${Math.round((Math.max(dataset.data[i], 0) / total) * 1000) / 10}%)`,
+      color: colorAt(dataset.backgroundColor, i)
+    })), cx + radius + 10, y + 2)
+  }
+
+  private drawLegend(doc: jsPDF, items: Array<{ label: string; color: [number, number, number] }>, x: number, y: number): void {
+    doc.setFontSize(7)
+    items.slice(0, 12).forEach((item, i) => {
+      doc.setFillColor(...item.color)
+      doc.rect(x, y + i * 5, 3, 3, 'F')
+      doc.text(item.label, x + 5, y + i * 5 + 2.5)
+    })
+  }
+
+  private renderExcel(config: ReportConfig, data: ReportData): Buffer {
+    const wb = XLSX.utils.book_new()
+
+    const dataWs = XLSX.utils.aoa_to_sheet([data.headers, ...data.rows])
+    dataWs['!cols'] = data.headers.map(header => ({ wch: Math.max(12, header.length + 2) }))
+    XLSX.utils.book_append_sheet(wb, dataWs, 'Report Data')
+
+    const summaryRows: any[][] = [['Metric', 'Value'], ['Total Records', data.totalRecords ?? data.rows.length]]
+    for (const [label, value] of Object.entries(data.summary || {})) {
+      summaryRows.push([label, value])
+    }
+    const summaryWs = XLSX.utils.aoa_to_sheet(summaryRows)
+    summaryWs['!cols'] = [{ wch: 30 }, { wch: 15 }]
+    XLSX.utils.book_append_sheet(wb, summaryWs, 'Summary')
+
+    if (data.groups && data.groups.rows.length > 0) {
+      const groupsWs = XLSX.utils.aoa_to_sheet([data.groups.headers, ...data.groups.rows])
+      groupsWs['!cols'] = data.groups.headers.map(() => ({ wch: 18 }))
+      XLSX.utils.book_append_sheet(wb, groupsWs, 'Aggregations')
+    }
+
+    if (data.chartData && data.chartData.labels.length > 0) {
+      const chart = data.chartData
+      const chartWs = XLSX.utils.aoa_to_sheet([
+        ['Label', ...chart.datasets.map(dataset => dataset.label)],
+        ...chart.labels.map((label, i) => [label, ...chart.datasets.map(dataset => dataset.data[i])])
+      ])
+      XLSX.utils.book_append_sheet(wb, chartWs, 'Chart Data')
+    }
+
+    const definition: any[][] = [
+      ['Report', config.name],
+      ['Description', config.description || ''],
+      ['Data Source', config.dataSource],
+      ['Version', config.version ?? 'unsaved'],
+      ['Generated', new Date().toLocaleString('id-ID')],
+      ['Group By', (config.groupBy || []).join(', ')],
+      ['Chart', config.chartType || '']
+    ]
+    for (const filter of config.filters) {
+      definition.push(['Filter', `${filter.field} ${filter.operator} ${cellText(filter.value)}`])
+    }
+    const definitionWs = XLSX.utils.aoa_to_sheet(definition)
+    definitionWs['!cols'] = [{ wch: 15 }, { wch: 50 }]
+    XLSX.utils.book_append_sheet(wb, definitionWs, 'Definition')
+
+    return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' })
+  }
+
+  private renderCSV(config: ReportConfig, data: ReportData): string {
+    const metadata = [
+      csvCell(config.name),
+      csvCell(`Generated: ${new Date().toLocaleString('id-ID')}`),
+      csvCell(`Total Records: ${data.totalRecords ?? data.rows.length}`),
+      '' // Empty line
+    ]
+
+    return [
+      ...metadata,
+      data.headers.map(csvCell).join(','),
+      ...data.rows.map(row => row.map(csvCell).join(','))
+    ].join('\n')
+  }
+}
+
+// Export singleton instance
+export const reportRenderer = new ReportRenderer()
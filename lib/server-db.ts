@@ -1,4 +1,18 @@
 import { UserRole } from './auth'
+import type { GeofenceZone, GeofencePolicy } from './geofence'
+import type { OvertimeSegment } from './overtime'
+import type {
+  SyncFeedEntity,
+  OfflineFaceVerdict,
+  SyncMutation,
+  SyncDeadLetterReason,
+  SyncDeadLetterStatus,
+  SyncPayloadDiff,
+  SyncDeviceInfo,
+  SyncItemResult
+} from './sync-protocol'
+import type { KioskDeviceStatus, KioskHeartbeat } from './kiosk-protocol'
+import type { VersionVector } from './conflict-types'
 
 // User interface for server-side
 export interface ServerUser {
@@ -14,6 +28,10 @@ export interface ServerUser {
   address?: string
   startDate?: Date
   isActive?: boolean
+  payGradeId?: string
+  hourlyRate?: number // Overrides the pay grade's rate
+  bankCode?: string
+  bankAccountNumber?: string
   createdAt: Date
   updatedAt: Date
 }
@@ -30,7 +48,12 @@ export interface ServerAttendanceRecord {
   status?: 'present' | 'late' | 'absent' | 'early_leave' | 'on_leave'
   verified?: boolean
   synced?: boolean
+  zoneViolation?: boolean
   metadata?: any
+  // Per-node edit counters; see lib/version-vector.ts
+  versionVector?: VersionVector
+  // Registered kiosk that captured the punch
+  kioskDeviceId?: string
   createdAt: Date
   updatedAt: Date
 }
@@ -71,6 +94,7 @@ export interface ServerScheduleAssignment {
   id: string
   scheduleId: string
   userId: string
+  shiftId?: string
   date: Date
   status: 'assigned' | 'confirmed' | 'completed' | 'absent' | 'cancelled'
   checkInTime?: Date
@@ -80,6 +104,644 @@ export interface ServerScheduleAssignment {
   updatedAt: Date
 }
 
+// Shift interface for server-side
+export interface ServerShift {
+  id: string
+  name: string
+  code: string
+  description?: string
+  startTime: string
+  endTime: string
+  isOvernight: boolean
+  expectedWorkHours: number
+  lateThresholdMinutes: number
+  earlyLeaveThresholdMinutes: number
+  clockInGraceMinutes: number
+  clockOutGraceMinutes: number
+  defaultBreakPolicyId?: string
+  overtimeAfterHours: number
+  overtimeRateWeekday: number
+  overtimeRateWeekend: number
+  overtimeRateHoliday: number
+  allowsWfh: boolean
+  requiresLocation: boolean
+  requiresPhoto: boolean
+  activeDays: string[]
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Office site (geofence) interface for server-side
+export interface ServerOfficeSite {
+  id: string
+  name: string
+  code?: string
+  address?: string
+  region?: string
+  zones: GeofenceZone[]
+  departments: string[]
+  scheduleIds: string[]
+  isDefault: boolean
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Leave type interface for server-side
+export interface ServerLeaveType {
+  id: string
+  code: string
+  name: string
+  description?: string
+  isPaid: boolean
+  deductsBalance: boolean
+  annualEntitlementDays: number
+  accrualMethod: 'yearly' | 'monthly' | 'none'
+  maxCarryOverDays: number
+  carryOverExpiryMonths?: number
+  maxConsecutiveDays?: number
+  minNoticeDays: number
+  requiresDocument: boolean
+  requiresHrApproval: boolean
+  allowsHalfDay: boolean
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Leave balance interface for server-side (one per employee, type and year)
+export interface ServerLeaveBalance {
+  id: string
+  userId: string
+  leaveTypeId: string
+  year: number
+  entitledDays: number
+  accruedDays: number
+  carriedOverDays: number
+  carryOverExpiresAt?: string // YYYY-MM-DD
+  adjustmentDays: number
+  usedDays: number
+  pendingDays: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type LeaveRequestStatus = 'pending_manager' | 'pending_hr' | 'approved' | 'rejected' | 'cancelled'
+
+// Leave request interface for server-side
+export interface ServerLeaveRequest {
+  id: string
+  userId: string
+  leaveTypeId: string
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD
+  halfDay: boolean
+  days: number
+  reason: string
+  supportingDocument?: string
+  status: LeaveRequestStatus
+  managerId?: string
+  managerApprovedAt?: Date
+  managerResponse?: string
+  managerRejectionReason?: string
+  hrId?: string
+  hrApprovedAt?: Date
+  hrResponse?: string
+  hrRejectionReason?: string
+  cancelledAt?: Date
+  cancellationReason?: string
+  metadata?: any
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type HolidayType = 'national' | 'regional' | 'site' | 'collective_leave' | 'company'
+
+// Holiday calendar entry for server-side
+export interface ServerHoliday {
+  id: string
+  date: string // YYYY-MM-DD
+  name: string
+  description?: string
+  type: HolidayType
+  region?: string
+  siteId?: string
+  isHalfDay: boolean
+  halfDayEndTime?: string // HH:mm, end of the shortened working day
+  source: 'manual' | 'ics' | 'csv'
+  externalId?: string
+  isActive: boolean
+  createdBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Break session interface for server-side
+export interface ServerBreakSession {
+  id: string
+  attendanceId?: string
+  userId: string
+  breakType?: string
+  breakStart: Date
+  breakEnd?: Date
+  durationMinutes?: number
+  isPaid: boolean
+  status: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type OvertimeStatus = 'pending' | 'approved' | 'rejected' | 'cancelled'
+
+// Overtime record interface for server-side (one per employee and work day)
+export interface ServerOvertimeRecord {
+  id: string
+  userId: string
+  workDate: string // YYYY-MM-DD, office-local date the shift starts on
+  shiftId?: string
+  approvalType: 'pre' | 'post'
+  plannedStart?: Date
+  plannedEnd?: Date
+  reason?: string
+  requestedBy?: string
+  workedMinutes: number
+  detectedMinutes: number
+  detectedWeekdayMinutes: number
+  detectedWeekendMinutes: number
+  detectedHolidayMinutes: number
+  segments: OvertimeSegment[]
+  calculatedAt?: Date
+  status: OvertimeStatus
+  approverId?: string
+  approvedAt?: Date
+  rejectionReason?: string
+  approvedMinutesCap?: number
+  approvedWeekdayMinutes: number
+  approvedWeekendMinutes: number
+  approvedHolidayMinutes: number
+  weightedHours: number
+  metadata?: any
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Attendance exception interface for server-side (the fields payroll reads)
+export interface ServerAttendanceException {
+  id: string
+  attendanceId?: string
+  userId: string
+  exceptionType: string
+  approvalStatus: string
+  timeAdjustmentMinutes: number
+  affectSalary: boolean
+  salaryDeductionAmount: number
+  createdAt: Date
+}
+
+// Work hour adjustment interface for server-side
+export interface ServerWorkHourAdjustment {
+  id: string
+  attendanceId: string
+  userId: string
+  adjustmentType?: string
+  differenceHours: number
+  reason: string
+  exceptionId?: string
+  createdAt: Date
+}
+
+// Pay grade interface for server-side
+export interface ServerPayGrade {
+  id: string
+  code: string
+  name: string
+  hourlyRate: number
+  currency: string
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type PayrollPeriodStatus = 'open' | 'closed'
+
+// Payroll period interface for server-side
+export interface ServerPayrollPeriod {
+  id: string
+  name: string
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD
+  status: PayrollPeriodStatus
+  closedAt?: Date
+  closedBy?: string
+  reopenedAt?: Date
+  reopenedBy?: string
+  reopenReason?: string
+  closeCount: number
+  createdBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Payroll entry interface for server-side (one per employee and period)
+export interface ServerPayrollEntry {
+  id: string
+  periodId: string
+  userId: string
+  hourlyRate: number
+  rateSource: 'employee' | 'grade'
+  payGradeId?: string
+  workedDays: number
+  workedMinutes: number
+  regularMinutes: number
+  paidBreakMinutes: number
+  unpaidBreakMinutes: number
+  adjustmentMinutes: number
+  overtimeWeekdayMinutes: number
+  overtimeWeekendMinutes: number
+  overtimeHolidayMinutes: number
+  overtimeWeightedHours: number
+  approvedExceptions: number
+  deductionAmount: number
+  basePay: number
+  overtimePay: number
+  grossPay: number
+  netPay: number
+  metadata?: any
+  createdAt: Date
+}
+
+// Change feed entry for server-side (latest change per row, deletes kept as tombstones)
+export interface ServerSyncChange {
+  entity: SyncFeedEntity
+  entityId: string
+  seq: number
+  operation: 'upsert' | 'delete'
+  ownerId?: string
+  changedAt: Date
+}
+
+export type OfflineFaceReviewStatus = 'pending' | 'approved' | 'dismissed'
+
+// Offline kiosk face check-in with the server's verdict
+export interface ServerOfflineFaceEvent {
+  id: string
+  submittedBy: string
+  deviceId?: string
+  siteId?: string
+  type: 'check-in' | 'check-out' | 'break-start' | 'break-end'
+  capturedAt: Date
+  clockOffsetMs: number
+  eventTimestamp: Date
+  descriptor: number[]
+  liveness: Record<string, any>
+  location?: { latitude: number; longitude: number; accuracy?: number }
+  localUserId?: string
+  localConfidence?: number
+  matchedUserId?: string
+  matchConfidence?: number
+  verdict: OfflineFaceVerdict
+  reason?: string
+  attendanceId?: string
+  reviewStatus?: OfflineFaceReviewStatus
+  reviewedBy?: string
+  reviewedAt?: Date
+  reviewNotes?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Offline change a device stopped retrying, as reported to the server
+export interface ServerSyncDeadLetter {
+  id: string
+  deviceId: string
+  reportedBy: string
+  idempotencyKey: string
+  entity: SyncMutation['entity']
+  entityId: string
+  operation: SyncMutation['operation']
+  mutation: SyncMutation
+  reason: SyncDeadLetterReason
+  lastError: string
+  errorCode?: string
+  httpStatus?: number
+  retryCount: number
+  payloadDiff: SyncPayloadDiff[] | null
+  deviceInfo: SyncDeviceInfo
+  failedAt: Date
+  lastReportedAt?: Date
+  status: SyncDeadLetterStatus
+  retryAttempts: number
+  // Sync result of the last retry from the console
+  resolution?: SyncItemResult
+  resolvedBy?: string
+  resolvedAt?: Date
+  notes?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Dead-letter counts per reporting device
+export interface ServerSyncDeadLetterDevice {
+  deviceId: string
+  openCount: number
+  resolvedCount: number
+  discardedCount: number
+  lastFailedAt?: Date
+  lastReportedAt?: Date
+  deviceInfo: SyncDeviceInfo
+  reportedBy?: string
+}
+
+// Registered face check-in tablet
+export interface ServerKioskDevice {
+  id: string
+  name: string
+  siteId: string
+  siteName?: string
+  publicKey: JsonWebKey
+  status: KioskDeviceStatus
+  disabledAt?: Date
+  disabledBy?: string
+  disabledReason?: string
+  enrolledBy?: string
+  enrolledAt: Date
+  lastSeenAt?: Date
+  lastSeenIp?: string
+  lastHeartbeatAt?: Date
+  heartbeat?: KioskHeartbeat
+  userAgent?: string
+  // Only on device listings (kiosk_device_overview)
+  stats?: ServerKioskDeviceStats
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Check-ins captured by a kiosk over the last 30 days
+export interface ServerKioskDeviceStats {
+  checkins24h: number
+  checkins7d: number
+  checkins30d: number
+  employees30d: number
+  lastCheckinAt?: Date
+}
+
+// One-time code an admin issues to enroll a kiosk on a site
+export interface ServerKioskEnrollmentCode {
+  id: string
+  siteId: string
+  label?: string
+  createdBy?: string
+  expiresAt: Date
+  usedAt?: Date
+  deviceId?: string
+  createdAt: Date
+}
+
+export type ManualCheckinStatus = 'pending' | 'approved' | 'rejected'
+
+// Supervisor-assisted check-in after face recognition failed at a kiosk
+export interface ServerManualCheckin {
+  id: string
+  userId: string
+  type: 'check-in' | 'check-out' | 'break-start' | 'break-end'
+  eventTimestamp: Date
+  identifiedBy: 'employeeId' | 'pin'
+  faceErrorCode?: string
+  photoPath: string
+  kioskDeviceId?: string
+  location?: { latitude: number; longitude: number; accuracy?: number }
+  geofence?: Record<string, any>
+  zoneViolation: boolean
+  status: ManualCheckinStatus
+  cosignedBy?: string
+  cosignedAt?: Date
+  cosignVia?: 'kiosk' | 'review'
+  reviewNotes?: string
+  attendanceId?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Saved report builder definition (reports table, type 'custom')
+export interface ServerReportDefinition {
+  id: string
+  name: string
+  description?: string
+  config: Record<string, any>
+  version: number
+  createdBy: string
+  isPublic: boolean
+  sharedWith: string[]
+  isScheduled?: boolean
+  scheduleConfig?: Record<string, any>
+  lastGeneratedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ServerReportVersion {
+  id: string
+  reportId: string
+  version: number
+  name: string
+  description?: string
+  config: Record<string, any>
+  createdBy?: string
+  createdAt: Date
+}
+
+export type ScheduledJobKind = 'report' | 'export' | 'retention' | 'archival'
+export type ScheduledJobFormat = 'pdf' | 'excel' | 'csv' | 'json'
+export type ScheduledJobFrequency = 'daily' | 'weekly' | 'monthly'
+export type ScheduledJobRunStatus = 'running' | 'succeeded' | 'partial' | 'failed'
+
+export interface ScheduledJobChannel {
+  type: string
+  // Channel-specific destination (webhook URL, directory); email uses the job's recipients
+  target?: string
+}
+
+export interface ServerScheduledJob {
+  id: string
+  name: string
+  kind: ScheduledJobKind
+  reportId?: string
+  // Export definition for kind 'export' (data source, fields, filters)
+  config: Record<string, any>
+  format: ScheduledJobFormat
+  frequency: ScheduledJobFrequency
+  timeOfDay: string // HH:mm, office time
+  dayOfWeek?: number // 0 = Sunday, weekly jobs
+  dayOfMonth?: number // monthly jobs; clamped to the month's last day
+  recipients: string[]
+  channels: ScheduledJobChannel[]
+  enabled: boolean
+  nextRunAt: Date
+  lastRunAt?: Date
+  lastStatus?: ScheduledJobRunStatus
+  lockedBy?: string
+  lockedUntil?: Date
+  createdBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ScheduledJobDelivery {
+  type: string
+  target?: string
+  success: boolean
+  error?: string
+  deliveredAt: string
+}
+
+export interface ServerScheduledJobRun {
+  id: string
+  jobId: string
+  status: ScheduledJobRunStatus
+  triggeredBy?: string
+  runnerId?: string
+  scheduledFor?: Date
+  startedAt: Date
+  finishedAt?: Date
+  artifactPath?: string
+  artifactSize?: number
+  contentType?: string
+  recordCount?: number
+  deliveries: ScheduledJobDelivery[]
+  error?: string
+}
+
+export type ImportType = 'employees' | 'attendance' | 'punch_log'
+export type ImportMode = 'insert' | 'update' | 'upsert'
+export type ImportSessionStatus = 'previewed' | 'committed' | 'rolled_back'
+export type ImportRowAction = 'create' | 'update' | 'skip' | 'error'
+
+export interface ImportFieldDiff {
+  field: string
+  from: any
+  to: any
+}
+
+export interface ImportRowResult {
+  row: number // 1-based, as in the file
+  action: ImportRowAction
+  // Email, or employee and date, identifying the row's target
+  key?: string
+  changes: Array<{
+    entity: 'users' | 'attendance_records'
+    action: 'create' | 'update'
+    entityId: string
+    label?: string
+    diffs: ImportFieldDiff[]
+  }>
+  messages: string[]
+}
+
+export interface ImportPlanOperation {
+  row: number
+  entity: 'users' | 'attendance_records'
+  action: 'create' | 'update'
+  id: string
+  // Column values to write
+  values: Record<string, any>
+  // updated_at seen by the preview; commit refuses the row if it moved
+  expectedUpdatedAt?: string
+}
+
+export interface ImportSummary {
+  total: number
+  create: number
+  update: number
+  skip: number
+  error: number
+}
+
+export interface ServerImportSession {
+  id: string
+  importType: ImportType
+  mode: ImportMode
+  filename: string
+  status: ImportSessionStatus
+  // Punch logs: parser format and external ID source
+  options: { format?: string; source?: string }
+  // Omitted from listings
+  rows?: ImportRowResult[]
+  summary: ImportSummary
+  createdBy?: string
+  createdAt: Date
+  expiresAt: Date
+  committedBy?: string
+  committedAt?: Date
+  rolledBackBy?: string
+  rolledBackAt?: Date
+  rollbackResult?: {
+    reverted: number
+    skipped: Array<{ row: number; entity: string; id: string; reason: string }>
+  }
+}
+
+// Badge, card or PIN number an employee uses on a third-party time clock
+export interface ServerEmployeeExternalId {
+  id: string
+  userId: string
+  source: string // Terminal system or site the number belongs to
+  externalId: string
+  createdBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ArchivalRuleType = 'archival' | 'cleanup' | 'retention'
+export type ArchivalTable = 'users' | 'attendance_records' | 'schedules' | 'audit_logs'
+
+// Stored archival/cleanup rule or retention policy; lib/data-archival.ts
+// shapes it per type
+export interface ServerArchivalRule {
+  id: string
+  ruleType: ArchivalRuleType
+  name: string
+  description: string
+  entityType: string
+  enabled: boolean
+  conditions: Array<{ field: string; operator: string; value?: any; logicalOperator?: 'and' | 'or' }>
+  settings: Record<string, any>
+  schedule?: { enabled: boolean; frequency: ScheduledJobFrequency; time: string }
+  createdBy?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Column test in an archival candidate query. Queries take a list of
+// groups: filters within a group are AND'ed, groups are OR'ed.
+export interface ArchivalFilter {
+  column: string
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'ilike' | 'in'
+  value: string | number | boolean | Array<string | number>
+}
+
+export interface ServerArchivedRecord {
+  id: string
+  objectId: string
+  entityType: string
+  originalId: string
+  size: number
+  summary: Record<string, any>
+  status: 'archived' | 'restored'
+  retentionExpiresAt?: Date
+  archivedAt: Date
+  restoredAt?: Date
+  restoredBy?: string
+  object: {
+    sourceTable: ArchivalTable
+    storagePath: string
+    checksum: string
+    archivedBy?: string
+    archivedByName?: string
+    purgedAt?: Date
+  }
+}
+
 // Settings interface for server-side
 export interface ServerSettings {
   company: {
@@ -95,6 +757,10 @@ export interface ServerSettings {
     allowRemoteCheckIn?: boolean
     requirePhoto?: boolean
     requireLocation?: boolean
+    geofencePolicy?: GeofencePolicy
+    requireKioskDevice?: boolean // Face check-ins only from registered kiosks
+    adaptiveFaceTemplates?: boolean // Confident check-ins refine a per-user adaptive embedding
+    minRestHours?: number // Minimum rest between shifts, enforced on shift swaps
     workingHours?: {
       start: string
       end: string
@@ -102,7 +768,7 @@ export interface ServerSettings {
     }
     overtimeSettings?: {
       enabled?: boolean
-      maxDailyHours?: number
+      maxDailyHours?: number // Most overtime hours per day that can count
       requireApproval?: boolean
     }
   }
@@ -155,10 +821,37 @@ export interface ServerFaceEmbedding {
   quality?: number
   metadata?: Record<string, any>
   isActive?: boolean
+  // Lifecycle statistics (migration 020)
+  matchCount?: number
+  lowMatchStreak?: number
+  avgMatchConfidence?: number
+  lastMatchedAt?: Date
+  needsReenrollment?: boolean
+  flaggedAt?: Date
+  lifecycleReason?: 'low_match_score' | 'aged_out'
+  // 'adaptive' embeddings are refined from check-ins (migration 021)
+  kind?: 'enrolled' | 'adaptive'
   createdAt: Date
   updatedAt: Date
 }
 
+// One change to a user's adaptive face embedding, kept so it can be reverted
+export interface ServerFaceTemplateUpdate {
+  id: string
+  userId: string
+  embeddingId: string
+  previousEmbedding?: number[]
+  newEmbedding: number[]
+  referenceSimilarity: number
+  matchConfidence: number
+  matchMargin?: number
+  attendanceId?: string
+  livenessChallengeId?: string
+  revertedAt?: Date
+  revertedBy?: string
+  createdAt: Date
+}
+
 // In-memory data store for server-side (in production, this would be a real database)
 // Initialize users array - will be populated based on environment configuration
 let users: ServerUser[] = []
@@ -232,6 +925,8 @@ let settings: ServerSettings = {
     allowRemoteCheckIn: false,
     requirePhoto: true,
     requireLocation: true,
+    requireKioskDevice: true,
+    adaptiveFaceTemplates: false,
     workingHours: {
       start: "08:00",
       end: "17:00",
@@ -0,0 +1,110 @@
+/**
+ * Shift Swap Execution
+ * Applies approved swaps to the roster through the `execute_shift_swap`
+ * database function (migration 008), which rewrites both employees'
+ * schedule assignments, re-checks double-booking and rest periods, records
+ * compensation and notifies both parties in a single transaction.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import { OFFICE_INFO } from '@/lib/app-config'
+import { logger } from '@/lib/logger'
+
+export type ShiftSwapType =
+  | 'direct_swap'
+  | 'one_way_coverage'
+  | 'temporary_coverage'
+  | 'emergency_swap'
+  | 'partial_swap'
+
+export type ShiftSwapViolationType = 'missing_target' | 'no_shift' | 'double_booking' | 'overlap' | 'rest_period'
+
+export interface ShiftSwapViolation {
+  type: ShiftSwapViolationType
+  userId?: string
+  date?: string
+  previousDate?: string
+  restHours?: number
+  minRestHours?: number
+}
+
+export type ShiftSwapExecution =
+  | { executed: true; assignmentIds: string[]; compensationId: string | null }
+  | { executed: false; error: string; violations: ShiftSwapViolation[] }
+
+export const SHIFT_SWAP_TYPES: ShiftSwapType[] = [
+  'direct_swap',
+  'one_way_coverage',
+  'temporary_coverage',
+  'emergency_swap',
+  'partial_swap'
+]
+
+// Minimum hours off between two shifts unless attendance settings say otherwise
+export const DEFAULT_MIN_REST_HOURS = 8
+
+/**
+ * Human-readable description of a violation, used in history and responses
+ */
+export function describeSwapViolation(violation: ShiftSwapViolation): string {
+  switch (violation.type) {
+    case 'missing_target':
+      return 'Swap has no target employee'
+    case 'no_shift':
+      return `No shift to hand over on ${violation.date}`
+    case 'double_booking':
+      return `Employee would have two shifts on ${violation.date}`
+    case 'overlap':
+      return `Shifts on ${violation.previousDate} and ${violation.date} would overlap`
+    case 'rest_period':
+      return `Only ${violation.restHours}h rest between ${violation.previousDate} and ${violation.date} (minimum ${violation.minRestHours}h)`
+  }
+}
+
+function parseViolations(details?: string): ShiftSwapViolation[] {
+  if (!details) return []
+  try {
+    const parsed = JSON.parse(details)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export class ShiftSwapService {
+  /**
+   * Execute an approved swap. Conflicts are returned with their violations;
+   * in that case nothing on the roster has changed.
+   */
+  async execute(swapId: string, actorId?: string): Promise<ShiftSwapExecution> {
+    const attendanceSettings = await serverDbManager.getSettings('attendance').catch(() => null)
+    const minRestHours = Number(attendanceSettings?.minRestHours ?? DEFAULT_MIN_REST_HOURS)
+
+    const { result, error } = await serverDbManager.executeShiftSwap(swapId, {
+      actorId,
+      timeZone: OFFICE_INFO.timezone,
+      minRestHours
+    })
+
+    if (error) {
+      const violations = error.message === 'SHIFT_SWAP_CONFLICT' ? parseViolations(error.details) : []
+      logger.warn('Shift swap not executed', { swapId, error: error.message, details: error.details })
+      return { executed: false, error: error.message, violations }
+    }
+
+    logger.info('Shift swap executed', {
+      swapId,
+      swapType: result?.swapType,
+      assignments: result?.assignmentIds?.length ?? 0
+    })
+
+    return {
+      executed: true,
+      assignmentIds: result?.assignmentIds || [],
+      compensationId: result?.compensationId || null
+    }
+  }
+}
+
+// Export singleton instance
+export const shiftSwapService = new ShiftSwapService()
@@ -1,4 +1,4 @@
-import { storageManager, AttendanceRecord, User, SyncQueueItem, OfflineData, AppSettings } from './db'
+import { storageManager, AttendanceRecord, User, SyncQueueItem, OfflineData, AppSettings, DeadLetterItem } from './db'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Cache interface
@@ -291,6 +291,23 @@ export class StorageService {
     await storageManager.removeSyncQueueItem(id)
   }
 
+  // Dead-letter operations
+  async moveToDeadLetters(deadLetter: DeadLetterItem): Promise<void> {
+    await storageManager.moveToDeadLetters(deadLetter)
+  }
+
+  async getDeadLetters(): Promise<DeadLetterItem[]> {
+    return await storageManager.getDeadLetters()
+  }
+
+  async updateDeadLetter(deadLetter: DeadLetterItem): Promise<void> {
+    await storageManager.updateDeadLetter(deadLetter)
+  }
+
+  async removeDeadLetter(id: string): Promise<void> {
+    await storageManager.removeDeadLetter(id)
+  }
+
   // Offline data operations
   async getOfflineData(): Promise<OfflineData | null> {
     const cacheKey = this.getCacheKey('offlineData')
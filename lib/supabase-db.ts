@@ -11,8 +11,55 @@ import type {
   ServerSchedule,
   ServerScheduleAssignment,
   ServerSettings,
-  ServerFaceEmbedding
+  ServerFaceEmbedding,
+  ServerShift,
+  ServerOfficeSite,
+  ServerLeaveType,
+  ServerLeaveBalance,
+  ServerLeaveRequest,
+  LeaveRequestStatus,
+  ServerHoliday,
+  HolidayType,
+  ServerBreakSession,
+  ServerOvertimeRecord,
+  OvertimeStatus,
+  ServerAttendanceException,
+  ServerWorkHourAdjustment,
+  ServerPayGrade,
+  ServerPayrollPeriod,
+  ServerPayrollEntry,
+  PayrollPeriodStatus,
+  ServerSyncChange,
+  ServerOfflineFaceEvent,
+  OfflineFaceReviewStatus,
+  ServerSyncDeadLetter,
+  ServerSyncDeadLetterDevice,
+  ServerKioskDevice,
+  ServerKioskEnrollmentCode,
+  ServerManualCheckin,
+  ManualCheckinStatus,
+  ServerFaceTemplateUpdate,
+  ServerReportDefinition,
+  ServerReportVersion,
+  ServerScheduledJob,
+  ServerScheduledJobRun,
+  ScheduledJobKind,
+  ScheduledJobRunStatus,
+  ServerImportSession,
+  ImportType,
+  ImportMode,
+  ImportRowResult,
+  ImportPlanOperation,
+  ImportSummary,
+  ServerEmployeeExternalId,
+  ServerArchivalRule,
+  ArchivalRuleType,
+  ArchivalTable,
+  ArchivalFilter,
+  ServerArchivedRecord
 } from './server-db'
+import type { KioskDeviceStatus } from './kiosk-protocol'
+import type { SyncFeedEntity, SyncDeadLetterReport, SyncDeadLetterAck, SyncDeadLetterStatus } from './sync-protocol'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
@@ -21,6 +68,18 @@ if (!supabaseUrl || !supabaseKey) {
   throw new Error('Missing Supabase credentials. Please check your environment variables.')
 }
 
+// Import session columns without the per-row results and plan
+const IMPORT_SESSION_COLUMNS =
+  'id, import_type, mode, filename, status, options, summary, created_by, created_at, expires_at, committed_by, committed_at, rolled_back_by, rolled_back_at, rollback_result'
+
+// Keys per IN (...) lookup, and rows per page, when resolving import rows
+const IMPORT_LOOKUP_CHUNK = 200
+const IMPORT_PAGE_SIZE = 1000
+
+// Archive index entries with the object they live in and who archived it
+const ARCHIVED_RECORD_COLUMNS =
+  '*, archive_objects(source_table, storage_path, checksum, archived_by, purged_at, users(name))'
+
 export class SupabaseDbManager {
   private supabase: SupabaseClient
   
@@ -121,6 +180,24 @@ export class SupabaseDbManager {
     return this.mapDbUserToServerUser(data)
   }
   
+  async getUserByEmployeeId(employeeId: string): Promise<ServerUser | null> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('*')
+      .ilike('employee_id', employeeId)
+      .eq('is_active', true)
+      .maybeSingle()
+    
+    if (error) {
+      logger.error('Error fetching user by employee ID', error as Error)
+      return null
+    }
+    
+    if (!data) return null
+    
+    return this.mapDbUserToServerUser(data)
+  }
+  
   async saveUser(user: ServerUser): Promise<ServerUser> {
     const dbUser = this.mapServerUserToDbUser(user)
     
@@ -438,6 +515,64 @@ export class SupabaseDbManager {
     return (data || []).map(this.mapDbFaceEmbeddingToServerFaceEmbedding)
   }
   
+  /**
+   * Active embeddings of active users in a single query (used to build the
+   * in-process matching index)
+   */
+  async getIndexableFaceEmbeddings(): Promise<ServerFaceEmbedding[]> {
+    const { data, error } = await this.supabase
+      .from('face_embeddings')
+      .select('id, user_id, embedding, quality, is_active, kind, created_at, updated_at, users!inner(is_active)')
+      .eq('is_active', true)
+      .eq('users.is_active', true)
+    
+    if (error) {
+      logger.error('Error fetching indexable face embeddings', error as Error)
+      throw new Error(`Failed to load face embeddings: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbFaceEmbeddingToServerFaceEmbedding)
+  }
+  
+  async countIndexableFaceEmbeddings(): Promise<number> {
+    const { count, error } = await this.supabase
+      .from('face_embeddings')
+      .select('id, users!inner(is_active)', { count: 'exact', head: true })
+      .eq('is_active', true)
+      .eq('users.is_active', true)
+    
+    if (error) {
+      logger.error('Error counting face embeddings', error as Error)
+      return 0
+    }
+    
+    return count || 0
+  }
+  
+  /**
+   * Nearest-neighbour search using the pgvector index (migration 006)
+   */
+  async matchFaceEmbeddingsByVector(
+    descriptor: number[],
+    matchCount: number
+  ): Promise<Array<{ embeddingId: string; userId: string; similarity: number; distance: number }>> {
+    const { data, error } = await this.supabase.rpc('match_face_embeddings', {
+      query_embedding: descriptor,
+      match_count: matchCount
+    })
+    
+    if (error) {
+      throw new Error(`Vector search failed: ${error.message}`)
+    }
+    
+    return (data || []).map((row: any) => ({
+      embeddingId: row.id,
+      userId: row.user_id,
+      similarity: Number(row.similarity),
+      distance: Number(row.distance)
+    }))
+  }
+  
   async saveFaceEmbedding(embedding: ServerFaceEmbedding): Promise<ServerFaceEmbedding> {
     const dbEmbedding = {
       id: embedding.id,
@@ -446,6 +581,7 @@ export class SupabaseDbManager {
       quality: embedding.quality,
       metadata: embedding.metadata,
       is_active: embedding.isActive ?? true,
+      kind: embedding.kind || 'enrolled',
       created_at: embedding.createdAt?.toISOString() || new Date().toISOString(),
       updated_at: embedding.updatedAt?.toISOString() || new Date().toISOString()
     }
@@ -464,6 +600,99 @@ export class SupabaseDbManager {
     return this.mapDbFaceEmbeddingToServerFaceEmbedding(data)
   }
   
+  /**
+   * Update the match statistics of the embedding behind a successful
+   * check-in (migration 020). Returns null for unknown embeddings.
+   */
+  async recordFaceEmbeddingMatch(
+    embeddingId: string,
+    confidence: number,
+    lowConfidence: number,
+    flagAfter: number
+  ): Promise<{ matchCount: number; lowMatchStreak: number; avgMatchConfidence: number; newlyFlagged: boolean } | null> {
+    const { data, error } = await this.supabase.rpc('record_face_embedding_match', {
+      p_embedding_id: embeddingId,
+      p_confidence: confidence,
+      p_low_confidence: lowConfidence,
+      p_flag_after: flagAfter
+    })
+
+    if (error) {
+      throw new Error(`Failed to record face match: ${error.message}`)
+    }
+    if (!data) return null
+
+    return {
+      matchCount: data.match_count,
+      lowMatchStreak: data.low_match_streak,
+      avgMatchConfidence: Number(data.avg_match_confidence),
+      newlyFlagged: !!data.newly_flagged
+    }
+  }
+
+  /**
+   * Deactivate active embeddings enrolled before the cutoff, optionally for
+   * one user only. Returns the retired embeddings.
+   */
+  async retireAgedFaceEmbeddings(cutoff: Date, userId?: string): Promise<ServerFaceEmbedding[]> {
+    let query = this.supabase
+      .from('face_embeddings')
+      .update({ is_active: false, lifecycle_reason: 'aged_out', updated_at: new Date().toISOString() })
+      .eq('is_active', true)
+      .lt('created_at', cutoff.toISOString())
+
+    if (userId) {
+      query = query.eq('user_id', userId)
+    }
+
+    const { data, error } = await query.select('id, user_id, quality, metadata, is_active, lifecycle_reason, created_at, updated_at')
+
+    if (error) {
+      logger.error('Error retiring aged face embeddings', error as Error)
+      throw new Error(`Failed to retire face embeddings: ${error.message}`)
+    }
+
+    return (data || []).map(this.mapDbFaceEmbeddingToServerFaceEmbedding)
+  }
+
+  /**
+   * Permanently delete embeddings that have been inactive since the cutoff
+   */
+  async purgeInactiveFaceEmbeddings(cutoff: Date): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('face_embeddings')
+      .delete()
+      .eq('is_active', false)
+      .lt('updated_at', cutoff.toISOString())
+      .select('id')
+
+    if (error) {
+      logger.error('Error purging inactive face embeddings', error as Error)
+      throw new Error(`Failed to purge face embeddings: ${error.message}`)
+    }
+
+    return data?.length || 0
+  }
+
+  /**
+   * Active embeddings flagged for re-enrollment, newest flag first
+   */
+  async getFlaggedFaceEmbeddings(): Promise<ServerFaceEmbedding[]> {
+    const { data, error } = await this.supabase
+      .from('face_embeddings')
+      .select('id, user_id, quality, metadata, is_active, match_count, low_match_streak, avg_match_confidence, last_matched_at, needs_reenrollment, flagged_at, lifecycle_reason, created_at, updated_at')
+      .eq('is_active', true)
+      .eq('needs_reenrollment', true)
+      .order('flagged_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching flagged face embeddings', error as Error)
+      return []
+    }
+
+    return (data || []).map(this.mapDbFaceEmbeddingToServerFaceEmbedding)
+  }
+
   async deleteFaceEmbedding(id: string): Promise<boolean> {
     // Soft delete
     const { error } = await this.supabase
@@ -478,6 +707,96 @@ export class SupabaseDbManager {
     
     return true
   }
+
+  /**
+   * Record a change to a user's adaptive embedding (migration 021)
+   */
+  async createFaceTemplateUpdate(
+    update: Omit<ServerFaceTemplateUpdate, 'id' | 'revertedAt' | 'revertedBy' | 'createdAt'>
+  ): Promise<ServerFaceTemplateUpdate> {
+    const { data, error } = await this.supabase
+      .from('face_template_updates')
+      .insert({
+        user_id: update.userId,
+        embedding_id: update.embeddingId,
+        previous_embedding: update.previousEmbedding || null,
+        new_embedding: update.newEmbedding,
+        reference_similarity: update.referenceSimilarity,
+        match_confidence: update.matchConfidence,
+        match_margin: update.matchMargin ?? null,
+        attendance_id: update.attendanceId || null,
+        liveness_challenge_id: update.livenessChallengeId || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error recording face template update', error as Error)
+      throw new Error(`Failed to record face template update: ${error.message}`)
+    }
+
+    return this.mapDbFaceTemplateUpdate(data)
+  }
+
+  /**
+   * A user's adaptive template updates, newest first
+   */
+  async getFaceTemplateUpdates(
+    userId: string,
+    options?: { includeReverted?: boolean; limit?: number }
+  ): Promise<ServerFaceTemplateUpdate[]> {
+    let query = this.supabase
+      .from('face_template_updates')
+      .select('*')
+      .eq('user_id', userId)
+
+    if (!options?.includeReverted) {
+      query = query.is('reverted_at', null)
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(options?.limit || 50)
+
+    if (error) {
+      logger.error('Error fetching face template updates', error as Error)
+      throw new Error(`Failed to fetch face template updates: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbFaceTemplateUpdate(row))
+  }
+
+  async markFaceTemplateUpdatesReverted(ids: string[], revertedBy: string): Promise<void> {
+    if (ids.length === 0) return
+
+    const { error } = await this.supabase
+      .from('face_template_updates')
+      .update({ reverted_at: new Date().toISOString(), reverted_by: revertedBy })
+      .in('id', ids)
+
+    if (error) {
+      logger.error('Error reverting face template updates', error as Error)
+      throw new Error(`Failed to revert face template updates: ${error.message}`)
+    }
+  }
+
+  private mapDbFaceTemplateUpdate(row: any): ServerFaceTemplateUpdate {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      embeddingId: row.embedding_id,
+      previousEmbedding: row.previous_embedding || undefined,
+      newEmbedding: row.new_embedding,
+      referenceSimilarity: Number(row.reference_similarity),
+      matchConfidence: Number(row.match_confidence),
+      matchMargin: row.match_margin ?? undefined,
+      attendanceId: row.attendance_id || undefined,
+      livenessChallengeId: row.liveness_challenge_id || undefined,
+      revertedAt: row.reverted_at ? new Date(row.reverted_at) : undefined,
+      revertedBy: row.reverted_by || undefined,
+      createdAt: new Date(row.created_at)
+    }
+  }
   
   // ============================================
   // AUDIT LOG OPERATIONS
@@ -646,6 +965,10 @@ export class SupabaseDbManager {
       address: dbUser.address,
       startDate: dbUser.start_date ? new Date(dbUser.start_date) : undefined,
       isActive: dbUser.is_active,
+      payGradeId: dbUser.pay_grade_id || undefined,
+      hourlyRate: dbUser.hourly_rate != null ? Number(dbUser.hourly_rate) : undefined,
+      bankCode: dbUser.bank_code || undefined,
+      bankAccountNumber: dbUser.bank_account_number || undefined,
       createdAt: new Date(dbUser.created_at),
       updatedAt: new Date(dbUser.updated_at)
     }
@@ -666,6 +989,10 @@ export class SupabaseDbManager {
       address: user.address,
       start_date: user.startDate?.toISOString().split('T')[0],
       is_active: (user as any).isActive ?? true,
+      pay_grade_id: user.payGradeId,
+      hourly_rate: user.hourlyRate,
+      bank_code: user.bankCode,
+      bank_account_number: user.bankAccountNumber,
       created_at: user.createdAt?.toISOString() || new Date().toISOString(),
       updated_at: user.updatedAt?.toISOString() || new Date().toISOString()
     }
@@ -683,7 +1010,10 @@ export class SupabaseDbManager {
       status: dbRecord.status,
       verified: dbRecord.verified,
       synced: dbRecord.synced,
+      zoneViolation: dbRecord.zone_violation ?? false,
       metadata: dbRecord.metadata,
+      versionVector: dbRecord.version_vector ?? undefined,
+      kioskDeviceId: dbRecord.kiosk_device_id ?? undefined,
       createdAt: new Date(dbRecord.created_at),
       updatedAt: new Date(dbRecord.updated_at)
     }
@@ -701,7 +1031,11 @@ export class SupabaseDbManager {
       status: record.status,
       verified: record.verified ?? false,
       synced: record.synced ?? true,
+      zone_violation: record.zoneViolation ?? false,
       metadata: record.metadata,
+      // Left out unless set, so the trigger counts the write as a server edit
+      ...(record.versionVector ? { version_vector: record.versionVector } : {}),
+      ...(record.kioskDeviceId ? { kiosk_device_id: record.kioskDeviceId } : {}),
       created_at: record.createdAt?.toISOString() || new Date().toISOString(),
       updated_at: record.updatedAt?.toISOString() || new Date().toISOString()
     }
@@ -759,11 +1093,347 @@ export class SupabaseDbManager {
       quality: dbEmbedding.quality,
       metadata: dbEmbedding.metadata,
       isActive: dbEmbedding.is_active,
+      matchCount: dbEmbedding.match_count ?? undefined,
+      lowMatchStreak: dbEmbedding.low_match_streak ?? undefined,
+      avgMatchConfidence: dbEmbedding.avg_match_confidence ?? undefined,
+      lastMatchedAt: dbEmbedding.last_matched_at ? new Date(dbEmbedding.last_matched_at) : undefined,
+      needsReenrollment: dbEmbedding.needs_reenrollment ?? undefined,
+      flaggedAt: dbEmbedding.flagged_at ? new Date(dbEmbedding.flagged_at) : undefined,
+      lifecycleReason: dbEmbedding.lifecycle_reason || undefined,
+      kind: dbEmbedding.kind || undefined,
       createdAt: new Date(dbEmbedding.created_at),
       updatedAt: new Date(dbEmbedding.updated_at)
     }
   }
   
+  private mapDbScheduleAssignmentToServerScheduleAssignment(dbAssignment: any): ServerScheduleAssignment {
+    return {
+      id: dbAssignment.id,
+      scheduleId: dbAssignment.schedule_id,
+      userId: dbAssignment.user_id,
+      shiftId: dbAssignment.shift_id || undefined,
+      date: new Date(dbAssignment.date),
+      status: dbAssignment.status,
+      checkInTime: dbAssignment.check_in_time ? new Date(dbAssignment.check_in_time) : undefined,
+      checkOutTime: dbAssignment.check_out_time ? new Date(dbAssignment.check_out_time) : undefined,
+      notes: dbAssignment.notes,
+      createdAt: new Date(dbAssignment.created_at),
+      updatedAt: new Date(dbAssignment.updated_at)
+    }
+  }
+  
+  private mapServerScheduleAssignmentToDbScheduleAssignment(assignment: ServerScheduleAssignment): any {
+    return {
+      id: assignment.id,
+      schedule_id: assignment.scheduleId || null,
+      user_id: assignment.userId,
+      shift_id: assignment.shiftId || null,
+      date: assignment.date.toISOString().split('T')[0],
+      status: assignment.status,
+      check_in_time: assignment.checkInTime?.toISOString(),
+      check_out_time: assignment.checkOutTime?.toISOString(),
+      notes: assignment.notes,
+      created_at: assignment.createdAt?.toISOString() || new Date().toISOString(),
+      updated_at: assignment.updatedAt?.toISOString() || new Date().toISOString()
+    }
+  }
+  
+  private mapDbOfficeSiteToServerOfficeSite(dbSite: any): ServerOfficeSite {
+    return {
+      id: dbSite.id,
+      name: dbSite.name,
+      code: dbSite.code,
+      address: dbSite.address,
+      region: dbSite.region || undefined,
+      zones: dbSite.zones || [],
+      departments: dbSite.departments || [],
+      scheduleIds: dbSite.schedule_ids || [],
+      isDefault: dbSite.is_default ?? false,
+      isActive: dbSite.is_active ?? true,
+      createdAt: new Date(dbSite.created_at),
+      updatedAt: new Date(dbSite.updated_at)
+    }
+  }
+  
+  private mapDbLeaveTypeToServerLeaveType(dbType: any): ServerLeaveType {
+    return {
+      id: dbType.id,
+      code: dbType.code,
+      name: dbType.name,
+      description: dbType.description || undefined,
+      isPaid: dbType.is_paid ?? true,
+      deductsBalance: dbType.deducts_balance ?? true,
+      annualEntitlementDays: Number(dbType.annual_entitlement_days ?? 0),
+      accrualMethod: dbType.accrual_method || 'yearly',
+      maxCarryOverDays: Number(dbType.max_carry_over_days ?? 0),
+      carryOverExpiryMonths: dbType.carry_over_expiry_months ?? undefined,
+      maxConsecutiveDays: dbType.max_consecutive_days ?? undefined,
+      minNoticeDays: dbType.min_notice_days ?? 0,
+      requiresDocument: dbType.requires_document ?? false,
+      requiresHrApproval: dbType.requires_hr_approval ?? false,
+      allowsHalfDay: dbType.allows_half_day ?? true,
+      isActive: dbType.is_active ?? true,
+      createdAt: new Date(dbType.created_at),
+      updatedAt: new Date(dbType.updated_at)
+    }
+  }
+  
+  private mapDbLeaveBalanceToServerLeaveBalance(dbBalance: any): ServerLeaveBalance {
+    return {
+      id: dbBalance.id,
+      userId: dbBalance.user_id,
+      leaveTypeId: dbBalance.leave_type_id,
+      year: dbBalance.year,
+      entitledDays: Number(dbBalance.entitled_days ?? 0),
+      accruedDays: Number(dbBalance.accrued_days ?? 0),
+      carriedOverDays: Number(dbBalance.carried_over_days ?? 0),
+      carryOverExpiresAt: dbBalance.carry_over_expires_at || undefined,
+      adjustmentDays: Number(dbBalance.adjustment_days ?? 0),
+      usedDays: Number(dbBalance.used_days ?? 0),
+      pendingDays: Number(dbBalance.pending_days ?? 0),
+      createdAt: new Date(dbBalance.created_at),
+      updatedAt: new Date(dbBalance.updated_at)
+    }
+  }
+  
+  private mapDbLeaveRequestToServerLeaveRequest(dbRequest: any): ServerLeaveRequest {
+    return {
+      id: dbRequest.id,
+      userId: dbRequest.user_id,
+      leaveTypeId: dbRequest.leave_type_id,
+      startDate: dbRequest.start_date,
+      endDate: dbRequest.end_date,
+      halfDay: dbRequest.half_day ?? false,
+      days: Number(dbRequest.days),
+      reason: dbRequest.reason,
+      supportingDocument: dbRequest.supporting_document || undefined,
+      status: dbRequest.status,
+      managerId: dbRequest.manager_id || undefined,
+      managerApprovedAt: dbRequest.manager_approved_at ? new Date(dbRequest.manager_approved_at) : undefined,
+      managerResponse: dbRequest.manager_response || undefined,
+      managerRejectionReason: dbRequest.manager_rejection_reason || undefined,
+      hrId: dbRequest.hr_id || undefined,
+      hrApprovedAt: dbRequest.hr_approved_at ? new Date(dbRequest.hr_approved_at) : undefined,
+      hrResponse: dbRequest.hr_response || undefined,
+      hrRejectionReason: dbRequest.hr_rejection_reason || undefined,
+      cancelledAt: dbRequest.cancelled_at ? new Date(dbRequest.cancelled_at) : undefined,
+      cancellationReason: dbRequest.cancellation_reason || undefined,
+      metadata: dbRequest.metadata || undefined,
+      createdAt: new Date(dbRequest.created_at),
+      updatedAt: new Date(dbRequest.updated_at)
+    }
+  }
+  
+  private mapDbHolidayToServerHoliday(dbHoliday: any): ServerHoliday {
+    return {
+      id: dbHoliday.id,
+      date: dbHoliday.date,
+      name: dbHoliday.name,
+      description: dbHoliday.description || undefined,
+      type: dbHoliday.type,
+      region: dbHoliday.region || undefined,
+      siteId: dbHoliday.site_id || undefined,
+      isHalfDay: dbHoliday.is_half_day ?? false,
+      halfDayEndTime: dbHoliday.half_day_end_time ? String(dbHoliday.half_day_end_time).slice(0, 5) : undefined,
+      source: dbHoliday.source || 'manual',
+      externalId: dbHoliday.external_id || undefined,
+      isActive: dbHoliday.is_active ?? true,
+      createdBy: dbHoliday.created_by || undefined,
+      createdAt: new Date(dbHoliday.created_at),
+      updatedAt: new Date(dbHoliday.updated_at)
+    }
+  }
+  
+  private mapServerHolidayToDbHoliday(holiday: ServerHoliday): any {
+    return {
+      id: holiday.id,
+      date: holiday.date,
+      name: holiday.name,
+      description: holiday.description || null,
+      type: holiday.type,
+      region: holiday.region || null,
+      site_id: holiday.siteId || null,
+      is_half_day: holiday.isHalfDay,
+      half_day_end_time: holiday.isHalfDay ? holiday.halfDayEndTime || null : null,
+      source: holiday.source,
+      external_id: holiday.externalId || null,
+      is_active: holiday.isActive,
+      created_by: holiday.createdBy || null,
+      created_at: holiday.createdAt?.toISOString() || new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    }
+  }
+  
+  private mapDbBreakSessionToServerBreakSession(dbSession: any): ServerBreakSession {
+    return {
+      id: dbSession.id,
+      attendanceId: dbSession.attendance_id || undefined,
+      userId: dbSession.user_id,
+      breakType: dbSession.break_type || undefined,
+      breakStart: new Date(dbSession.break_start),
+      breakEnd: dbSession.break_end ? new Date(dbSession.break_end) : undefined,
+      durationMinutes: dbSession.duration_minutes ?? undefined,
+      isPaid: dbSession.is_paid ?? true,
+      status: dbSession.status || 'in_progress',
+      createdAt: new Date(dbSession.created_at),
+      updatedAt: new Date(dbSession.updated_at)
+    }
+  }
+  
+  private mapDbOvertimeToServerOvertime(dbRecord: any): ServerOvertimeRecord {
+    return {
+      id: dbRecord.id,
+      userId: dbRecord.user_id,
+      workDate: dbRecord.work_date,
+      shiftId: dbRecord.shift_id || undefined,
+      approvalType: dbRecord.approval_type || 'post',
+      plannedStart: dbRecord.planned_start ? new Date(dbRecord.planned_start) : undefined,
+      plannedEnd: dbRecord.planned_end ? new Date(dbRecord.planned_end) : undefined,
+      reason: dbRecord.reason || undefined,
+      requestedBy: dbRecord.requested_by || undefined,
+      workedMinutes: dbRecord.worked_minutes ?? 0,
+      detectedMinutes: dbRecord.detected_minutes ?? 0,
+      detectedWeekdayMinutes: dbRecord.detected_weekday_minutes ?? 0,
+      detectedWeekendMinutes: dbRecord.detected_weekend_minutes ?? 0,
+      detectedHolidayMinutes: dbRecord.detected_holiday_minutes ?? 0,
+      segments: (dbRecord.segments || []).map((segment: any) => ({
+        ...segment,
+        start: new Date(segment.start),
+        end: new Date(segment.end)
+      })),
+      calculatedAt: dbRecord.calculated_at ? new Date(dbRecord.calculated_at) : undefined,
+      status: dbRecord.status || 'pending',
+      approverId: dbRecord.approver_id || undefined,
+      approvedAt: dbRecord.approved_at ? new Date(dbRecord.approved_at) : undefined,
+      rejectionReason: dbRecord.rejection_reason || undefined,
+      approvedMinutesCap: dbRecord.approved_minutes_cap ?? undefined,
+      approvedWeekdayMinutes: dbRecord.approved_weekday_minutes ?? 0,
+      approvedWeekendMinutes: dbRecord.approved_weekend_minutes ?? 0,
+      approvedHolidayMinutes: dbRecord.approved_holiday_minutes ?? 0,
+      weightedHours: Number(dbRecord.weighted_hours ?? 0),
+      metadata: dbRecord.metadata || undefined,
+      createdAt: new Date(dbRecord.created_at),
+      updatedAt: new Date(dbRecord.updated_at)
+    }
+  }
+  
+  private mapDbExceptionToServerException(dbException: any): ServerAttendanceException {
+    return {
+      id: dbException.id,
+      attendanceId: dbException.attendance_id || undefined,
+      userId: dbException.user_id,
+      exceptionType: dbException.exception_type,
+      approvalStatus: dbException.approval_status,
+      timeAdjustmentMinutes: dbException.time_adjustment_minutes ?? 0,
+      affectSalary: dbException.affect_salary ?? false,
+      salaryDeductionAmount: Number(dbException.salary_deduction_amount ?? 0),
+      createdAt: new Date(dbException.created_at)
+    }
+  }
+  
+  private mapDbAdjustmentToServerAdjustment(dbAdjustment: any): ServerWorkHourAdjustment {
+    return {
+      id: dbAdjustment.id,
+      attendanceId: dbAdjustment.attendance_id,
+      userId: dbAdjustment.user_id,
+      adjustmentType: dbAdjustment.adjustment_type || undefined,
+      differenceHours: Number(dbAdjustment.difference_hours ?? 0),
+      reason: dbAdjustment.reason,
+      exceptionId: dbAdjustment.exception_id || undefined,
+      createdAt: new Date(dbAdjustment.created_at)
+    }
+  }
+  
+  private mapDbPayGradeToServerPayGrade(dbGrade: any): ServerPayGrade {
+    return {
+      id: dbGrade.id,
+      code: dbGrade.code,
+      name: dbGrade.name,
+      hourlyRate: Number(dbGrade.hourly_rate),
+      currency: dbGrade.currency || 'IDR',
+      isActive: dbGrade.is_active ?? true,
+      createdAt: new Date(dbGrade.created_at),
+      updatedAt: new Date(dbGrade.updated_at)
+    }
+  }
+  
+  private mapDbPayrollPeriodToServerPayrollPeriod(dbPeriod: any): ServerPayrollPeriod {
+    return {
+      id: dbPeriod.id,
+      name: dbPeriod.name,
+      startDate: dbPeriod.start_date,
+      endDate: dbPeriod.end_date,
+      status: dbPeriod.status || 'open',
+      closedAt: dbPeriod.closed_at ? new Date(dbPeriod.closed_at) : undefined,
+      closedBy: dbPeriod.closed_by || undefined,
+      reopenedAt: dbPeriod.reopened_at ? new Date(dbPeriod.reopened_at) : undefined,
+      reopenedBy: dbPeriod.reopened_by || undefined,
+      reopenReason: dbPeriod.reopen_reason || undefined,
+      closeCount: dbPeriod.close_count ?? 0,
+      createdBy: dbPeriod.created_by || undefined,
+      createdAt: new Date(dbPeriod.created_at),
+      updatedAt: new Date(dbPeriod.updated_at)
+    }
+  }
+  
+  private mapDbPayrollEntryToServerPayrollEntry(dbEntry: any): ServerPayrollEntry {
+    return {
+      id: dbEntry.id,
+      periodId: dbEntry.period_id,
+      userId: dbEntry.user_id,
+      hourlyRate: Number(dbEntry.hourly_rate),
+      rateSource: dbEntry.rate_source,
+      payGradeId: dbEntry.pay_grade_id || undefined,
+      workedDays: dbEntry.worked_days ?? 0,
+      workedMinutes: dbEntry.worked_minutes ?? 0,
+      regularMinutes: dbEntry.regular_minutes ?? 0,
+      paidBreakMinutes: dbEntry.paid_break_minutes ?? 0,
+      unpaidBreakMinutes: dbEntry.unpaid_break_minutes ?? 0,
+      adjustmentMinutes: dbEntry.adjustment_minutes ?? 0,
+      overtimeWeekdayMinutes: dbEntry.overtime_weekday_minutes ?? 0,
+      overtimeWeekendMinutes: dbEntry.overtime_weekend_minutes ?? 0,
+      overtimeHolidayMinutes: dbEntry.overtime_holiday_minutes ?? 0,
+      overtimeWeightedHours: Number(dbEntry.overtime_weighted_hours ?? 0),
+      approvedExceptions: dbEntry.approved_exceptions ?? 0,
+      deductionAmount: Number(dbEntry.deduction_amount ?? 0),
+      basePay: Number(dbEntry.base_pay ?? 0),
+      overtimePay: Number(dbEntry.overtime_pay ?? 0),
+      grossPay: Number(dbEntry.gross_pay ?? 0),
+      netPay: Number(dbEntry.net_pay ?? 0),
+      metadata: dbEntry.metadata || undefined,
+      createdAt: new Date(dbEntry.created_at)
+    }
+  }
+  
+  private mapDbShiftToServerShift(dbShift: any): ServerShift {
+    return {
+      id: dbShift.id,
+      name: dbShift.name,
+      code: dbShift.code,
+      description: dbShift.description,
+      startTime: dbShift.start_time,
+      endTime: dbShift.end_time,
+      isOvernight: dbShift.is_overnight ?? false,
+      expectedWorkHours: Number(dbShift.expected_work_hours ?? 8),
+      lateThresholdMinutes: dbShift.late_threshold_minutes ?? 15,
+      earlyLeaveThresholdMinutes: dbShift.early_leave_threshold_minutes ?? 15,
+      clockInGraceMinutes: dbShift.clock_in_grace_minutes ?? 5,
+      clockOutGraceMinutes: dbShift.clock_out_grace_minutes ?? 5,
+      defaultBreakPolicyId: dbShift.default_break_policy_id || undefined,
+      overtimeAfterHours: Number(dbShift.overtime_after_hours ?? 8),
+      overtimeRateWeekday: Number(dbShift.overtime_rate_weekday ?? 1.5),
+      overtimeRateWeekend: Number(dbShift.overtime_rate_weekend ?? 2),
+      overtimeRateHoliday: Number(dbShift.overtime_rate_holiday ?? 3),
+      allowsWfh: dbShift.allows_wfh ?? true,
+      requiresLocation: dbShift.requires_location ?? true,
+      requiresPhoto: dbShift.requires_photo ?? false,
+      activeDays: dbShift.active_days || [],
+      isActive: dbShift.is_active ?? true,
+      createdAt: new Date(dbShift.created_at),
+      updatedAt: new Date(dbShift.updated_at)
+    }
+  }
+  
   // ============================================
   // FACE EMBEDDINGS - Additional Methods
   // ============================================
@@ -809,14 +1479,14 @@ export class SupabaseDbManager {
     }
     
     if (options?.startDate) {
-      query = query.gte('effective_from', options.startDate.toISOString())
+      query = query.gte('date', options.startDate.toISOString().split('T')[0])
     }
     
     if (options?.endDate) {
-      query = query.lte('effective_from', options.endDate.toISOString())
+      query = query.lte('date', options.endDate.toISOString().split('T')[0])
     }
     
-    query = query.order('effective_from', { ascending: false })
+    query = query.order('date', { ascending: false })
     
     if (options?.limit) {
       query = query.limit(options.limit)
@@ -882,6 +1552,3081 @@ export class SupabaseDbManager {
     
     return true
   }
+
+  /**
+   * Apply an approved shift swap to the roster in one transaction (migration 008).
+   * Database errors are returned rather than thrown so callers can read the
+   * violation details of a rejected swap.
+   */
+  async executeShiftSwap(
+    swapId: string,
+    options: { actorId?: string; timeZone: string; minRestHours: number }
+  ): Promise<{ result: any; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('execute_shift_swap', {
+      p_swap_id: swapId,
+      p_actor_id: options.actorId || null,
+      p_timezone: options.timeZone,
+      p_min_rest_hours: options.minRestHours
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: data, error: null }
+  }
+
+  // ============================================
+  // SINGLE-USE NONCES
+  // ============================================
+
+  /**
+   * Record an id as used within its scope (see consume_nonce); returns false
+   * when it was already used, on this or any other server instance
+   */
+  async consumeNonce(scope: string, nonce: string, expiresAt: Date): Promise<boolean> {
+    const { data, error } = await this.supabase.rpc('consume_nonce', {
+      p_scope: scope,
+      p_nonce: nonce,
+      p_expires_at: expiresAt.toISOString()
+    })
+
+    if (error) {
+      logger.error('Error consuming nonce', error as Error)
+      throw new Error(`Failed to consume nonce: ${error.message}`)
+    }
+
+    return data === true
+  }
+
+  // ============================================
+  // SYNC INGESTION
+  // ============================================
+
+  /**
+   * Apply one client mutation and record it in the sync ledger in a single
+   * transaction (see apply_sync_mutation). Replaying the same idempotency
+   * key returns the stored outcome instead of applying it again.
+   */
+  async applySyncMutation(mutation: {
+    submittedBy: string
+    idempotencyKey: string
+    entity: string
+    operation: string
+    entityId: string
+    row: Record<string, any>
+    baseVersion?: Date
+    deviceId?: string
+    batchId?: string
+    clientTimestamp?: Date
+  }): Promise<{ result: any; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('apply_sync_mutation', {
+      p_submitted_by: mutation.submittedBy,
+      p_idempotency_key: mutation.idempotencyKey,
+      p_entity: mutation.entity,
+      p_operation: mutation.operation,
+      p_entity_id: mutation.entityId,
+      p_row: mutation.row,
+      p_base_version: mutation.baseVersion?.toISOString() || null,
+      p_device_id: mutation.deviceId || null,
+      p_batch_id: mutation.batchId || null,
+      p_client_timestamp: mutation.clientTimestamp?.toISOString() || null
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: data, error: null }
+  }
+
+  /**
+   * Map an attendance record to the row shape apply_sync_mutation expects
+   */
+  toAttendanceSyncRow(record: ServerAttendanceRecord): Record<string, any> {
+    return this.mapServerAttendanceToDbAttendance(record)
+  }
+
+  /**
+   * Page of the change feed for one entity after a cursor. Changes newer
+   * than settledBefore are left for the next pull (see sync_changes).
+   */
+  async getSyncChanges(
+    entity: SyncFeedEntity,
+    options: { after: number; limit: number; settledBefore: Date; ownerId?: string }
+  ): Promise<ServerSyncChange[]> {
+    let query = this.supabase
+      .from('sync_changes')
+      .select('*')
+      .eq('entity', entity)
+      .gt('seq', options.after)
+      .lt('changed_at', options.settledBefore.toISOString())
+
+    if (options.ownerId) {
+      query = query.or(`owner_id.eq.${options.ownerId},owner_id.is.null`)
+    }
+
+    const { data, error } = await query
+      .order('seq', { ascending: true })
+      .limit(options.limit)
+
+    if (error) {
+      logger.error('Error fetching sync changes', error as Error)
+      throw new Error(`Failed to fetch sync changes: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      entity: row.entity,
+      entityId: row.entity_id,
+      seq: Number(row.seq),
+      operation: row.operation,
+      ownerId: row.owner_id || undefined,
+      changedAt: new Date(row.changed_at)
+    }))
+  }
+
+  /**
+   * Current rows behind a page of changes, keyed by id. Rows deleted since
+   * the change was logged are simply absent.
+   */
+  async getSyncFeedRecords(entity: SyncFeedEntity, ids: string[]): Promise<Map<string, any>> {
+    const records = new Map<string, any>()
+    if (ids.length === 0) return records
+
+    const { data, error } = await this.supabase
+      .from(entity)
+      .select('*')
+      .in('id', ids)
+
+    if (error) {
+      logger.error('Error fetching sync feed records', error as Error)
+      throw new Error(`Failed to fetch ${entity} records: ${error.message}`)
+    }
+
+    const mappers: Record<SyncFeedEntity, (row: any) => any> = {
+      users: row => this.mapDbUserToServerUser(row),
+      face_embeddings: row => this.mapDbFaceEmbeddingToServerFaceEmbedding(row),
+      shifts: row => this.mapDbShiftToServerShift(row),
+      schedule_assignments: row => this.mapDbScheduleAssignmentToServerScheduleAssignment(row),
+      settings: row => ({ id: row.id, section: row.section, data: row.data, updatedAt: new Date(row.updated_at) })
+    }
+
+    for (const row of data || []) {
+      records.set(row.id, mappers[entity](row))
+    }
+    return records
+  }
+
+  // ============================================
+  // OFFLINE FACE EVENTS
+  // ============================================
+
+  /**
+   * Record a verified offline face event, with its attendance record when
+   * one should be created, in one transaction (see apply_offline_face_event)
+   */
+  async applyOfflineFaceEvent(
+    event: Omit<ServerOfflineFaceEvent, 'attendanceId' | 'reviewStatus' | 'reviewedBy' | 'reviewedAt' | 'reviewNotes' | 'createdAt' | 'updatedAt'>,
+    attendance?: ServerAttendanceRecord
+  ): Promise<{ result: { status: 'applied' | 'duplicate'; event: ServerOfflineFaceEvent } | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('apply_offline_face_event', {
+      p_event: {
+        id: event.id,
+        submitted_by: event.submittedBy,
+        device_id: event.deviceId || null,
+        site_id: event.siteId || null,
+        type: event.type,
+        captured_at: event.capturedAt.toISOString(),
+        clock_offset_ms: event.clockOffsetMs,
+        event_timestamp: event.eventTimestamp.toISOString(),
+        descriptor: event.descriptor,
+        liveness: event.liveness,
+        location: event.location || null,
+        local_user_id: event.localUserId || null,
+        local_confidence: event.localConfidence ?? null,
+        matched_user_id: event.matchedUserId || null,
+        match_confidence: event.matchConfidence ?? null,
+        verdict: event.verdict,
+        reason: event.reason || null
+      },
+      p_attendance: attendance ? this.mapServerAttendanceToDbAttendance(attendance) : null
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: { status: data.status, event: this.mapDbOfflineFaceEvent(data.event) }, error: null }
+  }
+
+  async getOfflineFaceEvents(options?: {
+    reviewStatus?: OfflineFaceReviewStatus
+    verdict?: ServerOfflineFaceEvent['verdict']
+    deviceId?: string
+    limit?: number
+    offset?: number
+  }): Promise<ServerOfflineFaceEvent[]> {
+    let query = this.supabase
+      .from('offline_face_events')
+      .select('*')
+
+    if (options?.reviewStatus) {
+      query = query.eq('review_status', options.reviewStatus)
+    }
+    if (options?.verdict) {
+      query = query.eq('verdict', options.verdict)
+    }
+    if (options?.deviceId) {
+      query = query.eq('device_id', options.deviceId)
+    }
+
+    const limit = options?.limit || 100
+    const offset = options?.offset || 0
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      logger.error('Error fetching offline face events', error as Error)
+      throw new Error(`Failed to fetch offline face events: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbOfflineFaceEvent(row))
+  }
+
+  async getOfflineFaceEvent(id: string): Promise<ServerOfflineFaceEvent | null> {
+    const { data, error } = await this.supabase
+      .from('offline_face_events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching offline face event', error as Error)
+      throw new Error(`Failed to fetch offline face event: ${error.message}`)
+    }
+
+    return data ? this.mapDbOfflineFaceEvent(data) : null
+  }
+
+  /**
+   * Approve or dismiss a rejected event (see resolve_offline_face_event)
+   */
+  async resolveOfflineFaceEvent(review: {
+    eventId: string
+    decision: 'approved' | 'dismissed'
+    reviewedBy: string
+    notes?: string
+    attendance?: ServerAttendanceRecord
+  }): Promise<{ result: ServerOfflineFaceEvent | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('resolve_offline_face_event', {
+      p_event_id: review.eventId,
+      p_decision: review.decision,
+      p_reviewed_by: review.reviewedBy,
+      p_notes: review.notes || null,
+      p_attendance: review.attendance ? this.mapServerAttendanceToDbAttendance(review.attendance) : null
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: this.mapDbOfflineFaceEvent(data), error: null }
+  }
+
+  private mapDbOfflineFaceEvent(row: any): ServerOfflineFaceEvent {
+    return {
+      id: row.id,
+      submittedBy: row.submitted_by,
+      deviceId: row.device_id || undefined,
+      siteId: row.site_id || undefined,
+      type: row.type,
+      capturedAt: new Date(row.captured_at),
+      clockOffsetMs: Number(row.clock_offset_ms || 0),
+      eventTimestamp: new Date(row.event_timestamp),
+      descriptor: (row.descriptor || []).map(Number),
+      liveness: row.liveness || {},
+      location: row.location || undefined,
+      localUserId: row.local_user_id || undefined,
+      localConfidence: row.local_confidence ?? undefined,
+      matchedUserId: row.matched_user_id || undefined,
+      matchConfidence: row.match_confidence ?? undefined,
+      verdict: row.verdict,
+      reason: row.reason || undefined,
+      attendanceId: row.attendance_id || undefined,
+      reviewStatus: row.review_status || undefined,
+      reviewedBy: row.reviewed_by || undefined,
+      reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+      reviewNotes: row.review_notes || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  // ============================================
+  // SYNC DEAD LETTERS
+  // ============================================
+
+  /**
+   * Record a device's dead letters; closed entries are left untouched and
+   * returned so the device can drop them (see report_sync_dead_letters)
+   */
+  async reportSyncDeadLetters(
+    deviceId: string,
+    reportedBy: string,
+    reports: SyncDeadLetterReport[]
+  ): Promise<{ result: SyncDeadLetterAck | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('report_sync_dead_letters', {
+      p_device_id: deviceId,
+      p_reported_by: reportedBy,
+      p_reports: reports
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: { received: data.received, closed: data.closed || [] }, error: null }
+  }
+
+  async getSyncDeadLetters(options?: {
+    deviceId?: string
+    status?: SyncDeadLetterStatus
+    limit?: number
+    offset?: number
+  }): Promise<{ deadLetters: ServerSyncDeadLetter[]; total: number }> {
+    let query = this.supabase
+      .from('sync_dead_letters')
+      .select('*', { count: 'exact' })
+
+    if (options?.deviceId) {
+      query = query.eq('device_id', options.deviceId)
+    }
+    if (options?.status) {
+      query = query.eq('status', options.status)
+    }
+
+    const limit = options?.limit || 50
+    const offset = options?.offset || 0
+    const { data, error, count } = await query
+      .order('failed_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      logger.error('Error fetching sync dead letters', error as Error)
+      throw new Error(`Failed to fetch sync dead letters: ${error.message}`)
+    }
+
+    return {
+      deadLetters: (data || []).map(row => this.mapDbSyncDeadLetter(row)),
+      total: count || 0
+    }
+  }
+
+  async getSyncDeadLetterDevices(): Promise<ServerSyncDeadLetterDevice[]> {
+    const { data, error } = await this.supabase
+      .from('sync_dead_letter_devices')
+      .select('*')
+      .order('last_failed_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching sync dead letter devices', error as Error)
+      throw new Error(`Failed to fetch sync dead letter devices: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      deviceId: row.device_id,
+      openCount: Number(row.open_count || 0),
+      resolvedCount: Number(row.resolved_count || 0),
+      discardedCount: Number(row.discarded_count || 0),
+      lastFailedAt: row.last_failed_at ? new Date(row.last_failed_at) : undefined,
+      lastReportedAt: row.last_reported_at ? new Date(row.last_reported_at) : undefined,
+      deviceInfo: row.device_info || { deviceId: row.device_id },
+      reportedBy: row.reported_by || undefined
+    }))
+  }
+
+  async getSyncDeadLetter(id: string): Promise<ServerSyncDeadLetter | null> {
+    const { data, error } = await this.supabase
+      .from('sync_dead_letters')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching sync dead letter', error as Error)
+      throw new Error(`Failed to fetch sync dead letter: ${error.message}`)
+    }
+
+    return data ? this.mapDbSyncDeadLetter(data) : null
+  }
+
+  /**
+   * Update an open dead letter. Returns null when it was closed in the
+   * meantime, so two admins can't settle the same entry twice.
+   */
+  async updateSyncDeadLetter(
+    id: string,
+    updates: Partial<Pick<ServerSyncDeadLetter,
+      'mutation' | 'status' | 'lastError' | 'errorCode' | 'payloadDiff' | 'retryAttempts' | 'resolution' | 'resolvedBy' | 'resolvedAt' | 'notes'
+    >>
+  ): Promise<ServerSyncDeadLetter | null> {
+    const row: Record<string, any> = {}
+    if (updates.mutation !== undefined) row.mutation = updates.mutation
+    if (updates.status !== undefined) row.status = updates.status
+    if (updates.lastError !== undefined) row.last_error = updates.lastError
+    if (updates.errorCode !== undefined) row.error_code = updates.errorCode || null
+    if (updates.payloadDiff !== undefined) row.payload_diff = updates.payloadDiff
+    if (updates.retryAttempts !== undefined) row.retry_attempts = updates.retryAttempts
+    if (updates.resolution !== undefined) row.resolution = updates.resolution
+    if (updates.resolvedBy !== undefined) row.resolved_by = updates.resolvedBy
+    if (updates.resolvedAt !== undefined) row.resolved_at = updates.resolvedAt.toISOString()
+    if (updates.notes !== undefined) row.notes = updates.notes || null
+
+    const { data, error } = await this.supabase
+      .from('sync_dead_letters')
+      .update(row)
+      .eq('id', id)
+      .eq('status', 'open')
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error updating sync dead letter', error as Error)
+      throw new Error(`Failed to update sync dead letter: ${error.message}`)
+    }
+
+    return data ? this.mapDbSyncDeadLetter(data) : null
+  }
+
+  private mapDbSyncDeadLetter(row: any): ServerSyncDeadLetter {
+    return {
+      id: row.id,
+      deviceId: row.device_id,
+      reportedBy: row.reported_by,
+      idempotencyKey: row.idempotency_key,
+      entity: row.entity,
+      entityId: row.entity_id,
+      operation: row.operation,
+      mutation: row.mutation,
+      reason: row.reason,
+      lastError: row.last_error,
+      errorCode: row.error_code || undefined,
+      httpStatus: row.http_status ?? undefined,
+      retryCount: row.retry_count || 0,
+      payloadDiff: row.payload_diff || null,
+      deviceInfo: row.device_info || { deviceId: row.device_id },
+      failedAt: new Date(row.failed_at),
+      lastReportedAt: row.last_reported_at ? new Date(row.last_reported_at) : undefined,
+      status: row.status,
+      retryAttempts: row.retry_attempts || 0,
+      resolution: row.resolution || undefined,
+      resolvedBy: row.resolved_by || undefined,
+      resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+      notes: row.notes || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  // ============================================
+  // KIOSK DEVICES
+  // ============================================
+
+  async createKioskEnrollmentCode(code: {
+    codeHash: string
+    siteId: string
+    label?: string
+    createdBy: string
+    expiresAt: Date
+  }): Promise<ServerKioskEnrollmentCode> {
+    const { data, error } = await this.supabase
+      .from('kiosk_enrollment_codes')
+      .insert({
+        code_hash: code.codeHash,
+        site_id: code.siteId,
+        label: code.label || null,
+        created_by: code.createdBy,
+        expires_at: code.expiresAt.toISOString()
+      })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error creating kiosk enrollment code', error as Error)
+      throw new Error(`Failed to create kiosk enrollment code: ${error.message}`)
+    }
+
+    return this.mapDbKioskEnrollmentCode(data)
+  }
+
+  /**
+   * Codes not used yet and not expired
+   */
+  async getOpenKioskEnrollmentCodes(): Promise<ServerKioskEnrollmentCode[]> {
+    const { data, error } = await this.supabase
+      .from('kiosk_enrollment_codes')
+      .select('*')
+      .is('used_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching kiosk enrollment codes', error as Error)
+      throw new Error(`Failed to fetch kiosk enrollment codes: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbKioskEnrollmentCode(row))
+  }
+
+  /**
+   * Register a device with a one-time code (see redeem_kiosk_enrollment_code)
+   */
+  async redeemKioskEnrollmentCode(
+    codeHash: string,
+    device: { name: string; publicKey: JsonWebKey; userAgent?: string }
+  ): Promise<{ result: ServerKioskDevice | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('redeem_kiosk_enrollment_code', {
+      p_code_hash: codeHash,
+      p_device: {
+        name: device.name,
+        public_key: device.publicKey,
+        user_agent: device.userAgent || null
+      }
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: this.mapDbKioskDevice(data), error: null }
+  }
+
+  /**
+   * Devices with their site name and check-in counts
+   */
+  async getKioskDevices(options?: { siteId?: string; status?: KioskDeviceStatus }): Promise<ServerKioskDevice[]> {
+    let query = this.supabase
+      .from('kiosk_device_overview')
+      .select('*')
+
+    if (options?.siteId) {
+      query = query.eq('site_id', options.siteId)
+    }
+    if (options?.status) {
+      query = query.eq('status', options.status)
+    }
+
+    const { data, error } = await query.order('name', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching kiosk devices', error as Error)
+      throw new Error(`Failed to fetch kiosk devices: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbKioskDevice(row))
+  }
+
+  async getKioskDevice(id: string): Promise<ServerKioskDevice | null> {
+    const { data, error } = await this.supabase
+      .from('kiosk_devices')
+      .select('*, office_sites(name)')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching kiosk device', error as Error)
+      throw new Error(`Failed to fetch kiosk device: ${error.message}`)
+    }
+
+    return data ? this.mapDbKioskDevice(data) : null
+  }
+
+  async updateKioskDevice(
+    id: string,
+    updates: Partial<Pick<ServerKioskDevice,
+      'name' | 'siteId' | 'status' | 'disabledBy' | 'disabledReason' | 'lastSeenAt' | 'lastSeenIp' | 'lastHeartbeatAt' | 'heartbeat' | 'userAgent'
+    >> & { disabledAt?: Date | null } // null clears it when a device is re-enabled
+  ): Promise<ServerKioskDevice | null> {
+    const row: Record<string, any> = {}
+    if (updates.name !== undefined) row.name = updates.name
+    if (updates.siteId !== undefined) row.site_id = updates.siteId
+    if (updates.status !== undefined) row.status = updates.status
+    if (updates.disabledAt !== undefined) row.disabled_at = updates.disabledAt ? updates.disabledAt.toISOString() : null
+    if (updates.disabledBy !== undefined) row.disabled_by = updates.disabledBy || null
+    if (updates.disabledReason !== undefined) row.disabled_reason = updates.disabledReason || null
+    if (updates.lastSeenAt !== undefined) row.last_seen_at = updates.lastSeenAt?.toISOString()
+    if (updates.lastSeenIp !== undefined) row.last_seen_ip = updates.lastSeenIp || null
+    if (updates.lastHeartbeatAt !== undefined) row.last_heartbeat_at = updates.lastHeartbeatAt?.toISOString()
+    if (updates.heartbeat !== undefined) row.heartbeat = updates.heartbeat
+    if (updates.userAgent !== undefined) row.user_agent = updates.userAgent || null
+
+    const { data, error } = await this.supabase
+      .from('kiosk_devices')
+      .update(row)
+      .eq('id', id)
+      .select('*, office_sites(name)')
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error updating kiosk device', error as Error)
+      throw new Error(`Failed to update kiosk device: ${error.message}`)
+    }
+
+    return data ? this.mapDbKioskDevice(data) : null
+  }
+
+  private mapDbKioskDevice(row: any): ServerKioskDevice {
+    return {
+      id: row.id,
+      name: row.name,
+      siteId: row.site_id,
+      siteName: row.site_name || row.office_sites?.name || undefined,
+      publicKey: row.public_key,
+      status: row.status,
+      disabledAt: row.disabled_at ? new Date(row.disabled_at) : undefined,
+      disabledBy: row.disabled_by || undefined,
+      disabledReason: row.disabled_reason || undefined,
+      enrolledBy: row.enrolled_by || undefined,
+      enrolledAt: new Date(row.enrolled_at),
+      lastSeenAt: row.last_seen_at ? new Date(row.last_seen_at) : undefined,
+      lastSeenIp: row.last_seen_ip || undefined,
+      lastHeartbeatAt: row.last_heartbeat_at ? new Date(row.last_heartbeat_at) : undefined,
+      heartbeat: row.heartbeat || undefined,
+      userAgent: row.user_agent || undefined,
+      stats: row.checkins_30d !== undefined
+        ? {
+            checkins24h: Number(row.checkins_24h || 0),
+            checkins7d: Number(row.checkins_7d || 0),
+            checkins30d: Number(row.checkins_30d || 0),
+            employees30d: Number(row.employees_30d || 0),
+            lastCheckinAt: row.last_checkin_at ? new Date(row.last_checkin_at) : undefined
+          }
+        : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  private mapDbKioskEnrollmentCode(row: any): ServerKioskEnrollmentCode {
+    return {
+      id: row.id,
+      siteId: row.site_id,
+      label: row.label || undefined,
+      createdBy: row.created_by || undefined,
+      expiresAt: new Date(row.expires_at),
+      usedAt: row.used_at ? new Date(row.used_at) : undefined,
+      deviceId: row.device_id || undefined,
+      createdAt: new Date(row.created_at)
+    }
+  }
+
+  // ============================================
+  // MANUAL CHECK-INS
+  // ============================================
+
+  async createManualCheckin(
+    checkin: Omit<ServerManualCheckin, 'status' | 'cosignedBy' | 'cosignedAt' | 'cosignVia' | 'reviewNotes' | 'attendanceId' | 'createdAt' | 'updatedAt'>
+  ): Promise<ServerManualCheckin> {
+    const { data, error } = await this.supabase
+      .from('manual_checkins')
+      .insert({
+        id: checkin.id,
+        user_id: checkin.userId,
+        type: checkin.type,
+        event_timestamp: checkin.eventTimestamp.toISOString(),
+        identified_by: checkin.identifiedBy,
+        face_error_code: checkin.faceErrorCode || null,
+        photo_path: checkin.photoPath,
+        kiosk_device_id: checkin.kioskDeviceId || null,
+        location: checkin.location || null,
+        geofence: checkin.geofence || null,
+        zone_violation: checkin.zoneViolation
+      })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error creating manual check-in', error as Error)
+      throw new Error(`Failed to create manual check-in: ${error.message}`)
+    }
+
+    return this.mapDbManualCheckin(data)
+  }
+
+  async getManualCheckins(options?: {
+    status?: ManualCheckinStatus
+    userId?: string
+    limit?: number
+    offset?: number
+  }): Promise<{ checkins: ServerManualCheckin[]; total: number }> {
+    let query = this.supabase
+      .from('manual_checkins')
+      .select('*', { count: 'exact' })
+
+    if (options?.status) {
+      query = query.eq('status', options.status)
+    }
+    if (options?.userId) {
+      query = query.eq('user_id', options.userId)
+    }
+
+    const limit = options?.limit || 50
+    const offset = options?.offset || 0
+    const { data, error, count } = await query
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      logger.error('Error fetching manual check-ins', error as Error)
+      throw new Error(`Failed to fetch manual check-ins: ${error.message}`)
+    }
+
+    return {
+      checkins: (data || []).map(row => this.mapDbManualCheckin(row)),
+      total: count || 0
+    }
+  }
+
+  async getManualCheckin(id: string): Promise<ServerManualCheckin | null> {
+    const { data, error } = await this.supabase
+      .from('manual_checkins')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching manual check-in', error as Error)
+      throw new Error(`Failed to fetch manual check-in: ${error.message}`)
+    }
+
+    return data ? this.mapDbManualCheckin(data) : null
+  }
+
+  /**
+   * Co-sign or reject a pending manual check-in (see resolve_manual_checkin)
+   */
+  async resolveManualCheckin(review: {
+    id: string
+    decision: 'approved' | 'rejected'
+    cosignedBy: string
+    via: 'kiosk' | 'review'
+    notes?: string
+    attendance?: ServerAttendanceRecord
+  }): Promise<{ result: ServerManualCheckin | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('resolve_manual_checkin', {
+      p_id: review.id,
+      p_decision: review.decision,
+      p_cosigned_by: review.cosignedBy,
+      p_via: review.via,
+      p_notes: review.notes || null,
+      p_attendance: review.attendance ? this.mapServerAttendanceToDbAttendance(review.attendance) : null
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: this.mapDbManualCheckin(data), error: null }
+  }
+
+  async uploadAttendanceEvidence(path: string, content: Buffer, contentType: string): Promise<void> {
+    const { error } = await this.supabase.storage
+      .from('attendance-evidence')
+      .upload(path, content, { contentType, upsert: false })
+
+    if (error) {
+      logger.error('Error uploading attendance evidence', error as Error)
+      throw new Error(`Failed to upload attendance evidence: ${error.message}`)
+    }
+  }
+
+  async getAttendanceEvidenceUrl(path: string, expiresInSeconds: number = 300): Promise<string | null> {
+    const { data, error } = await this.supabase.storage
+      .from('attendance-evidence')
+      .createSignedUrl(path, expiresInSeconds)
+
+    if (error) {
+      logger.error('Error signing attendance evidence URL', error as Error)
+      return null
+    }
+
+    return data?.signedUrl || null
+  }
+
+  private mapDbManualCheckin(row: any): ServerManualCheckin {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      eventTimestamp: new Date(row.event_timestamp),
+      identifiedBy: row.identified_by,
+      faceErrorCode: row.face_error_code || undefined,
+      photoPath: row.photo_path,
+      kioskDeviceId: row.kiosk_device_id || undefined,
+      location: row.location || undefined,
+      geofence: row.geofence || undefined,
+      zoneViolation: row.zone_violation || false,
+      status: row.status,
+      cosignedBy: row.cosigned_by || undefined,
+      cosignedAt: row.cosigned_at ? new Date(row.cosigned_at) : undefined,
+      cosignVia: row.cosign_via || undefined,
+      reviewNotes: row.review_notes || undefined,
+      attendanceId: row.attendance_id || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  // ============================================
+  // REPORT DEFINITIONS
+  // ============================================
+
+  /**
+   * Custom report definitions, newest first. With a viewer id, only reports
+   * the viewer owns, was shared with or that are public.
+   */
+  async getReportDefinitions(options?: { visibleTo?: string }): Promise<ServerReportDefinition[]> {
+    let query = this.supabase
+      .from('reports')
+      .select('*')
+      .eq('type', 'custom')
+
+    if (options?.visibleTo) {
+      query = query.or(
+        `created_by.eq.${options.visibleTo},is_public.eq.true,shared_with.cs.{${options.visibleTo}}`
+      )
+    }
+
+    const { data, error } = await query.order('updated_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching report definitions', error as Error)
+      throw new Error(`Failed to fetch report definitions: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbReportDefinition(row))
+  }
+
+  async getReportDefinition(id: string): Promise<ServerReportDefinition | null> {
+    const { data, error } = await this.supabase
+      .from('reports')
+      .select('*')
+      .eq('id', id)
+      .eq('type', 'custom')
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching report definition', error as Error)
+      throw new Error(`Failed to fetch report definition: ${error.message}`)
+    }
+
+    return data ? this.mapDbReportDefinition(data) : null
+  }
+
+  /**
+   * Create or update a definition and snapshot it (see save_report_definition)
+   */
+  async saveReportDefinition(definition: {
+    id?: string
+    name: string
+    description?: string
+    config: Record<string, any>
+    expectedVersion?: number
+    userId: string
+  }): Promise<{ result: ServerReportDefinition | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('save_report_definition', {
+      p_id: definition.id || null,
+      p_name: definition.name,
+      p_description: definition.description || null,
+      p_config: definition.config,
+      p_expected_version: definition.expectedVersion ?? null,
+      p_user_id: definition.userId
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: this.mapDbReportDefinition(data), error: null }
+  }
+
+  async updateReportSharing(
+    id: string,
+    sharing: { isPublic?: boolean; sharedWith?: string[] }
+  ): Promise<ServerReportDefinition | null> {
+    const updates: Record<string, any> = { updated_at: new Date().toISOString() }
+    if (sharing.isPublic !== undefined) updates.is_public = sharing.isPublic
+    if (sharing.sharedWith !== undefined) updates.shared_with = sharing.sharedWith
+
+    const { data, error } = await this.supabase
+      .from('reports')
+      .update(updates)
+      .eq('id', id)
+      .eq('type', 'custom')
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error updating report sharing', error as Error)
+      throw new Error(`Failed to update report sharing: ${error.message}`)
+    }
+
+    return data ? this.mapDbReportDefinition(data) : null
+  }
+
+  async markReportGenerated(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('reports')
+      .update({ last_generated_at: new Date().toISOString() })
+      .eq('id', id)
+
+    if (error) {
+      logger.error('Error marking report generated', error as Error)
+    }
+  }
+
+  async deleteReportDefinition(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('reports')
+      .delete()
+      .eq('id', id)
+      .eq('type', 'custom')
+
+    if (error) {
+      logger.error('Error deleting report definition', error as Error)
+      return false
+    }
+
+    return true
+  }
+
+  async getReportVersions(reportId: string): Promise<ServerReportVersion[]> {
+    const { data, error } = await this.supabase
+      .from('report_versions')
+      .select('*')
+      .eq('report_id', reportId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      logger.error('Error fetching report versions', error as Error)
+      throw new Error(`Failed to fetch report versions: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      reportId: row.report_id,
+      version: row.version,
+      name: row.name,
+      description: row.description || undefined,
+      config: row.config,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at)
+    }))
+  }
+
+  private mapDbReportDefinition(row: any): ServerReportDefinition {
+    return {
+      id: row.id,
+      name: row.name,
+      description: row.description || undefined,
+      config: row.config || {},
+      version: row.version ?? 1,
+      createdBy: row.created_by,
+      isPublic: row.is_public ?? false,
+      sharedWith: row.shared_with || [],
+      isScheduled: row.is_scheduled ?? undefined,
+      scheduleConfig: row.schedule_config || undefined,
+      lastGeneratedAt: row.last_generated_at ? new Date(row.last_generated_at) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  // ============================================
+  // SCHEDULED JOBS
+  // ============================================
+
+  async getScheduledJobs(options?: { kind?: ScheduledJobKind; enabled?: boolean }): Promise<ServerScheduledJob[]> {
+    let query = this.supabase
+      .from('scheduled_jobs')
+      .select('*')
+      .order('next_run_at', { ascending: true })
+
+    if (options?.kind) {
+      query = query.eq('kind', options.kind)
+    }
+    if (options?.enabled !== undefined) {
+      query = query.eq('enabled', options.enabled)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Error fetching scheduled jobs', error as Error)
+      throw new Error(`Failed to fetch scheduled jobs: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbScheduledJob(row))
+  }
+
+  async getScheduledJob(id: string): Promise<ServerScheduledJob | null> {
+    const { data, error } = await this.supabase
+      .from('scheduled_jobs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching scheduled job', error as Error)
+      throw new Error(`Failed to fetch scheduled job: ${error.message}`)
+    }
+
+    return data ? this.mapDbScheduledJob(data) : null
+  }
+
+  async getScheduledJobByReport(reportId: string): Promise<ServerScheduledJob | null> {
+    const { data, error } = await this.supabase
+      .from('scheduled_jobs')
+      .select('*')
+      .eq('report_id', reportId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching report schedule', error as Error)
+      throw new Error(`Failed to fetch report schedule: ${error.message}`)
+    }
+
+    return data ? this.mapDbScheduledJob(data) : null
+  }
+
+  async createScheduledJob(
+    job: Omit<ServerScheduledJob, 'id' | 'createdAt' | 'updatedAt' | 'lastRunAt' | 'lastStatus' | 'lockedBy' | 'lockedUntil'>
+  ): Promise<ServerScheduledJob> {
+    const { data, error } = await this.supabase
+      .from('scheduled_jobs')
+      .insert({
+        name: job.name,
+        kind: job.kind,
+        report_id: job.reportId || null,
+        config: job.config,
+        format: job.format,
+        frequency: job.frequency,
+        time_of_day: job.timeOfDay,
+        day_of_week: job.dayOfWeek ?? null,
+        day_of_month: job.dayOfMonth ?? null,
+        recipients: job.recipients,
+        channels: job.channels,
+        enabled: job.enabled,
+        next_run_at: job.nextRunAt.toISOString(),
+        created_by: job.createdBy || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error creating scheduled job', error as Error)
+      throw new Error(`Failed to create scheduled job: ${error.message}`)
+    }
+
+    return this.mapDbScheduledJob(data)
+  }
+
+  async updateScheduledJob(
+    id: string,
+    updates: Partial<Pick<ServerScheduledJob,
+      'name' | 'config' | 'format' | 'frequency' | 'timeOfDay' | 'dayOfWeek' | 'dayOfMonth' |
+      'recipients' | 'channels' | 'enabled' | 'nextRunAt'
+    >>
+  ): Promise<ServerScheduledJob | null> {
+    const dbUpdates: Record<string, any> = {}
+    if (updates.name !== undefined) dbUpdates.name = updates.name
+    if (updates.config !== undefined) dbUpdates.config = updates.config
+    if (updates.format !== undefined) dbUpdates.format = updates.format
+    if (updates.frequency !== undefined) dbUpdates.frequency = updates.frequency
+    if (updates.timeOfDay !== undefined) dbUpdates.time_of_day = updates.timeOfDay
+    if ('dayOfWeek' in updates) dbUpdates.day_of_week = updates.dayOfWeek ?? null
+    if ('dayOfMonth' in updates) dbUpdates.day_of_month = updates.dayOfMonth ?? null
+    if (updates.recipients !== undefined) dbUpdates.recipients = updates.recipients
+    if (updates.channels !== undefined) dbUpdates.channels = updates.channels
+    if (updates.enabled !== undefined) dbUpdates.enabled = updates.enabled
+    if (updates.nextRunAt !== undefined) dbUpdates.next_run_at = updates.nextRunAt.toISOString()
+
+    const { data, error } = await this.supabase
+      .from('scheduled_jobs')
+      .update(dbUpdates)
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error updating scheduled job', error as Error)
+      throw new Error(`Failed to update scheduled job: ${error.message}`)
+    }
+
+    return data ? this.mapDbScheduledJob(data) : null
+  }
+
+  async deleteScheduledJob(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('scheduled_jobs')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      logger.error('Error deleting scheduled job', error as Error)
+      return false
+    }
+
+    return true
+  }
+
+  /**
+   * Lease due jobs for a runner (see claim_due_scheduled_jobs)
+   */
+  async claimDueScheduledJobs(runnerId: string, leaseSeconds: number, limit: number): Promise<ServerScheduledJob[]> {
+    const { data, error } = await this.supabase.rpc('claim_due_scheduled_jobs', {
+      p_runner_id: runnerId,
+      p_lease_seconds: leaseSeconds,
+      p_limit: limit
+    })
+
+    if (error) {
+      logger.error('Error claiming scheduled jobs', error as Error)
+      throw new Error(`Failed to claim scheduled jobs: ${error.message}`)
+    }
+
+    return (data || []).map((row: any) => this.mapDbScheduledJob(row))
+  }
+
+  async claimScheduledJob(
+    id: string,
+    runnerId: string,
+    leaseSeconds: number
+  ): Promise<{ result: ServerScheduledJob | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('claim_scheduled_job', {
+      p_id: id,
+      p_runner_id: runnerId,
+      p_lease_seconds: leaseSeconds
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: this.mapDbScheduledJob(data), error: null }
+  }
+
+  /**
+   * Drop a runner's lease and record the run outcome. A lease taken over by
+   * another runner after it expired is left alone.
+   */
+  async releaseScheduledJob(
+    id: string,
+    runnerId: string,
+    outcome: { lastStatus: ScheduledJobRunStatus; lastRunAt: Date; nextRunAt?: Date }
+  ): Promise<void> {
+    const updates: Record<string, any> = {
+      locked_by: null,
+      locked_until: null,
+      last_status: outcome.lastStatus,
+      last_run_at: outcome.lastRunAt.toISOString()
+    }
+    if (outcome.nextRunAt) updates.next_run_at = outcome.nextRunAt.toISOString()
+
+    const { error } = await this.supabase
+      .from('scheduled_jobs')
+      .update(updates)
+      .eq('id', id)
+      .eq('locked_by', runnerId)
+
+    if (error) {
+      logger.error('Error releasing scheduled job', error as Error)
+    }
+  }
+
+  async createScheduledJobRun(run: {
+    jobId: string
+    triggeredBy?: string
+    runnerId: string
+    scheduledFor?: Date
+  }): Promise<ServerScheduledJobRun> {
+    const { data, error } = await this.supabase
+      .from('scheduled_job_runs')
+      .insert({
+        job_id: run.jobId,
+        triggered_by: run.triggeredBy || null,
+        runner_id: run.runnerId,
+        scheduled_for: run.scheduledFor?.toISOString() || null,
+        status: 'running'
+      })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error creating scheduled job run', error as Error)
+      throw new Error(`Failed to create scheduled job run: ${error.message}`)
+    }
+
+    return this.mapDbScheduledJobRun(data)
+  }
+
+  async finishScheduledJobRun(
+    id: string,
+    result: Pick<ServerScheduledJobRun, 'status' | 'deliveries'> &
+      Partial<Pick<ServerScheduledJobRun, 'artifactPath' | 'artifactSize' | 'contentType' | 'recordCount' | 'error'>>
+  ): Promise<ServerScheduledJobRun | null> {
+    const { data, error } = await this.supabase
+      .from('scheduled_job_runs')
+      .update({
+        status: result.status,
+        finished_at: new Date().toISOString(),
+        artifact_path: result.artifactPath || null,
+        artifact_size: result.artifactSize ?? null,
+        content_type: result.contentType || null,
+        record_count: result.recordCount ?? null,
+        deliveries: result.deliveries,
+        error: result.error || null
+      })
+      .eq('id', id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error finishing scheduled job run', error as Error)
+      return null
+    }
+
+    return data ? this.mapDbScheduledJobRun(data) : null
+  }
+
+  async getScheduledJobRuns(jobId: string, options?: { limit?: number }): Promise<ServerScheduledJobRun[]> {
+    const { data, error } = await this.supabase
+      .from('scheduled_job_runs')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('started_at', { ascending: false })
+      .limit(options?.limit || 50)
+
+    if (error) {
+      logger.error('Error fetching scheduled job runs', error as Error)
+      throw new Error(`Failed to fetch scheduled job runs: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbScheduledJobRun(row))
+  }
+
+  async getScheduledJobRun(id: string): Promise<ServerScheduledJobRun | null> {
+    const { data, error } = await this.supabase
+      .from('scheduled_job_runs')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching scheduled job run', error as Error)
+      throw new Error(`Failed to fetch scheduled job run: ${error.message}`)
+    }
+
+    return data ? this.mapDbScheduledJobRun(data) : null
+  }
+
+  /**
+   * Store a run artifact in the exports bucket
+   */
+  async uploadJobArtifact(path: string, content: Buffer | string, contentType: string): Promise<boolean> {
+    const { error } = await this.supabase.storage
+      .from('exports')
+      .upload(path, content, { contentType, upsert: true })
+
+    if (error) {
+      logger.error('Error uploading job artifact', error as Error)
+      return false
+    }
+
+    return true
+  }
+
+  async createJobArtifactUrl(path: string, expiresInSeconds: number): Promise<string | null> {
+    const { data, error } = await this.supabase.storage
+      .from('exports')
+      .createSignedUrl(path, expiresInSeconds)
+
+    if (error) {
+      logger.error('Error signing job artifact URL', error as Error)
+      return null
+    }
+
+    return data.signedUrl
+  }
+
+  private mapDbScheduledJob(row: any): ServerScheduledJob {
+    return {
+      id: row.id,
+      name: row.name,
+      kind: row.kind,
+      reportId: row.report_id || undefined,
+      config: row.config || {},
+      format: row.format,
+      frequency: row.frequency,
+      timeOfDay: row.time_of_day,
+      dayOfWeek: row.day_of_week ?? undefined,
+      dayOfMonth: row.day_of_month ?? undefined,
+      recipients: row.recipients || [],
+      channels: row.channels || [],
+      enabled: row.enabled,
+      nextRunAt: new Date(row.next_run_at),
+      lastRunAt: row.last_run_at ? new Date(row.last_run_at) : undefined,
+      lastStatus: row.last_status || undefined,
+      lockedBy: row.locked_by || undefined,
+      lockedUntil: row.locked_until ? new Date(row.locked_until) : undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  private mapDbScheduledJobRun(row: any): ServerScheduledJobRun {
+    return {
+      id: row.id,
+      jobId: row.job_id,
+      status: row.status,
+      triggeredBy: row.triggered_by || undefined,
+      runnerId: row.runner_id || undefined,
+      scheduledFor: row.scheduled_for ? new Date(row.scheduled_for) : undefined,
+      startedAt: new Date(row.started_at),
+      finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+      artifactPath: row.artifact_path || undefined,
+      artifactSize: row.artifact_size ?? undefined,
+      contentType: row.content_type || undefined,
+      recordCount: row.record_count ?? undefined,
+      deliveries: row.deliveries || [],
+      error: row.error || undefined
+    }
+  }
+
+  // ============================================
+  // IMPORT SESSIONS
+  // ============================================
+
+  async createImportSession(session: {
+    importType: ImportType
+    mode: ImportMode
+    filename: string
+    options?: ServerImportSession['options']
+    rows: ImportRowResult[]
+    plan: ImportPlanOperation[]
+    summary: ImportSummary
+    createdBy: string
+    expiresAt: Date
+  }): Promise<ServerImportSession> {
+    const { data, error } = await this.supabase
+      .from('import_sessions')
+      .insert({
+        import_type: session.importType,
+        mode: session.mode,
+        filename: session.filename,
+        options: session.options || {},
+        rows: session.rows,
+        plan: session.plan,
+        summary: session.summary,
+        created_by: session.createdBy,
+        expires_at: session.expiresAt.toISOString()
+      })
+      .select(IMPORT_SESSION_COLUMNS)
+      .single()
+
+    if (error) {
+      logger.error('Error creating import session', error as Error)
+      throw new Error(`Failed to create import session: ${error.message}`)
+    }
+
+    return this.mapDbImportSession(data)
+  }
+
+  async getImportSession(id: string, options?: { includeRows?: boolean }): Promise<ServerImportSession | null> {
+    const { data, error } = await this.supabase
+      .from('import_sessions')
+      .select(options?.includeRows ? `${IMPORT_SESSION_COLUMNS}, rows` : IMPORT_SESSION_COLUMNS)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching import session', error as Error)
+      throw new Error(`Failed to fetch import session: ${error.message}`)
+    }
+
+    return data ? this.mapDbImportSession(data) : null
+  }
+
+  async getImportSessions(options?: { limit?: number }): Promise<ServerImportSession[]> {
+    const { data, error } = await this.supabase
+      .from('import_sessions')
+      .select(IMPORT_SESSION_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(options?.limit || 50)
+
+    if (error) {
+      logger.error('Error fetching import sessions', error as Error)
+      throw new Error(`Failed to fetch import sessions: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbImportSession(row))
+  }
+
+  /**
+   * Apply a previewed session in one transaction (see commit_import_session)
+   */
+  async commitImportSession(
+    id: string,
+    userId: string
+  ): Promise<{ result: { created: number; updated: number } | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('commit_import_session', {
+      p_session_id: id,
+      p_user_id: userId
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: data, error: null }
+  }
+
+  /**
+   * Revert the rows a committed session wrote (see rollback_import_session)
+   */
+  async rollbackImportSession(
+    id: string,
+    userId: string,
+    skipConflicts: boolean
+  ): Promise<{ result: NonNullable<ServerImportSession['rollbackResult']> | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('rollback_import_session', {
+      p_session_id: id,
+      p_user_id: userId,
+      p_skip_conflicts: skipConflicts
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: data, error: null }
+  }
+
+  /**
+   * Users (active or not) an import file refers to, by id, email or employee ID
+   */
+  async getUsersForImport(keys: { ids: string[]; emails: string[]; employeeIds: string[] }): Promise<ServerUser[]> {
+    const found = new Map<string, ServerUser>()
+    const lookups: Array<[string, string[]]> = [
+      ['id', keys.ids],
+      ['email', keys.emails],
+      ['employee_id', keys.employeeIds]
+    ]
+
+    for (const [column, values] of lookups) {
+      for (let i = 0; i < values.length; i += IMPORT_LOOKUP_CHUNK) {
+        const { data, error } = await this.supabase
+          .from('users')
+          .select('*')
+          .in(column, values.slice(i, i + IMPORT_LOOKUP_CHUNK))
+
+        if (error) {
+          logger.error('Error fetching users for import', error as Error)
+          throw new Error(`Failed to fetch users for import: ${error.message}`)
+        }
+
+        for (const row of data || []) {
+          found.set(row.id, this.mapDbUserToServerUser(row))
+        }
+      }
+    }
+
+    return Array.from(found.values())
+  }
+
+  /**
+   * Attendance events of the given users in a period, for matching import rows
+   */
+  async getAttendanceForImport(userIds: string[], startDate: Date, endDate: Date): Promise<ServerAttendanceRecord[]> {
+    const records: ServerAttendanceRecord[] = []
+
+    for (let i = 0; i < userIds.length; i += IMPORT_LOOKUP_CHUNK) {
+      // Page through; the API caps rows per request
+      for (let offset = 0; ; offset += IMPORT_PAGE_SIZE) {
+        const { data, error } = await this.supabase
+          .from('attendance_records')
+          .select('*')
+          .in('user_id', userIds.slice(i, i + IMPORT_LOOKUP_CHUNK))
+          .gte('timestamp', startDate.toISOString())
+          .lt('timestamp', endDate.toISOString())
+          .order('id')
+          .range(offset, offset + IMPORT_PAGE_SIZE - 1)
+
+        if (error) {
+          logger.error('Error fetching attendance for import', error as Error)
+          throw new Error(`Failed to fetch attendance for import: ${error.message}`)
+        }
+
+        records.push(...(data || []).map(this.mapDbAttendanceToServerAttendance))
+        if (!data || data.length < IMPORT_PAGE_SIZE) break
+      }
+    }
+
+    return records
+  }
+
+  private mapDbImportSession(row: any): ServerImportSession {
+    return {
+      id: row.id,
+      importType: row.import_type,
+      mode: row.mode,
+      filename: row.filename,
+      status: row.status,
+      options: row.options || {},
+      rows: row.rows ?? undefined,
+      summary: row.summary,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+      committedBy: row.committed_by || undefined,
+      committedAt: row.committed_at ? new Date(row.committed_at) : undefined,
+      rolledBackBy: row.rolled_back_by || undefined,
+      rolledBackAt: row.rolled_back_at ? new Date(row.rolled_back_at) : undefined,
+      rollbackResult: row.rollback_result || undefined
+    }
+  }
+
+  // ============================================
+  // EMPLOYEE EXTERNAL IDS
+  // ============================================
+
+  async getEmployeeExternalIds(options?: { userId?: string; source?: string }): Promise<ServerEmployeeExternalId[]> {
+    let query = this.supabase
+      .from('employee_external_ids')
+      .select('*')
+
+    if (options?.userId) {
+      query = query.eq('user_id', options.userId)
+    }
+
+    if (options?.source) {
+      query = query.eq('source', options.source)
+    }
+
+    const { data, error } = await query.order('source').order('external_id')
+
+    if (error) {
+      logger.error('Error fetching employee external IDs', error as Error)
+      throw new Error(`Failed to fetch employee external IDs: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbEmployeeExternalId(row))
+  }
+
+  /**
+   * Mappings for the given numbers within one source
+   */
+  async getEmployeeExternalIdsByKeys(source: string, externalIds: string[]): Promise<ServerEmployeeExternalId[]> {
+    const mappings: ServerEmployeeExternalId[] = []
+
+    for (let i = 0; i < externalIds.length; i += IMPORT_LOOKUP_CHUNK) {
+      const { data, error } = await this.supabase
+        .from('employee_external_ids')
+        .select('*')
+        .eq('source', source)
+        .in('external_id', externalIds.slice(i, i + IMPORT_LOOKUP_CHUNK))
+
+      if (error) {
+        logger.error('Error fetching employee external IDs', error as Error)
+        throw new Error(`Failed to fetch employee external IDs: ${error.message}`)
+      }
+
+      mappings.push(...(data || []).map(row => this.mapDbEmployeeExternalId(row)))
+    }
+
+    return mappings
+  }
+
+  async createEmployeeExternalId(mapping: {
+    userId: string
+    source: string
+    externalId: string
+    createdBy?: string
+  }): Promise<ServerEmployeeExternalId> {
+    const { data, error } = await this.supabase
+      .from('employee_external_ids')
+      .insert({
+        user_id: mapping.userId,
+        source: mapping.source,
+        external_id: mapping.externalId,
+        created_by: mapping.createdBy
+      })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error creating employee external ID', error as Error)
+      throw new Error(`Failed to create employee external ID: ${error.message}`)
+    }
+
+    return this.mapDbEmployeeExternalId(data)
+  }
+
+  async deleteEmployeeExternalId(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('employee_external_ids')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      logger.error('Error deleting employee external ID', error as Error)
+      return false
+    }
+
+    return true
+  }
+
+  private mapDbEmployeeExternalId(row: any): ServerEmployeeExternalId {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      source: row.source,
+      externalId: row.external_id,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  // ============================================
+  // DATA ARCHIVAL
+  // ============================================
+
+  async getArchivalRules(options?: { ruleType?: ArchivalRuleType }): Promise<ServerArchivalRule[]> {
+    let query = this.supabase
+      .from('data_archival_rules')
+      .select('*')
+
+    if (options?.ruleType) {
+      query = query.eq('rule_type', options.ruleType)
+    }
+
+    const { data, error } = await query.order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Error fetching archival rules', error as Error)
+      throw new Error(`Failed to fetch archival rules: ${error.message}`)
+    }
+
+    return (data || []).map(row => this.mapDbArchivalRule(row))
+  }
+
+  async getArchivalRule(id: string): Promise<ServerArchivalRule | null> {
+    const { data, error } = await this.supabase
+      .from('data_archival_rules')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching archival rule', error as Error)
+      throw new Error(`Failed to fetch archival rule: ${error.message}`)
+    }
+
+    return data ? this.mapDbArchivalRule(data) : null
+  }
+
+  async saveArchivalRule(
+    rule: Omit<ServerArchivalRule, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
+  ): Promise<ServerArchivalRule> {
+    const row = {
+      rule_type: rule.ruleType,
+      name: rule.name,
+      description: rule.description,
+      entity_type: rule.entityType,
+      enabled: rule.enabled,
+      conditions: rule.conditions,
+      settings: rule.settings,
+      schedule: rule.schedule || null
+    }
+
+    const { data, error } = rule.id
+      ? await this.supabase.from('data_archival_rules').update(row).eq('id', rule.id).select().single()
+      : await this.supabase.from('data_archival_rules').insert({ ...row, created_by: rule.createdBy }).select().single()
+
+    if (error) {
+      logger.error('Error saving archival rule', error as Error)
+      throw new Error(`Failed to save archival rule: ${error.message}`)
+    }
+
+    return this.mapDbArchivalRule(data)
+  }
+
+  async deleteArchivalRule(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('data_archival_rules')
+      .delete()
+      .eq('id', id)
+
+    if (error) {
+      logger.error('Error deleting archival rule', error as Error)
+      return false
+    }
+
+    return true
+  }
+
+  async countArchivalCandidates(table: ArchivalTable, groups: ArchivalFilter[][]): Promise<number> {
+    const query = this.supabase
+      .from(table)
+      .select('id', { count: 'exact', head: true })
+
+    const { count, error } = await this.applyArchivalFilters(query, groups)
+
+    if (error) {
+      logger.error('Error counting archival candidates', error as Error)
+      throw new Error(`Failed to count archival candidates: ${error.message}`)
+    }
+
+    return count || 0
+  }
+
+  /**
+   * One page of matching rows as stored (snake_case, every column), in id
+   * order. Paging is by id rather than offset, so rows archived or deleted
+   * between pages don't shift the next page.
+   */
+  async getArchivalCandidates(
+    table: ArchivalTable,
+    groups: ArchivalFilter[][],
+    page: { afterId?: string; limit: number }
+  ): Promise<Array<Record<string, unknown> & { id: string }>> {
+    let query = this.supabase
+      .from(table)
+      .select('*')
+
+    if (page.afterId) {
+      query = query.gt('id', page.afterId)
+    }
+
+    const { data, error } = await this.applyArchivalFilters(query, groups)
+      .order('id', { ascending: true })
+      .limit(page.limit)
+
+    if (error) {
+      logger.error('Error fetching archival candidates', error as Error)
+      throw new Error(`Failed to fetch archival candidates: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  /**
+   * Rows other records still depend on (see archival_blocked_ids)
+   */
+  async getArchivalBlockedIds(table: ArchivalTable, ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return []
+
+    const { data, error } = await this.supabase.rpc('archival_blocked_ids', {
+      p_table: table,
+      p_ids: ids
+    })
+
+    if (error) {
+      logger.error('Error checking archival dependencies', error as Error)
+      throw new Error(`Failed to check archival dependencies: ${error.message}`)
+    }
+
+    return data || []
+  }
+
+  async flagArchivalCandidates(table: ArchivalTable, ids: string[], flag: string): Promise<number> {
+    const { data, error } = await this.supabase
+      .from(table)
+      .update({ archival_flag: flag })
+      .in('id', ids)
+      .select('id')
+
+    if (error) {
+      logger.error('Error flagging archival candidates', error as Error)
+      throw new Error(`Failed to flag records: ${error.message}`)
+    }
+
+    return (data || []).length
+  }
+
+  /**
+   * Remove rows, indexing them into an already stored archive object when
+   * one is given (see archive_records)
+   */
+  async archiveRecords(
+    table: ArchivalTable,
+    ids: string[],
+    archive?: {
+      object: {
+        id: string
+        entityType: string
+        ruleId?: string
+        runId: string
+        storagePath: string
+        originalSize: number
+        compressedSize: number
+        checksum: string
+        archivedBy?: string
+      }
+      records: Array<{
+        originalId: string
+        size: number
+        summary: Record<string, any>
+        retentionExpiresAt?: Date
+        updatedAt?: string
+      }>
+    }
+  ): Promise<{ result: number | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('archive_records', {
+      p_table: table,
+      p_ids: ids,
+      p_object: archive ? {
+        id: archive.object.id,
+        entity_type: archive.object.entityType,
+        rule_id: archive.object.ruleId || null,
+        run_id: archive.object.runId,
+        storage_path: archive.object.storagePath,
+        original_size: archive.object.originalSize,
+        compressed_size: archive.object.compressedSize,
+        checksum: archive.object.checksum,
+        archived_by: archive.object.archivedBy || null
+      } : null,
+      p_records: archive ? archive.records.map(record => ({
+        original_id: record.originalId,
+        size: record.size,
+        summary: record.summary,
+        retention_expires_at: record.retentionExpiresAt?.toISOString() || null,
+        updated_at: record.updatedAt || null
+      })) : null
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: data, error: null }
+  }
+
+  /**
+   * Store an archive object in the archives bucket
+   */
+  async uploadArchiveObject(path: string, content: Buffer): Promise<boolean> {
+    const { error } = await this.supabase.storage
+      .from('archives')
+      .upload(path, content, { contentType: 'application/gzip', upsert: false })
+
+    if (error) {
+      logger.error('Error uploading archive object', error as Error)
+      return false
+    }
+
+    return true
+  }
+
+  async downloadArchiveObject(path: string): Promise<Buffer | null> {
+    const { data, error } = await this.supabase.storage
+      .from('archives')
+      .download(path)
+
+    if (error || !data) {
+      logger.error('Error downloading archive object', (error || new Error('Empty download')) as Error)
+      return null
+    }
+
+    return Buffer.from(await data.arrayBuffer())
+  }
+
+  async removeArchiveObjects(paths: string[]): Promise<void> {
+    if (paths.length === 0) return
+
+    const { error } = await this.supabase.storage
+      .from('archives')
+      .remove(paths)
+
+    if (error) {
+      logger.error('Error removing archive objects', error as Error)
+    }
+  }
+
+  async getArchivedRecords(options?: {
+    entityType?: string
+    status?: ServerArchivedRecord['status']
+    limit?: number
+    offset?: number
+  }): Promise<{ records: ServerArchivedRecord[]; total: number }> {
+    const limit = options?.limit || 50
+    const offset = options?.offset || 0
+    let query = this.supabase
+      .from('archived_records')
+      .select(ARCHIVED_RECORD_COLUMNS, { count: 'exact' })
+
+    if (options?.entityType) {
+      query = query.eq('entity_type', options.entityType)
+    }
+    if (options?.status) {
+      query = query.eq('status', options.status)
+    }
+
+    const { data, count, error } = await query
+      .order('archived_at', { ascending: false })
+      .range(offset, offset + limit - 1)
+
+    if (error) {
+      logger.error('Error fetching archived records', error as Error)
+      throw new Error(`Failed to fetch archived records: ${error.message}`)
+    }
+
+    return { records: (data || []).map(row => this.mapDbArchivedRecord(row)), total: count || 0 }
+  }
+
+  async getArchivedRecord(id: string): Promise<ServerArchivedRecord | null> {
+    const { data, error } = await this.supabase
+      .from('archived_records')
+      .select(ARCHIVED_RECORD_COLUMNS)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error fetching archived record', error as Error)
+      throw new Error(`Failed to fetch archived record: ${error.message}`)
+    }
+
+    return data ? this.mapDbArchivedRecord(data) : null
+  }
+
+  /**
+   * Put archived rows back into their table (see restore_archived_records)
+   */
+  async restoreArchivedRecords(
+    archivedIds: string[],
+    table: ArchivalTable,
+    rows: Array<Record<string, any>>,
+    userId: string
+  ): Promise<{ result: { restored: number; emptiedObjects: string[] } | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('restore_archived_records', {
+      p_archived_ids: archivedIds,
+      p_table: table,
+      p_rows: rows,
+      p_user_id: userId
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: data, error: null }
+  }
+
+  async discardArchivedRecords(archivedIds: string[]): Promise<{ discarded: number; emptiedObjects: string[] }> {
+    const { data, error } = await this.supabase.rpc('discard_archived_records', {
+      p_archived_ids: archivedIds
+    })
+
+    if (error) {
+      logger.error('Error discarding archived records', error as Error)
+      throw new Error(`Failed to discard archived records: ${error.message}`)
+    }
+
+    return data
+  }
+
+  /**
+   * Drop up to `limit` archived rows whose retention has expired
+   */
+  async purgeExpiredArchivedRecords(limit: number): Promise<{ purged: number; emptiedObjects: string[] }> {
+    const { data, error } = await this.supabase.rpc('purge_expired_archived_records', {
+      p_limit: limit
+    })
+
+    if (error) {
+      logger.error('Error purging expired archives', error as Error)
+      throw new Error(`Failed to purge expired archives: ${error.message}`)
+    }
+
+    return data
+  }
+
+  private applyArchivalFilters<Q extends { filter: any; in: any; or: any }>(query: Q, groups: ArchivalFilter[][]): Q {
+    const quote = (value: string | number | boolean) => `"${String(value).replace(/(["\\])/g, '\\$1')}"`
+    const expression = (filter: ArchivalFilter) => filter.operator === 'in'
+      ? `${filter.column}.in.(${(filter.value as Array<string | number>).map(quote).join(',')})`
+      : `${filter.column}.${filter.operator}.${quote(filter.value as string | number | boolean)}`
+
+    if (groups.length === 1) {
+      return groups[0].reduce((q: Q, filter) => filter.operator === 'in'
+        ? q.in(filter.column, filter.value)
+        : q.filter(filter.column, filter.operator, filter.value), query)
+    }
+
+    if (groups.length > 1) {
+      return query.or(groups
+        .map(group => group.length === 1 ? expression(group[0]) : `and(${group.map(expression).join(',')})`)
+        .join(','))
+    }
+
+    return query
+  }
+
+  private mapDbArchivalRule(row: any): ServerArchivalRule {
+    return {
+      id: row.id,
+      ruleType: row.rule_type,
+      name: row.name,
+      description: row.description || '',
+      entityType: row.entity_type,
+      enabled: row.enabled,
+      conditions: row.conditions || [],
+      settings: row.settings || {},
+      schedule: row.schedule || undefined,
+      createdBy: row.created_by || undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    }
+  }
+
+  private mapDbArchivedRecord(row: any): ServerArchivedRecord {
+    const object = row.archive_objects || {}
+    return {
+      id: row.id,
+      objectId: row.object_id,
+      entityType: row.entity_type,
+      originalId: row.original_id,
+      size: row.size,
+      summary: row.summary || {},
+      status: row.status,
+      retentionExpiresAt: row.retention_expires_at ? new Date(row.retention_expires_at) : undefined,
+      archivedAt: new Date(row.archived_at),
+      restoredAt: row.restored_at ? new Date(row.restored_at) : undefined,
+      restoredBy: row.restored_by || undefined,
+      object: {
+        sourceTable: object.source_table,
+        storagePath: object.storage_path,
+        checksum: object.checksum,
+        archivedBy: object.archived_by || undefined,
+        archivedByName: object.users?.name || undefined,
+        purgedAt: object.purged_at ? new Date(object.purged_at) : undefined
+      }
+    }
+  }
+
+  // ============================================
+  // SHIFT OPERATIONS
+  // ============================================
+  
+  async getShifts(options?: { isActive?: boolean }): Promise<ServerShift[]> {
+    let query = this.supabase
+      .from('shifts')
+      .select('*')
+    
+    if (options?.isActive !== undefined) {
+      query = query.eq('is_active', options.isActive)
+    }
+    
+    query = query.order('start_time', { ascending: true })
+    
+    const { data, error } = await query
+    
+    if (error) {
+      logger.error('Error fetching shifts', error as Error)
+      throw new Error(`Failed to fetch shifts: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbShiftToServerShift)
+  }
+  
+  async getShift(id: string): Promise<ServerShift | null> {
+    const { data, error } = await this.supabase
+      .from('shifts')
+      .select('*')
+      .eq('id', id)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      logger.error('Error fetching shift', error as Error)
+      return null
+    }
+    
+    return this.mapDbShiftToServerShift(data)
+  }
+  
+  async getShiftByCode(code: string): Promise<ServerShift | null> {
+    const { data, error } = await this.supabase
+      .from('shifts')
+      .select('*')
+      .eq('code', code)
+      .maybeSingle()
+    
+    if (error) {
+      logger.error('Error fetching shift by code', error as Error)
+      return null
+    }
+    
+    if (!data) return null
+    
+    return this.mapDbShiftToServerShift(data)
+  }
+  
+  async getUserDefaultShiftId(userId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('default_shift_id')
+      .eq('id', userId)
+      .maybeSingle()
+    
+    if (error) {
+      logger.error('Error fetching user default shift', error as Error)
+      return null
+    }
+    
+    return data?.default_shift_id || null
+  }
+  
+  async getUserAttendancePinHash(userId: string): Promise<string | null> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('attendance_pin_hash')
+      .eq('id', userId)
+      .maybeSingle()
+    
+    if (error) {
+      logger.error('Error fetching attendance PIN', error as Error)
+      return null
+    }
+    
+    return data?.attendance_pin_hash || null
+  }
+  
+  /**
+   * Active employees with an attendance PIN, for identifying someone by
+   * PIN alone
+   */
+  async getAttendancePinHolders(): Promise<Array<{ userId: string; pinHash: string }>> {
+    const { data, error } = await this.supabase
+      .from('users')
+      .select('id, attendance_pin_hash')
+      .eq('is_active', true)
+      .not('attendance_pin_hash', 'is', null)
+    
+    if (error) {
+      logger.error('Error fetching attendance PIN holders', error as Error)
+      return []
+    }
+    
+    return (data || []).map(row => ({ userId: row.id, pinHash: row.attendance_pin_hash }))
+  }
+  
+  async setUserAttendancePinHash(userId: string, pinHash: string | null): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('users')
+      .update({ attendance_pin_hash: pinHash, updated_at: new Date().toISOString() })
+      .eq('id', userId)
+    
+    if (error) {
+      logger.error('Error saving attendance PIN', error as Error)
+      return false
+    }
+    
+    return true
+  }
+  
+  // ============================================
+  // OFFICE SITE (GEOFENCE) OPERATIONS
+  // ============================================
+  
+  async getOfficeSites(options?: { isActive?: boolean }): Promise<ServerOfficeSite[]> {
+    let query = this.supabase
+      .from('office_sites')
+      .select('*')
+    
+    if (options?.isActive !== undefined) {
+      query = query.eq('is_active', options.isActive)
+    }
+    
+    query = query.order('name', { ascending: true })
+    
+    const { data, error } = await query
+    
+    if (error) {
+      logger.error('Error fetching office sites', error as Error)
+      throw new Error(`Failed to fetch office sites: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbOfficeSiteToServerOfficeSite)
+  }
+  
+  async getOfficeSite(id: string): Promise<ServerOfficeSite | null> {
+    const { data, error } = await this.supabase
+      .from('office_sites')
+      .select('*')
+      .eq('id', id)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      logger.error('Error fetching office site', error as Error)
+      return null
+    }
+    
+    return this.mapDbOfficeSiteToServerOfficeSite(data)
+  }
+  
+  async saveOfficeSite(site: ServerOfficeSite): Promise<ServerOfficeSite> {
+    const { data, error } = await this.supabase
+      .from('office_sites')
+      .upsert({
+        id: site.id,
+        name: site.name,
+        code: site.code,
+        address: site.address,
+        region: site.region || null,
+        zones: site.zones,
+        departments: site.departments,
+        schedule_ids: site.scheduleIds,
+        is_default: site.isDefault,
+        is_active: site.isActive,
+        created_at: site.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'id' })
+      .select()
+      .single()
+    
+    if (error) {
+      logger.error('Error saving office site', error as Error)
+      throw new Error(`Failed to save office site: ${error.message}`)
+    }
+    
+    return this.mapDbOfficeSiteToServerOfficeSite(data)
+  }
+  
+  async deleteOfficeSite(id: string): Promise<boolean> {
+    // Soft delete so historical violations keep their site reference
+    const { error } = await this.supabase
+      .from('office_sites')
+      .update({ is_active: false, updated_at: new Date().toISOString() })
+      .eq('id', id)
+    
+    if (error) {
+      logger.error('Error deleting office site', error as Error)
+      return false
+    }
+    
+    return true
+  }
+  
+  // ============================================
+  // LEAVE OPERATIONS
+  // ============================================
+  
+  async getLeaveTypes(options?: { isActive?: boolean }): Promise<ServerLeaveType[]> {
+    let query = this.supabase
+      .from('leave_types')
+      .select('*')
+    
+    if (options?.isActive !== undefined) {
+      query = query.eq('is_active', options.isActive)
+    }
+    
+    query = query.order('name', { ascending: true })
+    
+    const { data, error } = await query
+    
+    if (error) {
+      logger.error('Error fetching leave types', error as Error)
+      throw new Error(`Failed to fetch leave types: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbLeaveTypeToServerLeaveType)
+  }
+  
+  async getLeaveType(id: string): Promise<ServerLeaveType | null> {
+    const { data, error } = await this.supabase
+      .from('leave_types')
+      .select('*')
+      .eq('id', id)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      logger.error('Error fetching leave type', error as Error)
+      return null
+    }
+    
+    return this.mapDbLeaveTypeToServerLeaveType(data)
+  }
+  
+  async getLeaveBalances(options: { userId: string; year?: number; leaveTypeId?: string }): Promise<ServerLeaveBalance[]> {
+    let query = this.supabase
+      .from('leave_balances')
+      .select('*')
+      .eq('user_id', options.userId)
+    
+    if (options.year !== undefined) {
+      query = query.eq('year', options.year)
+    }
+    
+    if (options.leaveTypeId) {
+      query = query.eq('leave_type_id', options.leaveTypeId)
+    }
+    
+    const { data, error } = await query
+    
+    if (error) {
+      logger.error('Error fetching leave balances', error as Error)
+      throw new Error(`Failed to fetch leave balances: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbLeaveBalanceToServerLeaveBalance)
+  }
+  
+  async saveLeaveBalance(balance: ServerLeaveBalance): Promise<ServerLeaveBalance> {
+    const { data, error } = await this.supabase
+      .from('leave_balances')
+      .upsert({
+        id: balance.id,
+        user_id: balance.userId,
+        leave_type_id: balance.leaveTypeId,
+        year: balance.year,
+        entitled_days: balance.entitledDays,
+        accrued_days: balance.accruedDays,
+        carried_over_days: balance.carriedOverDays,
+        carry_over_expires_at: balance.carryOverExpiresAt || null,
+        adjustment_days: balance.adjustmentDays,
+        used_days: balance.usedDays,
+        pending_days: balance.pendingDays,
+        created_at: balance.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,leave_type_id,year' })
+      .select()
+      .single()
+    
+    if (error) {
+      logger.error('Error saving leave balance', error as Error)
+      throw new Error(`Failed to save leave balance: ${error.message}`)
+    }
+    
+    return this.mapDbLeaveBalanceToServerLeaveBalance(data)
+  }
+
+  /**
+   * Refresh accrued/entitled days only, leaving pending and used days to the
+   * atomic functions below
+   */
+  async updateLeaveBalanceAccrual(
+    id: string,
+    accrual: { entitledDays: number; accruedDays: number }
+  ): Promise<ServerLeaveBalance> {
+    const { data, error } = await this.supabase
+      .from('leave_balances')
+      .update({
+        entitled_days: accrual.entitledDays,
+        accrued_days: accrual.accruedDays,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error updating leave balance accrual', error as Error)
+      throw new Error(`Failed to update leave balance accrual: ${error.message}`)
+    }
+
+    return this.mapDbLeaveBalanceToServerLeaveBalance(data)
+  }
+
+  /**
+   * Apply pending/used day deltas to a balance in place
+   */
+  async adjustLeaveBalance(id: string, delta: { pendingDays?: number; usedDays?: number }): Promise<ServerLeaveBalance> {
+    const { data, error } = await this.supabase.rpc('adjust_leave_balance', {
+      p_balance_id: id,
+      p_pending_delta: delta.pendingDays ?? 0,
+      p_used_delta: delta.usedDays ?? 0
+    })
+
+    if (error) {
+      logger.error('Error adjusting leave balance', error as Error)
+      throw new Error(`Failed to adjust leave balance: ${error.message}`)
+    }
+
+    return this.mapDbLeaveBalanceToServerLeaveBalance(data)
+  }
+  
+  async getLeaveRequests(options?: {
+    userId?: string
+    userIds?: string[]
+    status?: LeaveRequestStatus | LeaveRequestStatus[]
+    leaveTypeId?: string
+    from?: string // YYYY-MM-DD, requests ending on or after
+    to?: string // YYYY-MM-DD, requests starting on or before
+    limit?: number
+  }): Promise<ServerLeaveRequest[]> {
+    let query = this.supabase
+      .from('leave_requests')
+      .select('*')
+    
+    if (options?.userId) {
+      query = query.eq('user_id', options.userId)
+    }
+    
+    if (options?.userIds) {
+      query = query.in('user_id', options.userIds)
+    }
+    
+    if (options?.status) {
+      query = Array.isArray(options.status)
+        ? query.in('status', options.status)
+        : query.eq('status', options.status)
+    }
+    
+    if (options?.leaveTypeId) {
+      query = query.eq('leave_type_id', options.leaveTypeId)
+    }
+    
+    if (options?.from) {
+      query = query.gte('end_date', options.from)
+    }
+    
+    if (options?.to) {
+      query = query.lte('start_date', options.to)
+    }
+    
+    query = query.order('start_date', { ascending: false })
+    
+    if (options?.limit) {
+      query = query.limit(options.limit)
+    }
+    
+    const { data, error } = await query
+    
+    if (error) {
+      logger.error('Error fetching leave requests', error as Error)
+      throw new Error(`Failed to fetch leave requests: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbLeaveRequestToServerLeaveRequest)
+  }
+  
+  async getLeaveRequest(id: string): Promise<ServerLeaveRequest | null> {
+    const { data, error } = await this.supabase
+      .from('leave_requests')
+      .select('*')
+      .eq('id', id)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      logger.error('Error fetching leave request', error as Error)
+      return null
+    }
+    
+    return this.mapDbLeaveRequestToServerLeaveRequest(data)
+  }
+  
+  async saveLeaveRequest(request: ServerLeaveRequest): Promise<ServerLeaveRequest> {
+    const { data, error } = await this.supabase
+      .from('leave_requests')
+      .upsert({
+        id: request.id,
+        user_id: request.userId,
+        leave_type_id: request.leaveTypeId,
+        start_date: request.startDate,
+        end_date: request.endDate,
+        half_day: request.halfDay,
+        days: request.days,
+        reason: request.reason,
+        supporting_document: request.supportingDocument || null,
+        status: request.status,
+        manager_id: request.managerId || null,
+        manager_approved_at: request.managerApprovedAt?.toISOString() || null,
+        manager_response: request.managerResponse || null,
+        manager_rejection_reason: request.managerRejectionReason || null,
+        hr_id: request.hrId || null,
+        hr_approved_at: request.hrApprovedAt?.toISOString() || null,
+        hr_response: request.hrResponse || null,
+        hr_rejection_reason: request.hrRejectionReason || null,
+        cancelled_at: request.cancelledAt?.toISOString() || null,
+        cancellation_reason: request.cancellationReason || null,
+        metadata: request.metadata || null,
+        created_at: request.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'id' })
+      .select()
+      .single()
+    
+    if (error) {
+      logger.error('Error saving leave request', error as Error)
+      throw new Error(`Failed to save leave request: ${error.message}`)
+    }
+    
+    return this.mapDbLeaveRequestToServerLeaveRequest(data)
+  }
+
+  /**
+   * Insert a new request, checking overlap and balance and reserving pending
+   * days in one transaction. Errors carry LEAVE_OVERLAP or
+   * INSUFFICIENT_BALANCE (details: available days) as their message.
+   */
+  async submitLeaveRequest(
+    request: ServerLeaveRequest,
+    reservation: { balanceId?: string; asOf: string }
+  ): Promise<{ result: ServerLeaveRequest | null; error: { message: string; details?: string } | null }> {
+    const { data, error } = await this.supabase.rpc('submit_leave_request', {
+      p_request: {
+        id: request.id,
+        user_id: request.userId,
+        leave_type_id: request.leaveTypeId,
+        start_date: request.startDate,
+        end_date: request.endDate,
+        half_day: request.halfDay,
+        days: request.days,
+        reason: request.reason,
+        supporting_document: request.supportingDocument || null,
+        manager_id: request.managerId || null,
+        metadata: request.metadata || null
+      },
+      p_balance_id: reservation.balanceId || null,
+      p_as_of: reservation.asOf
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return { result: this.mapDbLeaveRequestToServerLeaveRequest(data), error: null }
+  }
+  
+  // ============================================
+  // HOLIDAY CALENDAR OPERATIONS
+  // ============================================
+  
+  async getHolidays(options?: {
+    from?: string // YYYY-MM-DD
+    to?: string // YYYY-MM-DD
+    type?: HolidayType
+    siteId?: string
+    isActive?: boolean
+  }): Promise<ServerHoliday[]> {
+    let query = this.supabase
+      .from('holidays')
+      .select('*')
+    
+    if (options?.from) {
+      query = query.gte('date', options.from)
+    }
+    
+    if (options?.to) {
+      query = query.lte('date', options.to)
+    }
+    
+    if (options?.type) {
+      query = query.eq('type', options.type)
+    }
+    
+    if (options?.siteId) {
+      query = query.eq('site_id', options.siteId)
+    }
+    
+    if (options?.isActive !== undefined) {
+      query = query.eq('is_active', options.isActive)
+    }
+    
+    query = query.order('date', { ascending: true })
+    
+    const { data, error } = await query
+    
+    if (error) {
+      logger.error('Error fetching holidays', error as Error)
+      throw new Error(`Failed to fetch holidays: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbHolidayToServerHoliday)
+  }
+  
+  async getHoliday(id: string): Promise<ServerHoliday | null> {
+    const { data, error } = await this.supabase
+      .from('holidays')
+      .select('*')
+      .eq('id', id)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      logger.error('Error fetching holiday', error as Error)
+      return null
+    }
+    
+    return this.mapDbHolidayToServerHoliday(data)
+  }
+  
+  async saveHoliday(holiday: ServerHoliday): Promise<ServerHoliday> {
+    const { data, error } = await this.supabase
+      .from('holidays')
+      .upsert(this.mapServerHolidayToDbHoliday(holiday), { onConflict: 'id' })
+      .select()
+      .single()
+    
+    if (error) {
+      logger.error('Error saving holiday', error as Error)
+      throw new Error(`Failed to save holiday: ${error.message}`)
+    }
+    
+    return this.mapDbHolidayToServerHoliday(data)
+  }
+  
+  /**
+   * Bulk upsert of imported holidays, matched on their external id and date
+   */
+  async saveImportedHolidays(holidays: ServerHoliday[]): Promise<ServerHoliday[]> {
+    if (holidays.length === 0) return []
+    
+    const rows = holidays.map(holiday => {
+      const { id, ...row } = this.mapServerHolidayToDbHoliday(holiday)
+      return row
+    })
+    
+    const { data, error } = await this.supabase
+      .from('holidays')
+      .upsert(rows, { onConflict: 'external_id,date' })
+      .select()
+    
+    if (error) {
+      logger.error('Error importing holidays', error as Error)
+      throw new Error(`Failed to import holidays: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbHolidayToServerHoliday)
+  }
+  
+  async deleteHoliday(id: string): Promise<boolean> {
+    const { error } = await this.supabase
+      .from('holidays')
+      .delete()
+      .eq('id', id)
+    
+    if (error) {
+      logger.error('Error deleting holiday', error as Error)
+      return false
+    }
+    
+    return true
+  }
+  
+  // ============================================
+  // BREAK SESSION OPERATIONS
+  // ============================================
+  
+  async getBreakSessions(options: { userId: string; from?: Date; to?: Date }): Promise<ServerBreakSession[]> {
+    let query = this.supabase
+      .from('break_sessions')
+      .select('*')
+      .eq('user_id', options.userId)
+    
+    if (options.from) {
+      query = query.gte('break_start', options.from.toISOString())
+    }
+    
+    if (options.to) {
+      query = query.lte('break_start', options.to.toISOString())
+    }
+    
+    query = query.order('break_start', { ascending: true })
+    
+    const { data, error } = await query
+    
+    if (error) {
+      logger.error('Error fetching break sessions', error as Error)
+      throw new Error(`Failed to fetch break sessions: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbBreakSessionToServerBreakSession)
+  }
+  
+  // ============================================
+  // OVERTIME OPERATIONS
+  // ============================================
+  
+  async getOvertimeRecords(options?: {
+    userId?: string
+    userIds?: string[]
+    status?: OvertimeStatus | OvertimeStatus[]
+    from?: string // YYYY-MM-DD
+    to?: string // YYYY-MM-DD
+    limit?: number
+  }): Promise<ServerOvertimeRecord[]> {
+    let query = this.supabase
+      .from('overtime_records')
+      .select('*')
+    
+    if (options?.userId) {
+      query = query.eq('user_id', options.userId)
+    }
+    
+    if (options?.userIds) {
+      query = query.in('user_id', options.userIds)
+    }
+    
+    if (options?.status) {
+      query = Array.isArray(options.status)
+        ? query.in('status', options.status)
+        : query.eq('status', options.status)
+    }
+    
+    if (options?.from) {
+      query = query.gte('work_date', options.from)
+    }
+    
+    if (options?.to) {
+      query = query.lte('work_date', options.to)
+    }
+    
+    query = query.order('work_date', { ascending: false })
+    
+    if (options?.limit) {
+      query = query.limit(options.limit)
+    }
+    
+    const { data, error } = await query
+    
+    if (error) {
+      logger.error('Error fetching overtime records', error as Error)
+      throw new Error(`Failed to fetch overtime records: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbOvertimeToServerOvertime)
+  }
+  
+  async getOvertimeRecord(id: string): Promise<ServerOvertimeRecord | null> {
+    const { data, error } = await this.supabase
+      .from('overtime_records')
+      .select('*')
+      .eq('id', id)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      logger.error('Error fetching overtime record', error as Error)
+      return null
+    }
+    
+    return this.mapDbOvertimeToServerOvertime(data)
+  }
+  
+  async getOvertimeRecordForDay(userId: string, workDate: string): Promise<ServerOvertimeRecord | null> {
+    const { data, error } = await this.supabase
+      .from('overtime_records')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('work_date', workDate)
+      .maybeSingle()
+    
+    if (error) {
+      logger.error('Error fetching overtime record', error as Error)
+      return null
+    }
+    
+    return data ? this.mapDbOvertimeToServerOvertime(data) : null
+  }
+  
+  async saveOvertimeRecord(record: ServerOvertimeRecord): Promise<ServerOvertimeRecord> {
+    const { data, error } = await this.supabase
+      .from('overtime_records')
+      .upsert({
+        id: record.id,
+        user_id: record.userId,
+        work_date: record.workDate,
+        shift_id: record.shiftId || null,
+        approval_type: record.approvalType,
+        planned_start: record.plannedStart?.toISOString() || null,
+        planned_end: record.plannedEnd?.toISOString() || null,
+        reason: record.reason || null,
+        requested_by: record.requestedBy || null,
+        worked_minutes: record.workedMinutes,
+        detected_minutes: record.detectedMinutes,
+        detected_weekday_minutes: record.detectedWeekdayMinutes,
+        detected_weekend_minutes: record.detectedWeekendMinutes,
+        detected_holiday_minutes: record.detectedHolidayMinutes,
+        segments: record.segments.map(segment => ({
+          ...segment,
+          start: segment.start.toISOString(),
+          end: segment.end.toISOString()
+        })),
+        calculated_at: record.calculatedAt?.toISOString() || null,
+        status: record.status,
+        approver_id: record.approverId || null,
+        approved_at: record.approvedAt?.toISOString() || null,
+        rejection_reason: record.rejectionReason || null,
+        approved_minutes_cap: record.approvedMinutesCap ?? null,
+        approved_weekday_minutes: record.approvedWeekdayMinutes,
+        approved_weekend_minutes: record.approvedWeekendMinutes,
+        approved_holiday_minutes: record.approvedHolidayMinutes,
+        weighted_hours: record.weightedHours,
+        metadata: record.metadata || null,
+        created_at: record.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id,work_date' })
+      .select()
+      .single()
+    
+    if (error) {
+      logger.error('Error saving overtime record', error as Error)
+      throw new Error(`Failed to save overtime record: ${error.message}`)
+    }
+    
+    return this.mapDbOvertimeToServerOvertime(data)
+  }
+  
+  // ============================================
+  // PAYROLL OPERATIONS
+  // ============================================
+  
+  async getApprovedExceptions(userIds: string[], createdFrom: Date): Promise<ServerAttendanceException[]> {
+    if (userIds.length === 0) return []
+    
+    const { data, error } = await this.supabase
+      .from('attendance_exceptions')
+      .select('*')
+      .in('user_id', userIds)
+      .in('approval_status', ['approved', 'auto_approved'])
+      .gte('created_at', createdFrom.toISOString())
+    
+    if (error) {
+      logger.error('Error fetching attendance exceptions', error as Error)
+      throw new Error(`Failed to fetch attendance exceptions: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbExceptionToServerException)
+  }
+  
+  async getWorkHourAdjustments(userIds: string[], createdFrom: Date): Promise<ServerWorkHourAdjustment[]> {
+    if (userIds.length === 0) return []
+    
+    const { data, error } = await this.supabase
+      .from('work_hour_adjustments')
+      .select('*')
+      .in('user_id', userIds)
+      .gte('created_at', createdFrom.toISOString())
+    
+    if (error) {
+      logger.error('Error fetching work hour adjustments', error as Error)
+      throw new Error(`Failed to fetch work hour adjustments: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbAdjustmentToServerAdjustment)
+  }
+  
+  async getPayGrades(options?: { isActive?: boolean }): Promise<ServerPayGrade[]> {
+    let query = this.supabase
+      .from('pay_grades')
+      .select('*')
+    
+    if (options?.isActive !== undefined) {
+      query = query.eq('is_active', options.isActive)
+    }
+    
+    const { data, error } = await query.order('code', { ascending: true })
+    
+    if (error) {
+      logger.error('Error fetching pay grades', error as Error)
+      throw new Error(`Failed to fetch pay grades: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbPayGradeToServerPayGrade)
+  }
+  
+  async savePayGrade(grade: ServerPayGrade): Promise<ServerPayGrade> {
+    const { data, error } = await this.supabase
+      .from('pay_grades')
+      .upsert({
+        id: grade.id,
+        code: grade.code,
+        name: grade.name,
+        hourly_rate: grade.hourlyRate,
+        currency: grade.currency,
+        is_active: grade.isActive,
+        created_at: grade.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single()
+    
+    if (error) {
+      logger.error('Error saving pay grade', error as Error)
+      throw new Error(`Failed to save pay grade: ${error.message}`)
+    }
+    
+    return this.mapDbPayGradeToServerPayGrade(data)
+  }
+  
+  async getPayrollPeriods(options?: {
+    status?: PayrollPeriodStatus
+    from?: string // YYYY-MM-DD, periods ending on or after
+    to?: string // YYYY-MM-DD, periods starting on or before
+  }): Promise<ServerPayrollPeriod[]> {
+    let query = this.supabase
+      .from('payroll_periods')
+      .select('*')
+    
+    if (options?.status) {
+      query = query.eq('status', options.status)
+    }
+    
+    if (options?.from) {
+      query = query.gte('end_date', options.from)
+    }
+    
+    if (options?.to) {
+      query = query.lte('start_date', options.to)
+    }
+    
+    const { data, error } = await query.order('start_date', { ascending: false })
+    
+    if (error) {
+      logger.error('Error fetching payroll periods', error as Error)
+      throw new Error(`Failed to fetch payroll periods: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbPayrollPeriodToServerPayrollPeriod)
+  }
+  
+  async getPayrollPeriod(id: string): Promise<ServerPayrollPeriod | null> {
+    const { data, error } = await this.supabase
+      .from('payroll_periods')
+      .select('*')
+      .eq('id', id)
+      .single()
+    
+    if (error) {
+      if (error.code === 'PGRST116') return null
+      logger.error('Error fetching payroll period', error as Error)
+      return null
+    }
+    
+    return this.mapDbPayrollPeriodToServerPayrollPeriod(data)
+  }
+  
+  async savePayrollPeriod(period: ServerPayrollPeriod): Promise<ServerPayrollPeriod> {
+    const { data, error } = await this.supabase
+      .from('payroll_periods')
+      .upsert({
+        id: period.id,
+        name: period.name,
+        start_date: period.startDate,
+        end_date: period.endDate,
+        status: period.status,
+        closed_at: period.closedAt?.toISOString() || null,
+        closed_by: period.closedBy || null,
+        reopened_at: period.reopenedAt?.toISOString() || null,
+        reopened_by: period.reopenedBy || null,
+        reopen_reason: period.reopenReason || null,
+        close_count: period.closeCount,
+        created_by: period.createdBy || null,
+        created_at: period.createdAt?.toISOString() || new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .select()
+      .single()
+    
+    if (error) {
+      logger.error('Error saving payroll period', error as Error)
+      throw new Error(`Failed to save payroll period: ${error.message}`)
+    }
+    
+    return this.mapDbPayrollPeriodToServerPayrollPeriod(data)
+  }
+  
+  /**
+   * The closed period covering a date, if any; dates inside it are locked
+   */
+  async getClosedPayrollPeriodFor(date: string): Promise<ServerPayrollPeriod | null> {
+    const [period] = await this.getPayrollPeriods({ status: 'closed', from: date, to: date })
+    return period || null
+  }
+  
+  async getPayrollEntries(periodId: string): Promise<ServerPayrollEntry[]> {
+    const { data, error } = await this.supabase
+      .from('payroll_entries')
+      .select('*')
+      .eq('period_id', periodId)
+    
+    if (error) {
+      logger.error('Error fetching payroll entries', error as Error)
+      throw new Error(`Failed to fetch payroll entries: ${error.message}`)
+    }
+    
+    return (data || []).map(this.mapDbPayrollEntryToServerPayrollEntry)
+  }
+  
+  /**
+   * Replace a period's entries with a freshly aggregated set
+   */
+  /**
+   * Store a period's entries and mark it closed in one transaction. The
+   * period row is locked first; errors carry ALREADY_CLOSED or
+   * PERIOD_CHANGED (closed or reopened since `closeCount` was read) as
+   * their message.
+   */
+  async closePayrollPeriod(
+    periodId: string,
+    closeCount: number,
+    entries: ServerPayrollEntry[],
+    closedBy?: string
+  ): Promise<{
+    result: { period: ServerPayrollPeriod; entries: ServerPayrollEntry[] } | null
+    error: { message: string; details?: string } | null
+  }> {
+    const { data, error } = await this.supabase.rpc('close_payroll_period', {
+      p_period_id: periodId,
+      p_close_count: closeCount,
+      p_closed_by: closedBy || null,
+      p_entries: entries.map(entry => ({
+        id: entry.id,
+        user_id: entry.userId,
+        hourly_rate: entry.hourlyRate,
+        rate_source: entry.rateSource,
+        pay_grade_id: entry.payGradeId || null,
+        worked_days: entry.workedDays,
+        worked_minutes: entry.workedMinutes,
+        regular_minutes: entry.regularMinutes,
+        paid_break_minutes: entry.paidBreakMinutes,
+        unpaid_break_minutes: entry.unpaidBreakMinutes,
+        adjustment_minutes: entry.adjustmentMinutes,
+        overtime_weekday_minutes: entry.overtimeWeekdayMinutes,
+        overtime_weekend_minutes: entry.overtimeWeekendMinutes,
+        overtime_holiday_minutes: entry.overtimeHolidayMinutes,
+        overtime_weighted_hours: entry.overtimeWeightedHours,
+        approved_exceptions: entry.approvedExceptions,
+        deduction_amount: entry.deductionAmount,
+        base_pay: entry.basePay,
+        overtime_pay: entry.overtimePay,
+        gross_pay: entry.grossPay,
+        net_pay: entry.netPay,
+        metadata: entry.metadata || null,
+        created_at: entry.createdAt.toISOString()
+      }))
+    })
+
+    if (error) {
+      return { result: null, error: { message: error.message, details: error.details || undefined } }
+    }
+
+    return {
+      result: {
+        period: this.mapDbPayrollPeriodToServerPayrollPeriod(data.period),
+        entries: (data.entries || []).map(this.mapDbPayrollEntryToServerPayrollEntry)
+      },
+      error: null
+    }
+  }
   
   // ============================================
   // SETTINGS - Additional Methods
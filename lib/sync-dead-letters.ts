@@ -0,0 +1,153 @@
+/**
+ * Sync Dead Letter Service
+ * Server side of the offline dead-letter queue: stores what devices report
+ * and lets admins retry (optionally with an edited payload) or discard
+ * each entry. A retry goes through the normal sync ingest path as the
+ * employee who queued the change, so it gets the same validation and
+ * evaluation as the original upload.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerSyncDeadLetter } from '@/lib/server-db'
+import type { SyncDeadLetterAck, SyncItemResult, SyncMutation } from '@/lib/sync-protocol'
+import { diffSyncPayload } from '@/lib/sync-protocol'
+import type { SyncDeadLetterDiscardInput, SyncDeadLetterReportInput, SyncDeadLetterRetryInput } from '@/lib/validation-schemas'
+import { syncIngestService } from '@/lib/sync-ingest'
+import type { SyncActor } from '@/lib/sync-ingest'
+import { logger } from '@/lib/logger'
+
+export type SyncDeadLetterResult<T> =
+  | ({ success: true } & T)
+  | { success: false; error: string; errorCode: string; status: number }
+
+function failure(error: string, errorCode: string, status: number = 400) {
+  return { success: false as const, error, errorCode, status }
+}
+
+export class SyncDeadLetterService {
+  async report(
+    deviceId: string,
+    actor: SyncActor,
+    reports: SyncDeadLetterReportInput['deadLetters']
+  ): Promise<SyncDeadLetterResult<{ ack: SyncDeadLetterAck }>> {
+    const { result, error } = await serverDbManager.reportSyncDeadLetters(deviceId, actor.userId, reports.map(report => ({
+      ...report,
+      payloadDiff: report.payloadDiff
+        ? report.payloadDiff.map(entry => ({ field: entry.field, local: entry.local, server: entry.server }))
+        : null
+    })))
+
+    if (error || !result) {
+      logger.error('Error recording sync dead letters', new Error(error?.message || 'Unknown error'))
+      return failure('Failed to record sync dead letters', 'SERVER_ERROR', 500)
+    }
+
+    logger.warn('Sync dead letters reported', {
+      deviceId,
+      reportedBy: actor.userId,
+      received: result.received,
+      closed: result.closed.length
+    })
+
+    return { success: true, ack: result }
+  }
+
+  /**
+   * Re-submit a dead letter, with the admin's edits to its data if given.
+   * The retry carries a fresh idempotency key (the original is already in
+   * the ledger) and no base version, since the admin has seen the diff.
+   */
+  async retry(
+    id: string,
+    input: SyncDeadLetterRetryInput,
+    adminId: string
+  ): Promise<SyncDeadLetterResult<{ deadLetter: ServerSyncDeadLetter; result: SyncItemResult }>> {
+    const deadLetter = await serverDbManager.getSyncDeadLetter(id)
+    if (!deadLetter) {
+      return failure('Dead letter not found', 'NOT_FOUND', 404)
+    }
+    if (deadLetter.status !== 'open') {
+      return failure('Dead letter is already closed', 'NOT_OPEN', 409)
+    }
+
+    // Changes are applied as the employee whose device queued them
+    const owner = await serverDbManager.getUser(deadLetter.reportedBy)
+    if (!owner || owner.isActive === false) {
+      return failure('The reporting employee is no longer active', 'USER_INACTIVE', 409)
+    }
+
+    const attempt = deadLetter.retryAttempts + 1
+    const { baseVersion, ...original } = deadLetter.mutation
+    const mutation: SyncMutation = {
+      ...original,
+      idempotencyKey: `${deadLetter.idempotencyKey}:retry:${attempt}`,
+      data: input.data ?? deadLetter.mutation.data,
+      clientTimestamp: new Date().toISOString()
+    }
+
+    const response = await syncIngestService.ingestBatch({
+      batchId: `dead-letter-${deadLetter.id}-${attempt}`,
+      deviceId: deadLetter.deviceId,
+      createdAt: new Date().toISOString(),
+      mutations: [mutation]
+    }, { userId: owner.id, role: owner.role })
+
+    const result = response.results[0]
+    const applied = result.status === 'applied' || result.status === 'duplicate'
+
+    const updated = await serverDbManager.updateSyncDeadLetter(id, {
+      mutation,
+      retryAttempts: attempt,
+      resolution: result,
+      ...(applied
+        ? { status: 'resolved' as const, resolvedBy: adminId, resolvedAt: new Date() }
+        : {
+            lastError: result.status === 'conflict' ? 'Changed on the server' : result.error || 'Rejected',
+            errorCode: result.errorCode,
+            payloadDiff: result.serverRecord ? diffSyncPayload(mutation.data, result.serverRecord) : deadLetter.payloadDiff
+          })
+    })
+
+    if (!updated) {
+      return failure('Dead letter is already closed', 'NOT_OPEN', 409)
+    }
+
+    logger.info('Sync dead letter retried', {
+      id,
+      retriedBy: adminId,
+      attempt,
+      edited: input.data !== undefined,
+      status: result.status
+    })
+
+    return { success: true, deadLetter: updated, result }
+  }
+
+  async discard(
+    id: string,
+    input: SyncDeadLetterDiscardInput,
+    adminId: string
+  ): Promise<SyncDeadLetterResult<{ deadLetter: ServerSyncDeadLetter }>> {
+    const deadLetter = await serverDbManager.getSyncDeadLetter(id)
+    if (!deadLetter) {
+      return failure('Dead letter not found', 'NOT_FOUND', 404)
+    }
+
+    const updated = await serverDbManager.updateSyncDeadLetter(id, {
+      status: 'discarded',
+      resolvedBy: adminId,
+      resolvedAt: new Date(),
+      notes: input.notes
+    })
+
+    if (!updated) {
+      return failure('Dead letter is already closed', 'NOT_OPEN', 409)
+    }
+
+    logger.info('Sync dead letter discarded', { id, discardedBy: adminId })
+    return { success: true, deadLetter: updated }
+  }
+}
+
+// Singleton instance
+export const syncDeadLetterService = new SyncDeadLetterService()
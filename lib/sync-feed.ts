@@ -0,0 +1,118 @@
+/**
+ * Change Feed Service
+ * Serves per-entity pages of the sync_changes log so offline clients can
+ * keep a local roster, face templates, shifts and settings current by
+ * pulling only what changed since their cursor.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerSyncChange, ServerUser, ServerFaceEmbedding, ServerScheduleAssignment } from '@/lib/server-db'
+import type { SyncChange, SyncChangePage, SyncFeedEntity } from '@/lib/sync-protocol'
+
+export interface SyncFeedActor {
+  userId: string
+  role: string
+}
+
+// Roles whose devices mirror every employee (shared kiosks); others only
+// receive their own rows plus shared ones
+const KIOSK_ROLES = ['admin', 'hr', 'manager']
+// Settings sections kiosks need; the rest (SMTP, push keys, ...) stay server-side
+const SYNCED_SETTINGS_SECTIONS = ['company', 'attendance']
+// Changes younger than this are served on the next pull, so a transaction
+// that commits a lower seq late is not skipped
+const SETTLE_WINDOW_MS = 5000
+
+function toClientUser(user: ServerUser): Record<string, any> {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    department: user.department,
+    position: user.position,
+    employeeId: user.employeeId,
+    phone: user.phone,
+    isActive: user.isActive,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt
+  }
+}
+
+function toClientEmbedding(embedding: ServerFaceEmbedding): Record<string, any> {
+  return {
+    id: embedding.id,
+    userId: embedding.userId,
+    embedding: embedding.embedding,
+    quality: embedding.quality,
+    updatedAt: embedding.updatedAt
+  }
+}
+
+function toClientAssignment(assignment: ServerScheduleAssignment): Record<string, any> {
+  return {
+    ...assignment,
+    date: assignment.date.toISOString().slice(0, 10)
+  }
+}
+
+export class ChangeFeedService {
+  async getChanges(
+    entity: SyncFeedEntity,
+    cursor: number,
+    limit: number,
+    actor: SyncFeedActor
+  ): Promise<SyncChangePage> {
+    const rows = await serverDbManager.getSyncChanges(entity, {
+      after: cursor,
+      limit,
+      settledBefore: new Date(Date.now() - SETTLE_WINDOW_MS),
+      ownerId: KIOSK_ROLES.includes(actor.role) ? undefined : actor.userId
+    })
+
+    const upsertIds = rows.filter(row => row.operation === 'upsert').map(row => row.entityId)
+    const records = await serverDbManager.getSyncFeedRecords(entity, upsertIds)
+
+    const changes = rows
+      .map(row => this.toChange(entity, row, records.get(row.entityId)))
+      .filter((change): change is SyncChange => change !== null)
+
+    return {
+      entity,
+      changes,
+      // Advance past filtered rows too, so they aren't scanned again
+      cursor: String(rows.length > 0 ? rows[rows.length - 1].seq : cursor),
+      hasMore: rows.length === limit
+    }
+  }
+
+  private toChange(entity: SyncFeedEntity, row: ServerSyncChange, record: any): SyncChange | null {
+    const tombstone: SyncChange = { seq: String(row.seq), operation: 'delete', id: row.entityId }
+
+    // Deleted after the change was logged; its own tombstone follows later
+    if (row.operation === 'delete' || !record) {
+      return tombstone
+    }
+
+    switch (entity) {
+      case 'users':
+        return { seq: tombstone.seq, operation: 'upsert', id: row.entityId, record: toClientUser(record) }
+      case 'face_embeddings':
+        // Revoked templates must stop matching on kiosks
+        return record.isActive === false
+          ? tombstone
+          : { seq: tombstone.seq, operation: 'upsert', id: row.entityId, record: toClientEmbedding(record) }
+      case 'schedule_assignments':
+        return { seq: tombstone.seq, operation: 'upsert', id: row.entityId, record: toClientAssignment(record) }
+      case 'settings':
+        return SYNCED_SETTINGS_SECTIONS.includes(record.section)
+          ? { seq: tombstone.seq, operation: 'upsert', id: row.entityId, record }
+          : null
+      default:
+        return { seq: tombstone.seq, operation: 'upsert', id: row.entityId, record }
+    }
+  }
+}
+
+// Export singleton instance
+export const changeFeedService = new ChangeFeedService()
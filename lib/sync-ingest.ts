@@ -0,0 +1,390 @@
+/**
+ * Sync Ingest Service
+ * Applies batches of offline client mutations. Every mutation is validated
+ * and evaluated like its online counterpart, then applied together with its
+ * ledger entry in one transaction, so replaying a batch after a dropped
+ * connection never creates duplicate punches.
+ */
+
+import { serverDbManager } from '@/lib/server-db'
+import type { ServerAttendanceRecord, ServerKioskDevice } from '@/lib/server-db'
+import { offlineFaceEventSchema } from '@/lib/validation-schemas'
+import type { SyncBatchInput, SyncMutationInput } from '@/lib/validation-schemas'
+import type { SyncBatchResponse, SyncItemResult, SyncItemStatus } from '@/lib/sync-protocol'
+import { attendanceEvaluation } from '@/lib/attendance-evaluation'
+import type { AttendanceEventType } from '@/lib/attendance-evaluation'
+import { overtimeService, attendanceDayOf } from '@/lib/overtime'
+import { geofenceService } from '@/lib/geofence'
+import { offlineFaceVerification } from '@/lib/offline-face-verification'
+import { toOfficeDateString } from '@/lib/office-time'
+import { isVersionVector } from '@/lib/version-vector'
+import { logger } from '@/lib/logger'
+
+export interface SyncActor {
+  userId: string
+  role: string
+  // Registered kiosk that signed the upload; null for other devices
+  kioskDevice?: ServerKioskDevice | null
+}
+
+interface PreparedMutation {
+  row: Record<string, any>
+  // Office-local day to re-run overtime for once the batch is applied
+  recalculate?: { userId: string; workDate: string }
+}
+
+type PrepareResult =
+  | { ok: true; prepared: PreparedMutation }
+  | { ok: false; result: SyncItemResult }
+
+// Roles that may upload punches for other employees (shared kiosks)
+const KIOSK_ROLES = ['admin', 'hr', 'manager']
+// Profile fields a device may change offline; mirrors apply_sync_mutation
+const USER_SYNC_FIELDS = ['name', 'phone', 'department'] as const
+const ATTENDANCE_TYPES: AttendanceEventType[] = ['check-in', 'check-out', 'break-start', 'break-end']
+// Tolerated device clock drift for punches stamped in the future
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+// Oldest punch a device may still upload; as long as a kiosk may work
+// offline on one face cache. Older corrections go through HR.
+const MAX_BACKDATE_MS = 72 * 60 * 60 * 1000
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function rejected(
+  mutation: SyncMutationInput,
+  error: string,
+  errorCode: string,
+  retryable: boolean = false
+): SyncItemResult {
+  return {
+    idempotencyKey: mutation.idempotencyKey,
+    entityId: mutation.entityId,
+    status: 'rejected',
+    error,
+    errorCode,
+    ...(retryable ? { retryable } : {})
+  }
+}
+
+function emptySummary(): Record<SyncItemStatus, number> {
+  return { applied: 0, duplicate: 0, conflict: 0, rejected: 0 }
+}
+
+export class SyncIngestService {
+  /**
+   * Apply a verified batch in order. Mutations are independent: a rejected
+   * or conflicting item never rolls back the ones around it.
+   */
+  async ingestBatch(batch: SyncBatchInput, actor: SyncActor): Promise<SyncBatchResponse> {
+    const results: SyncItemResult[] = []
+    const recalculations = new Map<string, { userId: string; workDate: string }>()
+    let cursor: number | null = null
+
+    for (const mutation of batch.mutations) {
+      const { result, seq, recalculate } = await this.applyMutation(mutation, batch, actor)
+      results.push(result)
+
+      if (seq !== null) {
+        cursor = cursor === null ? seq : Math.max(cursor, seq)
+      }
+      if (recalculate && result.status === 'applied') {
+        recalculations.set(`${recalculate.userId}:${recalculate.workDate}`, recalculate)
+      }
+    }
+
+    // Detect overtime for uploaded check-outs once per employee-day
+    for (const { userId, workDate } of Array.from(recalculations.values())) {
+      await overtimeService
+        .recalculateDay(userId, workDate)
+        .catch(error => logger.error('Error recalculating overtime after sync', error as Error))
+    }
+
+    const summary = emptySummary()
+    results.forEach(result => { summary[result.status]++ })
+
+    logger.info('Sync batch ingested', {
+      batchId: batch.batchId,
+      deviceId: batch.deviceId,
+      submittedBy: actor.userId,
+      ...summary
+    })
+
+    return {
+      batchId: batch.batchId,
+      cursor: cursor === null ? null : String(cursor),
+      results,
+      summary
+    }
+  }
+
+  private async applyMutation(
+    mutation: SyncMutationInput,
+    batch: SyncBatchInput,
+    actor: SyncActor
+  ): Promise<{ result: SyncItemResult; seq: number | null; recalculate?: PreparedMutation['recalculate'] }> {
+    if (mutation.entity === 'face_event') {
+      return { result: await this.applyFaceEvent(mutation, actor), seq: null }
+    }
+
+    let preparation: PrepareResult
+    try {
+      preparation = await this.prepare(mutation, actor)
+    } catch (error) {
+      logger.error('Error preparing sync mutation', error as Error)
+      return { result: rejected(mutation, 'Could not validate change', 'SERVER_ERROR', true), seq: null }
+    }
+
+    if (!preparation.ok) {
+      return { result: preparation.result, seq: null }
+    }
+
+    const { result, error } = await serverDbManager.applySyncMutation({
+      submittedBy: actor.userId,
+      idempotencyKey: mutation.idempotencyKey,
+      entity: mutation.entity,
+      operation: mutation.operation,
+      entityId: mutation.entityId,
+      row: preparation.prepared.row,
+      baseVersion: mutation.baseVersion ? new Date(mutation.baseVersion) : undefined,
+      deviceId: batch.deviceId,
+      batchId: batch.batchId,
+      clientTimestamp: new Date(mutation.clientTimestamp)
+    })
+
+    if (error) {
+      if (error.message === 'SYNC_ENTITY_NOT_FOUND') {
+        return { result: rejected(mutation, 'Record not found', 'NOT_FOUND'), seq: null }
+      }
+      if (error.message === 'SYNC_UNSUPPORTED_MUTATION') {
+        return { result: rejected(mutation, 'Unsupported change', 'UNSUPPORTED_ENTITY'), seq: null }
+      }
+      logger.warn('Sync mutation not applied', {
+        idempotencyKey: mutation.idempotencyKey,
+        error: error.message,
+        details: error.details
+      })
+      return { result: rejected(mutation, 'Could not apply change', 'SERVER_ERROR', true), seq: null }
+    }
+
+    const status = result?.status as SyncItemStatus
+    const stored = result?.result || {}
+
+    return {
+      result: {
+        idempotencyKey: mutation.idempotencyKey,
+        entityId: mutation.entityId,
+        status,
+        ...(stored.record ? { record: stored.record } : {}),
+        ...(stored.serverRecord ? { serverRecord: stored.serverRecord } : {})
+      },
+      seq: result?.seq != null ? Number(result.seq) : null,
+      recalculate: preparation.prepared.recalculate
+    }
+  }
+
+  /**
+   * Offline kiosk face events carry their own idempotency (the event id) and
+   * are re-verified rather than applied as sent; see offline-face-verification
+   */
+  private async applyFaceEvent(
+    mutation: SyncMutationInput,
+    actor: SyncActor
+  ): Promise<SyncItemResult> {
+    if (mutation.operation !== 'create') {
+      return rejected(mutation, 'Offline face events can only be created', 'UNSUPPORTED_ENTITY')
+    }
+    if (!KIOSK_ROLES.includes(actor.role)) {
+      return rejected(mutation, 'Only kiosk operators can upload offline face events', 'NOT_ALLOWED')
+    }
+    // Everything in the event is the device's word, so only an enrolled,
+    // active kiosk may upload one (verifyRequest refuses disabled kiosks)
+    if (!actor.kioskDevice) {
+      return rejected(mutation, 'Offline face events must be uploaded by a registered kiosk', 'KIOSK_DEVICE_REQUIRED')
+    }
+
+    const parsed = offlineFaceEventSchema.safeParse(mutation.data)
+    if (!parsed.success || parsed.data.id !== mutation.entityId) {
+      return rejected(mutation, 'Offline face event is incomplete', 'INVALID_DATA')
+    }
+    if (parsed.data.siteId !== actor.kioskDevice.siteId) {
+      return rejected(mutation, 'Offline face event is for a different site than this kiosk', 'KIOSK_SITE_MISMATCH')
+    }
+
+    let outcome
+    try {
+      outcome = await offlineFaceVerification.verifyEvent(parsed.data, {
+        submittedBy: actor.userId,
+        deviceId: actor.kioskDevice.id
+      })
+    } catch (error) {
+      logger.error('Error verifying offline face event', error as Error)
+      return rejected(mutation, 'Could not verify offline face event', 'SERVER_ERROR', true)
+    }
+
+    if (!outcome.success) {
+      return rejected(mutation, outcome.error, outcome.errorCode, outcome.status >= 500)
+    }
+
+    // The verdict is final either way: rejected events wait for HR review
+    // on the server, so the kiosk must not resubmit them
+    return {
+      idempotencyKey: mutation.idempotencyKey,
+      entityId: mutation.entityId,
+      status: outcome.status,
+      record: {
+        verdict: outcome.event.verdict,
+        reason: outcome.event.reason,
+        userId: outcome.event.matchedUserId,
+        attendanceId: outcome.event.attendanceId
+      }
+    }
+  }
+
+  private async prepare(mutation: SyncMutationInput, actor: SyncActor): Promise<PrepareResult> {
+    if (mutation.entity === 'attendance' && mutation.operation === 'create') {
+      return this.prepareAttendance(mutation, actor)
+    }
+    if (mutation.entity === 'user' && mutation.operation === 'update') {
+      return this.prepareUserUpdate(mutation, actor)
+    }
+    return {
+      ok: false,
+      result: rejected(mutation, `${mutation.entity} ${mutation.operation} is not synced through this endpoint`, 'UNSUPPORTED_ENTITY')
+    }
+  }
+
+  private async prepareAttendance(mutation: SyncMutationInput, actor: SyncActor): Promise<PrepareResult> {
+    const data = mutation.data
+    const type = data.type as AttendanceEventType
+    const timestamp = new Date(data.timestamp)
+
+    if (!UUID_PATTERN.test(mutation.entityId)) {
+      return { ok: false, result: rejected(mutation, 'Attendance id must be a UUID', 'INVALID_DATA') }
+    }
+    if (!ATTENDANCE_TYPES.includes(type) || typeof data.userId !== 'string' || isNaN(timestamp.getTime())) {
+      return { ok: false, result: rejected(mutation, 'Attendance record is incomplete', 'INVALID_DATA') }
+    }
+    if (timestamp.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return { ok: false, result: rejected(mutation, 'Attendance timestamp is in the future', 'INVALID_TIMESTAMP') }
+    }
+    if (timestamp.getTime() < Date.now() - MAX_BACKDATE_MS) {
+      return { ok: false, result: rejected(mutation, 'Attendance is too old to sync; ask HR to record it', 'TIMESTAMP_TOO_OLD') }
+    }
+    if (data.userId !== actor.userId && !KIOSK_ROLES.includes(actor.role)) {
+      return { ok: false, result: rejected(mutation, 'Not allowed to record attendance for this employee', 'NOT_ALLOWED') }
+    }
+    if (data.versionVector !== undefined && !isVersionVector(data.versionVector)) {
+      return { ok: false, result: rejected(mutation, 'Invalid version vector', 'INVALID_DATA') }
+    }
+
+    const user = await serverDbManager.getUser(data.userId)
+    if (!user || user.isActive === false) {
+      return { ok: false, result: rejected(mutation, 'Employee not found or inactive', 'NOT_FOUND') }
+    }
+
+    const evaluation = await attendanceEvaluation.evaluate(user.id, timestamp, type)
+    const { effectiveShift } = evaluation
+
+    const lockedPeriod = await serverDbManager.getClosedPayrollPeriodFor(effectiveShift.shiftDate || toOfficeDateString(timestamp))
+    if (lockedPeriod) {
+      return {
+        ok: false,
+        result: rejected(mutation, `Payroll period "${lockedPeriod.name}" is closed`, 'PERIOD_LOCKED')
+      }
+    }
+
+    // A replay of this same record is recognised by apply_sync_mutation;
+    // any other check-in in the shift makes this one a duplicate punch
+    if (type === 'check-in') {
+      const shiftRecords = await attendanceEvaluation.findShiftCheckIns(user.id, effectiveShift)
+      if (shiftRecords.some(record => record.id !== mutation.entityId)) {
+        return { ok: false, result: rejected(mutation, 'Already checked in for this shift', 'ALREADY_CHECKED_IN') }
+      }
+    }
+
+    const geofence = await geofenceService.checkLocation(user.id, data.location, timestamp)
+    if (geofence.action === 'reject') {
+      return {
+        ok: false,
+        result: rejected(
+          mutation,
+          geofence.message || 'Location is outside the allowed area',
+          geofence.status === 'missing_location' ? 'LOCATION_REQUIRED' : 'OUTSIDE_GEOFENCE'
+        )
+      }
+    }
+
+    const record: ServerAttendanceRecord = {
+      id: mutation.entityId,
+      userId: user.id,
+      timestamp,
+      type,
+      location: data.location ? JSON.stringify(data.location) : undefined,
+      photoUrl: typeof data.photoUrl === 'string' ? data.photoUrl : undefined,
+      notes: typeof data.notes === 'string' ? data.notes : undefined,
+      status: type === 'check-in' || type === 'check-out' ? evaluation.status : undefined,
+      verified: false,
+      synced: true,
+      zoneViolation: geofence.violation,
+      versionVector: data.versionVector,
+      metadata: {
+        method: 'offline-sync',
+        submittedBy: actor.userId,
+        clientTimestamp: mutation.clientTimestamp,
+        shiftId: effectiveShift.shift.id,
+        shiftCode: effectiveShift.shift.code,
+        shiftDate: effectiveShift.shiftDate,
+        shiftSource: effectiveShift.source,
+        lateMinutes: evaluation.lateMinutes,
+        earlyLeaveMinutes: evaluation.earlyLeaveMinutes,
+        geofence: {
+          status: geofence.status,
+          siteId: geofence.siteId,
+          siteName: geofence.siteName,
+          distanceMeters: geofence.distanceMeters,
+          accuracy: geofence.accuracy,
+          policy: geofence.policy
+        }
+      },
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+
+    return {
+      ok: true,
+      prepared: {
+        row: serverDbManager.toAttendanceSyncRow(record),
+        recalculate: type === 'check-out'
+          ? { userId: user.id, workDate: attendanceDayOf(record) }
+          : undefined
+      }
+    }
+  }
+
+  private async prepareUserUpdate(mutation: SyncMutationInput, actor: SyncActor): Promise<PrepareResult> {
+    if (mutation.entityId !== actor.userId && !['admin', 'hr'].includes(actor.role)) {
+      return { ok: false, result: rejected(mutation, 'Not allowed to update this profile', 'NOT_ALLOWED') }
+    }
+    if (!UUID_PATTERN.test(mutation.entityId)) {
+      return { ok: false, result: rejected(mutation, 'User id must be a UUID', 'INVALID_DATA') }
+    }
+
+    const row: Record<string, any> = {}
+    for (const field of USER_SYNC_FIELDS) {
+      const value = mutation.data[field]
+      if (value === undefined) continue
+      if (value !== null && typeof value !== 'string') {
+        return { ok: false, result: rejected(mutation, `Invalid value for ${field}`, 'INVALID_DATA') }
+      }
+      row[field] = value
+    }
+
+    if (row.name !== undefined && !row.name?.trim()) {
+      return { ok: false, result: rejected(mutation, 'Name cannot be empty', 'INVALID_DATA') }
+    }
+
+    return { ok: true, prepared: { row } }
+  }
+}
+
+// Export singleton instance
+export const syncIngestService = new SyncIngestService()
@@ -2,10 +2,15 @@ import { supabaseService, isOnline, NetworkStatus, AuthState } from './supabase'
 import { storageService } from './storage'
 import { storageManager, AttendanceRecord, User, SyncQueueItem, AppSettings } from './db'
 import { syncQueue } from './sync-queue'
+import { ApiClient } from './api-client'
+import { toSyncMutation, SYNC_MAX_BATCH_SIZE } from './sync-protocol'
 import { incrementalSyncManager, IncrementalSyncOptions } from './incremental-sync'
 import { adaptiveSyncManager, AdaptiveSyncOptions } from './adaptive-sync'
 import { batchSizeOptimizer, BatchOptimizerOptions } from './batch-optimizer'
 import { syncPrioritizer, SyncPriorityOptions } from './sync-prioritizer'
+import { attendanceReconciler } from './attendance-reconciler'
+import { conflictResolver } from './conflict-resolver'
+import type { Conflict } from './conflict-types'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Sync status enum
@@ -166,7 +171,6 @@ export class SyncManager {
     itemsSynced: 0,
     conflictsResolved: 0,
   }
-  private conflicts: SyncConflict[] = []
   private syncIntervalId: NodeJS.Timeout | null = null
   private eventListeners: Map<string, Function[]> = new Map()
   private isSyncing: boolean = false
@@ -215,6 +219,15 @@ export class SyncManager {
       })
     }
     
+    // Attendance conflicts are settled in the ConflictResolver, from here
+    // or from ConflictModal; either way report them once they are
+    conflictResolver.onNotification((notification, conflict) => {
+      if (notification.type === 'resolved' && conflict.metadata.entityType === 'attendance') {
+        this.stats.conflictsResolved++
+        this.emit('conflictResolved', this.toSyncConflict(conflict))
+      }
+    })
+
     // Initialize sync interval
     this.startSyncInterval()
     
@@ -426,53 +439,52 @@ export class SyncManager {
     const conflicts: SyncConflict[] = []
 
     try {
-      // Get unsynced attendance records
+      // Get unsynced attendance records. Cached users are a copy of the
+      // server directory; profile edits travel through the sync queue.
       const unsyncedAttendance = await storageService.getAttendanceRecords({ synced: false })
-      
-      // Get unsynced users
-      const unsyncedUsers = await storageService.getUsers()
-      
-      // Combine all items to sync
-      const itemsToSync = [
-        ...unsyncedAttendance.map(record => ({ type: 'attendance', data: record })),
-        ...unsyncedUsers.map(user => ({ type: 'user', data: user })),
-      ]
-      
-      // Sort by priority
-      if (priority === SyncPriority.HIGH) {
-        // High priority: attendance records first
-        itemsToSync.sort((a, b) => {
-          if (a.type === 'attendance' && b.type !== 'attendance') return -1
-          if (a.type !== 'attendance' && b.type === 'attendance') return 1
-          return 0
-        })
-      }
-
-      // Process in batches
-      for (let i = 0; i < itemsToSync.length; i += this.config.batchSize) {
-        const batch = itemsToSync.slice(i, i + this.config.batchSize)
-        
-        for (const item of batch) {
+      const batchSize = Math.min(this.config.batchSize, SYNC_MAX_BATCH_SIZE)
+
+      // Upload in batches; each record keeps the same idempotency key on
+      // every attempt, so a retried batch never duplicates a punch
+      for (let i = 0; i < unsyncedAttendance.length; i += batchSize) {
+        const batch = unsyncedAttendance.slice(i, i + batchSize).map(record => attendanceReconciler.ensureVersion(record))
+        const response = await ApiClient.syncBatch(batch.map(record => toSyncMutation({
+          id: `attendance-${record.id}`,
+          type: 'attendance',
+          data: record,
+          timestamp: record.createdAt || record.timestamp,
+        })))
+
+        for (const record of batch) {
           itemsProcessed++
-          
-          try {
-            if (item.type === 'attendance') {
-              await this.syncAttendanceRecord(item.data as AttendanceRecord)
-            } else if (item.type === 'user') {
-              await this.syncUser(item.data as User)
-            }
-            
+          const result = response.results.find(r => r.entityId === record.id)
+
+          if (result && (result.status === 'applied' || result.status === 'duplicate')) {
+            // Mark local record as synced; the server copy becomes its new base
+            await attendanceReconciler.recordApplied(record, result.record)
             itemsSucceeded++
-          } catch (error) {
-            itemsFailed++
-            
-            // If conflict resolution is enabled, handle conflicts
-            if (this.config.enableConflictResolution && this.isConflictError(error)) {
-              const conflict = await this.handleConflict(item.type, item.data, error)
-              if (conflict) {
-                conflicts.push(conflict)
-              }
+            continue
+          }
+
+          itemsFailed++
+
+          if (result?.status === 'conflict' && result.serverRecord && this.config.enableConflictResolution) {
+            // Three-way merge against the last server copy this device saw;
+            // merged records go out again on the next push
+            const { outcome, conflict } = await attendanceReconciler.reconcile(record, result.serverRecord)
+            if (outcome === 'manual' && conflict) {
+              const tracked = this.toSyncConflict(conflict)
+              conflicts.push(tracked)
+              this.emit('conflict', tracked)
+            } else {
+              this.stats.conflictsResolved++
             }
+          } else if (result?.status === 'rejected') {
+            logger.warn('Attendance record rejected by server', {
+              recordId: record.id,
+              errorCode: result.errorCode,
+              error: result.error,
+            })
           }
         }
       }
@@ -493,87 +505,22 @@ export class SyncManager {
   }
 
   // Pull sync (remote to local)
+  // Follows the server change feed from the stored cursors instead of
+  // re-downloading everything; see lib/incremental-sync.ts
   private async pullSync(priority: SyncPriority): Promise<SyncResult> {
     const startTime = Date.now()
-    let itemsProcessed = 0
-    let itemsSucceeded = 0
-    let itemsFailed = 0
-    const conflicts: SyncConflict[] = []
-
-    try {
-      // Fetch remote attendance records
-      const client = await supabaseService.getClient()
-      const { data: remoteAttendance, error: attendanceError } = await client
-        .from('attendance')
-        .select('*')
-        .order('timestamp', { ascending: false })
-      
-      if (attendanceError) throw attendanceError
-      
-      // Fetch remote users
-      const { data: remoteUsers, error: usersError } = await client
-        .from('users')
-        .select('*')
-      
-      if (usersError) throw usersError
-      
-      // Combine all items to sync
-      const itemsToSync = [
-        ...remoteAttendance.map(record => ({ type: 'attendance', data: record })),
-        ...remoteUsers.map(user => ({ type: 'user', data: user })),
-      ]
-      
-      // Sort by priority
-      if (priority === SyncPriority.HIGH) {
-        // High priority: users first (needed for attendance records)
-        itemsToSync.sort((a, b) => {
-          if (a.type === 'user' && b.type !== 'user') return -1
-          if (a.type !== 'user' && b.type === 'user') return 1
-          return 0
-        })
-      }
-
-      // Process in batches
-      for (let i = 0; i < itemsToSync.length; i += this.config.batchSize) {
-        const batch = itemsToSync.slice(i, i + this.config.batchSize)
-        
-        for (const item of batch) {
-          itemsProcessed++
-          
-          try {
-            if (item.type === 'attendance') {
-              await this.saveAttendanceRecordLocally(item.data)
-            } else if (item.type === 'user') {
-              await this.saveUserLocally(item.data)
-            }
-            
-            itemsSucceeded++
-          } catch (error) {
-            itemsFailed++
-            
-            // If conflict resolution is enabled, handle conflicts
-            if (this.config.enableConflictResolution && this.isConflictError(error)) {
-              const conflict = await this.handleConflict(item.type, item.data, error)
-              if (conflict) {
-                conflicts.push(conflict)
-              }
-            }
-          }
-        }
-      }
+    const result = await incrementalSyncManager.sync()
 
-      return {
-        success: itemsFailed === 0,
-        status: SyncStatus.COMPLETED,
-        timestamp: new Date(),
-        itemsProcessed,
-        itemsSucceeded,
-        itemsFailed,
-        conflicts,
-        duration: Date.now() - startTime,
-      }
-    } catch (error) {
-      throw error
+    return {
+      success: result.success,
+      status: result.success ? SyncStatus.COMPLETED : SyncStatus.ERROR,
+      timestamp: new Date(),
+      itemsProcessed: result.changesSynced + result.changesFailed,
+      itemsSucceeded: result.changesSynced,
+      itemsFailed: result.changesFailed,
+      conflicts: [],
+      error: result.error?.message,
+      duration: Date.now() - startTime,
     }
   }
 
@@ -581,25 +528,6 @@ export class SyncManager {
   private async bidirectionalSync(priority: SyncPriority): Promise<SyncResult> {
     const startTime = Date.now()
     
-    // If incremental sync is enabled, force a sync of all pending changes
-    if (this.config.enableIncrementalSync) {
-      const incrementalResult = await incrementalSyncManager.forceSync()
-      
-      // If incremental sync was successful, return the result
-      if (incrementalResult.success) {
-        return {
-          success: true,
-          status: SyncStatus.COMPLETED,
-          timestamp: new Date(),
-          itemsProcessed: incrementalResult.changesSynced,
-          itemsSucceeded: incrementalResult.changesSynced,
-          itemsFailed: incrementalResult.changesFailed,
-          conflicts: [],
-          duration: Date.now() - startTime,
-        }
-      }
-    }
-    
     // First push local changes to remote
     const pushResult = await this.pushSync(priority)
     
@@ -618,263 +546,27 @@ export class SyncManager {
     }
   }
 
-  // Sync attendance record to remote
-  private async syncAttendanceRecord(record: AttendanceRecord): Promise<void> {
-    // Track change for incremental sync
-    if (this.config.enableIncrementalSync) {
-      incrementalSyncManager.trackChange('update', 'attendance', record.id, {
-        id: record.id,
-        user_id: record.userId,
-        timestamp: record.timestamp.toISOString(),
-        type: record.type,
-        location: record.location,
-        photo: record.photo,
-        synced: true,
-      })
-    }
-    
-    const client = await supabaseService.getClient()
-    const { error } = await client
-      .from('attendance')
-      .upsert({
-        id: record.id,
-        user_id: record.userId,
-        timestamp: record.timestamp.toISOString(),
-        type: record.type,
-        location: record.location,
-        photo: record.photo,
-        synced: true,
-      })
-    
-    if (error) throw error
-    
-    // Mark local record as synced
-    record.synced = true
-    await storageService.saveAttendanceRecord(record)
-  }
-
-  // Sync user to remote
-  private async syncUser(user: User): Promise<void> {
-    // Track change for incremental sync
-    if (this.config.enableIncrementalSync) {
-      incrementalSyncManager.trackChange('update', 'users', user.id, {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        department: user.department,
-        photo: user.photo,
-      })
-    }
-    
-    const client = await supabaseService.getClient()
-    const { error } = await client
-      .from('users')
-      .upsert({
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        department: user.department,
-        photo: user.photo,
-      })
-    
-    if (error) throw error
-  }
-
-  // Save attendance record locally
-  private async saveAttendanceRecordLocally(record: any): Promise<void> {
-    // Convert timestamp string to Date object
-    const localRecord: AttendanceRecord = {
-      ...record,
-      userId: record.user_id,
-      timestamp: new Date(record.timestamp),
-      synced: true,
-    }
-    
-    // Track change for incremental sync
-    if (this.config.enableIncrementalSync) {
-      const existingRecord = await storageService.getAttendanceRecord(localRecord.id)
-      
-      if (existingRecord) {
-        incrementalSyncManager.trackChange('update', 'attendance', localRecord.id, localRecord)
-      } else {
-        incrementalSyncManager.trackChange('create', 'attendance', localRecord.id, localRecord)
-      }
-    }
-    
-    // Check if record already exists locally
-    const existingRecord = await storageService.getAttendanceRecord(localRecord.id)
-    
-    if (existingRecord) {
-      // If conflict resolution is enabled, handle conflicts
-      if (this.config.enableConflictResolution) {
-        const conflict = await this.handleConflict('attendance', localRecord, new Error('Record already exists'))
-        if (conflict) {
-          // Apply resolution
-          if (conflict.resolution === 'remote') {
-            await storageService.saveAttendanceRecord(localRecord)
-          }
-          // If resolution is 'local', we keep the existing record
-        }
-      } else {
-        // Default to remote
-        await storageService.saveAttendanceRecord(localRecord)
-      }
-    } else {
-      // Record doesn't exist locally, save it
-      await storageService.saveAttendanceRecord(localRecord)
-    }
-  }
-
-  // Save user locally
-  private async saveUserLocally(user: any): Promise<void> {
-    // Track change for incremental sync
-    if (this.config.enableIncrementalSync) {
-      const existingUser = await storageService.getUser(user.id)
-      
-      if (existingUser) {
-        incrementalSyncManager.trackChange('update', 'users', user.id, user)
-      } else {
-        incrementalSyncManager.trackChange('create', 'users', user.id, user)
-      }
-    }
-    
-    // Check if user already exists locally
-    const existingUser = await storageService.getUser(user.id)
-    
-    if (existingUser) {
-      // If conflict resolution is enabled, handle conflicts
-      if (this.config.enableConflictResolution) {
-        const conflict = await this.handleConflict('user', user, new Error('User already exists'))
-        if (conflict) {
-          // Apply resolution
-          if (conflict.resolution === 'remote') {
-            await storageService.saveUser(user)
-          }
-          // If resolution is 'local', we keep the existing user
-        }
-      } else {
-        // Default to remote
-        await storageService.saveUser(user)
-      }
-    } else {
-      // User doesn't exist locally, save it
-      await storageService.saveUser(user)
-    }
-  }
-
-  // Conflict detection and resolution
-  private isConflictError(error: any): boolean {
-    // Check if error is a conflict error
-    // This depends on how Supabase reports conflicts
-    return error && error.code === '23505' // Unique violation error code
-  }
-
-  private async handleConflict(type: string, localData: any, error: any): Promise<SyncConflict | null> {
-    // Get remote data
-    let remoteData: any = null
-    
-    try {
-      const client = await supabaseService.getClient()
-      if (type === 'attendance') {
-        const { data } = await client
-          .from('attendance')
-          .select('*')
-          .eq('id', localData.id)
-          .single()
-        
-        remoteData = data
-      } else if (type === 'user') {
-        const { data } = await client
-          .from('users')
-          .select('*')
-          .eq('id', localData.id)
-          .single()
-        
-        remoteData = data
-      }
-    } catch (error) {
-      logger.error('Error fetching remote data for conflict resolution', error as Error)
-      return null
-    }
-    
-    if (!remoteData) return null
-    
-    // Create conflict
-    const conflict: SyncConflict = {
-      id: `${type}_${localData.id}`,
-      type: type as 'attendance' | 'user' | 'settings',
-      localData,
-      remoteData,
-    }
-    
-    // Add to conflicts list
-    this.conflicts.push(conflict)
-    
-    // Emit conflict event
-    this.emit('conflict', conflict)
-    
-    // If automatic resolution is enabled, resolve the conflict
-    if (this.config.enableConflictResolution) {
-      // Default resolution strategy: remote wins
-      conflict.resolution = 'remote'
-      conflict.resolvedAt = new Date()
-      
-      // Update stats
-      this.stats.conflictsResolved++
-      
-      // Emit conflict resolved event
-      this.emit('conflictResolved', conflict)
+  // Conflicts that need a person to settle them, as shown by ConflictModal
+  private toSyncConflict(conflict: Conflict): SyncConflict {
+    return {
+      id: conflict.metadata.id,
+      type: 'attendance',
+      localData: conflict.localData,
+      remoteData: conflict.remoteData,
+      resolution: conflict.metadata.resolved ? undefined : 'manual',
+      resolvedAt: conflict.metadata.resolvedAt,
     }
-    
-    return conflict
   }
 
-  // Manual conflict resolution
+  // Manual conflict resolution. Goes through the ConflictResolver and the
+  // attendance reconciler, which keeps the record's version for the next push.
   async resolveConflict(conflictId: string, resolution: 'local' | 'remote' | 'merge'): Promise<void> {
-    const conflict = this.conflicts.find(c => c.id === conflictId)
-    
-    if (!conflict) {
+    const userId = supabaseService.getAuthState().user?.id || 'local'
+    const settled = await attendanceReconciler.resolve(conflictId, resolution, userId)
+
+    if (!settled) {
       throw new Error(`Conflict with ID ${conflictId} not found`)
     }
-    
-    // Apply resolution
-    conflict.resolution = resolution
-    conflict.resolvedAt = new Date()
-    
-    if (resolution === 'local') {
-      // Keep local data
-      if (conflict.type === 'attendance') {
-        await storageService.saveAttendanceRecord(conflict.localData)
-      } else if (conflict.type === 'user') {
-        await storageService.saveUser(conflict.localData)
-      }
-    } else if (resolution === 'remote') {
-      // Use remote data
-      if (conflict.type === 'attendance') {
-        await this.saveAttendanceRecordLocally(conflict.remoteData)
-      } else if (conflict.type === 'user') {
-        await this.saveUserLocally(conflict.remoteData)
-      }
-    } else if (resolution === 'merge') {
-      // Merge data (this would be more complex in a real application)
-      // For now, we'll just use remote data
-      if (conflict.type === 'attendance') {
-        await this.saveAttendanceRecordLocally(conflict.remoteData)
-      } else if (conflict.type === 'user') {
-        await this.saveUserLocally(conflict.remoteData)
-      }
-    }
-    
-    // Update stats
-    this.stats.conflictsResolved++
-    
-    // Remove from conflicts list
-    this.conflicts = this.conflicts.filter(c => c.id !== conflictId)
-    
-    // Emit conflict resolved event
-    this.emit('conflictResolved', conflict)
   }
 
   // Update sync statistics
@@ -909,7 +601,7 @@ export class SyncManager {
   }
 
   getConflicts(): SyncConflict[] {
-    return [...this.conflicts]
+    return attendanceReconciler.getPendingConflicts().map(conflict => this.toSyncConflict(conflict))
   }
 
   getConfig(): SyncConfig {
@@ -933,9 +625,9 @@ export class SyncManager {
     return await this.sync({ force: true })
   }
 
-  // Clear conflicts
+  // Clear settled conflicts; unsettled ones stay until they are resolved
   clearConflicts(): void {
-    this.conflicts = []
+    conflictResolver.clearResolvedConflicts()
     this.emit('conflictsCleared')
   }
 
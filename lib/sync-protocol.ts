@@ -0,0 +1,290 @@
+// Wire format for offline sync: batch uploads to POST /api/sync and the
+// change feed at GET /api/sync/changes. Shared by the browser and the server
+// routes.
+//
+// An upload is authorized by the bearer token. A registered kiosk also signs
+// the request like any other (lib/kiosk-protocol.ts) with the key an admin
+// enrolled it with; batch.deviceId is then the kiosk's id, and only such
+// uploads may carry what needs a trusted device (offline face events).
+
+import type { LivenessChallengeStep, LivenessFrame } from './liveness'
+
+export const SYNC_MAX_BATCH_SIZE = 200
+
+export type SyncEntity = 'attendance' | 'user' | 'settings' | 'face_event'
+export type SyncOperation = 'create' | 'update' | 'delete'
+export type SyncItemStatus = 'applied' | 'duplicate' | 'conflict' | 'rejected'
+
+export interface SyncMutation {
+  // Generated on the client when the change is queued and reused on every
+  // retry, so the server applies each change at most once
+  idempotencyKey: string
+  entity: SyncEntity
+  operation: SyncOperation
+  entityId: string
+  // Server version (updated_at) the client last saw, for update conflicts
+  baseVersion?: string
+  data: Record<string, any>
+  clientTimestamp: string
+}
+
+export interface SyncBatch {
+  batchId: string
+  deviceId: string
+  createdAt: string
+  mutations: SyncMutation[]
+}
+
+export interface SyncItemResult {
+  idempotencyKey: string
+  entityId: string
+  status: SyncItemStatus
+  record?: Record<string, any>
+  serverRecord?: Record<string, any>
+  error?: string
+  errorCode?: string
+  // Rejected by a transient failure; resubmit the same mutation later
+  retryable?: boolean
+}
+
+export interface SyncBatchResponse {
+  batchId: string
+  // Highest ledger position covered by this batch; null when nothing was recorded
+  cursor: string | null
+  results: SyncItemResult[]
+  summary: Record<SyncItemStatus, number>
+}
+
+// Entities offline clients mirror through the change feed (GET /api/sync/changes)
+export const SYNC_FEED_ENTITIES = ['users', 'face_embeddings', 'shifts', 'schedule_assignments', 'settings'] as const
+export type SyncFeedEntity = typeof SYNC_FEED_ENTITIES[number]
+
+export const SYNC_FEED_PAGE_SIZE = 200
+export const SYNC_FEED_MAX_PAGE_SIZE = 1000
+
+export interface SyncChange {
+  seq: string
+  operation: 'upsert' | 'delete'
+  id: string
+  // Current server copy for upserts; tombstones carry only the id
+  record?: Record<string, any>
+}
+
+export interface SyncChangePage {
+  entity: SyncFeedEntity
+  changes: SyncChange[]
+  // Pass back as ?cursor= for the next page; "0" starts from the beginning
+  cursor: string
+  hasMore: boolean
+}
+
+// Face check-in a kiosk matched locally while offline; uploaded as a
+// face_event mutation and re-verified by the server
+export interface OfflineFaceEvent {
+  id: string
+  siteId: string
+  type: 'check-in' | 'check-out' | 'break-start' | 'break-end'
+  // Device clock at capture
+  capturedAt: string
+  // Device clock minus server clock, as last measured while online
+  clockOffsetMs: number
+  descriptor: number[]
+  // Evidence from a locally generated challenge, re-evaluated on upload
+  liveness: {
+    steps: LivenessChallengeStep[]
+    frames: LivenessFrame[]
+    passed: boolean
+    reason?: string
+  }
+  localMatch: {
+    userId: string
+    confidence: number
+    margin: number | null
+  }
+  location?: { latitude: number; longitude: number; accuracy?: number } | null
+}
+
+export type OfflineFaceVerdict = 'accepted' | 'rematched' | 'rejected'
+
+export interface OfflineFaceCacheEntry {
+  id: string
+  userId: string
+  userName: string
+  department?: string
+  embedding: number[]
+}
+
+// Embeddings a kiosk may match against while offline, for one site
+export interface OfflineFaceCache {
+  siteId: string
+  siteName: string
+  generatedAt: string
+  // Server clock when the cache was built; the kiosk derives its clock offset from it
+  serverTime: string
+  // The kiosk stops matching offline after this
+  expiresAt: string
+  entries: OfflineFaceCacheEntry[]
+  // Calibrated per-user thresholds (see calibrateUserThreshold)
+  thresholds: Record<string, number>
+}
+
+// Why a queued change stopped being retried and moved to the dead-letter store
+export type SyncDeadLetterReason =
+  | 'max_retries' // Transient failures until retries ran out
+  | 'rejected' // The server refused the change for good
+  | 'conflict' // The server copy diverged and no merge applies
+  | 'request_rejected' // The whole upload was refused with a 4xx
+
+export interface SyncPayloadDiff {
+  field: string
+  local: any
+  server: any
+}
+
+export interface SyncDeviceInfo {
+  deviceId: string
+  userAgent?: string
+  platform?: string
+  language?: string
+}
+
+// A dead letter as a device reports it to POST /api/sync/dead-letters
+export interface SyncDeadLetterReport {
+  mutation: SyncMutation
+  reason: SyncDeadLetterReason
+  lastError: string
+  errorCode?: string
+  httpStatus?: number
+  retryCount: number
+  failedAt: string
+  // Fields where the change differs from the server copy, when one came back
+  payloadDiff: SyncPayloadDiff[] | null
+  device: SyncDeviceInfo
+}
+
+export type SyncDeadLetterStatus = 'open' | 'resolved' | 'discarded'
+
+// Reported dead letters an admin has closed; the device drops its copies
+export interface SyncDeadLetterAck {
+  received: number
+  closed: Array<{ idempotencyKey: string; status: Exclude<SyncDeadLetterStatus, 'open'> }>
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same
+ */
+export function stableStringify(value: any): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null'
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString())
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item === undefined ? null : item)).join(',')}]`
+  }
+  const entries = Object.keys(value)
+    .filter(key => value[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+  return `{${entries.join(',')}}`
+}
+
+/**
+ * Fields of a mutation's data that differ from the server copy. Server rows
+ * are snake_case, so each field is looked up under both spellings.
+ */
+export function diffSyncPayload(data: Record<string, any>, serverRecord: Record<string, any>): SyncPayloadDiff[] {
+  const diff: SyncPayloadDiff[] = []
+
+  for (const field of Object.keys(data)) {
+    const snake = field.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`)
+    const serverValue = field in serverRecord ? serverRecord[field] : serverRecord[snake]
+    const local = data[field]
+
+    if (local === undefined) continue
+    if (typeof local === 'string' && typeof serverValue === 'string' && !isNaN(Date.parse(local)) && Date.parse(local) === Date.parse(serverValue)) {
+      continue
+    }
+    if (stableStringify(local) !== stableStringify(serverValue ?? null)) {
+      diff.push({ field, local, server: serverValue ?? null })
+    }
+  }
+
+  return diff
+}
+
+/**
+ * Turn a queued local change into a mutation. The queue item id is the
+ * idempotency key, so retries of the same item are recognised server-side.
+ */
+export function toSyncMutation(item: {
+  id: string
+  type: SyncEntity
+  data: any
+  timestamp: Date | string
+}): SyncMutation {
+  const clientTimestamp = new Date(item.timestamp).toISOString()
+
+  if (item.type === 'attendance') {
+    const record = item.data
+    return {
+      idempotencyKey: item.id,
+      entity: 'attendance',
+      operation: 'create',
+      entityId: record.id,
+      // Server copy this record was last merged with; a newer server copy
+      // is reported as a conflict instead of being overwritten
+      baseVersion: record.version?.baseRevision ?? undefined,
+      data: {
+        userId: record.userId,
+        timestamp: new Date(record.timestamp).toISOString(),
+        type: record.type,
+        location: record.location,
+        // Inline captures stay on the device; only uploaded photo URLs travel
+        photoUrl: typeof record.photo === 'string' && !record.photo.startsWith('data:') ? record.photo : undefined,
+        notes: record.notes,
+        versionVector: record.version?.vector
+      },
+      clientTimestamp
+    }
+  }
+
+  if (item.type === 'face_event') {
+    const event = item.data as OfflineFaceEvent
+    return {
+      idempotencyKey: item.id,
+      entity: 'face_event',
+      operation: 'create',
+      entityId: event.id,
+      data: event,
+      clientTimestamp
+    }
+  }
+
+  if (item.type === 'user') {
+    const user = item.data
+    return {
+      idempotencyKey: item.id,
+      entity: 'user',
+      operation: 'update',
+      entityId: user.id,
+      baseVersion: user.updatedAt ? new Date(user.updatedAt).toISOString() : undefined,
+      data: {
+        name: user.name,
+        phone: user.phone,
+        department: user.department
+      },
+      clientTimestamp
+    }
+  }
+
+  return {
+    idempotencyKey: item.id,
+    entity: item.type,
+    operation: 'update',
+    entityId: item.data?.id || item.id,
+    data: item.data || {},
+    clientTimestamp
+  }
+}
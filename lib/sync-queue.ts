@@ -1,6 +1,10 @@
 import { storageService } from './storage'
-import { storageManager, SyncQueueItem, AttendanceRecord, User, AppSettings } from './db'
-import { supabase, isOnline } from './supabase'
+import { SyncQueueItem, AttendanceRecord, DeadLetterItem } from './db'
+import { isOnline } from './supabase'
+import { ApiClient } from './api-client'
+import { toSyncMutation, diffSyncPayload, SYNC_MAX_BATCH_SIZE } from './sync-protocol'
+import type { SyncItemStatus, SyncDeadLetterReason, SyncDeviceInfo } from './sync-protocol'
+import { attendanceReconciler } from './attendance-reconciler'
 
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
 // Sync queue configuration interface
@@ -9,7 +13,7 @@ interface SyncQueueConfig {
   retryDelay?: number // Base delay in milliseconds
   maxRetryDelay?: number // Maximum delay in milliseconds
   retryBackoffFactor?: number // Exponential backoff factor
-  batchSize?: number // Number of items to process in a batch
+  batchSize?: number // Number of items uploaded per /api/sync request
   syncInterval?: number // Interval in milliseconds to check for sync
   enablePriority?: boolean // Whether to prioritize items
 }
@@ -18,8 +22,15 @@ interface SyncQueueConfig {
 interface SyncResult {
   success: boolean
   itemId: string
+  status?: SyncItemStatus
   error?: string
+  errorCode?: string
+  httpStatus?: number // Set when the whole request was refused
+  retryable?: boolean
   retryCount: number
+  serverRecord?: Record<string, any>
+  // The reconciler took over an attendance conflict; nothing left to retry
+  reconciled?: boolean
 }
 
 // Sync statistics interface
@@ -37,17 +48,22 @@ const DEFAULT_SYNC_QUEUE_CONFIG: Required<SyncQueueConfig> = {
   retryDelay: 1000, // 1 second
   maxRetryDelay: 300000, // 5 minutes
   retryBackoffFactor: 2,
-  batchSize: 5,
+  batchSize: 100,
   syncInterval: 30000, // 30 seconds
   enablePriority: true,
 }
 
+// Request failures worth retrying; any other 4xx means the upload itself is wrong
+const RETRYABLE_HTTP_STATUSES = [401, 408, 429]
+
 // Sync Queue class
 export class SyncQueue {
   private config: Required<SyncQueueConfig>
   private isProcessing: boolean = false
   private syncIntervalId: NodeJS.Timeout | null = null
   private eventListeners: Map<string, Function[]> = new Map()
+  // Server ledger position reached by the last uploaded batch
+  private lastCursor: string | null = null
 
   constructor(config: SyncQueueConfig = {}) {
     this.config = { ...DEFAULT_SYNC_QUEUE_CONFIG, ...config }
@@ -60,6 +76,26 @@ export class SyncQueue {
       window.addEventListener('online', () => this.handleOnline())
       window.addEventListener('offline', () => this.handleOffline())
     }
+
+    // Background sync runs in the service worker, which asks an open page
+    // for the bearer token and, on a registered kiosk, to sign its uploads
+    if (typeof navigator !== 'undefined' && 'serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', (event) => {
+        const port = event.ports[0]
+        if (!port) return
+
+        if (event.data?.type === 'GET_SYNC_CREDENTIALS') {
+          port.postMessage({ type: 'SYNC_CREDENTIALS', payload: ApiClient.getSyncCredentials() })
+        } else if (event.data?.type === 'SIGN_SYNC_REQUEST') {
+          ApiClient.signRequest(event.data.payload)
+            .then(headers => port.postMessage({ type: 'SIGNED_SYNC_REQUEST', payload: { headers } }))
+            .catch(error => {
+              logger.error('Failed to sign sync request for the service worker', error as Error)
+              port.postMessage({ type: 'SIGNED_SYNC_REQUEST', payload: null })
+            })
+        }
+      })
+    }
   }
 
   // Event handling
@@ -191,42 +227,73 @@ export class SyncQueue {
     this.emit('syncStarted')
     
     try {
-      const items = await this.getPrioritizedItems()
-      const batchSize = Math.min(this.config.batchSize, items.length)
+      // Items left at max retries by older versions of the queue
+      let deadLettered = await this.sweepExhaustedItems()
+
+      const items = (await this.getPrioritizedItems()).filter(item => item.retryCount < this.config.maxRetries)
+      const batchSize = Math.min(this.config.batchSize, SYNC_MAX_BATCH_SIZE, items.length)
       
       if (batchSize === 0) {
+        if (deadLettered > 0) {
+          this.reportDeadLettersInBackground()
+        }
         this.emit('syncCompleted', { processed: 0, successful: 0, failed: 0 })
         return
       }
       
       const batch = items.slice(0, batchSize)
-      const results: SyncResult[] = []
+      const results = await this.syncBatch(batch)
+      let scheduleRetry = false
       
       for (const item of batch) {
-        const result = await this.processItem(item)
-        results.push(result)
+        const result = results.find(r => r.itemId === item.id)!
         
-        // Update item in queue
-        if (result.success) {
+        if (result.success || result.reconciled) {
           await this.removeItem(item.id)
-        } else {
-          // Update retry count
-          item.retryCount += 1
-          
-          if (item.retryCount < this.config.maxRetries) {
-            // Schedule retry with exponential backoff
-            setTimeout(() => {
-              this.processQueue()
-            }, this.calculateRetryDelay(item.retryCount))
-          } else {
-            // Max retries reached, emit error event
-            this.emit('maxRetriesReached', item)
-          }
-          
+          continue
+        }
+        
+        item.lastError = result.error
+        
+        if (result.status === 'conflict' || (result.status === 'rejected' && !result.retryable)) {
+          // Retrying can't change the outcome; park the change for an admin
+          this.emit(result.status === 'conflict' ? 'itemConflict' : 'itemRejected', { item, result })
+          await this.deadLetter(item, result.status === 'conflict' ? 'conflict' : 'rejected', result)
+          deadLettered++
+          continue
+        }
+        
+        if (result.httpStatus && !result.retryable) {
+          await this.deadLetter(item, 'request_rejected', result)
+          deadLettered++
+          continue
+        }
+        
+        item.retryCount += 1
+        
+        if (item.retryCount < this.config.maxRetries) {
+          scheduleRetry = true
           await this.updateItem(item)
+        } else {
+          // Max retries reached, emit error event
+          this.emit('maxRetriesReached', item)
+          await this.deadLetter(item, 'max_retries', result)
+          deadLettered++
         }
       }
       
+      if (deadLettered > 0) {
+        this.reportDeadLettersInBackground()
+      }
+      
+      if (scheduleRetry) {
+        // Schedule retry with exponential backoff
+        const retryCount = Math.min(...batch.map(item => item.retryCount).filter(count => count > 0))
+        setTimeout(() => {
+          this.processQueue()
+        }, this.calculateRetryDelay(retryCount))
+      }
+      
       const successful = results.filter(r => r.success).length
       const failed = results.filter(r => !r.success).length
       
@@ -234,11 +301,12 @@ export class SyncQueue {
         processed: results.length,
         successful,
         failed,
+        cursor: this.lastCursor,
         results,
       })
       
-      // If there are more items, process next batch
-      if (items.length > batchSize) {
+      // If the server answered and there are more items, process next batch
+      if (items.length > batchSize && results.some(r => r.status)) {
         setTimeout(() => this.processQueue(), 1000) // Small delay between batches
       } else {
         this.emit('syncCompleted', {
@@ -255,144 +323,170 @@ export class SyncQueue {
     }
   }
 
-  private async processItem(item: SyncQueueItem): Promise<SyncResult> {
+  // Upload a batch in one request and map the server's per-item outcome
+  private async syncBatch(batch: SyncQueueItem[]): Promise<SyncResult[]> {
+    let response
     try {
-      switch (item.type) {
-        case 'attendance':
-          return await this.syncAttendanceRecord(item)
-        case 'user':
-          return await this.syncUser(item)
-        case 'settings':
-          return await this.syncSettings(item)
-        default:
-          return {
-            success: false,
-            itemId: item.id,
-            error: `Unknown item type: ${item.type}`,
-            retryCount: item.retryCount,
-          }
-      }
+      response = await ApiClient.syncBatch(batch.map(item => toSyncMutation(item)))
     } catch (error) {
-      return {
+      // The request itself failed. Network, auth and server errors are
+      // retried; any other 4xx would fail the same way every time.
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      const httpStatus = (error as { status?: number })?.status
+      const retryable = !httpStatus || httpStatus >= 500 || RETRYABLE_HTTP_STATUSES.includes(httpStatus)
+      return batch.map(item => ({
         success: false,
         itemId: item.id,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: message,
+        errorCode: (error as { errorCode?: string })?.errorCode,
+        httpStatus,
+        retryable,
         retryCount: item.retryCount,
-      }
+      }))
     }
-  }
-
-  private async syncAttendanceRecord(item: SyncQueueItem): Promise<SyncResult> {
-    const record = item.data as AttendanceRecord
     
-    try {
-      // Sync with Supabase
-      const { data, error } = await supabase
-        .from('attendance')
-        .upsert({
-          id: record.id,
-          user_id: record.userId,
-          timestamp: record.timestamp.toISOString(),
-          type: record.type,
-          location: record.location,
-          photo: record.photo,
-          synced: true,
-        })
-        .select()
-        .single()
+    if (response.cursor) {
+      this.lastCursor = response.cursor
+    }
+    
+    const outcomes = new Map(response.results.map(result => [result.idempotencyKey, result]))
+    const results: SyncResult[] = []
+    
+    for (const item of batch) {
+      const outcome = outcomes.get(item.id)
       
-      if (error) {
-        throw error
+      if (!outcome) {
+        results.push({ success: false, itemId: item.id, error: 'Missing result', retryable: true, retryCount: item.retryCount })
+        continue
       }
       
-      // Update local record to mark as synced
-      record.synced = true
-      await storageService.saveAttendanceRecord(record)
+      const success = outcome.status === 'applied' || outcome.status === 'duplicate'
+      let reconciled = false
       
-      return {
-        success: true,
-        itemId: item.id,
-        retryCount: item.retryCount,
+      if (success && item.type === 'attendance') {
+        // Update local record to mark as synced
+        await attendanceReconciler.recordApplied(item.data as AttendanceRecord, outcome.record)
+      } else if (outcome.status === 'conflict' && item.type === 'attendance' && outcome.serverRecord) {
+        // Merged records are saved unsynced and go out with the next push;
+        // manual merges wait in ConflictModal
+        await attendanceReconciler.reconcile(item.data as AttendanceRecord, outcome.serverRecord)
+        reconciled = true
       }
-    } catch (error) {
-      return {
-        success: false,
+      
+      results.push({
+        success,
         itemId: item.id,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        status: outcome.status,
+        error: outcome.status === 'conflict' ? 'Changed on the server' : outcome.error,
+        errorCode: outcome.errorCode,
+        retryable: outcome.retryable,
         retryCount: item.retryCount,
-      }
+        serverRecord: outcome.serverRecord,
+        reconciled,
+      })
     }
+    
+    return results
   }
 
-  private async syncUser(item: SyncQueueItem): Promise<SyncResult> {
-    const user = item.data as User
-    
-    try {
-      // Sync with Supabase
-      const { data, error } = await supabase
-        .from('users')
-        .upsert({
-          id: user.id,
-          name: user.name,
-          email: user.email,
-          role: user.role,
-          department: user.department,
-          photo: user.photo,
-        })
-        .select()
-        .single()
-      
-      if (error) {
-        throw error
-      }
-      
-      return {
-        success: true,
-        itemId: item.id,
-        retryCount: item.retryCount,
-      }
-    } catch (error) {
-      return {
-        success: false,
-        itemId: item.id,
-        error: error instanceof Error ? error.message : 'Unknown error',
-        retryCount: item.retryCount,
+  getLastCursor(): string | null {
+    return this.lastCursor
+  }
+
+  // Dead letters
+  // Changes that stopped being retried stay on the device until an admin
+  // retries or discards them from the monitoring console
+  async getDeadLetters(): Promise<DeadLetterItem[]> {
+    return await storageService.getDeadLetters()
+  }
+
+  /**
+   * Send local dead letters to the server. Entries an admin already closed
+   * come back in the acknowledgement and are dropped here.
+   */
+  async reportDeadLetters(): Promise<number> {
+    const deadLetters = await this.getDeadLetters()
+    if (deadLetters.length === 0) {
+      return 0
+    }
+
+    const response = await ApiClient.reportSyncDeadLetters(deadLetters.map(deadLetter => ({
+      mutation: toSyncMutation(deadLetter.item),
+      reason: deadLetter.reason,
+      lastError: deadLetter.lastError,
+      errorCode: deadLetter.errorCode,
+      httpStatus: deadLetter.httpStatus,
+      retryCount: deadLetter.item.retryCount,
+      failedAt: new Date(deadLetter.failedAt).toISOString(),
+      payloadDiff: deadLetter.payloadDiff,
+      device: deadLetter.device,
+    })))
+
+    const closed = new Set(response.closed.map(entry => entry.idempotencyKey))
+    const reportedAt = new Date()
+
+    for (const deadLetter of deadLetters) {
+      if (closed.has(deadLetter.id)) {
+        await storageService.removeDeadLetter(deadLetter.id)
+      } else {
+        await storageService.updateDeadLetter({ ...deadLetter, reportedAt })
       }
     }
+
+    this.emit('deadLettersReported', { reported: deadLetters.length, closed: closed.size })
+    return deadLetters.length
   }
 
-  private async syncSettings(item: SyncQueueItem): Promise<SyncResult> {
-    const settings = item.data as AppSettings
-    
-    try {
-      // Sync with Supabase (assuming there's a settings table)
-      const { data, error } = await supabase
-        .from('user_settings')
-        .upsert({
-          id: settings.id,
-          sync_interval: settings.syncInterval,
-          max_retries: settings.maxRetries,
-          offline_mode: settings.offlineMode,
-        })
-        .select()
-        .single()
-      
-      if (error) {
-        throw error
-      }
-      
-      return {
-        success: true,
-        itemId: item.id,
-        retryCount: item.retryCount,
-      }
-    } catch (error) {
-      return {
+  private reportDeadLettersInBackground(): void {
+    this.reportDeadLetters().catch(error =>
+      logger.error('Error reporting sync dead letters', error as Error)
+    )
+  }
+
+  private async deadLetter(item: SyncQueueItem, reason: SyncDeadLetterReason, result: SyncResult): Promise<void> {
+    const deadLetter: DeadLetterItem = {
+      id: item.id,
+      item,
+      reason,
+      lastError: result.error || 'Unknown error',
+      errorCode: result.errorCode,
+      httpStatus: result.httpStatus,
+      payloadDiff: result.serverRecord ? diffSyncPayload(toSyncMutation(item).data, result.serverRecord) : null,
+      device: this.getDeviceInfo(),
+      failedAt: new Date(),
+    }
+
+    await storageService.moveToDeadLetters(deadLetter)
+    this.emit('itemRemoved', item.id)
+    this.emit('itemDeadLettered', deadLetter)
+
+    logger.warn('Sync item moved to dead letters', {
+      id: item.id,
+      type: item.type,
+      reason,
+      error: deadLetter.lastError,
+    })
+  }
+
+  private async sweepExhaustedItems(): Promise<number> {
+    const exhausted = (await this.getItems()).filter(item => item.retryCount >= this.config.maxRetries)
+    for (const item of exhausted) {
+      await this.deadLetter(item, 'max_retries', {
         success: false,
         itemId: item.id,
-        error: error instanceof Error ? error.message : 'Unknown error',
+        error: item.lastError,
         retryCount: item.retryCount,
-      }
+      })
+    }
+    return exhausted.length
+  }
+
+  private getDeviceInfo(): SyncDeviceInfo {
+    return {
+      deviceId: ApiClient.getSyncDeviceId(),
+      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+      platform: typeof navigator !== 'undefined' ? navigator.platform : undefined,
+      language: typeof navigator !== 'undefined' ? navigator.language : undefined,
     }
   }
 
@@ -418,6 +512,8 @@ export class SyncQueue {
   private handleOnline(): void {
     this.emit('online')
     this.processQueue()
+    // Pick up admin decisions on dead letters reported while offline
+    this.reportDeadLettersInBackground()
   }
 
   private handleOffline(): void {
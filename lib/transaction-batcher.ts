@@ -1,11 +1,21 @@
+import type { IDBPDatabase, IDBPObjectStore, IDBPTransaction } from 'idb'
 import { logger, logApiError, logApiRequest } from '@/lib/logger'
+import { DB_STORES, storageManager } from '@/lib/db'
+import { storageQuotaManager } from '@/lib/storage-quota-manager'
 
 /**
  * Transaction Batcher
  * Provides optimized transaction batching for database operations
  * Optimized for DS223J hardware constraints
+ *
+ * Every operation of a batch, whatever object store it targets, runs in a
+ * single IndexedDB transaction, so a batch is either fully written or
+ * rolled back.
  */
 
+// Rolled-back batches kept for getRollbacks()
+const MAX_ROLLBACK_HISTORY = 20;
+
 export interface TransactionBatcherOptions {
   // Batching options
   enableBatching?: boolean;
@@ -22,6 +32,10 @@ export interface TransactionBatcherOptions {
   // Memory options
   enableMemoryOptimization?: boolean;
   maxMemoryUsage?: number; // MB
+
+  // Storage options
+  stores?: string[]; // Object stores operations may target (defaults to DB_STORES)
+  getDatabase?: () => Promise<IDBPDatabase<any>>; // Defaults to the app database; Node tests pass one opened on an in-memory shim
 }
 
 export interface BatchOperation {
@@ -41,12 +55,35 @@ export interface BatchResult {
   error?: Error;
 }
 
+export interface BatchRollback {
+  stores: string[];
+  operationIds: string[];
+  failedOperationId?: string; // Missing when the commit itself failed
+  error: Error;
+  attempts: number;
+  timestamp: Date;
+}
+
+type BatchTransactionResult =
+  | { ok: true; results: any[] }
+  | { ok: false; error: Error; failedOperationId?: string };
+
+function isQuotaExceededError(error: Error | null | undefined): boolean {
+  return error?.name === 'QuotaExceededError';
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 export class TransactionBatcher {
   private options: TransactionBatcherOptions;
   private pendingOperations: BatchOperation[] = [];
-  private batchTimeoutId: number | null = null;
+  private batchTimeoutId: ReturnType<typeof setTimeout> | null = null;
   private isProcessing = false;
   private operationIdCounter = 0;
+  private rollbacks: BatchRollback[] = [];
+  private rollbackListeners: Array<(rollback: BatchRollback) => void> = [];
 
   constructor(options: TransactionBatcherOptions = {}) {
     this.options = {
@@ -103,6 +140,11 @@ export class TransactionBatcher {
     key?: any
   ): Promise<any> {
     return new Promise((resolve, reject) => {
+      if (!this.getStores().includes(store)) {
+        reject(new Error(`Unknown object store: ${store}`));
+        return;
+      }
+
       // Generate unique operation ID
       const id = this.generateOperationId();
       
@@ -126,7 +168,7 @@ export class TransactionBatcher {
         this.processBatch();
       } else if (this.batchTimeoutId === null) {
         // Set timeout to process batch
-        this.batchTimeoutId = window.setTimeout(() => {
+        this.batchTimeoutId = setTimeout(() => {
           this.processBatch();
         }, this.options.batchTimeout);
       }
@@ -166,14 +208,8 @@ export class TransactionBatcher {
     const operations = [...this.pendingOperations];
     this.pendingOperations = [];
     
-    // Group operations by store
-    const operationsByStore = this.groupOperationsByStore(operations);
-    
     try {
-      // Process each store's operations
-      for (const [store, storeOperations] of Object.entries(operationsByStore)) {
-        await this.processStoreOperations(store, storeOperations);
-      }
+      await this.processOperations(operations);
     } catch (error) {
       logger.error('Error processing batch', error as Error);
       
@@ -186,295 +222,183 @@ export class TransactionBatcher {
     } finally {
       this.isProcessing = false;
     }
-  }
 
-  /**
-   * Group operations by store
-   */
-  private groupOperationsByStore(operations: BatchOperation[]): Record<string, BatchOperation[]> {
-    const operationsByStore: Record<string, BatchOperation[]> = {};
-    
-    for (const operation of operations) {
-      if (!operationsByStore[operation.store]) {
-        operationsByStore[operation.store] = [];
-      }
-      operationsByStore[operation.store].push(operation);
+    // Operations queued while this batch was running
+    if (this.pendingOperations.length > 0) {
+      this.processBatch();
     }
-    
-    return operationsByStore;
   }
 
   /**
-   * Process operations for a specific store
+   * Wait for pending operations to be written
    */
-  private async processStoreOperations(store: string, operations: BatchOperation[]): Promise<void> {
-    // Separate operations by type
-    const addOperations = operations.filter(op => op.type === 'add');
-    const putOperations = operations.filter(op => op.type === 'put');
-    const deleteOperations = operations.filter(op => op.type === 'delete');
-    const getOperations = operations.filter(op => op.type === 'get');
-    
-    const results: BatchResult[] = [];
-    
-    // Process add operations
-    if (addOperations.length > 0) {
-      const addResults = await this.processAddOperations(store, addOperations);
-      results.push(...addResults);
-    }
-    
-    // Process put operations
-    if (putOperations.length > 0) {
-      const putResults = await this.processPutOperations(store, putOperations);
-      results.push(...putResults);
-    }
-    
-    // Process delete operations
-    if (deleteOperations.length > 0) {
-      const deleteResults = await this.processDeleteOperations(store, deleteOperations);
-      results.push(...deleteResults);
-    }
-    
-    // Process get operations
-    if (getOperations.length > 0) {
-      const getResults = await this.processGetOperations(store, getOperations);
-      results.push(...getResults);
-    }
-    
-    // Resolve/reject operations based on results
-    for (const result of results) {
-      const operation = operations.find(op => op.id === result.id);
-      if (!operation) continue;
-      
-      if (result.success) {
-        if (operation.resolve) {
-          operation.resolve(result.result);
-        }
-      } else {
-        if (operation.reject) {
-          operation.reject(result.error || new Error('Operation failed'));
-        }
+  async flush(): Promise<void> {
+    while (this.pendingOperations.length > 0 || this.isProcessing) {
+      await this.processBatch();
+      if (this.isProcessing) {
+        await delay(10);
       }
     }
   }
 
   /**
-   * Process add operations
+   * Process a batch in a single transaction over every store it touches.
+   * The batch is all-or-nothing: if any operation fails every operation in
+   * it is rejected and the rollback is reported. Quota failures are retried
+   * once storageQuotaManager has had a chance to free space.
    */
-  private async processAddOperations(store: string, operations: BatchOperation[]): Promise<BatchResult[]> {
-    const results: BatchResult[] = [];
-    
-    try {
-      // This is a placeholder implementation
-      // In a real application, you would use IndexedDB transactions to add the records
-      
-      for (const operation of operations) {
-        try {
-          // Simulate adding the record
-          const result = await this.simulateAdd(store, operation.data);
-          results.push({
-            id: operation.id,
-            success: true,
-            result,
-          });
-        } catch (error) {
-          results.push({
-            id: operation.id,
-            success: false,
-            error: error as Error,
-          });
-        }
+  private async processOperations(operations: BatchOperation[]): Promise<void> {
+    const stores = [...new Set(operations.map(operation => operation.store))];
+    const maxAttempts = this.options.enableRetry ? this.options.maxRetries! + 1 : 1;
+    let attempt = 0;
+
+    while (true) {
+      attempt++;
+      const outcome = await this.runTransaction(stores, operations);
+
+      if (outcome.ok) {
+        operations.forEach((operation, index) => operation.resolve?.(outcome.results[index]));
+        return;
       }
-    } catch (error) {
-      // If the entire batch fails, mark all operations as failed
-      for (const operation of operations) {
-        results.push({
-          id: operation.id,
-          success: false,
-          error: error as Error,
+
+      if (isQuotaExceededError(outcome.error) && attempt < maxAttempts && await this.freeQuotaFor(operations)) {
+        logger.warn(`Storage quota exceeded writing to ${stores.join(', ')}, retrying batch`, {
+          attempt,
+          operations: operations.length,
         });
+        await delay(this.options.retryDelay! * attempt);
+        continue;
       }
+
+      this.reportRollback(stores, operations, outcome.error, outcome.failedOperationId, attempt);
+      return;
     }
-    
-    return results;
   }
 
   /**
-   * Process put operations
+   * Issue every operation in one transaction and wait for it to commit.
+   * Results are only returned once the transaction is durable.
    */
-  private async processPutOperations(store: string, operations: BatchOperation[]): Promise<BatchResult[]> {
-    const results: BatchResult[] = [];
-    
+  private async runTransaction(stores: string[], operations: BatchOperation[]): Promise<BatchTransactionResult> {
+    let transaction: IDBPTransaction<any, string[], IDBTransactionMode> | null = null;
+    let failedOperationId: string | undefined;
+
     try {
-      // This is a placeholder implementation
-      // In a real application, you would use IndexedDB transactions to put the records
-      
-      for (const operation of operations) {
-        try {
-          // Simulate putting the record
-          const result = await this.simulatePut(store, operation.data, operation.key);
-          results.push({
-            id: operation.id,
-            success: true,
-            result,
-          });
-        } catch (error) {
-          results.push({
-            id: operation.id,
-            success: false,
-            error: error as Error,
-          });
-        }
-      }
+      const db = await this.getDatabase();
+      const readOnly = operations.every(op => op.type === 'get');
+      transaction = db.transaction(stores, readOnly ? 'readonly' : 'readwrite');
+      // Rejections are read below; don't let an abort go unhandled meanwhile
+      transaction.done.catch(() => {});
+
+      const requests = operations.map(operation =>
+        this.issueOperation(transaction!.objectStore(operation.store), operation).catch(error => {
+          failedOperationId = failedOperationId || operation.id;
+          throw error;
+        })
+      );
+
+      const results = await Promise.all(requests);
+      await transaction.done;
+
+      return { ok: true, results };
     } catch (error) {
-      // If the entire batch fails, mark all operations as failed
-      for (const operation of operations) {
-        results.push({
-          id: operation.id,
-          success: false,
-          error: error as Error,
-        });
+      // A failed request aborts the transaction on its own; this covers
+      // synchronous throws (e.g. a DataError) where it is still active
+      try {
+        transaction?.abort();
+      } catch {
+        // Already aborted or finished
       }
+
+      // The transaction's own error explains aborts reported to later requests
+      return {
+        ok: false,
+        error: (transaction?.error as Error | null) || (error as Error),
+        failedOperationId,
+      };
     }
-    
-    return results;
   }
 
   /**
-   * Process delete operations
+   * Issue a single request against the store
    */
-  private async processDeleteOperations(store: string, operations: BatchOperation[]): Promise<BatchResult[]> {
-    const results: BatchResult[] = [];
-    
-    try {
-      // This is a placeholder implementation
-      // In a real application, you would use IndexedDB transactions to delete the records
-      
-      for (const operation of operations) {
-        try {
-          // Simulate deleting the record
-          const result = await this.simulateDelete(store, operation.key);
-          results.push({
-            id: operation.id,
-            success: true,
-            result,
-          });
-        } catch (error) {
-          results.push({
-            id: operation.id,
-            success: false,
-            error: error as Error,
-          });
-        }
-      }
-    } catch (error) {
-      // If the entire batch fails, mark all operations as failed
-      for (const operation of operations) {
-        results.push({
-          id: operation.id,
-          success: false,
-          error: error as Error,
-        });
-      }
+  private async issueOperation(objectStore: IDBPObjectStore<any, string[], string, IDBTransactionMode>, operation: BatchOperation): Promise<any> {
+    switch (operation.type) {
+      case 'add':
+        return operation.key === undefined
+          ? objectStore.add!(operation.data)
+          : objectStore.add!(operation.data, operation.key);
+      case 'put':
+        return operation.key === undefined
+          ? objectStore.put!(operation.data)
+          : objectStore.put!(operation.data, operation.key);
+      case 'delete':
+        return objectStore.delete!(operation.key);
+      case 'get':
+        return objectStore.get(operation.key);
+      default:
+        throw new Error(`Unsupported operation type: ${(operation as BatchOperation).type}`);
     }
-    
-    return results;
   }
 
   /**
-   * Process get operations
+   * Ask storageQuotaManager to make room for a batch. Returns false when no
+   * more space can be obtained, in which case retrying is pointless.
    */
-  private async processGetOperations(store: string, operations: BatchOperation[]): Promise<BatchResult[]> {
-    const results: BatchResult[] = [];
-    
+  private async freeQuotaFor(operations: BatchOperation[]): Promise<boolean> {
     try {
-      // This is a placeholder implementation
-      // In a real application, you would use IndexedDB transactions to get the records
-      
-      for (const operation of operations) {
-        try {
-          // Simulate getting the record
-          const result = await this.simulateGet(store, operation.key);
-          results.push({
-            id: operation.id,
-            success: true,
-            result,
-          });
-        } catch (error) {
-          results.push({
-            id: operation.id,
-            success: false,
-            error: error as Error,
-          });
-        }
-      }
+      await storageQuotaManager.forceCleanup();
+      const writes = operations.filter(op => op.type !== 'get').map(op => op.data);
+      return await storageQuotaManager.requestQuota(storageQuotaManager.estimateStorageUsage(writes));
     } catch (error) {
-      // If the entire batch fails, mark all operations as failed
-      for (const operation of operations) {
-        results.push({
-          id: operation.id,
-          success: false,
-          error: error as Error,
-        });
-      }
+      logger.error('Error freeing storage quota', error as Error);
+      return false;
     }
-    
-    return results;
   }
 
   /**
-   * Simulate add operation
+   * Reject every operation in a rolled-back batch and notify listeners
    */
-  private async simulateAdd(store: string, data: any): Promise<any> {
-    // This is a placeholder implementation
-    // In a real application, you would use IndexedDB to add the record
-    
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 10));
-    
-    // Return a mock result
-    return { id: `mock_${Date.now()}`, success: true };
-  }
+  private reportRollback(
+    stores: string[],
+    operations: BatchOperation[],
+    error: Error,
+    failedOperationId: string | undefined,
+    attempts: number
+  ): void {
+    const rollback: BatchRollback = {
+      stores,
+      operationIds: operations.map(op => op.id),
+      failedOperationId,
+      error,
+      attempts,
+      timestamp: new Date(),
+    };
 
-  /**
-   * Simulate put operation
-   */
-  private async simulatePut(store: string, data: any, key?: any): Promise<any> {
-    // This is a placeholder implementation
-    // In a real application, you would use IndexedDB to put the record
-    
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 10));
-    
-    // Return a mock result
-    return { id: key || `mock_${Date.now()}`, success: true };
-  }
+    this.rollbacks.push(rollback);
+    if (this.rollbacks.length > MAX_ROLLBACK_HISTORY) {
+      this.rollbacks.shift();
+    }
 
-  /**
-   * Simulate delete operation
-   */
-  private async simulateDelete(store: string, key: any): Promise<any> {
-    // This is a placeholder implementation
-    // In a real application, you would use IndexedDB to delete the record
-    
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 10));
-    
-    // Return a mock result
-    return { id: key, success: true };
-  }
+    logger.error(`Transaction batch on ${stores.join(', ')} rolled back`, error, {
+      operations: operations.length,
+      failedOperationId,
+      attempts,
+    });
 
-  /**
-   * Simulate get operation
-   */
-  private async simulateGet(store: string, key: any): Promise<any> {
-    // This is a placeholder implementation
-    // In a real application, you would use IndexedDB to get the record
-    
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 10));
-    
-    // Return a mock result
-    return { id: key, data: { mock: true } };
+    for (const operation of operations) {
+      operation.reject?.(operation.id === failedOperationId
+        ? error
+        : new Error(`Rolled back: batch on ${stores.join(', ')} failed (${error.message})`));
+    }
+
+    for (const listener of this.rollbackListeners) {
+      try {
+        listener(rollback);
+      } catch (error) {
+        logger.error('Error in rollback listener', error as Error);
+      }
+    }
   }
 
   /**
@@ -499,15 +423,50 @@ export class TransactionBatcher {
     isProcessing: boolean;
     maxBatchSize: number;
     batchTimeout: number;
+    rollbacks: number;
   } {
     return {
       pendingOperations: this.pendingOperations.length,
       isProcessing: this.isProcessing,
       maxBatchSize: this.options.maxBatchSize!,
       batchTimeout: this.options.batchTimeout!,
+      rollbacks: this.rollbacks.length,
     };
   }
 
+  /**
+   * Recently rolled-back batches, oldest first
+   */
+  getRollbacks(): BatchRollback[] {
+    return [...this.rollbacks];
+  }
+
+  /**
+   * Subscribe to rolled-back batches. Returns an unsubscribe function.
+   */
+  onRollback(listener: (rollback: BatchRollback) => void): () => void {
+    this.rollbackListeners.push(listener);
+    return () => {
+      this.rollbackListeners = this.rollbackListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Object stores operations may target
+   */
+  private getStores(): string[] {
+    return this.options.stores || Object.values(DB_STORES);
+  }
+
+  /**
+   * Database the batches are written to
+   */
+  private getDatabase(): Promise<IDBPDatabase<any>> {
+    return this.options.getDatabase
+      ? this.options.getDatabase()
+      : (storageManager.getDB() as Promise<IDBPDatabase<any>>);
+  }
+
   /**
    * Update options
    */
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { SYNC_MAX_BATCH_SIZE, SYNC_FEED_ENTITIES, SYNC_FEED_PAGE_SIZE, SYNC_FEED_MAX_PAGE_SIZE } from '@/lib/sync-protocol'
 
 // Common validation patterns
 const emailSchema = z.string().email('Invalid email address').max(254, 'Email too long')
@@ -113,13 +114,20 @@ export const userCreateSchema = z.object({
   employeeId: z.string().max(50, 'Employee ID too long').optional(),
   phone: z.string().regex(/^\+?[\d\s\-\(\)]+$/, 'Invalid phone number').optional(),
   address: z.string().max(500, 'Address too long').optional(),
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD').optional()
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD').optional(),
+  payGradeId: uuidSchema.optional(),
+  hourlyRate: z.number().min(0, 'Hourly rate cannot be negative').optional(),
+  bankCode: z.string().max(20, 'Bank code too long').optional(),
+  bankAccountNumber: z.string().regex(/^[\d\-]{5,50}$/, 'Invalid bank account number').optional()
 })
 
 export const userUpdateSchema = userCreateSchema.partial().omit({
   email: true
 })
 
+// Attendance PIN, used as a second factor for ambiguous face matches (null clears it)
+export const attendancePinSchema = z.string().regex(/^\d{4,8}$/, 'PIN must be 4-8 digits').nullable()
+
 export const userQuerySchema = z.object({
   role: roleSchema.optional(),
   department: z.string().optional(),
@@ -137,12 +145,55 @@ export const faceEnrollmentSchema = z.object({
   descriptor: z.array(z.number()).optional() // Face descriptor if processed client-side
 })
 
+// Measurements taken by the client when an enrollment sample is captured;
+// the server derives quality and pose diversity from them
+export const faceEnrollmentCaptureSchema = z.object({
+  detectionScore: z.number().min(0).max(1),
+  faceSize: z.number().positive(), // Shorter side of the face box, in pixels
+  frameWidth: z.number().positive(),
+  frameHeight: z.number().positive(),
+  centerOffset: z.number().min(0).max(1), // Face center distance from frame center, relative to frame size
+  brightness: z.number().min(0).max(1).optional(), // Mean luma of the face region
+  pose: z.object({
+    yaw: z.number().min(-90).max(90),
+    pitch: z.number().min(-90).max(90),
+    roll: z.number().min(-180).max(180)
+  }).optional()
+})
+
+export const faceEmbeddingEnrollmentSchema = z.object({
+  userId: uuidSchema,
+  descriptor: z.array(z.number().finite()).length(128, 'Descriptor must have 128 dimensions'),
+  quality: z.number().optional(), // Ignored; recomputed from metadata.capture
+  metadata: z.object({
+    capture: faceEnrollmentCaptureSchema
+  }).passthrough()
+})
+
+// Without an update id the whole adaptive template is removed
+export const faceTemplateRevertSchema = z.object({
+  updateId: uuidSchema.optional()
+})
+
 export const faceVerificationSchema = z.object({
   userId: uuidSchema,
   faceImage: z.string().url('Invalid image URL'),
   descriptor: z.array(z.number()).optional() // Face descriptor if processed client-side
 })
 
+const livenessFrameSchema = z.object({
+  t: z.number().min(0),
+  landmarks: z.array(z.tuple([z.number(), z.number()])).length(68, 'Expected 68 landmarks'),
+  happy: z.number().min(0).max(1).optional(),
+  texture: z.number().min(0).optional()
+})
+
+export const livenessVerifySchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  descriptor: z.array(z.number()).length(128, 'Descriptor must have 128 dimensions'),
+  frames: z.array(livenessFrameSchema).min(1, 'At least one frame is required').max(120, 'Too many frames')
+})
+
 // Settings schemas
 export const settingsSchema = z.object({
   company: z.object({
@@ -158,6 +209,9 @@ export const settingsSchema = z.object({
     allowRemoteCheckIn: z.boolean().optional(),
     requirePhoto: z.boolean().optional(),
     requireLocation: z.boolean().optional(),
+    requireKioskDevice: z.boolean().optional(),
+    adaptiveFaceTemplates: z.boolean().optional(),
+    geofencePolicy: z.enum(['reject', 'flag']).optional(),
     workingHours: z.object({
       start: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format, expected HH:MM'),
       end: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format, expected HH:MM'),
@@ -184,6 +238,295 @@ export const settingsSchema = z.object({
   }).optional()
 })
 
+// Geofencing schemas
+const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180)
+})
+
+const geofenceZoneSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('circle'),
+    name: z.string().max(100).optional(),
+    center: geoPointSchema,
+    radius: z.number().positive().max(10000) // meters
+  }),
+  z.object({
+    type: z.literal('polygon'),
+    name: z.string().max(100).optional(),
+    points: z.array(geoPointSchema).min(3, 'A polygon zone needs at least 3 points')
+  })
+])
+
+export const officeSiteSchema = z.object({
+  name: z.string().min(1, 'Site name is required').max(255),
+  code: z.string().max(50).optional(),
+  address: z.string().max(500).optional(),
+  region: z.string().max(50).optional(),
+  zones: z.array(geofenceZoneSchema).min(1, 'At least one zone is required'),
+  departments: z.array(z.string()).default([]),
+  scheduleIds: z.array(uuidSchema).default([]),
+  isDefault: z.boolean().default(false),
+  isActive: z.boolean().default(true)
+})
+
+// Leave schemas
+export const leaveRequestSchema = z.object({
+  leaveTypeId: uuidSchema,
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD'),
+  halfDay: z.boolean().optional().default(false),
+  reason: z.string().min(1, 'Reason is required').max(1000),
+  supportingDocument: z.string().max(2000).optional()
+})
+
+export const leaveResponseSchema = z.object({
+  response: z.enum(['approve', 'reject']),
+  rejectionReason: z.string().max(1000).optional()
+}).refine(data => data.response === 'approve' || !!data.rejectionReason, {
+  message: 'A rejection reason is required',
+  path: ['rejectionReason']
+})
+
+// Overtime schemas
+export const overtimeRequestSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('pre'),
+    workDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD'),
+    plannedStart: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format, expected HH:mm'),
+    plannedEnd: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format, expected HH:mm'),
+    reason: z.string().min(1, 'Reason is required').max(1000)
+  }),
+  z.object({
+    type: z.literal('post'),
+    workDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD'),
+    reason: z.string().min(1, 'Reason is required').max(1000)
+  })
+])
+
+export const overtimeResponseSchema = z.object({
+  response: z.enum(['approve', 'reject']),
+  approvedMinutes: z.number().int().min(0).max(24 * 60).optional(),
+  rejectionReason: z.string().max(1000).optional()
+}).refine(data => data.response === 'approve' || !!data.rejectionReason, {
+  message: 'A rejection reason is required',
+  path: ['rejectionReason']
+})
+
+// Holiday calendar schemas
+export const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD'),
+  name: z.string().min(1, 'Holiday name is required').max(255),
+  description: z.string().max(1000).optional(),
+  type: z.enum(['national', 'regional', 'site', 'collective_leave', 'company']).default('national'),
+  region: z.string().max(50).optional(),
+  siteId: uuidSchema.optional(),
+  isHalfDay: z.boolean().default(false),
+  halfDayEndTime: z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format, expected HH:mm').optional(),
+  isActive: z.boolean().default(true)
+}).refine(data => data.type !== 'regional' || !!data.region, {
+  message: 'Regional holidays need a region',
+  path: ['region']
+}).refine(data => data.type !== 'site' || !!data.siteId, {
+  message: 'Site holidays need a site',
+  path: ['siteId']
+}).refine(data => !data.isHalfDay || !!data.halfDayEndTime, {
+  message: 'Half-days need the time the working day ends',
+  path: ['halfDayEndTime']
+})
+
+export const holidayImportSchema = z.object({
+  format: z.enum(['ics', 'csv']),
+  content: z.string().min(1, 'Calendar content is required').max(2 * 1024 * 1024),
+  // Defaults for entries that do not state their own type or scope
+  type: z.enum(['national', 'regional', 'site', 'collective_leave', 'company']).default('national'),
+  region: z.string().max(50).optional(),
+  siteId: uuidSchema.optional()
+})
+
+// Payroll schemas
+export const payrollPeriodSchema = z.object({
+  name: z.string().min(1, 'Period name is required').max(100),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD')
+}).refine(data => data.endDate >= data.startDate, {
+  message: 'End date must be on or after the start date',
+  path: ['endDate']
+})
+
+export const payrollReopenSchema = z.object({
+  reason: z.string().min(1, 'A reason is required to reopen a closed period').max(1000)
+})
+
+export const payGradeSchema = z.object({
+  code: z.string().min(1, 'Grade code is required').max(20),
+  name: z.string().min(1, 'Grade name is required').max(100),
+  hourlyRate: z.number().min(0, 'Hourly rate cannot be negative'),
+  currency: z.string().length(3).default('IDR'),
+  isActive: z.boolean().default(true)
+})
+
+// Batch sync schemas
+// Payloads are checked per mutation by the ingest service, so one bad
+// record doesn't fail the rest of the batch
+export const syncMutationSchema = z.object({
+  idempotencyKey: z.string().min(1).max(200),
+  entity: z.enum(['attendance', 'user', 'settings', 'face_event']),
+  operation: z.enum(['create', 'update', 'delete']),
+  entityId: z.string().min(1).max(100),
+  baseVersion: z.string().datetime({ offset: true }).optional(),
+  data: z.record(z.any()).default({}),
+  clientTimestamp: z.string().datetime({ offset: true })
+})
+
+export const syncBatchSchema = z.object({
+  batchId: z.string().min(1).max(100),
+  deviceId: z.string().min(1).max(100),
+  createdAt: z.string().datetime({ offset: true }),
+  mutations: z.array(syncMutationSchema).min(1).max(SYNC_MAX_BATCH_SIZE, `At most ${SYNC_MAX_BATCH_SIZE} mutations per batch`)
+})
+
+export const syncChangesQuerySchema = z.object({
+  entity: z.enum(SYNC_FEED_ENTITIES),
+  cursor: z.string().regex(/^\d+$/, 'Invalid cursor').default('0'),
+  limit: z.coerce.number().int().min(1).max(SYNC_FEED_MAX_PAGE_SIZE).default(SYNC_FEED_PAGE_SIZE)
+})
+
+// Offline kiosk face check-in schemas
+export const offlineFaceEventSchema = z.object({
+  id: uuidSchema,
+  siteId: uuidSchema,
+  type: z.enum(['check-in', 'check-out', 'break-start', 'break-end']),
+  capturedAt: z.string().datetime({ offset: true }),
+  clockOffsetMs: z.number().int(),
+  descriptor: z.array(z.number()).length(128, 'Descriptor must have 128 dimensions'),
+  liveness: z.object({
+    steps: z.array(z.enum(['blink', 'turn_left', 'turn_right', 'smile'])).min(1).max(4),
+    frames: z.array(livenessFrameSchema).max(120, 'Too many frames'),
+    passed: z.boolean(),
+    reason: z.string().max(50).optional()
+  }),
+  localMatch: z.object({
+    userId: uuidSchema,
+    confidence: z.number().min(0).max(1),
+    margin: z.number().nullable()
+  }),
+  location: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().min(0).optional()
+  }).nullable().optional()
+})
+
+export const offlineFaceCacheQuerySchema = z.object({
+  siteId: uuidSchema
+})
+
+export const offlineFaceReviewSchema = z.object({
+  decision: z.enum(['approve', 'dismiss']),
+  // Employee to record the attendance for; defaults to the server's match
+  userId: uuidSchema.optional(),
+  notes: z.string().max(500).optional()
+})
+
+// Sync dead-letter schemas
+export const syncDeadLetterReportSchema = z.object({
+  deviceId: z.string().min(1).max(100),
+  deadLetters: z.array(z.object({
+    mutation: syncMutationSchema,
+    reason: z.enum(['max_retries', 'rejected', 'conflict', 'request_rejected']),
+    lastError: z.string().max(2000),
+    errorCode: z.string().max(50).optional(),
+    httpStatus: z.number().int().min(100).max(599).optional(),
+    retryCount: z.number().int().min(0),
+    failedAt: z.string().datetime({ offset: true }),
+    payloadDiff: z.array(z.object({
+      field: z.string().max(100),
+      local: z.any(),
+      server: z.any()
+    })).max(100).nullable(),
+    device: z.object({
+      deviceId: z.string().min(1).max(100),
+      userAgent: z.string().max(500).optional(),
+      platform: z.string().max(100).optional(),
+      language: z.string().max(35).optional()
+    })
+  })).min(1).max(SYNC_MAX_BATCH_SIZE, `At most ${SYNC_MAX_BATCH_SIZE} dead letters per report`)
+})
+
+export const syncDeadLetterRetrySchema = z.object({
+  // Edited mutation data; omit to retry the change as reported
+  data: z.record(z.any()).optional()
+})
+
+export const syncDeadLetterDiscardSchema = z.object({
+  notes: z.string().max(500).optional()
+})
+
+// Manual check-in fallback schemas
+const attendanceCredentialsSchema = z.object({
+  employeeId: z.string().trim().min(1).max(50).optional(),
+  pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4-8 digits').optional()
+})
+
+export const manualCheckinSchema = attendanceCredentialsSchema.extend({
+  type: z.enum(['check-in', 'check-out', 'break-start', 'break-end']).default('check-in'),
+  // JPEG/PNG/WebP data URL captured by the kiosk camera (about 2MB decoded)
+  photo: z.string().startsWith('data:image/', 'Photo must be an image data URL').max(2_800_000, 'Photo is too large'),
+  // Error the face check-in returned before the employee fell back
+  faceErrorCode: z.string().max(50).optional(),
+  location: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().min(0).optional()
+  }).nullable().optional(),
+  // Supervisor co-signing on the kiosk right away
+  supervisor: z.object({
+    employeeId: z.string().trim().min(1).max(50),
+    pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4-8 digits')
+  }).optional()
+}).refine(data => data.employeeId || data.pin, {
+  message: 'Employee ID or PIN is required',
+  path: ['employeeId']
+})
+
+export const manualCheckinReviewSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  notes: z.string().max(500).optional()
+})
+
+// Kiosk device schemas
+export const kioskEnrollmentCodeSchema = z.object({
+  siteId: uuidSchema,
+  label: z.string().max(100).optional(),
+  expiresInHours: z.number().int().min(1).max(168).default(24)
+})
+
+export const kioskRegistrationSchema = z.object({
+  code: z.string().min(8).max(20),
+  name: z.string().min(1, 'Device name is required').max(100),
+  publicKey: z.object({
+    kty: z.literal('EC'),
+    crv: z.literal('P-256'),
+    x: z.string().min(1),
+    y: z.string().min(1)
+  })
+})
+
+export const kioskHeartbeatSchema = z.object({
+  appVersion: z.string().max(50).optional(),
+  online: z.boolean(),
+  pendingSyncItems: z.number().int().min(0).optional(),
+  offlineCacheGeneratedAt: z.string().nullable().optional()
+})
+
+export const kioskDeviceUpdateSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  siteId: uuidSchema.optional(),
+  status: z.enum(['active', 'disabled']).optional(),
+  reason: z.string().max(500).optional()
+})
+
 // Export/Import schemas
 export const exportQuerySchema = z.object({
   type: z.enum(['attendance', 'users', 'reports']),
@@ -202,6 +545,57 @@ export const importSchema = z.object({
   validateOnly: z.boolean().optional().default(true)
 })
 
+// Data import sessions (see lib/import-sessions.ts). Cells arrive as trimmed
+// strings, with empty cells left out.
+const importDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date format, expected YYYY-MM-DD')
+const importTimeSchema = z.string().regex(/^([01]?[0-9]|2[0-3]):[0-5][0-9](:[0-5][0-9])?$/, 'Invalid time format, expected HH:mm')
+
+export const importPreviewSchema = z.object({
+  importType: z.enum(['employees', 'attendance', 'punch_log']),
+  mode: z.enum(['insert', 'update', 'upsert']).default('insert'),
+  // Punch logs: parser id (detected when omitted) and external ID source
+  format: z.string().max(50).optional(),
+  source: z.string().trim().min(1).max(50).default('default')
+})
+
+export const employeeImportRowSchema = z.object({
+  email: emailSchema,
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  role: roleSchema.optional(),
+  department: z.string().max(100).optional(),
+  position: z.string().max(100).optional(),
+  employee_id: z.string().max(50).optional(),
+  phone: z.string().max(30).optional(),
+  start_date: importDateSchema.optional()
+})
+
+export const attendanceImportRowSchema = z.object({
+  user_id: uuidSchema.optional(),
+  email: emailSchema.optional(),
+  employee_id: z.string().max(50).optional(),
+  date: importDateSchema,
+  clock_in: importTimeSchema.optional(),
+  clock_out: importTimeSchema.optional(),
+  status: z.enum(['present', 'late', 'absent', 'early_leave', 'on_leave']).optional(),
+  notes: z.string().max(500).optional()
+}).refine(data => !!(data.user_id || data.email || data.employee_id), {
+  message: 'Row needs user_id, email or employee_id',
+  path: ['email']
+}).refine(data => !!(data.clock_in || data.clock_out), {
+  message: 'Row needs clock_in or clock_out',
+  path: ['clock_in']
+})
+
+export const employeeExternalIdSchema = z.object({
+  source: z.string().trim().min(1).max(50).default('default'),
+  externalId: z.string().trim().min(1, 'Badge/PIN number is required').max(100)
+})
+
+export const importRollbackSchema = z.object({
+  // Leave rows changed since the import as they are instead of refusing
+  skipConflicts: z.boolean().optional().default(false)
+})
+
 // Report schemas
 export const reportQuerySchema = z.object({
   type: z.enum(['attendance_summary', 'user_attendance', 'department_stats', 'overtime_report']),
@@ -213,6 +607,201 @@ export const reportQuerySchema = z.object({
   format: z.enum(['json', 'csv', 'xlsx']).optional().default('json')
 })
 
+// Scheduled reports and exports (see lib/job-scheduler.ts)
+const scheduleTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm')
+
+export const scheduledJobChannelSchema = z.object({
+  type: z.string().min(1).max(30),
+  target: z.string().max(500).optional()
+})
+
+export const reportScheduleSchema = z.object({
+  enabled: z.boolean(),
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  time: scheduleTimeSchema,
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  recipients: z.array(z.string().email()).max(50).default([]),
+  channels: z.array(scheduledJobChannelSchema).max(10).optional(),
+  // Set by the scheduler; ignored on save
+  nextRun: z.string().optional()
+})
+
+const scheduledExportConfigSchema = z.object({
+  dataSource: z.enum(['employees', 'attendance', 'schedules']),
+  fields: z.array(z.string().min(1)).min(1, 'Select at least one field'),
+  filters: z.array(z.object({
+    field: z.string().min(1),
+    operator: z.enum(['equals', 'contains', 'greater_than', 'less_than', 'between', 'in']),
+    value: z.any()
+  })).default([])
+})
+
+export const scheduledJobSchema = z.object({
+  name: z.string().min(1).max(255),
+  // 'archival' jobs follow their rule's schedule and are not created directly
+  kind: z.enum(['report', 'export', 'retention']),
+  reportId: uuidSchema.optional(),
+  config: scheduledExportConfigSchema.optional(),
+  format: z.enum(['pdf', 'excel', 'csv', 'json']),
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  timeOfDay: scheduleTimeSchema,
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  recipients: z.array(z.string().email()).max(50).default([]),
+  channels: z.array(scheduledJobChannelSchema).max(10).default([]),
+  enabled: z.boolean().default(true)
+}).refine(data => data.kind !== 'report' || !!data.reportId, {
+  message: 'reportId is required for scheduled reports',
+  path: ['reportId']
+}).refine(data => data.kind !== 'export' || !!data.config, {
+  message: 'config is required for scheduled exports',
+  path: ['config']
+}).refine(data => data.kind !== 'retention' || data.format === 'json', {
+  message: 'Retention runs produce a JSON summary',
+  path: ['format']
+})
+
+export const scheduledJobUpdateSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  config: scheduledExportConfigSchema.optional(),
+  format: z.enum(['pdf', 'excel', 'csv', 'json']).optional(),
+  frequency: z.enum(['daily', 'weekly', 'monthly']).optional(),
+  timeOfDay: scheduleTimeSchema.optional(),
+  dayOfWeek: z.number().int().min(0).max(6).nullable().optional(),
+  dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+  recipients: z.array(z.string().email()).max(50).optional(),
+  channels: z.array(scheduledJobChannelSchema).max(10).optional(),
+  enabled: z.boolean().optional()
+})
+
+// Report builder definitions (see lib/report-builder.ts)
+export const reportBuilderConfigSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional().default(''),
+  dataSource: z.enum(['employees', 'attendance', 'schedules']),
+  fields: z.array(z.object({
+    name: z.string().min(1),
+    label: z.string().min(1),
+    type: z.enum(['string', 'number', 'date', 'boolean']),
+    format: z.string().max(50).optional(),
+    visible: z.boolean(),
+    order: z.number().int()
+  })).min(1, 'Select at least one field'),
+  filters: z.array(z.object({
+    field: z.string().min(1),
+    operator: z.enum(['equals', 'not_equals', 'greater_than', 'less_than', 'between', 'contains', 'in', 'not_in']),
+    value: z.any(),
+    label: z.string().optional()
+  })).optional().default([]),
+  groupBy: z.array(z.string()).max(3).optional().default([]),
+  sortBy: z.array(z.object({
+    field: z.string().min(1),
+    direction: z.enum(['asc', 'desc'])
+  })).optional().default([]),
+  aggregations: z.array(z.object({
+    field: z.string().min(1),
+    function: z.enum(['sum', 'avg', 'min', 'max', 'count']),
+    label: z.string().max(100)
+  })).optional().default([]),
+  chartType: z.enum(['bar', 'line', 'pie', 'doughnut', 'radar', 'polarArea', 'scatter']).optional(),
+  chartOptions: z.record(z.any()).optional(),
+  exportFormat: z.enum(['pdf', 'excel', 'csv']).optional(),
+  schedule: reportScheduleSchema.optional()
+})
+
+export const reportDefinitionSaveSchema = z.object({
+  // Omit to create a new definition
+  id: uuidSchema.optional(),
+  // Version the editor started from; required when updating
+  version: z.number().int().positive().optional(),
+  config: reportBuilderConfigSchema
+}).refine(data => !data.id || data.version !== undefined, {
+  message: 'version is required when updating a report',
+  path: ['version']
+})
+
+export const reportBuildRequestSchema = z.object({
+  id: uuidSchema.optional(),
+  config: reportBuilderConfigSchema.optional()
+}).refine(data => !!data.id !== !!data.config, {
+  message: 'Provide either a saved report id or a report configuration'
+})
+
+export const reportExportRequestSchema = z.object({
+  id: uuidSchema.optional(),
+  config: reportBuilderConfigSchema.optional(),
+  format: z.enum(['pdf', 'excel', 'csv']).optional()
+}).refine(data => !!data.id !== !!data.config, {
+  message: 'Provide either a saved report id or a report configuration'
+})
+
+export const reportSharingSchema = z.object({
+  isPublic: z.boolean().optional(),
+  sharedWith: z.array(uuidSchema).max(100).optional()
+})
+
+// Data archival rules and retention policies (see lib/data-archival.ts)
+const archivalConditionSchema = z.object({
+  field: z.string().min(1).max(100),
+  operator: z.enum(['equals', 'not_equals', 'greater_than', 'less_than', 'between', 'contains', 'in', 'older_than']),
+  value: z.any(),
+  logicalOperator: z.enum(['and', 'or']).optional()
+})
+
+const archivalScheduleSchema = z.object({
+  enabled: z.boolean(),
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  time: scheduleTimeSchema,
+  // Set by the scheduler; ignored on save
+  nextRun: z.string().optional()
+})
+
+export const archivalRuleSchema = z.object({
+  // Omit to create a new rule
+  id: uuidSchema.optional(),
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional().default(''),
+  enabled: z.boolean().optional().default(true),
+  entityType: z.enum(['employees', 'attendance', 'schedules']),
+  conditions: z.array(archivalConditionSchema).min(1, 'Add at least one condition').max(20),
+  actions: z.array(z.object({
+    type: z.enum(['archive', 'delete', 'flag']),
+    parameters: z.object({
+      // Folder in the archives bucket
+      location: z.string().max(200).regex(/^[\w\-/]*$/, 'Location may only contain letters, digits, -, _ and /').optional(),
+      retentionDays: z.number().int().min(1).max(36500).optional(),
+      flag: z.string().min(1).max(100).optional()
+    }).optional()
+  })).min(1, 'Add at least one action').max(3),
+  schedule: archivalScheduleSchema.optional()
+})
+
+export const cleanupRuleSchema = z.object({
+  id: uuidSchema.optional(),
+  name: z.string().min(1).max(255),
+  description: z.string().max(2000).optional().default(''),
+  enabled: z.boolean().optional().default(true),
+  entityType: z.enum(['employees', 'attendance', 'schedules', 'logs', 'temp_files']),
+  conditions: z.array(archivalConditionSchema).min(1, 'Add at least one condition').max(20),
+  dryRun: z.boolean().optional().default(true),
+  schedule: archivalScheduleSchema.optional()
+})
+
+export const retentionPolicySchema = z.object({
+  id: uuidSchema.optional(),
+  name: z.string().min(1).max(255),
+  enabled: z.boolean().optional().default(true),
+  entityType: z.enum(['employees', 'attendance', 'schedules']),
+  retentionPeriod: z.number().int().min(1).max(36500),
+  archivalAction: z.enum(['archive', 'delete']),
+  archivalDelay: z.number().int().min(0).max(36500).optional().default(0),
+  conditions: z.array(archivalConditionSchema.omit({ logicalOperator: true })).max(20).optional().default([])
+}).refine(data => data.archivalAction !== 'archive' || data.archivalDelay < data.retentionPeriod, {
+  message: 'Records must be archived before their retention period ends',
+  path: ['archivalDelay']
+})
+
 // API response schemas
 export const apiResponseSchema = z.object({
   success: z.boolean(),
@@ -249,8 +838,50 @@ export type UserCreateInput = z.infer<typeof userCreateSchema>
 export type UserUpdateInput = z.infer<typeof userUpdateSchema>
 export type UserQueryInput = z.infer<typeof userQuerySchema>
 export type FaceEnrollmentInput = z.infer<typeof faceEnrollmentSchema>
+export type FaceEnrollmentCapture = z.infer<typeof faceEnrollmentCaptureSchema>
+export type FaceEmbeddingEnrollmentInput = z.infer<typeof faceEmbeddingEnrollmentSchema>
 export type FaceVerificationInput = z.infer<typeof faceVerificationSchema>
+export type LivenessVerifyInput = z.infer<typeof livenessVerifySchema>
 export type SettingsInput = z.infer<typeof settingsSchema>
+export type OfficeSiteInput = z.infer<typeof officeSiteSchema>
+export type LeaveRequestInput = z.infer<typeof leaveRequestSchema>
+export type LeaveResponseInput = z.infer<typeof leaveResponseSchema>
+export type HolidayInput = z.infer<typeof holidaySchema>
+export type OvertimeRequestInput = z.infer<typeof overtimeRequestSchema>
+export type OvertimeResponseInput = z.infer<typeof overtimeResponseSchema>
+export type HolidayImportInput = z.infer<typeof holidayImportSchema>
+export type PayrollPeriodInput = z.infer<typeof payrollPeriodSchema>
+export type PayrollReopenInput = z.infer<typeof payrollReopenSchema>
+export type PayGradeInput = z.infer<typeof payGradeSchema>
+export type SyncMutationInput = z.infer<typeof syncMutationSchema>
+export type SyncBatchInput = z.infer<typeof syncBatchSchema>
+export type SyncChangesQueryInput = z.infer<typeof syncChangesQuerySchema>
+export type OfflineFaceEventInput = z.infer<typeof offlineFaceEventSchema>
+export type OfflineFaceReviewInput = z.infer<typeof offlineFaceReviewSchema>
+export type SyncDeadLetterReportInput = z.infer<typeof syncDeadLetterReportSchema>
+export type SyncDeadLetterRetryInput = z.infer<typeof syncDeadLetterRetrySchema>
+export type SyncDeadLetterDiscardInput = z.infer<typeof syncDeadLetterDiscardSchema>
+export type ManualCheckinInput = z.infer<typeof manualCheckinSchema>
+export type ManualCheckinReviewInput = z.infer<typeof manualCheckinReviewSchema>
+export type KioskEnrollmentCodeInput = z.infer<typeof kioskEnrollmentCodeSchema>
+export type KioskRegistrationInput = z.infer<typeof kioskRegistrationSchema>
+export type KioskHeartbeatInput = z.infer<typeof kioskHeartbeatSchema>
+export type KioskDeviceUpdateInput = z.infer<typeof kioskDeviceUpdateSchema>
 export type ExportQueryInput = z.infer<typeof exportQuerySchema>
 export type ImportInput = z.infer<typeof importSchema>
+export type ImportPreviewInput = z.infer<typeof importPreviewSchema>
+export type EmployeeImportRow = z.infer<typeof employeeImportRowSchema>
+export type AttendanceImportRow = z.infer<typeof attendanceImportRowSchema>
+export type ImportRollbackInput = z.infer<typeof importRollbackSchema>
+export type EmployeeExternalIdInput = z.infer<typeof employeeExternalIdSchema>
 export type ReportQueryInput = z.infer<typeof reportQuerySchema>
+export type ReportBuilderConfigInput = z.infer<typeof reportBuilderConfigSchema>
+export type ReportDefinitionSaveInput = z.infer<typeof reportDefinitionSaveSchema>
+export type ReportExportRequestInput = z.infer<typeof reportExportRequestSchema>
+export type ReportSharingInput = z.infer<typeof reportSharingSchema>
+export type ReportScheduleInput = z.infer<typeof reportScheduleSchema>
+export type ScheduledJobInput = z.infer<typeof scheduledJobSchema>
+export type ScheduledJobUpdateInput = z.infer<typeof scheduledJobUpdateSchema>
+export type ArchivalRuleInput = z.infer<typeof archivalRuleSchema>
+export type CleanupRuleInput = z.infer<typeof cleanupRuleSchema>
+export type RetentionPolicyInput = z.infer<typeof retentionPolicySchema>
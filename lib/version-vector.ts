@@ -0,0 +1,63 @@
+/**
+ * Version Vectors
+ * Per-node edit counters for records edited both offline and on the server.
+ * Comparing two vectors tells whether one copy already includes every edit
+ * of the other, or whether both changed independently and must be merged.
+ */
+
+import { VersionVector, VectorOrder } from './conflict-types';
+
+// Node name for edits made on the server (online APIs, admin changes)
+export const SERVER_NODE = 'server';
+
+/**
+ * Record one more edit by a node
+ */
+export function incrementVector(vector: VersionVector, node: string): VersionVector {
+  return { ...vector, [node]: (vector[node] || 0) + 1 };
+}
+
+/**
+ * Pointwise maximum: a vector covering the edits of both
+ */
+export function mergeVectors(a: VersionVector, b: VersionVector): VersionVector {
+  const merged: VersionVector = { ...a };
+  for (const [node, count] of Object.entries(b)) {
+    merged[node] = Math.max(merged[node] || 0, count);
+  }
+  return merged;
+}
+
+/**
+ * Order of `a` relative to `b`: 'before' means b already includes every
+ * edit in a; 'concurrent' means each has edits the other lacks
+ */
+export function compareVectors(a: VersionVector, b: VersionVector): VectorOrder {
+  let aAhead = false;
+  let bAhead = false;
+
+  const nodes = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const node of nodes) {
+    const countA = a[node] || 0;
+    const countB = b[node] || 0;
+    if (countA > countB) aAhead = true;
+    if (countB > countA) bAhead = true;
+  }
+
+  if (aAhead && bAhead) return 'concurrent';
+  if (aAhead) return 'after';
+  if (bAhead) return 'before';
+  return 'equal';
+}
+
+/**
+ * Accept only plain { node: non-negative integer } objects
+ */
+export function isVersionVector(value: unknown): value is VersionVector {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  return Object.entries(value as Record<string, unknown>).every(
+    ([node, count]) => node.length > 0 && node.length <= 100 && Number.isInteger(count) && (count as number) >= 0
+  );
+}
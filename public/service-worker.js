@@ -58,6 +58,13 @@ const API_ROUTES = [
   '/api/sync'
 ];
 
+// API routes that must always hit the network (cursor-based change feed,
+// and the kiosk face cache, which is only stored encrypted)
+const NETWORK_ONLY_ROUTES = [
+  '/api/sync/changes',
+  '/api/face/offline-cache'
+];
+
 // Image routes that should use cache-first strategy
 const IMAGE_ROUTES = [
   '/placeholder-logo.png',
@@ -316,6 +323,11 @@ self.addEventListener('fetch', (event) => {
     return;
   }
   
+  // Let the browser handle requests that must never come from cache
+  if (NETWORK_ONLY_ROUTES.some(route => new URL(event.request.url).pathname.startsWith(route))) {
+    return;
+  }
+  
   // Determine cache strategy and cache name
   const { strategy, cacheName, config } = getCacheStrategyAndConfig(event.request);
   
@@ -362,112 +374,307 @@ self.addEventListener('sync', (event) => {
   if (event.tag === 'sync-settings') {
     event.waitUntil(syncSettingsData());
   }
+  
+  if (event.tag === 'sync-face-events') {
+    event.waitUntil(syncFaceEventsData());
+  }
 });
 
+// Background sync uploads the app's IndexedDB sync queue to /api/sync in
+// batches. The wire format mirrors lib/sync-protocol.ts. On a registered
+// kiosk the page holds the kiosk key and signs each upload on request.
+const SYNC_DB_NAME = 'edo-attendance-db';
+const SYNC_QUEUE_STORE = 'syncQueue';
+const SYNC_ATTENDANCE_STORE = 'attendance';
+const SYNC_BATCH_SIZE = 100;
+const SYNC_MAX_RETRIES = 3;
+
 // Function to sync attendance data when online
 async function syncAttendanceData() {
+  return syncQueuedItems('attendance');
+}
+
+// Function to sync users data when online
+async function syncUsersData() {
+  return syncQueuedItems('user');
+}
+
+// Function to sync settings data when online
+async function syncSettingsData() {
+  return syncQueuedItems('settings');
+}
+
+// Function to upload offline kiosk face check-ins when online
+async function syncFaceEventsData() {
+  return syncQueuedItems('face_event');
+}
+
+async function syncQueuedItems(dataType) {
   try {
-    console.log('Syncing attendance data...');
+    console.log(`Syncing ${dataType} data...`);
     
-    // Get all pending sync items from IndexedDB
-    const pendingItems = await getPendingSyncItems('attendance');
+    const pendingItems = await getPendingSyncItems(dataType);
     
     if (pendingItems.length === 0) {
-      console.log('No pending attendance data to sync');
+      console.log(`No pending ${dataType} data to sync`);
       return Promise.resolve('No data to sync');
     }
     
-    // Send each item to the server
-    const results = await Promise.allSettled(
-      pendingItems.map(item => sendToServer('/api/attendance', item))
-    );
+    // Throws when no signed-in page is open; the browser retries the sync later
+    const credentials = await getSyncCredentials();
     
-    // Process results
-    const successful = [];
-    const failed = [];
+    let successful = 0;
+    let failed = 0;
+    let retryable = 0;
     
-    results.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        successful.push(pendingItems[index]);
-      } else {
-        console.error('Failed to sync attendance item:', result.reason);
-        failed.push({...pendingItems[index], error: result.reason.message});
+    for (let i = 0; i < pendingItems.length; i += SYNC_BATCH_SIZE) {
+      const batch = pendingItems.slice(i, i + SYNC_BATCH_SIZE);
+      const body = JSON.stringify({
+        batchId: crypto.randomUUID(),
+        deviceId: credentials.deviceId,
+        createdAt: new Date().toISOString(),
+        mutations: batch.map(toSyncMutation)
+      });
+      const kioskHeaders = await signSyncRequest(credentials.client, '/api/sync', body);
+      
+      const response = await sendToServer('/api/sync', body, credentials.token, kioskHeaders);
+      const outcomes = new Map(response.results.map(result => [result.idempotencyKey, result]));
+      
+      const done = [];
+      const failedItems = [];
+      
+      batch.forEach(item => {
+        const outcome = outcomes.get(item.id);
+        
+        if (outcome && (outcome.status === 'applied' || outcome.status === 'duplicate')) {
+          done.push(item);
+          return;
+        }
+        
+        // Conflicts and permanent rejections are parked for review in the app
+        const final = outcome && (outcome.status === 'conflict' || !outcome.retryable);
+        if (!final) retryable++;
+        failedItems.push({
+          ...item,
+          retryCount: final ? SYNC_MAX_RETRIES : item.retryCount + 1,
+          lastError: outcome
+            ? (outcome.status === 'conflict' ? 'Changed on the server' : outcome.error)
+            : 'Missing result'
+        });
+      });
+      
+      // Remove successfully synced items from IndexedDB
+      if (done.length > 0) {
+        await removeSyncItems(dataType, done.map(item => item.id));
+        if (dataType === 'attendance') {
+          await markAttendanceSynced(done.map(item => item.data.id));
+        }
       }
-    });
-    
-    // Remove successfully synced items from IndexedDB
-    if (successful.length > 0) {
-      await removeSyncItems('attendance', successful.map(item => item.id));
-      console.log(`Successfully synced ${successful.length} attendance records`);
+      
+      // Update failed items with retry count
+      if (failedItems.length > 0) {
+        await updateFailedSyncItems(dataType, failedItems);
+      }
+      
+      successful += done.length;
+      failed += failedItems.length;
     }
     
-    // Update failed items with retry count
-    if (failed.length > 0) {
-      await updateFailedSyncItems('attendance', failed);
-      console.log(`Failed to sync ${failed.length} attendance records`);
-    }
+    console.log(`Synced ${successful} ${dataType} items, ${failed} failed`);
     
     // Notify clients about sync completion
     notifyClients({
       type: 'SYNC_COMPLETED',
       payload: {
-        dataType: 'attendance',
-        successful: successful.length,
-        failed: failed.length
+        dataType,
+        successful,
+        failed
       }
     });
     
-    return Promise.resolve(`Sync completed: ${successful.length} successful, ${failed.length} failed`);
+    if (retryable > 0) {
+      throw new Error(`${retryable} ${dataType} items will be retried`);
+    }
+    
+    return Promise.resolve(`Sync completed: ${successful} successful, ${failed} failed`);
   } catch (error) {
-    console.error('Error syncing attendance data:', error);
+    console.error(`Error syncing ${dataType} data:`, error);
     throw error;
   }
 }
 
-// Function to sync users data when online
-async function syncUsersData() {
-  try {
-    console.log('Syncing users data...');
-    
-    // Similar implementation to syncAttendanceData but for users
-    // This is a placeholder implementation
-    console.log('Users data sync completed');
-    return Promise.resolve('Users data sync completed');
-  } catch (error) {
-    console.error('Error syncing users data:', error);
-    throw error;
+// Turn a queued item into a mutation; the queue item id is the idempotency key
+function toSyncMutation(item) {
+  const clientTimestamp = new Date(item.timestamp).toISOString();
+  
+  if (item.type === 'attendance') {
+    const record = item.data;
+    return {
+      idempotencyKey: item.id,
+      entity: 'attendance',
+      operation: 'create',
+      entityId: record.id,
+      baseVersion: (record.version && record.version.baseRevision) || undefined,
+      data: {
+        userId: record.userId,
+        timestamp: new Date(record.timestamp).toISOString(),
+        type: record.type,
+        location: record.location,
+        photoUrl: typeof record.photo === 'string' && !record.photo.startsWith('data:') ? record.photo : undefined,
+        notes: record.notes,
+        versionVector: record.version ? record.version.vector : undefined
+      },
+      clientTimestamp
+    };
+  }
+  
+  if (item.type === 'face_event') {
+    return {
+      idempotencyKey: item.id,
+      entity: 'face_event',
+      operation: 'create',
+      entityId: item.data.id,
+      data: item.data,
+      clientTimestamp
+    };
+  }
+  
+  if (item.type === 'user') {
+    const user = item.data;
+    return {
+      idempotencyKey: item.id,
+      entity: 'user',
+      operation: 'update',
+      entityId: user.id,
+      baseVersion: user.updatedAt ? new Date(user.updatedAt).toISOString() : undefined,
+      data: {
+        name: user.name,
+        phone: user.phone,
+        department: user.department
+      },
+      clientTimestamp
+    };
   }
+  
+  return {
+    idempotencyKey: item.id,
+    entity: item.type,
+    operation: 'update',
+    entityId: (item.data && item.data.id) || item.id,
+    data: item.data || {},
+    clientTimestamp
+  };
 }
 
-// Function to sync settings data when online
-async function syncSettingsData() {
-  try {
-    console.log('Syncing settings data...');
-    
-    // Similar implementation to syncAttendanceData but for settings
-    // This is a placeholder implementation
-    console.log('Settings data sync completed');
-    return Promise.resolve('Settings data sync completed');
-  } catch (error) {
-    console.error('Error syncing settings data:', error);
-    throw error;
+// Kiosk signature headers from the page; empty on devices that aren't kiosks
+async function signSyncRequest(client, path, body) {
+  const signed = await requestFromClient(client, {
+    type: 'SIGN_SYNC_REQUEST',
+    payload: { method: 'POST', path, body }
+  });
+  if (!signed || !signed.headers) {
+    throw new Error('Page could not sign the sync request');
+  }
+  return signed.headers;
+}
+
+// The worker can't read the app's auth storage, so it asks an open page
+async function getSyncCredentials() {
+  const windowClients = await self.clients.matchAll({ type: 'window' });
+  
+  for (const client of windowClients) {
+    try {
+      const credentials = await requestFromClient(client, { type: 'GET_SYNC_CREDENTIALS' });
+      if (credentials && credentials.token) {
+        return { ...credentials, client };
+      }
+    } catch (error) {
+      console.warn('Client did not provide sync credentials:', error);
+    }
   }
+  
+  throw new Error('No signed-in page available to authorize sync');
+}
+
+function requestFromClient(client, message, timeoutMs = 5000) {
+  return new Promise((resolve, reject) => {
+    const channel = new MessageChannel();
+    const timer = setTimeout(() => reject(new Error('Timed out waiting for client')), timeoutMs);
+    
+    channel.port1.onmessage = (event) => {
+      clearTimeout(timer);
+      resolve(event.data && event.data.payload);
+    };
+    
+    client.postMessage(message, [channel.port2]);
+  });
 }
 
 // Helper functions for IndexedDB operations
+function openSyncDatabase() {
+  return new Promise((resolve, reject) => {
+    // Open whatever version the app created; schema changes belong to the app
+    const request = indexedDB.open(SYNC_DB_NAME);
+    
+    request.onupgradeneeded = () => {
+      request.transaction.abort();
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Aborted upgrade: the app hasn't created its database yet
+      if (request.error && request.error.name === 'AbortError') {
+        resolve(null);
+      } else {
+        reject(request.error);
+      }
+    };
+  });
+}
+
+function completeTransaction(transaction) {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
 async function getPendingSyncItems(dataType) {
-  // This would be implemented with IndexedDB operations
-  // For now, return an empty array as a placeholder
-  return [];
+  const db = await openSyncDatabase();
+  if (!db || !db.objectStoreNames.contains(SYNC_QUEUE_STORE)) {
+    return [];
+  }
+  
+  try {
+    const items = await new Promise((resolve, reject) => {
+      const request = db
+        .transaction(SYNC_QUEUE_STORE, 'readonly')
+        .objectStore(SYNC_QUEUE_STORE)
+        .index('by-type')
+        .getAll(dataType);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+    
+    // Oldest first; items that ran out of retries wait for review in the app
+    return items
+      .filter(item => (item.retryCount || 0) < SYNC_MAX_RETRIES)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  } finally {
+    db.close();
+  }
 }
 
-async function sendToServer(endpoint, data) {
+// body is sent as given: a kiosk signature covers these exact bytes
+async function sendToServer(endpoint, body, token, extraHeaders = {}) {
   const response = await fetch(endpoint, {
     method: 'POST',
     headers: {
-      'Content-Type': 'application/json'
+      ...extraHeaders,
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`
     },
-    body: JSON.stringify(data)
+    body
   });
   
   if (!response.ok) {
@@ -478,15 +685,54 @@ async function sendToServer(endpoint, data) {
 }
 
 async function removeSyncItems(dataType, itemIds) {
-  // This would be implemented with IndexedDB operations
-  // For now, it's a placeholder
-  console.log(`Removed ${itemIds.length} ${dataType} items from sync queue`);
+  const db = await openSyncDatabase();
+  if (!db) return;
+  
+  try {
+    const transaction = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(SYNC_QUEUE_STORE);
+    itemIds.forEach(id => store.delete(id));
+    await completeTransaction(transaction);
+    console.log(`Removed ${itemIds.length} ${dataType} items from sync queue`);
+  } finally {
+    db.close();
+  }
 }
 
 async function updateFailedSyncItems(dataType, failedItems) {
-  // This would be implemented with IndexedDB operations
-  // For now, it's a placeholder
-  console.log(`Updated ${failedItems.length} failed ${dataType} items`);
+  const db = await openSyncDatabase();
+  if (!db) return;
+  
+  try {
+    const transaction = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+    const store = transaction.objectStore(SYNC_QUEUE_STORE);
+    failedItems.forEach(item => store.put(item));
+    await completeTransaction(transaction);
+    console.log(`Updated ${failedItems.length} failed ${dataType} items`);
+  } finally {
+    db.close();
+  }
+}
+
+async function markAttendanceSynced(recordIds) {
+  const db = await openSyncDatabase();
+  if (!db || !db.objectStoreNames.contains(SYNC_ATTENDANCE_STORE)) return;
+  
+  try {
+    const transaction = db.transaction(SYNC_ATTENDANCE_STORE, 'readwrite');
+    const store = transaction.objectStore(SYNC_ATTENDANCE_STORE);
+    recordIds.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) {
+          store.put({ ...request.result, synced: true, pendingSync: false });
+        }
+      };
+    });
+    await completeTransaction(transaction);
+  } finally {
+    db.close();
+  }
 }
 
 // Handle push notifications
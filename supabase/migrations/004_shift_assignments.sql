@@ -0,0 +1,28 @@
+-- ============================================
+-- Shift-Aware Attendance Evaluation
+-- Migration: 004
+-- Description: Link roster assignments and employees to shifts so
+--              check-ins are evaluated against the effective shift
+-- ============================================
+
+-- Roster assignments may reference a shift directly; a schedule is optional
+ALTER TABLE public.schedule_assignments
+  ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.schedule_assignments
+  ALTER COLUMN schedule_id DROP NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_schedule_assignments_user_date
+  ON public.schedule_assignments(user_id, date);
+CREATE INDEX IF NOT EXISTS idx_schedule_assignments_shift
+  ON public.schedule_assignments(shift_id);
+
+-- Default shift and break policy per employee (used when no assignment exists)
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS default_shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS break_policy_id UUID REFERENCES public.break_policies(id) ON DELETE SET NULL;
+
+-- Night shift crosses midnight
+UPDATE public.shifts SET is_overnight = true WHERE code = 'NIGHT';
@@ -0,0 +1,43 @@
+-- ============================================
+-- Geofencing
+-- Migration: 005
+-- Description: Named office sites with circle/polygon zones and
+--              zone-violation tracking on attendance and breaks
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.office_sites (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name VARCHAR(255) NOT NULL,
+    code VARCHAR(50) UNIQUE,
+    address TEXT,
+    -- Array of zones:
+    --   { "type": "circle", "name": "...", "center": { "latitude", "longitude" }, "radius": meters }
+    --   { "type": "polygon", "name": "...", "points": [{ "latitude", "longitude" }, ...] }
+    zones JSONB NOT NULL DEFAULT '[]',
+    departments VARCHAR(255)[] DEFAULT ARRAY[]::VARCHAR[],
+    schedule_ids UUID[] DEFAULT ARRAY[]::UUID[],
+    is_default BOOLEAN DEFAULT false,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_office_sites_active ON public.office_sites(is_active);
+CREATE INDEX IF NOT EXISTS idx_office_sites_departments ON public.office_sites USING GIN(departments);
+CREATE INDEX IF NOT EXISTS idx_office_sites_schedules ON public.office_sites USING GIN(schedule_ids);
+
+ALTER TABLE public.office_sites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS office_sites_read ON public.office_sites;
+CREATE POLICY office_sites_read ON public.office_sites
+    FOR SELECT USING (auth.role() = 'authenticated');
+
+-- Zone violations
+ALTER TABLE public.attendance_records
+  ADD COLUMN IF NOT EXISTS zone_violation BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_zone_violation
+  ON public.attendance_records(zone_violation) WHERE zone_violation = true;
+
+ALTER TABLE break_sessions
+  ADD COLUMN IF NOT EXISTS zone_violation BOOLEAN DEFAULT false;
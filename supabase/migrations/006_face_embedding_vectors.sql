@@ -0,0 +1,61 @@
+-- ============================================
+-- Face Embedding Vector Index
+-- Migration: 006
+-- Description: Optional pgvector nearest-neighbour search for face
+--              matching (enable with FACE_INDEX_BACKEND=pgvector)
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+ALTER TABLE public.face_embeddings
+  ADD COLUMN IF NOT EXISTS embedding_vector vector(128);
+
+-- Keep the vector column in sync with the source embedding
+-- (works whether `embedding` is FLOAT8[] or JSONB)
+CREATE OR REPLACE FUNCTION public.sync_face_embedding_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.embedding_vector := (
+    SELECT array_agg(value::float4 ORDER BY ordinality)::vector
+    FROM jsonb_array_elements_text(to_jsonb(NEW.embedding)) WITH ORDINALITY
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_face_embedding_vector ON public.face_embeddings;
+CREATE TRIGGER sync_face_embedding_vector
+  BEFORE INSERT OR UPDATE OF embedding ON public.face_embeddings
+  FOR EACH ROW EXECUTE FUNCTION public.sync_face_embedding_vector();
+
+-- Backfill existing rows
+UPDATE public.face_embeddings
+SET embedding_vector = (
+  SELECT array_agg(value::float4 ORDER BY ordinality)::vector
+  FROM jsonb_array_elements_text(to_jsonb(embedding)) WITH ORDINALITY
+)
+WHERE embedding_vector IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_face_embeddings_vector
+  ON public.face_embeddings USING hnsw (embedding_vector vector_cosine_ops)
+  WHERE is_active = true;
+
+-- Nearest active embeddings of active users by cosine similarity
+CREATE OR REPLACE FUNCTION public.match_face_embeddings(
+  query_embedding FLOAT8[],
+  match_count INT DEFAULT 10
+)
+RETURNS TABLE (id UUID, user_id UUID, similarity FLOAT8, distance FLOAT8) AS $$
+  SELECT
+    fe.id,
+    fe.user_id,
+    1 - (fe.embedding_vector <=> query_embedding::vector) AS similarity,
+    fe.embedding_vector <-> query_embedding::vector AS distance
+  FROM public.face_embeddings fe
+  JOIN public.users u ON u.id = fe.user_id
+  WHERE fe.is_active = true
+    AND u.is_active = true
+    AND fe.embedding_vector IS NOT NULL
+  ORDER BY fe.embedding_vector <=> query_embedding::vector
+  LIMIT match_count;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,10 @@
+-- ============================================
+-- Attendance PIN
+-- Migration: 007
+-- Description: Per-employee PIN used as a second factor when a face
+--              match is ambiguous between look-alike employees
+-- ============================================
+
+-- bcrypt hash; never selected by client-facing queries
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS attendance_pin_hash TEXT;
@@ -0,0 +1,424 @@
+-- ============================================
+-- Shift Swap Execution
+-- Migration: 008
+-- Description: Apply approved shift swaps to the roster in a single
+--              transaction, re-checking double-booking and rest periods,
+--              recording compensation and notifying both employees
+-- ============================================
+
+-- Roster rows created or released by a swap point back at it
+ALTER TABLE public.schedule_assignments
+  ADD COLUMN IF NOT EXISTS swap_request_id UUID REFERENCES public.shift_swap_requests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_schedule_assignments_swap
+  ON public.schedule_assignments(swap_request_id);
+
+-- What the requestor owes the colleague who took over their shift
+CREATE TABLE IF NOT EXISTS public.shift_swap_compensations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  swap_request_id UUID NOT NULL REFERENCES public.shift_swap_requests(id) ON DELETE CASCADE,
+  payer_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  payee_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  compensation_type VARCHAR(50) NOT NULL,
+  amount DECIMAL(10,2),
+  unit VARCHAR(20),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  settled_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT valid_compensation_status CHECK (status IN ('pending', 'settled', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_swap_compensations_request ON public.shift_swap_compensations(swap_request_id);
+CREATE INDEX IF NOT EXISTS idx_swap_compensations_payee ON public.shift_swap_compensations(payee_id, status);
+
+ALTER TABLE public.shift_swap_compensations ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- Concrete shift instances of an employee between two dates.
+-- Mirrors the evaluation order used at check-in: an active roster
+-- assignment wins; a day with only cancelled assignments is a day off;
+-- otherwise the employee's default shift applies on its active days.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.shift_swap_user_shifts(
+  p_user_id UUID,
+  p_from DATE,
+  p_to DATE,
+  p_timezone TEXT
+)
+RETURNS TABLE (shift_date DATE, assignment_id UUID, starts_at TIMESTAMPTZ, ends_at TIMESTAMPTZ) AS $$
+  WITH days AS (
+    SELECT d::date AS shift_day
+    FROM generate_series(p_from, p_to, INTERVAL '1 day') d
+  ),
+  rostered AS (
+    SELECT
+      sa.date AS shift_day,
+      sa.id AS assignment_id,
+      COALESCE(s.start_time, sc.start_time) AS start_time,
+      COALESCE(s.end_time, sc.end_time) AS end_time,
+      COALESCE(s.is_overnight, false) AS is_overnight
+    FROM public.schedule_assignments sa
+    LEFT JOIN public.shifts s ON s.id = sa.shift_id
+    LEFT JOIN public.schedules sc ON sc.id = sa.schedule_id
+    WHERE sa.user_id = p_user_id
+      AND sa.date BETWEEN p_from AND p_to
+      AND sa.status <> 'cancelled'
+  ),
+  defaults AS (
+    SELECT
+      days.shift_day,
+      NULL::UUID AS assignment_id,
+      s.start_time,
+      s.end_time,
+      COALESCE(s.is_overnight, false) AS is_overnight
+    FROM days
+    JOIN public.users u ON u.id = p_user_id
+    JOIN public.shifts s ON s.id = u.default_shift_id AND s.is_active = true
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.schedule_assignments sa
+        WHERE sa.user_id = p_user_id AND sa.date = days.shift_day
+      )
+      AND (
+        s.active_days IS NULL
+        OR cardinality(s.active_days) = 0
+        OR trim(to_char(days.shift_day, 'day')) = ANY (SELECT lower(x) FROM unnest(s.active_days) x)
+      )
+  )
+  SELECT
+    x.shift_day,
+    x.assignment_id,
+    (x.shift_day + x.start_time) AT TIME ZONE p_timezone,
+    ((x.shift_day + CASE WHEN x.is_overnight OR x.end_time <= x.start_time THEN 1 ELSE 0 END) + x.end_time)
+      AT TIME ZONE p_timezone
+  FROM (SELECT * FROM rostered UNION ALL SELECT * FROM defaults) x
+  WHERE x.start_time IS NOT NULL AND x.end_time IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================
+-- Move one shift from the giver to the receiver. The giver's assignment is
+-- kept as a cancelled row (a day-off marker when the shift came from their
+-- default shift); partial handovers leave the giver rostered.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.shift_swap_hand_over(
+  p_swap_id UUID,
+  p_giver_id UUID,
+  p_receiver_id UUID,
+  p_date DATE,
+  p_assignment_id UUID,
+  p_schedule_id UUID,
+  p_shift_id UUID,
+  p_note TEXT,
+  p_partial BOOLEAN DEFAULT false
+)
+RETURNS UUID AS $$
+DECLARE
+  v_receiver_assignment UUID;
+BEGIN
+  IF NOT p_partial THEN
+    IF p_assignment_id IS NOT NULL THEN
+      UPDATE public.schedule_assignments
+      SET status = 'cancelled',
+          notes = p_note,
+          swap_request_id = p_swap_id,
+          updated_at = NOW()
+      WHERE id = p_assignment_id;
+    ELSE
+      INSERT INTO public.schedule_assignments (user_id, date, shift_id, status, notes, swap_request_id)
+      VALUES (p_giver_id, p_date, p_shift_id, 'cancelled', p_note, p_swap_id);
+    END IF;
+  ELSIF p_assignment_id IS NOT NULL THEN
+    UPDATE public.schedule_assignments
+    SET notes = p_note, swap_request_id = p_swap_id, updated_at = NOW()
+    WHERE id = p_assignment_id;
+  END IF;
+
+  -- Reuse a released row of the receiver for the same schedule (unique per schedule/user/date)
+  SELECT id INTO v_receiver_assignment
+  FROM public.schedule_assignments
+  WHERE user_id = p_receiver_id
+    AND date = p_date
+    AND status = 'cancelled'
+    AND schedule_id IS NOT DISTINCT FROM p_schedule_id
+    AND (p_schedule_id IS NOT NULL OR shift_id IS NOT DISTINCT FROM p_shift_id)
+  LIMIT 1;
+
+  IF v_receiver_assignment IS NOT NULL THEN
+    UPDATE public.schedule_assignments
+    SET status = 'assigned',
+        shift_id = p_shift_id,
+        notes = p_note,
+        swap_request_id = p_swap_id,
+        updated_at = NOW()
+    WHERE id = v_receiver_assignment;
+  ELSE
+    INSERT INTO public.schedule_assignments (schedule_id, user_id, date, shift_id, status, notes, swap_request_id)
+    VALUES (p_schedule_id, p_receiver_id, p_date, p_shift_id, 'assigned', p_note, p_swap_id)
+    RETURNING id INTO v_receiver_assignment;
+  END IF;
+
+  RETURN v_receiver_assignment;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- Execute an approved swap. Everything happens in the caller's transaction:
+-- if any check fails the function raises SHIFT_SWAP_CONFLICT with the
+-- violations as JSON in the error detail and nothing is written.
+--
+--   direct_swap, emergency_swap  requestor and target exchange shifts
+--   one_way_coverage             target takes the requestor's shift
+--   temporary_coverage           as one_way_coverage, flagged as temporary
+--   partial_swap                 target covers part of the requestor's shift
+--                                (window in metadata.partial_start/partial_end)
+-- ============================================
+CREATE OR REPLACE FUNCTION public.execute_shift_swap(
+  p_swap_id UUID,
+  p_actor_id UUID DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'Asia/Jakarta',
+  p_min_rest_hours NUMERIC DEFAULT 8
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_swap public.shift_swap_requests%ROWTYPE;
+  v_requestor_name TEXT;
+  v_target_name TEXT;
+  v_target_date DATE;
+  v_req_assignment public.schedule_assignments%ROWTYPE;
+  v_tgt_assignment public.schedule_assignments%ROWTYPE;
+  v_req_shift UUID;
+  v_tgt_shift UUID;
+  v_is_exchange BOOLEAN;
+  v_is_partial BOOLEAN;
+  v_note TEXT;
+  v_created UUID[] := ARRAY[]::UUID[];
+  v_dates DATE[];
+  v_user UUID;
+  v_prev RECORD;
+  v_has_prev BOOLEAN;
+  v_cur RECORD;
+  v_violations JSONB := '[]'::JSONB;
+  v_compensation_id UUID;
+BEGIN
+  SELECT * INTO v_swap FROM public.shift_swap_requests WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_NOT_FOUND' USING DETAIL = p_swap_id::TEXT;
+  END IF;
+
+  IF v_swap.status <> 'approved' THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_NOT_APPROVED' USING DETAIL = v_swap.status;
+  END IF;
+
+  IF v_swap.swap_type NOT IN ('direct_swap', 'emergency_swap', 'one_way_coverage', 'temporary_coverage', 'partial_swap') THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_UNSUPPORTED_TYPE' USING DETAIL = v_swap.swap_type;
+  END IF;
+
+  IF v_swap.target_id IS NULL THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_CONFLICT'
+      USING DETAIL = jsonb_build_array(jsonb_build_object('type', 'missing_target'))::TEXT;
+  END IF;
+
+  v_is_exchange := v_swap.swap_type IN ('direct_swap', 'emergency_swap');
+  v_is_partial := v_swap.swap_type = 'partial_swap';
+  v_target_date := COALESCE(v_swap.target_date, v_swap.requestor_date);
+  v_dates := CASE WHEN v_is_exchange THEN ARRAY[v_swap.requestor_date, v_target_date] ELSE ARRAY[v_swap.requestor_date] END;
+
+  -- Serialize concurrent swaps touching either employee
+  PERFORM 1 FROM public.users
+  WHERE id IN (v_swap.requestor_id, v_swap.target_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT name INTO v_requestor_name FROM public.users WHERE id = v_swap.requestor_id;
+  SELECT name INTO v_target_name FROM public.users WHERE id = v_swap.target_id;
+
+  -- Resolve both shifts before anything moves
+  SELECT * INTO v_req_assignment
+  FROM public.schedule_assignments
+  WHERE user_id = v_swap.requestor_id
+    AND date = v_swap.requestor_date
+    AND status <> 'cancelled'
+  ORDER BY (shift_id IS NOT DISTINCT FROM v_swap.requestor_shift_id) DESC, created_at
+  LIMIT 1;
+
+  v_req_shift := COALESCE(
+    v_req_assignment.shift_id,
+    CASE WHEN v_req_assignment.id IS NULL THEN
+      COALESCE(v_swap.requestor_shift_id, (SELECT default_shift_id FROM public.users WHERE id = v_swap.requestor_id))
+    END
+  );
+
+  IF v_req_assignment.id IS NULL AND v_req_shift IS NULL THEN
+    v_violations := v_violations || jsonb_build_object(
+      'type', 'no_shift', 'userId', v_swap.requestor_id, 'date', v_swap.requestor_date);
+  END IF;
+
+  IF v_is_exchange THEN
+    SELECT * INTO v_tgt_assignment
+    FROM public.schedule_assignments
+    WHERE user_id = v_swap.target_id
+      AND date = v_target_date
+      AND status <> 'cancelled'
+    ORDER BY (shift_id IS NOT DISTINCT FROM v_swap.target_shift_id) DESC, created_at
+    LIMIT 1;
+
+    v_tgt_shift := COALESCE(
+      v_tgt_assignment.shift_id,
+      CASE WHEN v_tgt_assignment.id IS NULL THEN
+        COALESCE(v_swap.target_shift_id, (SELECT default_shift_id FROM public.users WHERE id = v_swap.target_id))
+      END
+    );
+
+    IF v_tgt_assignment.id IS NULL AND v_tgt_shift IS NULL THEN
+      v_violations := v_violations || jsonb_build_object(
+        'type', 'no_shift', 'userId', v_swap.target_id, 'date', v_target_date);
+    END IF;
+  END IF;
+
+  IF jsonb_array_length(v_violations) > 0 THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_CONFLICT' USING DETAIL = v_violations::TEXT;
+  END IF;
+
+  -- Rewrite the roster
+  v_note := CASE
+    WHEN v_is_partial THEN format('Partial coverage %s-%s by %s for %s (%s)',
+      COALESCE(v_swap.metadata->>'partial_start', '?'), COALESCE(v_swap.metadata->>'partial_end', '?'),
+      v_target_name, v_requestor_name, v_swap.swap_code)
+    WHEN v_swap.swap_type = 'temporary_coverage' THEN format('Temporary coverage by %s for %s (%s)',
+      v_target_name, v_requestor_name, v_swap.swap_code)
+    ELSE format('Shift swap %s: %s -> %s', v_swap.swap_code, v_requestor_name, v_target_name)
+  END;
+
+  v_created := v_created || public.shift_swap_hand_over(
+    p_swap_id, v_swap.requestor_id, v_swap.target_id, v_swap.requestor_date,
+    v_req_assignment.id, v_req_assignment.schedule_id, v_req_shift, v_note, v_is_partial);
+
+  IF v_is_exchange THEN
+    v_created := v_created || public.shift_swap_hand_over(
+      p_swap_id, v_swap.target_id, v_swap.requestor_id, v_target_date,
+      v_tgt_assignment.id, v_tgt_assignment.schedule_id, v_tgt_shift,
+      format('Shift swap %s: %s -> %s', v_swap.swap_code, v_target_name, v_requestor_name), false);
+  END IF;
+
+  -- Re-check the resulting roster of both employees around the swapped days
+  FOREACH v_user IN ARRAY ARRAY[v_swap.requestor_id, v_swap.target_id] LOOP
+    v_violations := v_violations || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('type', 'double_booking', 'userId', v_user, 'date', booked.date))
+      FROM (
+        SELECT sa.date
+        FROM public.schedule_assignments sa
+        WHERE sa.user_id = v_user
+          AND sa.date = ANY (v_dates)
+          AND sa.status <> 'cancelled'
+        GROUP BY sa.date
+        HAVING count(*) > 1
+      ) booked
+    ), '[]'::JSONB);
+
+    v_has_prev := false;
+    FOR v_cur IN
+      SELECT * FROM public.shift_swap_user_shifts(
+        v_user,
+        (SELECT min(d) FROM unnest(v_dates) d) - 1,
+        (SELECT max(d) FROM unnest(v_dates) d) + 1,
+        p_timezone)
+      ORDER BY starts_at
+    LOOP
+      IF v_has_prev
+        AND v_prev.shift_date <> v_cur.shift_date
+        AND (v_prev.shift_date = ANY (v_dates) OR v_cur.shift_date = ANY (v_dates))
+      THEN
+        IF v_cur.starts_at < v_prev.ends_at THEN
+          v_violations := v_violations || jsonb_build_object(
+            'type', 'overlap', 'userId', v_user,
+            'date', v_cur.shift_date, 'previousDate', v_prev.shift_date);
+        ELSIF v_cur.starts_at - v_prev.ends_at < make_interval(mins => (p_min_rest_hours * 60)::INT) THEN
+          v_violations := v_violations || jsonb_build_object(
+            'type', 'rest_period', 'userId', v_user,
+            'date', v_cur.shift_date, 'previousDate', v_prev.shift_date,
+            'restHours', round((EXTRACT(EPOCH FROM v_cur.starts_at - v_prev.ends_at) / 3600)::NUMERIC, 1),
+            'minRestHours', p_min_rest_hours);
+        END IF;
+      END IF;
+      v_prev := v_cur;
+      v_has_prev := true;
+    END LOOP;
+  END LOOP;
+
+  IF jsonb_array_length(v_violations) > 0 THEN
+    RAISE EXCEPTION 'SHIFT_SWAP_CONFLICT' USING DETAIL = v_violations::TEXT;
+  END IF;
+
+  -- Compensation owed by the requestor to the target
+  IF v_swap.compensation_type IS NOT NULL AND v_swap.compensation_type <> 'none' THEN
+    INSERT INTO public.shift_swap_compensations (
+      swap_request_id, payer_id, payee_id, compensation_type, amount, unit
+    ) VALUES (
+      p_swap_id,
+      v_swap.requestor_id,
+      v_swap.target_id,
+      v_swap.compensation_type,
+      v_swap.compensation_amount,
+      CASE v_swap.compensation_type
+        WHEN 'time_off' THEN 'hours'
+        WHEN 'shift_return' THEN 'shifts'
+        WHEN 'cash' THEN 'currency'
+        WHEN 'payment' THEN 'currency'
+        WHEN 'bonus' THEN 'currency'
+        ELSE NULL
+      END
+    )
+    RETURNING id INTO v_compensation_id;
+  END IF;
+
+  UPDATE public.shift_swap_requests
+  SET status = 'completed',
+      system_notes = format('Executed %s; assignments %s', NOW()::TEXT, array_to_string(v_created, ', ')),
+      updated_at = NOW()
+  WHERE id = p_swap_id;
+
+  INSERT INTO public.shift_swap_history (
+    swap_request_id, action, actor_id, actor_role, action_details, previous_status, new_status
+  ) VALUES (
+    p_swap_id, 'completed', p_actor_id, 'system',
+    format('Swap executed (%s)%s', v_swap.swap_type,
+      CASE WHEN v_compensation_id IS NOT NULL
+        THEN format('; compensation %s %s', v_swap.compensation_type, COALESCE(v_swap.compensation_amount::TEXT, ''))
+        ELSE '' END),
+    'approved', 'completed'
+  );
+
+  INSERT INTO public.notifications (user_id, title, message, type, priority, data)
+  VALUES
+    (
+      v_swap.requestor_id,
+      'Shift swap completed',
+      CASE WHEN v_is_exchange
+        THEN format('You now work %s''s shift on %s; %s works yours on %s.',
+          v_target_name, v_target_date, v_target_name, v_swap.requestor_date)
+        ELSE format('%s is covering your shift on %s.', v_target_name, v_swap.requestor_date)
+      END,
+      'success', 'normal',
+      jsonb_build_object('swapRequestId', p_swap_id, 'swapCode', v_swap.swap_code, 'swapType', v_swap.swap_type)
+    ),
+    (
+      v_swap.target_id,
+      'Shift swap completed',
+      CASE WHEN v_is_exchange
+        THEN format('You now work %s''s shift on %s; %s works yours on %s.',
+          v_requestor_name, v_swap.requestor_date, v_requestor_name, v_target_date)
+        ELSE format('You are covering %s''s shift on %s.', v_requestor_name, v_swap.requestor_date)
+      END,
+      'success', 'normal',
+      jsonb_build_object('swapRequestId', p_swap_id, 'swapCode', v_swap.swap_code, 'swapType', v_swap.swap_type,
+        'compensationId', v_compensation_id)
+    );
+
+  RETURN jsonb_build_object(
+    'swapRequestId', p_swap_id,
+    'swapType', v_swap.swap_type,
+    'assignmentIds', to_jsonb(v_created),
+    'compensationId', v_compensation_id
+  );
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,147 @@
+-- ============================================
+-- Leave Management
+-- Migration: 009
+-- Description: Leave types, per-employee yearly balances with accrual
+--              and carry-over, and leave requests approved by the
+--              manager and (where required) HR
+-- ============================================
+
+-- ============================================
+-- LEAVE TYPES
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.leave_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(30) UNIQUE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+
+  -- Entitlement
+  is_paid BOOLEAN DEFAULT true,
+  deducts_balance BOOLEAN DEFAULT true,
+  annual_entitlement_days DECIMAL(5,2) DEFAULT 0,
+  accrual_method VARCHAR(20) DEFAULT 'yearly',
+
+  -- Carry-over into the next year
+  max_carry_over_days DECIMAL(5,2) DEFAULT 0,
+  carry_over_expiry_months INTEGER,
+
+  -- Request rules
+  max_consecutive_days INTEGER,
+  min_notice_days INTEGER DEFAULT 0,
+  requires_document BOOLEAN DEFAULT false,
+  requires_hr_approval BOOLEAN DEFAULT false,
+  allows_half_day BOOLEAN DEFAULT true,
+
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT valid_accrual_method CHECK (accrual_method IN ('yearly', 'monthly', 'none'))
+);
+
+INSERT INTO public.leave_types (
+  code, name, is_paid, deducts_balance, annual_entitlement_days, accrual_method,
+  max_carry_over_days, carry_over_expiry_months, max_consecutive_days,
+  min_notice_days, requires_document, requires_hr_approval, allows_half_day
+) VALUES
+  ('ANNUAL', 'Cuti Tahunan', true, true, 12, 'monthly', 6, 3, NULL, 3, false, false, true),
+  ('SICK', 'Cuti Sakit', true, true, 14, 'yearly', 0, NULL, NULL, 0, true, false, true),
+  ('UNPAID', 'Cuti Tanpa Gaji', false, false, 0, 'none', 0, NULL, 30, 7, false, true, false),
+  ('MATERNITY', 'Cuti Melahirkan', true, true, 90, 'yearly', 0, NULL, 90, 14, true, true, false),
+  ('PATERNITY', 'Cuti Ayah', true, true, 2, 'yearly', 0, NULL, 2, 0, true, false, false),
+  ('MARRIAGE', 'Cuti Menikah', true, true, 3, 'yearly', 0, NULL, 3, 14, true, false, false),
+  ('BEREAVEMENT', 'Cuti Duka', true, true, 2, 'yearly', 0, NULL, 2, 0, false, false, false)
+ON CONFLICT (code) DO NOTHING;
+
+-- ============================================
+-- LEAVE BALANCES (one row per employee, type and year)
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.leave_balances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  leave_type_id UUID NOT NULL REFERENCES public.leave_types(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL,
+
+  entitled_days DECIMAL(5,2) DEFAULT 0,
+  accrued_days DECIMAL(5,2) DEFAULT 0,
+  carried_over_days DECIMAL(5,2) DEFAULT 0,
+  carry_over_expires_at DATE,
+  adjustment_days DECIMAL(5,2) DEFAULT 0,
+  used_days DECIMAL(5,2) DEFAULT 0,
+  pending_days DECIMAL(5,2) DEFAULT 0,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, leave_type_id, year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_balances_user ON public.leave_balances(user_id, year);
+
+-- ============================================
+-- LEAVE REQUESTS
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.leave_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  leave_type_id UUID NOT NULL REFERENCES public.leave_types(id),
+
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  half_day BOOLEAN DEFAULT false,
+  days DECIMAL(5,2) NOT NULL,
+  reason TEXT NOT NULL,
+  supporting_document TEXT,
+
+  -- Approval Workflow
+  status VARCHAR(20) DEFAULT 'pending_manager',
+
+  manager_id UUID,
+  manager_approved_at TIMESTAMPTZ,
+  manager_response VARCHAR(20),
+  manager_rejection_reason TEXT,
+
+  hr_id UUID,
+  hr_approved_at TIMESTAMPTZ,
+  hr_response VARCHAR(20),
+  hr_rejection_reason TEXT,
+
+  cancelled_at TIMESTAMPTZ,
+  cancellation_reason TEXT,
+
+  metadata JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT valid_leave_dates CHECK (end_date >= start_date),
+  CONSTRAINT valid_leave_status CHECK (status IN ('pending_manager', 'pending_hr', 'approved', 'rejected', 'cancelled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_leave_requests_user_dates ON public.leave_requests(user_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_status ON public.leave_requests(status);
+CREATE INDEX IF NOT EXISTS idx_leave_requests_manager ON public.leave_requests(manager_id, status);
+
+ALTER TABLE public.leave_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leave_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS leave_types_read ON public.leave_types;
+CREATE POLICY leave_types_read ON public.leave_types
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS leave_balances_view_own ON public.leave_balances;
+CREATE POLICY leave_balances_view_own ON public.leave_balances
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS leave_requests_view_own ON public.leave_requests;
+CREATE POLICY leave_requests_view_own ON public.leave_requests
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_leave_types_updated_at ON public.leave_types;
+CREATE TRIGGER update_leave_types_updated_at BEFORE UPDATE ON public.leave_types
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_leave_balances_updated_at ON public.leave_balances;
+CREATE TRIGGER update_leave_balances_updated_at BEFORE UPDATE ON public.leave_balances
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_leave_requests_updated_at ON public.leave_requests;
+CREATE TRIGGER update_leave_requests_updated_at BEFORE UPDATE ON public.leave_requests
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
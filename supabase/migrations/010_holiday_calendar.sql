@@ -0,0 +1,61 @@
+-- ============================================
+-- Holiday Calendar
+-- Migration: 010
+-- Description: National, regional and site-specific holidays, collective
+--              leave days (cuti bersama) and half-days, consulted by
+--              attendance evaluation, leave, overtime and absence checks
+-- ============================================
+
+-- Region an office site belongs to (e.g. province code), used to scope
+-- regional holidays
+ALTER TABLE public.office_sites
+  ADD COLUMN IF NOT EXISTS region VARCHAR(50);
+
+-- ============================================
+-- HOLIDAYS
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  type VARCHAR(20) NOT NULL DEFAULT 'national',
+
+  -- Scope: national/collective_leave/company apply everywhere, regional
+  -- days to sites in `region`, site days to a single office site
+  region VARCHAR(50),
+  site_id UUID REFERENCES public.office_sites(id) ON DELETE CASCADE,
+
+  -- Half-days end the working day early instead of cancelling it
+  is_half_day BOOLEAN DEFAULT false,
+  half_day_end_time TIME,
+
+  -- Where the entry came from (manual, ics, csv) and its external id
+  source VARCHAR(20) DEFAULT 'manual',
+  external_id VARCHAR(255),
+
+  is_active BOOLEAN DEFAULT true,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT valid_holiday_type CHECK (type IN ('national', 'regional', 'site', 'collective_leave', 'company')),
+  CONSTRAINT valid_holiday_source CHECK (source IN ('manual', 'ics', 'csv')),
+  CONSTRAINT regional_holiday_has_region CHECK (type <> 'regional' OR region IS NOT NULL),
+  CONSTRAINT site_holiday_has_site CHECK (type <> 'site' OR site_id IS NOT NULL),
+  CONSTRAINT half_day_has_end_time CHECK (NOT is_half_day OR half_day_end_time IS NOT NULL),
+  -- Re-importing the same calendar updates entries instead of duplicating them
+  CONSTRAINT unique_holiday_external UNIQUE (external_id, date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_holidays_date ON public.holidays(date) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_holidays_site ON public.holidays(site_id) WHERE site_id IS NOT NULL;
+
+ALTER TABLE public.holidays ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS holidays_read ON public.holidays;
+CREATE POLICY holidays_read ON public.holidays
+  FOR SELECT USING (true);
+
+DROP TRIGGER IF EXISTS update_holidays_updated_at ON public.holidays;
+CREATE TRIGGER update_holidays_updated_at BEFORE UPDATE ON public.holidays
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
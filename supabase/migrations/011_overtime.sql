@@ -0,0 +1,65 @@
+-- ============================================
+-- Overtime
+-- Migration: 011
+-- Description: Overtime detected per attendance day from clock-in,
+--              clock-out and breaks, split by rate tier, and the
+--              manager pre- or post-approval that makes it count
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.overtime_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  work_date DATE NOT NULL,
+  shift_id UUID REFERENCES public.shifts(id) ON DELETE SET NULL,
+
+  -- 'pre': requested before the work with a planned window,
+  -- 'post': claimed after overtime was detected
+  approval_type VARCHAR(10) NOT NULL DEFAULT 'post',
+  planned_start TIMESTAMPTZ,
+  planned_end TIMESTAMPTZ,
+  reason TEXT,
+  requested_by UUID REFERENCES public.users(id),
+
+  -- Detected from clock-in, clock-out and breaks
+  worked_minutes INTEGER DEFAULT 0,
+  detected_minutes INTEGER DEFAULT 0,
+  detected_weekday_minutes INTEGER DEFAULT 0,
+  detected_weekend_minutes INTEGER DEFAULT 0,
+  detected_holiday_minutes INTEGER DEFAULT 0,
+  segments JSONB DEFAULT '[]'::jsonb,
+  calculated_at TIMESTAMPTZ,
+
+  -- Approval Workflow
+  status VARCHAR(20) DEFAULT 'pending',
+  approver_id UUID REFERENCES public.users(id),
+  approved_at TIMESTAMPTZ,
+  rejection_reason TEXT,
+  approved_minutes_cap INTEGER,
+
+  -- Minutes that count: approved and actually worked
+  approved_weekday_minutes INTEGER DEFAULT 0,
+  approved_weekend_minutes INTEGER DEFAULT 0,
+  approved_holiday_minutes INTEGER DEFAULT 0,
+  weighted_hours DECIMAL(6,2) DEFAULT 0,
+
+  metadata JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, work_date),
+  CONSTRAINT valid_overtime_approval_type CHECK (approval_type IN ('pre', 'post')),
+  CONSTRAINT valid_overtime_status CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  CONSTRAINT valid_overtime_window CHECK (planned_end IS NULL OR planned_end > planned_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_overtime_records_user_date ON public.overtime_records(user_id, work_date);
+CREATE INDEX IF NOT EXISTS idx_overtime_records_status ON public.overtime_records(status);
+
+ALTER TABLE public.overtime_records ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS overtime_records_view_own ON public.overtime_records;
+CREATE POLICY overtime_records_view_own ON public.overtime_records
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_overtime_records_updated_at ON public.overtime_records;
+CREATE TRIGGER update_overtime_records_updated_at BEFORE UPDATE ON public.overtime_records
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,118 @@
+-- ============================================
+-- Payroll Period Close
+-- Migration: 012
+-- Description: Pay grades and per-employee hourly rates, payroll periods
+--              that lock once closed, and the per-employee entries
+--              aggregated from attendance when a period is closed
+-- ============================================
+
+-- ============================================
+-- PAY GRADES
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.pay_grades (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(20) UNIQUE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  hourly_rate DECIMAL(12,2) NOT NULL,
+  currency VARCHAR(3) DEFAULT 'IDR',
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT positive_grade_rate CHECK (hourly_rate >= 0)
+);
+
+-- An employee's own hourly rate takes precedence over their grade's rate
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS pay_grade_id UUID REFERENCES public.pay_grades(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS hourly_rate DECIMAL(12,2),
+  ADD COLUMN IF NOT EXISTS bank_code VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS bank_account_number VARCHAR(50);
+
+-- ============================================
+-- PAYROLL PERIODS
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.payroll_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+
+  -- Closed periods are locked: attendance, overtime and exceptions dated
+  -- inside them can't change until the period is explicitly reopened
+  status VARCHAR(20) DEFAULT 'open',
+  closed_at TIMESTAMPTZ,
+  closed_by UUID REFERENCES public.users(id),
+  reopened_at TIMESTAMPTZ,
+  reopened_by UUID REFERENCES public.users(id),
+  reopen_reason TEXT,
+  close_count INTEGER DEFAULT 0,
+
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT valid_payroll_period_status CHECK (status IN ('open', 'closed')),
+  CONSTRAINT valid_payroll_period_range CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_periods_dates ON public.payroll_periods(start_date, end_date);
+
+-- ============================================
+-- PAYROLL ENTRIES
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.payroll_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period_id UUID NOT NULL REFERENCES public.payroll_periods(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+
+  -- Rate used and where it came from ('employee' or 'grade')
+  hourly_rate DECIMAL(12,2) NOT NULL,
+  rate_source VARCHAR(20) NOT NULL,
+  pay_grade_id UUID REFERENCES public.pay_grades(id) ON DELETE SET NULL,
+
+  -- Time
+  worked_days INTEGER DEFAULT 0,
+  worked_minutes INTEGER DEFAULT 0,
+  regular_minutes INTEGER DEFAULT 0,
+  paid_break_minutes INTEGER DEFAULT 0,
+  unpaid_break_minutes INTEGER DEFAULT 0,
+  adjustment_minutes INTEGER DEFAULT 0,
+
+  -- Approved overtime by rate tier
+  overtime_weekday_minutes INTEGER DEFAULT 0,
+  overtime_weekend_minutes INTEGER DEFAULT 0,
+  overtime_holiday_minutes INTEGER DEFAULT 0,
+  overtime_weighted_hours DECIMAL(8,2) DEFAULT 0,
+
+  -- Approved exceptions and their salary deductions
+  approved_exceptions INTEGER DEFAULT 0,
+  deduction_amount DECIMAL(14,2) DEFAULT 0,
+
+  -- Amounts
+  base_pay DECIMAL(14,2) DEFAULT 0,
+  overtime_pay DECIMAL(14,2) DEFAULT 0,
+  gross_pay DECIMAL(14,2) DEFAULT 0,
+  net_pay DECIMAL(14,2) DEFAULT 0,
+
+  metadata JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(period_id, user_id),
+  CONSTRAINT valid_payroll_rate_source CHECK (rate_source IN ('employee', 'grade'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_entries_period ON public.payroll_entries(period_id);
+
+ALTER TABLE public.pay_grades ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS payroll_entries_view_own ON public.payroll_entries;
+CREATE POLICY payroll_entries_view_own ON public.payroll_entries
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_pay_grades_updated_at ON public.pay_grades;
+CREATE TRIGGER update_pay_grades_updated_at BEFORE UPDATE ON public.pay_grades
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_payroll_periods_updated_at ON public.payroll_periods;
+CREATE TRIGGER update_payroll_periods_updated_at BEFORE UPDATE ON public.payroll_periods
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
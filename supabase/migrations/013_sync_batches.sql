@@ -0,0 +1,216 @@
+-- ============================================
+-- Batch Sync Ingestion
+-- Migration: 013
+-- Description: Ledger of client mutations keyed by their idempotency key,
+--              and a function that applies one mutation and records its
+--              outcome in the same transaction so replays are harmless.
+--              Also holds the per-device keys that sign each batch.
+-- ============================================
+
+-- ============================================
+-- SYNC MUTATION LEDGER
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.sync_mutations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Monotonic position handed back to clients as their sync cursor
+  seq BIGSERIAL UNIQUE,
+
+  idempotency_key VARCHAR(200) NOT NULL,
+  submitted_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  device_id VARCHAR(100),
+  batch_id VARCHAR(100),
+
+  entity VARCHAR(30) NOT NULL,
+  entity_id VARCHAR(100) NOT NULL,
+  operation VARCHAR(10) NOT NULL,
+
+  -- Only outcomes that must stay stable on replay are stored; rejected
+  -- mutations changed nothing and may be corrected and resubmitted
+  status VARCHAR(20) NOT NULL,
+  result JSONB,
+  client_timestamp TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(submitted_by, idempotency_key),
+  CONSTRAINT valid_sync_mutation_status CHECK (status IN ('applied', 'conflict')),
+  CONSTRAINT valid_sync_mutation_operation CHECK (operation IN ('create', 'update', 'delete'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_mutations_entity ON public.sync_mutations(entity, entity_id);
+CREATE INDEX IF NOT EXISTS idx_sync_mutations_device ON public.sync_mutations(device_id, created_at DESC);
+
+ALTER TABLE public.sync_mutations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sync_mutations_view_own ON public.sync_mutations;
+CREATE POLICY sync_mutations_view_own ON public.sync_mutations
+  FOR SELECT USING (auth.uid() = submitted_by);
+
+-- ============================================
+-- SYNC DEVICE KEYS
+-- ============================================
+-- Each browser profile creates an ECDSA P-256 key pair, keeps the private
+-- key in IndexedDB and registers the public key once per signed-in user;
+-- POST /api/sync only accepts batches signed by the key registered for the
+-- batch's device.
+CREATE TABLE IF NOT EXISTS public.sync_device_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  device_id VARCHAR(100) NOT NULL,
+
+  -- ECDSA P-256 public key (JWK); the private key never leaves the device
+  public_key JSONB NOT NULL,
+
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- The first key registered for a device wins; a new key needs a new device id
+  UNIQUE(user_id, device_id)
+);
+
+ALTER TABLE public.sync_device_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS sync_device_keys_view_own ON public.sync_device_keys;
+CREATE POLICY sync_device_keys_view_own ON public.sync_device_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- ============================================
+-- APPLY ONE MUTATION
+-- ============================================
+-- Returns { status, seq, result } where status is one of:
+--   applied    the mutation changed the server
+--   duplicate  this key (or an identical record) was already applied
+--   conflict   the server copy diverged; result.serverRecord holds it
+-- Unsupported mutations raise SYNC_UNSUPPORTED_MUTATION and unknown
+-- targets raise SYNC_ENTITY_NOT_FOUND; nothing is recorded for either.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.apply_sync_mutation(
+  p_submitted_by UUID,
+  p_idempotency_key TEXT,
+  p_entity TEXT,
+  p_operation TEXT,
+  p_entity_id TEXT,
+  p_row JSONB,
+  p_base_version TIMESTAMPTZ DEFAULT NULL,
+  p_device_id TEXT DEFAULT NULL,
+  p_batch_id TEXT DEFAULT NULL,
+  p_client_timestamp TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_existing public.sync_mutations%ROWTYPE;
+  v_attendance public.attendance_records%ROWTYPE;
+  v_user_updated_at TIMESTAMPTZ;
+  v_status TEXT;
+  v_stored_status TEXT;
+  v_result JSONB;
+  v_seq BIGINT;
+BEGIN
+  -- Serialize concurrent submissions of the same key (e.g. the page and the
+  -- service worker flushing the same queue)
+  PERFORM pg_advisory_xact_lock(hashtext(p_submitted_by::TEXT || ':' || p_idempotency_key));
+
+  SELECT * INTO v_existing FROM public.sync_mutations
+  WHERE submitted_by = p_submitted_by AND idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', CASE WHEN v_existing.status = 'applied' THEN 'duplicate' ELSE v_existing.status END,
+      'seq', v_existing.seq,
+      'result', v_existing.result
+    );
+  END IF;
+
+  IF p_entity = 'attendance' AND p_operation = 'create' THEN
+    SELECT * INTO v_attendance FROM public.attendance_records
+    WHERE id = p_entity_id::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.attendance_records (
+        id, user_id, timestamp, type, location, photo_url, notes, status,
+        verified, synced, zone_violation, metadata
+      ) VALUES (
+        p_entity_id::UUID,
+        (p_row->>'user_id')::UUID,
+        (p_row->>'timestamp')::TIMESTAMPTZ,
+        p_row->>'type',
+        p_row->'location',
+        p_row->>'photo_url',
+        p_row->>'notes',
+        p_row->>'status',
+        COALESCE((p_row->>'verified')::BOOLEAN, false),
+        true,
+        COALESCE((p_row->>'zone_violation')::BOOLEAN, false),
+        p_row->'metadata'
+      )
+      RETURNING * INTO v_attendance;
+
+      v_status := 'applied';
+      v_stored_status := 'applied';
+      v_result := jsonb_build_object('record', to_jsonb(v_attendance));
+    ELSIF v_attendance.user_id = (p_row->>'user_id')::UUID
+      AND v_attendance.type = p_row->>'type'
+      AND v_attendance.timestamp = (p_row->>'timestamp')::TIMESTAMPTZ THEN
+      -- Same punch already uploaded under another key (e.g. the old
+      -- one-at-a-time path)
+      v_status := 'duplicate';
+      v_stored_status := 'applied';
+      v_result := jsonb_build_object('record', to_jsonb(v_attendance));
+    ELSE
+      v_status := 'conflict';
+      v_stored_status := 'conflict';
+      v_result := jsonb_build_object('serverRecord', to_jsonb(v_attendance));
+    END IF;
+
+  ELSIF p_entity = 'user' AND p_operation = 'update' THEN
+    SELECT updated_at INTO v_user_updated_at FROM public.users
+    WHERE id = p_entity_id::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'SYNC_ENTITY_NOT_FOUND' USING DETAIL = p_entity_id;
+    END IF;
+
+    IF p_base_version IS NOT NULL AND v_user_updated_at > p_base_version THEN
+      v_status := 'conflict';
+      v_stored_status := 'conflict';
+    ELSE
+      -- Only profile fields a device may edit offline
+      UPDATE public.users SET
+        name = COALESCE(p_row->>'name', name),
+        phone = CASE WHEN p_row ? 'phone' THEN p_row->>'phone' ELSE phone END,
+        department = CASE WHEN p_row ? 'department' THEN p_row->>'department' ELSE department END,
+        updated_at = NOW()
+      WHERE id = p_entity_id::UUID;
+
+      v_status := 'applied';
+      v_stored_status := 'applied';
+    END IF;
+
+    SELECT jsonb_build_object(
+      CASE WHEN v_status = 'conflict' THEN 'serverRecord' ELSE 'record' END,
+      jsonb_build_object(
+        'id', u.id, 'name', u.name, 'email', u.email, 'role', u.role,
+        'department', u.department, 'position', u.position, 'phone', u.phone,
+        'updated_at', u.updated_at
+      )
+    ) INTO v_result
+    FROM public.users u WHERE u.id = p_entity_id::UUID;
+
+  ELSE
+    RAISE EXCEPTION 'SYNC_UNSUPPORTED_MUTATION' USING DETAIL = p_entity || ':' || p_operation;
+  END IF;
+
+  INSERT INTO public.sync_mutations (
+    idempotency_key, submitted_by, device_id, batch_id, entity, entity_id,
+    operation, status, result, client_timestamp
+  ) VALUES (
+    p_idempotency_key, p_submitted_by, p_device_id, p_batch_id, p_entity, p_entity_id,
+    p_operation, v_stored_status, v_result, p_client_timestamp
+  )
+  RETURNING seq INTO v_seq;
+
+  RETURN jsonb_build_object('status', v_status, 'seq', v_seq, 'result', v_result);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,119 @@
+-- ============================================
+-- Change Feed for Delta Pull Sync
+-- Migration: 014
+-- Description: Per-entity change log keyed by a monotonic sequence, kept
+--              by triggers on the tables offline clients mirror. Deletes
+--              stay in the log as tombstones so clients can drop them.
+-- ============================================
+
+CREATE SEQUENCE IF NOT EXISTS public.sync_change_seq;
+
+-- ============================================
+-- CHANGE LOG
+-- ============================================
+-- One row per entity row: every write moves it to the end of the feed, so
+-- a client catching up only sees each row's latest state once
+CREATE TABLE IF NOT EXISTS public.sync_changes (
+  entity VARCHAR(40) NOT NULL,
+  entity_id UUID NOT NULL,
+  seq BIGINT NOT NULL DEFAULT nextval('public.sync_change_seq'),
+  operation VARCHAR(10) NOT NULL,
+
+  -- Employee the row belongs to; NULL for shared rows (shifts, settings)
+  owner_id UUID,
+
+  -- clock_timestamp() rather than NOW(): readers skip the last few seconds
+  -- of the feed so a slow transaction can't commit a lower seq behind them
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp(),
+
+  PRIMARY KEY (entity, entity_id),
+  CONSTRAINT valid_sync_change_operation CHECK (operation IN ('upsert', 'delete'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sync_changes_feed ON public.sync_changes(entity, seq);
+CREATE INDEX IF NOT EXISTS idx_sync_changes_owner ON public.sync_changes(entity, owner_id, seq);
+
+ALTER TABLE public.sync_changes ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- TRIGGER
+-- ============================================
+-- Arguments: entity name, and optionally the column holding the owner id
+CREATE OR REPLACE FUNCTION public.record_sync_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row JSONB;
+  v_owner UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := to_jsonb(OLD);
+  ELSE
+    v_row := to_jsonb(NEW);
+  END IF;
+
+  IF TG_NARGS > 1 THEN
+    v_owner := (v_row->>TG_ARGV[1])::UUID;
+  END IF;
+
+  INSERT INTO public.sync_changes (entity, entity_id, seq, operation, owner_id, changed_at)
+  VALUES (
+    TG_ARGV[0],
+    (v_row->>'id')::UUID,
+    nextval('public.sync_change_seq'),
+    CASE WHEN TG_OP = 'DELETE' THEN 'delete' ELSE 'upsert' END,
+    v_owner,
+    clock_timestamp()
+  )
+  ON CONFLICT (entity, entity_id) DO UPDATE SET
+    seq = EXCLUDED.seq,
+    operation = EXCLUDED.operation,
+    owner_id = EXCLUDED.owner_id,
+    changed_at = EXCLUDED.changed_at;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS sync_change_users ON public.users;
+CREATE TRIGGER sync_change_users AFTER INSERT OR UPDATE OR DELETE ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.record_sync_change('users', 'id');
+
+DROP TRIGGER IF EXISTS sync_change_face_embeddings ON public.face_embeddings;
+CREATE TRIGGER sync_change_face_embeddings AFTER INSERT OR UPDATE OR DELETE ON public.face_embeddings
+  FOR EACH ROW EXECUTE FUNCTION public.record_sync_change('face_embeddings', 'user_id');
+
+DROP TRIGGER IF EXISTS sync_change_shifts ON public.shifts;
+CREATE TRIGGER sync_change_shifts AFTER INSERT OR UPDATE OR DELETE ON public.shifts
+  FOR EACH ROW EXECUTE FUNCTION public.record_sync_change('shifts');
+
+DROP TRIGGER IF EXISTS sync_change_schedule_assignments ON public.schedule_assignments;
+CREATE TRIGGER sync_change_schedule_assignments AFTER INSERT OR UPDATE OR DELETE ON public.schedule_assignments
+  FOR EACH ROW EXECUTE FUNCTION public.record_sync_change('schedule_assignments', 'user_id');
+
+DROP TRIGGER IF EXISTS sync_change_settings ON public.settings;
+CREATE TRIGGER sync_change_settings AFTER INSERT OR UPDATE OR DELETE ON public.settings
+  FOR EACH ROW EXECUTE FUNCTION public.record_sync_change('settings');
+
+-- ============================================
+-- BACKFILL
+-- ============================================
+-- Existing rows enter the feed once so a first pull from cursor 0 is complete
+INSERT INTO public.sync_changes (entity, entity_id, operation, owner_id)
+SELECT 'users', id, 'upsert', id FROM public.users
+ON CONFLICT (entity, entity_id) DO NOTHING;
+
+INSERT INTO public.sync_changes (entity, entity_id, operation, owner_id)
+SELECT 'face_embeddings', id, 'upsert', user_id FROM public.face_embeddings
+ON CONFLICT (entity, entity_id) DO NOTHING;
+
+INSERT INTO public.sync_changes (entity, entity_id, operation, owner_id)
+SELECT 'shifts', id, 'upsert', NULL FROM public.shifts
+ON CONFLICT (entity, entity_id) DO NOTHING;
+
+INSERT INTO public.sync_changes (entity, entity_id, operation, owner_id)
+SELECT 'schedule_assignments', id, 'upsert', user_id FROM public.schedule_assignments
+ON CONFLICT (entity, entity_id) DO NOTHING;
+
+INSERT INTO public.sync_changes (entity, entity_id, operation, owner_id)
+SELECT 'settings', id, 'upsert', NULL FROM public.settings
+ON CONFLICT (entity, entity_id) DO NOTHING;
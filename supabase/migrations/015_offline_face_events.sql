@@ -0,0 +1,198 @@
+-- ============================================
+-- Offline Kiosk Face Events
+-- Migration: 015
+-- Description: Face check-ins a kiosk matched locally while offline. The
+--              server re-verifies each one on upload; accepted and
+--              re-matched events create attendance, rejected ones wait
+--              for HR review.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.offline_face_events (
+  -- Generated on the kiosk; also the attendance record id when one is created
+  id UUID PRIMARY KEY,
+
+  submitted_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  device_id VARCHAR(100),
+  site_id UUID REFERENCES public.office_sites(id) ON DELETE SET NULL,
+  type VARCHAR(20) NOT NULL,
+
+  -- Device clock at capture, the offset the kiosk last measured against the
+  -- server (device minus server) and the corrected server-time timestamp
+  captured_at TIMESTAMPTZ NOT NULL,
+  clock_offset_ms BIGINT NOT NULL DEFAULT 0,
+  event_timestamp TIMESTAMPTZ NOT NULL,
+
+  descriptor REAL[] NOT NULL,
+  liveness JSONB NOT NULL DEFAULT '{}'::jsonb,
+  location JSONB,
+
+  local_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  local_confidence REAL,
+  matched_user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  match_confidence REAL,
+
+  verdict VARCHAR(20) NOT NULL,
+  reason VARCHAR(50),
+  attendance_id UUID REFERENCES public.attendance_records(id) ON DELETE SET NULL,
+
+  -- Rejected events only
+  review_status VARCHAR(20),
+  reviewed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_offline_face_type CHECK (type IN ('check-in', 'check-out', 'break-start', 'break-end')),
+  CONSTRAINT valid_offline_face_verdict CHECK (verdict IN ('accepted', 'rematched', 'rejected')),
+  CONSTRAINT valid_offline_face_review CHECK (review_status IS NULL OR review_status IN ('pending', 'approved', 'dismissed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_offline_face_events_review ON public.offline_face_events(review_status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_offline_face_events_device ON public.offline_face_events(device_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_offline_face_events_matched ON public.offline_face_events(matched_user_id, event_timestamp DESC);
+
+ALTER TABLE public.offline_face_events ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_offline_face_events_updated_at ON public.offline_face_events;
+CREATE TRIGGER update_offline_face_events_updated_at BEFORE UPDATE ON public.offline_face_events
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- RECORD ONE VERIFIED EVENT
+-- ============================================
+-- Stores the verdict and, when p_attendance is given, the attendance record
+-- in one transaction. Returns { status, event } where status is 'applied',
+-- or 'duplicate' when the event id was already recorded.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.apply_offline_face_event(
+  p_event JSONB,
+  p_attendance JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_event public.offline_face_events%ROWTYPE;
+  v_attendance_id UUID;
+BEGIN
+  -- Serialize the page and the service worker uploading the same event
+  PERFORM pg_advisory_xact_lock(hashtext('offline_face_event:' || (p_event->>'id')));
+
+  SELECT * INTO v_event FROM public.offline_face_events WHERE id = (p_event->>'id')::UUID;
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', 'duplicate', 'event', to_jsonb(v_event));
+  END IF;
+
+  IF p_attendance IS NOT NULL THEN
+    INSERT INTO public.attendance_records (
+      id, user_id, timestamp, type, location, notes, status,
+      verified, synced, zone_violation, metadata
+    ) VALUES (
+      (p_attendance->>'id')::UUID,
+      (p_attendance->>'user_id')::UUID,
+      (p_attendance->>'timestamp')::TIMESTAMPTZ,
+      p_attendance->>'type',
+      p_attendance->'location',
+      p_attendance->>'notes',
+      p_attendance->>'status',
+      COALESCE((p_attendance->>'verified')::BOOLEAN, false),
+      true,
+      COALESCE((p_attendance->>'zone_violation')::BOOLEAN, false),
+      p_attendance->'metadata'
+    )
+    RETURNING id INTO v_attendance_id;
+  END IF;
+
+  INSERT INTO public.offline_face_events (
+    id, submitted_by, device_id, site_id, type, captured_at, clock_offset_ms,
+    event_timestamp, descriptor, liveness, location, local_user_id,
+    local_confidence, matched_user_id, match_confidence, verdict, reason,
+    attendance_id, review_status
+  ) VALUES (
+    (p_event->>'id')::UUID,
+    (p_event->>'submitted_by')::UUID,
+    p_event->>'device_id',
+    (p_event->>'site_id')::UUID,
+    p_event->>'type',
+    (p_event->>'captured_at')::TIMESTAMPTZ,
+    COALESCE((p_event->>'clock_offset_ms')::BIGINT, 0),
+    (p_event->>'event_timestamp')::TIMESTAMPTZ,
+    ARRAY(SELECT jsonb_array_elements_text(p_event->'descriptor')::REAL),
+    COALESCE(p_event->'liveness', '{}'::jsonb),
+    p_event->'location',
+    (p_event->>'local_user_id')::UUID,
+    (p_event->>'local_confidence')::REAL,
+    (p_event->>'matched_user_id')::UUID,
+    (p_event->>'match_confidence')::REAL,
+    p_event->>'verdict',
+    p_event->>'reason',
+    v_attendance_id,
+    CASE WHEN p_event->>'verdict' = 'rejected' THEN 'pending' ELSE NULL END
+  )
+  RETURNING * INTO v_event;
+
+  RETURN jsonb_build_object('status', 'applied', 'event', to_jsonb(v_event));
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- RESOLVE A REJECTED EVENT
+-- ============================================
+-- HR approves (creating the attendance record given in p_attendance) or
+-- dismisses a pending event. Raises OFFLINE_EVENT_NOT_FOUND or
+-- OFFLINE_EVENT_NOT_PENDING.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.resolve_offline_face_event(
+  p_event_id UUID,
+  p_decision TEXT,
+  p_reviewed_by UUID,
+  p_notes TEXT DEFAULT NULL,
+  p_attendance JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_event public.offline_face_events%ROWTYPE;
+  v_attendance_id UUID;
+BEGIN
+  SELECT * INTO v_event FROM public.offline_face_events WHERE id = p_event_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'OFFLINE_EVENT_NOT_FOUND' USING DETAIL = p_event_id::TEXT;
+  END IF;
+  IF v_event.review_status IS DISTINCT FROM 'pending' THEN
+    RAISE EXCEPTION 'OFFLINE_EVENT_NOT_PENDING' USING DETAIL = COALESCE(v_event.review_status, v_event.verdict);
+  END IF;
+
+  IF p_decision = 'approved' AND p_attendance IS NOT NULL THEN
+    INSERT INTO public.attendance_records (
+      id, user_id, timestamp, type, location, notes, status,
+      verified, synced, zone_violation, metadata
+    ) VALUES (
+      (p_attendance->>'id')::UUID,
+      (p_attendance->>'user_id')::UUID,
+      (p_attendance->>'timestamp')::TIMESTAMPTZ,
+      p_attendance->>'type',
+      p_attendance->'location',
+      p_attendance->>'notes',
+      p_attendance->>'status',
+      COALESCE((p_attendance->>'verified')::BOOLEAN, false),
+      true,
+      COALESCE((p_attendance->>'zone_violation')::BOOLEAN, false),
+      p_attendance->'metadata'
+    )
+    RETURNING id INTO v_attendance_id;
+  END IF;
+
+  UPDATE public.offline_face_events SET
+    review_status = p_decision,
+    reviewed_by = p_reviewed_by,
+    reviewed_at = NOW(),
+    review_notes = p_notes,
+    matched_user_id = COALESCE((p_attendance->>'user_id')::UUID, matched_user_id),
+    attendance_id = COALESCE(v_attendance_id, attendance_id)
+  WHERE id = p_event_id
+  RETURNING * INTO v_event;
+
+  RETURN to_jsonb(v_event);
+END;
+$$ LANGUAGE plpgsql;
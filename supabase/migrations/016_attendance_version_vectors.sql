@@ -0,0 +1,221 @@
+-- ============================================
+-- Attendance Version Vectors
+-- Migration: 016
+-- Description: Per-node edit counters on attendance records, so devices
+--              can tell a stale copy from a concurrent edit and merge
+--              against the common ancestor. Uploads based on an older
+--              server copy are reported as conflicts before anything is
+--              written; uploads based on the latest copy fast-forward it.
+-- ============================================
+
+ALTER TABLE public.attendance_records
+  ADD COLUMN IF NOT EXISTS version_vector JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================
+-- VECTOR HELPERS
+-- ============================================
+-- Pointwise maximum of two { node: count } objects
+CREATE OR REPLACE FUNCTION public.merge_version_vectors(p_a JSONB, p_b JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_object_agg(node, max_count), '{}'::jsonb)
+  FROM (
+    SELECT key AS node, MAX(value::BIGINT) AS max_count
+    FROM (
+      SELECT * FROM jsonb_each_text(COALESCE(p_a, '{}'::jsonb))
+      UNION ALL
+      SELECT * FROM jsonb_each_text(COALESCE(p_b, '{}'::jsonb))
+    ) entries
+    GROUP BY key
+  ) merged;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Writes that don't carry their own vector (online check-ins, admin
+-- edits) count as one edit by the server node
+CREATE OR REPLACE FUNCTION public.bump_attendance_version_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.version_vector IS NULL OR NEW.version_vector = '{}'::jsonb THEN
+      NEW.version_vector := jsonb_build_object('server', 1);
+    END IF;
+  ELSIF NEW.version_vector IS NOT DISTINCT FROM OLD.version_vector THEN
+    NEW.version_vector := jsonb_set(
+      COALESCE(OLD.version_vector, '{}'::jsonb),
+      '{server}',
+      to_jsonb(COALESCE((OLD.version_vector->>'server')::BIGINT, 0) + 1)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_attendance_version_vector ON public.attendance_records;
+CREATE TRIGGER bump_attendance_version_vector BEFORE INSERT OR UPDATE ON public.attendance_records
+  FOR EACH ROW EXECUTE FUNCTION public.bump_attendance_version_vector();
+
+UPDATE public.attendance_records SET version_vector = jsonb_build_object('server', 1)
+WHERE version_vector = '{}'::jsonb;
+
+-- ============================================
+-- APPLY ONE MUTATION
+-- ============================================
+-- As in migration 013, except attendance creates for an existing id:
+--   identical punch            duplicate
+--   p_base_version is current  applied (fast-forward update)
+--   otherwise                  conflict; result.serverRecord holds the
+--                              server copy with its version_vector
+-- ============================================
+CREATE OR REPLACE FUNCTION public.apply_sync_mutation(
+  p_submitted_by UUID,
+  p_idempotency_key TEXT,
+  p_entity TEXT,
+  p_operation TEXT,
+  p_entity_id TEXT,
+  p_row JSONB,
+  p_base_version TIMESTAMPTZ DEFAULT NULL,
+  p_device_id TEXT DEFAULT NULL,
+  p_batch_id TEXT DEFAULT NULL,
+  p_client_timestamp TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_existing public.sync_mutations%ROWTYPE;
+  v_attendance public.attendance_records%ROWTYPE;
+  v_user_updated_at TIMESTAMPTZ;
+  v_status TEXT;
+  v_stored_status TEXT;
+  v_result JSONB;
+  v_seq BIGINT;
+BEGIN
+  -- Serialize concurrent submissions of the same key (e.g. the page and the
+  -- service worker flushing the same queue)
+  PERFORM pg_advisory_xact_lock(hashtext(p_submitted_by::TEXT || ':' || p_idempotency_key));
+
+  SELECT * INTO v_existing FROM public.sync_mutations
+  WHERE submitted_by = p_submitted_by AND idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', CASE WHEN v_existing.status = 'applied' THEN 'duplicate' ELSE v_existing.status END,
+      'seq', v_existing.seq,
+      'result', v_existing.result
+    );
+  END IF;
+
+  IF p_entity = 'attendance' AND p_operation = 'create' THEN
+    SELECT * INTO v_attendance FROM public.attendance_records
+    WHERE id = p_entity_id::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.attendance_records (
+        id, user_id, timestamp, type, location, photo_url, notes, status,
+        verified, synced, zone_violation, metadata, version_vector
+      ) VALUES (
+        p_entity_id::UUID,
+        (p_row->>'user_id')::UUID,
+        (p_row->>'timestamp')::TIMESTAMPTZ,
+        p_row->>'type',
+        p_row->'location',
+        p_row->>'photo_url',
+        p_row->>'notes',
+        p_row->>'status',
+        COALESCE((p_row->>'verified')::BOOLEAN, false),
+        true,
+        COALESCE((p_row->>'zone_violation')::BOOLEAN, false),
+        p_row->'metadata',
+        COALESCE(p_row->'version_vector', '{}'::jsonb)
+      )
+      RETURNING * INTO v_attendance;
+
+      v_status := 'applied';
+      v_stored_status := 'applied';
+      v_result := jsonb_build_object('record', to_jsonb(v_attendance));
+    ELSIF v_attendance.user_id = (p_row->>'user_id')::UUID
+      AND v_attendance.type = p_row->>'type'
+      AND v_attendance.timestamp = (p_row->>'timestamp')::TIMESTAMPTZ
+      AND v_attendance.notes IS NOT DISTINCT FROM p_row->>'notes' THEN
+      -- Same punch already uploaded under another key (e.g. the old
+      -- one-at-a-time path)
+      v_status := 'duplicate';
+      v_stored_status := 'applied';
+      v_result := jsonb_build_object('record', to_jsonb(v_attendance));
+    ELSIF p_base_version IS NOT NULL
+      AND v_attendance.user_id = (p_row->>'user_id')::UUID
+      AND date_trunc('milliseconds', v_attendance.updated_at) <= p_base_version THEN
+      -- The device edited the latest server copy (typically a merged
+      -- record after a conflict): fast-forward
+      UPDATE public.attendance_records SET
+        timestamp = (p_row->>'timestamp')::TIMESTAMPTZ,
+        type = p_row->>'type',
+        location = p_row->'location',
+        photo_url = COALESCE(p_row->>'photo_url', photo_url),
+        notes = p_row->>'notes',
+        status = p_row->>'status',
+        zone_violation = COALESCE((p_row->>'zone_violation')::BOOLEAN, zone_violation),
+        metadata = p_row->'metadata',
+        version_vector = public.merge_version_vectors(version_vector, p_row->'version_vector'),
+        updated_at = NOW()
+      WHERE id = p_entity_id::UUID
+      RETURNING * INTO v_attendance;
+
+      v_status := 'applied';
+      v_stored_status := 'applied';
+      v_result := jsonb_build_object('record', to_jsonb(v_attendance));
+    ELSE
+      v_status := 'conflict';
+      v_stored_status := 'conflict';
+      v_result := jsonb_build_object('serverRecord', to_jsonb(v_attendance));
+    END IF;
+
+  ELSIF p_entity = 'user' AND p_operation = 'update' THEN
+    SELECT updated_at INTO v_user_updated_at FROM public.users
+    WHERE id = p_entity_id::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'SYNC_ENTITY_NOT_FOUND' USING DETAIL = p_entity_id;
+    END IF;
+
+    IF p_base_version IS NOT NULL AND v_user_updated_at > p_base_version THEN
+      v_status := 'conflict';
+      v_stored_status := 'conflict';
+    ELSE
+      -- Only profile fields a device may edit offline
+      UPDATE public.users SET
+        name = COALESCE(p_row->>'name', name),
+        phone = CASE WHEN p_row ? 'phone' THEN p_row->>'phone' ELSE phone END,
+        department = CASE WHEN p_row ? 'department' THEN p_row->>'department' ELSE department END,
+        updated_at = NOW()
+      WHERE id = p_entity_id::UUID;
+
+      v_status := 'applied';
+      v_stored_status := 'applied';
+    END IF;
+
+    SELECT jsonb_build_object(
+      CASE WHEN v_status = 'conflict' THEN 'serverRecord' ELSE 'record' END,
+      jsonb_build_object(
+        'id', u.id, 'name', u.name, 'email', u.email, 'role', u.role,
+        'department', u.department, 'position', u.position, 'phone', u.phone,
+        'updated_at', u.updated_at
+      )
+    ) INTO v_result
+    FROM public.users u WHERE u.id = p_entity_id::UUID;
+
+  ELSE
+    RAISE EXCEPTION 'SYNC_UNSUPPORTED_MUTATION' USING DETAIL = p_entity || ':' || p_operation;
+  END IF;
+
+  INSERT INTO public.sync_mutations (
+    idempotency_key, submitted_by, device_id, batch_id, entity, entity_id,
+    operation, status, result, client_timestamp
+  ) VALUES (
+    p_idempotency_key, p_submitted_by, p_device_id, p_batch_id, p_entity, p_entity_id,
+    p_operation, v_stored_status, v_result, p_client_timestamp
+  )
+  RETURNING seq INTO v_seq;
+
+  RETURN jsonb_build_object('status', v_status, 'seq', v_seq, 'result', v_result);
+END;
+$$ LANGUAGE plpgsql;
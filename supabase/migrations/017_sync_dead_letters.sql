@@ -0,0 +1,140 @@
+-- ============================================
+-- Sync Dead Letters
+-- Migration: 017
+-- Description: Queued offline changes a device stopped retrying (retries
+--              exhausted, permanently rejected or conflicting). Devices
+--              report them here so admins can retry, edit-and-retry or
+--              discard them from the monitoring console.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.sync_dead_letters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  device_id VARCHAR(100) NOT NULL,
+  reported_by UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+
+  -- The mutation as the device last tried to upload it
+  idempotency_key VARCHAR(200) NOT NULL,
+  entity VARCHAR(20) NOT NULL,
+  entity_id VARCHAR(100) NOT NULL,
+  operation VARCHAR(10) NOT NULL,
+  mutation JSONB NOT NULL,
+
+  reason VARCHAR(20) NOT NULL,
+  last_error TEXT NOT NULL,
+  error_code VARCHAR(50),
+  http_status INTEGER,
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  payload_diff JSONB,
+  device_info JSONB NOT NULL DEFAULT '{}'::jsonb,
+  failed_at TIMESTAMPTZ NOT NULL,
+  last_reported_at TIMESTAMPTZ DEFAULT NOW(),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'open',
+  -- Retries started from the console, and the last one's sync result
+  retry_attempts INTEGER NOT NULL DEFAULT 0,
+  resolution JSONB,
+  resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  notes TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_sync_dead_letter UNIQUE (device_id, idempotency_key),
+  CONSTRAINT valid_sync_dead_letter_reason CHECK (reason IN ('max_retries', 'rejected', 'conflict', 'request_rejected')),
+  CONSTRAINT valid_sync_dead_letter_status CHECK (status IN ('open', 'resolved', 'discarded'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_sync_dead_letters_device ON public.sync_dead_letters(device_id, status, failed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sync_dead_letters_status ON public.sync_dead_letters(status, failed_at DESC);
+
+ALTER TABLE public.sync_dead_letters ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_sync_dead_letters_updated_at ON public.sync_dead_letters;
+CREATE TRIGGER update_sync_dead_letters_updated_at BEFORE UPDATE ON public.sync_dead_letters
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Per-device counts for the monitoring console
+CREATE OR REPLACE VIEW public.sync_dead_letter_devices AS
+SELECT
+  device_id,
+  COUNT(*) FILTER (WHERE status = 'open') AS open_count,
+  COUNT(*) FILTER (WHERE status = 'resolved') AS resolved_count,
+  COUNT(*) FILTER (WHERE status = 'discarded') AS discarded_count,
+  MAX(failed_at) AS last_failed_at,
+  MAX(last_reported_at) AS last_reported_at,
+  (ARRAY_AGG(device_info ORDER BY last_reported_at DESC NULLS LAST))[1] AS device_info,
+  (ARRAY_AGG(reported_by ORDER BY last_reported_at DESC NULLS LAST))[1] AS reported_by
+FROM public.sync_dead_letters
+GROUP BY device_id;
+
+-- ============================================
+-- RECORD A DEVICE REPORT
+-- ============================================
+-- Upserts each reported dead letter by (device, idempotency key). Closed
+-- entries are left as the admin settled them. Returns the reported keys
+-- that are already resolved or discarded, so the device can drop them.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.report_sync_dead_letters(
+  p_device_id TEXT,
+  p_reported_by UUID,
+  p_reports JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_report JSONB;
+  v_closed JSONB := '[]'::jsonb;
+BEGIN
+  FOR v_report IN SELECT * FROM jsonb_array_elements(p_reports)
+  LOOP
+    INSERT INTO public.sync_dead_letters (
+      device_id, reported_by, idempotency_key, entity, entity_id, operation,
+      mutation, reason, last_error, error_code, http_status, retry_count,
+      payload_diff, device_info, failed_at, last_reported_at
+    ) VALUES (
+      p_device_id,
+      p_reported_by,
+      v_report->'mutation'->>'idempotencyKey',
+      v_report->'mutation'->>'entity',
+      v_report->'mutation'->>'entityId',
+      v_report->'mutation'->>'operation',
+      v_report->'mutation',
+      v_report->>'reason',
+      v_report->>'lastError',
+      v_report->>'errorCode',
+      (v_report->>'httpStatus')::INTEGER,
+      COALESCE((v_report->>'retryCount')::INTEGER, 0),
+      v_report->'payloadDiff',
+      COALESCE(v_report->'device', '{}'::jsonb),
+      (v_report->>'failedAt')::TIMESTAMPTZ,
+      NOW()
+    )
+    ON CONFLICT (device_id, idempotency_key) DO UPDATE SET
+      reported_by = EXCLUDED.reported_by,
+      reason = EXCLUDED.reason,
+      last_error = EXCLUDED.last_error,
+      error_code = EXCLUDED.error_code,
+      http_status = EXCLUDED.http_status,
+      retry_count = EXCLUDED.retry_count,
+      payload_diff = EXCLUDED.payload_diff,
+      device_info = EXCLUDED.device_info,
+      failed_at = EXCLUDED.failed_at,
+      last_reported_at = NOW()
+    WHERE public.sync_dead_letters.status = 'open'
+      -- Once retried from the console, the console's last error is the current one
+      AND public.sync_dead_letters.retry_attempts = 0;
+  END LOOP;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('idempotencyKey', idempotency_key, 'status', status)), '[]'::jsonb)
+  INTO v_closed
+  FROM public.sync_dead_letters
+  WHERE device_id = p_device_id
+    AND status <> 'open'
+    AND idempotency_key IN (
+      SELECT value->'mutation'->>'idempotencyKey' FROM jsonb_array_elements(p_reports)
+    );
+
+  RETURN jsonb_build_object('received', jsonb_array_length(p_reports), 'closed', v_closed);
+END;
+$$ LANGUAGE plpgsql;
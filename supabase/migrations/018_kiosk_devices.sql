@@ -0,0 +1,132 @@
+-- ============================================
+-- Kiosk Devices
+-- Migration: 018
+-- Description: Shared face check-in tablets. An admin issues a one-time
+--              enrollment code for a site; the tablet registers a public
+--              key with it and signs every request afterwards. Check-ins
+--              record the device that captured them.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.kiosk_devices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  site_id UUID NOT NULL REFERENCES public.office_sites(id) ON DELETE RESTRICT,
+
+  -- ECDSA P-256 public key (JWK); the private key never leaves the tablet
+  public_key JSONB NOT NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'active',
+  disabled_at TIMESTAMPTZ,
+  disabled_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  disabled_reason TEXT,
+
+  enrolled_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  enrolled_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- Any verified request / the periodic heartbeat
+  last_seen_at TIMESTAMPTZ,
+  last_seen_ip VARCHAR(64),
+  last_heartbeat_at TIMESTAMPTZ,
+  heartbeat JSONB,
+  user_agent TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_kiosk_device_status CHECK (status IN ('active', 'disabled'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_kiosk_devices_site ON public.kiosk_devices(site_id);
+
+ALTER TABLE public.kiosk_devices ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_kiosk_devices_updated_at ON public.kiosk_devices;
+CREATE TRIGGER update_kiosk_devices_updated_at BEFORE UPDATE ON public.kiosk_devices
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.kiosk_enrollment_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- SHA-256 of the code; the code itself is shown to the admin once
+  code_hash VARCHAR(64) NOT NULL UNIQUE,
+  site_id UUID NOT NULL REFERENCES public.office_sites(id) ON DELETE CASCADE,
+  label VARCHAR(100),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  device_id UUID REFERENCES public.kiosk_devices(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_kiosk_enrollment_codes_open ON public.kiosk_enrollment_codes(expires_at) WHERE used_at IS NULL;
+
+ALTER TABLE public.kiosk_enrollment_codes ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.attendance_records
+  ADD COLUMN IF NOT EXISTS kiosk_device_id UUID REFERENCES public.kiosk_devices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_attendance_records_kiosk_device
+  ON public.attendance_records(kiosk_device_id, timestamp DESC)
+  WHERE kiosk_device_id IS NOT NULL;
+
+-- Devices with their site and recent check-in counts
+CREATE OR REPLACE VIEW public.kiosk_device_overview AS
+SELECT
+  d.*,
+  s.name AS site_name,
+  COUNT(a.id) FILTER (WHERE a.timestamp >= NOW() - INTERVAL '1 day') AS checkins_24h,
+  COUNT(a.id) FILTER (WHERE a.timestamp >= NOW() - INTERVAL '7 days') AS checkins_7d,
+  COUNT(a.id) AS checkins_30d,
+  COUNT(DISTINCT a.user_id) AS employees_30d,
+  MAX(a.timestamp) AS last_checkin_at
+FROM public.kiosk_devices d
+LEFT JOIN public.office_sites s ON s.id = d.site_id
+LEFT JOIN public.attendance_records a
+  ON a.kiosk_device_id = d.id
+  AND a.timestamp >= NOW() - INTERVAL '30 days'
+GROUP BY d.id, s.name;
+
+-- ============================================
+-- REDEEM AN ENROLLMENT CODE
+-- ============================================
+-- Registers the device on the code's site and marks the code used, in one
+-- transaction so a code can only ever enroll one device. Raises
+-- ENROLLMENT_CODE_INVALID for unknown, used or expired codes.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.redeem_kiosk_enrollment_code(
+  p_code_hash TEXT,
+  p_device JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_code public.kiosk_enrollment_codes%ROWTYPE;
+  v_device public.kiosk_devices%ROWTYPE;
+BEGIN
+  SELECT * INTO v_code
+  FROM public.kiosk_enrollment_codes
+  WHERE code_hash = p_code_hash
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_code.used_at IS NOT NULL OR v_code.expires_at < NOW() THEN
+    RAISE EXCEPTION 'ENROLLMENT_CODE_INVALID';
+  END IF;
+
+  INSERT INTO public.kiosk_devices (
+    name, site_id, public_key, enrolled_by, user_agent, last_seen_at
+  ) VALUES (
+    COALESCE(NULLIF(p_device->>'name', ''), v_code.label, 'Kiosk'),
+    v_code.site_id,
+    p_device->'public_key',
+    v_code.created_by,
+    p_device->>'user_agent',
+    NOW()
+  )
+  RETURNING * INTO v_device;
+
+  UPDATE public.kiosk_enrollment_codes SET
+    used_at = NOW(),
+    device_id = v_device.id
+  WHERE id = v_code.id;
+
+  RETURN to_jsonb(v_device);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,131 @@
+-- ============================================
+-- Supervisor-Assisted Manual Check-ins
+-- Migration: 019
+-- Description: Fallback when face recognition fails at a kiosk. The
+--              employee identifies with an employee ID or PIN, the kiosk
+--              captures a photo as evidence and a supervisor co-signs,
+--              on the kiosk or later from the review queue. The attendance
+--              record is only created on co-sign and is never marked
+--              verified.
+-- ============================================
+
+-- Evidence photos; private, read through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attendance-evidence',
+  'attendance-evidence',
+  false,
+  2097152, -- 2MB limit
+  ARRAY['image/jpeg', 'image/png', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.manual_checkins (
+  -- Also the attendance record id once co-signed
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  type VARCHAR(20) NOT NULL,
+  -- Server time when the employee was at the kiosk
+  event_timestamp TIMESTAMPTZ NOT NULL,
+
+  identified_by VARCHAR(20) NOT NULL,
+  -- Why face recognition was bypassed (LOW_CONFIDENCE, FACE_NOT_RECOGNIZED, ...)
+  face_error_code VARCHAR(50),
+  photo_path TEXT NOT NULL,
+
+  kiosk_device_id UUID REFERENCES public.kiosk_devices(id) ON DELETE SET NULL,
+  location JSONB,
+  -- Geofence result at capture time
+  geofence JSONB,
+  zone_violation BOOLEAN DEFAULT false,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  cosigned_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  cosigned_at TIMESTAMPTZ,
+  -- 'kiosk' when the supervisor signed on the spot, 'review' from the queue
+  cosign_via VARCHAR(20),
+  review_notes TEXT,
+  attendance_id UUID REFERENCES public.attendance_records(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_manual_checkin_type CHECK (type IN ('check-in', 'check-out', 'break-start', 'break-end')),
+  CONSTRAINT valid_manual_checkin_identified_by CHECK (identified_by IN ('employeeId', 'pin')),
+  CONSTRAINT valid_manual_checkin_status CHECK (status IN ('pending', 'approved', 'rejected')),
+  CONSTRAINT valid_manual_checkin_cosign_via CHECK (cosign_via IS NULL OR cosign_via IN ('kiosk', 'review'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_manual_checkins_status ON public.manual_checkins(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_manual_checkins_user ON public.manual_checkins(user_id, event_timestamp DESC);
+
+ALTER TABLE public.manual_checkins ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_manual_checkins_updated_at ON public.manual_checkins;
+CREATE TRIGGER update_manual_checkins_updated_at BEFORE UPDATE ON public.manual_checkins
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- CO-SIGN OR REJECT A MANUAL CHECK-IN
+-- ============================================
+-- Approving creates the attendance record given in p_attendance in the same
+-- transaction, so a check-in can only be co-signed once. Raises
+-- MANUAL_CHECKIN_NOT_FOUND or MANUAL_CHECKIN_NOT_PENDING.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.resolve_manual_checkin(
+  p_id UUID,
+  p_decision TEXT,
+  p_cosigned_by UUID,
+  p_via TEXT,
+  p_notes TEXT DEFAULT NULL,
+  p_attendance JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_checkin public.manual_checkins%ROWTYPE;
+  v_attendance_id UUID;
+BEGIN
+  SELECT * INTO v_checkin FROM public.manual_checkins WHERE id = p_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'MANUAL_CHECKIN_NOT_FOUND' USING DETAIL = p_id::TEXT;
+  END IF;
+  IF v_checkin.status <> 'pending' THEN
+    RAISE EXCEPTION 'MANUAL_CHECKIN_NOT_PENDING' USING DETAIL = v_checkin.status;
+  END IF;
+
+  IF p_decision = 'approved' AND p_attendance IS NOT NULL THEN
+    INSERT INTO public.attendance_records (
+      id, user_id, timestamp, type, location, notes, status,
+      verified, synced, zone_violation, metadata, kiosk_device_id
+    ) VALUES (
+      (p_attendance->>'id')::UUID,
+      (p_attendance->>'user_id')::UUID,
+      (p_attendance->>'timestamp')::TIMESTAMPTZ,
+      p_attendance->>'type',
+      p_attendance->'location',
+      p_attendance->>'notes',
+      p_attendance->>'status',
+      false,
+      true,
+      COALESCE((p_attendance->>'zone_violation')::BOOLEAN, false),
+      p_attendance->'metadata',
+      (p_attendance->>'kiosk_device_id')::UUID
+    )
+    RETURNING id INTO v_attendance_id;
+  END IF;
+
+  UPDATE public.manual_checkins SET
+    status = p_decision,
+    cosigned_by = p_cosigned_by,
+    cosigned_at = NOW(),
+    cosign_via = p_via,
+    review_notes = p_notes,
+    attendance_id = v_attendance_id
+  WHERE id = p_id
+  RETURNING * INTO v_checkin;
+
+  RETURN to_jsonb(v_checkin);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,84 @@
+-- ============================================
+-- Face Embedding Lifecycle
+-- Migration: 020
+-- Description: Match statistics per enrolled embedding so embeddings that
+--              keep scoring low on successful check-ins can be flagged for
+--              re-enrollment. Embeddings past their maximum age are retired
+--              by the lifecycle sweep.
+-- ============================================
+
+ALTER TABLE public.face_embeddings
+  ADD COLUMN IF NOT EXISTS match_count INTEGER NOT NULL DEFAULT 0,
+  -- Consecutive successful matches scoring just above the threshold
+  ADD COLUMN IF NOT EXISTS low_match_streak INTEGER NOT NULL DEFAULT 0,
+  -- Exponential moving average of match confidence
+  ADD COLUMN IF NOT EXISTS avg_match_confidence FLOAT,
+  ADD COLUMN IF NOT EXISTS last_matched_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS needs_reenrollment BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS flagged_at TIMESTAMPTZ,
+  -- Why the embedding was flagged ('low_match_score') or retired ('aged_out')
+  ADD COLUMN IF NOT EXISTS lifecycle_reason VARCHAR(30);
+
+CREATE INDEX IF NOT EXISTS idx_face_embeddings_reenrollment
+  ON public.face_embeddings(user_id)
+  WHERE needs_reenrollment = true AND is_active = true;
+
+-- ============================================
+-- RECORD A SUCCESSFUL MATCH
+-- ============================================
+-- Updates the statistics of the embedding that produced a match in one
+-- statement, so concurrent check-ins don't lose counts. A score below
+-- p_low_confidence extends the streak; p_flag_after low scores in a row
+-- flag the embedding. Returns the updated statistics and whether this call
+-- raised the flag.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.record_face_embedding_match(
+  p_embedding_id UUID,
+  p_confidence FLOAT,
+  p_low_confidence FLOAT,
+  p_flag_after INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_was_flagged BOOLEAN;
+  v_row public.face_embeddings%ROWTYPE;
+BEGIN
+  SELECT needs_reenrollment INTO v_was_flagged
+  FROM public.face_embeddings WHERE id = p_embedding_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.face_embeddings SET
+    match_count = match_count + 1,
+    low_match_streak = CASE WHEN p_confidence < p_low_confidence THEN low_match_streak + 1 ELSE 0 END,
+    avg_match_confidence = CASE
+      WHEN avg_match_confidence IS NULL THEN p_confidence
+      ELSE avg_match_confidence * 0.8 + p_confidence * 0.2
+    END,
+    last_matched_at = NOW(),
+    needs_reenrollment = needs_reenrollment
+      OR (p_confidence < p_low_confidence AND low_match_streak + 1 >= p_flag_after),
+    lifecycle_reason = CASE
+      WHEN NOT needs_reenrollment AND p_confidence < p_low_confidence AND low_match_streak + 1 >= p_flag_after
+        THEN 'low_match_score'
+      ELSE lifecycle_reason
+    END,
+    flagged_at = CASE
+      WHEN NOT needs_reenrollment AND p_confidence < p_low_confidence AND low_match_streak + 1 >= p_flag_after
+        THEN NOW()
+      ELSE flagged_at
+    END
+  WHERE id = p_embedding_id
+  RETURNING * INTO v_row;
+
+  RETURN jsonb_build_object(
+    'match_count', v_row.match_count,
+    'low_match_streak', v_row.low_match_streak,
+    'avg_match_confidence', v_row.avg_match_confidence,
+    'needs_reenrollment', v_row.needs_reenrollment,
+    'newly_flagged', v_row.needs_reenrollment AND NOT v_was_flagged
+  );
+END;
+$$ LANGUAGE plpgsql;
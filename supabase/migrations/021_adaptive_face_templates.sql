@@ -0,0 +1,40 @@
+-- ============================================
+-- Adaptive Face Templates
+-- Migration: 021
+-- Description: Optional per-user 'adaptive' embedding refined from confident,
+--              liveness-checked check-ins, next to the enrolled ones. Every
+--              update keeps the previous vector so an admin can revert it.
+-- ============================================
+
+ALTER TABLE public.face_embeddings
+  ADD COLUMN IF NOT EXISTS kind VARCHAR(20) NOT NULL DEFAULT 'enrolled'
+    CHECK (kind IN ('enrolled', 'adaptive'));
+
+-- At most one active adaptive embedding per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_face_embeddings_one_adaptive
+  ON public.face_embeddings(user_id)
+  WHERE kind = 'adaptive' AND is_active = true;
+
+-- ============================================
+-- TEMPLATE UPDATE HISTORY
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.face_template_updates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  embedding_id UUID NOT NULL REFERENCES public.face_embeddings(id) ON DELETE CASCADE,
+  -- NULL when the update created the adaptive embedding
+  previous_embedding JSONB,
+  new_embedding JSONB NOT NULL,
+  -- Cosine similarity of the new vector to the user's enrolled reference
+  reference_similarity FLOAT NOT NULL,
+  match_confidence FLOAT NOT NULL,
+  match_margin FLOAT,
+  attendance_id UUID,
+  liveness_challenge_id TEXT,
+  reverted_at TIMESTAMPTZ,
+  reverted_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_face_template_updates_user
+  ON public.face_template_updates(user_id, created_at DESC);
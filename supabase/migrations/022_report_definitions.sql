@@ -0,0 +1,80 @@
+-- ============================================
+-- Report Definitions
+-- Migration: 022
+-- Description: Custom report builder definitions stored in the reports
+--              table (type 'custom') with an owner, sharing and a version
+--              number. Every save keeps a snapshot in report_versions.
+-- ============================================
+
+ALTER TABLE public.reports
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+  -- Visible to every report user
+  ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT false,
+  -- Users the owner shared the report with
+  ADD COLUMN IF NOT EXISTS shared_with UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_reports_created_by ON public.reports(created_by);
+CREATE INDEX IF NOT EXISTS idx_reports_shared_with ON public.reports USING GIN (shared_with);
+
+CREATE TABLE IF NOT EXISTS public.report_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  report_id UUID NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  config JSONB NOT NULL,
+  created_by UUID REFERENCES public.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (report_id, version)
+);
+
+-- ============================================
+-- SAVE A DEFINITION
+-- ============================================
+-- Creates the report when p_id is NULL, otherwise updates it only if it is
+-- still at p_expected_version, so two editors can't overwrite each other.
+-- Either way the saved state is appended to report_versions.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.save_report_definition(
+  p_id UUID,
+  p_name TEXT,
+  p_description TEXT,
+  p_config JSONB,
+  p_expected_version INTEGER,
+  p_user_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_report public.reports%ROWTYPE;
+BEGIN
+  IF p_id IS NULL THEN
+    INSERT INTO public.reports (name, description, type, config, created_by, version)
+    VALUES (p_name, p_description, 'custom', p_config, p_user_id, 1)
+    RETURNING * INTO v_report;
+  ELSE
+    SELECT * INTO v_report FROM public.reports WHERE id = p_id AND type = 'custom' FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'REPORT_NOT_FOUND' USING DETAIL = p_id::TEXT;
+    END IF;
+    IF v_report.version <> p_expected_version THEN
+      RAISE EXCEPTION 'REPORT_VERSION_CONFLICT' USING DETAIL = v_report.version::TEXT;
+    END IF;
+
+    UPDATE public.reports SET
+      name = p_name,
+      description = p_description,
+      config = p_config,
+      version = version + 1,
+      updated_at = NOW()
+    WHERE id = p_id
+    RETURNING * INTO v_report;
+  END IF;
+
+  INSERT INTO public.report_versions (report_id, version, name, description, config, created_by)
+  VALUES (v_report.id, v_report.version, v_report.name, v_report.description, v_report.config, p_user_id);
+
+  RETURN to_jsonb(v_report);
+END;
+$$ LANGUAGE plpgsql;
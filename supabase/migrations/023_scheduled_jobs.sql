@@ -0,0 +1,153 @@
+-- ============================================
+-- Scheduled Jobs
+-- Migration: 023
+-- Description: Scheduled report builder runs and data exports. Runners
+--              claim due jobs with a lease, so only one instance executes
+--              a job at a time, and record every run with its artifact in
+--              storage and the result of each delivery.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.scheduled_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  kind VARCHAR(20) NOT NULL,
+
+  -- Saved report definition (kind 'report'); exports keep their definition in config
+  report_id UUID REFERENCES public.reports(id) ON DELETE CASCADE,
+  config JSONB NOT NULL DEFAULT '{}'::jsonb,
+  format VARCHAR(10) NOT NULL,
+
+  -- Office-local schedule: time of day, plus weekday (0 = Sunday) or day of month
+  frequency VARCHAR(10) NOT NULL,
+  time_of_day VARCHAR(5) NOT NULL,
+  day_of_week SMALLINT,
+  day_of_month SMALLINT,
+
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  -- [{ "type": "email" | "webhook" | "filesystem", "target": "..." }]
+  channels JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_run_at TIMESTAMPTZ,
+  last_status VARCHAR(20),
+
+  -- Lease held by the runner executing the job
+  locked_by VARCHAR(100),
+  locked_until TIMESTAMPTZ,
+
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_scheduled_job_kind CHECK (kind IN ('report', 'export')),
+  CONSTRAINT valid_scheduled_job_format CHECK (format IN ('pdf', 'excel', 'csv', 'json')),
+  CONSTRAINT valid_scheduled_job_frequency CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  CONSTRAINT valid_scheduled_job_time CHECK (time_of_day ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  CONSTRAINT valid_scheduled_job_day_of_week CHECK (day_of_week IS NULL OR day_of_week BETWEEN 0 AND 6),
+  CONSTRAINT valid_scheduled_job_day_of_month CHECK (day_of_month IS NULL OR day_of_month BETWEEN 1 AND 31),
+  CONSTRAINT scheduled_report_has_report CHECK (kind <> 'report' OR report_id IS NOT NULL)
+);
+
+-- One schedule per saved report definition
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_jobs_report ON public.scheduled_jobs(report_id) WHERE report_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON public.scheduled_jobs(next_run_at) WHERE enabled;
+
+ALTER TABLE public.scheduled_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_scheduled_jobs_updated_at ON public.scheduled_jobs;
+CREATE TRIGGER update_scheduled_jobs_updated_at BEFORE UPDATE ON public.scheduled_jobs
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.scheduled_job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.scheduled_jobs(id) ON DELETE CASCADE,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'running',
+  -- NULL when started by the scheduler
+  triggered_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  runner_id VARCHAR(100),
+  scheduled_for TIMESTAMPTZ,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+
+  -- Rendered file in the exports storage bucket
+  artifact_path TEXT,
+  artifact_size INTEGER,
+  content_type VARCHAR(100),
+  record_count INTEGER,
+
+  -- [{ "type", "target", "success", "error", "deliveredAt" }]
+  deliveries JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+
+  CONSTRAINT valid_scheduled_job_run_status CHECK (status IN ('running', 'succeeded', 'partial', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job ON public.scheduled_job_runs(job_id, started_at DESC);
+
+ALTER TABLE public.scheduled_job_runs ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- CLAIM DUE JOBS
+-- ============================================
+-- Leases up to p_limit enabled jobs whose next run has passed and that no
+-- other runner holds. SKIP LOCKED keeps concurrent runners from claiming
+-- the same job; an expired lease (crashed runner) can be claimed again.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.claim_due_scheduled_jobs(
+  p_runner_id TEXT,
+  p_lease_seconds INTEGER,
+  p_limit INTEGER
+)
+RETURNS SETOF public.scheduled_jobs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.scheduled_jobs SET
+    locked_by = p_runner_id,
+    locked_until = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE id IN (
+    SELECT id FROM public.scheduled_jobs
+    WHERE enabled
+      AND next_run_at <= NOW()
+      AND (locked_until IS NULL OR locked_until < NOW())
+    ORDER BY next_run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- CLAIM ONE JOB
+-- ============================================
+-- Leases a single job for a manual run, whether or not it is due
+-- ============================================
+CREATE OR REPLACE FUNCTION public.claim_scheduled_job(
+  p_id UUID,
+  p_runner_id TEXT,
+  p_lease_seconds INTEGER
+)
+RETURNS public.scheduled_jobs AS $$
+DECLARE
+  v_job public.scheduled_jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM public.scheduled_jobs WHERE id = p_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'JOB_NOT_FOUND' USING DETAIL = p_id::TEXT;
+  END IF;
+  IF v_job.locked_until IS NOT NULL AND v_job.locked_until >= NOW() THEN
+    RAISE EXCEPTION 'JOB_LOCKED' USING DETAIL = v_job.locked_by;
+  END IF;
+
+  UPDATE public.scheduled_jobs SET
+    locked_by = p_runner_id,
+    locked_until = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE id = p_id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,317 @@
+-- ============================================
+-- Import Sessions
+-- Migration: 024
+-- Description: Data imports run in two steps. Uploading stores a dry-run
+--              session (per-row create/update/skip/error with field diffs);
+--              committing applies its planned changes in one transaction and
+--              stamps every affected row with the session id as its import
+--              batch, keeping the prior values so the batch can be undone.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.import_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  import_type VARCHAR(20) NOT NULL,
+  mode VARCHAR(10) NOT NULL,
+  filename VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'previewed',
+
+  -- Dry-run result per source row, for review
+  rows JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Changes to apply on commit: [{ row, entity, action, id, values, expectedUpdatedAt }]
+  plan JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- { total, create, update, skip, error }
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Previews go stale; commit refuses them after this
+  expires_at TIMESTAMPTZ NOT NULL,
+  committed_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  committed_at TIMESTAMPTZ,
+  rolled_back_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  rolled_back_at TIMESTAMPTZ,
+  -- { reverted, skipped: [{ row, entity, id, reason }] }
+  rollback_result JSONB,
+
+  CONSTRAINT valid_import_session_type CHECK (import_type IN ('employees', 'attendance')),
+  CONSTRAINT valid_import_session_mode CHECK (mode IN ('insert', 'update', 'upsert')),
+  CONSTRAINT valid_import_session_status CHECK (status IN ('previewed', 'committed', 'rolled_back'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_sessions_created ON public.import_sessions(created_at DESC);
+
+ALTER TABLE public.import_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Every change a committed session made, with the row as it was before
+CREATE TABLE IF NOT EXISTS public.import_row_changes (
+  id BIGSERIAL PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.import_sessions(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  entity VARCHAR(30) NOT NULL,
+  entity_id UUID NOT NULL,
+  action VARCHAR(10) NOT NULL,
+  before JSONB,
+
+  CONSTRAINT valid_import_row_change_entity CHECK (entity IN ('users', 'attendance_records')),
+  CONSTRAINT valid_import_row_change_action CHECK (action IN ('create', 'update'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_row_changes_session ON public.import_row_changes(session_id, id);
+
+ALTER TABLE public.import_row_changes ENABLE ROW LEVEL SECURITY;
+
+-- Import batch that last wrote the row
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES public.import_sessions(id) ON DELETE SET NULL;
+ALTER TABLE public.attendance_records
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES public.import_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_users_import_batch ON public.users(import_batch_id) WHERE import_batch_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_attendance_records_import_batch ON public.attendance_records(import_batch_id) WHERE import_batch_id IS NOT NULL;
+
+-- ============================================
+-- COMMIT A SESSION
+-- ============================================
+-- Applies the session's plan in one transaction. Updates only go ahead if
+-- the row hasn't changed since the preview (updated_at, to the millisecond
+-- the preview saw); creates only if the email is still free. Any failure
+-- rolls the whole import back.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.commit_import_session(
+  p_session_id UUID,
+  p_user_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session public.import_sessions%ROWTYPE;
+  v_op JSONB;
+  v_values JSONB;
+  v_before JSONB;
+  v_id UUID;
+  v_created INTEGER := 0;
+  v_updated INTEGER := 0;
+BEGIN
+  SELECT * INTO v_session FROM public.import_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'IMPORT_SESSION_NOT_FOUND' USING DETAIL = p_session_id::TEXT;
+  END IF;
+  IF v_session.status <> 'previewed' THEN
+    RAISE EXCEPTION 'IMPORT_SESSION_NOT_PENDING' USING DETAIL = v_session.status;
+  END IF;
+  IF v_session.expires_at < NOW() THEN
+    RAISE EXCEPTION 'IMPORT_SESSION_EXPIRED' USING DETAIL = v_session.expires_at::TEXT;
+  END IF;
+
+  FOR v_op IN SELECT * FROM jsonb_array_elements(v_session.plan)
+  LOOP
+    v_values := v_op->'values';
+    v_id := (v_op->>'id')::UUID;
+    v_before := NULL;
+
+    IF v_op->>'entity' = 'users' THEN
+      IF v_op->>'action' = 'create' THEN
+        IF EXISTS (SELECT 1 FROM public.users WHERE lower(email) = lower(v_values->>'email')) THEN
+          RAISE EXCEPTION 'IMPORT_SESSION_STALE' USING DETAIL = v_op->>'row';
+        END IF;
+
+        INSERT INTO public.users (
+          id, email, password_hash, name, role, department, position,
+          employee_id, phone, start_date, import_batch_id
+        ) VALUES (
+          v_id,
+          v_values->>'email',
+          '',
+          v_values->>'name',
+          COALESCE(v_values->>'role', 'employee'),
+          v_values->>'department',
+          v_values->>'position',
+          v_values->>'employee_id',
+          v_values->>'phone',
+          (v_values->>'start_date')::DATE,
+          p_session_id
+        );
+        v_created := v_created + 1;
+      ELSE
+        -- Credentials stay out of the snapshot
+        SELECT to_jsonb(u) - 'password_hash' INTO v_before FROM public.users u WHERE id = v_id FOR UPDATE;
+        IF v_before IS NULL OR
+           date_trunc('milliseconds', (v_before->>'updated_at')::TIMESTAMPTZ) <> (v_op->>'expectedUpdatedAt')::TIMESTAMPTZ THEN
+          RAISE EXCEPTION 'IMPORT_SESSION_STALE' USING DETAIL = v_op->>'row';
+        END IF;
+
+        UPDATE public.users SET
+          name = CASE WHEN v_values ? 'name' THEN v_values->>'name' ELSE name END,
+          role = CASE WHEN v_values ? 'role' THEN v_values->>'role' ELSE role END,
+          department = CASE WHEN v_values ? 'department' THEN v_values->>'department' ELSE department END,
+          position = CASE WHEN v_values ? 'position' THEN v_values->>'position' ELSE position END,
+          employee_id = CASE WHEN v_values ? 'employee_id' THEN v_values->>'employee_id' ELSE employee_id END,
+          phone = CASE WHEN v_values ? 'phone' THEN v_values->>'phone' ELSE phone END,
+          start_date = CASE WHEN v_values ? 'start_date' THEN (v_values->>'start_date')::DATE ELSE start_date END,
+          import_batch_id = p_session_id
+        WHERE id = v_id;
+        v_updated := v_updated + 1;
+      END IF;
+    ELSE
+      IF v_op->>'action' = 'create' THEN
+        INSERT INTO public.attendance_records (
+          id, user_id, timestamp, type, status, notes, verified, metadata, import_batch_id
+        ) VALUES (
+          v_id,
+          (v_values->>'user_id')::UUID,
+          (v_values->>'timestamp')::TIMESTAMPTZ,
+          v_values->>'type',
+          v_values->>'status',
+          v_values->>'notes',
+          false,
+          jsonb_build_object('method', 'import'),
+          p_session_id
+        );
+        v_created := v_created + 1;
+      ELSE
+        SELECT to_jsonb(a) INTO v_before FROM public.attendance_records a WHERE id = v_id FOR UPDATE;
+        IF v_before IS NULL OR
+           date_trunc('milliseconds', (v_before->>'updated_at')::TIMESTAMPTZ) <> (v_op->>'expectedUpdatedAt')::TIMESTAMPTZ THEN
+          RAISE EXCEPTION 'IMPORT_SESSION_STALE' USING DETAIL = v_op->>'row';
+        END IF;
+
+        UPDATE public.attendance_records SET
+          timestamp = CASE WHEN v_values ? 'timestamp' THEN (v_values->>'timestamp')::TIMESTAMPTZ ELSE timestamp END,
+          status = CASE WHEN v_values ? 'status' THEN v_values->>'status' ELSE status END,
+          notes = CASE WHEN v_values ? 'notes' THEN v_values->>'notes' ELSE notes END,
+          import_batch_id = p_session_id
+        WHERE id = v_id;
+        v_updated := v_updated + 1;
+      END IF;
+    END IF;
+
+    INSERT INTO public.import_row_changes (session_id, row_number, entity, entity_id, action, before)
+    VALUES (p_session_id, (v_op->>'row')::INTEGER, v_op->>'entity', v_id, v_op->>'action', v_before);
+  END LOOP;
+
+  UPDATE public.import_sessions SET
+    status = 'committed',
+    committed_by = p_user_id,
+    committed_at = NOW()
+  WHERE id = p_session_id;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- UNDO A SESSION
+-- ============================================
+-- Reverts exactly the rows a committed session wrote: created rows are
+-- deleted, updated rows get their prior values back. A row changed after
+-- the import (updated_at past the commit, or a later import batch), or a
+-- created user who has attendance from elsewhere, is a conflict: the undo
+-- is refused, or with p_skip_conflicts those rows are left as they are.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.rollback_import_session(
+  p_session_id UUID,
+  p_user_id UUID,
+  p_skip_conflicts BOOLEAN
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session public.import_sessions%ROWTYPE;
+  v_change public.import_row_changes%ROWTYPE;
+  v_current JSONB;
+  v_conflicts JSONB := '[]'::jsonb;
+  v_conflict_ids UUID[] := '{}';
+  v_reason TEXT;
+  v_reverted INTEGER := 0;
+  v_result JSONB;
+BEGIN
+  SELECT * INTO v_session FROM public.import_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'IMPORT_SESSION_NOT_FOUND' USING DETAIL = p_session_id::TEXT;
+  END IF;
+  IF v_session.status <> 'committed' THEN
+    RAISE EXCEPTION 'IMPORT_SESSION_NOT_COMMITTED' USING DETAIL = v_session.status;
+  END IF;
+
+  -- Find conflicts before touching anything
+  FOR v_change IN SELECT * FROM public.import_row_changes WHERE session_id = p_session_id ORDER BY id DESC
+  LOOP
+    IF v_change.entity = 'users' THEN
+      SELECT to_jsonb(u) INTO v_current FROM public.users u WHERE id = v_change.entity_id FOR UPDATE;
+    ELSE
+      SELECT to_jsonb(a) INTO v_current FROM public.attendance_records a WHERE id = v_change.entity_id FOR UPDATE;
+    END IF;
+
+    v_reason := NULL;
+    IF v_current IS NULL THEN
+      -- A created row that is already gone needs no undo
+      IF v_change.action = 'update' THEN
+        v_reason := 'deleted since import';
+      END IF;
+    ELSIF (v_current->>'import_batch_id') IS DISTINCT FROM p_session_id::TEXT THEN
+      v_reason := 'changed by a later import';
+    ELSIF (v_current->>'updated_at')::TIMESTAMPTZ <> v_session.committed_at THEN
+      v_reason := 'edited since import';
+    ELSIF v_change.entity = 'users' AND v_change.action = 'create' AND EXISTS (
+      SELECT 1 FROM public.attendance_records
+      WHERE user_id = v_change.entity_id AND import_batch_id IS DISTINCT FROM p_session_id
+    ) THEN
+      v_reason := 'has attendance since import';
+    END IF;
+
+    IF v_reason IS NOT NULL THEN
+      v_conflicts := v_conflicts || jsonb_build_object(
+        'row', v_change.row_number, 'entity', v_change.entity, 'id', v_change.entity_id, 'reason', v_reason
+      );
+      v_conflict_ids := v_conflict_ids || v_change.entity_id;
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_conflicts) > 0 AND NOT p_skip_conflicts THEN
+    RAISE EXCEPTION 'IMPORT_ROLLBACK_CONFLICT' USING DETAIL = v_conflicts::TEXT;
+  END IF;
+
+  FOR v_change IN SELECT * FROM public.import_row_changes WHERE session_id = p_session_id ORDER BY id DESC
+  LOOP
+    CONTINUE WHEN v_change.entity_id = ANY(v_conflict_ids);
+
+    IF v_change.action = 'create' THEN
+      IF v_change.entity = 'users' THEN
+        DELETE FROM public.users WHERE id = v_change.entity_id;
+      ELSE
+        DELETE FROM public.attendance_records WHERE id = v_change.entity_id;
+      END IF;
+    ELSIF v_change.entity = 'users' THEN
+      UPDATE public.users SET
+        name = v_change.before->>'name',
+        role = v_change.before->>'role',
+        department = v_change.before->>'department',
+        position = v_change.before->>'position',
+        employee_id = v_change.before->>'employee_id',
+        phone = v_change.before->>'phone',
+        start_date = (v_change.before->>'start_date')::DATE,
+        import_batch_id = (v_change.before->>'import_batch_id')::UUID
+      WHERE id = v_change.entity_id;
+    ELSE
+      UPDATE public.attendance_records SET
+        timestamp = (v_change.before->>'timestamp')::TIMESTAMPTZ,
+        status = v_change.before->>'status',
+        notes = v_change.before->>'notes',
+        import_batch_id = (v_change.before->>'import_batch_id')::UUID
+      WHERE id = v_change.entity_id;
+    END IF;
+    v_reverted := v_reverted + 1;
+  END LOOP;
+
+  v_result := jsonb_build_object('reverted', v_reverted, 'skipped', v_conflicts);
+
+  UPDATE public.import_sessions SET
+    status = 'rolled_back',
+    rolled_back_by = p_user_id,
+    rolled_back_at = NOW(),
+    rollback_result = v_result
+  WHERE id = p_session_id;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,164 @@
+-- ============================================
+-- Punch Log Import
+-- Migration: 025
+-- Description: Raw punch logs from fingerprint/RFID time clocks are imported
+--              as a third import session type. Badge or PIN numbers on the
+--              terminals map to employees through external IDs, scoped by
+--              source so two terminal systems can reuse the same numbers.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.employee_external_ids (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Terminal system or site the number belongs to
+  source VARCHAR(50) NOT NULL DEFAULT 'default',
+  external_id VARCHAR(100) NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT unique_employee_external_id UNIQUE (source, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_external_ids_user ON public.employee_external_ids(user_id);
+
+ALTER TABLE public.employee_external_ids ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_employee_external_ids_updated_at ON public.employee_external_ids;
+CREATE TRIGGER update_employee_external_ids_updated_at BEFORE UPDATE ON public.employee_external_ids
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.import_sessions DROP CONSTRAINT IF EXISTS valid_import_session_type;
+ALTER TABLE public.import_sessions ADD CONSTRAINT valid_import_session_type
+  CHECK (import_type IN ('employees', 'attendance', 'punch_log'));
+
+-- Type-specific options the preview ran with, e.g. { "format": "zkteco_attlog", "source": "default" }
+ALTER TABLE public.import_sessions ADD COLUMN IF NOT EXISTS options JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================
+-- COMMIT A SESSION
+-- ============================================
+-- As in 024, except that attendance creates keep metadata from the plan
+-- (punch source, badge, terminal) alongside the import marker.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.commit_import_session(
+  p_session_id UUID,
+  p_user_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_session public.import_sessions%ROWTYPE;
+  v_op JSONB;
+  v_values JSONB;
+  v_before JSONB;
+  v_id UUID;
+  v_created INTEGER := 0;
+  v_updated INTEGER := 0;
+BEGIN
+  SELECT * INTO v_session FROM public.import_sessions WHERE id = p_session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'IMPORT_SESSION_NOT_FOUND' USING DETAIL = p_session_id::TEXT;
+  END IF;
+  IF v_session.status <> 'previewed' THEN
+    RAISE EXCEPTION 'IMPORT_SESSION_NOT_PENDING' USING DETAIL = v_session.status;
+  END IF;
+  IF v_session.expires_at < NOW() THEN
+    RAISE EXCEPTION 'IMPORT_SESSION_EXPIRED' USING DETAIL = v_session.expires_at::TEXT;
+  END IF;
+
+  FOR v_op IN SELECT * FROM jsonb_array_elements(v_session.plan)
+  LOOP
+    v_values := v_op->'values';
+    v_id := (v_op->>'id')::UUID;
+    v_before := NULL;
+
+    IF v_op->>'entity' = 'users' THEN
+      IF v_op->>'action' = 'create' THEN
+        IF EXISTS (SELECT 1 FROM public.users WHERE lower(email) = lower(v_values->>'email')) THEN
+          RAISE EXCEPTION 'IMPORT_SESSION_STALE' USING DETAIL = v_op->>'row';
+        END IF;
+
+        INSERT INTO public.users (
+          id, email, password_hash, name, role, department, position,
+          employee_id, phone, start_date, import_batch_id
+        ) VALUES (
+          v_id,
+          v_values->>'email',
+          '',
+          v_values->>'name',
+          COALESCE(v_values->>'role', 'employee'),
+          v_values->>'department',
+          v_values->>'position',
+          v_values->>'employee_id',
+          v_values->>'phone',
+          (v_values->>'start_date')::DATE,
+          p_session_id
+        );
+        v_created := v_created + 1;
+      ELSE
+        -- Credentials stay out of the snapshot
+        SELECT to_jsonb(u) - 'password_hash' INTO v_before FROM public.users u WHERE id = v_id FOR UPDATE;
+        IF v_before IS NULL OR
+           date_trunc('milliseconds', (v_before->>'updated_at')::TIMESTAMPTZ) <> (v_op->>'expectedUpdatedAt')::TIMESTAMPTZ THEN
+          RAISE EXCEPTION 'IMPORT_SESSION_STALE' USING DETAIL = v_op->>'row';
+        END IF;
+
+        UPDATE public.users SET
+          name = CASE WHEN v_values ? 'name' THEN v_values->>'name' ELSE name END,
+          role = CASE WHEN v_values ? 'role' THEN v_values->>'role' ELSE role END,
+          department = CASE WHEN v_values ? 'department' THEN v_values->>'department' ELSE department END,
+          position = CASE WHEN v_values ? 'position' THEN v_values->>'position' ELSE position END,
+          employee_id = CASE WHEN v_values ? 'employee_id' THEN v_values->>'employee_id' ELSE employee_id END,
+          phone = CASE WHEN v_values ? 'phone' THEN v_values->>'phone' ELSE phone END,
+          start_date = CASE WHEN v_values ? 'start_date' THEN (v_values->>'start_date')::DATE ELSE start_date END,
+          import_batch_id = p_session_id
+        WHERE id = v_id;
+        v_updated := v_updated + 1;
+      END IF;
+    ELSE
+      IF v_op->>'action' = 'create' THEN
+        INSERT INTO public.attendance_records (
+          id, user_id, timestamp, type, status, notes, verified, metadata, import_batch_id
+        ) VALUES (
+          v_id,
+          (v_values->>'user_id')::UUID,
+          (v_values->>'timestamp')::TIMESTAMPTZ,
+          v_values->>'type',
+          v_values->>'status',
+          v_values->>'notes',
+          false,
+          COALESCE(v_values->'metadata', '{}'::jsonb) || jsonb_build_object('method', 'import'),
+          p_session_id
+        );
+        v_created := v_created + 1;
+      ELSE
+        SELECT to_jsonb(a) INTO v_before FROM public.attendance_records a WHERE id = v_id FOR UPDATE;
+        IF v_before IS NULL OR
+           date_trunc('milliseconds', (v_before->>'updated_at')::TIMESTAMPTZ) <> (v_op->>'expectedUpdatedAt')::TIMESTAMPTZ THEN
+          RAISE EXCEPTION 'IMPORT_SESSION_STALE' USING DETAIL = v_op->>'row';
+        END IF;
+
+        UPDATE public.attendance_records SET
+          timestamp = CASE WHEN v_values ? 'timestamp' THEN (v_values->>'timestamp')::TIMESTAMPTZ ELSE timestamp END,
+          status = CASE WHEN v_values ? 'status' THEN v_values->>'status' ELSE status END,
+          notes = CASE WHEN v_values ? 'notes' THEN v_values->>'notes' ELSE notes END,
+          import_batch_id = p_session_id
+        WHERE id = v_id;
+        v_updated := v_updated + 1;
+      END IF;
+    END IF;
+
+    INSERT INTO public.import_row_changes (session_id, row_number, entity, entity_id, action, before)
+    VALUES (p_session_id, (v_op->>'row')::INTEGER, v_op->>'entity', v_id, v_op->>'action', v_before);
+  END LOOP;
+
+  UPDATE public.import_sessions SET
+    status = 'committed',
+    committed_by = p_user_id,
+    committed_at = NOW()
+  WHERE id = p_session_id;
+
+  RETURN jsonb_build_object('created', v_created, 'updated', v_updated);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,376 @@
+-- ============================================
+-- Data Archival
+-- Migration: 026
+-- Description: Archival, cleanup and retention rules are stored instead of
+--              hard-coded. Archiving moves matching rows into gzip
+--              compressed, SHA-256 checksummed JSON objects in the
+--              archives storage bucket; archived_records indexes every row
+--              so it can be listed, restored or purged when its retention
+--              expires. Rows leave their table in the same transaction that
+--              indexes them, and only if nothing changed them since they
+--              were packed.
+-- ============================================
+
+-- Archive objects; private, read server-side only
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'archives',
+  'archives',
+  false,
+  52428800, -- 50MB limit
+  ARRAY['application/gzip']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.data_archival_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_type VARCHAR(20) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  entity_type VARCHAR(20) NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- [{ "field", "operator", "value", "logicalOperator" }]
+  conditions JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Archival: { "actions" }; cleanup: { "dryRun" };
+  -- retention: { "retentionPeriod", "archivalAction", "archivalDelay" }
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- { "enabled", "frequency", "time" }; runs through a scheduled job of kind 'archival'
+  schedule JSONB,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT valid_archival_rule_type CHECK (rule_type IN ('archival', 'cleanup', 'retention')),
+  CONSTRAINT valid_archival_rule_entity CHECK (
+    entity_type IN ('employees', 'attendance', 'schedules')
+    OR (rule_type = 'cleanup' AND entity_type IN ('logs', 'temp_files'))
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_archival_rules_type ON public.data_archival_rules(rule_type);
+
+ALTER TABLE public.data_archival_rules ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_data_archival_rules_updated_at ON public.data_archival_rules;
+CREATE TRIGGER update_data_archival_rules_updated_at BEFORE UPDATE ON public.data_archival_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.archive_objects (
+  id UUID PRIMARY KEY,
+  entity_type VARCHAR(20) NOT NULL,
+  source_table VARCHAR(50) NOT NULL,
+  rule_id UUID REFERENCES public.data_archival_rules(id) ON DELETE SET NULL,
+  -- Archival or retention run that wrote the object
+  run_id VARCHAR(100) NOT NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  record_count INTEGER NOT NULL,
+  -- Serialized rows before compression, and the stored object
+  original_size BIGINT NOT NULL,
+  compressed_size BIGINT NOT NULL,
+  -- SHA-256 of the stored (compressed) bytes, hex
+  checksum VARCHAR(64) NOT NULL,
+  compression VARCHAR(10) NOT NULL DEFAULT 'gzip',
+  archived_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Set once no archived row is left in the object and it was removed from storage
+  purged_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_archive_objects_run ON public.archive_objects(run_id);
+
+ALTER TABLE public.archive_objects ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS public.archived_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  object_id UUID NOT NULL REFERENCES public.archive_objects(id) ON DELETE CASCADE,
+  entity_type VARCHAR(20) NOT NULL,
+  original_id UUID NOT NULL,
+  -- Serialized size of the row
+  size INTEGER NOT NULL,
+  -- Identifying fields, for listing without opening the object
+  summary JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status VARCHAR(20) NOT NULL DEFAULT 'archived',
+  retention_expires_at TIMESTAMPTZ,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  restored_at TIMESTAMPTZ,
+  restored_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+
+  CONSTRAINT valid_archived_record_status CHECK (status IN ('archived', 'restored'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_archived_records_object ON public.archived_records(object_id);
+CREATE INDEX IF NOT EXISTS idx_archived_records_entity ON public.archived_records(entity_type, archived_at DESC);
+CREATE INDEX IF NOT EXISTS idx_archived_records_original ON public.archived_records(original_id);
+CREATE INDEX IF NOT EXISTS idx_archived_records_expiry
+  ON public.archived_records(retention_expires_at) WHERE status = 'archived';
+
+ALTER TABLE public.archived_records ENABLE ROW LEVEL SECURITY;
+
+-- Set by "flag" archival actions
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS archival_flag VARCHAR(100);
+ALTER TABLE public.attendance_records ADD COLUMN IF NOT EXISTS archival_flag VARCHAR(100);
+ALTER TABLE public.schedules ADD COLUMN IF NOT EXISTS archival_flag VARCHAR(100);
+
+-- Retention and scheduled rules run through the job scheduler
+ALTER TABLE public.scheduled_jobs DROP CONSTRAINT IF EXISTS valid_scheduled_job_kind;
+ALTER TABLE public.scheduled_jobs ADD CONSTRAINT valid_scheduled_job_kind
+  CHECK (kind IN ('report', 'export', 'retention', 'archival'));
+
+-- ============================================
+-- BLOCKED ROWS
+-- ============================================
+-- Rows that other records still depend on. Removing them would cascade
+-- into (or be refused by) attendance, leave, payroll and schedule data,
+-- so archival and cleanup skip them.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.archival_blocked_ids(
+  p_table TEXT,
+  p_ids UUID[]
+)
+RETURNS UUID[] AS $$
+BEGIN
+  IF p_table = 'users' THEN
+    RETURN ARRAY(
+      SELECT u.id FROM unnest(p_ids) AS u(id)
+      WHERE EXISTS (SELECT 1 FROM public.attendance_records WHERE user_id = u.id)
+         OR EXISTS (SELECT 1 FROM public.schedule_assignments WHERE user_id = u.id)
+         OR EXISTS (SELECT 1 FROM public.leave_requests WHERE user_id = u.id)
+         OR EXISTS (SELECT 1 FROM public.overtime_records WHERE user_id = u.id)
+         OR EXISTS (SELECT 1 FROM public.payroll_entries WHERE user_id = u.id)
+         OR EXISTS (SELECT 1 FROM public.schedules WHERE created_by = u.id)
+         OR EXISTS (SELECT 1 FROM public.reports WHERE created_by = u.id)
+    );
+  ELSIF p_table = 'schedules' THEN
+    RETURN ARRAY(
+      SELECT s.id FROM unnest(p_ids) AS s(id)
+      WHERE EXISTS (SELECT 1 FROM public.schedule_assignments WHERE schedule_id = s.id)
+    );
+  END IF;
+
+  RETURN ARRAY[]::UUID[];
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- ARCHIVE OR DELETE ROWS
+-- ============================================
+-- Removes p_ids from p_table. With p_object, the rows were packed into that
+-- archive object beforehand: the object and its index rows (p_records:
+-- [{ "original_id", "size", "summary", "retention_expires_at", "updated_at" }])
+-- are written in the same transaction, and any row that is gone or was
+-- updated since it was packed aborts the whole batch. Without p_object the
+-- rows are deleted outright (cleanup). Returns the number of rows removed.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.archive_records(
+  p_table TEXT,
+  p_ids UUID[],
+  p_object JSONB DEFAULT NULL,
+  p_records JSONB DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_locked INTEGER;
+  v_changed INTEGER;
+  v_removed INTEGER;
+BEGIN
+  IF p_table NOT IN ('users', 'attendance_records', 'schedules', 'audit_logs') THEN
+    RAISE EXCEPTION 'ARCHIVE_TABLE_NOT_SUPPORTED' USING DETAIL = p_table;
+  END IF;
+
+  EXECUTE format('SELECT count(*) FROM (SELECT 1 FROM public.%I WHERE id = ANY($1) FOR UPDATE) locked', p_table)
+    INTO v_locked USING p_ids;
+
+  IF cardinality(public.archival_blocked_ids(p_table, p_ids)) > 0 THEN
+    RAISE EXCEPTION 'ARCHIVE_RECORDS_BLOCKED' USING DETAIL = p_table;
+  END IF;
+
+  IF p_object IS NOT NULL THEN
+    IF v_locked <> cardinality(p_ids) THEN
+      RAISE EXCEPTION 'ARCHIVE_RECORDS_CHANGED' USING DETAIL = p_table;
+    END IF;
+
+    IF p_table <> 'audit_logs' THEN
+      EXECUTE format(
+        'SELECT count(*) FROM public.%I t
+         JOIN jsonb_to_recordset($1) AS r(original_id UUID, updated_at TIMESTAMPTZ) ON r.original_id = t.id
+         WHERE t.updated_at IS DISTINCT FROM r.updated_at',
+        p_table
+      ) INTO v_changed USING p_records;
+
+      IF v_changed > 0 THEN
+        RAISE EXCEPTION 'ARCHIVE_RECORDS_CHANGED' USING DETAIL = p_table;
+      END IF;
+    END IF;
+
+    INSERT INTO public.archive_objects (
+      id, entity_type, source_table, rule_id, run_id, storage_path, record_count,
+      original_size, compressed_size, checksum, archived_by
+    ) VALUES (
+      (p_object->>'id')::UUID,
+      p_object->>'entity_type',
+      p_table,
+      (p_object->>'rule_id')::UUID,
+      p_object->>'run_id',
+      p_object->>'storage_path',
+      cardinality(p_ids),
+      (p_object->>'original_size')::BIGINT,
+      (p_object->>'compressed_size')::BIGINT,
+      p_object->>'checksum',
+      (p_object->>'archived_by')::UUID
+    );
+
+    INSERT INTO public.archived_records (object_id, entity_type, original_id, size, summary, retention_expires_at)
+    SELECT (p_object->>'id')::UUID, p_object->>'entity_type', r.original_id, r.size, COALESCE(r.summary, '{}'::jsonb), r.retention_expires_at
+    FROM jsonb_to_recordset(p_records) AS r(original_id UUID, size INTEGER, summary JSONB, retention_expires_at TIMESTAMPTZ);
+  END IF;
+
+  EXECUTE format('DELETE FROM public.%I WHERE id = ANY($1)', p_table) USING p_ids;
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  RETURN v_removed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- PURGE EMPTIED OBJECTS
+-- ============================================
+-- Marks objects that no longer hold an archived row as purged and returns
+-- their storage paths, for the caller to remove from the bucket.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.purge_emptied_archive_objects(p_object_ids UUID[])
+RETURNS TEXT[] AS $$
+  WITH purged AS (
+    UPDATE public.archive_objects o SET purged_at = NOW()
+    WHERE o.id = ANY(p_object_ids)
+      AND o.purged_at IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.archived_records r WHERE r.object_id = o.id AND r.status = 'archived'
+      )
+    RETURNING o.storage_path
+  )
+  SELECT COALESCE(array_agg(storage_path), ARRAY[]::TEXT[]) FROM purged;
+$$ LANGUAGE sql;
+
+-- ============================================
+-- RESTORE ROWS
+-- ============================================
+-- Inserts rows read back from an archive object (p_rows, as archived) into
+-- p_table and marks their index entries restored. A row whose id is taken
+-- again, or that points at a record which no longer exists, aborts the
+-- restore.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.restore_archived_records(
+  p_archived_ids UUID[],
+  p_table TEXT,
+  p_rows JSONB,
+  p_user_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_pending INTEGER;
+  v_object_ids UUID[];
+BEGIN
+  IF p_table NOT IN ('users', 'attendance_records', 'schedules') THEN
+    RAISE EXCEPTION 'ARCHIVE_TABLE_NOT_SUPPORTED' USING DETAIL = p_table;
+  END IF;
+
+  SELECT count(*), array_agg(DISTINCT object_id) INTO v_pending, v_object_ids
+  FROM (
+    SELECT object_id FROM public.archived_records
+    WHERE id = ANY(p_archived_ids) AND status = 'archived'
+    FOR UPDATE
+  ) pending;
+
+  IF v_pending <> cardinality(p_archived_ids) THEN
+    RAISE EXCEPTION 'ARCHIVE_RECORD_NOT_PENDING';
+  END IF;
+
+  BEGIN
+    EXECUTE format('INSERT INTO public.%I SELECT * FROM jsonb_populate_recordset(NULL::public.%I, $1)', p_table, p_table)
+      USING p_rows;
+  EXCEPTION
+    WHEN unique_violation THEN
+      RAISE EXCEPTION 'ARCHIVE_RESTORE_CONFLICT' USING DETAIL = SQLERRM;
+    WHEN foreign_key_violation THEN
+      RAISE EXCEPTION 'ARCHIVE_RESTORE_MISSING_REFERENCE' USING DETAIL = SQLERRM;
+  END;
+
+  UPDATE public.archived_records SET
+    status = 'restored',
+    restored_at = NOW(),
+    restored_by = p_user_id
+  WHERE id = ANY(p_archived_ids);
+
+  RETURN jsonb_build_object(
+    'restored', v_pending,
+    'emptiedObjects', to_jsonb(public.purge_emptied_archive_objects(v_object_ids))
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- DISCARD AND EXPIRE
+-- ============================================
+-- Drops index entries (discarding archived rows for good) and purges the
+-- objects left empty. Expiry drops at most p_limit entries per call.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.discard_archived_records(p_archived_ids UUID[])
+RETURNS JSONB AS $$
+DECLARE
+  v_object_ids UUID[];
+  v_discarded INTEGER;
+BEGIN
+  WITH discarded AS (
+    DELETE FROM public.archived_records WHERE id = ANY(p_archived_ids)
+    RETURNING object_id
+  )
+  SELECT count(*), array_agg(DISTINCT object_id) INTO v_discarded, v_object_ids FROM discarded;
+
+  RETURN jsonb_build_object(
+    'discarded', v_discarded,
+    'emptiedObjects', to_jsonb(public.purge_emptied_archive_objects(COALESCE(v_object_ids, ARRAY[]::UUID[])))
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.purge_expired_archived_records(p_limit INTEGER)
+RETURNS JSONB AS $$
+DECLARE
+  v_object_ids UUID[];
+  v_purged INTEGER;
+BEGIN
+  WITH expired AS (
+    DELETE FROM public.archived_records WHERE id IN (
+      SELECT id FROM public.archived_records
+      WHERE status = 'archived' AND retention_expires_at < NOW()
+      ORDER BY retention_expires_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING object_id
+  )
+  SELECT count(*), array_agg(DISTINCT object_id) INTO v_purged, v_object_ids FROM expired;
+
+  RETURN jsonb_build_object(
+    'purged', v_purged,
+    'emptiedObjects', to_jsonb(public.purge_emptied_archive_objects(COALESCE(v_object_ids, ARRAY[]::UUID[])))
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- DEFAULTS
+-- ============================================
+-- A starting attendance policy, disabled until an admin reviews it, and the
+-- daily job that applies enabled policies and purges expired archives
+-- ============================================
+INSERT INTO public.data_archival_rules (rule_type, name, description, entity_type, enabled, settings)
+SELECT 'retention', 'Attendance Data Retention',
+  'Archive attendance older than a year; purge archived copies after seven years',
+  'attendance', false,
+  '{ "retentionPeriod": 2555, "archivalAction": "archive", "archivalDelay": 365 }'::jsonb
+WHERE NOT EXISTS (SELECT 1 FROM public.data_archival_rules WHERE rule_type = 'retention');
+
+INSERT INTO public.scheduled_jobs (name, kind, format, frequency, time_of_day, next_run_at)
+SELECT 'Data retention', 'retention', 'json', 'daily', '02:00', NOW()
+WHERE NOT EXISTS (SELECT 1 FROM public.scheduled_jobs WHERE kind = 'retention');
@@ -0,0 +1,47 @@
+-- ============================================
+-- Single-use Nonces
+-- Migration: 027
+-- Description: Ids that may be redeemed only once (liveness challenges and
+--              tokens, signed request nonces). Kept in the database rather
+--              than per server process, so a token can't be redeemed once
+--              on every instance. Rows are only needed until the id would
+--              have expired anyway.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.used_nonces (
+  scope VARCHAR(50) NOT NULL,
+  nonce VARCHAR(200) NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (scope, nonce)
+);
+
+CREATE INDEX IF NOT EXISTS idx_used_nonces_expiry ON public.used_nonces(scope, expires_at);
+
+-- Server-side only; no client policies
+ALTER TABLE public.used_nonces ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- CONSUME A NONCE
+-- ============================================
+-- Returns true the first time an id is seen in its scope and false on every
+-- later attempt. Expired ids of the scope are pruned on the way.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.consume_nonce(
+  p_scope TEXT,
+  p_nonce TEXT,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  DELETE FROM public.used_nonces
+  WHERE scope = p_scope AND expires_at < NOW();
+
+  INSERT INTO public.used_nonces (scope, nonce, expires_at)
+  VALUES (p_scope, p_nonce, p_expires_at)
+  ON CONFLICT (scope, nonce) DO NOTHING;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,128 @@
+-- ============================================
+-- Atomic Leave Reservation
+-- Migration: 028
+-- Description: Submitting a request checks for overlapping leave, checks the
+--              available balance and reserves pending days in one
+--              transaction, with the employee's balance row locked, so two
+--              concurrent submissions can't both pass the checks. Balance
+--              settlements are applied as increments for the same reason.
+-- ============================================
+
+-- ============================================
+-- SUBMIT A LEAVE REQUEST
+-- ============================================
+-- p_balance_id is the balance to reserve from, or NULL for leave types that
+-- don't deduct a balance. Available days mirror getAvailableDays in
+-- lib/leave.ts: carried-over days past their expiry only count as far as
+-- they were already used.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.submit_leave_request(
+  p_request JSONB,
+  p_balance_id UUID,
+  p_as_of DATE
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_user_id UUID := (p_request->>'user_id')::UUID;
+  v_start DATE := (p_request->>'start_date')::DATE;
+  v_end DATE := (p_request->>'end_date')::DATE;
+  v_days DECIMAL(5,2) := (p_request->>'days')::DECIMAL;
+  v_balance public.leave_balances;
+  v_carried_over DECIMAL(5,2);
+  v_available DECIMAL(5,2);
+  v_request public.leave_requests;
+BEGIN
+  -- Serialise submissions per employee; covers types without a balance row
+  PERFORM 1 FROM public.users WHERE id = v_user_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.leave_requests
+    WHERE user_id = v_user_id
+      AND status IN ('pending_manager', 'pending_hr', 'approved')
+      AND start_date <= v_end
+      AND end_date >= v_start
+  ) THEN
+    RAISE EXCEPTION 'LEAVE_OVERLAP';
+  END IF;
+
+  IF p_balance_id IS NOT NULL THEN
+    SELECT * INTO v_balance
+    FROM public.leave_balances
+    WHERE id = p_balance_id AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'LEAVE_BALANCE_NOT_FOUND';
+    END IF;
+
+    v_carried_over := CASE
+      WHEN v_balance.carry_over_expires_at IS NOT NULL AND p_as_of > v_balance.carry_over_expires_at
+        THEN LEAST(v_balance.carried_over_days, v_balance.used_days)
+      ELSE v_balance.carried_over_days
+    END;
+    v_available := v_balance.accrued_days + v_carried_over + v_balance.adjustment_days
+      - v_balance.used_days - v_balance.pending_days;
+
+    IF v_days > v_available THEN
+      RAISE EXCEPTION 'INSUFFICIENT_BALANCE' USING DETAIL = v_available::TEXT;
+    END IF;
+
+    UPDATE public.leave_balances
+    SET pending_days = pending_days + v_days,
+        updated_at = NOW()
+    WHERE id = p_balance_id;
+  END IF;
+
+  INSERT INTO public.leave_requests (
+    id, user_id, leave_type_id, start_date, end_date, half_day, days, reason,
+    supporting_document, status, manager_id, metadata
+  )
+  VALUES (
+    (p_request->>'id')::UUID,
+    v_user_id,
+    (p_request->>'leave_type_id')::UUID,
+    v_start,
+    v_end,
+    COALESCE((p_request->>'half_day')::BOOLEAN, false),
+    v_days,
+    p_request->>'reason',
+    p_request->>'supporting_document',
+    'pending_manager',
+    (p_request->>'manager_id')::UUID,
+    p_request->'metadata'
+  )
+  RETURNING * INTO v_request;
+
+  RETURN to_jsonb(v_request);
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- SETTLE A LEAVE BALANCE
+-- ============================================
+-- Applies pending/used deltas in place instead of writing back a balance
+-- read earlier, so settlements don't overwrite a concurrent reservation.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.adjust_leave_balance(
+  p_balance_id UUID,
+  p_pending_delta DECIMAL,
+  p_used_delta DECIMAL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_balance public.leave_balances;
+BEGIN
+  UPDATE public.leave_balances
+  SET pending_days = GREATEST(0, pending_days + p_pending_delta),
+      used_days = GREATEST(0, used_days + p_used_delta),
+      updated_at = NOW()
+  WHERE id = p_balance_id
+  RETURNING * INTO v_balance;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'LEAVE_BALANCE_NOT_FOUND';
+  END IF;
+
+  RETURN to_jsonb(v_balance);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,73 @@
+-- ============================================
+-- Atomic Payroll Close
+-- Migration: 029
+-- Description: Closing a period stores its entries and locks it in one
+--              transaction, with the period row locked first, so a close
+--              can't leave entries without a closed period (or the other
+--              way round) and two concurrent closes can't interleave.
+-- ============================================
+
+-- ============================================
+-- CLOSE A PAYROLL PERIOD
+-- ============================================
+-- p_entries are payroll_entries rows (snake_case JSON) calculated by
+-- lib/payroll.ts against the period as it was at p_close_count. If the
+-- period was closed (or closed and reopened) since, the entries may be
+-- stale and the close is refused.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.close_payroll_period(
+  p_period_id UUID,
+  p_close_count INTEGER,
+  p_closed_by UUID,
+  p_entries JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_period public.payroll_periods;
+  v_entries JSONB;
+BEGIN
+  SELECT * INTO v_period
+  FROM public.payroll_periods
+  WHERE id = p_period_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PAYROLL_PERIOD_NOT_FOUND';
+  END IF;
+
+  IF v_period.status = 'closed' THEN
+    RAISE EXCEPTION 'ALREADY_CLOSED';
+  END IF;
+
+  IF v_period.close_count <> p_close_count THEN
+    RAISE EXCEPTION 'PERIOD_CHANGED';
+  END IF;
+
+  DELETE FROM public.payroll_entries WHERE period_id = p_period_id;
+
+  -- Every entry belongs to this period, whatever the payload says
+  INSERT INTO public.payroll_entries
+  SELECT *
+  FROM jsonb_populate_recordset(
+    NULL::public.payroll_entries,
+    (
+      SELECT COALESCE(jsonb_agg(entry || jsonb_build_object('period_id', p_period_id)), '[]'::JSONB)
+      FROM jsonb_array_elements(p_entries) AS entry
+    )
+  );
+
+  UPDATE public.payroll_periods
+  SET status = 'closed',
+      closed_at = NOW(),
+      closed_by = p_closed_by,
+      close_count = close_count + 1
+  WHERE id = p_period_id
+  RETURNING * INTO v_period;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(e) ORDER BY e.user_id), '[]'::JSONB) INTO v_entries
+  FROM public.payroll_entries e
+  WHERE e.period_id = p_period_id;
+
+  RETURN jsonb_build_object('period', to_jsonb(v_period), 'entries', v_entries);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,10 @@
+-- ============================================
+-- Drop Sync Device Keys
+-- Migration: 030
+-- Description: Sync uploads are no longer signed with self-registered
+--              per-browser keys. Registered kiosks sign them with the key an
+--              admin enrolled (kiosk_devices, migration 018); other devices
+--              upload with their bearer token only.
+-- ============================================
+
+DROP TABLE IF EXISTS public.sync_device_keys;
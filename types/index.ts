@@ -183,6 +183,8 @@ export interface AttendanceStats {
   total_days: number
   present_days: number
   absent_days: number
+  on_leave_days: number
+  holiday_days: number
   late_days: number
   early_leave_days: number
   total_work_hours: number